@@ -0,0 +1,389 @@
+"use client";
+
+import { useState, useEffect, useMemo } from "react";
+import Link from "next/link";
+import { accountingEngine } from "@/lib/accounting/transactionBridge";
+import { InvoiceProduct, SalesInvoice, SalesInvoiceLineInput } from "@/lib/accounting/invoicing";
+import { TradeParty } from "@/lib/accounting/subledgers";
+import type { AccountingConfig } from "@/lib/accounting/types";
+import type { Location, PaginatedResponse, Product } from "@/lib/inventory/types";
+import type { InvoiceSeller } from "@/lib/types";
+import { VATSupplyType, vatSupplyLabel } from "@/lib/taxRules/vatClassification";
+import { getAvailableWHTTypes } from "@/lib/taxRules/wht";
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+interface LineForm {
+  id: string;
+  productId: string; // empty for a free-text service
+  description: string;
+  quantity: string;
+  unitPrice: string;
+  vatClass: VATSupplyType | "";
+  whtPaymentType: string;
+}
+
+const emptyLine = (): LineForm => ({
+  id: String(Date.now() + Math.random()),
+  productId: "",
+  description: "",
+  quantity: "1",
+  unitPrice: "",
+  vatClass: "",
+  whtPaymentType: "",
+});
+
+const emptyCustomer = { name: "", tin: "", address: "", email: "", paymentTermsDays: "30", withholdsTax: true };
+
+const inputClass = "w-full px-3 py-2 border border-gray-200 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500";
+
+// Seller details for the invoice header, from the saved accounting config
+const invoiceSeller = (): InvoiceSeller | undefined => {
+  const config: Partial<AccountingConfig> = JSON.parse(localStorage.getItem("insight::accounting-config") || "{}");
+  if (!config.companyName?.trim()) return undefined;
+  return {
+    name: config.companyName.trim(),
+    ...(config.taxIdNumber ? { tin: config.taxIdNumber } : {}),
+    ...(config.vatNumber ? { vatNumber: config.vatNumber } : {}),
+  };
+};
+
+const statusStyles: Record<SalesInvoice["status"], string> = {
+  draft: "bg-gray-100 text-gray-600",
+  issued: "bg-green-100 text-green-700",
+  void: "bg-red-100 text-red-600",
+};
+
+// =============================================================================
+// COMPONENT
+// =============================================================================
+
+export default function SalesInvoicesPage() {
+  const [invoices, setInvoices] = useState<SalesInvoice[]>([]);
+  const [customers, setCustomers] = useState<TradeParty[]>([]);
+  const [products, setProducts] = useState<InvoiceProduct[]>([]);
+  const [locations, setLocations] = useState<Location[]>([]);
+  const [locationId, setLocationId] = useState("");
+  const [issuing, setIssuing] = useState("");
+  const [showCustomerForm, setShowCustomerForm] = useState(false);
+  const [customerForm, setCustomerForm] = useState(emptyCustomer);
+  const [customerId, setCustomerId] = useState("");
+  const [issueDate, setIssueDate] = useState(new Date().toISOString().split("T")[0]);
+  const [notes, setNotes] = useState("");
+  const [lines, setLines] = useState<LineForm[]>([emptyLine()]);
+  const [error, setError] = useState("");
+
+  useEffect(() => {
+    accountingEngine.load();
+    const refresh = () => {
+      setInvoices([...accountingEngine.getSalesInvoices()].reverse());
+      setCustomers(accountingEngine.getSubledgers().parties.filter((party) => party.kind === "receivable"));
+    };
+    refresh();
+    const unsubscribe = accountingEngine.subscribe(refresh);
+
+    fetch("/api/inventory/products?limit=100")
+      .then((res) => (res.ok ? res.json() : null))
+      .then((data: PaginatedResponse<Product> | null) => {
+        if (data) setProducts(data.data);
+      })
+      .catch((e) => console.error(e));
+
+    fetch("/api/inventory/locations")
+      .then((res) => (res.ok ? res.json() : null))
+      .then((data: Location[] | null) => {
+        if (data) setLocations(data);
+      })
+      .catch((e) => console.error(e));
+
+    return () => {
+      unsubscribe();
+    };
+  }, []);
+
+  const whtTypes = useMemo(() => getAvailableWHTTypes(), []);
+  const selectedCustomer = customers.find((customer) => customer.id === customerId);
+
+  const updateLine = (id: string, changes: Partial<LineForm>) => {
+    setLines((prev) => prev.map((line) => (line.id === id ? { ...line, ...changes } : line)));
+  };
+
+  const handleAddCustomer = () => {
+    setError("");
+    try {
+      const customer = accountingEngine.addTradeParty({
+        kind: "receivable",
+        name: customerForm.name,
+        tin: customerForm.tin,
+        address: customerForm.address,
+        email: customerForm.email,
+        paymentTermsDays: Number(customerForm.paymentTermsDays) || 30,
+        withholdsTax: customerForm.withholdsTax,
+      });
+      setCustomerId(customer.id);
+      setCustomerForm(emptyCustomer);
+      setShowCustomerForm(false);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Could not add customer");
+    }
+  };
+
+  const handleSaveDraft = () => {
+    setError("");
+    const draftLines: SalesInvoiceLineInput[] = lines.map((line) => ({
+      ...(line.productId ? { productId: line.productId } : {}),
+      ...(line.description.trim() ? { description: line.description.trim() } : {}),
+      quantity: Number(line.quantity),
+      ...(line.unitPrice ? { unitPrice: Number(line.unitPrice) } : {}),
+      ...(line.vatClass ? { vatClass: line.vatClass } : {}),
+      ...(line.whtPaymentType ? { whtPaymentType: line.whtPaymentType } : {}),
+    }));
+    try {
+      accountingEngine.createSalesInvoice(
+        { customerId, issueDate, ...(locationId ? { locationId } : {}), lines: draftLines, notes },
+        products
+      );
+      setLines([emptyLine()]);
+      setNotes("");
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Could not save the invoice");
+    }
+  };
+
+  const handleIssue = async (invoice: SalesInvoice) => {
+    setError("");
+    setIssuing(invoice.id);
+    try {
+      await accountingEngine.issueSalesInvoice(invoice.id);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Could not issue the invoice");
+    } finally {
+      setIssuing("");
+    }
+  };
+
+  const handleDiscard = (invoice: SalesInvoice) => {
+    if (confirm(`Discard draft ${invoice.id}?`)) {
+      accountingEngine.discardSalesInvoice(invoice.id);
+    }
+  };
+
+  const handleDownload = async (invoice: SalesInvoice) => {
+    setError("");
+    try {
+      const res = await fetch("/api/pdf", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ document: "sales-invoice", invoice, seller: invoiceSeller() }),
+      });
+      if (!res.ok) throw new Error((await res.json()).error || "Unable to generate PDF");
+      const url = URL.createObjectURL(await res.blob());
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = `invoice-${(invoice.number || invoice.id).toLowerCase()}.pdf`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Unable to generate PDF");
+    }
+  };
+
+  const formatCurrency = (amount: number) => `₦${amount.toLocaleString("en-NG", { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="rounded-2xl bg-white border border-gray-200 px-6 py-6 flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+        <div>
+          <h1 className="text-xl font-bold text-gray-900">Sales Invoices</h1>
+          <p className="text-sm text-gray-500">Raise VAT invoices to customers; issuing posts the receivable to the ledger and takes the goods out of stock</p>
+        </div>
+        <Link href="/accounting" className="text-sm text-[#64B5F6] hover:underline font-medium">
+          ← Back to accounting
+        </Link>
+      </div>
+
+      {error && <p className="text-sm text-red-600 bg-red-50 px-4 py-3 rounded-lg">{error}</p>}
+
+      {/* New Invoice */}
+      <div className="rounded-2xl bg-white border border-gray-100 p-6 space-y-4">
+        <h2 className="text-lg font-semibold text-gray-900">New Invoice</h2>
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Customer</label>
+            <div className="flex gap-2">
+              <select value={customerId} onChange={(e) => setCustomerId(e.target.value)} className={inputClass}>
+                <option value="">Select customer</option>
+                {customers.map((customer) => (
+                  <option key={customer.id} value={customer.id}>{customer.name}</option>
+                ))}
+              </select>
+              <button
+                onClick={() => setShowCustomerForm(!showCustomerForm)}
+                className="px-3 py-2 text-sm font-medium text-gray-700 border border-gray-200 rounded-lg hover:bg-gray-50"
+              >
+                New
+              </button>
+            </div>
+            {selectedCustomer && (
+              <p className="text-xs text-gray-500 mt-1">
+                {selectedCustomer.paymentTermsDays} days · {selectedCustomer.withholdsTax ? "deducts WHT" : "no WHT deduction"}
+              </p>
+            )}
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Issue Date</label>
+            <input type="date" value={issueDate} onChange={(e) => setIssueDate(e.target.value)} className={inputClass} />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Sell Goods From</label>
+            <select value={locationId} onChange={(e) => setLocationId(e.target.value)} className={inputClass}>
+              <option value="">Select location</option>
+              {locations.map((location) => (
+                <option key={location.id} value={location.id}>{location.name}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Notes</label>
+            <input type="text" value={notes} onChange={(e) => setNotes(e.target.value)} placeholder="Payment details, PO number…" className={inputClass} />
+          </div>
+        </div>
+
+        {showCustomerForm && (
+          <div className="rounded-xl border border-gray-200 p-4 grid grid-cols-1 md:grid-cols-3 gap-3">
+            <input type="text" value={customerForm.name} onChange={(e) => setCustomerForm({ ...customerForm, name: e.target.value })} placeholder="Customer name" className={inputClass} />
+            <input type="text" value={customerForm.tin} onChange={(e) => setCustomerForm({ ...customerForm, tin: e.target.value })} placeholder="TIN" className={inputClass} />
+            <input type="email" value={customerForm.email} onChange={(e) => setCustomerForm({ ...customerForm, email: e.target.value })} placeholder="Email" className={inputClass} />
+            <input type="text" value={customerForm.address} onChange={(e) => setCustomerForm({ ...customerForm, address: e.target.value })} placeholder="Address" className={`${inputClass} md:col-span-2`} />
+            <input type="number" value={customerForm.paymentTermsDays} onChange={(e) => setCustomerForm({ ...customerForm, paymentTermsDays: e.target.value })} placeholder="Payment terms (days)" className={inputClass} />
+            <label className="flex items-center gap-2 text-sm text-gray-700">
+              <input type="checkbox" checked={customerForm.withholdsTax} onChange={(e) => setCustomerForm({ ...customerForm, withholdsTax: e.target.checked })} />
+              Deducts withholding tax on payment
+            </label>
+            <button
+              onClick={handleAddCustomer}
+              disabled={!customerForm.name.trim()}
+              className="px-4 py-2 text-sm font-medium text-white bg-gray-900 hover:bg-gray-800 rounded-lg disabled:opacity-50 md:col-start-3"
+            >
+              Add Customer
+            </button>
+          </div>
+        )}
+
+        <div className="space-y-2">
+          {lines.map((line) => (
+            <div key={line.id} className="grid grid-cols-12 gap-2">
+              <select
+                value={line.productId}
+                onChange={(e) => {
+                  const product = products.find((p) => p.id === e.target.value);
+                  updateLine(line.id, { productId: e.target.value, unitPrice: product ? String(product.sellingPrice) : "" });
+                }}
+                className={`${inputClass} col-span-3`}
+              >
+                <option value="">Service (free text)</option>
+                {products.map((product) => (
+                  <option key={product.id} value={product.id}>{product.name} ({product.sku})</option>
+                ))}
+              </select>
+              <input type="text" value={line.description} onChange={(e) => updateLine(line.id, { description: e.target.value })} placeholder={line.productId ? "Description (optional)" : "Description"} className={`${inputClass} col-span-3`} />
+              <input type="number" value={line.quantity} onChange={(e) => updateLine(line.id, { quantity: e.target.value })} placeholder="Qty" className={`${inputClass} col-span-1`} />
+              <input type="number" value={line.unitPrice} onChange={(e) => updateLine(line.id, { unitPrice: e.target.value })} placeholder="Unit price" className={`${inputClass} col-span-2`} />
+              <select value={line.vatClass} onChange={(e) => updateLine(line.id, { vatClass: e.target.value as LineForm["vatClass"] })} className={`${inputClass} col-span-1`}>
+                <option value="">VAT: auto</option>
+                {(["standard", "zero_rated", "exempt"] as VATSupplyType[]).map((type) => (
+                  <option key={type} value={type}>{vatSupplyLabel(type)}</option>
+                ))}
+              </select>
+              <select
+                value={line.whtPaymentType}
+                onChange={(e) => updateLine(line.id, { whtPaymentType: e.target.value })}
+                disabled={Boolean(line.productId)}
+                className={`${inputClass} col-span-1`}
+              >
+                <option value="">WHT: contracts</option>
+                {whtTypes.map((type) => (
+                  <option key={type.paymentType} value={type.paymentType}>{type.description}</option>
+                ))}
+              </select>
+              <button
+                onClick={() => setLines((prev) => (prev.length > 1 ? prev.filter((l) => l.id !== line.id) : prev))}
+                className="col-span-1 text-sm text-gray-400 hover:text-red-600"
+              >
+                Remove
+              </button>
+            </div>
+          ))}
+        </div>
+        <div className="flex justify-between">
+          <button onClick={() => setLines((prev) => [...prev, emptyLine()])} className="text-sm text-[#64B5F6] hover:underline font-medium">
+            + Add line
+          </button>
+          <button
+            onClick={handleSaveDraft}
+            disabled={!customerId || (!locationId && lines.some((line) => line.productId))}
+            className="px-4 py-2 text-sm font-medium text-white bg-gray-900 hover:bg-gray-800 rounded-lg disabled:opacity-50"
+          >
+            Save Draft
+          </button>
+        </div>
+      </div>
+
+      {/* Invoices */}
+      <div className="rounded-2xl bg-white border border-gray-100 overflow-hidden">
+        <div className="px-6 py-4 border-b border-gray-100">
+          <h2 className="text-lg font-semibold text-gray-900">Invoices</h2>
+        </div>
+        {invoices.length === 0 ? (
+          <p className="px-6 py-8 text-sm text-gray-500 text-center">No invoices yet</p>
+        ) : (
+          <table className="w-full text-sm">
+            <thead className="bg-gray-50 text-gray-500 text-xs uppercase">
+              <tr>
+                <th className="px-6 py-3 text-left">Invoice</th>
+                <th className="px-6 py-3 text-left">Customer</th>
+                <th className="px-6 py-3 text-left">Due</th>
+                <th className="px-6 py-3 text-right">Total</th>
+                <th className="px-6 py-3 text-right">WHT expected</th>
+                <th className="px-6 py-3 text-left">Status</th>
+                <th className="px-6 py-3" />
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {invoices.map((invoice) => (
+                <tr key={invoice.id}>
+                  <td className="px-6 py-3 font-medium text-gray-900">{invoice.number || invoice.id}</td>
+                  <td className="px-6 py-3 text-gray-700">{invoice.customer.name}</td>
+                  <td className="px-6 py-3 text-gray-500">{invoice.dueDate}</td>
+                  <td className="px-6 py-3 text-right text-gray-900">{formatCurrency(invoice.total)}</td>
+                  <td className="px-6 py-3 text-right text-gray-500">{invoice.whtAmount ? formatCurrency(invoice.whtAmount) : "-"}</td>
+                  <td className="px-6 py-3">
+                    <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${statusStyles[invoice.status]}`}>{invoice.status}</span>
+                  </td>
+                  <td className="px-6 py-3 text-right space-x-3 whitespace-nowrap">
+                    {invoice.status === "draft" && (
+                      <>
+                        <button
+                          onClick={() => handleIssue(invoice)}
+                          disabled={Boolean(issuing)}
+                          className="text-green-700 font-medium hover:underline disabled:opacity-50"
+                        >
+                          {issuing === invoice.id ? "Issuing…" : "Issue"}
+                        </button>
+                        <button onClick={() => handleDiscard(invoice)} className="text-gray-500 hover:underline">Discard</button>
+                      </>
+                    )}
+                    <button onClick={() => handleDownload(invoice)} className="text-[#64B5F6] font-medium hover:underline">PDF</button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -16,6 +16,7 @@ import { accountingEngine, parseTransactionFromChat, AccountingState, CustomAcco
 import { CHART_OF_ACCOUNTS } from "@/lib/accounting/standards";
 import { clearAllData } from "@/lib/utils/system";
 import { JournalEntry } from "@/lib/accounting/doubleEntry";
+import { FiscalPeriodError } from "@/lib/accounting/fiscalPeriods";
 import { useTheme } from "@/lib/ThemeContext";
 
 type ManualTransactionDraft = {
@@ -148,6 +149,18 @@ export default function AccountingPage() {
       accountingEngine.load();
       setAccountingState(accountingEngine.getState());
       setJournalEntries(accountingEngine.getState().journalEntries);
+      // The server holds the shared books; the local copy covers offline use.
+      // Accrual reversals run after the sync so another device's are not repeated.
+      void accountingEngine
+        .syncWithServer()
+        .then(() => accountingEngine.processScheduledReversals())
+        .catch((err) => {
+          if (err instanceof FiscalPeriodError) {
+            setError(err.message);
+          } else {
+            console.error("Failed to post scheduled accrual reversals", err);
+          }
+        });
     };
 
     // Use requestIdleCallback if available, otherwise setTimeout
@@ -463,7 +476,15 @@ export default function AccountingPage() {
       setError("Upload audited statements before exporting to tax.");
       return;
     }
-    const payload = statementToTaxDraft(auditedPacket.figures);
+    const figures = auditedPacket.figures;
+    // Tax-adjust against the ledger when the figures have journals behind them
+    const schedule = accountingEngine.getState().journalEntries.length > 0
+      ? accountingEngine.generateTaxAdjustedProfit(
+        { taxYear: new Date(figures.period?.end || Date.now()).getFullYear() },
+        figures,
+      )
+      : undefined;
+    const payload = statementToTaxDraft(figures, schedule);
     if (typeof window !== "undefined") {
       localStorage.setItem("insight::accounting-draft", JSON.stringify(payload));
     }
@@ -0,0 +1,178 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import Link from "next/link";
+import { accountingEngine } from "@/lib/accounting/transactionBridge";
+import { AgeingBuckets, AgeingReport, ControlReconciliation, SubledgerKind, TradeDocument } from "@/lib/accounting/subledgers";
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+const inputClass = "w-full px-3 py-2 border border-gray-200 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500";
+
+const BUCKETS: Array<{ key: keyof AgeingBuckets; label: string }> = [
+  { key: "current", label: "Current" },
+  { key: "days1to30", label: "1-30 days" },
+  { key: "days31to60", label: "31-60 days" },
+  { key: "days61to90", label: "61-90 days" },
+  { key: "over90", label: "Over 90 days" },
+  { key: "unallocated", label: "On account" },
+  { key: "total", label: "Total" },
+];
+
+const today = () => new Date().toISOString().split("T")[0];
+
+// =============================================================================
+// COMPONENT
+// =============================================================================
+
+export default function SubledgersPage() {
+  const [kind, setKind] = useState<SubledgerKind>("receivable");
+  const [asOf, setAsOf] = useState(today());
+  const [ageing, setAgeing] = useState<AgeingReport | null>(null);
+  const [reconciliation, setReconciliation] = useState<ControlReconciliation | null>(null);
+  const [openInvoices, setOpenInvoices] = useState<Array<TradeDocument & { outstanding: number }>>([]);
+  const [writeOff, setWriteOff] = useState({ documentId: "", reason: "", date: today() });
+  const [error, setError] = useState("");
+
+  useEffect(() => {
+    accountingEngine.load();
+    const refresh = () => {
+      setAgeing(accountingEngine.getAgeingReport(kind, asOf || today()));
+      setReconciliation(accountingEngine.reconcileSubledger(kind));
+      setOpenInvoices(
+        accountingEngine
+          .getSubledgers()
+          .documents.filter((document) => document.kind === "receivable" && document.type !== "credit_note" && document.status === "open")
+          .map((document) => ({ ...document, outstanding: accountingEngine.getOutstandingAmount(document.id) }))
+          .filter((document) => document.outstanding > 0)
+      );
+    };
+    refresh();
+    const unsubscribe = accountingEngine.subscribe(refresh);
+    return () => {
+      unsubscribe();
+    };
+  }, [kind, asOf]);
+
+  const formatCurrency = (amount: number) => `₦${amount.toLocaleString("en-NG", { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+  const partyName = (id: string) => accountingEngine.getSubledgers().parties.find((party) => party.id === id)?.name || id;
+
+  const handleWriteOff = () => {
+    setError("");
+    const invoice = openInvoices.find((document) => document.id === writeOff.documentId);
+    if (!invoice || !confirm(`Write off ${formatCurrency(invoice.outstanding)} owed by ${partyName(invoice.partyId)} on ${invoice.number}?`)) return;
+    try {
+      accountingEngine.writeOffBadDebt(writeOff);
+      setWriteOff({ documentId: "", reason: "", date: today() });
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Could not write off the debt");
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="rounded-2xl bg-white border border-gray-200 px-6 py-6 flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+        <div>
+          <h1 className="text-xl font-bold text-gray-900">Receivables &amp; Payables</h1>
+          <p className="text-sm text-gray-500">What customers owe and what is owed to suppliers, aged and reconciled to the control accounts</p>
+        </div>
+        <Link href="/accounting" className="text-sm text-[#64B5F6] hover:underline font-medium">
+          ← Back to accounting
+        </Link>
+      </div>
+
+      {error && <p className="text-sm text-red-600 bg-red-50 px-4 py-3 rounded-lg">{error}</p>}
+
+      <div className="rounded-2xl bg-white border border-gray-100 p-6 grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Subledger</label>
+          <select value={kind} onChange={(e) => setKind(e.target.value as SubledgerKind)} className={inputClass}>
+            <option value="receivable">Customers (receivables)</option>
+            <option value="payable">Suppliers (payables)</option>
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Aged as at</label>
+          <input type="date" value={asOf} onChange={(e) => setAsOf(e.target.value)} className={inputClass} />
+        </div>
+        {reconciliation && (
+          <div className={`rounded-lg px-4 py-2 text-sm ${reconciliation.reconciled ? "bg-green-50 text-green-700" : "bg-red-50 text-red-700"}`}>
+            Control account {reconciliation.controlAccount}: {formatCurrency(reconciliation.controlBalance)} · subledger{" "}
+            {formatCurrency(reconciliation.subledgerBalance)}
+            {reconciliation.reconciled ? " · reconciled" : ` · difference ${formatCurrency(reconciliation.difference)}`}
+          </div>
+        )}
+      </div>
+
+      {/* Ageing */}
+      <div className="rounded-2xl bg-white border border-gray-100 overflow-hidden">
+        <div className="px-6 py-4 border-b border-gray-100">
+          <h2 className="text-lg font-semibold text-gray-900">Aged {kind === "receivable" ? "Receivables" : "Payables"}</h2>
+        </div>
+        {!ageing || ageing.rows.length === 0 ? (
+          <p className="px-6 py-8 text-sm text-gray-500 text-center">Nothing outstanding at {asOf}</p>
+        ) : (
+          <table className="w-full text-sm">
+            <thead className="bg-gray-50 text-gray-500 text-xs uppercase">
+              <tr>
+                <th className="px-6 py-3 text-left">{kind === "receivable" ? "Customer" : "Supplier"}</th>
+                {BUCKETS.map((bucket) => (
+                  <th key={bucket.key} className="px-6 py-3 text-right">{bucket.label}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {ageing.rows.map((row) => (
+                <tr key={row.partyId}>
+                  <td className="px-6 py-3 font-medium text-gray-900">{row.partyName}</td>
+                  {BUCKETS.map((bucket) => (
+                    <td key={bucket.key} className="px-6 py-3 text-right text-gray-700">{row[bucket.key] ? formatCurrency(row[bucket.key]) : "-"}</td>
+                  ))}
+                </tr>
+              ))}
+              <tr className="font-semibold bg-gray-50">
+                <td className="px-6 py-3 text-gray-900">Total</td>
+                {BUCKETS.map((bucket) => (
+                  <td key={bucket.key} className="px-6 py-3 text-right text-gray-900">{formatCurrency(ageing.totals[bucket.key])}</td>
+                ))}
+              </tr>
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      {/* Bad debts */}
+      {kind === "receivable" && (
+        <div className="rounded-2xl bg-white border border-gray-100 p-6 space-y-4">
+          <div>
+            <h2 className="text-lg font-semibold text-gray-900">Write Off a Bad Debt</h2>
+            <p className="text-sm text-gray-500">Posts the amount still outstanding to Bad Debts Expense and clears it from the customer&apos;s account</p>
+          </div>
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+            <select value={writeOff.documentId} onChange={(e) => setWriteOff({ ...writeOff, documentId: e.target.value })} className={inputClass}>
+              <option value="">Select invoice</option>
+              {openInvoices.map((invoice) => (
+                <option key={invoice.id} value={invoice.id}>
+                  {invoice.number} · {partyName(invoice.partyId)} · {formatCurrency(invoice.outstanding)}
+                </option>
+              ))}
+            </select>
+            <input type="text" value={writeOff.reason} onChange={(e) => setWriteOff({ ...writeOff, reason: e.target.value })} placeholder="Reason, e.g. customer in liquidation" className={inputClass} />
+            <input type="date" value={writeOff.date} onChange={(e) => setWriteOff({ ...writeOff, date: e.target.value })} className={inputClass} />
+            <button
+              onClick={handleWriteOff}
+              disabled={!writeOff.documentId || !writeOff.reason.trim()}
+              className="px-4 py-2 text-sm font-medium text-white bg-gray-900 hover:bg-gray-800 rounded-lg disabled:opacity-50"
+            >
+              Write Off
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
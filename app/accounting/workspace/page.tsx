@@ -7,12 +7,227 @@ import {
   BANK_PROVIDERS,
   mockAutomationClient,
 } from "@/lib/accounting/automationAgent";
-import { RawTransaction, StatementDraft } from "@/lib/accounting/types";
+import { RawTransaction, StatementDraft, SyncRejection } from "@/lib/accounting/types";
 import { accountingEngine, AccountingState } from "@/lib/accounting/transactionBridge";
-import { JournalEntry, LedgerAccount } from "@/lib/accounting/doubleEntry";
+import { JournalEntry, LedgerAccount, getAccount } from "@/lib/accounting/doubleEntry";
+import { ASSET_CLASS_ACCOUNTS, DeferredTaxReconciliation, applicableCITRate } from "@/lib/accounting/deferredTax";
+import { taxEngine } from "@/lib/tax/taxEngine";
+import type { CapitalAssetClass, FixedAssetRecord } from "@/lib/types";
 
 type ActiveTab = "journal" | "ledger" | "trial-balance" | "statements";
 
+const formatNaira = (value: number) =>
+  `₦${value.toLocaleString("en-NG", { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const ASSET_CLASSES = Object.keys(ASSET_CLASS_ACCOUNTS) as CapitalAssetClass[];
+const assetClassLabel = (assetClass: CapitalAssetClass) => getAccount(ASSET_CLASS_ACCOUNTS[assetClass].cost)?.name || assetClass;
+
+const emptyAsset = { description: "", assetClass: "computers" as CapitalAssetClass, cost: "", acquisitionDate: "" };
+
+// Fixed asset register, deferred tax recognition and the IAS 12 reconciliation for the year
+function DeferredTaxSection({ year, revenue, reconciliation }: { year: number; revenue: number; reconciliation?: DeferredTaxReconciliation }) {
+  const [assets, setAssets] = useState<FixedAssetRecord[]>(() => accountingEngine.getFixedAssets());
+  const [newAsset, setNewAsset] = useState(emptyAsset);
+  const [error, setError] = useState<string | null>(null);
+
+  const addAsset = () => {
+    try {
+      accountingEngine.addFixedAsset({ ...newAsset, cost: parseFloat(newAsset.cost.replace(/,/g, "")) || 0 });
+      setAssets(accountingEngine.getFixedAssets());
+      setNewAsset(emptyAsset);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unable to add the asset.");
+    }
+  };
+
+  const removeAsset = (id: string) => {
+    accountingEngine.removeFixedAsset(id);
+    setAssets(accountingEngine.getFixedAssets());
+  };
+
+  const recognise = () => {
+    try {
+      taxEngine.load();
+      const today = new Date().toISOString().slice(0, 10);
+      const yearEnd = `${year}-12-31`;
+      accountingEngine.recognizeDeferredTax({
+        taxYear: year,
+        citRate: applicableCITRate({ ...taxEngine.getState().profile, taxYear: year }, revenue),
+        asOf: yearEnd < today ? yearEnd : today,
+      });
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unable to recognise deferred tax.");
+    }
+  };
+
+  const downloadPdf = async () => {
+    if (!reconciliation) return;
+    try {
+      const profile = taxEngine.getState().profile;
+      const res = await fetch("/api/pdf", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ document: "deferred-tax", reconciliation, entityName: profile.businessName || profile.fullName }),
+      });
+      if (!res.ok) {
+        throw new Error("Failed to generate PDF");
+      }
+      const url = URL.createObjectURL(await res.blob());
+      const a = document.createElement("a");
+      a.href = url;
+      a.download = `deferred-tax-${reconciliation.taxYear}.pdf`;
+      document.body.appendChild(a);
+      a.click();
+      document.body.removeChild(a);
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unable to download the PDF.");
+    }
+  };
+
+  return (
+    <div className="p-6 space-y-4">
+      <div className="flex items-center justify-between gap-4">
+        <div>
+          <h3 className="font-semibold text-gray-900 mb-1">Deferred Tax (IAS 12)</h3>
+          <p className="text-xs text-gray-500">Tax bases of fixed assets come from the register below</p>
+        </div>
+        <div className="flex gap-2">
+          <button
+            type="button"
+            onClick={recognise}
+            className="px-4 py-2 text-sm font-medium text-white bg-[#64B5F6] rounded-lg hover:bg-[#4A9FD9] transition-colors"
+          >
+            Recognise for {year}
+          </button>
+          {reconciliation && (
+            <button
+              type="button"
+              onClick={downloadPdf}
+              className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-200 rounded-lg hover:bg-gray-50 transition-colors"
+            >
+              Download PDF
+            </button>
+          )}
+        </div>
+      </div>
+
+      {error && <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-2 rounded-lg text-sm">{error}</div>}
+
+      <div>
+        <h4 className="text-xs uppercase tracking-wider text-gray-400 mb-2">Fixed Asset Register</h4>
+        {assets.length > 0 && (
+          <ul className="divide-y divide-gray-100 mb-3">
+            {assets.map((asset) => (
+              <li key={asset.id} className="flex items-center justify-between py-2 text-sm">
+                <span className="text-gray-700">
+                  {asset.description} · {assetClassLabel(asset.assetClass)} · acquired {asset.acquisitionDate}
+                </span>
+                <span className="flex items-center gap-3">
+                  <span className="font-mono text-gray-900">{formatNaira(asset.cost)}</span>
+                  <button type="button" className="text-xs text-red-500" onClick={() => removeAsset(asset.id)}>
+                    Remove
+                  </button>
+                </span>
+              </li>
+            ))}
+          </ul>
+        )}
+        <div className="grid md:grid-cols-5 gap-2">
+          <input
+            type="text"
+            placeholder="Description"
+            value={newAsset.description}
+            onChange={(e) => setNewAsset((prev) => ({ ...prev, description: e.target.value }))}
+            className="px-3 py-2 text-sm border border-gray-200 rounded-lg"
+          />
+          <select
+            value={newAsset.assetClass}
+            onChange={(e) => setNewAsset((prev) => ({ ...prev, assetClass: e.target.value as CapitalAssetClass }))}
+            className="px-3 py-2 text-sm border border-gray-200 rounded-lg"
+          >
+            {ASSET_CLASSES.map((assetClass) => (
+              <option key={assetClass} value={assetClass}>{assetClassLabel(assetClass)}</option>
+            ))}
+          </select>
+          <input
+            type="number"
+            min={0}
+            placeholder="Cost"
+            value={newAsset.cost}
+            onChange={(e) => setNewAsset((prev) => ({ ...prev, cost: e.target.value }))}
+            className="px-3 py-2 text-sm border border-gray-200 rounded-lg"
+          />
+          <input
+            type="date"
+            value={newAsset.acquisitionDate}
+            onChange={(e) => setNewAsset((prev) => ({ ...prev, acquisitionDate: e.target.value }))}
+            className="px-3 py-2 text-sm border border-gray-200 rounded-lg"
+          />
+          <button
+            type="button"
+            onClick={addAsset}
+            className="px-3 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-200 rounded-lg hover:bg-gray-50"
+          >
+            + Add Asset
+          </button>
+        </div>
+      </div>
+
+      {reconciliation ? (
+        <div className="space-y-3">
+          <p className="text-xs text-gray-500">
+            As at {reconciliation.asOf}, measured at {(reconciliation.citRate * 100).toFixed(1)}%
+          </p>
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-xs text-gray-500 border-b border-gray-200">
+                <th className="text-left py-2">Temporary difference</th>
+                <th className="text-right py-2">Carrying amount</th>
+                <th className="text-right py-2">Tax base</th>
+                <th className="text-right py-2">Deferred tax</th>
+              </tr>
+            </thead>
+            <tbody>
+              {reconciliation.differences.map((difference) => (
+                <tr key={difference.id} className="border-b border-gray-100">
+                  <td className="py-2 text-gray-700">
+                    {difference.label} <span className="text-xs text-gray-400">({difference.kind})</span>
+                  </td>
+                  <td className="py-2 text-right font-mono">{formatNaira(difference.carryingAmount)}</td>
+                  <td className="py-2 text-right font-mono">{formatNaira(difference.taxBase)}</td>
+                  <td className="py-2 text-right font-mono">{formatNaira(difference.deferredTax)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <div className="space-y-2 max-w-md">
+            <div className="flex justify-between py-2 border-b border-gray-100">
+              <span className="text-sm text-gray-600">Opening net liability</span>
+              <span className="text-sm font-mono text-gray-900">{formatNaira(reconciliation.openingNet)}</span>
+            </div>
+            <div className="flex justify-between py-2 border-b border-gray-100">
+              <span className="text-sm text-gray-600">{reconciliation.movement >= 0 ? "Charged" : "Credited"} to profit or loss</span>
+              <span className="text-sm font-mono text-gray-900">{formatNaira(Math.abs(reconciliation.movement))}</span>
+            </div>
+            <div className="flex justify-between py-3 bg-gray-50 px-3 rounded-lg">
+              <span className="text-sm font-semibold text-gray-900">Closing net liability</span>
+              <span className="text-sm font-mono font-bold text-gray-900">{formatNaira(reconciliation.closingNet)}</span>
+            </div>
+          </div>
+          {reconciliation.notes?.map((note) => (
+            <p key={note} className="text-xs text-amber-700">{note}</p>
+          ))}
+        </div>
+      ) : (
+        <p className="text-sm text-gray-400">Deferred tax has not been recognised yet.</p>
+      )}
+    </div>
+  );
+}
+
 export default function WorkspacePage() {
   const [transactions, setTransactions] = useState<RawTransaction[]>([]);
   const [journalEntries, setJournalEntries] = useState<JournalEntry[]>([]);
@@ -22,6 +237,7 @@ export default function WorkspacePage() {
   const [automationConfidence, setAutomationConfidence] = useState(0.82);
   const [isSyncing, setIsSyncing] = useState(false);
   const [activeTab, setActiveTab] = useState<ActiveTab>("journal");
+  const [syncRejections, setSyncRejections] = useState<SyncRejection[]>([]);
 
   // Date filtering state
   const [selectedYear, setSelectedYear] = useState<number>(new Date().getFullYear());
@@ -203,12 +419,14 @@ Generated on: ${new Date().toLocaleDateString('en-NG')}
     setJournalEntries(state.journalEntries);
     setLedgerAccounts(state.ledgerAccounts);
     setFinancialStatements(accountingEngine.generateStatements());
+    setSyncRejections(state.syncRejections);
 
     // Subscribe to updates
     const unsubscribe = accountingEngine.subscribe((newState) => {
       setJournalEntries(newState.journalEntries);
       setLedgerAccounts(newState.ledgerAccounts);
       setFinancialStatements(accountingEngine.generateStatements());
+      setSyncRejections(newState.syncRejections);
     });
 
     // Also load raw transactions for display
@@ -433,6 +651,31 @@ Generated on: ${new Date().toLocaleDateString('en-NG')}
         </div>
       </div>
 
+      {/* Entries the server refused */}
+      {syncRejections.length > 0 && (
+        <div className="rounded-xl bg-red-50 border border-red-200 px-6 py-4">
+          <h2 className="text-sm font-semibold text-red-900 mb-2">
+            {syncRejections.length} item{syncRejections.length === 1 ? " was" : "s were"} not saved to the server
+          </h2>
+          <ul className="space-y-2">
+            {syncRejections.map((rejection) => (
+              <li key={`${rejection.kind}:${rejection.id}`} className="flex items-center justify-between gap-4 text-sm">
+                <span className="text-red-800">
+                  {rejection.kind === "journal" ? "Journal" : "Account"} {rejection.id}: {rejection.error}
+                </span>
+                <button
+                  type="button"
+                  onClick={() => accountingEngine.retrySync(rejection.kind, rejection.id)}
+                  className="text-xs font-semibold text-red-700 hover:text-red-900 whitespace-nowrap"
+                >
+                  Retry
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
       {/* Tabs */}
       <div className="border-b border-gray-200">
         <nav className="flex gap-1 overflow-x-auto pb-2">
@@ -850,6 +1093,12 @@ Generated on: ${new Date().toLocaleDateString('en-NG')}
                   </div>
                 </div>
 
+                <DeferredTaxSection
+                  year={selectedYear}
+                  revenue={yearlyStatements[selectedYear].revenue}
+                  reconciliation={financialStatements?.deferredTax}
+                />
+
                 {/* All Years Download Section */}
                 <div className="p-6 bg-gray-50">
                   <h3 className="font-semibold text-gray-900 mb-3">Download Yearly Statements</h3>
@@ -4,8 +4,19 @@
  */
 
 import { NextRequest, NextResponse } from "next/server";
-import { CalculateTaxRequest, TaxResult, UserProfile, TaxInputs } from "@/lib/types";
-import { calculateTaxForNigeria } from "@/lib/taxRules/ng";
+import { CalculateTaxRequest, TaxResult, UserProfile, TaxInputs, CapitalAssetClass, WHTCreditCertificate } from "@/lib/types";
+import { calculateTaxForNigeria, compareTaxRegimes, RegimeComparison } from "@/lib/taxRules/ng";
+import { RuleBookNotFoundError, getRuleBookById } from "@/lib/taxRules/registry";
+import { registerRuleBooksFromDisk } from "@/lib/taxRules/rulebookDiscovery";
+import { loadTaxRuleOverrides } from "@/lib/taxRules/liveRates";
+import { FIRS_DEPRECIATION_RATES } from "@/lib/accounting/standards";
+import { getLossLedger, recordLossRelief, LossLedgerError } from "@/lib/taxRules/lossLedger";
+import { getWHTCreditRegistry, recordWHTCreditUtilisation, WHTCreditError } from "@/lib/taxRules/whtCreditStore";
+
+// Pick up rulebooks dropped into data/rules that are not bundled yet
+registerRuleBooksFromDisk();
+// Approved live-rate overrides apply to every computation on this server
+loadTaxRuleOverrides();
 
 /**
  * Sanitize numeric input - convert strings to numbers, handle NaN
@@ -96,6 +107,95 @@ function sanitizeCertificates(entries: unknown): TaxInputs["withholdingCertifica
     return sanitized.length > 0 ? sanitized : undefined;
 }
 
+const isValidDate = (value: unknown): value is string =>
+    typeof value === "string" && !Number.isNaN(new Date(value).getTime());
+
+function sanitizeFixedAssets(entries: unknown): TaxInputs["fixedAssets"] | undefined {
+    if (!Array.isArray(entries)) {
+        return undefined;
+    }
+
+    const assetClasses = FIRS_DEPRECIATION_RATES.map(rate => rate.assetClass);
+    const sanitized = entries
+        .map((entry, index) => {
+            const record = entry as Partial<{ id: string; description: string; assetClass: string; cost: number; acquisitionDate: string; disposalDate?: string; disposalProceeds?: number }>;
+            const cost = sanitizeNumber(record.cost);
+            if (cost <= 0 || !assetClasses.includes(String(record.assetClass)) || !isValidDate(record.acquisitionDate)) {
+                return undefined;
+            }
+            const disposed = isValidDate(record.disposalDate);
+            return {
+                id: record.id ? String(record.id) : `asset-${index + 1}`,
+                description: String(record.description || record.assetClass).trim(),
+                assetClass: record.assetClass as CapitalAssetClass,
+                cost,
+                acquisitionDate: record.acquisitionDate,
+                disposalDate: disposed ? record.disposalDate : undefined,
+                disposalProceeds: disposed ? sanitizeNumber(record.disposalProceeds) : undefined,
+            };
+        })
+        .filter((entry): entry is NonNullable<typeof entry> => Boolean(entry));
+
+    return sanitized.length > 0 ? sanitized : undefined;
+}
+
+function sanitizeLossLedger(entries: unknown): TaxInputs["lossLedger"] | undefined {
+    if (!Array.isArray(entries)) {
+        return undefined;
+    }
+
+    const sanitized = entries
+        .map((entry) => {
+            const record = entry as Partial<{ taxYear: number; adjustedLoss: number; utilisations: { taxYear: number; amount: number }[] }>;
+            const taxYear = sanitizeNumber(record.taxYear);
+            const adjustedLoss = sanitizeNumber(record.adjustedLoss);
+            if (!Number.isInteger(taxYear) || taxYear <= 0 || adjustedLoss <= 0) {
+                return undefined;
+            }
+            const utilisations = (Array.isArray(record.utilisations) ? record.utilisations : [])
+                .map(utilisation => ({ taxYear: sanitizeNumber(utilisation?.taxYear), amount: sanitizeNumber(utilisation?.amount) }))
+                .filter(utilisation => utilisation.taxYear > 0 && utilisation.amount > 0);
+            return { taxYear, adjustedLoss, utilisations };
+        })
+        .filter((entry): entry is NonNullable<typeof entry> => Boolean(entry));
+
+    return sanitized.length > 0 ? sanitized : undefined;
+}
+
+function sanitizeWHTCreditRegistry(entries: unknown): TaxInputs["whtCreditRegistry"] | undefined {
+    if (!Array.isArray(entries)) {
+        return undefined;
+    }
+
+    const sanitized = entries
+        .map((entry) => {
+            const record = entry as Partial<WHTCreditCertificate>;
+            const whtAmount = sanitizeNumber(record.whtAmount);
+            if (!record.certificateNumber || !record.payerTIN || typeof record.deductionDate !== "string" || whtAmount <= 0) {
+                return undefined;
+            }
+            const utilisations = (Array.isArray(record.utilisations) ? record.utilisations : [])
+                .map(utilisation => ({ taxYear: sanitizeNumber(utilisation?.taxYear), amount: sanitizeNumber(utilisation?.amount) }))
+                .filter(utilisation => utilisation.taxYear > 0 && utilisation.amount > 0);
+            return {
+                id: record.id || `${record.payerTIN}-${record.certificateNumber}`,
+                certificateNumber: String(record.certificateNumber),
+                payerName: String(record.payerName || ""),
+                payerTIN: String(record.payerTIN),
+                invoiceReference: record.invoiceReference ? String(record.invoiceReference) : undefined,
+                deductionDate: record.deductionDate,
+                grossAmount: sanitizeNumber(record.grossAmount),
+                rate: sanitizeNumber(record.rate),
+                whtAmount,
+                receiptJournalId: record.receiptJournalId ? String(record.receiptJournalId) : undefined,
+                utilisations,
+            };
+        })
+        .filter((entry): entry is NonNullable<typeof entry> => Boolean(entry));
+
+    return sanitized.length > 0 ? sanitized : undefined;
+}
+
 /**
  * Sanitize and validate profile data
  */
@@ -108,6 +208,9 @@ function sanitizeProfile(profile: Partial<UserProfile>): UserProfile {
         stateOfResidence: String(profile.stateOfResidence || "Lagos").trim(),
         isVATRegistered: Boolean(profile.isVATRegistered),
         currency: "NGN",
+        businessCommencementDate: /^\d{4}-\d{2}-\d{2}$/.test(String(profile.businessCommencementDate || ""))
+            ? profile.businessCommencementDate
+            : undefined,
     };
 }
 
@@ -122,13 +225,16 @@ function sanitizeInputs(inputs: Partial<TaxInputs>): TaxInputs {
         nhfContributions: sanitizeNumber(inputs.nhfContributions),
         lifeInsurancePremiums: sanitizeNumber(inputs.lifeInsurancePremiums),
         otherReliefs: sanitizeNumber(inputs.otherReliefs),
+        annualRentPaid: inputs.annualRentPaid !== undefined ? sanitizeNumber(inputs.annualRentPaid) : undefined,
         incomeEntries: sanitizeIncomeEntries(inputs.incomeEntries),
         payrollEntries: sanitizePayrollEntries(inputs.payrollEntries),
         vatTaxablePurchases: inputs.vatTaxablePurchases !== undefined ? sanitizeNumber(inputs.vatTaxablePurchases) : undefined,
         inputVATPaid: inputs.inputVATPaid !== undefined ? sanitizeNumber(inputs.inputVATPaid) : undefined,
         withholdingTaxCredits: sanitizeNumber(inputs.withholdingTaxCredits),
         withholdingCertificates: sanitizeCertificates(inputs.withholdingCertificates),
+        whtCreditRegistry: sanitizeWHTCreditRegistry(inputs.whtCreditRegistry),
         priorYearLosses: inputs.priorYearLosses !== undefined ? sanitizeNumber(inputs.priorYearLosses) : undefined,
+        lossLedger: sanitizeLossLedger(inputs.lossLedger),
         investmentAllowance: inputs.investmentAllowance !== undefined ? sanitizeNumber(inputs.investmentAllowance) : undefined,
         ruralInvestmentAllowance: inputs.ruralInvestmentAllowance !== undefined ? sanitizeNumber(inputs.ruralInvestmentAllowance) : undefined,
         pioneerStatusRelief: inputs.pioneerStatusRelief !== undefined ? sanitizeNumber(inputs.pioneerStatusRelief) : undefined,
@@ -136,10 +242,16 @@ function sanitizeInputs(inputs: Partial<TaxInputs>): TaxInputs {
         costOfSales: inputs.costOfSales !== undefined ? sanitizeNumber(inputs.costOfSales) : undefined,
         operatingExpenses: inputs.operatingExpenses !== undefined ? sanitizeNumber(inputs.operatingExpenses) : undefined,
         capitalAllowance: inputs.capitalAllowance !== undefined ? sanitizeNumber(inputs.capitalAllowance) : undefined,
+        fixedAssets: sanitizeFixedAssets(inputs.fixedAssets),
+        unabsorbedCapitalAllowance: inputs.unabsorbedCapitalAllowance !== undefined ? sanitizeNumber(inputs.unabsorbedCapitalAllowance) : undefined,
+        totalFixedAssets: inputs.totalFixedAssets !== undefined ? sanitizeNumber(inputs.totalFixedAssets) : undefined,
+        frankedInvestmentIncome: inputs.frankedInvestmentIncome !== undefined ? sanitizeNumber(inputs.frankedInvestmentIncome) : undefined,
     };
 }
 
-export async function POST(request: NextRequest): Promise<NextResponse<TaxResult | { error: string }>> {
+type CalculateTaxResponse = TaxResult & { regimeComparison?: RegimeComparison };
+
+export async function POST(request: NextRequest): Promise<NextResponse<CalculateTaxResponse | { error: string }>> {
     try {
         const body = await request.json() as CalculateTaxRequest;
 
@@ -165,15 +277,66 @@ export async function POST(request: NextRequest): Promise<NextResponse<TaxResult
             );
         }
 
+        if (body.compareRulebookId && !getRuleBookById(String(body.compareRulebookId))) {
+            return NextResponse.json(
+                { error: `Unknown tax rulebook: ${body.compareRulebookId}` },
+                { status: 400 }
+            );
+        }
+
         // Sanitize inputs
         const profile = sanitizeProfile(body.profile);
         const inputs = sanitizeInputs(body.inputs);
 
+        // Losses carried forward come from the stored ledger unless supplied inline
+        const taxpayerId = body.taxpayerId ? String(body.taxpayerId).trim() : "";
+        const storedLedger = taxpayerId ? getLossLedger(taxpayerId) : undefined;
+        if (storedLedger && !inputs.lossLedger) {
+            if (storedLedger.taxpayerType !== profile.taxpayerType) {
+                return NextResponse.json(
+                    { error: `Loss ledger for ${taxpayerId} belongs to a ${storedLedger.taxpayerType}` },
+                    { status: 409 }
+                );
+            }
+            inputs.lossLedger = storedLedger.entries.length > 0 ? storedLedger.entries : undefined;
+        }
+
+        // WHT credits likewise come from the stored credit registry
+        const storedCredits = taxpayerId ? getWHTCreditRegistry(taxpayerId) : undefined;
+        if (storedCredits && !inputs.whtCreditRegistry && storedCredits.certificates.length > 0) {
+            inputs.whtCreditRegistry = storedCredits.certificates;
+        }
+
         // Calculate tax
         const result = calculateTaxForNigeria(profile, inputs);
 
+        if (body.recordLosses && taxpayerId && result.lossRelief) {
+            recordLossRelief(taxpayerId, profile.taxpayerType, result.lossRelief);
+        }
+
+        if (body.recordWHTCredits && taxpayerId && result.whtCredits) {
+            recordWHTCreditUtilisation(taxpayerId, result.whtCredits);
+        }
+
+        if (body.compareRulebookId && result.rulebook) {
+            const regimeComparison = compareTaxRegimes(profile, inputs, result.rulebook.id, String(body.compareRulebookId));
+            return NextResponse.json({ ...result, regimeComparison });
+        }
+
         return NextResponse.json(result);
     } catch (error) {
+        if (error instanceof LossLedgerError || error instanceof WHTCreditError) {
+            return NextResponse.json(
+                { error: error.message },
+                { status: error.status }
+            );
+        }
+        if (error instanceof RuleBookNotFoundError) {
+            return NextResponse.json(
+                { error: error.message },
+                { status: 422 }
+            );
+        }
         console.error("Error calculating tax:", error);
         return NextResponse.json(
             { error: "Unable to compute tax. Please try again." },
@@ -4,24 +4,50 @@
  */
 
 import { NextRequest, NextResponse } from "next/server";
-import { calculateCGT, calculateTotalCGT, CGTInput, CGTResult, CGT_RATE } from "@/lib/taxRules/cgt";
+import {
+    calculateTotalCGT,
+    CGTInput,
+    CGTResult,
+    CGTShareAcquisition,
+    CGTYearSummary,
+    CGTExemption,
+    CGTError,
+    CGT_RATE,
+    CGT_EXEMPTIONS,
+    CGT_RELIEF_CITATIONS,
+    SMALL_SHARE_DISPOSAL_THRESHOLD,
+} from "@/lib/taxRules/cgt";
 
 interface CGTRequest {
     disposals: CGTInput[];
+    shareAcquisitions?: CGTShareAcquisition[];
 }
 
 interface CGTResponse {
     disposals: CGTResult[];
+    years: CGTYearSummary[];
     totalGain: number;
+    totalLosses: number;
     totalCGT: number;
     cgtRate: number;
 }
 
-// GET - Return CGT rate info
-export async function GET(): Promise<NextResponse<{ rate: number; description: string }>> {
+interface CGTInfoResponse {
+    rate: number;
+    description: string;
+    exemptions: CGTExemption[];
+    reliefCitations: typeof CGT_RELIEF_CITATIONS;
+    smallShareDisposalThreshold: number;
+}
+
+// GET - Return CGT rate, exemptions and reliefs
+export async function GET(): Promise<NextResponse<CGTInfoResponse>> {
     return NextResponse.json({
         rate: CGT_RATE,
-        description: "Capital Gains Tax at 10% on chargeable gains from asset disposal"
+        description: "Capital Gains Tax at 10% on chargeable gains from asset disposal",
+        exemptions: CGT_EXEMPTIONS,
+        reliefCitations: CGT_RELIEF_CITATIONS,
+        smallShareDisposalThreshold: SMALL_SHARE_DISPOSAL_THRESHOLD,
     });
 }
 
@@ -51,15 +77,37 @@ export async function POST(request: NextRequest): Promise<NextResponse<CGTRespon
                     { status: 400 }
                 );
             }
+            if (!disposal.disposalDate || Number.isNaN(new Date(disposal.disposalDate).getTime())) {
+                return NextResponse.json(
+                    { error: "Each disposal must have a valid disposal date" },
+                    { status: 400 }
+                );
+            }
+        }
+
+        const shareAcquisitions = Array.isArray(body.shareAcquisitions) ? body.shareAcquisitions : [];
+        for (const acquisition of shareAcquisitions) {
+            if (!acquisition.security || !(acquisition.quantity > 0) || typeof acquisition.cost !== "number" || acquisition.cost < 0) {
+                return NextResponse.json(
+                    { error: "Each share acquisition needs a security, a positive quantity and a cost" },
+                    { status: 400 }
+                );
+            }
         }
 
-        const result = calculateTotalCGT(body.disposals);
+        const result = calculateTotalCGT(body.disposals, shareAcquisitions);
 
         return NextResponse.json({
             ...result,
             cgtRate: CGT_RATE,
         });
     } catch (error) {
+        if (error instanceof CGTError) {
+            return NextResponse.json(
+                { error: error.message },
+                { status: 400 }
+            );
+        }
         console.error("Error calculating CGT:", error);
         return NextResponse.json(
             { error: "Unable to calculate CGT. Please try again." },
@@ -0,0 +1,37 @@
+/**
+ * API Route: /api/cit/instalments
+ * POST - Record a CIT instalment payment, or the liability on the filed self-assessment return
+ *        Body: { taxpayerId: string, taxYear: number, paidOn: "YYYY-MM-DD", amount: number, reference?: string }
+ *           or { taxpayerId: string, taxYear: number, assessedLiability: number }
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { citInstalmentObligations, CITProvisionalError } from "@/lib/taxRules/citProvisional";
+import { getCITInstalmentPlan, recordCITInstalmentPayment, recordCITSelfAssessment } from "@/lib/taxRules/citInstalmentStore";
+import { TaxCalendarError } from "@/lib/taxRules/taxCalendar";
+
+export async function POST(request: NextRequest): Promise<NextResponse> {
+    try {
+        const body = await request.json().catch(() => ({}));
+        const taxYear = Number(body.taxYear);
+
+        if (body.assessedLiability !== undefined) {
+            recordCITSelfAssessment(body.taxpayerId, taxYear, Number(body.assessedLiability));
+        } else {
+            recordCITInstalmentPayment(body.taxpayerId, taxYear, {
+                paidOn: String(body.paidOn || ""),
+                amount: Number(body.amount),
+                reference: typeof body.reference === "string" && body.reference.trim() ? body.reference.trim() : undefined,
+            });
+        }
+
+        const plan = getCITInstalmentPlan(body.taxpayerId, taxYear);
+        return NextResponse.json({ plan, obligations: citInstalmentObligations(plan) }, { status: 201 });
+    } catch (error) {
+        if (error instanceof CITProvisionalError || error instanceof TaxCalendarError) {
+            return NextResponse.json({ error: error.message }, { status: error.status });
+        }
+        console.error("Error recording CIT instalment", error);
+        return NextResponse.json({ error: "Unable to record CIT instalment" }, { status: 500 });
+    }
+}
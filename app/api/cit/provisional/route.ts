@@ -0,0 +1,65 @@
+/**
+ * API Route: /api/cit/provisional
+ * GET ?taxpayerId=...&taxYear=YYYY[&asOf=YYYY-MM-DD] - The CIT instalment plan with payments applied,
+ *     and the unpaid instalments as cashflow obligations
+ * POST - Estimate the year's CIT from the ledger to date and save the instalment plan
+ *        Body: { taxpayerId: string, profile: UserProfile, journalEntries: JournalEntry[], taxYear: number,
+ *                asOf?: "YYYY-MM-DD", instalments?: number, inputs?: Partial<TaxInputs> }
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { citInstalmentObligations, CITProvisionalError, estimateProvisionalCIT } from "@/lib/taxRules/citProvisional";
+import { getCITInstalmentPlan, saveCITEstimate } from "@/lib/taxRules/citInstalmentStore";
+import { TaxCalendarError } from "@/lib/taxRules/taxCalendar";
+import { loadTaxRuleOverrides } from "@/lib/taxRules/liveRates";
+
+// Estimates use the approved live-rate overrides, like /api/calculateTax
+loadTaxRuleOverrides();
+
+function errorResponse(error: unknown, fallback: string): NextResponse {
+    if (error instanceof CITProvisionalError || error instanceof TaxCalendarError) {
+        return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error(fallback, error);
+    return NextResponse.json({ error: fallback }, { status: 500 });
+}
+
+export async function GET(request: NextRequest): Promise<NextResponse> {
+    const params = request.nextUrl.searchParams;
+
+    try {
+        const plan = getCITInstalmentPlan(params.get("taxpayerId") || "", Number(params.get("taxYear")), params.get("asOf") || undefined);
+        return NextResponse.json({ plan, obligations: citInstalmentObligations(plan) });
+    } catch (error) {
+        return errorResponse(error, "Unable to load CIT instalment plan");
+    }
+}
+
+export async function POST(request: NextRequest): Promise<NextResponse> {
+    try {
+        const body = await request.json().catch(() => ({}));
+        if (!body.profile || typeof body.profile !== "object") {
+            return NextResponse.json({ error: "profile is required" }, { status: 400 });
+        }
+        if (!Array.isArray(body.journalEntries)) {
+            return NextResponse.json({ error: "journalEntries must be an array of ledger journals" }, { status: 400 });
+        }
+        const taxYear = Number(body.taxYear);
+        if (!Number.isInteger(taxYear)) {
+            return NextResponse.json({ error: "taxYear is required" }, { status: 400 });
+        }
+
+        const asOf = typeof body.asOf === "string" && body.asOf ? body.asOf : new Date().toISOString().slice(0, 10);
+        const estimate = estimateProvisionalCIT(body.profile, body.journalEntries, {
+            taxYear,
+            asOf,
+            inputs: body.inputs && typeof body.inputs === "object" ? body.inputs : undefined,
+        });
+        saveCITEstimate(body.taxpayerId, estimate, body.instalments === undefined ? 1 : Number(body.instalments));
+
+        const plan = getCITInstalmentPlan(body.taxpayerId, taxYear, asOf);
+        return NextResponse.json({ estimate, plan, obligations: citInstalmentObligations(plan) }, { status: 201 });
+    } catch (error) {
+        return errorResponse(error, "Unable to estimate provisional CIT");
+    }
+}
@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from 'next/server';
+import prisma from '@/lib/inventory/db';
+import type { Category, UpdateVATClassRequest } from '@/lib/inventory/types';
+import { isVATSupplyType } from '@/lib/taxRules/vatClassification';
+
+export async function GET() {
+    try {
+        const categories: Category[] = await prisma.category.findMany({
+            orderBy: { name: 'asc' },
+        });
+
+        return NextResponse.json(categories);
+    } catch (error) {
+        console.error('Error fetching categories:', error);
+        return NextResponse.json(
+            { error: 'Internal server error' },
+            { status: 500 }
+        );
+    }
+}
+
+/**
+ * Sets the VAT classification inherited by a category's products; null falls
+ * back to the VAT classification catalogue.
+ */
+export async function PATCH(request: NextRequest) {
+    try {
+        const body: UpdateVATClassRequest = await request.json();
+
+        if (!body.id || (body.vatClass !== null && !isVATSupplyType(body.vatClass))) {
+            return NextResponse.json(
+                { error: 'Provide the category id and a vatClass of standard, zero_rated, exempt or null' },
+                { status: 400 }
+            );
+        }
+
+        const existing = await prisma.category.findUnique({ where: { id: body.id } });
+        if (!existing) {
+            return NextResponse.json({ error: `Category ${body.id} not found` }, { status: 404 });
+        }
+
+        const category = await prisma.category.update({
+            where: { id: body.id },
+            data: { vatClass: body.vatClass },
+        });
+
+        return NextResponse.json(category);
+    } catch (error) {
+        console.error('Error updating category VAT classification:', error);
+        return NextResponse.json(
+            { error: 'Internal server error' },
+            { status: 500 }
+        );
+    }
+}
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import prisma from '@/lib/inventory/db';
-import type { Product, PaginatedResponse, CreateProductRequest } from '@/lib/inventory/types';
+import type { Product, PaginatedResponse, CreateProductRequest, UpdateVATClassRequest } from '@/lib/inventory/types';
+import { isVATSupplyType } from '@/lib/taxRules/vatClassification';
 
 export async function GET(request: NextRequest) {
     try {
@@ -47,6 +48,7 @@ export async function GET(request: NextRequest) {
             sellingPrice: p.sellingPrice,
             reorderLevel: p.reorderLevel,
             trackExpiry: p.trackExpiry,
+            vatClass: isVATSupplyType(p.vatClass) ? p.vatClass : null,
             isActive: p.isActive,
             createdAt: p.createdAt,
             updatedAt: p.updatedAt,
@@ -54,6 +56,7 @@ export async function GET(request: NextRequest) {
                 id: p.category.id,
                 companyId: p.category.companyId,
                 name: p.category.name,
+                vatClass: isVATSupplyType(p.category.vatClass) ? p.category.vatClass : null,
                 createdAt: p.category.createdAt,
             } : null,
         }));
@@ -88,6 +91,13 @@ export async function POST(request: NextRequest) {
             );
         }
 
+        if (body.vatClass && !isVATSupplyType(body.vatClass)) {
+            return NextResponse.json(
+                { error: 'vatClass must be standard, zero_rated or exempt' },
+                { status: 400 }
+            );
+        }
+
         // Check for duplicate SKU
         const existing = await prisma.product.findUnique({
             where: { sku: body.sku },
@@ -120,6 +130,7 @@ export async function POST(request: NextRequest) {
                 sellingPrice: body.sellingPrice,
                 reorderLevel: body.reorderLevel || 10,
                 trackExpiry: body.trackExpiry || false,
+                vatClass: body.vatClass || null,
             },
             include: { category: true },
         });
@@ -147,3 +158,38 @@ export async function POST(request: NextRequest) {
         );
     }
 }
+
+/**
+ * Sets a product's VAT classification; null falls back to its category's.
+ */
+export async function PATCH(request: NextRequest) {
+    try {
+        const body: UpdateVATClassRequest = await request.json();
+
+        if (!body.id || (body.vatClass !== null && !isVATSupplyType(body.vatClass))) {
+            return NextResponse.json(
+                { error: 'Provide the product id and a vatClass of standard, zero_rated, exempt or null' },
+                { status: 400 }
+            );
+        }
+
+        const existing = await prisma.product.findUnique({ where: { id: body.id } });
+        if (!existing) {
+            return NextResponse.json({ error: `Product ${body.id} not found` }, { status: 404 });
+        }
+
+        const product = await prisma.product.update({
+            where: { id: body.id },
+            data: { vatClass: body.vatClass },
+            include: { category: true },
+        });
+
+        return NextResponse.json(product);
+    } catch (error) {
+        console.error('Error updating product VAT classification:', error);
+        return NextResponse.json(
+            { error: 'Internal server error' },
+            { status: 500 }
+        );
+    }
+}
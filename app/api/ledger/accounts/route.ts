@@ -0,0 +1,41 @@
+/**
+ * API Route: /api/ledger/accounts
+ * GET  - Ledger accounts with their balances, standard and custom
+ * POST - Add a custom account to the chart
+ *        Body: { code: string, name: string, class: "asset" | "liability" | "equity" | "revenue" | "expense", subClass?: string, description?: string }
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { createCustomAccount, listLedgerAccounts, LedgerStoreError } from "@/lib/accounting/ledgerStore";
+
+export async function GET(): Promise<NextResponse> {
+    try {
+        return NextResponse.json({ accounts: await listLedgerAccounts() });
+    } catch (error) {
+        if (error instanceof LedgerStoreError) {
+            return NextResponse.json({ error: error.message }, { status: error.status });
+        }
+        console.error("Error listing ledger accounts", error);
+        return NextResponse.json({ error: "Unable to list ledger accounts" }, { status: 500 });
+    }
+}
+
+export async function POST(request: NextRequest): Promise<NextResponse> {
+    try {
+        const body = await request.json().catch(() => ({}));
+        const account = await createCustomAccount({
+            code: body.code,
+            name: body.name,
+            class: body.class,
+            subClass: body.subClass || "",
+            description: body.description || "",
+        });
+        return NextResponse.json({ account }, { status: 201 });
+    } catch (error) {
+        if (error instanceof LedgerStoreError) {
+            return NextResponse.json({ error: error.message, ...(error.code ? { code: error.code } : {}) }, { status: error.status });
+        }
+        console.error("Error creating ledger account", error);
+        return NextResponse.json({ error: "Unable to create ledger account" }, { status: 500 });
+    }
+}
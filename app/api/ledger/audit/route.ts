@@ -0,0 +1,22 @@
+/**
+ * API Route: /api/ledger/audit
+ * GET ?journalId=... - Audit log, oldest first; with journalId, the events for that entry and the entries linked to it
+ *
+ * Events are written by the post, reverse and void handlers as they change the books.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { listAuditEvents, LedgerStoreError } from "@/lib/accounting/ledgerStore";
+
+export async function GET(request: NextRequest): Promise<NextResponse> {
+    try {
+        const auditLog = await listAuditEvents(request.nextUrl.searchParams.get("journalId") || undefined);
+        return NextResponse.json({ auditLog });
+    } catch (error) {
+        if (error instanceof LedgerStoreError) {
+            return NextResponse.json({ error: error.message }, { status: error.status });
+        }
+        console.error("Error loading audit log", error);
+        return NextResponse.json({ error: "Unable to load audit log" }, { status: 500 });
+    }
+}
@@ -0,0 +1,26 @@
+/**
+ * API Route: /api/ledger/invoices
+ * POST - Issue a drafted sales invoice: priced again from the products on file and the rulebook,
+ *        numbered from the sequence, its goods taken out of stock and its journal posted, all at once
+ *        Body: { invoice, journalId, customer, by? } (the draft, with its lineInputs, and its customer party)
+ *        Returns { invoice, journalEntry, document } as issued, for the engine to take as they are
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { issueSalesInvoice, LedgerStoreError } from "@/lib/accounting/ledgerStore";
+import { InvoicingError } from "@/lib/accounting/invoicing";
+import { InventorySaleError } from "@/lib/inventory/sales";
+
+export async function POST(request: NextRequest): Promise<NextResponse> {
+    try {
+        const body = await request.json().catch(() => ({}));
+        const issued = await issueSalesInvoice(body);
+        return NextResponse.json(issued, { status: 201 });
+    } catch (error) {
+        if (error instanceof LedgerStoreError || error instanceof InvoicingError || error instanceof InventorySaleError) {
+            return NextResponse.json({ error: error.message }, { status: error.status });
+        }
+        console.error("Error issuing sales invoice", error);
+        return NextResponse.json({ error: "Unable to issue sales invoice" }, { status: 500 });
+    }
+}
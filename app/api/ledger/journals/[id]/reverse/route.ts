@@ -0,0 +1,31 @@
+/**
+ * API Route: /api/ledger/journals/[id]/reverse
+ * POST - Reverse a posted journal entry, optionally posting the corrected entry in its place
+ *        Body: { reason: string, by?: string, date?: YYYY-MM-DD, reversalId?: string, corrected?: JournalEntry }
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { reverseJournalEntry, LedgerStoreError } from "@/lib/accounting/ledgerStore";
+
+export async function POST(
+    request: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+): Promise<NextResponse> {
+    try {
+        const { id } = await params;
+        const body = await request.json().catch(() => ({}));
+        const result = await reverseJournalEntry(id, body.reason, {
+            by: typeof body.by === "string" ? body.by : undefined,
+            date: typeof body.date === "string" ? body.date : undefined,
+            reversalId: typeof body.reversalId === "string" ? body.reversalId : undefined,
+            corrected: body.corrected && typeof body.corrected === "object" ? body.corrected : undefined,
+        });
+        return NextResponse.json(result, { status: 201 });
+    } catch (error) {
+        if (error instanceof LedgerStoreError) {
+            return NextResponse.json({ error: error.message, ...(error.code ? { code: error.code } : {}) }, { status: error.status });
+        }
+        console.error("Error reversing journal entry", error);
+        return NextResponse.json({ error: "Unable to reverse journal entry" }, { status: 500 });
+    }
+}
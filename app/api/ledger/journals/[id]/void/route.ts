@@ -0,0 +1,29 @@
+/**
+ * API Route: /api/ledger/journals/[id]/void
+ * POST - Void a posted journal entry by posting a contra entry on its date; 422 if its period is closed or locked
+ *        Body: { reason: string, by?: string, contraId?: string }
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { voidJournalEntry, LedgerStoreError } from "@/lib/accounting/ledgerStore";
+
+export async function POST(
+    request: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+): Promise<NextResponse> {
+    try {
+        const { id } = await params;
+        const body = await request.json().catch(() => ({}));
+        const result = await voidJournalEntry(id, body.reason, {
+            by: typeof body.by === "string" ? body.by : undefined,
+            contraId: typeof body.contraId === "string" ? body.contraId : undefined,
+        });
+        return NextResponse.json(result);
+    } catch (error) {
+        if (error instanceof LedgerStoreError) {
+            return NextResponse.json({ error: error.message }, { status: error.status });
+        }
+        console.error("Error voiding journal entry", error);
+        return NextResponse.json({ error: "Unable to void journal entry" }, { status: 500 });
+    }
+}
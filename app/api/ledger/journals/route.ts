@@ -0,0 +1,53 @@
+/**
+ * API Route: /api/ledger/journals
+ * GET  ?from=YYYY-MM-DD&to=YYYY-MM-DD&accountCode=...&status=posted|voided - Journal entries, oldest first
+ * POST - Post a balanced journal entry; 422 if its period is closed or locked, 409 with code "duplicate"
+ *        if it is already on file and 409 without a code for any other conflict
+ *        Body: JournalEntry (id, date, narration, lines, transactionType, reference?)
+ *              & { trade?: { parties, documents, payments } } - its subledger records; without them a
+ *              control account movement is recorded against an unnamed customer or supplier
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { JournalEntry } from "@/lib/accounting/doubleEntry";
+import { listJournalEntries, postJournalEntry, LedgerStoreError } from "@/lib/accounting/ledgerStore";
+
+const STATUSES: JournalEntry["status"][] = ["draft", "posted", "voided"];
+
+export async function GET(request: NextRequest): Promise<NextResponse> {
+    const params = request.nextUrl.searchParams;
+    const status = params.get("status");
+    if (status && !STATUSES.includes(status as JournalEntry["status"])) {
+        return NextResponse.json({ error: `status must be one of ${STATUSES.join(", ")}` }, { status: 400 });
+    }
+
+    try {
+        const journalEntries = await listJournalEntries({
+            from: params.get("from") || undefined,
+            to: params.get("to") || undefined,
+            accountCode: params.get("accountCode") || undefined,
+            status: (status || undefined) as JournalEntry["status"] | undefined,
+        });
+        return NextResponse.json({ journalEntries });
+    } catch (error) {
+        if (error instanceof LedgerStoreError) {
+            return NextResponse.json({ error: error.message }, { status: error.status });
+        }
+        console.error("Error listing journal entries", error);
+        return NextResponse.json({ error: "Unable to list journal entries" }, { status: 500 });
+    }
+}
+
+export async function POST(request: NextRequest): Promise<NextResponse> {
+    try {
+        const { trade, ...entry } = await request.json().catch(() => ({}));
+        const journalEntry = await postJournalEntry(entry as JournalEntry, { trade });
+        return NextResponse.json({ journalEntry }, { status: 201 });
+    } catch (error) {
+        if (error instanceof LedgerStoreError) {
+            return NextResponse.json({ error: error.message, ...(error.code ? { code: error.code } : {}) }, { status: error.status });
+        }
+        console.error("Error posting journal entry", error);
+        return NextResponse.json({ error: "Unable to post journal entry" }, { status: 500 });
+    }
+}
@@ -0,0 +1,31 @@
+/**
+ * API Route: /api/ledger/periods/[id]
+ * POST - Close, lock or reopen a fiscal period; reopening needs a reason
+ *        Body: { action: "close" | "lock" | "reopen", reason?: string, by?: string, at?: string }
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { transitionFiscalPeriod, LedgerStoreError } from "@/lib/accounting/ledgerStore";
+import { FiscalPeriodError } from "@/lib/accounting/fiscalPeriods";
+
+export async function POST(
+    request: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+): Promise<NextResponse> {
+    try {
+        const { id } = await params;
+        const body = await request.json().catch(() => ({}));
+        const result = await transitionFiscalPeriod(id, body.action, {
+            by: typeof body.by === "string" ? body.by : undefined,
+            reason: typeof body.reason === "string" ? body.reason : undefined,
+            at: typeof body.at === "string" ? body.at : undefined,
+        });
+        return NextResponse.json(result);
+    } catch (error) {
+        if (error instanceof LedgerStoreError || error instanceof FiscalPeriodError) {
+            return NextResponse.json({ error: error.message }, { status: error.status });
+        }
+        console.error("Error updating fiscal period", error);
+        return NextResponse.json({ error: "Unable to update fiscal period" }, { status: 500 });
+    }
+}
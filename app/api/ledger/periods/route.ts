@@ -0,0 +1,39 @@
+/**
+ * API Route: /api/ledger/periods
+ * GET   - The monthly periods of a financial year
+ *         Query: fiscalYear? (defaults to the year in progress)
+ * PATCH - Set the financial year end from the accounting config; refused once a period has been closed
+ *         Body: { fiscalYearEnd: "MM-DD" }
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { listFiscalPeriods, setFiscalYearEnd, LedgerStoreError } from "@/lib/accounting/ledgerStore";
+import { FiscalPeriodError } from "@/lib/accounting/fiscalPeriods";
+
+export async function GET(request: NextRequest): Promise<NextResponse> {
+    try {
+        const fiscalYear = request.nextUrl.searchParams.get("fiscalYear");
+        const periods = await listFiscalPeriods(fiscalYear ? Number(fiscalYear) : undefined);
+        return NextResponse.json({ periods });
+    } catch (error) {
+        if (error instanceof LedgerStoreError || error instanceof FiscalPeriodError) {
+            return NextResponse.json({ error: error.message }, { status: error.status });
+        }
+        console.error("Error listing fiscal periods", error);
+        return NextResponse.json({ error: "Unable to list fiscal periods" }, { status: 500 });
+    }
+}
+
+export async function PATCH(request: NextRequest): Promise<NextResponse> {
+    try {
+        const body = await request.json().catch(() => ({}));
+        const fiscalYearEnd = await setFiscalYearEnd(body.fiscalYearEnd);
+        return NextResponse.json({ fiscalYearEnd });
+    } catch (error) {
+        if (error instanceof LedgerStoreError || error instanceof FiscalPeriodError) {
+            return NextResponse.json({ error: error.message }, { status: error.status });
+        }
+        console.error("Error setting the financial year end", error);
+        return NextResponse.json({ error: "Unable to set the financial year end" }, { status: 500 });
+    }
+}
@@ -0,0 +1,19 @@
+/**
+ * API Route: /api/ledger
+ * GET - The company's books: journal entries, ledger accounts, custom accounts and fiscal periods
+ */
+
+import { NextResponse } from "next/server";
+import { getLedgerSnapshot, LedgerStoreError } from "@/lib/accounting/ledgerStore";
+
+export async function GET(): Promise<NextResponse> {
+    try {
+        return NextResponse.json(await getLedgerSnapshot());
+    } catch (error) {
+        if (error instanceof LedgerStoreError) {
+            return NextResponse.json({ error: error.message }, { status: error.status });
+        }
+        console.error("Error loading ledger", error);
+        return NextResponse.json({ error: "Unable to load ledger" }, { status: 500 });
+    }
+}
@@ -0,0 +1,46 @@
+/**
+ * API Route: /api/ledger/subledgers
+ * GET  ?kind=receivable|payable&asOf=YYYY-MM-DD - Ageing of the customer (default) or supplier subledger as at
+ *      asOf (default today) and the reconciliation of its control account to the ledger
+ * GET  ?records=true - Every party, document and payment
+ * POST - Save parties, documents and payments added or changed in the engine; their journals must be on file
+ *        Body: { parties?: TradeParty[], documents?: TradeDocument[], payments?: TradePayment[] }
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { getSubledgerReport, listSubledgers, saveTradeRecords, LedgerStoreError } from "@/lib/accounting/ledgerStore";
+import { SubledgerKind } from "@/lib/accounting/subledgers";
+
+export async function GET(request: NextRequest): Promise<NextResponse> {
+    const params = request.nextUrl.searchParams;
+    try {
+        if (params.get("records") === "true") {
+            return NextResponse.json({ subledgers: await listSubledgers() });
+        }
+        const report = await getSubledgerReport(
+            (params.get("kind") || "receivable") as SubledgerKind,
+            params.get("asOf") || undefined
+        );
+        return NextResponse.json(report);
+    } catch (error) {
+        if (error instanceof LedgerStoreError) {
+            return NextResponse.json({ error: error.message }, { status: error.status });
+        }
+        console.error("Error loading subledgers", error);
+        return NextResponse.json({ error: "Unable to load subledgers" }, { status: 500 });
+    }
+}
+
+export async function POST(request: NextRequest): Promise<NextResponse> {
+    try {
+        const body = await request.json().catch(() => ({}));
+        const subledgers = await saveTradeRecords(body);
+        return NextResponse.json({ subledgers });
+    } catch (error) {
+        if (error instanceof LedgerStoreError) {
+            return NextResponse.json({ error: error.message }, { status: error.status });
+        }
+        console.error("Error saving subledger records", error);
+        return NextResponse.json({ error: "Unable to save subledger records" }, { status: 500 });
+    }
+}
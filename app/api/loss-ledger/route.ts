@@ -0,0 +1,41 @@
+/**
+ * API Route: /api/loss-ledger
+ * GET  ?taxpayerId=... - The taxpayer's stored losses and their utilisation
+ * POST - Record or correct a year's adjusted loss
+ *        Body: { taxpayerId: string, taxpayerType: "freelancer" | "company", taxYear: number, adjustedLoss: number }
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { getLossLedger, recordAdjustedLoss, LossLedgerError } from "@/lib/taxRules/lossLedger";
+
+export async function GET(request: NextRequest): Promise<NextResponse> {
+    const taxpayerId = request.nextUrl.searchParams.get("taxpayerId");
+    if (!taxpayerId) {
+        return NextResponse.json({ error: "taxpayerId is required" }, { status: 400 });
+    }
+
+    const ledger = getLossLedger(taxpayerId);
+    if (!ledger) {
+        return NextResponse.json({ error: `No loss ledger for ${taxpayerId}` }, { status: 404 });
+    }
+    return NextResponse.json({ ledger });
+}
+
+export async function POST(request: NextRequest): Promise<NextResponse> {
+    try {
+        const body = await request.json().catch(() => ({}));
+
+        const ledger = recordAdjustedLoss(body.taxpayerId, {
+            taxpayerType: body.taxpayerType === "company" ? "company" : "freelancer",
+            taxYear: Number(body.taxYear),
+            adjustedLoss: Number(body.adjustedLoss),
+        });
+        return NextResponse.json({ ledger }, { status: 201 });
+    } catch (error) {
+        if (error instanceof LossLedgerError) {
+            return NextResponse.json({ error: error.message }, { status: error.status });
+        }
+        console.error("Error recording loss", error);
+        return NextResponse.json({ error: "Unable to record loss" }, { status: 500 });
+    }
+}
@@ -0,0 +1,80 @@
+/**
+ * API Route: /api/payroll/employees
+ * POST   - Add an employee or update the record with the same staff id
+ *          Body: { employerId: string, employee: PayrollEmployee }
+ * DELETE ?employerId=...&employeeId=... - Remove an employee from the payroll
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { PayrollEmployee, PayrollError } from "@/lib/taxRules/paye";
+import { removeEmployee, saveEmployee } from "@/lib/taxRules/payrollStore";
+
+const OPTIONAL_NUMBERS = ["annualRentPaid", "employeePensionRate", "employerPensionRate"] as const;
+
+function sanitizeEmployee(value: unknown): PayrollEmployee {
+    const record = (value || {}) as Record<string, unknown>;
+    const text = (field: string) => typeof record[field] === "string" && (record[field] as string).trim()
+        ? (record[field] as string).trim()
+        : undefined;
+    const amount = (field: string) => {
+        const num = Number(record[field] ?? 0);
+        return Number.isNaN(num) ? -1 : num;
+    };
+
+    const employee: PayrollEmployee = {
+        id: text("id") || "",
+        name: text("name") || "",
+        tin: text("tin"),
+        stateOfResidence: text("stateOfResidence") || "",
+        basicSalary: amount("basicSalary"),
+        housingAllowance: amount("housingAllowance"),
+        transportAllowance: amount("transportAllowance"),
+        otherAllowances: amount("otherAllowances"),
+        pensionEnrolled: record.pensionEnrolled !== false,
+        pensionFundAdministrator: text("pensionFundAdministrator"),
+        pensionPin: text("pensionPin"),
+        nhfEnrolled: record.nhfEnrolled !== false,
+        nhisEnrolled: record.nhisEnrolled === true,
+        startDate: text("startDate"),
+        exitDate: text("exitDate"),
+    };
+    OPTIONAL_NUMBERS.forEach(field => {
+        if (record[field] !== undefined && record[field] !== "") {
+            employee[field] = amount(field);
+        }
+    });
+    return employee;
+}
+
+function errorResponse(error: unknown, fallback: string): NextResponse {
+    if (error instanceof PayrollError) {
+        return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error(fallback, error);
+    return NextResponse.json({ error: fallback }, { status: 500 });
+}
+
+export async function POST(request: NextRequest): Promise<NextResponse> {
+    try {
+        const body = await request.json().catch(() => ({}));
+        const payroll = saveEmployee(body.employerId, sanitizeEmployee(body.employee));
+        return NextResponse.json({ employees: payroll.employees }, { status: 201 });
+    } catch (error) {
+        return errorResponse(error, "Unable to save employee");
+    }
+}
+
+export async function DELETE(request: NextRequest): Promise<NextResponse> {
+    const employerId = request.nextUrl.searchParams.get("employerId") || "";
+    const employeeId = request.nextUrl.searchParams.get("employeeId");
+    if (!employeeId) {
+        return NextResponse.json({ error: "employeeId is required" }, { status: 400 });
+    }
+
+    try {
+        const payroll = removeEmployee(employerId, employeeId);
+        return NextResponse.json({ employees: payroll.employees });
+    } catch (error) {
+        return errorResponse(error, "Unable to remove employee");
+    }
+}
@@ -0,0 +1,30 @@
+/**
+ * API Route: /api/payroll/remittances
+ * POST - Record PAYE paid to a state, for reconciliation on the annual return
+ *        Body: { employerId: string, period: "YYYY-MM", state: string, amount: number, paidOn: "YYYY-MM-DD", receiptNumber?: string }
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { PayrollError } from "@/lib/taxRules/paye";
+import { recordPAYERemittance } from "@/lib/taxRules/payrollStore";
+
+export async function POST(request: NextRequest): Promise<NextResponse> {
+    try {
+        const body = await request.json().catch(() => ({}));
+
+        const payroll = recordPAYERemittance(body.employerId, {
+            period: String(body.period || ""),
+            state: String(body.state || ""),
+            amount: Number(body.amount),
+            paidOn: String(body.paidOn || ""),
+            receiptNumber: typeof body.receiptNumber === "string" && body.receiptNumber.trim() ? body.receiptNumber.trim() : undefined,
+        });
+        return NextResponse.json({ payments: payroll.payePayments || [] }, { status: 201 });
+    } catch (error) {
+        if (error instanceof PayrollError) {
+            return NextResponse.json({ error: error.message }, { status: error.status });
+        }
+        console.error("Error recording PAYE remittance", error);
+        return NextResponse.json({ error: "Unable to record PAYE remittance" }, { status: 500 });
+    }
+}
@@ -0,0 +1,64 @@
+/**
+ * API Route: /api/payroll/returns
+ * GET ?employerId=...&taxYear=YYYY - The states the employer must file a PAYE return with
+ * GET ?employerId=...&taxYear=YYYY&state=...[&employerName=...] - The annual PAYE return (Form H1)
+ *     with tax deduction cards and the remittance reconciliation
+ *     &format=csv returns the return as CSV; add &employeeId=... for that employee's tax deduction card
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { PayrollError } from "@/lib/taxRules/paye";
+import { payeReturnStates, payeReturnToCSV, taxDeductionCardToCSV } from "@/lib/taxRules/payeReturn";
+import { getAnnualPAYEReturn, getEmployerPayroll } from "@/lib/taxRules/payrollStore";
+
+function csvResponse(csv: string, filename: string): NextResponse {
+    return new NextResponse(csv, {
+        status: 200,
+        headers: {
+            "Content-Type": "text/csv; charset=utf-8",
+            "Content-Disposition": `attachment; filename="${filename}"`,
+        },
+    });
+}
+
+export async function GET(request: NextRequest): Promise<NextResponse> {
+    const params = request.nextUrl.searchParams;
+    const employerId = params.get("employerId") || "";
+    const taxYear = Number(params.get("taxYear"));
+    const state = params.get("state");
+    if (!Number.isInteger(taxYear) || taxYear < 1900) {
+        return NextResponse.json({ error: "taxYear must be a four-digit year" }, { status: 400 });
+    }
+
+    try {
+        if (!state) {
+            const payroll = getEmployerPayroll(employerId);
+            if (!payroll) {
+                return NextResponse.json({ error: `No payroll for ${employerId}` }, { status: 404 });
+            }
+            return NextResponse.json({ states: payeReturnStates(payroll.runs, taxYear) });
+        }
+
+        const payeReturn = getAnnualPAYEReturn(employerId, taxYear, state, params.get("employerName") || undefined);
+        if (params.get("format") !== "csv") {
+            return NextResponse.json({ payeReturn });
+        }
+
+        const employeeId = params.get("employeeId");
+        if (employeeId) {
+            const card = payeReturn.cards.find(candidate => candidate.employeeId === employeeId);
+            if (!card) {
+                return NextResponse.json({ error: `No tax deduction card for employee ${employeeId}` }, { status: 404 });
+            }
+            return csvResponse(taxDeductionCardToCSV(card, payeReturn.employerId), `tax-deduction-card-${card.employeeId}-${taxYear}.csv`);
+        }
+        const stateSlug = payeReturn.state.replace(/\W+/g, "-").toLowerCase();
+        return csvResponse(payeReturnToCSV(payeReturn), `form-h1-${stateSlug}-${taxYear}.csv`);
+    } catch (error) {
+        if (error instanceof PayrollError) {
+            return NextResponse.json({ error: error.message }, { status: error.status });
+        }
+        console.error("Error building PAYE return", error);
+        return NextResponse.json({ error: "Unable to build PAYE return" }, { status: 500 });
+    }
+}
@@ -0,0 +1,60 @@
+/**
+ * API Route: /api/payroll
+ * GET  ?employerId=...[&period=YYYY-MM] - The employer's employees and payroll runs, or one month's run
+ * POST - Run (or re-run) a month's payroll for the employer's current employees
+ *        Body: { employerId: string, period: "YYYY-MM", annualTurnover?: number, paymentDate?: "YYYY-MM-DD" }
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { PayrollError } from "@/lib/taxRules/paye";
+import { getEmployerPayroll, getPayrollRun, recordPayrollRun } from "@/lib/taxRules/payrollStore";
+import { RuleBookNotFoundError } from "@/lib/taxRules/registry";
+import { registerRuleBooksFromDisk } from "@/lib/taxRules/rulebookDiscovery";
+
+// Pick up rulebooks dropped into data/rules that are not bundled yet
+registerRuleBooksFromDisk();
+
+export async function GET(request: NextRequest): Promise<NextResponse> {
+    const employerId = request.nextUrl.searchParams.get("employerId");
+    const period = request.nextUrl.searchParams.get("period");
+    if (!employerId) {
+        return NextResponse.json({ error: "employerId is required" }, { status: 400 });
+    }
+
+    if (period) {
+        const run = getPayrollRun(employerId, period);
+        if (!run) {
+            return NextResponse.json({ error: `No ${period} payroll for ${employerId}` }, { status: 404 });
+        }
+        return NextResponse.json({ run });
+    }
+
+    const payroll = getEmployerPayroll(employerId);
+    if (!payroll) {
+        return NextResponse.json({ error: `No payroll for ${employerId}` }, { status: 404 });
+    }
+    return NextResponse.json({ payroll });
+}
+
+export async function POST(request: NextRequest): Promise<NextResponse> {
+    try {
+        const body = await request.json().catch(() => ({}));
+        const annualTurnover = Number(body.annualTurnover);
+
+        const run = recordPayrollRun(body.employerId, {
+            period: String(body.period || ""),
+            annualTurnover: Number.isFinite(annualTurnover) ? Math.max(0, annualTurnover) : undefined,
+            paymentDate: typeof body.paymentDate === "string" && body.paymentDate ? body.paymentDate : undefined,
+        });
+        return NextResponse.json({ run }, { status: 201 });
+    } catch (error) {
+        if (error instanceof PayrollError) {
+            return NextResponse.json({ error: error.message }, { status: error.status });
+        }
+        if (error instanceof RuleBookNotFoundError) {
+            return NextResponse.json({ error: error.message }, { status: 422 });
+        }
+        console.error("Error running payroll", error);
+        return NextResponse.json({ error: "Unable to run payroll" }, { status: 500 });
+    }
+}
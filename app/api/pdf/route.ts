@@ -1,11 +1,26 @@
 /**
  * API Route: /api/pdf
- * POST endpoint for generating PDF tax computation sheets
+ * POST endpoint for generating PDF tax computation sheets, the annual PAYE
+ * return (Form H1) or an employee's tax deduction card when `document` is "paye-return",
+ * sales invoices when `document` is "sales-invoice", and the deferred tax
+ * reconciliation disclosed with the statements when `document` is "deferred-tax"
  */
 
 import { NextRequest, NextResponse } from "next/server";
 import PDFDocument from "pdfkit";
-import { GeneratePdfRequest } from "@/lib/types";
+import {
+    GenerateDeferredTaxPdfRequest,
+    GeneratePdfRequest,
+    GeneratePAYEReturnPdfRequest,
+    GenerateSalesInvoicePdfRequest,
+    InvoiceSeller,
+} from "@/lib/types";
+import { AnnualPAYEReturn, TaxDeductionCard } from "@/lib/taxRules/payeReturn";
+import { SalesInvoice } from "@/lib/accounting/invoicing";
+import { DeferredTaxReconciliation } from "@/lib/accounting/deferredTax";
+import { vatSupplyLabel } from "@/lib/taxRules/vatClassification";
+import { whtAuthority } from "@/lib/taxRules/whtRemittance";
+import { getTaxpayerTaxCalendar } from "@/lib/taxRules/taxCalendarStore";
 
 /**
  * Format number as Nigerian Naira currency
@@ -21,9 +36,410 @@ function formatPercent(rate: number): string {
     return `${(rate * 100).toFixed(1)}%`;
 }
 
+function formatAmount(amount: number): string {
+    return amount.toLocaleString("en-NG", { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+}
+
+function pdfResponse(pdfBuffer: Buffer, filename: string): NextResponse {
+    return new NextResponse(new Uint8Array(pdfBuffer), {
+        status: 200,
+        headers: {
+            "Content-Type": "application/pdf",
+            "Content-Disposition": `attachment; filename="${filename}"`,
+            "Content-Length": pdfBuffer.length.toString(),
+        },
+    });
+}
+
+/**
+ * Renders the annual PAYE return in the state Form H1 layout, or one
+ * employee's tax deduction card, on landscape A4.
+ */
+async function renderPAYEReturn(payeReturn: AnnualPAYEReturn, card?: TaxDeductionCard): Promise<Buffer> {
+    const doc = new PDFDocument({
+        size: "A4",
+        layout: "landscape",
+        margin: 40,
+        info: {
+            Title: card ? `Tax Deduction Card - ${card.employeeName} - ${payeReturn.taxYear}` : `Form H1 - ${payeReturn.taxYear}`,
+            Author: "NaijaTaxAgent",
+            Creator: "NaijaTaxAgent",
+        },
+    });
+    const chunks: Uint8Array[] = [];
+    doc.on("data", (chunk: Uint8Array) => chunks.push(chunk));
+
+    const primaryColor = "#1a365d";
+    const grayColor = "#4a5568";
+    const right = 802;
+
+    doc.font("Helvetica-Bold").fontSize(16).fillColor(primaryColor)
+        .text(card ? "TAX DEDUCTION CARD" : "FORM H1 - EMPLOYER'S ANNUAL DECLARATION OF PAYE DEDUCTIONS", { align: "center" });
+    doc.font("Helvetica").fontSize(10).fillColor(grayColor)
+        .text(`${payeReturn.revenueService} | Year of Assessment ${payeReturn.taxYear}`, { align: "center" });
+    doc.moveDown(1);
+
+    const header: [string, string][] = [
+        ["Employer", payeReturn.employerName || payeReturn.employerId],
+        ["Employer TIN", payeReturn.employerId],
+    ];
+    if (card) {
+        header.push(["Employee", `${card.employeeName} (${card.employeeId})`], ["Employee TIN", card.tin || "N/A"]);
+    } else {
+        header.push(["Number of Employees", String(payeReturn.totals.employeeCount)], ["Filing Due Date", payeReturn.filingDueDate]);
+    }
+    doc.fontSize(10).fillColor("#000000");
+    for (const [label, value] of header) {
+        doc.font("Helvetica-Bold").text(`${label}: `, { continued: true });
+        doc.font("Helvetica").text(value);
+    }
+    doc.moveDown(1);
+
+    const table = (columns: { heading: string; x: number; width: number }[], rows: string[][], totalRow?: string[]) => {
+        const drawRow = (cells: string[], bold: boolean) => {
+            if (doc.y > 540) doc.addPage();
+            const rowY = doc.y;
+            doc.font(bold ? "Helvetica-Bold" : "Helvetica").fontSize(8).fillColor(bold ? grayColor : "#000000");
+            cells.forEach((cell, index) => doc.text(cell, columns[index].x, rowY, { width: columns[index].width }));
+            doc.y = rowY + 14;
+        };
+        drawRow(columns.map(column => column.heading), true);
+        doc.moveTo(40, doc.y - 3).lineTo(right, doc.y - 3).stroke("#e2e8f0");
+        rows.forEach(row => drawRow(row, false));
+        if (totalRow) {
+            doc.moveTo(40, doc.y - 3).lineTo(right, doc.y - 3).stroke("#e2e8f0");
+            drawRow(totalRow, true);
+        }
+        doc.x = 40;
+        doc.moveDown(1);
+    };
+
+    if (card) {
+        const cols = [40, 130, 220, 300, 380, 460, 560, 680].map((x, index, all) => ({ x, width: (all[index + 1] || right) - x - 5 }));
+        const headings = ["Month", "Gross Pay", "Pension", "NHF", "NHIS", "Tax Deducted", "Cumulative Pay", "Cumulative Tax"];
+        table(
+            cols.map((col, index) => ({ ...col, heading: headings[index] })),
+            card.months.map(month => [month.period, formatAmount(month.grossPay), formatAmount(month.pension), formatAmount(month.nhf),
+                formatAmount(month.nhis), formatAmount(month.paye), formatAmount(month.cumulativeGrossPay), formatAmount(month.cumulativePaye)]),
+            ["TOTAL", formatAmount(card.totals.grossEmoluments), formatAmount(card.totals.pension), formatAmount(card.totals.nhf),
+                formatAmount(card.totals.nhis), formatAmount(card.totals.taxDeducted), "", ""]
+        );
+    } else {
+        const totals = payeReturn.totals;
+        const cols = [40, 70, 220, 310, 350, 440, 520, 590, 660].map((x, index, all) => ({ x, width: (all[index + 1] || right) - x - 5 }));
+        const headings = ["S/N", "Employee", "TIN", "Months", "Gross Emoluments", "Pension", "NHF", "NHIS", "Tax Deducted"];
+        table(
+            cols.map((col, index) => ({ ...col, heading: headings[index] })),
+            payeReturn.lines.map(line => [String(line.serialNumber), line.employeeName, line.tin || "", String(line.monthsEmployed),
+                formatAmount(line.grossEmoluments), formatAmount(line.pension), formatAmount(line.nhf), formatAmount(line.nhis), formatAmount(line.taxDeducted)]),
+            ["", "TOTAL", "", "", formatAmount(totals.grossEmoluments), formatAmount(totals.pension), formatAmount(totals.nhf),
+                formatAmount(totals.nhis), formatAmount(totals.taxDeducted)]
+        );
+
+        const reconciliation = payeReturn.reconciliation;
+        doc.font("Helvetica-Bold").fontSize(12).fillColor(primaryColor).text("RECONCILIATION OF PAYE DEDUCTED AND REMITTED");
+        doc.moveDown(0.5);
+        const recCols = [40, 120, 200, 300, 400, 490, 580, 670].map((x, index, all) => ({ x, width: (all[index + 1] || right) - x - 5 }));
+        const recHeadings = ["Month", "Employees", "Deducted", "Remitted", "Difference", "Due Date", "Paid On", "Status"];
+        table(
+            recCols.map((col, index) => ({ ...col, heading: recHeadings[index] })),
+            reconciliation.months.map(month => [month.month, String(month.employeeCount), formatAmount(month.payeDeducted),
+                formatAmount(month.payeRemitted), formatAmount(month.difference), month.dueDate, month.lastPaidOn || "-",
+                `${month.status.replace(/_/g, " ")}${month.paidLate ? " (late)" : ""}`]),
+            ["TOTAL", "", formatAmount(reconciliation.totalDeducted), formatAmount(reconciliation.totalRemitted),
+                formatAmount(reconciliation.difference), "", "", reconciliation.isReconciled ? "reconciled" : "not reconciled"]
+        );
+    }
+
+    doc.font("Helvetica").fontSize(8).fillColor(grayColor)
+        .text("Generated by NaijaTaxAgent from recorded payroll runs. Confirm figures with the State Internal Revenue Service before filing.", 40, doc.y, { align: "center" });
+    doc.end();
+
+    return new Promise<Buffer>((resolve) => {
+        doc.on("end", () => resolve(Buffer.concat(chunks)));
+    });
+}
+
+async function generatePAYEReturnPdf(body: GeneratePAYEReturnPdfRequest): Promise<NextResponse> {
+    const payeReturn = body.payeReturn;
+    if (!payeReturn || !Array.isArray(payeReturn.lines) || !payeReturn.reconciliation) {
+        return NextResponse.json({ error: "payeReturn is required" }, { status: 400 });
+    }
+
+    const card = body.employeeId ? payeReturn.cards.find(candidate => candidate.employeeId === body.employeeId) : undefined;
+    if (body.employeeId && !card) {
+        return NextResponse.json({ error: `No tax deduction card for employee ${body.employeeId}` }, { status: 404 });
+    }
+
+    const pdfBuffer = await renderPAYEReturn(payeReturn, card);
+    const filename = card
+        ? `tax-deduction-card-${card.employeeId}-${payeReturn.taxYear}.pdf`
+        : `form-h1-${payeReturn.state.replace(/\W+/g, "-").toLowerCase()}-${payeReturn.taxYear}.pdf`;
+    return pdfResponse(pdfBuffer, filename);
+}
+
+/**
+ * Where the customer remits the WHT it deducts from the seller: the state
+ * revenue service of a freelancer's tax profile, else FIRS
+ */
+function sellerWHTAuthority(seller?: InvoiceSeller): string {
+    const profile = seller?.tin ? getTaxpayerTaxCalendar(seller.tin)?.profile : undefined;
+    return whtAuthority({
+        beneficiaryType: profile?.taxpayerType === "freelancer" ? "individual" : "company",
+        beneficiaryState: profile?.stateOfResidence,
+        isResident: true,
+    }).authority;
+}
+
+/**
+ * Renders a sales invoice on portrait A4: seller and customer, the lines with
+ * their VAT treatment, totals and the WHT the customer is expected to deduct.
+ */
+async function renderSalesInvoice(invoice: SalesInvoice, seller?: InvoiceSeller): Promise<Buffer> {
+    const title = invoice.status === "draft" ? "DRAFT INVOICE" : invoice.status === "void" ? "INVOICE (VOID)" : "INVOICE";
+    const doc = new PDFDocument({
+        size: "A4",
+        margin: 50,
+        info: {
+            Title: `Invoice ${invoice.number || invoice.id} - ${invoice.customer.name}`,
+            Author: seller?.name || "NaijaTaxAgent",
+            Creator: "NaijaTaxAgent",
+        },
+    });
+    const chunks: Uint8Array[] = [];
+    doc.on("data", (chunk: Uint8Array) => chunks.push(chunk));
+
+    const primaryColor = "#1a365d";
+    const grayColor = "#4a5568";
+    const right = 545;
+
+    doc.font("Helvetica-Bold").fontSize(22).fillColor(primaryColor).text(title, { align: "right" });
+    if (seller) {
+        doc.font("Helvetica-Bold").fontSize(12).fillColor("#000000").text(seller.name, 50, 50);
+        doc.font("Helvetica").fontSize(9).fillColor(grayColor);
+        [seller.address, seller.tin && `TIN: ${seller.tin}`, seller.vatNumber && `VAT No: ${seller.vatNumber}`]
+            .filter(Boolean)
+            .forEach(line => doc.text(line as string));
+    }
+    doc.moveDown(2);
+
+    const blockTop = doc.y;
+    doc.font("Helvetica-Bold").fontSize(10).fillColor(grayColor).text("BILL TO", 50, blockTop);
+    doc.font("Helvetica-Bold").fillColor("#000000").text(invoice.customer.name);
+    doc.font("Helvetica").fontSize(9);
+    [invoice.customer.address, invoice.customer.tin && `TIN: ${invoice.customer.tin}`, invoice.customer.email]
+        .filter(Boolean)
+        .forEach(line => doc.text(line as string, { width: 250 }));
+    const customerBottom = doc.y;
+
+    const details: [string, string][] = [
+        ["Invoice No", invoice.number || "Not yet issued"],
+        ["Issue Date", invoice.issueDate],
+        ["Due Date", invoice.dueDate],
+    ];
+    details.forEach(([label, value], index) => {
+        doc.font("Helvetica-Bold").fontSize(9).fillColor(grayColor).text(label, 340, blockTop + index * 14, { width: 80 });
+        doc.font("Helvetica").fillColor("#000000").text(value, 420, blockTop + index * 14, { width: right - 420, align: "right" });
+    });
+    doc.y = Math.max(customerBottom, blockTop + details.length * 14);
+    doc.moveDown(1.5);
+
+    const columns = [
+        { heading: "Description", x: 50, width: 200, align: "left" as const },
+        { heading: "Qty", x: 255, width: 40, align: "right" as const },
+        { heading: "Unit Price", x: 300, width: 75, align: "right" as const },
+        { heading: "VAT", x: 380, width: 75, align: "right" as const },
+        { heading: "Amount", x: 460, width: right - 460, align: "right" as const },
+    ];
+    const drawRow = (cells: string[], bold: boolean) => {
+        if (doc.y > 740) doc.addPage();
+        const rowY = doc.y;
+        doc.font(bold ? "Helvetica-Bold" : "Helvetica").fontSize(9).fillColor(bold ? grayColor : "#000000");
+        const heights = cells.map((cell, index) => doc.heightOfString(cell, { width: columns[index].width }));
+        cells.forEach((cell, index) => doc.text(cell, columns[index].x, rowY, { width: columns[index].width, align: columns[index].align }));
+        doc.y = rowY + Math.max(14, ...heights) + 4;
+    };
+    drawRow(columns.map(column => column.heading), true);
+    doc.moveTo(50, doc.y - 3).lineTo(right, doc.y - 3).stroke("#e2e8f0");
+    invoice.lines.forEach(line => drawRow([
+        line.sku ? `${line.description} (${line.sku})` : line.description,
+        `${line.quantity}${line.unit ? ` ${line.unit}` : ""}`,
+        formatAmount(line.unitPrice),
+        line.supplyType === "standard" ? formatAmount(line.vatAmount) : vatSupplyLabel(line.supplyType),
+        formatAmount(line.amount),
+    ], false));
+    doc.moveTo(50, doc.y - 3).lineTo(right, doc.y - 3).stroke("#e2e8f0");
+    doc.moveDown(0.5);
+
+    const totals: [string, string, boolean][] = [
+        ["Subtotal", formatCurrency(invoice.subtotal), false],
+        [`VAT @ ${formatPercent(invoice.vatRate)}`, formatCurrency(invoice.vatAmount), false],
+        ["Total", formatCurrency(invoice.total), true],
+    ];
+    if (invoice.whtAmount > 0) {
+        totals.push(
+            ["Less WHT to be withheld", `(${formatCurrency(invoice.whtAmount)})`, false],
+            ["Amount Payable", formatCurrency(invoice.amountPayable), true],
+        );
+    }
+    totals.forEach(([label, value, bold]) => {
+        const rowY = doc.y;
+        doc.font(bold ? "Helvetica-Bold" : "Helvetica").fontSize(bold ? 11 : 10).fillColor("#000000");
+        doc.text(label, 300, rowY, { width: 150 });
+        doc.text(value, 450, rowY, { width: right - 450, align: "right" });
+        doc.y = rowY + (bold ? 18 : 15);
+    });
+    doc.x = 50;
+    doc.moveDown(1);
+
+    if (invoice.whtAmount > 0) {
+        const rates = Array.from(new Set(invoice.lines.filter(line => line.whtRate > 0).map(line => formatPercent(line.whtRate))));
+        doc.font("Helvetica").fontSize(9).fillColor(grayColor).text(
+            `Withholding tax of ${formatCurrency(invoice.whtAmount)} (${rates.join(", ")} of the amount before VAT) is expected to be deducted `
+            + `on payment. Please remit it to the ${sellerWHTAuthority(seller)} and send us the WHT credit note; `
+            + "the balance of the total remains due.",
+            50, doc.y, { width: right - 50 }
+        );
+        doc.moveDown(1);
+    }
+    if (invoice.notes) {
+        doc.font("Helvetica-Bold").fontSize(10).fillColor(primaryColor).text("NOTES", 50, doc.y);
+        doc.font("Helvetica").fontSize(9).fillColor("#000000").text(invoice.notes, { width: right - 50 });
+        doc.moveDown(1);
+    }
+
+    doc.font("Helvetica").fontSize(8).fillColor(grayColor)
+        .text("Generated by NaijaTaxAgent", 50, doc.y, { align: "center", width: right - 50 });
+    doc.end();
+
+    return new Promise<Buffer>((resolve) => {
+        doc.on("end", () => resolve(Buffer.concat(chunks)));
+    });
+}
+
+async function generateSalesInvoicePdf(body: GenerateSalesInvoicePdfRequest): Promise<NextResponse> {
+    const invoice = body.invoice;
+    if (!invoice || !Array.isArray(invoice.lines) || !invoice.customer) {
+        return NextResponse.json({ error: "invoice is required" }, { status: 400 });
+    }
+
+    const pdfBuffer = await renderSalesInvoice(invoice, body.seller);
+    return pdfResponse(pdfBuffer, `invoice-${(invoice.number || invoice.id).toLowerCase()}.pdf`);
+}
+
+/**
+ * Renders the IAS 12 deferred tax note: each temporary difference, then the
+ * movement from the opening to the closing net position.
+ */
+async function renderDeferredTax(reconciliation: DeferredTaxReconciliation, entityName?: string): Promise<Buffer> {
+    const doc = new PDFDocument({
+        size: "A4",
+        margin: 50,
+        info: {
+            Title: `Deferred Tax - ${reconciliation.taxYear}`,
+            Author: entityName || "NaijaTaxAgent",
+            Creator: "NaijaTaxAgent",
+        },
+    });
+    const chunks: Uint8Array[] = [];
+    doc.on("data", (chunk: Uint8Array) => chunks.push(chunk));
+
+    const primaryColor = "#1a365d";
+    const grayColor = "#4a5568";
+    const right = 545;
+
+    doc.font("Helvetica-Bold").fontSize(18).fillColor(primaryColor).text(entityName || "Deferred Tax", { align: "center" });
+    doc.font("Helvetica").fontSize(11).fillColor(grayColor)
+        .text(`Deferred tax (IAS 12) as at ${reconciliation.asOf}, measured at ${formatPercent(reconciliation.citRate)}`, { align: "center" });
+    doc.moveDown(1.5);
+
+    const columns = [
+        { heading: "Temporary difference", x: 50, width: 165, align: "left" as const },
+        { heading: "Carrying amount", x: 215, width: 85, align: "right" as const },
+        { heading: "Tax base", x: 300, width: 80, align: "right" as const },
+        { heading: "Difference", x: 380, width: 80, align: "right" as const },
+        { heading: "Deferred tax", x: 460, width: right - 460, align: "right" as const },
+    ];
+    const drawRow = (cells: string[], bold: boolean) => {
+        if (doc.y > 740) doc.addPage();
+        const rowY = doc.y;
+        doc.font(bold ? "Helvetica-Bold" : "Helvetica").fontSize(9).fillColor(bold ? grayColor : "#000000");
+        const heights = cells.map((cell, index) => doc.heightOfString(cell, { width: columns[index].width }));
+        cells.forEach((cell, index) => doc.text(cell, columns[index].x, rowY, { width: columns[index].width, align: columns[index].align }));
+        doc.y = rowY + Math.max(14, ...heights) + 4;
+    };
+    drawRow(columns.map(column => column.heading), true);
+    doc.moveTo(50, doc.y - 3).lineTo(right, doc.y - 3).stroke("#e2e8f0");
+    reconciliation.differences.forEach(difference => drawRow([
+        `${difference.label} (${difference.kind})`,
+        formatAmount(difference.carryingAmount),
+        formatAmount(difference.taxBase),
+        formatAmount(difference.difference),
+        formatAmount(difference.deferredTax),
+    ], false));
+    if (reconciliation.differences.length === 0) {
+        drawRow(["No temporary differences", "", "", "", ""], false);
+    }
+    doc.moveTo(50, doc.y - 3).lineTo(right, doc.y - 3).stroke("#e2e8f0");
+    doc.moveDown(1);
+
+    const movement: [string, string, boolean][] = [
+        ["Deferred tax liability", formatCurrency(reconciliation.closingLiability), false],
+        ["Deferred tax asset", `(${formatCurrency(reconciliation.closingAsset)})`, false],
+        ["Net deferred tax liability at the end of the year", formatCurrency(reconciliation.closingNet), true],
+        ["Net deferred tax liability at the start of the year", formatCurrency(reconciliation.openingNet), false],
+        [reconciliation.movement >= 0 ? "Charged to profit or loss" : "Credited to profit or loss", formatCurrency(Math.abs(reconciliation.movement)), true],
+    ];
+    movement.forEach(([label, value, bold]) => {
+        const rowY = doc.y;
+        doc.font(bold ? "Helvetica-Bold" : "Helvetica").fontSize(10).fillColor("#000000");
+        doc.text(label, 50, rowY, { width: 330 });
+        doc.text(value, 380, rowY, { width: right - 380, align: "right" });
+        doc.y = rowY + 16;
+    });
+    doc.x = 50;
+    doc.moveDown(1);
+
+    if (reconciliation.notes.length > 0) {
+        doc.font("Helvetica-Bold").fontSize(10).fillColor(primaryColor).text("NOTES", 50, doc.y);
+        doc.font("Helvetica").fontSize(9).fillColor("#000000");
+        reconciliation.notes.forEach(note => doc.text(`• ${note}`, { width: right - 50 }));
+        doc.moveDown(1);
+    }
+
+    doc.font("Helvetica").fontSize(8).fillColor(grayColor)
+        .text("Generated by NaijaTaxAgent", 50, doc.y, { align: "center", width: right - 50 });
+    doc.end();
+
+    return new Promise<Buffer>((resolve) => {
+        doc.on("end", () => resolve(Buffer.concat(chunks)));
+    });
+}
+
+async function generateDeferredTaxPdf(body: GenerateDeferredTaxPdfRequest): Promise<NextResponse> {
+    const reconciliation = body.reconciliation;
+    if (!reconciliation || !Array.isArray(reconciliation.differences)) {
+        return NextResponse.json({ error: "reconciliation is required" }, { status: 400 });
+    }
+
+    const pdfBuffer = await renderDeferredTax({ ...reconciliation, notes: reconciliation.notes || [] }, body.entityName);
+    return pdfResponse(pdfBuffer, `deferred-tax-${reconciliation.taxYear}.pdf`);
+}
+
 export async function POST(request: NextRequest): Promise<NextResponse> {
     try {
-        const body = await request.json() as GeneratePdfRequest;
+        const requestBody = await request.json() as
+            GeneratePdfRequest | GeneratePAYEReturnPdfRequest | GenerateSalesInvoicePdfRequest | GenerateDeferredTaxPdfRequest;
+        if ("document" in requestBody && requestBody.document === "paye-return") {
+            return await generatePAYEReturnPdf(requestBody);
+        }
+        if ("document" in requestBody && requestBody.document === "sales-invoice") {
+            return await generateSalesInvoicePdf(requestBody);
+        }
+        if ("document" in requestBody && requestBody.document === "deferred-tax") {
+            return await generateDeferredTaxPdf(requestBody);
+        }
+        const body = requestBody as GeneratePdfRequest;
 
         const { profile, inputs, result } = body;
 
@@ -203,6 +619,63 @@ export async function POST(request: NextRequest): Promise<NextResponse> {
 
         doc.moveDown(1);
 
+        // Section: Capital Allowance Schedule (if computed)
+        const capitalAllowances = result.capitalAllowances;
+        if (capitalAllowances) {
+            doc
+                .font("Helvetica-Bold")
+                .fontSize(14)
+                .fillColor(primaryColor)
+                .text("CAPITAL ALLOWANCE SCHEDULE", 50);
+
+            doc.moveDown(0.3);
+            doc.moveTo(50, doc.y).lineTo(545, doc.y).stroke(accentColor);
+            doc.moveDown(0.5);
+
+            if (capitalAllowances.schedule.length > 0) {
+                const caTop = doc.y;
+                const caCols = [50, 170, 245, 320, 395, 470];
+                doc.font("Helvetica-Bold").fontSize(8).fillColor(grayColor);
+                ["Asset", "Opening TWDV", "Initial", "Annual", "Bal. Adj.", "Closing TWDV"]
+                    .forEach((heading, index) => doc.text(heading, caCols[index], caTop));
+
+                doc.font("Helvetica").fontSize(8).fillColor("#000000");
+                let caY = caTop + 14;
+                for (const line of capitalAllowances.schedule) {
+                    const adjustment = line.balancingCharge - line.balancingAllowance;
+                    doc.text(line.description, caCols[0], caY, { width: 115 });
+                    doc.text(formatCurrency(line.openingTWDV + line.additions), caCols[1], caY);
+                    doc.text(formatCurrency(line.initialAllowance), caCols[2], caY);
+                    doc.text(formatCurrency(line.annualAllowance), caCols[3], caY);
+                    doc.text(adjustment ? formatCurrency(adjustment) : "-", caCols[4], caY);
+                    doc.text(formatCurrency(line.closingTWDV), caCols[5], caY);
+                    caY += 14;
+                }
+                doc.y = caY;
+                doc.moveDown(0.5);
+            }
+
+            doc.font("Helvetica").fontSize(11).fillColor("#000000");
+            const caDetails: [string, string][] = [
+                ["Unabsorbed Brought Forward", formatCurrency(capitalAllowances.unabsorbedBroughtForward)],
+                ["Total Available", formatCurrency(capitalAllowances.totalAvailable)],
+            ];
+            if (capitalAllowances.restrictionCap !== undefined) {
+                caDetails.push(["Restriction Cap", formatCurrency(capitalAllowances.restrictionCap)]);
+            }
+            caDetails.push(
+                ["Allowance Claimed", formatCurrency(capitalAllowances.allowanceClaimed)],
+                ["Carried Forward", formatCurrency(capitalAllowances.unabsorbedCarriedForward)],
+            );
+
+            for (const [label, value] of caDetails) {
+                doc.font("Helvetica-Bold").text(`${label}: `, 50, doc.y, { continued: true });
+                doc.font("Helvetica").text(value);
+            }
+
+            doc.moveDown(1);
+        }
+
         // Section: VAT Summary (if applicable)
         if (result.vat) {
             doc
@@ -325,16 +798,7 @@ export async function POST(request: NextRequest): Promise<NextResponse> {
         });
 
         // Return PDF response
-        const filename = `naijatagent-tax-computation-${result.taxYear}.pdf`;
-
-        return new NextResponse(new Uint8Array(pdfBuffer), {
-            status: 200,
-            headers: {
-                "Content-Type": "application/pdf",
-                "Content-Disposition": `attachment; filename="${filename}"`,
-                "Content-Length": pdfBuffer.length.toString(),
-            },
-        });
+        return pdfResponse(pdfBuffer, `naijatagent-tax-computation-${result.taxYear}.pdf`);
     } catch (error) {
         console.error("Error generating PDF:", error);
         return NextResponse.json(
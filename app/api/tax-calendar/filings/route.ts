@@ -0,0 +1,34 @@
+/**
+ * API Route: /api/tax-calendar/filings
+ * POST - Record a return filed or tax paid against a calendar entry
+ *        Body: { taxpayerId: string, entryId: "VAT-2024-03" | "CIT-2024" | "CIT-2024-I2" | ...,
+ *                filedOn?: "YYYY-MM-DD", paidOn?: "YYYY-MM-DD", amountDue?: number, amountPaid?: number }
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { TaxCalendarError } from "@/lib/taxRules/taxCalendar";
+import { recordTaxFiling } from "@/lib/taxRules/taxCalendarStore";
+
+const optionalString = (value: unknown) => (typeof value === "string" && value.trim() ? value.trim() : undefined);
+const optionalNumber = (value: unknown) => (value === undefined || value === null || value === "" ? undefined : Number(value));
+
+export async function POST(request: NextRequest): Promise<NextResponse> {
+    try {
+        const body = await request.json().catch(() => ({}));
+
+        const filing = recordTaxFiling(body.taxpayerId, {
+            entryId: String(body.entryId || ""),
+            filedOn: optionalString(body.filedOn),
+            paidOn: optionalString(body.paidOn),
+            amountDue: optionalNumber(body.amountDue),
+            amountPaid: optionalNumber(body.amountPaid),
+        });
+        return NextResponse.json({ filing }, { status: 201 });
+    } catch (error) {
+        if (error instanceof TaxCalendarError) {
+            return NextResponse.json({ error: error.message }, { status: error.status });
+        }
+        console.error("Error recording tax filing", error);
+        return NextResponse.json({ error: "Unable to record tax filing" }, { status: 500 });
+    }
+}
@@ -0,0 +1,47 @@
+/**
+ * API Route: /api/tax-calendar
+ * GET ?taxpayerId=...&from=YYYY-MM-DD&to=YYYY-MM-DD[&asOf=YYYY-MM-DD] - The taxpayer's VAT, WHT, PAYE and CIT/PIT
+ *     deadlines in the range, with late-filing penalties and interest on overdue entries
+ *     Defaults to the current calendar year
+ * POST - Save the profile the calendar is built from
+ *        Body: { taxpayerId: string, profile: { taxpayerType, stateOfResidence, fiscalYearEnd?: "MM-DD",
+ *                isVATRegistered, deductsWHT?, hasEmployees?, citInstalments? } }
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { TaxCalendarError, taxDeadlineWarnings } from "@/lib/taxRules/taxCalendar";
+import { getTaxCalendar, saveTaxCalendarProfile } from "@/lib/taxRules/taxCalendarStore";
+
+export async function GET(request: NextRequest): Promise<NextResponse> {
+    const params = request.nextUrl.searchParams;
+    const year = new Date().getFullYear();
+
+    try {
+        const calendar = getTaxCalendar(params.get("taxpayerId") || "", {
+            from: params.get("from") || `${year}-01-01`,
+            to: params.get("to") || `${year}-12-31`,
+            asOf: params.get("asOf") || undefined,
+        });
+        return NextResponse.json({ calendar, warnings: taxDeadlineWarnings(calendar) });
+    } catch (error) {
+        if (error instanceof TaxCalendarError) {
+            return NextResponse.json({ error: error.message }, { status: error.status });
+        }
+        console.error("Error building tax calendar", error);
+        return NextResponse.json({ error: "Unable to build tax calendar" }, { status: 500 });
+    }
+}
+
+export async function POST(request: NextRequest): Promise<NextResponse> {
+    try {
+        const body = await request.json().catch(() => ({}));
+        const calendar = saveTaxCalendarProfile(body.taxpayerId, body.profile);
+        return NextResponse.json({ calendar }, { status: 201 });
+    } catch (error) {
+        if (error instanceof TaxCalendarError) {
+            return NextResponse.json({ error: error.message }, { status: error.status });
+        }
+        console.error("Error saving tax calendar profile", error);
+        return NextResponse.json({ error: "Unable to save tax calendar profile" }, { status: 500 });
+    }
+}
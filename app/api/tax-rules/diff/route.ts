@@ -0,0 +1,27 @@
+/**
+ * API Route: /api/tax-rules/diff?from=1&to=2
+ * GET - Field-by-field differences between two override versions
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { diffOverrideVersions, OverrideWorkflowError } from "@/lib/taxRules/overrideHistory";
+
+export async function GET(request: NextRequest): Promise<NextResponse> {
+    const fromParam = request.nextUrl.searchParams.get("from");
+    const toParam = request.nextUrl.searchParams.get("to");
+    const from = Number(fromParam);
+    const to = Number(toParam);
+
+    if (!fromParam || !toParam || !Number.isInteger(from) || !Number.isInteger(to)) {
+        return NextResponse.json({ error: "from and to must be version numbers" }, { status: 400 });
+    }
+
+    try {
+        return NextResponse.json({ from, to, changes: diffOverrideVersions(from, to) });
+    } catch (error) {
+        if (error instanceof OverrideWorkflowError) {
+            return NextResponse.json({ error: error.message }, { status: error.status });
+        }
+        throw error;
+    }
+}
@@ -0,0 +1,28 @@
+/**
+ * API Route: /api/tax-rules/history/[version]/reject
+ * POST - Reject a pending override version
+ * Body: { reviewer: string, note?: string }
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { rejectOverride, OverrideWorkflowError } from "@/lib/taxRules/overrideHistory";
+import { getTaxRuleMetadata } from "@/lib/taxRules/liveRates";
+
+export async function POST(
+    request: NextRequest,
+    { params }: { params: Promise<{ version: string }> }
+): Promise<NextResponse> {
+    try {
+        const { version } = await params;
+        const body = await request.json().catch(() => ({}));
+
+        const entry = rejectOverride(Number(version), { reviewer: body.reviewer, note: body.note });
+        return NextResponse.json({ version: entry, metadata: getTaxRuleMetadata() });
+    } catch (error) {
+        if (error instanceof OverrideWorkflowError) {
+            return NextResponse.json({ error: error.message }, { status: error.status });
+        }
+        console.error("Error reviewing tax rule override", error);
+        return NextResponse.json({ error: "Unable to review override" }, { status: 500 });
+    }
+}
@@ -0,0 +1,20 @@
+/**
+ * API Route: /api/tax-rules/history/[version]
+ * GET - Fetch a single override version
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { getOverrideVersion } from "@/lib/taxRules/overrideHistory";
+
+export async function GET(
+    request: NextRequest,
+    { params }: { params: Promise<{ version: string }> }
+): Promise<NextResponse> {
+    const { version } = await params;
+    const entry = getOverrideVersion(Number(version));
+
+    if (!entry) {
+        return NextResponse.json({ error: `Override version ${version} not found` }, { status: 404 });
+    }
+    return NextResponse.json(entry);
+}
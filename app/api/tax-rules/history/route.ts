@@ -0,0 +1,14 @@
+/**
+ * API Route: /api/tax-rules/history
+ * GET - List every override version, newest first
+ */
+
+import { NextResponse } from "next/server";
+import { getActiveOverrideVersion, listOverrideVersions } from "@/lib/taxRules/overrideHistory";
+
+export async function GET(): Promise<NextResponse> {
+    return NextResponse.json({
+        activeVersion: getActiveOverrideVersion()?.version ?? 0,
+        versions: listOverrideVersions().reverse(),
+    });
+}
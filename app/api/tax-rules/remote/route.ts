@@ -0,0 +1,19 @@
+/**
+ * API Route: /api/tax-rules/remote
+ * POST - Pull overrides from TAX_RULES_REMOTE_URL and queue them for review when they
+ *        differ from the latest recorded version. Call it from a scheduled job; nothing
+ *        changes until the proposal is approved.
+ */
+
+import { NextResponse } from "next/server";
+import { proposeRemoteOverrides } from "@/lib/taxRules/overrideHistory";
+
+export async function POST(): Promise<NextResponse> {
+    try {
+        const proposal = await proposeRemoteOverrides();
+        return NextResponse.json({ proposal }, { status: proposal ? 201 : 200 });
+    } catch (error) {
+        console.error("Error checking remote tax rules", error);
+        return NextResponse.json({ error: "Unable to check remote tax rules" }, { status: 500 });
+    }
+}
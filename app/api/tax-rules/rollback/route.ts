@@ -0,0 +1,27 @@
+/**
+ * API Route: /api/tax-rules/rollback
+ * POST - Propose restoring an earlier approved override version (0 = base rules). The
+ *        rollback is pending until approved via /api/tax-rules/history/[version]/approve
+ * Body: { version: number, author: string, reason: string }
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { rollbackOverride, OverrideWorkflowError } from "@/lib/taxRules/overrideHistory";
+
+export async function POST(request: NextRequest): Promise<NextResponse> {
+    try {
+        const body = await request.json();
+        if (typeof body?.version !== "number") {
+            return NextResponse.json({ error: "version is required" }, { status: 400 });
+        }
+
+        const proposal = rollbackOverride(body.version, { author: body.author, reason: body.reason });
+        return NextResponse.json({ proposal }, { status: 201 });
+    } catch (error) {
+        if (error instanceof OverrideWorkflowError) {
+            return NextResponse.json({ error: error.message }, { status: error.status });
+        }
+        console.error("Error rolling back tax rules", error);
+        return NextResponse.json({ error: "Unable to roll back tax rules" }, { status: 500 });
+    }
+}
@@ -1,17 +1,22 @@
 import { NextRequest, NextResponse } from "next/server";
 import {
-    applyTaxRuleOverrides,
     getOverrideSnapshot,
     getTaxRuleMetadata,
-    refreshOverridesFromRemote,
 } from "@/lib/taxRules/liveRates";
+import {
+    getActiveOverrideVersion,
+    getPendingOverrideVersions,
+    proposeOverride,
+    OverrideWorkflowError,
+} from "@/lib/taxRules/overrideHistory";
 import { PIT_BANDS, CIT_CONFIG, VAT_RATE, MINIMUM_TAX_RATE, CRA_FIXED_AMOUNT, CRA_PERCENTAGE_OF_GROSS, CRA_ADDITIONAL_PERCENTAGE } from "@/lib/taxRules/config";
 
 export async function GET(): Promise<NextResponse> {
-    await refreshOverridesFromRemote();
     return NextResponse.json({
         metadata: getTaxRuleMetadata(),
         overrides: getOverrideSnapshot(),
+        activeVersion: getActiveOverrideVersion()?.version ?? 0,
+        pendingVersions: getPendingOverrideVersions(),
         baseConfig: {
             pitBands: PIT_BANDS,
             cra: {
@@ -26,6 +31,8 @@ export async function GET(): Promise<NextResponse> {
     });
 }
 
+// POST - Propose an override set; it takes effect once approved via
+// /api/tax-rules/history/[version]/approve
 export async function POST(request: NextRequest): Promise<NextResponse> {
     try {
         const payload = await request.json();
@@ -33,9 +40,12 @@ export async function POST(request: NextRequest): Promise<NextResponse> {
             return NextResponse.json({ error: "Invalid payload" }, { status: 400 });
         }
 
-        applyTaxRuleOverrides(payload, { source: "api" });
-        return NextResponse.json({ metadata: getTaxRuleMetadata(), overrides: getOverrideSnapshot() });
+        const proposal = proposeOverride(payload.overrides, { author: payload.author, reason: payload.reason });
+        return NextResponse.json({ proposal }, { status: 201 });
     } catch (error) {
+        if (error instanceof OverrideWorkflowError) {
+            return NextResponse.json({ error: error.message }, { status: error.status });
+        }
         console.error("Error updating tax rules", error);
         return NextResponse.json({ error: "Unable to update tax rules" }, { status: 500 });
     }
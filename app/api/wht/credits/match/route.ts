@@ -0,0 +1,36 @@
+/**
+ * API Route: /api/wht/credits/match
+ * POST - Match the taxpayer's WHT credit notes to income receipts in the ledger and
+ *        flag receipts with WHT deducted but no certificate. Matches are kept on the certificates.
+ *        Body: { taxpayerId: string, journalEntries: JournalEntry[] }
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { JournalEntry } from "@/lib/accounting/doubleEntry";
+import { getWHTCreditRegistry, recordWHTCertificateMatches, WHTCreditError } from "@/lib/taxRules/whtCreditStore";
+import { matchWHTCertificates } from "@/lib/taxRules/whtCredits";
+
+export async function POST(request: NextRequest): Promise<NextResponse> {
+    try {
+        const body = await request.json().catch(() => ({}));
+        if (!body.taxpayerId) {
+            return NextResponse.json({ error: "taxpayerId is required" }, { status: 400 });
+        }
+        if (!Array.isArray(body.journalEntries)) {
+            return NextResponse.json({ error: "journalEntries must be an array of ledger journals" }, { status: 400 });
+        }
+
+        const registry = getWHTCreditRegistry(String(body.taxpayerId));
+        const report = matchWHTCertificates(registry?.certificates || [], body.journalEntries as JournalEntry[]);
+        if (registry && report.matches.length > 0) {
+            recordWHTCertificateMatches(registry.taxpayerId, report.matches);
+        }
+        return NextResponse.json({ report });
+    } catch (error) {
+        if (error instanceof WHTCreditError) {
+            return NextResponse.json({ error: error.message }, { status: error.status });
+        }
+        console.error("Error matching WHT certificates", error);
+        return NextResponse.json({ error: "Unable to match WHT certificates" }, { status: 500 });
+    }
+}
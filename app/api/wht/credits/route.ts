@@ -0,0 +1,51 @@
+/**
+ * API Route: /api/wht/credits
+ * GET  ?taxpayerId=... - The taxpayer's WHT credit notes, their utilisation and the credit still available
+ * POST - Record a WHT credit note received from a customer
+ *        Body: { taxpayerId: string, certificateNumber: string, payerName: string, payerTIN: string, invoiceReference?: string,
+ *                deductionDate: "YYYY-MM-DD", grossAmount: number, rate: number, whtAmount: number, receiptJournalId?: string }
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { getWHTCreditRegistry, recordWHTCertificate, WHTCreditError } from "@/lib/taxRules/whtCreditStore";
+import { remainingWHTCredit } from "@/lib/taxRules/whtCredits";
+
+export async function GET(request: NextRequest): Promise<NextResponse> {
+    const taxpayerId = request.nextUrl.searchParams.get("taxpayerId");
+    if (!taxpayerId) {
+        return NextResponse.json({ error: "taxpayerId is required" }, { status: 400 });
+    }
+
+    const registry = getWHTCreditRegistry(taxpayerId);
+    if (!registry) {
+        return NextResponse.json({ error: `No WHT credit registry for ${taxpayerId}` }, { status: 404 });
+    }
+    // Credit still unused after every year recorded so far
+    const available = registry.certificates.reduce((sum, certificate) => sum + remainingWHTCredit(certificate, Number.MAX_SAFE_INTEGER), 0);
+    return NextResponse.json({ registry, available });
+}
+
+export async function POST(request: NextRequest): Promise<NextResponse> {
+    try {
+        const body = await request.json().catch(() => ({}));
+
+        const registry = recordWHTCertificate(body.taxpayerId, {
+            certificateNumber: String(body.certificateNumber || ""),
+            payerName: String(body.payerName || ""),
+            payerTIN: String(body.payerTIN || ""),
+            invoiceReference: typeof body.invoiceReference === "string" ? body.invoiceReference : undefined,
+            deductionDate: String(body.deductionDate || ""),
+            grossAmount: Number(body.grossAmount),
+            rate: Number(body.rate),
+            whtAmount: Number(body.whtAmount),
+            receiptJournalId: typeof body.receiptJournalId === "string" ? body.receiptJournalId : undefined,
+        });
+        return NextResponse.json({ registry }, { status: 201 });
+    } catch (error) {
+        if (error instanceof WHTCreditError) {
+            return NextResponse.json({ error: error.message }, { status: error.status });
+        }
+        console.error("Error recording WHT certificate", error);
+        return NextResponse.json({ error: "Unable to record WHT certificate" }, { status: 500 });
+    }
+}
@@ -0,0 +1,77 @@
+/**
+ * API Route: /api/wht/deductions
+ * GET    ?payerId=... - WHT the payer has deducted from suppliers
+ * POST   - Record a payment made net of WHT; the rate is taken from the payment type and residence
+ *          Body: { payerId: string, payerName?: string, deduction: { paymentDate, beneficiaryName, beneficiaryTIN?,
+ *                  beneficiaryType: "company" | "individual", beneficiaryState?, isResident, paymentType, grossAmount,
+ *                  description?, invoiceReference?, journalId? } }
+ * DELETE ?payerId=...&deductionId=... - Remove a deduction recorded in error (not once remitted)
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { WHTDeductionInput, WHTRemittanceError } from "@/lib/taxRules/whtRemittance";
+import { getPayerWHTDeductions, recordWHTDeduction, removeWHTDeduction } from "@/lib/taxRules/whtDeductionStore";
+
+function sanitizeDeduction(value: unknown): WHTDeductionInput {
+    const record = (value || {}) as Record<string, unknown>;
+    const text = (field: string) => typeof record[field] === "string" && (record[field] as string).trim()
+        ? (record[field] as string).trim()
+        : undefined;
+
+    return {
+        paymentDate: text("paymentDate") || "",
+        beneficiaryName: text("beneficiaryName") || "",
+        beneficiaryTIN: text("beneficiaryTIN"),
+        beneficiaryType: record.beneficiaryType === "individual" ? "individual" : "company",
+        beneficiaryState: text("beneficiaryState"),
+        isResident: record.isResident !== false,
+        paymentType: text("paymentType") || "",
+        grossAmount: Number(record.grossAmount),
+        description: text("description"),
+        invoiceReference: text("invoiceReference"),
+        journalId: text("journalId"),
+    };
+}
+
+function errorResponse(error: unknown, fallback: string): NextResponse {
+    if (error instanceof WHTRemittanceError) {
+        return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error(fallback, error);
+    return NextResponse.json({ error: fallback }, { status: 500 });
+}
+
+export async function GET(request: NextRequest): Promise<NextResponse> {
+    const payerId = request.nextUrl.searchParams.get("payerId");
+    if (!payerId) {
+        return NextResponse.json({ error: "payerId is required" }, { status: 400 });
+    }
+
+    const payer = getPayerWHTDeductions(payerId);
+    return NextResponse.json({ deductions: payer?.deductions || [] });
+}
+
+export async function POST(request: NextRequest): Promise<NextResponse> {
+    try {
+        const body = await request.json().catch(() => ({}));
+        const deduction = recordWHTDeduction(body.payerId, sanitizeDeduction(body.deduction), typeof body.payerName === "string" ? body.payerName : undefined);
+        return NextResponse.json({ deduction }, { status: 201 });
+    } catch (error) {
+        return errorResponse(error, "Unable to record WHT deduction");
+    }
+}
+
+export async function DELETE(request: NextRequest): Promise<NextResponse> {
+    const payerId = request.nextUrl.searchParams.get("payerId") || "";
+    const deductionId = request.nextUrl.searchParams.get("deductionId");
+    if (!deductionId) {
+        return NextResponse.json({ error: "deductionId is required" }, { status: 400 });
+    }
+
+    try {
+        const payer = removeWHTDeduction(payerId, deductionId);
+        return NextResponse.json({ deductions: payer.deductions });
+    } catch (error) {
+        return errorResponse(error, "Unable to remove WHT deduction");
+    }
+}
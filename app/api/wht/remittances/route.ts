@@ -0,0 +1,29 @@
+/**
+ * API Route: /api/wht/remittances
+ * POST - Mark the month's WHT for one authority as remitted
+ *        Body: { payerId: string, period: "YYYY-MM", authority: string, remittedOn: "YYYY-MM-DD", receiptNumber?: string }
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { WHTRemittanceError } from "@/lib/taxRules/whtRemittance";
+import { markWHTRemitted } from "@/lib/taxRules/whtDeductionStore";
+
+export async function POST(request: NextRequest): Promise<NextResponse> {
+    try {
+        const body = await request.json().catch(() => ({}));
+
+        const remitted = markWHTRemitted(body.payerId, {
+            period: String(body.period || ""),
+            authority: String(body.authority || ""),
+            remittedOn: String(body.remittedOn || ""),
+            receiptNumber: typeof body.receiptNumber === "string" && body.receiptNumber.trim() ? body.receiptNumber.trim() : undefined,
+        });
+        return NextResponse.json({ remitted }, { status: 201 });
+    } catch (error) {
+        if (error instanceof WHTRemittanceError) {
+            return NextResponse.json({ error: error.message }, { status: error.status });
+        }
+        console.error("Error recording WHT remittance", error);
+        return NextResponse.json({ error: "Unable to record WHT remittance" }, { status: 500 });
+    }
+}
@@ -0,0 +1,50 @@
+/**
+ * API Route: /api/wht/schedule
+ * GET ?payerId=...&period=YYYY-MM - The month's WHT remittance schedule, by authority (FIRS or state IRS) and beneficiary,
+ *     with the credit notes due to beneficiaries whose WHT has been remitted
+ *     &format=csv returns the schedule as CSV; add &certificateNumber=... for that beneficiary's credit note
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { WHTRemittanceError, whtCreditNoteToCSV, whtScheduleToCSV } from "@/lib/taxRules/whtRemittance";
+import { getWHTCreditNotes, getWHTRemittanceSchedule } from "@/lib/taxRules/whtDeductionStore";
+
+function csvResponse(csv: string, filename: string): NextResponse {
+    return new NextResponse(csv, {
+        status: 200,
+        headers: {
+            "Content-Type": "text/csv; charset=utf-8",
+            "Content-Disposition": `attachment; filename="${filename}"`,
+        },
+    });
+}
+
+export async function GET(request: NextRequest): Promise<NextResponse> {
+    const params = request.nextUrl.searchParams;
+    const payerId = params.get("payerId") || "";
+    const period = params.get("period") || "";
+
+    try {
+        const schedule = getWHTRemittanceSchedule(payerId, period);
+        const creditNotes = getWHTCreditNotes(payerId, period);
+        if (params.get("format") !== "csv") {
+            return NextResponse.json({ schedule, creditNotes });
+        }
+
+        const certificateNumber = params.get("certificateNumber");
+        if (certificateNumber) {
+            const note = creditNotes.find(candidate => candidate.certificateNumber === certificateNumber);
+            if (!note) {
+                return NextResponse.json({ error: `No WHT credit note ${certificateNumber}` }, { status: 404 });
+            }
+            return csvResponse(whtCreditNoteToCSV(note), `${note.certificateNumber.toLowerCase()}.csv`);
+        }
+        return csvResponse(whtScheduleToCSV(schedule, payerId), `wht-schedule-${period}.csv`);
+    } catch (error) {
+        if (error instanceof WHTRemittanceError) {
+            return NextResponse.json({ error: error.message }, { status: error.status });
+        }
+        console.error("Error building WHT schedule", error);
+        return NextResponse.json({ error: "Unable to build WHT schedule" }, { status: 500 });
+    }
+}
@@ -4,6 +4,10 @@ import { useState, useEffect, useMemo } from "react";
 import Link from "next/link";
 import { RawTransaction, StatementDraft } from "@/lib/accounting/types";
 import { accountingEngine, AccountingState } from "@/lib/accounting/transactionBridge";
+import { JournalEntry } from "@/lib/accounting/doubleEntry";
+import { taxEngine } from "@/lib/tax/taxEngine";
+import { buildTaxCalendar, DUE_SOON_DAYS, ledgerRemittanceFilings, taxDeadlineWarnings } from "@/lib/taxRules/taxCalendar";
+import type { TaxCalendarEntry } from "@/lib/types";
 
 // Types
 type MetricCard = {
@@ -172,6 +176,73 @@ function MetricCardComponent({ metric }: { metric: MetricCard }) {
   );
 }
 
+// Months back the dashboard looks for remittances still outstanding
+const OVERDUE_LOOKBACK_MONTHS = 12;
+
+// Deadlines falling due in the next two weeks and those already missed, from the
+// tax profile and what the ledger shows is deducted and paid over
+function upcomingTaxDeadlines(journalEntries: JournalEntry[]): TaxCalendarEntry[] {
+  taxEngine.load();
+  const { profile } = taxEngine.getState();
+  const credits = (code: string) => journalEntries.some(entry => entry.lines.some(line => line.accountCode === code && line.credit > 0));
+  const now = new Date();
+  const today = now.toISOString().slice(0, 10);
+  const inTwoWeeks = new Date(Date.now() + DUE_SOON_DAYS * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+  const lookback = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() - OVERDUE_LOOKBACK_MONTHS, 1)).toISOString().slice(0, 10);
+  const filings = ledgerRemittanceFilings(journalEntries);
+
+  try {
+    const calendar = buildTaxCalendar(
+      {
+        taxpayerType: profile.taxpayerType,
+        stateOfResidence: profile.stateOfResidence,
+        fiscalYearEnd: profile.fiscalYearEnd,
+        isVATRegistered: profile.isVATRegistered,
+        deductsWHT: credits("2220"),
+        hasEmployees: credits("2210") || journalEntries.some(entry => entry.transactionType === "payroll"),
+      },
+      { from: lookback, to: inTwoWeeks, asOf: today, filings }
+    );
+    // A month in which no WHT or PAYE was deducted has nothing to remit; VAT still needs a nil return
+    const nothingArose = (entry: TaxCalendarEntry) =>
+      (entry.taxType === "WHT" || entry.taxType === "PAYE") && !filings.some(filing => filing.entryId === entry.id);
+    return taxDeadlineWarnings(calendar).filter(entry => entry.status !== "overdue" || !nothingArose(entry));
+  } catch {
+    // an invalid fiscal year end in the profile should not break the dashboard
+    return [];
+  }
+}
+
+// Tax Deadline Warning Component
+function TaxDeadlineWarning({ deadlines }: { deadlines: TaxCalendarEntry[] }) {
+  return (
+    <div className="rounded-2xl bg-amber-50 border border-amber-200 px-6 py-4">
+      <div className="flex items-center justify-between gap-4 mb-3">
+        <h2 className="text-sm font-semibold text-amber-900">Tax deadlines</h2>
+        <Link href="/tax/workspace" className="text-xs font-semibold text-amber-700 hover:text-amber-900">
+          Open Tax Workspace
+        </Link>
+      </div>
+      <ul className="space-y-2">
+        {deadlines.map((deadline) => (
+          <li key={deadline.id} className="flex items-center justify-between gap-4 text-sm">
+            <span className="text-amber-900">
+              {deadline.description}
+              <span className="text-amber-700"> · {deadline.authority}</span>
+            </span>
+            <span className="font-semibold text-amber-900 whitespace-nowrap">
+              {deadline.status === "overdue"
+                ? `Overdue by ${-deadline.daysUntilDue} day${deadline.daysUntilDue === -1 ? "" : "s"}`
+                : deadline.daysUntilDue === 0 ? "Due today" : `Due in ${deadline.daysUntilDue} day${deadline.daysUntilDue === 1 ? "" : "s"}`} ({deadline.dueDate})
+              {deadline.penalty && <span className="text-red-700"> · penalty ₦{deadline.penalty.total.toLocaleString()}</span>}
+            </span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
 // Empty State Component
 function EmptyState() {
   return (
@@ -201,6 +272,7 @@ export default function DashboardPage() {
   const [transactions, setTransactions] = useState<RawTransaction[]>([]);
   const [engineStatements, setEngineStatements] = useState<StatementDraft | null>(null);
   const [journalCount, setJournalCount] = useState(0);
+  const [taxDeadlines, setTaxDeadlines] = useState<TaxCalendarEntry[]>([]);
 
   // Helper to derive transactions from journal entries based on account codes
   const deriveTransactionsFromJournals = (journalEntries: {
@@ -313,6 +385,7 @@ export default function DashboardPage() {
       const state = accountingEngine.getState();
       setEngineStatements(accountingEngine.generateStatements());
       setJournalCount(state.journalEntries.length);
+      setTaxDeadlines(upcomingTaxDeadlines(state.journalEntries));
 
       // Always derive transactions from journal entries (source of truth)
       if (state.journalEntries.length > 0) {
@@ -337,6 +410,7 @@ export default function DashboardPage() {
       const unsubscribe = accountingEngine.subscribe((newState) => {
         setEngineStatements(accountingEngine.generateStatements());
         setJournalCount(newState.journalEntries.length);
+        setTaxDeadlines(upcomingTaxDeadlines(newState.journalEntries));
 
         // Always re-derive transactions when engine updates
         const derived = deriveTransactionsFromJournals(newState.journalEntries);
@@ -546,6 +620,8 @@ export default function DashboardPage() {
         </div>
       </div>
 
+      {taxDeadlines.length > 0 && <TaxDeadlineWarning deadlines={taxDeadlines} />}
+
       {transactions.length === 0 ? (
         <EmptyState />
       ) : (
@@ -4,6 +4,7 @@ import { useEffect, useState } from 'react';
 import Link from 'next/link';
 import { ArrowLeft, Package, Search, Plus, Filter } from 'lucide-react';
 import type { Product, PaginatedResponse, Category } from '@/lib/inventory/types';
+import { classifyVATSupply, vatSupplyLabel } from '@/lib/taxRules/vatClassification';
 
 export default function ProductsPage() {
     const [products, setProducts] = useState<Product[]>([]);
@@ -153,6 +154,7 @@ export default function ProductsPage() {
                                 const margin = product.sellingPrice > 0
                                     ? ((product.sellingPrice - product.costPrice) / product.sellingPrice * 100)
                                     : 0;
+                                const vat = classifyVATSupply({ product, category: product.category });
                                 return (
                                     <div key={product.id} className="px-4 py-3 hover:bg-gray-50 dark:hover:bg-gray-800/50 transition-colors">
                                         <div className="flex items-center justify-between gap-4">
@@ -164,6 +166,11 @@ export default function ProductsPage() {
                                                             {product.category.name}
                                                         </span>
                                                     )}
+                                                    {vat.supplyType !== 'standard' && (
+                                                        <span className="px-2 py-0.5 text-xs rounded-full bg-green-100 dark:bg-green-900/30 text-green-700 dark:text-green-400" title={vat.note}>
+                                                            {vatSupplyLabel(vat.supplyType)}
+                                                        </span>
+                                                    )}
                                                 </div>
                                                 <p className="text-sm font-medium text-gray-900 dark:text-white truncate">{product.name}</p>
                                                 <p className="text-xs text-gray-600">Per {product.unit}</p>
@@ -86,7 +86,7 @@ export default function HomePage() {
   const [cgtDisposals, setCgtDisposals] = useState<CGTInput[]>([]);
   const [cgtResult, setCgtResult] = useState<{ totalGain: number; totalCGT: number } | null>(null);
   const [newCgtDisposal, setNewCgtDisposal] = useState<{
-    assetType: 'real_estate' | 'shares' | 'business_assets' | 'other';
+    assetType: CGTInput['assetType'];
     assetDescription: string;
     acquisitionCost: string;
     disposalProceeds: string;
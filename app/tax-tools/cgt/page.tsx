@@ -1,41 +1,87 @@
 "use client";
 
 import { useState } from "react";
-import { CGTInput } from "@/lib/types";
-import { CGT_RATE } from "@/lib/taxRules/cgt";
+import { CGTInput, CGTResult } from "@/lib/types";
+import { CGT_RATE, CGTShareAcquisition, CGTYearSummary } from "@/lib/taxRules/cgt";
 
 const formatCurrency = (amount: number) =>
   `₦${amount.toLocaleString("en-NG", { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
 
+const ASSET_TYPE_LABELS: Record<CGTInput["assetType"], string> = {
+  real_estate: "Real Estate",
+  shares: "Shares",
+  business_assets: "Business Assets",
+  government_securities: "Government Securities",
+  life_insurance_policy: "Life Insurance Policy",
+  motor_vehicle: "Motor Vehicle",
+  decoration: "Decoration for Valour",
+  other: "Other Assets",
+};
+
+const parseAmount = (value: string) => parseFloat(value.replace(/,/g, "")) || 0;
+const today = () => new Date().toISOString().split("T")[0];
+
+const emptyDisposal = {
+  assetType: "real_estate" as CGTInput["assetType"],
+  assetDescription: "",
+  acquisitionDate: "",
+  acquisitionCost: "",
+  disposalDate: "",
+  disposalProceeds: "",
+  isPrincipalResidence: false,
+  reinvestedAmount: "",
+  reinvestmentDate: "",
+  security: "",
+  quantity: "",
+};
+
+interface CgtResponse {
+  disposals: CGTResult[];
+  years: CGTYearSummary[];
+  totalGain: number;
+  totalLosses: number;
+  totalCGT: number;
+}
+
 export default function CgtCalculatorPage() {
   const [disposals, setDisposals] = useState<CGTInput[]>([]);
-  const [newDisposal, setNewDisposal] = useState({
-    assetType: "real_estate" as CGTInput["assetType"],
-    assetDescription: "",
-    acquisitionCost: "",
-    disposalProceeds: "",
-  });
-  const [result, setResult] = useState<{ totalGain: number; totalCGT: number } | null>(null);
+  const [newDisposal, setNewDisposal] = useState(emptyDisposal);
+  const [shareAcquisitions, setShareAcquisitions] = useState<CGTShareAcquisition[]>([]);
+  const [newAcquisition, setNewAcquisition] = useState({ security: "", date: "", quantity: "", cost: "" });
+  const [result, setResult] = useState<CgtResponse | null>(null);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
+  const isShares = newDisposal.assetType === "shares";
+  const pooled = isShares && shareAcquisitions.some((acquisition) => acquisition.security === newDisposal.security.trim().toUpperCase());
+
   const addDisposal = () => {
-    const acquisitionCost = parseFloat(newDisposal.acquisitionCost.replace(/,/g, "")) || 0;
-    const disposalProceeds = parseFloat(newDisposal.disposalProceeds.replace(/,/g, "")) || 0;
-    if (acquisitionCost <= 0 || disposalProceeds <= 0) {
+    const acquisitionCost = parseAmount(newDisposal.acquisitionCost);
+    const disposalProceeds = parseAmount(newDisposal.disposalProceeds);
+    if ((acquisitionCost <= 0 && !pooled) || disposalProceeds <= 0) {
       setError("Provide valid acquisition cost and disposal proceeds.");
       return;
     }
+    if (isShares && newDisposal.security && parseAmount(newDisposal.quantity) <= 0) {
+      setError("Provide the number of shares disposed of.");
+      return;
+    }
+    const reinvestedAmount = parseAmount(newDisposal.reinvestedAmount);
     const disposal: CGTInput = {
       assetType: newDisposal.assetType,
       assetDescription: newDisposal.assetDescription || "Asset disposal",
-      acquisitionDate: "2020-01-01",
+      acquisitionDate: newDisposal.acquisitionDate || "2020-01-01",
       acquisitionCost,
-      disposalDate: new Date().toISOString().split("T")[0],
+      disposalDate: newDisposal.disposalDate || today(),
       disposalProceeds,
+      isPrincipalResidence: newDisposal.assetType === "real_estate" ? newDisposal.isPrincipalResidence : undefined,
+      reinvestedAmount: reinvestedAmount > 0 ? reinvestedAmount : undefined,
+      reinvestmentDate: reinvestedAmount > 0 && newDisposal.reinvestmentDate ? newDisposal.reinvestmentDate : undefined,
+      security: isShares && newDisposal.security ? newDisposal.security.trim().toUpperCase() : undefined,
+      quantity: isShares && newDisposal.security ? parseAmount(newDisposal.quantity) : undefined,
     };
     setDisposals((prev) => [...prev, disposal]);
-    setNewDisposal((prev) => ({ ...prev, assetDescription: "", acquisitionCost: "", disposalProceeds: "" }));
+    setNewDisposal((prev) => ({ ...emptyDisposal, assetType: prev.assetType }));
     setError(null);
   };
 
@@ -43,6 +89,22 @@ export default function CgtCalculatorPage() {
     setDisposals((prev) => prev.filter((_, i) => i !== index));
   };
 
+  const addAcquisition = () => {
+    const quantity = parseAmount(newAcquisition.quantity);
+    const cost = parseAmount(newAcquisition.cost);
+    if (!newAcquisition.security.trim() || !newAcquisition.date || quantity <= 0 || cost <= 0) {
+      setError("Provide the security, purchase date, quantity and cost of each share purchase.");
+      return;
+    }
+    setShareAcquisitions((prev) => [...prev, { security: newAcquisition.security.trim().toUpperCase(), date: newAcquisition.date, quantity, cost }]);
+    setNewAcquisition({ security: "", date: "", quantity: "", cost: "" });
+    setError(null);
+  };
+
+  const removeAcquisition = (index: number) => {
+    setShareAcquisitions((prev) => prev.filter((_, i) => i !== index));
+  };
+
   const calculateCgt = async () => {
     if (disposals.length === 0) {
       setError("Add at least one disposal before calculating.");
@@ -54,14 +116,13 @@ export default function CgtCalculatorPage() {
       const response = await fetch("/api/cgt", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ disposals }),
+        body: JSON.stringify({ disposals, shareAcquisitions }),
       });
       if (!response.ok) {
         const data = await response.json();
         throw new Error(data.error || "Unable to compute CGT");
       }
-      const data = await response.json();
-      setResult({ totalGain: data.totalGain, totalCGT: data.totalCGT });
+      setResult(await response.json());
     } catch (err) {
       setError(err instanceof Error ? err.message : "Unable to compute CGT. Try again.");
     } finally {
@@ -75,7 +136,8 @@ export default function CgtCalculatorPage() {
         <p className="text-sm uppercase tracking-wide text-[var(--muted)]">Tax Tool</p>
         <h1 className="text-3xl font-bold">Capital Gains Tax Calculator</h1>
         <p className="text-[var(--muted)]">
-          Capture asset disposals and compute chargeable gains at Nigeria&apos;s flat CGT rate of {(CGT_RATE * 100).toFixed(0)}%.
+          Capture asset disposals and compute chargeable gains at Nigeria&apos;s flat CGT rate of {(CGT_RATE * 100).toFixed(0)}%,
+          after exemptions, reliefs and capital losses of the same year.
         </p>
       </div>
 
@@ -86,10 +148,9 @@ export default function CgtCalculatorPage() {
           <div>
             <label className="block text-sm font-medium mb-2">Asset Type</label>
             <select value={newDisposal.assetType} onChange={(e) => setNewDisposal((prev) => ({ ...prev, assetType: e.target.value as CGTInput["assetType"] }))}>
-              <option value="real_estate">Real Estate</option>
-              <option value="shares">Shares</option>
-              <option value="business_assets">Business Assets</option>
-              <option value="other">Other Assets</option>
+              {Object.entries(ASSET_TYPE_LABELS).map(([value, label]) => (
+                <option key={value} value={value}>{label}</option>
+              ))}
             </select>
           </div>
           <div>
@@ -97,13 +158,51 @@ export default function CgtCalculatorPage() {
             <input type="text" value={newDisposal.assetDescription} onChange={(e) => setNewDisposal((prev) => ({ ...prev, assetDescription: e.target.value }))} placeholder="e.g. Sale of land in Lagos" />
           </div>
           <div>
-            <label className="block text-sm font-medium mb-2">Acquisition Cost (₦)</label>
-            <input type="number" min={0} value={newDisposal.acquisitionCost} onChange={(e) => setNewDisposal((prev) => ({ ...prev, acquisitionCost: e.target.value }))} placeholder="0.00" />
+            <label className="block text-sm font-medium mb-2">Acquisition Date</label>
+            <input type="date" value={newDisposal.acquisitionDate} onChange={(e) => setNewDisposal((prev) => ({ ...prev, acquisitionDate: e.target.value }))} />
+          </div>
+          <div>
+            <label className="block text-sm font-medium mb-2">Disposal Date</label>
+            <input type="date" value={newDisposal.disposalDate} onChange={(e) => setNewDisposal((prev) => ({ ...prev, disposalDate: e.target.value }))} />
+          </div>
+          <div>
+            <label className="block text-sm font-medium mb-2">Acquisition Cost (₦){pooled && <span className="text-[var(--muted)]"> (from share purchases)</span>}</label>
+            <input type="number" min={0} value={newDisposal.acquisitionCost} disabled={pooled} onChange={(e) => setNewDisposal((prev) => ({ ...prev, acquisitionCost: e.target.value }))} placeholder="0.00" />
           </div>
           <div>
             <label className="block text-sm font-medium mb-2">Disposal Proceeds (₦)</label>
             <input type="number" min={0} value={newDisposal.disposalProceeds} onChange={(e) => setNewDisposal((prev) => ({ ...prev, disposalProceeds: e.target.value }))} placeholder="0.00" />
           </div>
+          {isShares && (
+            <>
+              <div>
+                <label className="block text-sm font-medium mb-2">Security (optional)</label>
+                <input type="text" value={newDisposal.security} onChange={(e) => setNewDisposal((prev) => ({ ...prev, security: e.target.value }))} placeholder="e.g. MTNN" />
+              </div>
+              <div>
+                <label className="block text-sm font-medium mb-2">Shares Sold</label>
+                <input type="number" min={0} value={newDisposal.quantity} onChange={(e) => setNewDisposal((prev) => ({ ...prev, quantity: e.target.value }))} placeholder="0" />
+              </div>
+            </>
+          )}
+          {(isShares || newDisposal.assetType === "business_assets") && (
+            <>
+              <div>
+                <label className="block text-sm font-medium mb-2">{isShares ? "Proceeds Reinvested in Shares (₦)" : "Spent on Replacement Asset (₦)"}</label>
+                <input type="number" min={0} value={newDisposal.reinvestedAmount} onChange={(e) => setNewDisposal((prev) => ({ ...prev, reinvestedAmount: e.target.value }))} placeholder="0.00" />
+              </div>
+              <div>
+                <label className="block text-sm font-medium mb-2">Reinvestment Date</label>
+                <input type="date" value={newDisposal.reinvestmentDate} onChange={(e) => setNewDisposal((prev) => ({ ...prev, reinvestmentDate: e.target.value }))} />
+              </div>
+            </>
+          )}
+          {newDisposal.assetType === "real_estate" && (
+            <label className="flex items-center gap-2 text-sm md:col-span-2">
+              <input type="checkbox" className="w-auto" checked={newDisposal.isPrincipalResidence} onChange={(e) => setNewDisposal((prev) => ({ ...prev, isPrincipalResidence: e.target.checked }))} />
+              This was my only or main residence
+            </label>
+          )}
         </div>
 
         <div className="flex justify-end">
@@ -118,9 +217,10 @@ export default function CgtCalculatorPage() {
             {disposals.map((disposal, index) => (
               <div key={index} className="flex items-center justify-between bg-[var(--background)] p-3 rounded-lg border">
                 <div>
-                  <div className="font-medium capitalize">{disposal.assetType.replace("_", " ")}</div>
+                  <div className="font-medium">{ASSET_TYPE_LABELS[disposal.assetType]}</div>
                   <div className="text-sm text-[var(--muted)]">
-                    {disposal.assetDescription} • Cost {formatCurrency(disposal.acquisitionCost)} • Proceeds {formatCurrency(disposal.disposalProceeds)}
+                    {disposal.assetDescription} • {disposal.disposalDate} •{" "}
+                    {disposal.security ? `${disposal.quantity?.toLocaleString()} ${disposal.security}` : `Cost ${formatCurrency(disposal.acquisitionCost)}`} • Proceeds {formatCurrency(disposal.disposalProceeds)}
                   </div>
                 </div>
                 <button className="text-red-500 text-sm" onClick={() => removeDisposal(index)}>
@@ -132,6 +232,36 @@ export default function CgtCalculatorPage() {
         )}
       </div>
 
+      <div className="card space-y-4">
+        <div>
+          <h2 className="text-lg font-semibold">Share Purchases</h2>
+          <p className="text-sm text-[var(--muted)]">
+            Purchases of the same security are pooled, and each sale takes the average cost of the shares held at the time.
+          </p>
+        </div>
+        <div className="grid md:grid-cols-4 gap-4">
+          <input type="text" value={newAcquisition.security} onChange={(e) => setNewAcquisition((prev) => ({ ...prev, security: e.target.value }))} placeholder="Security" />
+          <input type="date" value={newAcquisition.date} onChange={(e) => setNewAcquisition((prev) => ({ ...prev, date: e.target.value }))} />
+          <input type="number" min={0} value={newAcquisition.quantity} onChange={(e) => setNewAcquisition((prev) => ({ ...prev, quantity: e.target.value }))} placeholder="Quantity" />
+          <input type="number" min={0} value={newAcquisition.cost} onChange={(e) => setNewAcquisition((prev) => ({ ...prev, cost: e.target.value }))} placeholder="Total cost (₦)" />
+        </div>
+        <div className="flex justify-end">
+          <button type="button" className="btn btn-secondary" onClick={addAcquisition}>
+            + Add Purchase
+          </button>
+        </div>
+        {shareAcquisitions.map((acquisition, index) => (
+          <div key={index} className="flex items-center justify-between bg-[var(--background)] p-3 rounded-lg border text-sm">
+            <span>
+              {acquisition.date} • {acquisition.quantity.toLocaleString()} {acquisition.security} for {formatCurrency(acquisition.cost)}
+            </span>
+            <button className="text-red-500 text-sm" onClick={() => removeAcquisition(index)}>
+              Remove
+            </button>
+          </div>
+        ))}
+      </div>
+
       <div className="flex justify-end">
         <button className="btn btn-primary" onClick={calculateCgt} disabled={loading}>
           {loading ? "Calculating..." : "Compute CGT"}
@@ -141,16 +271,88 @@ export default function CgtCalculatorPage() {
       {result && (
         <div className="card space-y-4">
           <h2 className="text-xl font-bold">Results</h2>
-          <div className="grid md:grid-cols-2 gap-4 text-sm">
+          <div className="grid md:grid-cols-3 gap-4 text-sm">
             <div className="rounded-xl border border-[var(--border)] p-4 bg-[var(--background)]">
-              <div className="text-[var(--muted)]">Total Chargeable Gain</div>
+              <div className="text-[var(--muted)]">Net Chargeable Gain</div>
               <div className="text-2xl font-semibold mt-1">{formatCurrency(result.totalGain)}</div>
             </div>
             <div className="rounded-xl border border-[var(--border)] p-4 bg-[var(--background)]">
-              <div className="text-[var(--muted)]">CGT Payable (10%)</div>
+              <div className="text-[var(--muted)]">Capital Losses Netted</div>
+              <div className="text-2xl font-semibold mt-1">{formatCurrency(result.totalLosses)}</div>
+            </div>
+            <div className="rounded-xl border border-[var(--border)] p-4 bg-[var(--background)]">
+              <div className="text-[var(--muted)]">CGT Payable ({(CGT_RATE * 100).toFixed(0)}%)</div>
               <div className="text-2xl font-semibold mt-1 text-red-500">{formatCurrency(result.totalCGT)}</div>
             </div>
           </div>
+
+          <div className="table-container">
+            <table>
+              <thead>
+                <tr>
+                  <th>Disposal</th>
+                  <th>Gain / (Loss)</th>
+                  <th>Reliefs</th>
+                  <th>Chargeable Gain</th>
+                </tr>
+              </thead>
+              <tbody>
+                {result.disposals.map((disposal, index) => (
+                  <tr key={index}>
+                    <td>
+                      {disposals[index]?.assetDescription}
+                      {disposal.pooledCostPerShare !== undefined && (
+                        <span className="block text-xs text-[var(--muted)]">Average cost {formatCurrency(disposal.pooledCostPerShare)} per share</span>
+                      )}
+                    </td>
+                    <td>{disposal.gain < 0 ? `(${formatCurrency(-disposal.gain)})` : formatCurrency(disposal.gain)}</td>
+                    <td>
+                      {disposal.reliefs.length === 0 && <span className="text-[var(--muted)]">-</span>}
+                      {disposal.reliefs.map((relief) => (
+                        <div key={relief.id}>
+                          {relief.label}: {formatCurrency(relief.amount)}
+                          <span className="block text-xs text-[var(--muted)]">{relief.citation}</span>
+                        </div>
+                      ))}
+                    </td>
+                    <td>{formatCurrency(disposal.chargeableGain)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          {result.years.length > 0 && (
+            <div className="table-container">
+              <table>
+                <thead>
+                  <tr>
+                    <th>Year</th>
+                    <th>Gains</th>
+                    <th>Losses Netted</th>
+                    <th>Net Chargeable Gain</th>
+                    <th>CGT</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {result.years.map((year) => (
+                    <tr key={year.year}>
+                      <td>{year.year}</td>
+                      <td>{formatCurrency(year.chargeableGains)}</td>
+                      <td>
+                        {formatCurrency(year.allowableLosses)}
+                        {year.unrelievedLosses > 0 && (
+                          <span className="block text-xs text-[var(--muted)]">{formatCurrency(year.unrelievedLosses)} unrelieved</span>
+                        )}
+                      </td>
+                      <td>{formatCurrency(year.netChargeableGain)}</td>
+                      <td className="text-red-600">{formatCurrency(year.cgtPayable)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
         </div>
       )}
     </div>
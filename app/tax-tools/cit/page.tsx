@@ -0,0 +1,258 @@
+"use client";
+
+import { useState } from "react";
+import { CITInstalmentPlan, CITProvisionalEstimate } from "@/lib/taxRules/citProvisional";
+import type { UpcomingObligation } from "@/lib/cashflow/types";
+import { accountingEngine } from "@/lib/accounting/transactionBridge";
+import { cashflowEngine } from "@/lib/cashflow/cashflowEngine";
+import { taxEngine } from "@/lib/tax/taxEngine";
+
+const formatCurrency = (amount: number) =>
+  `₦${amount.toLocaleString("en-NG", { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const parseAmount = (value: string) => parseFloat(value.replace(/,/g, "")) || 0;
+
+export default function CitInstalmentsPage() {
+  const [taxpayerId, setTaxpayerId] = useState("");
+  const [taxYear, setTaxYear] = useState(String(new Date().getFullYear()));
+  const [instalments, setInstalments] = useState("1");
+  const [estimate, setEstimate] = useState<CITProvisionalEstimate | null>(null);
+  const [plan, setPlan] = useState<CITInstalmentPlan | null>(null);
+  const [assessedLiability, setAssessedLiability] = useState("");
+  const [newPayment, setNewPayment] = useState({ paidOn: "", amount: "", reference: "" });
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const request = async (url: string, init?: RequestInit) => {
+    const response = await fetch(url, init);
+    const data = await response.json();
+    if (!response.ok) {
+      throw new Error(data.error || "Request failed");
+    }
+    return data;
+  };
+
+  // Unpaid instalments replace the year's earlier ones in the cash reserved for upcoming obligations
+  const applyPlan = (data: { plan: CITInstalmentPlan; obligations: UpcomingObligation[] }) => {
+    setPlan(data.plan);
+    cashflowEngine.load();
+    cashflowEngine.syncObligations(`cit-instalment-${data.plan.taxYear}-`, data.obligations);
+  };
+
+  const requireTaxpayer = () => {
+    if (!taxpayerId.trim()) {
+      setError("Enter the company's TIN first.");
+      return false;
+    }
+    setError(null);
+    return true;
+  };
+
+  const loadPlan = async () => {
+    if (!requireTaxpayer()) return;
+    try {
+      const params = new URLSearchParams({ taxpayerId: taxpayerId.trim(), taxYear });
+      applyPlan(await request(`/api/cit/provisional?${params}`));
+    } catch (err) {
+      setPlan(null);
+      setError(err instanceof Error ? err.message : "Unable to load the instalment plan.");
+    }
+  };
+
+  const estimateFromLedger = async () => {
+    if (!requireTaxpayer()) return;
+    setLoading(true);
+    try {
+      taxEngine.load();
+      accountingEngine.load();
+      const data = await request("/api/cit/provisional", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          taxpayerId: taxpayerId.trim(),
+          profile: taxEngine.getState().profile,
+          journalEntries: accountingEngine.getState().journalEntries,
+          taxYear: Number(taxYear),
+          instalments: Number(instalments),
+        }),
+      });
+      setEstimate(data.estimate);
+      applyPlan(data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unable to estimate CIT.");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const recordInstalment = async (body: Record<string, unknown>) => {
+    if (!requireTaxpayer()) return;
+    try {
+      applyPlan(
+        await request("/api/cit/instalments", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ taxpayerId: taxpayerId.trim(), taxYear: Number(taxYear), ...body }),
+        })
+      );
+      return true;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unable to record the instalment.");
+      return false;
+    }
+  };
+
+  const recordPayment = async () => {
+    if (!newPayment.paidOn || parseAmount(newPayment.amount) <= 0) {
+      setError("Provide the payment date and amount.");
+      return;
+    }
+    const saved = await recordInstalment({ ...newPayment, amount: parseAmount(newPayment.amount) });
+    if (saved) {
+      setNewPayment({ paidOn: "", amount: "", reference: "" });
+    }
+  };
+
+  return (
+    <div className="max-w-5xl mx-auto py-10 px-4 space-y-6">
+      <div className="space-y-2 text-center">
+        <p className="text-sm uppercase tracking-wide text-[var(--muted)]">Tax Tool</p>
+        <h1 className="text-3xl font-bold">CIT Instalments</h1>
+        <p className="text-[var(--muted)]">
+          Estimate the year&apos;s company income tax from the ledger to date, split it into instalments from the return
+          due date and track the payments. Unpaid instalments are reserved for in the cashflow safe-to-save figure.
+        </p>
+      </div>
+
+      <div className="card space-y-6">
+        {error && <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-2 rounded-lg">{error}</div>}
+
+        <div className="grid md:grid-cols-4 gap-4 items-end">
+          <div className="md:col-span-2">
+            <label className="block text-sm font-medium mb-2">Company TIN</label>
+            <input type="text" value={taxpayerId} onChange={(e) => setTaxpayerId(e.target.value)} placeholder="e.g. 12345678-0001" />
+          </div>
+          <div>
+            <label className="block text-sm font-medium mb-2">Tax Year</label>
+            <input type="number" value={taxYear} onChange={(e) => setTaxYear(e.target.value)} />
+          </div>
+          <button type="button" className="btn btn-secondary" onClick={loadPlan}>
+            Load Plan
+          </button>
+        </div>
+
+        <div className="grid md:grid-cols-4 gap-4 items-end">
+          <div>
+            <label className="block text-sm font-medium mb-2">Instalments</label>
+            <select value={instalments} onChange={(e) => setInstalments(e.target.value)}>
+              {[1, 2, 3, 4, 5].map((count) => (
+                <option key={count} value={count}>{count}</option>
+              ))}
+            </select>
+          </div>
+          <button className="btn btn-primary md:col-start-4" onClick={estimateFromLedger} disabled={loading}>
+            {loading ? "Estimating..." : "Estimate from Ledger"}
+          </button>
+        </div>
+
+        {estimate && (
+          <div className="grid md:grid-cols-3 gap-4 text-sm">
+            <div>
+              <div className="text-[var(--muted)]">Profit to {estimate.toDate.asOf}</div>
+              <div className="font-semibold">{formatCurrency(estimate.toDate.profit)}</div>
+            </div>
+            <div>
+              <div className="text-[var(--muted)]">Annualised profit</div>
+              <div className="font-semibold">{formatCurrency(estimate.annualised.profit)}</div>
+            </div>
+            <div>
+              <div className="text-[var(--muted)]">Estimated CIT</div>
+              <div className="font-semibold">{formatCurrency(estimate.estimatedLiability)}</div>
+            </div>
+            {estimate.notes.length > 0 && (
+              <ul className="md:col-span-3 list-disc pl-5 text-[var(--muted)]">
+                {estimate.notes.map((note) => (
+                  <li key={note}>{note}</li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
+      </div>
+
+      {plan && (
+        <div className="card space-y-4">
+          <h2 className="text-xl font-bold">Instalment plan for {plan.taxYear}</h2>
+          <p className="text-sm text-[var(--muted)]">
+            {formatCurrency(plan.liability)} on the {plan.basis === "self_assessment" ? "self-assessed return" : "provisional estimate"} in{" "}
+            {plan.instalments} instalment{plan.instalments === 1 ? "" : "s"}
+          </p>
+          <div className="table-container">
+            <table>
+              <thead>
+                <tr>
+                  <th>Instalment</th>
+                  <th>Due</th>
+                  <th>Amount</th>
+                  <th>Paid</th>
+                  <th>Outstanding</th>
+                  <th>Status</th>
+                </tr>
+              </thead>
+              <tbody>
+                {plan.schedule.map((line) => (
+                  <tr key={line.id}>
+                    <td>{line.number}</td>
+                    <td>{line.dueDate}</td>
+                    <td>{formatCurrency(line.amount)}</td>
+                    <td>{formatCurrency(line.paid)}</td>
+                    <td>{formatCurrency(line.outstanding)}</td>
+                    <td className={line.status === "overdue" ? "text-red-600" : undefined}>{line.status.replace(/_/g, " ")}</td>
+                  </tr>
+                ))}
+                <tr className="font-semibold bg-[var(--background)]">
+                  <td colSpan={3}>Totals</td>
+                  <td>{formatCurrency(plan.totalPaid)}</td>
+                  <td>{formatCurrency(plan.outstanding)}</td>
+                  <td>{plan.overpaid > 0 ? `Overpaid ${formatCurrency(plan.overpaid)}` : ""}</td>
+                </tr>
+              </tbody>
+            </table>
+          </div>
+
+          <div className="grid md:grid-cols-4 gap-4 items-end">
+            <div>
+              <label className="block text-sm font-medium mb-2">Paid On</label>
+              <input type="date" value={newPayment.paidOn} onChange={(e) => setNewPayment((prev) => ({ ...prev, paidOn: e.target.value }))} />
+            </div>
+            <div>
+              <label className="block text-sm font-medium mb-2">Amount (₦)</label>
+              <input type="number" min={0} value={newPayment.amount} onChange={(e) => setNewPayment((prev) => ({ ...prev, amount: e.target.value }))} />
+            </div>
+            <div>
+              <label className="block text-sm font-medium mb-2">Receipt Reference</label>
+              <input type="text" value={newPayment.reference} onChange={(e) => setNewPayment((prev) => ({ ...prev, reference: e.target.value }))} />
+            </div>
+            <button className="btn btn-secondary" onClick={recordPayment}>
+              Record Payment
+            </button>
+          </div>
+
+          <div className="grid md:grid-cols-4 gap-4 items-end">
+            <div className="md:col-span-3">
+              <label className="block text-sm font-medium mb-2">Liability on the Filed Return (₦)</label>
+              <input type="number" min={0} value={assessedLiability} onChange={(e) => setAssessedLiability(e.target.value)} />
+            </div>
+            <button
+              className="btn btn-secondary"
+              onClick={() => recordInstalment({ assessedLiability: parseAmount(assessedLiability) })}
+              disabled={!assessedLiability}
+            >
+              Record Self-Assessment
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
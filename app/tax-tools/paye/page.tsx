@@ -0,0 +1,548 @@
+"use client";
+
+import { useState } from "react";
+import { AnnualPAYEReturn, PayrollEmployee, PayrollRun } from "@/lib/types";
+import { NIGERIAN_STATES } from "@/lib/taxRules/config";
+import { accountingEngine } from "@/lib/accounting/transactionBridge";
+import { generatePAYEReturnPDF } from "@/lib/pdfGenerator";
+
+const formatCurrency = (amount: number) =>
+  `₦${amount.toLocaleString("en-NG", { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const parseAmount = (value: string) => parseFloat(value.replace(/,/g, "")) || 0;
+
+const emptyEmployee = {
+  id: "",
+  name: "",
+  tin: "",
+  stateOfResidence: "Lagos",
+  basicSalary: "",
+  housingAllowance: "",
+  transportAllowance: "",
+  otherAllowances: "",
+  pensionFundAdministrator: "",
+  annualRentPaid: "",
+  pensionEnrolled: true,
+  nhfEnrolled: true,
+  nhisEnrolled: false,
+};
+
+export default function PayeCalculatorPage() {
+  const [employerId, setEmployerId] = useState("");
+  const [employees, setEmployees] = useState<PayrollEmployee[]>([]);
+  const [newEmployee, setNewEmployee] = useState(emptyEmployee);
+  const [period, setPeriod] = useState(new Date().toISOString().slice(0, 7));
+  const [annualTurnover, setAnnualTurnover] = useState("");
+  const [run, setRun] = useState<PayrollRun | null>(null);
+  const [posted, setPosted] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [returnYear, setReturnYear] = useState(String(new Date().getFullYear() - 1));
+  const [returnState, setReturnState] = useState("Lagos");
+  const [payeReturn, setPayeReturn] = useState<AnnualPAYEReturn | null>(null);
+  const [newPayment, setNewPayment] = useState({ period: "", amount: "", paidOn: "", receiptNumber: "" });
+
+  const request = async (url: string, init?: RequestInit) => {
+    const response = await fetch(url, init);
+    const data = await response.json();
+    if (!response.ok) {
+      throw new Error(data.error || "Request failed");
+    }
+    return data;
+  };
+
+  const loadPayroll = async () => {
+    if (!employerId.trim()) {
+      setError("Enter the employer's TIN to load its payroll.");
+      return;
+    }
+    setError(null);
+    try {
+      const data = await request(`/api/payroll?employerId=${encodeURIComponent(employerId.trim())}`);
+      setEmployees(data.payroll.employees);
+    } catch {
+      setEmployees([]);
+    }
+  };
+
+  const saveEmployee = async () => {
+    if (!employerId.trim()) {
+      setError("Enter the employer's TIN before adding employees.");
+      return;
+    }
+    if (!newEmployee.id.trim() || !newEmployee.name.trim() || parseAmount(newEmployee.basicSalary) <= 0) {
+      setError("Provide the staff number, name and monthly basic salary.");
+      return;
+    }
+    setError(null);
+    try {
+      const data = await request("/api/payroll/employees", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          employerId: employerId.trim(),
+          employee: {
+            ...newEmployee,
+            basicSalary: parseAmount(newEmployee.basicSalary),
+            housingAllowance: parseAmount(newEmployee.housingAllowance),
+            transportAllowance: parseAmount(newEmployee.transportAllowance),
+            otherAllowances: parseAmount(newEmployee.otherAllowances),
+            annualRentPaid: parseAmount(newEmployee.annualRentPaid),
+          },
+        }),
+      });
+      setEmployees(data.employees);
+      setNewEmployee(emptyEmployee);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unable to save employee.");
+    }
+  };
+
+  const removeEmployee = async (employeeId: string) => {
+    try {
+      const params = new URLSearchParams({ employerId: employerId.trim(), employeeId });
+      const data = await request(`/api/payroll/employees?${params}`, { method: "DELETE" });
+      setEmployees(data.employees);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unable to remove employee.");
+    }
+  };
+
+  // The month's payroll journal already in the ledger, unless it has since been voided or reversed
+  const postedPayrollJournal = (runPeriod: string) => {
+    accountingEngine.load();
+    const entries = accountingEngine.getState().journalEntries;
+    return entries.find(
+      (entry) =>
+        entry.reference === `PAYROLL-${runPeriod}` &&
+        entry.status === "posted" &&
+        !entry.reversesId &&
+        !entries.some((other) => other.reversesId === entry.id)
+    );
+  };
+
+  const runPayroll = async () => {
+    if (employees.length === 0) {
+      setError("Add at least one employee before running the payroll.");
+      return;
+    }
+    setLoading(true);
+    setError(null);
+    try {
+      const data = await request("/api/payroll", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ employerId: employerId.trim(), period, annualTurnover: parseAmount(annualTurnover) }),
+      });
+      setRun(data.run);
+      setPosted(Boolean(postedPayrollJournal(data.run.period)));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unable to run payroll. Try again.");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const postToLedger = () => {
+    if (!run) return;
+    const existing = postedPayrollJournal(run.period);
+    if (existing) {
+      setPosted(true);
+      setError(`The ${run.period} payroll is already in the ledger (${existing.id}). Void or reverse it before posting a re-run.`);
+      return;
+    }
+    try {
+      run.journalEntries.forEach((entry) => accountingEngine.postJournalEntry(entry));
+      setPosted(true);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unable to post the payroll journal.");
+    }
+  };
+
+  const returnQuery = (extra: Record<string, string> = {}) =>
+    new URLSearchParams({ employerId: employerId.trim(), taxYear: returnYear, state: returnState, ...extra }).toString();
+
+  const buildReturn = async () => {
+    setError(null);
+    try {
+      const data = await request(`/api/payroll/returns?${returnQuery()}`);
+      setPayeReturn(data.payeReturn);
+    } catch (err) {
+      setPayeReturn(null);
+      setError(err instanceof Error ? err.message : "Unable to build the PAYE return.");
+    }
+  };
+
+  const recordPayment = async () => {
+    const amount = parseAmount(newPayment.amount);
+    if (!newPayment.period || amount <= 0 || !newPayment.paidOn) {
+      setError("Provide the month, amount and date of the PAYE payment.");
+      return;
+    }
+    setError(null);
+    try {
+      await request("/api/payroll/remittances", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ employerId: employerId.trim(), state: returnState, ...newPayment, amount }),
+      });
+      setNewPayment({ period: "", amount: "", paidOn: "", receiptNumber: "" });
+      if (payeReturn) {
+        await buildReturn();
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unable to record the payment.");
+    }
+  };
+
+  const downloadPdf = (employeeId?: string) => {
+    if (!payeReturn) return;
+    try {
+      generatePAYEReturnPDF(payeReturn, employeeId);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unable to generate the PDF.");
+    }
+  };
+
+  const employeeField = (field: keyof typeof emptyEmployee, label: string, type = "text") => (
+    <div>
+      <label className="block text-sm font-medium mb-2">{label}</label>
+      <input
+        type={type}
+        min={type === "number" ? 0 : undefined}
+        value={newEmployee[field] as string}
+        onChange={(e) => setNewEmployee((prev) => ({ ...prev, [field]: e.target.value }))}
+      />
+    </div>
+  );
+
+  const employeeFlag = (field: "pensionEnrolled" | "nhfEnrolled" | "nhisEnrolled", label: string) => (
+    <label className="flex items-center gap-2 text-sm">
+      <input
+        type="checkbox"
+        className="w-auto"
+        checked={newEmployee[field]}
+        onChange={(e) => setNewEmployee((prev) => ({ ...prev, [field]: e.target.checked }))}
+      />
+      {label}
+    </label>
+  );
+
+  return (
+    <div className="max-w-5xl mx-auto py-10 px-4 space-y-6">
+      <div className="space-y-2 text-center">
+        <p className="text-sm uppercase tracking-wide text-[var(--muted)]">Tax Tool</p>
+        <h1 className="text-3xl font-bold">PAYE Payroll</h1>
+        <p className="text-[var(--muted)]">
+          Keep employee pay records, run the monthly payroll with PAYE from the rulebook in force, and get payslips,
+          the remittance schedule and the payroll journal.
+        </p>
+      </div>
+
+      <div className="card space-y-6">
+        {error && <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-2 rounded-lg">{error}</div>}
+
+        <div className="grid md:grid-cols-4 gap-4 items-end">
+          <div className="md:col-span-3">
+            <label className="block text-sm font-medium mb-2">Employer TIN</label>
+            <input type="text" value={employerId} onChange={(e) => setEmployerId(e.target.value)} placeholder="e.g. 12345678-0001" />
+          </div>
+          <button type="button" className="btn btn-secondary" onClick={loadPayroll}>
+            Load Payroll
+          </button>
+        </div>
+
+        <div className="grid md:grid-cols-3 gap-4">
+          {employeeField("id", "Staff Number")}
+          {employeeField("name", "Name")}
+          {employeeField("tin", "Employee TIN")}
+          <div>
+            <label className="block text-sm font-medium mb-2">State of Residence</label>
+            <select value={newEmployee.stateOfResidence} onChange={(e) => setNewEmployee((prev) => ({ ...prev, stateOfResidence: e.target.value }))}>
+              {NIGERIAN_STATES.map((state) => (
+                <option key={state} value={state}>{state}</option>
+              ))}
+            </select>
+          </div>
+          {employeeField("basicSalary", "Monthly Basic (₦)", "number")}
+          {employeeField("housingAllowance", "Monthly Housing (₦)", "number")}
+          {employeeField("transportAllowance", "Monthly Transport (₦)", "number")}
+          {employeeField("otherAllowances", "Other Monthly Allowances (₦)", "number")}
+          {employeeField("pensionFundAdministrator", "Pension Fund Administrator")}
+          {employeeField("annualRentPaid", "Annual Rent Paid (₦)", "number")}
+        </div>
+        <div className="flex flex-wrap gap-6">
+          {employeeFlag("pensionEnrolled", "Contributory pension")}
+          {employeeFlag("nhfEnrolled", "National Housing Fund")}
+          {employeeFlag("nhisEnrolled", "Health insurance (NHIS)")}
+        </div>
+        <div className="flex justify-end">
+          <button type="button" className="btn btn-secondary" onClick={saveEmployee}>
+            + Save Employee
+          </button>
+        </div>
+
+        {employees.length > 0 && (
+          <div className="space-y-2">
+            <div className="text-sm font-medium text-[var(--muted)]">Employees ({employees.length})</div>
+            {employees.map((employee) => (
+              <div key={employee.id} className="flex items-center justify-between bg-[var(--background)] p-3 rounded-lg border">
+                <div>
+                  <div className="font-medium">{employee.name} ({employee.id})</div>
+                  <div className="text-sm text-[var(--muted)]">
+                    {employee.stateOfResidence} • Basic {formatCurrency(employee.basicSalary)} • Gross{" "}
+                    {formatCurrency(employee.basicSalary + employee.housingAllowance + employee.transportAllowance + employee.otherAllowances)}
+                  </div>
+                </div>
+                <button className="text-red-500 text-sm" onClick={() => removeEmployee(employee.id)}>
+                  Remove
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="grid md:grid-cols-3 gap-4 items-end">
+          <div>
+            <label className="block text-sm font-medium mb-2">Payroll Month</label>
+            <input type="month" value={period} onChange={(e) => setPeriod(e.target.value)} />
+          </div>
+          <div>
+            <label className="block text-sm font-medium mb-2">Annual Turnover (₦, for ITF)</label>
+            <input type="number" min={0} value={annualTurnover} onChange={(e) => setAnnualTurnover(e.target.value)} placeholder="0.00" />
+          </div>
+          <button className="btn btn-primary" onClick={runPayroll} disabled={loading}>
+            {loading ? "Running..." : "Run Payroll"}
+          </button>
+        </div>
+      </div>
+
+      {run && (
+        <div className="card space-y-4">
+          <h2 className="text-xl font-bold">Payroll for {run.period}</h2>
+          <div className="table-container">
+            <table>
+              <thead>
+                <tr>
+                  <th>Employee</th>
+                  <th>Gross Pay</th>
+                  <th>Pension</th>
+                  <th>NHF</th>
+                  <th>NHIS</th>
+                  <th>PAYE</th>
+                  <th>Net Pay</th>
+                </tr>
+              </thead>
+              <tbody>
+                {run.payslips.map((slip) => (
+                  <tr key={slip.employeeId}>
+                    <td>
+                      {slip.employeeName}
+                      <span className="block text-xs text-[var(--muted)]">
+                        Taxable {formatCurrency(slip.computation.annualTaxableIncome)} a year after{" "}
+                        {slip.computation.personalReliefType === "CRA" ? "CRA" : "rent relief"}
+                        {slip.computation.minimumTaxApplied ? " • minimum tax" : ""}
+                      </span>
+                    </td>
+                    <td>{formatCurrency(slip.grossPay)}</td>
+                    <td>{formatCurrency(slip.pension)}</td>
+                    <td>{formatCurrency(slip.nhf)}</td>
+                    <td>{formatCurrency(slip.nhis)}</td>
+                    <td className="text-red-600">{formatCurrency(slip.paye)}</td>
+                    <td>{formatCurrency(slip.netPay)}</td>
+                  </tr>
+                ))}
+                <tr className="font-semibold bg-[var(--background)]">
+                  <td>Totals</td>
+                  <td>{formatCurrency(run.totals.grossPay)}</td>
+                  <td>{formatCurrency(run.totals.pension)}</td>
+                  <td>{formatCurrency(run.totals.nhf)}</td>
+                  <td>{formatCurrency(run.totals.nhis)}</td>
+                  <td className="text-red-600">{formatCurrency(run.totals.paye)}</td>
+                  <td>{formatCurrency(run.totals.netPay)}</td>
+                </tr>
+              </tbody>
+            </table>
+          </div>
+
+          <h3 className="text-lg font-semibold">Remittance Schedule</h3>
+          <div className="table-container">
+            <table>
+              <thead>
+                <tr>
+                  <th>Remittance</th>
+                  <th>Pay To</th>
+                  <th>Amount</th>
+                  <th>Due</th>
+                </tr>
+              </thead>
+              <tbody>
+                {run.remittances.map((line) => (
+                  <tr key={`${line.type}-${line.payee}`}>
+                    <td>
+                      {line.type}
+                      <span className="block text-xs text-[var(--muted)]">{line.citation}</span>
+                    </td>
+                    <td>{line.payee}</td>
+                    <td>{formatCurrency(line.amount)}</td>
+                    <td>{line.dueDate}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          <div className="text-sm text-[var(--muted)]">
+            Employer pension {formatCurrency(run.totals.employerPension)} • NSITF {formatCurrency(run.totals.nsitf)} • ITF{" "}
+            {formatCurrency(run.totals.itf)} • Total employer cost {formatCurrency(run.totals.employerCost)}
+          </div>
+          {run.notes.map((note) => (
+            <p key={note} className="text-sm text-[var(--muted)]">{note}</p>
+          ))}
+
+          <div className="flex justify-end">
+            <button className="btn btn-secondary" onClick={postToLedger} disabled={posted}>
+              {posted ? "Posted to Ledger" : "Post Payroll Journal"}
+            </button>
+          </div>
+        </div>
+      )}
+
+      <div className="card space-y-4">
+        <div>
+          <h2 className="text-xl font-bold">Annual PAYE Return (Form H1)</h2>
+          <p className="text-sm text-[var(--muted)]">
+            Totals each employee&apos;s pay and PAYE for the year from the recorded payroll runs, and reconciles the PAYE
+            deducted against what was paid to the state. The return is due by 31 January.
+          </p>
+        </div>
+        <div className="grid md:grid-cols-3 gap-4 items-end">
+          <div>
+            <label className="block text-sm font-medium mb-2">Year</label>
+            <input type="number" value={returnYear} onChange={(e) => setReturnYear(e.target.value)} />
+          </div>
+          <div>
+            <label className="block text-sm font-medium mb-2">State</label>
+            <select value={returnState} onChange={(e) => setReturnState(e.target.value)}>
+              {NIGERIAN_STATES.map((state) => (
+                <option key={state} value={state}>{state}</option>
+              ))}
+            </select>
+          </div>
+          <button className="btn btn-primary" onClick={buildReturn}>
+            Build Return
+          </button>
+        </div>
+
+        <div className="grid md:grid-cols-5 gap-4 items-end">
+          <div>
+            <label className="block text-sm font-medium mb-2">PAYE Paid For</label>
+            <input type="month" value={newPayment.period} onChange={(e) => setNewPayment((prev) => ({ ...prev, period: e.target.value }))} />
+          </div>
+          <div>
+            <label className="block text-sm font-medium mb-2">Amount (₦)</label>
+            <input type="number" min={0} value={newPayment.amount} onChange={(e) => setNewPayment((prev) => ({ ...prev, amount: e.target.value }))} />
+          </div>
+          <div>
+            <label className="block text-sm font-medium mb-2">Paid On</label>
+            <input type="date" value={newPayment.paidOn} onChange={(e) => setNewPayment((prev) => ({ ...prev, paidOn: e.target.value }))} />
+          </div>
+          <div>
+            <label className="block text-sm font-medium mb-2">Receipt No.</label>
+            <input type="text" value={newPayment.receiptNumber} onChange={(e) => setNewPayment((prev) => ({ ...prev, receiptNumber: e.target.value }))} />
+          </div>
+          <button type="button" className="btn btn-secondary" onClick={recordPayment}>
+            + Record Payment
+          </button>
+        </div>
+
+        {payeReturn && (
+          <>
+            <div className="table-container">
+              <table>
+                <thead>
+                  <tr>
+                    <th>S/N</th>
+                    <th>Employee</th>
+                    <th>Months</th>
+                    <th>Gross Emoluments</th>
+                    <th>Tax Deducted</th>
+                    <th>Deduction Card</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {payeReturn.lines.map((line) => (
+                    <tr key={line.employeeId}>
+                      <td>{line.serialNumber}</td>
+                      <td>
+                        {line.employeeName}
+                        <span className="block text-xs text-[var(--muted)]">{line.tin || "No TIN"}</span>
+                      </td>
+                      <td>{line.monthsEmployed}</td>
+                      <td>{formatCurrency(line.grossEmoluments)}</td>
+                      <td className="text-red-600">{formatCurrency(line.taxDeducted)}</td>
+                      <td className="space-x-2 text-sm">
+                        <a className="text-[var(--primary)]" href={`/api/payroll/returns?${returnQuery({ format: "csv", employeeId: line.employeeId })}`}>CSV</a>
+                        <button className="text-[var(--primary)]" onClick={() => downloadPdf(line.employeeId)}>PDF</button>
+                      </td>
+                    </tr>
+                  ))}
+                  <tr className="font-semibold bg-[var(--background)]">
+                    <td colSpan={3}>Totals ({payeReturn.totals.employeeCount} employees)</td>
+                    <td>{formatCurrency(payeReturn.totals.grossEmoluments)}</td>
+                    <td className="text-red-600">{formatCurrency(payeReturn.totals.taxDeducted)}</td>
+                    <td />
+                  </tr>
+                </tbody>
+              </table>
+            </div>
+
+            <h3 className="text-lg font-semibold">Remittance Reconciliation</h3>
+            <div className="table-container">
+              <table>
+                <thead>
+                  <tr>
+                    <th>Month</th>
+                    <th>Deducted</th>
+                    <th>Remitted</th>
+                    <th>Difference</th>
+                    <th>Status</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {payeReturn.reconciliation.months.map((month) => (
+                    <tr key={month.month}>
+                      <td>{month.month}</td>
+                      <td>{formatCurrency(month.payeDeducted)}</td>
+                      <td>{formatCurrency(month.payeRemitted)}</td>
+                      <td className={month.difference !== 0 ? "text-red-600" : undefined}>{formatCurrency(month.difference)}</td>
+                      <td>
+                        {month.status.replace(/_/g, " ")}
+                        {month.paidLate && <span className="block text-xs text-red-600">Paid after {month.dueDate}</span>}
+                      </td>
+                    </tr>
+                  ))}
+                  <tr className="font-semibold bg-[var(--background)]">
+                    <td>Totals</td>
+                    <td>{formatCurrency(payeReturn.reconciliation.totalDeducted)}</td>
+                    <td>{formatCurrency(payeReturn.reconciliation.totalRemitted)}</td>
+                    <td>{formatCurrency(payeReturn.reconciliation.difference)}</td>
+                    <td>{payeReturn.reconciliation.isReconciled ? "Reconciled" : "Not reconciled"}</td>
+                  </tr>
+                </tbody>
+              </table>
+            </div>
+
+            <div className="flex justify-end gap-3">
+              <a className="btn btn-secondary" href={`/api/payroll/returns?${returnQuery({ format: "csv" })}`}>
+                Download CSV
+              </a>
+              <button className="btn btn-primary" onClick={() => downloadPdf()}>
+                Download PDF
+              </button>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
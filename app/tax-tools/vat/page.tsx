@@ -2,6 +2,9 @@
 
 import { useState } from "react";
 import { VAT_RATE } from "@/lib/taxRules/config";
+import { VATReturnSchedule } from "@/lib/types";
+import { buildVATReturns, VAT_RETURN_FORM_LINES, vatReturnToCSV } from "@/lib/taxRules/vatReturn";
+import { accountingEngine } from "@/lib/accounting/transactionBridge";
 
 const formatCurrency = (amount: number) =>
   `₦${amount.toLocaleString("en-NG", { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
@@ -15,6 +18,40 @@ export default function VatCalculatorPage() {
   const outputVat = taxableSales > 0 ? taxableSales * VAT_RATE : 0;
   const netVat = outputVat - inputCredits;
 
+  const thisMonth = new Date().toISOString().slice(0, 7);
+  const [fromPeriod, setFromPeriod] = useState(thisMonth);
+  const [toPeriod, setToPeriod] = useState(thisMonth);
+  const [creditBroughtForward, setCreditBroughtForward] = useState("");
+  const [schedule, setSchedule] = useState<VATReturnSchedule | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const buildReturns = () => {
+    setError(null);
+    try {
+      accountingEngine.load();
+      setSchedule(
+        buildVATReturns(accountingEngine.getState().journalEntries, {
+          from: fromPeriod,
+          to: toPeriod,
+          creditBroughtForward: parseFloat(creditBroughtForward.replace(/,/g, "")) || 0,
+        })
+      );
+    } catch (err) {
+      setSchedule(null);
+      setError(err instanceof Error ? err.message : "Unable to build the VAT returns.");
+    }
+  };
+
+  const downloadCsv = () => {
+    if (!schedule) return;
+    const url = URL.createObjectURL(new Blob([vatReturnToCSV(schedule)], { type: "text/csv" }));
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = `vat-return-${schedule.from}-to-${schedule.to}.csv`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
   return (
     <div className="max-w-3xl mx-auto py-10 px-4 space-y-6">
       <div className="space-y-2 text-center">
@@ -51,6 +88,85 @@ export default function VatCalculatorPage() {
           </div>
         </div>
       </div>
+
+      <div className="card space-y-4">
+        <div>
+          <h2 className="text-xl font-bold">Monthly VAT Return from the Ledger</h2>
+          <p className="text-sm text-[var(--muted)]">
+            Output VAT is read from posted sales journals and input VAT from purchases posted to Input VAT Receivable.
+            Exempt and zero-rated sales follow their VAT classification. Each return is due by the 21st of the following month.
+          </p>
+        </div>
+        <div className="grid md:grid-cols-4 gap-4 items-end">
+          <div>
+            <label className="block text-sm font-medium mb-2">From</label>
+            <input type="month" value={fromPeriod} onChange={(e) => setFromPeriod(e.target.value)} />
+          </div>
+          <div>
+            <label className="block text-sm font-medium mb-2">To</label>
+            <input type="month" value={toPeriod} onChange={(e) => setToPeriod(e.target.value)} />
+          </div>
+          <div>
+            <label className="block text-sm font-medium mb-2">Credit Brought Forward (₦)</label>
+            <input type="number" min={0} value={creditBroughtForward} onChange={(e) => setCreditBroughtForward(e.target.value)} placeholder="0.00" />
+          </div>
+          <button className="btn btn-primary" onClick={buildReturns}>
+            Build Returns
+          </button>
+        </div>
+
+        {error && <div className="text-sm text-red-600">{error}</div>}
+
+        {schedule && (
+          <>
+            <div className="table-container">
+              <table>
+                <thead>
+                  <tr>
+                    <th>FIRS VAT Return</th>
+                    {schedule.months.map((month) => (
+                      <th key={month.period}>{month.period}</th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {VAT_RETURN_FORM_LINES.map((line) => (
+                    <tr key={line.label}>
+                      <td>{line.label}</td>
+                      {schedule.months.map((month) => {
+                        const value = line.value(month);
+                        return <td key={month.period}>{typeof value === "number" ? formatCurrency(value) : value}</td>;
+                      })}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            {schedule.months
+              .filter((month) => !month.reconciliation.isReconciled)
+              .map((month) => (
+                <div key={month.period} className="text-sm text-red-600">
+                  {month.period}: output VAT posted differs from {formatCurrency(month.reconciliation.expectedOutputVAT)} expected by{" "}
+                  {formatCurrency(month.reconciliation.outputVATVariance)}.
+                  {month.reconciliation.salesWithoutVAT.length > 0 &&
+                    ` Sales without VAT: ${month.reconciliation.salesWithoutVAT.join(", ")}.`}
+                  {month.reconciliation.vatOnNonTaxableSupplies.length > 0 &&
+                    ` VAT charged on exempt or zero-rated sales: ${month.reconciliation.vatOnNonTaxableSupplies.join(", ")}.`}
+                </div>
+              ))}
+
+            <div className="flex items-center justify-between">
+              <div className="text-sm text-[var(--muted)]">
+                VAT payable {formatCurrency(schedule.totalVATPayable)} · credit carried forward {formatCurrency(schedule.creditCarriedForward)}
+              </div>
+              <button className="btn btn-secondary" onClick={downloadCsv}>
+                Download CSV
+              </button>
+            </div>
+          </>
+        )}
+      </div>
     </div>
   );
 }
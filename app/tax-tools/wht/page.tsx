@@ -1,20 +1,118 @@
 "use client";
 
 import { useState } from "react";
-import { WHTInput, WHTResult } from "@/lib/types";
+import { WHTCreditNote, WHTInput, WHTRemittanceSchedule, WHTResult } from "@/lib/types";
 import { WHT_RATES } from "@/lib/taxRules/whtConfig";
+import { NIGERIAN_STATES } from "@/lib/taxRules/config";
+import { journalsWithoutWHTDeduction } from "@/lib/taxRules/whtRemittance";
+import { accountingEngine } from "@/lib/accounting/transactionBridge";
+import { JournalEntry } from "@/lib/accounting/doubleEntry";
 
 const formatCurrency = (amount: number) =>
   `₦${amount.toLocaleString("en-NG", { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
 
 const formatPercent = (rate: number) => `${(rate * 100).toFixed(1)}%`;
 
+const emptyDeduction = {
+  paymentDate: new Date().toISOString().slice(0, 10),
+  beneficiaryName: "",
+  beneficiaryTIN: "",
+  beneficiaryType: "company",
+  beneficiaryState: "Lagos",
+  isResident: true,
+  paymentType: WHT_RATES[0]?.paymentType || "dividends",
+  grossAmount: "",
+  invoiceReference: "",
+  journalId: "",
+};
+
 export default function WhtCalculatorPage() {
   const [whtPayments, setWhtPayments] = useState<WHTInput[]>([]);
   const [newPayment, setNewPayment] = useState({ paymentType: WHT_RATES[0]?.paymentType || "dividends", amount: "", isResident: true });
   const [whtResult, setWhtResult] = useState<WHTResult | null>(null);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [payerId, setPayerId] = useState("");
+  const [payerName, setPayerName] = useState("");
+  const [newDeduction, setNewDeduction] = useState(emptyDeduction);
+  const [schedulePeriod, setSchedulePeriod] = useState(new Date().toISOString().slice(0, 7));
+  const [schedule, setSchedule] = useState<WHTRemittanceSchedule | null>(null);
+  const [creditNotes, setCreditNotes] = useState<WHTCreditNote[]>([]);
+  const [unrecordedJournals, setUnrecordedJournals] = useState<JournalEntry[]>([]);
+  const [remittance, setRemittance] = useState({ remittedOn: new Date().toISOString().slice(0, 10), receiptNumber: "" });
+
+  const request = async (url: string, init?: RequestInit) => {
+    const response = await fetch(url, init);
+    const data = await response.json();
+    if (!response.ok) {
+      throw new Error(data.error || "Request failed");
+    }
+    return data;
+  };
+
+  const scheduleQuery = (extra: Record<string, string> = {}) =>
+    new URLSearchParams({ payerId: payerId.trim(), period: schedulePeriod, ...extra }).toString();
+
+  const buildSchedule = async () => {
+    setError(null);
+    try {
+      const data = await request(`/api/wht/schedule?${scheduleQuery()}`);
+      setSchedule(data.schedule);
+      setCreditNotes(data.creditNotes);
+      const recorded = await request(`/api/wht/deductions?${new URLSearchParams({ payerId: payerId.trim() })}`);
+      accountingEngine.load();
+      setUnrecordedJournals(
+        journalsWithoutWHTDeduction(accountingEngine.getState().journalEntries, recorded.deductions)
+          .filter((entry) => entry.date.slice(0, 7) === schedulePeriod)
+      );
+    } catch (err) {
+      setSchedule(null);
+      setCreditNotes([]);
+      setError(err instanceof Error ? err.message : "Unable to build the WHT schedule.");
+    }
+  };
+
+  const recordDeduction = async () => {
+    const grossAmount = parseFloat(newDeduction.grossAmount.replace(/,/g, "")) || 0;
+    if (!payerId.trim() || !newDeduction.beneficiaryName.trim() || grossAmount <= 0) {
+      setError("Provide your TIN, the beneficiary and the gross amount paid.");
+      return;
+    }
+    setError(null);
+    try {
+      await request("/api/wht/deductions", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ payerId: payerId.trim(), payerName, deduction: { ...newDeduction, grossAmount } }),
+      });
+      setNewDeduction((prev) => ({ ...emptyDeduction, paymentDate: prev.paymentDate }));
+      if (schedule) {
+        await buildSchedule();
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unable to record the deduction.");
+    }
+  };
+
+  // Pre-fills the deduction form from a ledger journal that credited WHT Payable
+  const recordFromJournal = (entry: JournalEntry) => {
+    const grossAmount = entry.lines.filter((line) => line.debit > 0).reduce((sum, line) => sum + line.debit, 0);
+    setNewDeduction((prev) => ({ ...prev, paymentDate: entry.date.slice(0, 10), grossAmount: String(grossAmount), journalId: entry.id }));
+  };
+
+  const markRemitted = async (authority: string) => {
+    setError(null);
+    try {
+      await request("/api/wht/remittances", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ payerId: payerId.trim(), period: schedulePeriod, authority, ...remittance }),
+      });
+      await buildSchedule();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unable to mark the WHT as remitted.");
+    }
+  };
 
   const addPayment = () => {
     const amount = parseFloat(newPayment.amount.replace(/,/g, "")) || 0;
@@ -178,6 +276,205 @@ export default function WhtCalculatorPage() {
           </div>
         </div>
       )}
+
+      <div className="card space-y-4">
+        <div>
+          <h2 className="text-xl font-bold">Monthly WHT Remittance Schedule</h2>
+          <p className="text-sm text-[var(--muted)]">
+            Record payments you made net of WHT. WHT deducted from companies and non-residents is remitted to FIRS; WHT deducted
+            from resident individuals goes to their state IRS. Both are due by the 21st of the following month.
+          </p>
+        </div>
+
+        <div className="grid md:grid-cols-2 gap-4">
+          <div>
+            <label className="block text-sm font-medium mb-2">Your TIN</label>
+            <input type="text" value={payerId} onChange={(e) => setPayerId(e.target.value)} />
+          </div>
+          <div>
+            <label className="block text-sm font-medium mb-2">Business Name</label>
+            <input type="text" value={payerName} onChange={(e) => setPayerName(e.target.value)} />
+          </div>
+        </div>
+
+        <div className="grid md:grid-cols-4 gap-4 items-end">
+          <div>
+            <label className="block text-sm font-medium mb-2">Beneficiary</label>
+            <input type="text" value={newDeduction.beneficiaryName} onChange={(e) => setNewDeduction((prev) => ({ ...prev, beneficiaryName: e.target.value }))} />
+          </div>
+          <div>
+            <label className="block text-sm font-medium mb-2">Beneficiary TIN</label>
+            <input type="text" value={newDeduction.beneficiaryTIN} onChange={(e) => setNewDeduction((prev) => ({ ...prev, beneficiaryTIN: e.target.value }))} />
+          </div>
+          <div>
+            <label className="block text-sm font-medium mb-2">Beneficiary Type</label>
+            <select value={newDeduction.beneficiaryType} onChange={(e) => setNewDeduction((prev) => ({ ...prev, beneficiaryType: e.target.value }))}>
+              <option value="company">Company</option>
+              <option value="individual">Individual</option>
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium mb-2">State of Residence</label>
+            <select
+              value={newDeduction.beneficiaryState}
+              disabled={newDeduction.beneficiaryType !== "individual"}
+              onChange={(e) => setNewDeduction((prev) => ({ ...prev, beneficiaryState: e.target.value }))}
+            >
+              {NIGERIAN_STATES.map((state) => (
+                <option key={state} value={state}>{state}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium mb-2">Payment Type</label>
+            <select value={newDeduction.paymentType} onChange={(e) => setNewDeduction((prev) => ({ ...prev, paymentType: e.target.value }))}>
+              {WHT_RATES.map((rate) => (
+                <option key={rate.paymentType} value={rate.paymentType}>
+                  {rate.description}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium mb-2">Residency</label>
+            <select
+              value={newDeduction.isResident ? "resident" : "non-resident"}
+              onChange={(e) => setNewDeduction((prev) => ({ ...prev, isResident: e.target.value === "resident" }))}
+            >
+              <option value="resident">Resident</option>
+              <option value="non-resident">Non-Resident</option>
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium mb-2">Gross Amount (₦)</label>
+            <input type="number" min={0} value={newDeduction.grossAmount} onChange={(e) => setNewDeduction((prev) => ({ ...prev, grossAmount: e.target.value }))} />
+          </div>
+          <div>
+            <label className="block text-sm font-medium mb-2">Payment Date</label>
+            <input type="date" value={newDeduction.paymentDate} onChange={(e) => setNewDeduction((prev) => ({ ...prev, paymentDate: e.target.value }))} />
+          </div>
+          <div>
+            <label className="block text-sm font-medium mb-2">Invoice</label>
+            <input type="text" value={newDeduction.invoiceReference} onChange={(e) => setNewDeduction((prev) => ({ ...prev, invoiceReference: e.target.value }))} />
+          </div>
+          <button type="button" className="btn btn-secondary" onClick={recordDeduction}>
+            + Record Deduction
+          </button>
+        </div>
+
+        <div className="grid md:grid-cols-4 gap-4 items-end">
+          <div>
+            <label className="block text-sm font-medium mb-2">Month</label>
+            <input type="month" value={schedulePeriod} onChange={(e) => setSchedulePeriod(e.target.value)} />
+          </div>
+          <div>
+            <label className="block text-sm font-medium mb-2">Remitted On</label>
+            <input type="date" value={remittance.remittedOn} onChange={(e) => setRemittance((prev) => ({ ...prev, remittedOn: e.target.value }))} />
+          </div>
+          <div>
+            <label className="block text-sm font-medium mb-2">Receipt No.</label>
+            <input type="text" value={remittance.receiptNumber} onChange={(e) => setRemittance((prev) => ({ ...prev, receiptNumber: e.target.value }))} />
+          </div>
+          <button className="btn btn-primary" onClick={() => buildSchedule()}>
+            Build Schedule
+          </button>
+        </div>
+
+        {unrecordedJournals.length > 0 && (
+          <div className="bg-amber-50 border border-amber-200 text-amber-800 px-4 py-2 rounded-lg text-sm">
+            {unrecordedJournals.length} ledger {unrecordedJournals.length === 1 ? "entry credits" : "entries credit"} WHT Payable this month
+            without a recorded deduction. Select one to record the beneficiary:
+            <div className="flex flex-wrap gap-2 mt-2">
+              {unrecordedJournals.map((entry) => (
+                <button key={entry.id} type="button" className="underline" onClick={() => recordFromJournal(entry)}>
+                  {entry.date.slice(0, 10)} {entry.narration}
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {schedule && (
+          <>
+            {schedule.groups.length === 0 && <p className="text-sm text-[var(--muted)]">No WHT deducted in {schedule.period}.</p>}
+            {schedule.groups.map((group) => (
+              <div key={group.authority} className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <h3 className="text-lg font-semibold">
+                    {group.authority}
+                    <span className={`ml-2 text-sm ${group.overdue ? "text-red-600" : "text-[var(--muted)]"}`}>
+                      {group.status.replace(/_/g, " ")}{group.overdue ? ` - overdue since ${schedule.dueDate}` : ` - due ${schedule.dueDate}`}
+                    </span>
+                  </h3>
+                  {group.outstanding > 0 && (
+                    <button className="btn btn-secondary" onClick={() => markRemitted(group.authority)}>
+                      Mark Remitted
+                    </button>
+                  )}
+                </div>
+                <div className="table-container">
+                  <table>
+                    <thead>
+                      <tr>
+                        <th>Beneficiary</th>
+                        <th>Payment Type</th>
+                        <th>Gross Amount</th>
+                        <th>Rate</th>
+                        <th>WHT</th>
+                        <th>Credit Note</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {group.beneficiaries.map((beneficiary) =>
+                        beneficiary.deductions.map((deduction, index) => {
+                          const note = creditNotes.find((candidate) => candidate.deductions.some((covered) => covered.id === deduction.id));
+                          return (
+                            <tr key={deduction.id}>
+                              <td>
+                                {index === 0 && (
+                                  <>
+                                    {beneficiary.beneficiaryName}
+                                    <span className="block text-xs text-[var(--muted)]">{beneficiary.beneficiaryTIN || "No TIN"}</span>
+                                  </>
+                                )}
+                              </td>
+                              <td>{WHT_RATES.find((rate) => rate.paymentType === deduction.paymentType)?.description || deduction.paymentType}</td>
+                              <td>{formatCurrency(deduction.grossAmount)}</td>
+                              <td>{formatPercent(deduction.rate)}</td>
+                              <td className="text-red-600">{formatCurrency(deduction.whtAmount)}</td>
+                              <td className="text-sm">
+                                {note && note.deductions[0].id === deduction.id && (
+                                  <a className="text-[var(--primary)]" href={`/api/wht/schedule?${scheduleQuery({ format: "csv", certificateNumber: note.certificateNumber })}`}>
+                                    {note.certificateNumber}
+                                  </a>
+                                )}
+                                {!deduction.remittance && <span className="text-[var(--muted)]">Issued once remitted</span>}
+                              </td>
+                            </tr>
+                          );
+                        })
+                      )}
+                      <tr className="font-semibold bg-[var(--background)]">
+                        <td colSpan={2}>Totals</td>
+                        <td>{formatCurrency(group.grossAmount)}</td>
+                        <td>-</td>
+                        <td className="text-red-600">{formatCurrency(group.whtAmount)}</td>
+                        <td>{group.remitted > 0 && `${formatCurrency(group.remitted)} remitted`}</td>
+                      </tr>
+                    </tbody>
+                  </table>
+                </div>
+              </div>
+            ))}
+
+            <div className="flex justify-end">
+              <a className="btn btn-secondary" href={`/api/wht/schedule?${scheduleQuery({ format: "csv" })}`}>
+                Download CSV
+              </a>
+            </div>
+          </>
+        )}
+      </div>
     </div>
   );
 }
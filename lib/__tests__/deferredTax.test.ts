@@ -0,0 +1,146 @@
+/**
+ * Unit tests for deferred tax on ledger temporary differences
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+    applicableCITRate,
+    buildDeferredTaxJournal,
+    computeDeferredTax,
+    DeferredTaxOptions,
+} from "../accounting/deferredTax";
+import { LedgerAccount } from "../accounting/doubleEntry";
+import { accountingEngine } from "../accounting/transactionBridge";
+import { FixedAssetRecord, UserProfile } from "../types";
+
+const laptops: FixedAssetRecord = {
+    id: "FA-1",
+    description: "Laptops",
+    assetClass: "computers",
+    cost: 1000000,
+    acquisitionDate: "2024-01-15",
+};
+
+const options: DeferredTaxOptions = { taxYear: 2024, citRate: 0.3, asOf: "2024-12-31", fixedAssets: [laptops] };
+
+const ledger = (balances: Record<string, number>): Map<string, LedgerAccount> =>
+    new Map(Object.entries(balances).map(([code, closingBalance]) => [code, {
+        accountCode: code,
+        accountName: code,
+        accountType: "asset",
+        normalBalance: "debit",
+        openingBalance: 0,
+        entries: [],
+        closingBalance,
+    } as LedgerAccount]));
+
+// Cost 1m, depreciation 250k, provision 100k; TWDV after 50% initial and 25% annual allowance is 375k
+const balances = { "1560": 1000000, "1561": -250000, "2700": 100000 };
+
+describe("computeDeferredTax", () => {
+    it("should measure a taxable difference where allowances run ahead of depreciation", () => {
+        const result = computeDeferredTax(ledger(balances), options);
+        const ppe = result.differences.find(d => d.id === "PPE-computers");
+
+        expect(ppe).toMatchObject({
+            accountCodes: ["1560", "1561"],
+            carryingAmount: 750000,
+            taxBase: 375000,
+            difference: 375000,
+            kind: "taxable",
+            deferredTax: 112500,
+        });
+    });
+
+    it("should treat provisions as deductible differences with a nil tax base", () => {
+        const result = computeDeferredTax(ledger(balances), options);
+        const provision = result.differences.find(d => d.id === "PROV-2700");
+
+        expect(provision).toMatchObject({ carryingAmount: -100000, taxBase: 0, kind: "deductible", deferredTax: -30000 });
+        expect(result).toMatchObject({ closingLiability: 112500, closingAsset: 30000, closingNet: 82500, movement: 82500 });
+    });
+
+    it("should measure the movement against the deferred tax already recognised", () => {
+        const result = computeDeferredTax(ledger({ ...balances, "2600": 112500, "1610": 30000 }), { ...options, taxYear: 2025 });
+
+        expect(result.differences.find(d => d.id === "PPE-computers")?.taxBase).toBe(281250);
+        expect(result).toMatchObject({ openingNet: 82500, closingLiability: 140625, movement: 28125 });
+    });
+
+    it("should leave out asset classes with nothing in the register and note them", () => {
+        const result = computeDeferredTax(ledger({ ...balances, "1530": 4000000, "1531": -1000000 }), options);
+
+        expect(result.differences.map(d => d.id)).toEqual(["PPE-computers", "PROV-2700"]);
+        expect(result.notes).toEqual([expect.stringMatching(/^Motor Vehicles of 3,000,000 is not in the fixed asset register/)]);
+        expect(computeDeferredTax(ledger(balances), { ...options, fixedAssets: [] }).differences.map(d => d.id)).toEqual(["PROV-2700"]);
+    });
+
+    it("should reject a rate that is not a fraction", () => {
+        expect(() => computeDeferredTax(ledger(balances), { ...options, citRate: 30 })).toThrow(/fraction/);
+    });
+});
+
+describe("buildDeferredTaxJournal", () => {
+    it("should post a balanced movement journal to the deferred tax accounts", () => {
+        const journal = buildDeferredTaxJournal(computeDeferredTax(ledger(balances), options));
+
+        expect(journal?.isBalanced).toBe(true);
+        expect(journal?.reference).toBe("DT-2024");
+        expect(journal?.lines.map(line => [line.accountCode, line.debit, line.credit])).toEqual([
+            ["2600", 0, 112500],
+            ["1610", 30000, 0],
+            ["7020", 82500, 0],
+        ]);
+    });
+
+    it("should return null when nothing has moved", () => {
+        const settled = computeDeferredTax(ledger({ ...balances, "2600": 112500, "1610": 30000 }), options);
+        expect(buildDeferredTaxJournal(settled)).toBeNull();
+    });
+});
+
+describe("applicableCITRate", () => {
+    it("should follow the company size bands", () => {
+        const profile: UserProfile = {
+            fullName: "Acme Ltd",
+            taxpayerType: "company",
+            taxYear: 2024,
+            stateOfResidence: "Lagos",
+            isVATRegistered: true,
+            currency: "NGN",
+        };
+
+        expect(applicableCITRate(profile, 500000000)).toBe(0.3);
+        expect(applicableCITRate(profile, 50000000)).toBe(0.2);
+        expect(applicableCITRate(profile, 10000000)).toBe(0);
+    });
+});
+
+describe("accountingEngine.recognizeDeferredTax", () => {
+    it("should post the movement and disclose the reconciliation with the statements", () => {
+        accountingEngine.reset();
+        accountingEngine.createAdjustmentEntry("Laptops purchased", [
+            { accountCode: "1560", accountName: "Computer Equipment", debit: 1000000, credit: 0 },
+            { accountCode: "1020", accountName: "Bank", debit: 0, credit: 1000000 },
+        ]);
+        accountingEngine.recordDepreciation("computers", 250000);
+        accountingEngine.createAdjustmentEntry("Provision for legal claim", [
+            { accountCode: "5920", accountName: "Legal Fees", debit: 100000, credit: 0 },
+            { accountCode: "2700", accountName: "Provisions", debit: 0, credit: 100000 },
+        ]);
+
+        accountingEngine.addFixedAsset({ description: "Laptops", assetClass: "computers", cost: 1000000, acquisitionDate: "2024-01-15" });
+
+        const { reconciliation, journalEntry } = accountingEngine.recognizeDeferredTax({ taxYear: 2024, citRate: 0.3, asOf: "2024-12-31" });
+
+        expect(journalEntry?.totalDebits).toBe(112500);
+        expect(accountingEngine.getAccountBalance("2600")).toBe(112500);
+        expect(accountingEngine.getAccountBalance("1610")).toBe(30000);
+        expect(accountingEngine.recognizeDeferredTax(options).journalEntry).toBeNull();
+        expect(accountingEngine.generateStatements().deferredTax).toMatchObject({
+            closingNet: reconciliation.closingNet,
+            movement: 0,
+        });
+        accountingEngine.reset();
+    });
+});
@@ -0,0 +1,118 @@
+/**
+ * Unit tests for fiscal periods and the period close workflow
+ */
+
+import { describe, it, expect, beforeEach, afterAll } from "vitest";
+import { buildFiscalPeriods, fiscalYearOf, FiscalPeriodError } from "../accounting/fiscalPeriods";
+import { accountingEngine } from "../accounting/transactionBridge";
+import { JournalEntry } from "../accounting/doubleEntry";
+
+const entry = (id: string, date: string, debit: string, credit: string, amount: number): JournalEntry => ({
+    id,
+    date,
+    narration: id,
+    lines: [
+        { accountCode: debit, accountName: debit, debit: amount, credit: 0 },
+        { accountCode: credit, accountName: credit, debit: 0, credit: amount },
+    ],
+    isBalanced: true,
+    totalDebits: amount,
+    totalCredits: amount,
+    transactionType: "other",
+    createdAt: `${date}T09:00:00.000Z`,
+    status: "posted",
+});
+
+beforeEach(() => {
+    accountingEngine.reset();
+    accountingEngine.setFiscalYearEnd("03-31");
+});
+
+afterAll(() => {
+    accountingEngine.reset();
+});
+
+describe("buildFiscalPeriods", () => {
+    it("should derive twelve monthly periods ending on the year end", () => {
+        const periods = buildFiscalPeriods("03-31", 2025);
+
+        expect(periods).toHaveLength(12);
+        expect(periods[0]).toMatchObject({ id: "FY2025-P01", name: "Apr 2024", startDate: "2024-04-01", endDate: "2024-04-30", status: "open" });
+        expect(periods[10]).toMatchObject({ startDate: "2025-02-01", endDate: "2025-02-28" });
+        expect(periods[11]).toMatchObject({ id: "FY2025-P12", startDate: "2025-03-01", endDate: "2025-03-31" });
+    });
+
+    it("should end mid-month periods on the year-end day", () => {
+        const periods = buildFiscalPeriods("06-15", 2025);
+
+        expect(periods[0]).toMatchObject({ startDate: "2024-06-16", endDate: "2024-07-15" });
+        expect(periods[11].endDate).toBe("2025-06-15");
+        expect(() => buildFiscalPeriods("13-01", 2025)).toThrow(FiscalPeriodError);
+    });
+
+    it("should name the financial year by the year it ends in", () => {
+        expect(fiscalYearOf("2025-03-31", "03-31")).toBe(2025);
+        expect(fiscalYearOf("2025-04-01", "03-31")).toBe(2026);
+        expect(fiscalYearOf("2025-12-31")).toBe(2025);
+    });
+});
+
+describe("Period close workflow", () => {
+    it("should refuse entries dated in a closed period", () => {
+        accountingEngine.closePeriod("FY2025-P01", "finance@acme.ng");
+
+        expect(() => accountingEngine.postJournalEntry(entry("JE-APR", "2024-04-20", "5600", "1020", 1000))).toThrow(
+            "Cannot post to 2024-04-20: period Apr 2024 is closed; reopen it to post adjustments"
+        );
+        expect(accountingEngine.getState().journalEntries).toHaveLength(0);
+        accountingEngine.postJournalEntry(entry("JE-MAY", "2024-05-02", "5600", "1020", 1000));
+        expect(accountingEngine.getAccountBalance("5600")).toBe(1000);
+    });
+
+    it("should close months in order and reopen them from the latest back", () => {
+        expect(() => accountingEngine.closePeriod("FY2025-P02")).toThrow("Close Apr 2024 before May 2024");
+
+        accountingEngine.closePeriod("FY2025-P01");
+        accountingEngine.closePeriod("FY2025-P02");
+        expect(() => accountingEngine.reopenPeriod("FY2025-P01", "Missed accrual")).toThrow("Reopen May 2024 before Apr 2024");
+    });
+
+    it("should require and log a reason to reopen", () => {
+        accountingEngine.closePeriod("FY2025-P01", "finance@acme.ng");
+        expect(() => accountingEngine.reopenPeriod("FY2025-P01", " ")).toThrow("A reason is required to reopen a period");
+
+        const period = accountingEngine.reopenPeriod("FY2025-P01", "Supplier invoice received late", "cfo@acme.ng");
+
+        expect(period.status).toBe("open");
+        expect(accountingEngine.getPeriodEvents("FY2025-P01").map(e => [e.action, e.by, e.reason])).toEqual([
+            ["close", "finance@acme.ng", undefined],
+            ["reopen", "cfo@acme.ng", "Supplier invoice received late"],
+        ]);
+        accountingEngine.postJournalEntry(entry("JE-APR", "2024-04-20", "5600", "1020", 1000));
+        expect(accountingEngine.getAccountBalance("5600")).toBe(1000);
+    });
+
+    it("should never reopen a locked period", () => {
+        expect(() => accountingEngine.lockPeriod("FY2025-P01")).toThrow("Close Apr 2024 before locking it");
+        accountingEngine.closePeriod("FY2025-P01");
+        accountingEngine.lockPeriod("FY2025-P01");
+
+        expect(() => accountingEngine.reopenPeriod("FY2025-P01", "Restatement")).toThrow("Period Apr 2024 is locked and cannot be reopened");
+        expect(() => accountingEngine.postJournalEntry(entry("JE-APR", "2024-04-20", "5600", "1020", 1000))).toThrow("period Apr 2024 is locked");
+    });
+
+    it("should date closing entries to the year end and close only that year's activity", () => {
+        accountingEngine.postJournalEntry(entry("JE-SALE", "2024-11-10", "1020", "4000", 800000));
+        accountingEngine.postJournalEntry(entry("JE-RENT", "2025-01-05", "5600", "1020", 300000));
+        accountingEngine.postJournalEntry(entry("JE-NEXT", "2025-04-03", "1020", "4000", 50000));
+
+        const { closingEntries, periods } = accountingEngine.closeFiscalYear(2025, "finance@acme.ng");
+
+        expect(closingEntries).toHaveLength(1);
+        expect(closingEntries[0]).toMatchObject({ date: "2025-03-31", narration: "Year-end closing entries FY2025", totalDebits: 800000 });
+        expect(closingEntries[0].lines.find(l => l.accountCode === "3100")?.credit).toBe(500000);
+        expect(periods.every(p => p.status === "closed")).toBe(true);
+        expect(accountingEngine.getAccountBalance("4000")).toBe(50000);
+        expect(() => accountingEngine.setFiscalYearEnd("12-31")).toThrow("The year end cannot change once a period has been closed");
+    });
+});
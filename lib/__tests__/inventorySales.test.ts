@@ -0,0 +1,99 @@
+/**
+ * Unit tests for taking invoiced goods out of stock and putting them back
+ */
+
+import { describe, it, expect, beforeEach } from "vitest";
+import type { PrismaClient } from "@prisma/client";
+import { InventorySaleError, recordInventorySale, reverseInventorySale } from "../inventory/sales";
+
+interface Row {
+    [field: string]: unknown;
+}
+
+// Just enough of the Prisma client for the sale helpers, kept in memory
+function memoryStore() {
+    const product = { id: "prod-1", name: "Printed Cartons", costPrice: 12000, vatClass: null, category: null };
+    const balances = [{ productId: "prod-1", locationId: "loc-1", onHand: 50, product }];
+    const sales: Array<Row & { id: string; lines: Row[] }> = [];
+    let movements: Row[] = [];
+    const balance = (where: { productId_locationId: { productId: string; locationId: string } }) =>
+        balances.find(
+            (row) => row.productId === where.productId_locationId.productId && row.locationId === where.productId_locationId.locationId
+        );
+    const matches = (row: Row, where: Row) => Object.entries(where).every(([field, value]) => row[field] === value);
+
+    const db = {
+        sale: {
+            findFirst: async ({ where }: { where: Row }) => sales.find((sale) => matches(sale, where)) ?? null,
+            create: async ({ data }: { data: Row & { lines: { create: Row[] } } }) => {
+                const sale = { ...data, id: `sale-${sales.length + 1}`, lines: data.lines.create };
+                sales.push(sale);
+                return sale;
+            },
+            delete: async ({ where }: { where: { id: string } }) => {
+                sales.splice(sales.findIndex((sale) => sale.id === where.id), 1);
+            },
+        },
+        inventoryBalance: {
+            findUnique: async ({ where }: { where: Parameters<typeof balance>[0] }) => balance(where) ?? null,
+            update: async ({ where, data }: { where: Parameters<typeof balance>[0]; data: { onHand: { increment?: number; decrement?: number } } }) => {
+                const row = balance(where)!;
+                row.onHand += (data.onHand.increment ?? 0) - (data.onHand.decrement ?? 0);
+                return row;
+            },
+        },
+        stockMovement: {
+            create: async ({ data }: { data: Row }) => {
+                movements.push(data);
+                return data;
+            },
+            deleteMany: async ({ where }: { where: Row }) => {
+                movements = movements.filter((movement) => !matches(movement, where));
+            },
+        },
+    };
+    return { db: db as unknown as PrismaClient, balances, sales, movements: () => movements };
+}
+
+let store: ReturnType<typeof memoryStore>;
+
+beforeEach(() => {
+    store = memoryStore();
+});
+
+describe("Inventory sales for invoices", () => {
+    it("should take the goods out of stock at cost under the invoice number, once", async () => {
+        const sale = await recordInventorySale(
+            store.db,
+            "company-1",
+            { locationId: "loc-1", reference: "SI-0001", lines: [{ productId: "prod-1", qty: 10, unitPrice: 20000 }] },
+            0.075
+        );
+
+        expect(sale.lines).toEqual([
+            expect.objectContaining({ productId: "prod-1", qty: 10, unitPrice: 20000, unitCost: 12000, vatAmount: 15000 }),
+        ]);
+        expect(store.balances[0].onHand).toBe(40);
+        expect(store.movements()).toEqual([expect.objectContaining({ type: "SALE", qty: 10, referenceId: sale.id })]);
+        await expect(
+            recordInventorySale(store.db, "company-1", { locationId: "loc-1", reference: "SI-0001", lines: [{ productId: "prod-1", qty: 1, unitPrice: 20000 }] })
+        ).rejects.toThrow(InventorySaleError);
+    });
+
+    it("should put a voided invoice's goods back into stock and drop its sale and movements", async () => {
+        await recordInventorySale(
+            store.db,
+            "company-1",
+            { locationId: "loc-1", reference: "SI-0001", lines: [{ productId: "prod-1", qty: 10, unitPrice: 20000 }] },
+            0.075
+        );
+
+        const reversed = await reverseInventorySale(store.db, "company-1", "SI-0001");
+
+        expect(reversed?.reference).toBe("SI-0001");
+        expect(store.balances[0].onHand).toBe(50);
+        expect(store.sales).toEqual([]);
+        expect(store.movements()).toEqual([]);
+        expect(await reverseInventorySale(store.db, "company-1", "SI-0001")).toBeNull();
+    });
+});
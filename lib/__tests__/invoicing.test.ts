@@ -0,0 +1,198 @@
+/**
+ * Unit tests for sales invoicing
+ */
+
+import { describe, it, expect, beforeEach, afterAll } from "vitest";
+import { accountingEngine } from "../accounting/transactionBridge";
+import { InvoiceProduct, InvoicingError, buildSalesInvoice, invoiceCostOfSales, invoiceRevenueLines } from "../accounting/invoicing";
+import { buildMonthlyVATReturn } from "../taxRules/vatReturn";
+
+const products: InvoiceProduct[] = [
+    { id: "prod-1", sku: "CTN-01", name: "Printed Cartons", unit: "box", sellingPrice: 20000, costPrice: 12000, vatClass: null, category: null },
+    { id: "prod-2", sku: "RCE-50", name: "Rice 50kg", unit: "bag", sellingPrice: 80000, costPrice: 65000, vatClass: null, category: null },
+];
+
+const customer = { id: "CUS-001", name: "Dangote Plc", withholdsTax: true };
+
+let customerId: string;
+
+beforeEach(() => {
+    accountingEngine.reset();
+    customerId = accountingEngine.addTradeParty({
+        kind: "receivable",
+        name: "Dangote Plc",
+        tin: "12345678-0001",
+        address: "1 Alfred Rewane Rd, Ikoyi",
+        withholdsTax: true,
+    }).id;
+});
+
+afterAll(() => {
+    accountingEngine.reset();
+});
+
+describe("Building invoices", () => {
+    it("should price product lines from inventory and charge VAT at the rulebook rate", () => {
+        const invoice = buildSalesInvoice(
+            { id: "DRAFT-0001", customer, issueDate: "2025-03-10", dueDate: "2025-04-09", lines: [{ productId: "prod-1", quantity: 10 }] },
+            products
+        );
+
+        expect(invoice.vatRate).toBe(0.075);
+        expect(invoice.lines[0]).toMatchObject({
+            kind: "product",
+            sku: "CTN-01",
+            description: "Printed Cartons",
+            unitPrice: 20000,
+            unitCost: 12000,
+            amount: 200000,
+            supplyType: "standard",
+            vatAmount: 15000,
+            revenueAccount: "4000",
+            whtAmount: 0,
+        });
+        expect(invoice).toMatchObject({ subtotal: 200000, vatAmount: 15000, total: 215000, whtAmount: 0, amountPayable: 215000, status: "draft" });
+    });
+
+    it("should classify exempt goods and leave them out of VAT", () => {
+        const invoice = buildSalesInvoice(
+            { id: "DRAFT-0001", customer, issueDate: "2025-03-10", dueDate: "2025-04-09", lines: [{ productId: "prod-2", quantity: 2 }] },
+            products
+        );
+
+        expect(invoice.lines[0]).toMatchObject({ supplyType: "exempt", vatAmount: 0 });
+        expect(invoice.total).toBe(160000);
+    });
+
+    it("should show the WHT a withholding customer deducts from services, on the amount before VAT", () => {
+        const invoice = buildSalesInvoice({
+            id: "DRAFT-0001",
+            customer,
+            issueDate: "2025-03-10",
+            dueDate: "2025-04-09",
+            lines: [
+                { description: "Installation", quantity: 1, unitPrice: 100000 },
+                { description: "Management consultancy", quantity: 2, unitPrice: 150000, whtPaymentType: "consultancy" },
+            ],
+        });
+
+        expect(invoice.lines.map((line) => [line.kind, line.revenueAccount, line.whtRate, line.whtAmount])).toEqual([
+            ["service", "4010", 0.05, 5000],
+            ["service", "4010", 0.1, 30000],
+        ]);
+        expect(invoice).toMatchObject({ subtotal: 400000, vatAmount: 30000, total: 430000, whtAmount: 35000, amountPayable: 395000 });
+        expect(buildSalesInvoice({ ...invoice, customer: { ...customer, withholdsTax: false }, lines: [{ description: "Installation", quantity: 1, unitPrice: 100000 }] }).whtAmount).toBe(0);
+    });
+
+    it("should reject lines without a price, quantity or known product", () => {
+        const draft = { id: "DRAFT-0001", customer, issueDate: "2025-03-10", dueDate: "2025-04-09" };
+
+        expect(() => buildSalesInvoice({ ...draft, lines: [] })).toThrow("at least one line");
+        expect(() => buildSalesInvoice({ ...draft, lines: [{ productId: "missing", quantity: 1 }] }, products)).toThrow(InvoicingError);
+        expect(() => buildSalesInvoice({ ...draft, lines: [{ description: "Design", quantity: 0, unitPrice: 5000 }] })).toThrow("Quantity");
+        expect(() => buildSalesInvoice({ ...draft, lines: [{ description: "Design", quantity: 1 }] })).toThrow("Unit price");
+        expect(() => buildSalesInvoice({ ...draft, lines: [{ description: "Design", quantity: 1, unitPrice: 5000, whtPaymentType: "gifts" }] })).toThrow("Unknown WHT payment type");
+    });
+
+    it("should credit revenue once per account and VAT classification", () => {
+        const invoice = buildSalesInvoice(
+            {
+                id: "DRAFT-0001",
+                customer,
+                issueDate: "2025-03-10",
+                dueDate: "2025-04-09",
+                lines: [
+                    { productId: "prod-1", quantity: 1 },
+                    { productId: "prod-1", quantity: 2, unitPrice: 18000 },
+                    { productId: "prod-2", quantity: 1 },
+                    { description: "Delivery", quantity: 1, unitPrice: 10000 },
+                ],
+            },
+            products
+        );
+
+        expect(invoiceRevenueLines(invoice)).toEqual([
+            { accountCode: "4000", amount: 56000, memo: "Standard-rated supply" },
+            { accountCode: "4000", amount: 80000, memo: "VAT exempt supply" },
+            { accountCode: "4010", amount: 10000, memo: "Standard-rated supply" },
+        ]);
+        expect(invoiceCostOfSales(invoice)).toBe(101000);
+    });
+});
+
+describe("Issuing invoices", () => {
+    it("should draft an invoice with the customer's details and terms without posting", () => {
+        const draft = accountingEngine.createSalesInvoice({ customerId, issueDate: "2025-03-10", lines: [{ productId: "prod-1", quantity: 5 }] }, products);
+
+        expect(draft).toMatchObject({ id: "DRAFT-0001", dueDate: "2025-04-09", status: "draft" });
+        expect(draft.customer).toEqual({ id: customerId, name: "Dangote Plc", tin: "12345678-0001", address: "1 Alfred Rewane Rd, Ikoyi", withholdsTax: true });
+        expect(draft.number).toBeUndefined();
+        expect(accountingEngine.getState().journalEntries).toHaveLength(0);
+    });
+
+    it("should number issued invoices in sequence and post the receivable and cost of sales journal", async () => {
+        const first = accountingEngine.createSalesInvoice({ customerId, issueDate: "2025-03-10", lines: [{ productId: "prod-1", quantity: 5 }] }, products);
+        const second = accountingEngine.createSalesInvoice({
+            customerId,
+            issueDate: "2025-03-12",
+            lines: [{ productId: "prod-2", quantity: 1 }, { description: "Installation", quantity: 1, unitPrice: 50000 }],
+        }, products);
+
+        await accountingEngine.issueSalesInvoice(second.id);
+        await accountingEngine.issueSalesInvoice(first.id);
+
+        expect([second.number, first.number]).toEqual(["SI-0001", "SI-0002"]);
+        expect(second).toMatchObject({ status: "issued", costOfSales: 65000 });
+        const journal = accountingEngine.getState().journalEntries.find((entry) => entry.id === second.journalId);
+        expect(journal?.lines.map((line) => [line.accountCode, line.debit, line.credit])).toEqual([
+            ["1100", 133750, 0],
+            ["4000", 0, 80000],
+            ["4010", 0, 50000],
+            ["2200", 0, 3750],
+            ["5000", 65000, 0],
+            ["1200", 0, 65000],
+        ]);
+        expect(accountingEngine.getOutstandingAmount("SI-0001")).toBe(133750);
+        expect(accountingEngine.reconcileSubledger("receivable").reconciled).toBe(true);
+        await expect(accountingEngine.issueSalesInvoice(second.id)).rejects.toThrow("already been issued");
+    });
+
+    it("should keep the invoice sequence apart from other credit sales in the subledger", async () => {
+        accountingEngine.raiseInvoice({ customerId, date: "2025-03-05", description: "Scrap sold on credit", netAmount: 10000 });
+        const invoice = accountingEngine.createSalesInvoice({ customerId, issueDate: "2025-03-10", lines: [{ description: "Installation", quantity: 1, unitPrice: 50000 }] });
+
+        await accountingEngine.issueSalesInvoice(invoice.id);
+
+        expect(invoice.number).toBe("SI-0001");
+        expect(accountingEngine.getSubledgers().documents.map((document) => document.number)).toEqual(["INV-0001", "SI-0001"]);
+    });
+
+    it("should report issued invoices in the VAT return by supply type", async () => {
+        const invoice = accountingEngine.createSalesInvoice({
+            customerId,
+            issueDate: "2025-03-10",
+            lines: [{ productId: "prod-1", quantity: 10 }, { productId: "prod-2", quantity: 1 }],
+        }, products);
+        await accountingEngine.issueSalesInvoice(invoice.id);
+
+        const vatReturn = buildMonthlyVATReturn(accountingEngine.getState().journalEntries, "2025-03");
+
+        expect(vatReturn).toMatchObject({ taxableSupplies: 200000, exemptSupplies: 80000, outputVAT: 15000 });
+        expect(vatReturn.reconciliation.isReconciled).toBe(true);
+    });
+
+    it("should void the invoice with its journal and let drafts be discarded", async () => {
+        const issued = await accountingEngine.issueSalesInvoice(
+            accountingEngine.createSalesInvoice({ customerId, issueDate: "2025-03-10", lines: [{ productId: "prod-1", quantity: 1 }] }, products).id
+        );
+        const draft = accountingEngine.createSalesInvoice({ customerId, issueDate: "2025-03-11", lines: [{ productId: "prod-1", quantity: 2 }] }, products);
+
+        await accountingEngine.voidJournalEntry(issued.journalId!, "Raised in error");
+        accountingEngine.discardSalesInvoice(draft.id);
+
+        expect(accountingEngine.getSalesInvoices().map((invoice) => [invoice.id, invoice.status])).toEqual([["DRAFT-0001", "void"]]);
+        expect(accountingEngine.getAccountBalance("1100")).toBe(0);
+        expect(() => accountingEngine.discardSalesInvoice(issued.id)).toThrow("void its journal instead");
+        expect(accountingEngine.createSalesInvoice({ customerId, issueDate: "2025-03-12", lines: [{ productId: "prod-1", quantity: 1 }] }, products).id).toBe("DRAFT-0002");
+    });
+});
@@ -0,0 +1,148 @@
+/**
+ * Unit tests for reversals, voids, corrections and the journal audit log
+ */
+
+import { describe, it, expect, beforeEach, afterAll } from "vitest";
+import { accountingEngine } from "../accounting/transactionBridge";
+import { JournalEntry, JournalLine } from "../accounting/doubleEntry";
+import { JournalCorrectionError } from "../accounting/journalCorrections";
+import { FiscalPeriodError } from "../accounting/fiscalPeriods";
+
+const lines = (debit: string, credit: string, amount: number): JournalLine[] => [
+    { accountCode: debit, accountName: debit, debit: amount, credit: 0 },
+    { accountCode: credit, accountName: credit, debit: 0, credit: amount },
+];
+
+const entry = (id: string, date: string, debit: string, credit: string, amount: number): JournalEntry => ({
+    id,
+    date,
+    narration: `${id} narration`,
+    lines: lines(debit, credit, amount),
+    isBalanced: true,
+    totalDebits: amount,
+    totalCredits: amount,
+    transactionType: "expense",
+    createdAt: `${date}T09:00:00.000Z`,
+    status: "posted",
+});
+
+beforeEach(() => {
+    accountingEngine.reset();
+    accountingEngine.postJournalEntry(entry("JE-RENT", "2025-03-10", "5600", "1020", 120000));
+});
+
+afterAll(() => {
+    accountingEngine.reset();
+});
+
+describe("reverseJournalEntry", () => {
+    it("should post an equal and opposite entry linked to the original", () => {
+        const reversal = accountingEngine.reverseJournalEntry("JE-RENT", { reason: "Paid by the landlord's agent", date: "2025-03-20", by: "ada@acme.ng" });
+
+        expect(reversal).toMatchObject({ date: "2025-03-20", transactionType: "reversal", reversesId: "JE-RENT", totalDebits: 120000 });
+        expect(reversal.lines.map(l => [l.accountCode, l.debit, l.credit])).toEqual([["5600", 0, 120000], ["1020", 120000, 0]]);
+        expect(accountingEngine.getAccountBalance("5600")).toBe(0);
+        expect(accountingEngine.getAuditLog("JE-RENT").find(e => e.action === "reverse")).toMatchObject({
+            id: "JE-RENT:reverse",
+            by: "ada@acme.ng",
+            reason: "Paid by the landlord's agent",
+            relatedJournalId: reversal.id,
+        });
+    });
+
+    it("should refuse a second reversal and require a reason", () => {
+        expect(() => accountingEngine.reverseJournalEntry("JE-RENT", { reason: "" })).toThrow("A reason is required to reverse a journal entry");
+        const reversal = accountingEngine.reverseJournalEntry("JE-RENT", { reason: "Duplicate" });
+
+        expect(() => accountingEngine.reverseJournalEntry("JE-RENT", { reason: "Again" })).toThrow(`Journal entry JE-RENT has already been reversed by ${reversal.id}`);
+        expect(() => accountingEngine.reverseJournalEntry("JE-NONE", { reason: "Typo" })).toThrow(JournalCorrectionError);
+    });
+});
+
+describe("voidJournalEntry", () => {
+    it("should mark the entry voided and cancel it with a contra entry on its date", async () => {
+        const { voided, contra } = await accountingEngine.voidJournalEntry("JE-RENT", "Posted to the wrong company", "ada@acme.ng");
+
+        expect(voided).toMatchObject({ status: "voided", voidReason: "Posted to the wrong company" });
+        expect(contra).toMatchObject({ date: "2025-03-10", reversesId: "JE-RENT", narration: "Void of JE-RENT: JE-RENT narration" });
+        expect(accountingEngine.getAccountBalance("1020")).toBe(0);
+        expect(accountingEngine.getAuditLog("JE-RENT").map(e => e.action)).toEqual(["post", "void"]);
+        await expect(accountingEngine.voidJournalEntry("JE-RENT", "Again")).rejects.toThrow("JE-RENT is voided and cannot be reversed");
+    });
+
+    it("should not void into a closed period", async () => {
+        accountingEngine.closePeriod("FY2025-P01");
+        accountingEngine.closePeriod("FY2025-P02");
+        accountingEngine.closePeriod("FY2025-P03");
+
+        await expect(accountingEngine.voidJournalEntry("JE-RENT", "Wrong company")).rejects.toThrow("period Mar 2025 is closed");
+        expect(accountingEngine.getState().journalEntries.find(e => e.id === "JE-RENT")?.status).toBe("posted");
+    });
+});
+
+describe("correctJournalEntry", () => {
+    it("should reverse the original and repost the corrected entry", () => {
+        const { reversal, corrected } = accountingEngine.correctJournalEntry(
+            "JE-RENT",
+            { lines: lines("5600", "1020", 100000) },
+            { reason: "Invoice was ₦100,000", by: "ada@acme.ng" }
+        );
+
+        expect(reversal.reversesId).toBe("JE-RENT");
+        expect(corrected).toMatchObject({ date: "2025-03-10", narration: "JE-RENT narration", totalDebits: 100000 });
+        expect(accountingEngine.getAccountBalance("5600")).toBe(100000);
+        expect(accountingEngine.getAuditLog("JE-RENT").map(e => [e.action, e.relatedJournalId])).toEqual([
+            ["post", undefined],
+            ["reverse", reversal.id],
+            ["correct", corrected.id],
+        ]);
+    });
+
+    it("should post nothing when the correction does not balance", () => {
+        const bad = [...lines("5600", "1020", 100000), { accountCode: "1020", accountName: "Bank", debit: 0, credit: 1 }];
+
+        expect(() => accountingEngine.correctJournalEntry("JE-RENT", { lines: bad }, { reason: "Fix" })).toThrow("Entry not balanced");
+        expect(accountingEngine.getState().journalEntries).toHaveLength(1);
+    });
+});
+
+describe("Accruals and the audit log", () => {
+    it("should reverse accruals automatically once they fall due", () => {
+        const accrual = accountingEngine.postAccrual({
+            narration: "March electricity accrued",
+            date: "2025-03-31",
+            reverseOn: "2025-04-01",
+            lines: lines("5610", "2100", 45000),
+        });
+
+        expect(accountingEngine.processScheduledReversals("2025-03-31")).toEqual([]);
+        const [reversal] = accountingEngine.processScheduledReversals("2025-04-15");
+
+        expect(reversal).toMatchObject({ date: "2025-04-01", reversesId: accrual.id });
+        expect(accountingEngine.getAccountBalance("5610")).toBe(0);
+        expect(accountingEngine.processScheduledReversals("2025-04-30")).toEqual([]);
+    });
+
+    it("should hold back reversals that cannot be posted on their date or today and report them", () => {
+        const accrual = accountingEngine.postAccrual({
+            narration: "March electricity accrued",
+            date: "2025-03-31",
+            reverseOn: "2025-04-01",
+            lines: lines("5610", "2100", 45000),
+        });
+        ["FY2025-P01", "FY2025-P02", "FY2025-P03", "FY2025-P04"].forEach(id => accountingEngine.closePeriod(id));
+
+        expect(() => accountingEngine.processScheduledReversals("2025-04-15")).toThrow(FiscalPeriodError);
+        expect(accountingEngine.getAccountBalance("5610")).toBe(45000);
+
+        accountingEngine.reopenPeriod("FY2025-P04", "Post the April accrual reversal");
+        expect(accountingEngine.processScheduledReversals("2025-04-15")).toEqual([expect.objectContaining({ reversesId: accrual.id })]);
+    });
+
+    it("should keep audit events immutable", () => {
+        const [event] = accountingEngine.getAuditLog("JE-RENT");
+
+        expect(event).toMatchObject({ id: "JE-RENT:post", journalId: "JE-RENT", action: "post" });
+        expect(() => { (event as { reason?: string }).reason = "rewritten"; }).toThrow(TypeError);
+    });
+});
@@ -0,0 +1,373 @@
+/**
+ * Unit tests for rebuilding the accounting engine from the server's ledger
+ */
+
+import { describe, it, expect, beforeEach, afterAll, afterEach, vi } from "vitest";
+import { accountingEngine } from "../accounting/transactionBridge";
+import { JournalEntry, validateJournalEntry } from "../accounting/doubleEntry";
+import { LedgerSnapshot } from "../accounting/ledgerStore";
+import { buildFiscalPeriods } from "../accounting/fiscalPeriods";
+import { emptySubledgers } from "../accounting/subledgers";
+import { SalesInvoice, invoiceCostOfSales, invoiceJournalLines, invoiceNarration, invoiceTradeDocument } from "../accounting/invoicing";
+
+const entry = (id: string, debit: string, credit: string, amount: number, status: JournalEntry["status"] = "posted"): JournalEntry => ({
+    id,
+    date: "2025-03-01",
+    narration: `${id} narration`,
+    lines: [
+        { accountCode: debit, accountName: debit, debit: amount, credit: 0 },
+        { accountCode: credit, accountName: credit, debit: 0, credit: amount },
+    ],
+    isBalanced: true,
+    totalDebits: amount,
+    totalCredits: amount,
+    transactionType: "other",
+    createdAt: "2025-03-01T09:00:00.000Z",
+    postedAt: "2025-03-01T09:00:00.000Z",
+    status,
+});
+
+// The invoices handler's reply: the draft numbered, its goods costed as they left stock and its journal posted
+const issuedByServer = ({ invoice, journalId }: { invoice: SalesInvoice; journalId: string }) => {
+    const sold = {
+        ...invoice,
+        number: "SI-0042",
+        status: "issued" as const,
+        journalId,
+        saleId: "sale-1",
+        lines: invoice.lines.map(line => line.kind === "product" ? { ...line, unitCost: 12000 } : line),
+    };
+    const issued = { ...sold, costOfSales: invoiceCostOfSales(sold) };
+    const lines = invoiceJournalLines(issued).map(line => ({ ...line, accountName: line.accountCode }));
+    return {
+        invoice: issued,
+        journalEntry: {
+            ...entry(journalId, "1100", "4000", 0),
+            date: issued.issueDate,
+            narration: invoiceNarration(issued),
+            reference: issued.number,
+            lines,
+            ...validateJournalEntry(lines),
+            transactionType: "sale",
+        },
+        document: invoiceTradeDocument(issued, journalId),
+    };
+};
+
+const snapshot = (overrides: Partial<LedgerSnapshot> = {}): LedgerSnapshot => ({
+    journalEntries: [entry("JE-SALE", "1020", "4000", 500000), entry("JE-RENT", "5600", "1020", 120000)],
+    accounts: [],
+    customAccounts: [],
+    auditLog: [],
+    fiscalYearEnd: "12-31",
+    fiscalPeriods: [],
+    periodEvents: [],
+    subledgers: emptySubledgers(),
+    lastUpdated: "2025-03-02T00:00:00.000Z",
+    ...overrides,
+});
+
+beforeEach(() => {
+    accountingEngine.reset();
+});
+
+afterAll(() => {
+    accountingEngine.reset();
+});
+
+describe("AccountingEngine.hydrate", () => {
+    it("should rebuild ledger balances by replaying the server's entries", () => {
+        accountingEngine.hydrate(snapshot());
+
+        expect(accountingEngine.getState().journalEntries.map(e => e.id)).toEqual(["JE-SALE", "JE-RENT"]);
+        expect(accountingEngine.getAccountBalance("1020")).toBe(380000);
+        expect(accountingEngine.getAccountBalance("4000")).toBe(500000);
+        expect(accountingEngine.getAccountHistory("1020").map(e => e.journalId)).toEqual(["JE-SALE", "JE-RENT"]);
+    });
+
+    it("should replay voided entries against their contra entries", () => {
+        accountingEngine.hydrate(snapshot({
+            journalEntries: [
+                entry("JE-SALE", "1020", "4000", 500000),
+                entry("JE-RENT", "5600", "1020", 120000, "voided"),
+                { ...entry("JE-RENT-VOID", "1020", "5600", 120000), reversesId: "JE-RENT" },
+            ],
+        }));
+
+        expect(accountingEngine.getState().journalEntries).toHaveLength(3);
+        expect(accountingEngine.getAccountBalance("1020")).toBe(500000);
+        expect(accountingEngine.getAccountBalance("5600")).toBe(0);
+    });
+
+    it("should keep local entries the server has not received yet", () => {
+        const local = accountingEngine.createAdjustmentEntry("Petty cash top-up", [
+            { accountCode: "1010", accountName: "Petty Cash", debit: 20000, credit: 0 },
+            { accountCode: "1020", accountName: "Bank", debit: 0, credit: 20000 },
+        ]);
+
+        accountingEngine.hydrate(snapshot());
+
+        expect(accountingEngine.getState().journalEntries.map(e => e.id)).toEqual(["JE-SALE", "JE-RENT", local.id]);
+        expect(accountingEngine.getAccountBalance("1020")).toBe(360000);
+        expect(accountingEngine.getAccountBalance("1010")).toBe(20000);
+    });
+
+    it("should replace the local books rather than double them on a second sync", () => {
+        accountingEngine.hydrate(snapshot());
+        accountingEngine.hydrate(snapshot());
+
+        expect(accountingEngine.getState().journalEntries).toHaveLength(2);
+        expect(accountingEngine.getAccountBalance("1020")).toBe(380000);
+    });
+
+    it("should open ledger accounts for the server's custom accounts", () => {
+        accountingEngine.hydrate(snapshot({
+            journalEntries: [entry("JE-GRANT", "1020", "4950", 75000)],
+            customAccounts: [{ code: "4950", name: "Grant Income", class: "revenue", subClass: "other", description: "", createdAt: "2025-01-01T00:00:00.000Z" }],
+        }));
+
+        expect(accountingEngine.getState().customAccounts.map(a => a.code)).toEqual(["4950"]);
+        expect(accountingEngine.getAccountBalance("4950")).toBe(75000);
+    });
+
+    it("should take the subledger records of control account movements posted elsewhere", () => {
+        const local = accountingEngine.addTradeParty({ kind: "payable", name: "Lagos Packaging" });
+        const customer = { id: "CUS-001", kind: "receivable" as const, name: "Zenith Foods Ltd", paymentTermsDays: 30, createdAt: "2025-03-01T09:00:00.000Z" };
+
+        accountingEngine.hydrate(snapshot({
+            journalEntries: [entry("JE-CREDIT-SALE", "1100", "4000", 300000)],
+            subledgers: {
+                parties: [customer],
+                documents: [{
+                    id: "INV-0001", kind: "receivable", type: "invoice", number: "INV-0001", partyId: "CUS-001", date: "2025-03-01", dueDate: "2025-03-31",
+                    description: "Cartons", netAmount: 300000, vatAmount: 0, amount: 300000, journalId: "JE-CREDIT-SALE", status: "open",
+                }],
+                payments: [],
+            },
+        }));
+
+        expect(accountingEngine.getOutstandingAmount("INV-0001")).toBe(300000);
+        expect(accountingEngine.reconcileSubledger("receivable")).toMatchObject({ controlBalance: 300000, reconciled: true });
+        expect(accountingEngine.getSubledgers().parties.map(p => p.id)).toEqual(["CUS-001", local.id]);
+    });
+
+    it("should take the server's fiscal periods and redo local closes it has not received", () => {
+        accountingEngine.setFiscalYearEnd("03-31");
+        accountingEngine.closePeriod("FY2025-P01", "ada");
+        accountingEngine.closePeriod("FY2025-P02", "ada");
+        const colleagueClose = { periodId: "FY2025-P01", action: "close" as const, at: "2024-05-03T08:00:00.000Z", by: "tunde" };
+
+        accountingEngine.hydrate(snapshot({
+            fiscalYearEnd: "03-31",
+            fiscalPeriods: buildFiscalPeriods("03-31", 2025).map(p => p.id === "FY2025-P01" ? { ...p, status: "closed" as const, closedBy: "tunde" } : p),
+            periodEvents: [colleagueClose],
+        }));
+
+        expect(accountingEngine.getFiscalPeriods(2025).slice(0, 3).map(p => [p.id, p.status, p.closedBy])).toEqual([
+            ["FY2025-P01", "closed", "tunde"],
+            ["FY2025-P02", "closed", "ada"],
+            ["FY2025-P03", "open", undefined],
+        ]);
+        expect(accountingEngine.getPeriodEvents().map(e => [e.periodId, e.by])).toEqual([["FY2025-P01", "tunde"], ["FY2025-P02", "ada"]]);
+        expect(() => accountingEngine.postAccrual({
+            narration: "Late rent accrual",
+            date: "2024-04-30",
+            reverseOn: "2024-06-01",
+            lines: [
+                { accountCode: "5600", accountName: "Rent", debit: 1000, credit: 0 },
+                { accountCode: "2100", accountName: "Accruals", debit: 0, credit: 1000 },
+            ],
+        })).toThrow("is closed");
+    });
+});
+
+describe("AccountingEngine in the browser", () => {
+    const storage = new Map<string, string>();
+    const posted: string[] = [];
+    const trades: Array<Record<string, Array<{ id: string }>>> = [];
+    const requests: string[] = [];
+    const bodies: Array<Record<string, unknown>> = [];
+    let refuse = false;
+    let conflict: Record<string, string> | null = null;
+    const flush = () => new Promise(resolve => setTimeout(resolve, 0));
+    const adjustment = () => accountingEngine.createAdjustmentEntry("Petty cash top-up", [
+        { accountCode: "1010", accountName: "Petty Cash", debit: 20000, credit: 0 },
+        { accountCode: "1020", accountName: "Bank", debit: 0, credit: 20000 },
+    ]);
+
+    beforeEach(() => {
+        storage.clear();
+        posted.length = 0;
+        trades.length = 0;
+        requests.length = 0;
+        bodies.length = 0;
+        conflict = null;
+        vi.stubGlobal("window", { localStorage: { getItem: (key: string) => storage.get(key) ?? null, setItem: (key: string, value: string) => storage.set(key, value) } });
+        vi.stubGlobal("fetch", vi.fn(async (url: string, init: { method: string; body: string }) => {
+            if (url !== "/api/ledger/journals") {
+                requests.push(`${init.method} ${url}`);
+                bodies.push(JSON.parse(init.body));
+                const reply = url === "/api/ledger/invoices" ? issuedByServer(JSON.parse(init.body)) : {};
+                return new Response(JSON.stringify(reply), { status: 201 });
+            }
+            const { id, trade } = JSON.parse(init.body);
+            posted.push(id);
+            trades.push(trade);
+            if (conflict) return new Response(JSON.stringify(conflict), { status: 409 });
+            return refuse
+                ? new Response(JSON.stringify({ error: "Unknown account code(s): 1010" }), { status: 400 })
+                : new Response(JSON.stringify({}), { status: 201 });
+        }));
+    });
+
+    afterEach(() => {
+        vi.unstubAllGlobals();
+    });
+
+    it("should set entries the server refuses aside instead of sending them again", async () => {
+        refuse = true;
+        const rejectedId = adjustment().id;
+        await flush();
+        refuse = false;
+
+        expect(accountingEngine.getSyncRejections()).toEqual([
+            expect.objectContaining({ kind: "journal", id: rejectedId, error: "Unknown account code(s): 1010" }),
+        ]);
+
+        const accepted = adjustment();
+        await flush();
+        expect(posted).toEqual([rejectedId, accepted.id]);
+
+        accountingEngine.hydrate(snapshot({ journalEntries: [] }));
+        await flush();
+        expect(accountingEngine.getState().journalEntries.map(e => e.id)).toContain(rejectedId);
+        expect(posted.filter(id => id === rejectedId)).toHaveLength(1);
+    });
+
+    it("should set aside entries that conflict with the server's books but not ones it already holds", async () => {
+        conflict = { error: "Journal entry already posted", code: "duplicate" };
+        const duplicate = adjustment();
+        await flush();
+        conflict = { error: "Journal entry JE-SALE is voided and cannot be reversed" };
+        const clash = adjustment();
+        await flush();
+        conflict = null;
+
+        expect(accountingEngine.getSyncRejections()).toEqual([
+            expect.objectContaining({ kind: "journal", id: clash.id, error: "Journal entry JE-SALE is voided and cannot be reversed" }),
+        ]);
+        adjustment();
+        await flush();
+        expect(posted.filter(id => id === duplicate.id || id === clash.id)).toEqual([duplicate.id, clash.id]);
+    });
+
+    it("should send a refused entry again when the user retries it", async () => {
+        refuse = true;
+        const entry = adjustment();
+        await flush();
+        refuse = false;
+
+        accountingEngine.retrySync("journal", entry.id);
+        await flush();
+
+        expect(posted).toEqual([entry.id, entry.id]);
+        expect(accountingEngine.getSyncRejections()).toEqual([]);
+    });
+
+    it("should issue invoices on the server and take its number, costs and journal without posting them again", async () => {
+        const customerId = accountingEngine.addTradeParty({ kind: "receivable", name: "Dangote Plc" }).id;
+        const draft = accountingEngine.createSalesInvoice({
+            customerId,
+            issueDate: "2025-03-10",
+            locationId: "loc-1",
+            lines: [{ productId: "prod-1", quantity: 2 }, { description: "Delivery", quantity: 1, unitPrice: 5000 }],
+        }, [{ id: "prod-1", sku: "CTN-01", name: "Printed Cartons", unit: "box", sellingPrice: 20000, costPrice: 11000, vatClass: null, category: null }]);
+
+        const issued = await accountingEngine.issueSalesInvoice(draft.id);
+
+        await flush();
+
+        const sent = bodies[requests.indexOf("POST /api/ledger/invoices")] as { invoice: SalesInvoice; journalId: string; customer: { id: string } };
+        expect(sent.invoice.lineInputs).toEqual([{ productId: "prod-1", quantity: 2 }, { description: "Delivery", quantity: 1, unitPrice: 5000 }]);
+        expect(sent.customer.id).toBe(customerId);
+        expect(issued).toMatchObject({ number: "SI-0042", saleId: "sale-1", costOfSales: 24000, journalId: sent.journalId, status: "issued" });
+        expect(accountingEngine.getAccountBalance("1100")).toBe(48375);
+        expect(accountingEngine.getAccountBalance("5000")).toBe(24000);
+        expect(posted).not.toContain(sent.journalId);
+        expect(bodies.filter((_, i) => requests[i] === "POST /api/ledger/subledgers").flatMap(body => body.documents as unknown[])).toEqual([]);
+    });
+
+    it("should send the configured year end and then period closes once the server's periods are known", async () => {
+        accountingEngine.setFiscalYearEnd("03-31");
+        accountingEngine.closePeriod("FY2025-P01", "ada");
+        await flush();
+
+        expect(JSON.parse(storage.get("insight::accounting-config")!).fiscalYearEnd).toBe("03-31");
+        expect(requests.filter(r => r.includes("/periods"))).toEqual([]);
+
+        accountingEngine.hydrate(snapshot({ journalEntries: [] }));
+        expect(accountingEngine.getFiscalPeriods(2025)[0]).toMatchObject({ startDate: "2024-04-01", status: "closed" });
+        adjustment();
+        await flush();
+
+        expect(requests.filter(r => r.includes("/periods"))).toEqual(["PATCH /api/ledger/periods", "POST /api/ledger/periods/FY2025-P01"]);
+    });
+
+    it("should draw the fiscal periods from the year end in the accounting config", () => {
+        storage.set("insight::accounting-config", JSON.stringify({ companyName: "Adire Textiles Ltd", fiscalYearEnd: "06-30" }));
+
+        accountingEngine.load();
+
+        expect(accountingEngine.getState().fiscalYearEnd).toBe("06-30");
+        expect(accountingEngine.getFiscalPeriods(2025)[0]).toMatchObject({ startDate: "2024-07-01", endDate: "2024-07-31" });
+    });
+
+    it("should send reversals and corrections to the reverse handler after the entry they reverse", async () => {
+        const original = adjustment();
+        const { reversal, corrected } = accountingEngine.correctJournalEntry(original.id, {
+            lines: [
+                { accountCode: "1010", accountName: "Petty Cash", debit: 25000, credit: 0 },
+                { accountCode: "1020", accountName: "Bank", debit: 0, credit: 25000 },
+            ],
+        }, { reason: "Wrong amount", by: "ada" });
+        await flush();
+
+        expect(posted).toEqual([original.id]);
+        expect(requests).toEqual([`POST /api/ledger/journals/${original.id}/reverse`]);
+        expect(bodies[0]).toMatchObject({ reason: "Wrong amount", by: "ada", reversalId: reversal.id, corrected: { id: corrected.id } });
+    });
+
+    it("should send subledger records with their journal and later changes on their own", async () => {
+        const customer = accountingEngine.addTradeParty({ kind: "receivable", name: "Zenith Foods Ltd" });
+        await flush();
+        const invoice = accountingEngine.raiseInvoice({ customerId: customer.id, date: "2025-03-01", description: "Cartons", netAmount: 100000 });
+        await flush();
+
+        expect(requests).toEqual(["POST /api/ledger/subledgers"]);
+        expect(bodies[0]).toEqual({ parties: [expect.objectContaining({ id: customer.id })], documents: [], payments: [] });
+        expect(posted).toEqual([invoice.journalId]);
+        expect(trades[0]).toEqual({ parties: [expect.objectContaining({ id: customer.id })], documents: [expect.objectContaining({ id: invoice.id })], payments: [] });
+
+        const payment = accountingEngine.recordTradePayment({ kind: "receivable", partyId: customer.id, date: "2025-03-10", amount: 150000, allocations: [] });
+        await flush();
+        accountingEngine.allocateTradePayment(payment.id, [{ documentId: invoice.id, amount: 100000 }]);
+        await flush();
+
+        expect(requests).toEqual(["POST /api/ledger/subledgers", "POST /api/ledger/subledgers"]);
+        expect(bodies[1]).toEqual({ parties: [], documents: [], payments: [expect.objectContaining({ id: payment.id, allocations: [{ documentId: invoice.id, amount: 100000 }] })] });
+    });
+
+    it("should bring control balances into the subledgers when loading books saved before them", () => {
+        accountingEngine.hydrate(snapshot({ journalEntries: [entry("JE-CREDIT-SALE", "1100", "4000", 300000), entry("JE-SUPPLIES", "5010", "2000", 80000)] }));
+        const { journalEntries, ledgerAccounts } = accountingEngine.getState();
+        const legacy = JSON.stringify({ journalEntries, ledgerAccounts: Array.from(ledgerAccounts.entries()) });
+        accountingEngine.reset();
+        storage.set("insight::accounting-engine", legacy);
+
+        accountingEngine.load();
+
+        expect(accountingEngine.getSubledgers().documents.map(d => [d.id, d.amount, d.date])).toEqual([["OB-AR", 300000, "2025-03-01"], ["OB-AP", 80000, "2025-03-01"]]);
+        expect(accountingEngine.reconcileSubledger("receivable").reconciled).toBe(true);
+        expect(accountingEngine.reconcileSubledger("payable").reconciled).toBe(true);
+    });
+});
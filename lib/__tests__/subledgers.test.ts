@@ -0,0 +1,176 @@
+/**
+ * Unit tests for the receivables and payables subledgers
+ */
+
+import { describe, it, expect, beforeEach, afterAll } from "vitest";
+import { accountingEngine } from "../accounting/transactionBridge";
+import { SubledgerError, emptySubledgers, openTradeBalance, subledgerBalance } from "../accounting/subledgers";
+
+let customerId: string;
+let supplierId: string;
+
+beforeEach(() => {
+    accountingEngine.reset();
+    customerId = accountingEngine.addTradeParty({ kind: "receivable", name: "Zenith Foods Ltd" }).id;
+    supplierId = accountingEngine.addTradeParty({ kind: "payable", name: "Lagos Packaging", paymentTermsDays: 60 }).id;
+});
+
+afterAll(() => {
+    accountingEngine.reset();
+});
+
+describe("Receivables", () => {
+    it("should post an invoice to the control account and the customer's subledger", () => {
+        const invoice = accountingEngine.raiseInvoice({ customerId, date: "2025-01-10", description: "Cartons", netAmount: 1000000, vatAmount: 75000 });
+
+        expect(invoice).toMatchObject({ id: "INV-0001", partyId: "CUS-001", dueDate: "2025-02-09", amount: 1075000, status: "open" });
+        expect(accountingEngine.getAccountBalance("1100")).toBe(1075000);
+        expect(accountingEngine.getAccountBalance("2200")).toBe(75000);
+        expect(accountingEngine.reconcileSubledger("receivable")).toMatchObject({ controlBalance: 1075000, subledgerBalance: 1075000, reconciled: true });
+    });
+
+    it("should allocate part payments to specific invoices and hold the excess on account", () => {
+        const first = accountingEngine.raiseInvoice({ customerId, date: "2025-01-10", description: "Cartons", netAmount: 500000 });
+        const second = accountingEngine.raiseInvoice({ customerId, date: "2025-01-20", description: "Labels", netAmount: 300000 });
+
+        const payment = accountingEngine.recordTradePayment({
+            kind: "receivable",
+            partyId: customerId,
+            date: "2025-02-01",
+            amount: 400000,
+            allocations: [{ documentId: second.id, amount: 300000 }],
+        });
+
+        expect(accountingEngine.getOutstandingAmount(second.id)).toBe(0);
+        expect(accountingEngine.getOutstandingAmount(first.id)).toBe(500000);
+        accountingEngine.allocateTradePayment(payment.id, [{ documentId: first.id, amount: 100000 }]);
+        expect(accountingEngine.getOutstandingAmount(first.id)).toBe(400000);
+        expect(() => accountingEngine.allocateTradePayment(payment.id, [{ documentId: first.id, amount: 1 }])).toThrow("exceed the ₦0 available");
+        expect(accountingEngine.reconcileSubledger("receivable").reconciled).toBe(true);
+    });
+
+    it("should settle the oldest invoices first when no allocation is given", () => {
+        const first = accountingEngine.raiseInvoice({ customerId, date: "2025-01-10", description: "Cartons", netAmount: 500000 });
+        const second = accountingEngine.raiseInvoice({ customerId, date: "2025-01-20", description: "Labels", netAmount: 300000 });
+
+        const payment = accountingEngine.recordTradePayment({ kind: "receivable", partyId: customerId, date: "2025-02-01", amount: 600000 });
+
+        expect(payment.allocations).toEqual([{ documentId: first.id, amount: 500000 }, { documentId: second.id, amount: 100000 }]);
+        expect(accountingEngine.getAccountBalance("1100")).toBe(200000);
+    });
+
+    it("should reduce an invoice by a credit note applied to it", () => {
+        const invoice = accountingEngine.raiseInvoice({ customerId, date: "2025-01-10", description: "Cartons", netAmount: 1000000, vatAmount: 75000 });
+        const note = accountingEngine.issueCreditNote({ kind: "receivable", partyId: customerId, date: "2025-01-15", description: "Damaged cartons", netAmount: 100000, vatAmount: 7500, appliesTo: invoice.id });
+
+        expect(note).toMatchObject({ id: "CN-0001", amount: 107500 });
+        expect(accountingEngine.getOutstandingAmount(invoice.id)).toBe(967500);
+        expect(accountingEngine.getAccountHistory("4100")[0].debit).toBe(100000);
+        expect(accountingEngine.reconcileSubledger("receivable")).toMatchObject({ controlBalance: 967500, reconciled: true });
+    });
+});
+
+describe("Payables", () => {
+    it("should record bills and payments against the supplier", () => {
+        const bill = accountingEngine.recordBill({ supplierId, date: "2025-01-05", description: "Boxes", netAmount: 200000, vatAmount: 15000 });
+        accountingEngine.recordTradePayment({ kind: "payable", partyId: supplierId, date: "2025-01-31", amount: 115000 });
+
+        expect(bill).toMatchObject({ id: "BILL-0001", dueDate: "2025-03-06" });
+        expect(accountingEngine.getAccountBalance("1400")).toBe(15000);
+        expect(accountingEngine.getOutstandingAmount(bill.id)).toBe(100000);
+        expect(accountingEngine.reconcileSubledger("payable")).toMatchObject({ controlBalance: 100000, subledgerBalance: 100000, reconciled: true });
+    });
+});
+
+describe("Ageing and control", () => {
+    it("should age outstanding invoices into 30/60/90+ day buckets", () => {
+        accountingEngine.raiseInvoice({ customerId, date: "2025-01-01", dueDate: "2025-01-31", description: "A", netAmount: 100000 });
+        accountingEngine.raiseInvoice({ customerId, date: "2025-03-01", dueDate: "2025-03-31", description: "B", netAmount: 200000 });
+        accountingEngine.raiseInvoice({ customerId, date: "2025-04-20", dueDate: "2025-05-20", description: "C", netAmount: 300000 });
+        const other = accountingEngine.addTradeParty({ kind: "receivable", name: "Ikeja Stores" });
+        accountingEngine.raiseInvoice({ customerId: other.id, date: "2025-04-01", dueDate: "2025-04-15", description: "D", netAmount: 50000 });
+        accountingEngine.recordTradePayment({ kind: "receivable", partyId: other.id, date: "2025-04-30", amount: 80000 });
+
+        const report = accountingEngine.getAgeingReport("receivable", "2025-05-10");
+
+        expect(report.rows[0]).toMatchObject({ partyName: "Zenith Foods Ltd", current: 300000, days31to60: 200000, over90: 100000, total: 600000 });
+        expect(report.rows[1]).toMatchObject({ partyName: "Ikeja Stores", days1to30: 0, unallocated: -30000, total: -30000 });
+        expect(report.totals).toMatchObject({ current: 300000, days31to60: 200000, over90: 100000, unallocated: -30000, total: 570000 });
+    });
+
+    it("should age the subledger as it stood at a past date, before later receipts and credit notes", () => {
+        const invoice = accountingEngine.raiseInvoice({ customerId, date: "2025-01-01", dueDate: "2025-01-31", description: "A", netAmount: 100000 });
+        accountingEngine.recordTradePayment({ kind: "receivable", partyId: customerId, date: "2025-03-15", amount: 60000 });
+        accountingEngine.issueCreditNote({ kind: "receivable", partyId: customerId, date: "2025-03-20", description: "Damaged", netAmount: 40000, appliesTo: invoice.id });
+        const later = accountingEngine.raiseInvoice({ customerId, date: "2025-04-01", description: "B", netAmount: 50000 });
+        accountingEngine.recordTradePayment({ kind: "receivable", partyId: customerId, date: "2025-02-10", amount: 20000, allocations: [] });
+        accountingEngine.allocateTradePayment("RCT-0002", [{ documentId: later.id, amount: 20000 }]);
+
+        expect(accountingEngine.getAgeingReport("receivable", "2025-02-28").rows[0]).toMatchObject({ days1to30: 100000, unallocated: -20000, total: 80000 });
+        expect(accountingEngine.getAgeingReport("receivable", "2025-03-31").rows[0]).toMatchObject({ days1to30: 0, unallocated: -20000, total: -20000 });
+        expect(accountingEngine.getAgeingReport("receivable", "2025-04-10").rows[0]).toMatchObject({ current: 30000, total: 30000 });
+    });
+
+    it("should write off a bad debt against the invoice through the subledger", () => {
+        const invoice = accountingEngine.raiseInvoice({ customerId, date: "2025-01-10", description: "Cartons", netAmount: 500000 });
+        accountingEngine.recordTradePayment({ kind: "receivable", partyId: customerId, date: "2025-02-01", amount: 200000 });
+
+        const writeOff = accountingEngine.writeOffBadDebt({ documentId: invoice.id, date: "2025-06-30", reason: "Customer in liquidation" });
+
+        expect(writeOff).toMatchObject({ id: "WO-0001", type: "credit_note", amount: 300000, appliesTo: invoice.id });
+        expect(accountingEngine.getOutstandingAmount(invoice.id)).toBe(0);
+        expect(accountingEngine.getAccountBalance("6040")).toBe(300000);
+        expect(accountingEngine.reconcileSubledger("receivable")).toMatchObject({ controlBalance: 0, reconciled: true });
+        expect(() => accountingEngine.writeOffBadDebt({ documentId: invoice.id, date: "2025-06-30", reason: "Again" })).toThrow("must be positive");
+        expect(() => accountingEngine.writeOffBadDebt({ documentId: "INV-0009", date: "2025-06-30", reason: "Lost" })).toThrow("not an open customer invoice");
+    });
+
+    it("should bring control balances from before the subledgers in as balances brought forward", () => {
+        const state = emptySubledgers();
+
+        const opened = openTradeBalance(state, "receivable", 750000, "2024-12-31");
+
+        expect(opened.parties).toEqual([expect.objectContaining({ id: "CUS-000", name: "Opening balances (customers)" })]);
+        expect(opened.documents).toEqual([expect.objectContaining({ id: "OB-AR", type: "opening_balance", amount: 750000, date: "2024-12-31" })]);
+        expect(subledgerBalance(state, "receivable")).toBe(750000);
+        expect(openTradeBalance(state, "receivable", 900000, "2025-01-31").documents).toEqual([]);
+        expect(openTradeBalance(state, "payable", 0, "2024-12-31").documents).toEqual([]);
+    });
+
+    it("should refuse manual journals to the control accounts", () => {
+        expect(() => accountingEngine.createAdjustmentEntry("Write off", [
+            { accountCode: "6040", accountName: "Bad Debts", debit: 1000, credit: 0 },
+            { accountCode: "1100", accountName: "Accounts Receivable", debit: 0, credit: 1000 },
+        ])).toThrow(new SubledgerError("Accounts Receivable (1100) is a control account; post through the receivables subledger"));
+    });
+
+    it("should return payments to account when their invoice is voided", async () => {
+        const invoice = accountingEngine.raiseInvoice({ customerId, date: "2025-01-10", description: "Cartons", netAmount: 500000 });
+        const payment = accountingEngine.recordTradePayment({ kind: "receivable", partyId: customerId, date: "2025-01-20", amount: 200000 });
+
+        await accountingEngine.voidJournalEntry(invoice.journalId!, "Raised against the wrong customer");
+
+        expect(accountingEngine.getSubledgers().documents[0].status).toBe("void");
+        expect(accountingEngine.getSubledgers().payments[0].allocations).toEqual([]);
+        expect(payment.id).toBe("RCT-0001");
+        expect(accountingEngine.reconcileSubledger("receivable")).toMatchObject({ controlBalance: -200000, subledgerBalance: -200000, reconciled: true });
+    });
+
+    it("should settle invoices from customer receipts classified from transactions", () => {
+        const invoice = accountingEngine.raiseInvoice({ customerId, date: "2025-01-10", description: "Cartons", netAmount: 400000 });
+
+        accountingEngine.processTransaction({
+            id: "TX-1",
+            date: "2025-02-01",
+            description: "Received payment from customer against invoice",
+            category: "",
+            amount: 250000,
+            type: "income",
+            vendor: "Zenith Foods Ltd",
+        });
+
+        expect(accountingEngine.getSubledgers().payments[0]).toMatchObject({ partyId: customerId, allocations: [{ documentId: invoice.id, amount: 250000 }] });
+        expect(accountingEngine.getOutstandingAmount(invoice.id)).toBe(150000);
+        expect(accountingEngine.reconcileSubledger("receivable")).toMatchObject({ controlBalance: 150000, reconciled: true });
+    });
+});
@@ -0,0 +1,120 @@
+/**
+ * Unit tests for the tax-adjusted profit schedule and the tax calculator draft
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import { buildTaxAdjustedProfit, statementToTaxDraft, TaxAdjustedProfitSchedule } from "../accounting/taxBridge";
+import { LedgerAccount } from "../accounting/doubleEntry";
+import { StatementDraft } from "../accounting/types";
+import { accountingEngine } from "../accounting/transactionBridge";
+import { calculateTaxForNigeria } from "../taxRules/ng";
+import { UserProfile } from "../types";
+
+const post = (narration: string, debit: string, credit: string, amount: number) =>
+    accountingEngine.createAdjustmentEntry(narration, [
+        { accountCode: debit, accountName: debit, debit: amount, credit: 0 },
+        { accountCode: credit, accountName: credit, debit: 0, credit: amount },
+    ]);
+
+const fixedAssets = [{
+    id: "FA-1",
+    description: "Laptops",
+    assetClass: "computers" as const,
+    cost: 1000000,
+    acquisitionDate: "2024-01-15",
+}];
+
+let statement: StatementDraft;
+let schedule: TaxAdjustedProfitSchedule;
+
+beforeAll(() => {
+    accountingEngine.reset();
+    post("Sales for the year", "1020", "4000", 10000000);
+    post("Dividend received", "1020", "4210", 500000);
+    post("Laptops purchased", "1560", "1020", 1000000);
+    accountingEngine.recordDepreciation("computers", 250000);
+    post("Late filing penalty", "6060", "1020", 100000);
+    post("Donation to approved charity", "6050", "1020", 1200000);
+    post("Provision for legal claim", "5920", "2700", 300000);
+    post("Salaries", "5500", "1020", 4000000);
+
+    statement = accountingEngine.generateStatements();
+    schedule = accountingEngine.generateTaxAdjustedProfit({ taxYear: 2024, fixedAssets });
+});
+
+afterAll(() => {
+    accountingEngine.reset();
+});
+
+describe("buildTaxAdjustedProfit", () => {
+    it("should start from the accounting profit in the statements", () => {
+        expect(statement.netIncome).toBe(4650000);
+        expect(schedule.accountingProfit).toBe(4650000);
+    });
+
+    it("should add back disallowed expenses traced to their ledger accounts", () => {
+        expect(schedule.addBacks.map(a => [a.id, a.amount, a.accountCodes])).toEqual([
+            ["DEPRECIATION", 250000, ["5700"]],
+            ["FINES", 100000, ["6060"]],
+            ["PROVISIONS", 300000, ["2700"]],
+            ["DONATIONS", 600000, ["6050"]],
+        ]);
+    });
+
+    it("should limit donations to 10% of the profit before them", () => {
+        // 4.65m + 650k add-backs - 500k dividends + 1.2m donations = 6m; 10% is deductible
+        const donations = schedule.addBacks.find(a => a.id === "DONATIONS");
+        expect(donations?.amount).toBe(1200000 - 600000);
+    });
+
+    it("should deduct non-taxable income and capital allowances", () => {
+        expect(schedule.deductions.map(d => [d.id, d.amount, d.accountCodes])).toEqual([["DIVIDENDS", 500000, ["4210"]]]);
+        expect(schedule).toMatchObject({
+            totalAddBacks: 1250000,
+            totalDeductions: 500000,
+            adjustedProfit: 5400000,
+            nonTaxableIncome: 500000,
+            assessableProfit: 4775000,
+        });
+        expect(schedule.capitalAllowances?.allowanceClaimed).toBe(625000);
+    });
+
+    it("should deduct provisions utilised in the year", () => {
+        const ledger = new Map<string, LedgerAccount>([["2700", {
+            accountCode: "2700",
+            accountName: "Provisions",
+            accountType: "liability",
+            normalBalance: "credit",
+            openingBalance: 300000,
+            entries: [],
+            closingBalance: 100000,
+        }]]);
+        const result = buildTaxAdjustedProfit({ ...statement, netIncome: 1000000 }, ledger, { taxYear: 2025 });
+
+        expect(result.deductions).toEqual([expect.objectContaining({ id: "PROVISIONS", label: "Provisions utilised or released", amount: 200000 })]);
+        expect(result.adjustedProfit).toBe(800000);
+    });
+});
+
+describe("statementToTaxDraft", () => {
+    it("should carry the book figures when there is no schedule", () => {
+        const draft = statementToTaxDraft(statement);
+        expect(draft.inputs).toMatchObject({ grossRevenue: 10500000, allowableExpenses: statement.operatingExpenses });
+        expect(draft.adjustedProfit).toBeUndefined();
+    });
+
+    it("should produce inputs the CIT engine assesses at the adjusted profit", () => {
+        const draft = statementToTaxDraft(statement, schedule);
+        const profile: UserProfile = {
+            fullName: "Acme Ltd",
+            taxpayerType: "company",
+            taxYear: 2024,
+            stateOfResidence: "Lagos",
+            isVATRegistered: true,
+            currency: "NGN",
+        };
+
+        expect(draft.inputs).toMatchObject({ grossRevenue: 10000000, allowableExpenses: 4600000, capitalAllowance: 625000 });
+        expect(calculateTaxForNigeria(profile, draft.inputs).taxableIncome).toBe(schedule.assessableProfit);
+    });
+});
@@ -0,0 +1,234 @@
+/**
+ * Deferred Tax Module (IAS 12)
+ * Compares carrying amounts in the ledger with their tax bases and measures
+ * deferred tax on the temporary differences at the CIT rate expected to apply.
+ *
+ * - Fixed assets: net book value against the tax written-down value from the
+ *   capital allowance schedule (taxable difference when allowances run ahead
+ *   of depreciation). A class with nothing in the fixed asset register has no
+ *   tax base to compare with, so it is left out and noted.
+ * - Provisions and allowances for doubtful debts: deductible only when paid
+ *   or written off, so the tax base is nil (deductible difference)
+ */
+
+import { FixedAssetRecord, CapitalAssetClass, UserProfile } from "../types";
+import { buildCapitalAllowanceSchedule } from "../taxRules/capitalAllowances";
+import { calculateTaxForNigeria } from "../taxRules/ng";
+import {
+  JournalEntry,
+  JournalLine,
+  LedgerAccount,
+  generateJournalId,
+  getAccount,
+  validateJournalEntry,
+} from "./doubleEntry";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type TemporaryDifferenceKind = "taxable" | "deductible";
+
+export interface TemporaryDifference {
+  id: string;
+  label: string;
+  accountCodes: string[];
+  carryingAmount: number;
+  taxBase: number;
+  difference: number; // positive = taxable, negative = deductible
+  kind: TemporaryDifferenceKind;
+  deferredTax: number; // liability positive, asset negative
+}
+
+export interface DeferredTaxReconciliation {
+  asOf: string;
+  taxYear: number;
+  citRate: number;
+  differences: TemporaryDifference[];
+  openingLiability: number; // 2600 before the movement
+  openingAsset: number; // 1610 before the movement
+  closingLiability: number;
+  closingAsset: number;
+  openingNet: number; // liability positive, asset negative
+  closingNet: number;
+  movement: number; // charge to profit or loss, credit when negative
+  notes: string[];
+}
+
+export interface DeferredTaxOptions {
+  taxYear: number;
+  citRate: number;
+  asOf?: string;
+  fixedAssets: FixedAssetRecord[]; // register the tax written-down values come from
+}
+
+// ============================================================================
+// ACCOUNTS
+// ============================================================================
+
+export const DEFERRED_TAX_ACCOUNTS = {
+  asset: "1610",
+  liability: "2600",
+  expense: "7020",
+} as const;
+
+// Cost and accumulated depreciation accounts per capital allowance class
+export const ASSET_CLASS_ACCOUNTS: Record<CapitalAssetClass, { cost: string; accumulatedDepreciation: string }> = {
+  "buildings": { cost: "1510", accumulatedDepreciation: "1511" },
+  "plant-machinery": { cost: "1520", accumulatedDepreciation: "1521" },
+  "motor-vehicles": { cost: "1530", accumulatedDepreciation: "1531" },
+  "office-equipment": { cost: "1540", accumulatedDepreciation: "1541" },
+  "furniture-fittings": { cost: "1550", accumulatedDepreciation: "1551" },
+  "computers": { cost: "1560", accumulatedDepreciation: "1561" },
+};
+
+// Provisions not deductible until paid or written off
+export const PROVISION_ACCOUNTS = [
+  { code: "1110", label: "Allowance for doubtful debts" },
+  { code: "2700", label: "Provisions" },
+];
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+// ============================================================================
+// COMPUTATION
+// ============================================================================
+
+/**
+ * CIT rate for the company's size under the rulebook in force for the year
+ */
+export function applicableCITRate(profile: UserProfile, turnover: number, totalFixedAssets?: number): number {
+  const result = calculateTaxForNigeria(
+    { ...profile, taxpayerType: "company" },
+    { grossRevenue: turnover, allowableExpenses: 0, turnover, totalFixedAssets }
+  );
+  return result.bands[0]?.rate ?? 0;
+}
+
+/**
+ * Temporary differences and deferred tax from ledger balances. Contra accounts
+ * (accumulated depreciation, doubtful debts) are read as reductions whatever
+ * their sign in the ledger.
+ */
+export function computeDeferredTax(
+  ledgerAccounts: Map<string, LedgerAccount>,
+  options: DeferredTaxOptions
+): DeferredTaxReconciliation {
+  if (!(options.citRate >= 0 && options.citRate < 1)) {
+    throw new Error("citRate must be a fraction between 0 and 1");
+  }
+  const balance = (code: string) => ledgerAccounts.get(code)?.closingBalance || 0;
+  if (!Array.isArray(options.fixedAssets)) {
+    throw new Error("fixedAssets must be the fixed asset register, empty if there are no assets");
+  }
+  const schedule = buildCapitalAllowanceSchedule(options.fixedAssets, options.taxYear);
+  const differences: TemporaryDifference[] = [];
+  const notes: string[] = [];
+
+  const addDifference = (id: string, label: string, accountCodes: string[], carryingAmount: number, taxBase: number) => {
+    const difference = round2(carryingAmount - taxBase);
+    if (difference === 0) return;
+    differences.push({
+      id,
+      label,
+      accountCodes,
+      carryingAmount: round2(carryingAmount),
+      taxBase: round2(taxBase),
+      difference,
+      kind: difference > 0 ? "taxable" : "deductible",
+      deferredTax: round2(difference * options.citRate),
+    });
+  };
+
+  (Object.keys(ASSET_CLASS_ACCOUNTS) as CapitalAssetClass[]).forEach((assetClass) => {
+    const accounts = ASSET_CLASS_ACCOUNTS[assetClass];
+    const carryingAmount = balance(accounts.cost) - Math.abs(balance(accounts.accumulatedDepreciation));
+    const label = getAccount(accounts.cost)?.name || assetClass;
+    if (!options.fixedAssets.some((asset) => asset.assetClass === assetClass)) {
+      if (round2(carryingAmount) !== 0) {
+        notes.push(`${label} of ${round2(carryingAmount).toLocaleString()} is not in the fixed asset register, so no deferred tax is measured on it.`);
+      }
+      return;
+    }
+    const taxBase = schedule
+      .filter((line) => line.assetClass === assetClass)
+      .reduce((sum, line) => sum + line.closingTWDV, 0);
+    addDifference(
+      `PPE-${assetClass}`,
+      label,
+      [accounts.cost, accounts.accumulatedDepreciation],
+      carryingAmount,
+      taxBase
+    );
+  });
+
+  PROVISION_ACCOUNTS.forEach(({ code, label }) => {
+    // Carrying amount of the provision is a reduction of net assets; its tax base is nil
+    addDifference(`PROV-${code}`, label, [code], -Math.abs(balance(code)), 0);
+  });
+
+  const closingLiability = round2(differences.filter((d) => d.deferredTax > 0).reduce((sum, d) => sum + d.deferredTax, 0));
+  const closingAsset = round2(-differences.filter((d) => d.deferredTax < 0).reduce((sum, d) => sum + d.deferredTax, 0));
+  const openingLiability = round2(balance(DEFERRED_TAX_ACCOUNTS.liability));
+  const openingAsset = round2(balance(DEFERRED_TAX_ACCOUNTS.asset));
+  const openingNet = round2(openingLiability - openingAsset);
+  const closingNet = round2(closingLiability - closingAsset);
+
+  return {
+    asOf: options.asOf || new Date().toISOString().split("T")[0],
+    taxYear: options.taxYear,
+    citRate: options.citRate,
+    differences,
+    openingLiability,
+    openingAsset,
+    closingLiability,
+    closingAsset,
+    openingNet,
+    closingNet,
+    movement: round2(closingNet - openingNet),
+    notes,
+  };
+}
+
+/**
+ * Journal taking the deferred tax asset and liability to their closing
+ * amounts, with the movement charged (or credited) to deferred tax expense.
+ * Returns null when nothing has moved.
+ */
+export function buildDeferredTaxJournal(reconciliation: DeferredTaxReconciliation): JournalEntry | null {
+  const liabilityMovement = round2(reconciliation.closingLiability - reconciliation.openingLiability);
+  const assetMovement = round2(reconciliation.closingAsset - reconciliation.openingAsset);
+  if (liabilityMovement === 0 && assetMovement === 0) return null;
+
+  const line = (accountCode: string, amount: number, memo: string): JournalLine => ({
+    accountCode,
+    accountName: getAccount(accountCode)?.name || accountCode,
+    debit: amount > 0 ? amount : 0,
+    credit: amount < 0 ? -amount : 0,
+    memo,
+  });
+
+  // Amounts are debits when positive
+  const lines = [
+    line(DEFERRED_TAX_ACCOUNTS.liability, -liabilityMovement, "Deferred tax liability movement"),
+    line(DEFERRED_TAX_ACCOUNTS.asset, assetMovement, "Deferred tax asset movement"),
+    line(DEFERRED_TAX_ACCOUNTS.expense, reconciliation.movement, `Deferred tax at ${round2(reconciliation.citRate * 100)}%`),
+  ].filter((entryLine) => entryLine.debit > 0 || entryLine.credit > 0);
+
+  const validation = validateJournalEntry(lines);
+  const now = new Date().toISOString();
+  return {
+    id: generateJournalId(),
+    date: reconciliation.asOf,
+    narration: `Deferred tax movement for ${reconciliation.taxYear}`,
+    reference: `DT-${reconciliation.taxYear}`,
+    lines,
+    isBalanced: validation.isBalanced,
+    totalDebits: validation.totalDebits,
+    totalCredits: validation.totalCredits,
+    transactionType: "adjustment",
+    createdAt: now,
+    postedAt: now,
+    status: "posted",
+  };
+}
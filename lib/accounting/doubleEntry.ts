@@ -8,6 +8,8 @@
  * 3. Proper account classification with normal balances
  */
 
+import type { VATSupplyType } from "../taxRules/vatClassification";
+
 // ============================================================================
 // ACCOUNT TYPES & NORMAL BALANCES
 // ============================================================================
@@ -99,6 +101,9 @@ export const CHART_OF_ACCOUNTS: AccountDefinition[] = [
   { code: "1560", name: "Computer Equipment", type: "asset", normalBalance: "debit", subType: "fixed" },
   { code: "1561", name: "Accumulated Depreciation - Computers", type: "asset", normalBalance: "credit", subType: "fixed" },
 
+  // Non-Current Assets
+  { code: "1610", name: "Deferred Tax Asset", type: "asset", normalBalance: "debit", subType: "non-current" },
+
   // ===== LIABILITIES (2000-2999) =====
   // Current Liabilities
   { code: "2000", name: "Accounts Payable", type: "liability", normalBalance: "credit", subType: "current", description: "Trade creditors" },
@@ -112,6 +117,7 @@ export const CHART_OF_ACCOUNTS: AccountDefinition[] = [
   { code: "2240", name: "NHF Payable", type: "liability", normalBalance: "credit", subType: "current" },
   { code: "2250", name: "NSITF Payable", type: "liability", normalBalance: "credit", subType: "current" },
   { code: "2260", name: "ITF Payable", type: "liability", normalBalance: "credit", subType: "current" },
+  { code: "2270", name: "NHIS Payable", type: "liability", normalBalance: "credit", subType: "current" },
   { code: "2300", name: "Short-term Loans", type: "liability", normalBalance: "credit", subType: "current" },
   { code: "2310", name: "Bank Overdraft", type: "liability", normalBalance: "credit", subType: "current" },
   { code: "2400", name: "Unearned Revenue", type: "liability", normalBalance: "credit", subType: "current" },
@@ -121,6 +127,7 @@ export const CHART_OF_ACCOUNTS: AccountDefinition[] = [
   { code: "2500", name: "Long-term Loans", type: "liability", normalBalance: "credit", subType: "non-current" },
   { code: "2510", name: "Mortgage Payable", type: "liability", normalBalance: "credit", subType: "non-current" },
   { code: "2600", name: "Deferred Tax Liability", type: "liability", normalBalance: "credit", subType: "non-current" },
+  { code: "2700", name: "Provisions", type: "liability", normalBalance: "credit", subType: "non-current", description: "Deductible for tax when paid" },
 
   // ===== EQUITY (3000-3999) =====
   { code: "3000", name: "Owner's Capital", type: "equity", normalBalance: "credit", description: "Owner's investment" },
@@ -189,6 +196,7 @@ export const CHART_OF_ACCOUNTS: AccountDefinition[] = [
   // Tax Expenses
   { code: "7000", name: "Income Tax Expense", type: "expense", normalBalance: "debit", subType: "tax" },
   { code: "7010", name: "Tertiary Education Tax", type: "expense", normalBalance: "debit", subType: "tax" },
+  { code: "7020", name: "Deferred Tax Expense", type: "expense", normalBalance: "debit", subType: "tax" },
 ];
 
 // ============================================================================
@@ -216,6 +224,9 @@ export interface JournalEntry {
   createdAt: string;
   postedAt?: string;
   status: "draft" | "posted" | "voided";
+  reversesId?: string; // entry this one reverses or voids
+  autoReverseOn?: string; // accruals: date the reversal is posted
+  voidReason?: string;
 }
 
 export type TransactionType =
@@ -227,6 +238,7 @@ export type TransactionType =
   | "asset-purchase"
   | "asset-disposal"
   | "depreciation"
+  | "payroll"
   | "loan-received"
   | "loan-repayment"
   | "owner-investment"
@@ -237,6 +249,7 @@ export type TransactionType =
   | "adjustment"
   | "opening-balance"
   | "closing"
+  | "reversal"
   | "other";
 
 export type PaymentMethod = "cash" | "bank" | "pos" | "transfer" | "mobile" | "credit" | "cheque";
@@ -269,6 +282,7 @@ export interface TransactionInterpretation {
   netAmount: number;
   vatAmount: number;
   whtAmount: number;
+  vatClass?: VATSupplyType;
   paymentMethod: PaymentMethod;
   isCredit: boolean;
   counterparty?: string;
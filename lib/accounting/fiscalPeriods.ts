@@ -0,0 +1,166 @@
+/**
+ * Fiscal Periods Module
+ * Monthly accounting periods for a financial year ending on the configured
+ * year-end date, and the close / lock / reopen workflow that decides whether
+ * an entry may still be posted into them.
+ *
+ * Closed periods take no new entries until they are reopened with a reason;
+ * locked periods (filed accounts) are never reopened.
+ */
+
+import { addMonths, fiscalYearEndDate } from "../taxRules/taxCalendar";
+import { FiscalPeriod, FiscalPeriodEvent } from "./types";
+import { StatusError } from "../errors";
+
+export const DEFAULT_FISCAL_YEAR_END = "12-31";
+
+const MONTH_DAY_PATTERN = /^(0[1-9]|1[0-2])-(0[1-9]|[12]\d|3[01])$/;
+
+export class FiscalPeriodError extends StatusError {
+  name = "FiscalPeriodError";
+}
+
+export function validateFiscalYearEnd(monthDay: string): string {
+  if (!MONTH_DAY_PATTERN.test(monthDay || "")) {
+    throw new FiscalPeriodError("fiscalYearEnd must be in MM-DD format");
+  }
+  return monthDay;
+}
+
+const dayAfter = (date: string) => new Date(Date.parse(date) + 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+
+/**
+ * Financial year a date falls in, named by the calendar year it ends in
+ */
+export function fiscalYearOf(date: string, fiscalYearEnd = DEFAULT_FISCAL_YEAR_END): number {
+  const year = Number(date.slice(0, 4));
+  return date.slice(0, 10) <= fiscalYearEndDate({ fiscalYearEnd: validateFiscalYearEnd(fiscalYearEnd) }, year) ? year : year + 1;
+}
+
+/**
+ * Twelve monthly periods for the financial year ending in `fiscalYear`. Each
+ * ends on the same day of the month as the year end, so a 31 March year end
+ * gives calendar months and a 15 June year end gives periods to the 15th.
+ */
+export function buildFiscalPeriods(fiscalYearEnd: string, fiscalYear: number): FiscalPeriod[] {
+  const profile = { fiscalYearEnd: validateFiscalYearEnd(fiscalYearEnd) };
+  const previousYearEnd = fiscalYearEndDate(profile, fiscalYear - 1);
+  const yearEnd = fiscalYearEndDate(profile, fiscalYear);
+
+  const periods: FiscalPeriod[] = [];
+  let startDate = dayAfter(previousYearEnd);
+  for (let index = 1; index <= 12; index++) {
+    const endDate = index === 12 ? yearEnd : addMonths(previousYearEnd, index);
+    periods.push({
+      id: `FY${fiscalYear}-P${String(index).padStart(2, "0")}`,
+      name: new Date(endDate).toLocaleString("en-GB", { month: "short", year: "numeric", timeZone: "UTC" }),
+      fiscalYear,
+      startDate,
+      endDate,
+      status: "open",
+    });
+    startDate = dayAfter(endDate);
+  }
+  return periods;
+}
+
+export function findPeriod(periods: FiscalPeriod[], date: string): FiscalPeriod | undefined {
+  const day = date.slice(0, 10);
+  return periods.find((period) => period.startDate <= day && day <= period.endDate);
+}
+
+/**
+ * Throws when the period covering `date` no longer takes entries. Dates with
+ * no period defined are treated as open.
+ */
+export function assertPeriodOpen(periods: FiscalPeriod[], date: string): void {
+  const period = findPeriod(periods, date);
+  if (!period || period.status === "open") return;
+  throw new FiscalPeriodError(
+    period.status === "locked"
+      ? `Cannot post to ${date}: period ${period.name} is locked`
+      : `Cannot post to ${date}: period ${period.name} is closed; reopen it to post adjustments`,
+    409
+  );
+}
+
+// Periods of the same financial year, in order
+const siblings = (periods: FiscalPeriod[], period: FiscalPeriod) =>
+  periods
+    .filter((p) => p.fiscalYear === period.fiscalYear)
+    .sort((a, b) => a.startDate.localeCompare(b.startDate));
+
+/**
+ * Moves a period through open → closed → locked, or back from closed to open.
+ * Months close in order and reopen from the latest back, so a reopened month
+ * never sits behind a later closed one. The period is updated in place and
+ * the event for the audit log returned.
+ */
+export function transitionPeriod(
+  periods: FiscalPeriod[],
+  periodId: string,
+  action: FiscalPeriodEvent["action"],
+  options: { by?: string; reason?: string; at?: string } = {}
+): FiscalPeriodEvent {
+  const period = periods.find((p) => p.id === periodId);
+  if (!period) {
+    throw new FiscalPeriodError(`Fiscal period ${periodId} not found`, 404);
+  }
+  const at = options.at || new Date().toISOString();
+  const year = siblings(periods, period);
+  const position = year.indexOf(period);
+
+  switch (action) {
+    case "close": {
+      if (period.status !== "open") {
+        throw new FiscalPeriodError(`Period ${period.name} is already ${period.status}`, 409);
+      }
+      const earlierOpen = year.slice(0, position).find((p) => p.status === "open");
+      if (earlierOpen) {
+        throw new FiscalPeriodError(`Close ${earlierOpen.name} before ${period.name}`, 409);
+      }
+      period.status = "closed";
+      period.closedAt = at;
+      period.closedBy = options.by;
+      break;
+    }
+    case "lock": {
+      if (period.status !== "closed") {
+        throw new FiscalPeriodError(
+          period.status === "open" ? `Close ${period.name} before locking it` : `Period ${period.name} is already locked`,
+          409
+        );
+      }
+      period.status = "locked";
+      period.lockedAt = at;
+      break;
+    }
+    case "reopen": {
+      if (!options.reason || !options.reason.trim()) {
+        throw new FiscalPeriodError("A reason is required to reopen a period");
+      }
+      if (period.status === "locked") {
+        throw new FiscalPeriodError(`Period ${period.name} is locked and cannot be reopened`, 409);
+      }
+      if (period.status === "open") {
+        throw new FiscalPeriodError(`Period ${period.name} is already open`, 409);
+      }
+      const laterClosed = year.slice(position + 1).reverse().find((p) => p.status !== "open");
+      if (laterClosed) {
+        throw new FiscalPeriodError(`Reopen ${laterClosed.name} before ${period.name}`, 409);
+      }
+      period.status = "open";
+      period.closedAt = undefined;
+      period.closedBy = undefined;
+      break;
+    }
+  }
+
+  return {
+    periodId,
+    action,
+    at,
+    ...(options.by ? { by: options.by } : {}),
+    ...(options.reason ? { reason: options.reason.trim() } : {}),
+  };
+}
@@ -0,0 +1,314 @@
+/**
+ * Sales Invoicing Module
+ * Customer invoices built from inventory products or free-text services.
+ * Each line is classified for VAT like any other supply and charged at the
+ * rate in the rulebook in force on the invoice date. The withholding tax the
+ * customer is expected to deduct when paying is shown on the invoice; the
+ * receivable itself is always the gross amount. Goods on an invoice leave
+ * stock when it is issued and are costed to Cost of Goods Sold then.
+ */
+
+import { evaluateRule } from "../taxRules/rulebook";
+import { resolveRuleBook } from "../taxRules/registry";
+import { classifyVATSupply, vatForSupply, vatSupplyMemo, VATSupplyType } from "../taxRules/vatClassification";
+import { getWHTRate } from "../taxRules/wht";
+import { Category, Product } from "../inventory/types";
+import { StatusError } from "../errors";
+import { CONTROL_ACCOUNTS, TradeDocument } from "./subledgers";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type InvoiceProduct = Pick<Product, "id" | "sku" | "name" | "unit" | "sellingPrice" | "vatClass"> & {
+  costPrice?: number;
+  category?: Pick<Category, "name" | "vatClass"> | null;
+};
+
+export interface SalesInvoiceLineInput {
+  productId?: string; // inventory product; description and price default from it
+  description?: string;
+  quantity: number;
+  unitPrice?: number;
+  vatClass?: VATSupplyType; // overrides the product or catalogue classification
+  whtPaymentType?: string; // service lines: the WHT_RATES payment type the customer applies
+}
+
+export interface SalesInvoiceLine {
+  kind: "product" | "service";
+  productId?: string;
+  sku?: string;
+  description: string;
+  quantity: number;
+  unit?: string;
+  unitPrice: number;
+  unitCost?: number; // product lines: cost price, settled by the inventory sale on issue
+  amount: number; // net of VAT
+  supplyType: VATSupplyType;
+  vatAmount: number;
+  revenueAccount: string;
+  whtPaymentType?: string;
+  whtRate: number;
+  whtAmount: number;
+}
+
+// Customer details as they stood when the invoice was raised
+export interface InvoiceCustomer {
+  id: string;
+  name: string;
+  tin?: string;
+  address?: string;
+  email?: string;
+  withholdsTax: boolean;
+}
+
+export interface SalesInvoice {
+  id: string;
+  number?: string; // assigned from the invoice sequence when issued
+  customer: InvoiceCustomer;
+  issueDate: string;
+  dueDate: string;
+  locationId?: string; // inventory location product lines are sold from
+  lineInputs: SalesInvoiceLineInput[]; // as drafted, for the server to price again on issue
+  lines: SalesInvoiceLine[];
+  vatRate: number;
+  subtotal: number;
+  vatAmount: number;
+  total: number; // what the customer owes
+  whtAmount: number; // expected to be withheld by the customer
+  amountPayable: number; // total less WHT: the cash expected
+  notes?: string;
+  status: "draft" | "issued" | "void";
+  journalId?: string;
+  saleId?: string; // inventory sale that took the goods out of stock
+  costOfSales?: number;
+  createdAt: string;
+  issuedAt?: string;
+}
+
+export class InvoicingError extends StatusError {
+  name = "InvoicingError";
+}
+
+export const REVENUE_ACCOUNTS = { product: "4000", service: "4010" } as const;
+
+// Issued invoices are numbered SI-0001, SI-0002, ... apart from the INV
+// documents the subledger records for other credit sales
+export const SALES_INVOICE_PREFIX = "SI";
+
+// Services are treated as contract services unless the line says otherwise
+export const DEFAULT_SERVICE_WHT_TYPE = "contracts";
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+// ============================================================================
+// BUILDING
+// ============================================================================
+
+/**
+ * Standard VAT rate in the rulebook in force on `date`
+ */
+export function invoiceVATRate(date: string): number {
+  const resolved = resolveRuleBook({ jurisdiction: "Federal", date });
+  return evaluateRule(resolved.entry.rulebook, "VAT_RATE");
+}
+
+export function buildInvoiceLine(
+  input: SalesInvoiceLineInput,
+  context: { products: InvoiceProduct[]; vatRate: number; withholdsTax: boolean }
+): SalesInvoiceLine {
+  const product = input.productId ? context.products.find((p) => p.id === input.productId) : undefined;
+  if (input.productId && !product) {
+    throw new InvoicingError(`Product ${input.productId} not found`, 404);
+  }
+  const description = (input.description || product?.name || "").trim();
+  if (!description) {
+    throw new InvoicingError("Each line needs a product or a description");
+  }
+  if (!(input.quantity > 0)) {
+    throw new InvoicingError(`Quantity for "${description}" must be positive`);
+  }
+  const unitPrice = input.unitPrice ?? product?.sellingPrice ?? 0;
+  if (!(unitPrice > 0)) {
+    throw new InvoicingError(`Unit price for "${description}" must be positive`);
+  }
+
+  const kind = product ? "product" : "service";
+  const amount = round2(input.quantity * unitPrice);
+  const supplyType =
+    input.vatClass ||
+    classifyVATSupply({
+      product: product ? { name: product.name, vatClass: product.vatClass } : undefined,
+      category: product?.category || undefined,
+      description,
+    }).supplyType;
+
+  // Goods sold in the ordinary course of business carry no WHT
+  const whtPaymentType = kind === "service" && context.withholdsTax ? input.whtPaymentType || DEFAULT_SERVICE_WHT_TYPE : undefined;
+  const whtRate = whtPaymentType ? getWHTRate(whtPaymentType)?.residentRate : 0;
+  if (whtRate === undefined) {
+    throw new InvoicingError(`Unknown WHT payment type: ${whtPaymentType}`);
+  }
+
+  return {
+    kind,
+    ...(product ? { productId: product.id, sku: product.sku, unit: product.unit } : {}),
+    description,
+    quantity: input.quantity,
+    unitPrice,
+    ...(product ? { unitCost: product.costPrice || 0 } : {}),
+    amount,
+    supplyType,
+    vatAmount: vatForSupply(amount, supplyType, context.vatRate),
+    revenueAccount: REVENUE_ACCOUNTS[kind],
+    ...(whtPaymentType ? { whtPaymentType } : {}),
+    whtRate,
+    whtAmount: round2(amount * whtRate),
+  };
+}
+
+/**
+ * Draft invoice with every line priced, classified and taxed. WHT is worked
+ * out on the amount before VAT.
+ */
+export function buildSalesInvoice(
+  draft: {
+    id: string;
+    customer: InvoiceCustomer;
+    issueDate: string;
+    dueDate: string;
+    locationId?: string;
+    lines: SalesInvoiceLineInput[];
+    notes?: string;
+  },
+  products: InvoiceProduct[] = []
+): SalesInvoice {
+  if (!draft.lines?.length) {
+    throw new InvoicingError("An invoice needs at least one line");
+  }
+  if (draft.dueDate < draft.issueDate) {
+    throw new InvoicingError("dueDate cannot be before issueDate");
+  }
+  const vatRate = invoiceVATRate(draft.issueDate);
+  const lines = draft.lines.map((line) =>
+    buildInvoiceLine(line, { products, vatRate, withholdsTax: draft.customer.withholdsTax })
+  );
+
+  const sum = (pick: (line: SalesInvoiceLine) => number) => round2(lines.reduce((total, line) => total + pick(line), 0));
+  const subtotal = sum((line) => line.amount);
+  const vatAmount = sum((line) => line.vatAmount);
+  const whtAmount = sum((line) => line.whtAmount);
+  const total = round2(subtotal + vatAmount);
+
+  return {
+    id: draft.id,
+    customer: draft.customer,
+    issueDate: draft.issueDate,
+    dueDate: draft.dueDate,
+    ...(draft.locationId ? { locationId: draft.locationId } : {}),
+    lineInputs: draft.lines,
+    lines,
+    vatRate,
+    subtotal,
+    vatAmount,
+    total,
+    whtAmount,
+    amountPayable: round2(total - whtAmount),
+    ...(draft.notes?.trim() ? { notes: draft.notes.trim() } : {}),
+    status: "draft",
+    createdAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * Revenue credits for the receivable journal, one per account and VAT
+ * classification, with the classification in the memo for the VAT return
+ */
+export function invoiceRevenueLines(invoice: SalesInvoice): Array<{ accountCode: string; amount: number; memo: string }> {
+  const grouped = new Map<string, { accountCode: string; amount: number; memo: string }>();
+  invoice.lines.forEach((line) => {
+    const key = `${line.revenueAccount}:${line.supplyType}`;
+    const existing = grouped.get(key);
+    if (existing) {
+      existing.amount = round2(existing.amount + line.amount);
+    } else {
+      grouped.set(key, { accountCode: line.revenueAccount, amount: line.amount, memo: vatSupplyMemo(line.supplyType) });
+    }
+  });
+  return Array.from(grouped.values());
+}
+
+/**
+ * What the goods on the invoice cost: DR Cost of Goods Sold, CR Inventory
+ */
+export function invoiceCostOfSales(invoice: SalesInvoice): number {
+  return round2(invoice.lines.reduce((sum, line) => sum + (line.kind === "product" ? line.quantity * (line.unitCost || 0) : 0), 0));
+}
+
+// ============================================================================
+// ISSUING
+// ============================================================================
+
+/**
+ * Journal of an issued invoice: DR Accounts Receivable, CR revenue and output
+ * VAT, and for goods DR Cost of Goods Sold, CR Inventory. The server posts it
+ * on issue; books kept without a server post the same lines.
+ */
+export function invoiceJournalLines(invoice: SalesInvoice): Array<{ accountCode: string; debit: number; credit: number; memo?: string }> {
+  const costOfSales = invoice.costOfSales ?? invoiceCostOfSales(invoice);
+  return [
+    { accountCode: CONTROL_ACCOUNTS.receivable.code, debit: invoice.total, credit: 0 },
+    ...invoiceRevenueLines(invoice).map((line) => ({ accountCode: line.accountCode, debit: 0, credit: line.amount, memo: line.memo })),
+    { accountCode: "2200", debit: 0, credit: invoice.vatAmount },
+    { accountCode: "5000", debit: costOfSales, credit: 0 },
+    { accountCode: "1200", debit: 0, credit: costOfSales },
+  ].filter((line) => line.debit > 0 || line.credit > 0);
+}
+
+export function invoiceNarration(invoice: SalesInvoice & { number: string }): string {
+  return `Invoice ${invoice.number} - ${invoice.customer.name}: ${invoiceDescription(invoice)}`;
+}
+
+/**
+ * The customer's receivable for an issued invoice, under the invoice number
+ */
+export function invoiceTradeDocument(invoice: SalesInvoice & { number: string }, journalId: string): TradeDocument {
+  return {
+    id: invoice.number,
+    kind: "receivable",
+    type: "invoice",
+    number: invoice.number,
+    partyId: invoice.customer.id,
+    date: invoice.issueDate,
+    dueDate: invoice.dueDate,
+    description: invoiceDescription(invoice),
+    netAmount: invoice.subtotal,
+    vatAmount: invoice.vatAmount,
+    amount: invoice.total,
+    journalId,
+    status: "open",
+  };
+}
+
+const invoiceDescription = (invoice: SalesInvoice) => invoice.lines.map((line) => line.description).join(", ");
+
+// ============================================================================
+// NUMBERING
+// ============================================================================
+
+export function salesInvoiceNumber(sequence: number): string {
+  return `${SALES_INVOICE_PREFIX}-${String(sequence).padStart(4, "0")}`;
+}
+
+/**
+ * Next number after the highest issued, for books kept without a server,
+ * which otherwise hands the numbers out
+ */
+export function nextSalesInvoiceNumber(invoices: SalesInvoice[]): string {
+  const prefix = `${SALES_INVOICE_PREFIX}-`;
+  const last = Math.max(
+    0,
+    ...invoices.filter((invoice) => invoice.number?.startsWith(prefix)).map((invoice) => Number(invoice.number!.slice(prefix.length)) || 0)
+  );
+  return salesInvoiceNumber(last + 1);
+}
@@ -0,0 +1,90 @@
+/**
+ * Journal Corrections Module
+ * Posted entries are never edited or deleted. A mistake is put right by a
+ * reversing entry (optionally followed by the corrected entry), or by voiding,
+ * which marks the entry voided and posts a contra entry on the same date. Each
+ * step is written to an append-only audit log linking the entries involved.
+ */
+
+import { JournalEntry, generateJournalId } from "./doubleEntry";
+import { JournalAuditEvent } from "./types";
+import { StatusError } from "../errors";
+
+export class JournalCorrectionError extends StatusError {
+  name = "JournalCorrectionError";
+}
+
+/**
+ * Entry that undoes `original`: the same lines with debits and credits swapped
+ */
+export function buildReversalEntry(
+  original: JournalEntry,
+  options: { date: string; narration?: string; id?: string }
+): JournalEntry {
+  const now = new Date().toISOString();
+  return {
+    id: options.id || generateJournalId(),
+    date: options.date,
+    narration: options.narration || `Reversal of ${original.id}: ${original.narration}`,
+    reference: original.reference,
+    lines: original.lines.map((line) => ({
+      accountCode: line.accountCode,
+      accountName: line.accountName,
+      debit: line.credit,
+      credit: line.debit,
+      memo: `Reverses ${original.id}`,
+    })),
+    isBalanced: original.isBalanced,
+    totalDebits: original.totalCredits,
+    totalCredits: original.totalDebits,
+    transactionType: "reversal",
+    createdAt: now,
+    postedAt: now,
+    status: "posted",
+    reversesId: original.id,
+  };
+}
+
+/**
+ * Throws unless `original` is a posted entry that has not been reversed or
+ * voided already
+ */
+export function assertReversible(entries: JournalEntry[], original: JournalEntry | undefined, id: string): JournalEntry {
+  if (!original) {
+    throw new JournalCorrectionError(`Journal entry ${id} not found`, 404);
+  }
+  if (original.status !== "posted") {
+    throw new JournalCorrectionError(`Journal entry ${id} is ${original.status} and cannot be reversed`, 409);
+  }
+  const reversal = entries.find((entry) => entry.reversesId === id);
+  if (reversal) {
+    throw new JournalCorrectionError(`Journal entry ${id} has already been reversed by ${reversal.id}`, 409);
+  }
+  return original;
+}
+
+/**
+ * Accruals whose reversal date has arrived and that are still unreversed
+ */
+export function dueAccrualReversals(entries: JournalEntry[], asOf: string): JournalEntry[] {
+  const reversed = new Set(entries.map((entry) => entry.reversesId).filter(Boolean));
+  return entries.filter(
+    (entry) => entry.status === "posted" && entry.autoReverseOn && entry.autoReverseOn <= asOf && !reversed.has(entry.id)
+  );
+}
+
+export function auditEvent(
+  journalId: string,
+  action: JournalAuditEvent["action"],
+  details: { by?: string; reason?: string; relatedJournalId?: string; at?: string } = {}
+): JournalAuditEvent {
+  return Object.freeze({
+    id: `${journalId}:${action}`,
+    journalId,
+    action,
+    at: details.at || new Date().toISOString(),
+    ...(details.by ? { by: details.by } : {}),
+    ...(details.reason ? { reason: details.reason } : {}),
+    ...(details.relatedJournalId ? { relatedJournalId: details.relatedJournalId } : {}),
+  });
+}
@@ -0,0 +1,1437 @@
+/**
+ * Ledger Store
+ * Server-side copy of the books in the database, so a client's ledger survives
+ * a cleared browser and every member of staff sees the same entries. Journals
+ * are kept with their lines; ledger accounts carry the running balance, which
+ * is moved in the same transaction as the journal that changes it. Fiscal
+ * periods are kept here too, so a closed month takes no entries from anyone,
+ * and so are the customer and supplier subledgers, whose records are written
+ * with the journals that move the control accounts, and sales invoices, which
+ * are numbered, taken out of stock and posted here.
+ */
+
+import prisma from "../inventory/db";
+import {
+  CHART_OF_ACCOUNTS,
+  AccountType,
+  JournalEntry,
+  JournalLine,
+  NormalBalance,
+  TransactionType,
+  getNormalBalance,
+  validateJournalEntry,
+} from "./doubleEntry";
+import { auditEvent, buildReversalEntry } from "./journalCorrections";
+import {
+  FiscalPeriodError,
+  assertPeriodOpen,
+  buildFiscalPeriods,
+  fiscalYearOf,
+  transitionPeriod,
+  validateFiscalYearEnd,
+} from "./fiscalPeriods";
+import {
+  AgeingReport,
+  CONTROL_ACCOUNTS,
+  ControlReconciliation,
+  SubledgerKind,
+  SubledgerState,
+  TradeDocument,
+  TradeParty,
+  TradePayment,
+  buildAgeingReport,
+  reconcileControlAccount,
+  recordTradeFromJournal,
+  releaseTradeRecords,
+} from "./subledgers";
+import {
+  InvoiceProduct,
+  SalesInvoice,
+  buildSalesInvoice,
+  invoiceCostOfSales,
+  invoiceJournalLines,
+  invoiceNarration,
+  invoiceTradeDocument,
+  salesInvoiceNumber,
+} from "./invoicing";
+import type { CustomAccount } from "./transactionBridge";
+import type { FiscalPeriod, FiscalPeriodEvent, JournalAuditEvent } from "./types";
+import { StatusError } from "../errors";
+import { recordInventorySale, reverseInventorySale } from "../inventory/sales";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface StoredLedgerAccount {
+  code: string;
+  name: string;
+  type: AccountType;
+  normalBalance: NormalBalance;
+  subClass?: string;
+  description?: string;
+  isCustom: boolean;
+  closingBalance: number;
+}
+
+export interface LedgerSnapshot {
+  journalEntries: JournalEntry[];
+  accounts: StoredLedgerAccount[];
+  customAccounts: CustomAccount[];
+  auditLog: JournalAuditEvent[];
+  fiscalYearEnd: string; // MM-DD
+  fiscalPeriods: FiscalPeriod[];
+  periodEvents: FiscalPeriodEvent[];
+  subledgers: SubledgerState;
+  lastUpdated: string;
+}
+
+export interface JournalQuery {
+  from?: string; // YYYY-MM-DD
+  to?: string;
+  accountCode?: string;
+  status?: JournalEntry["status"];
+}
+
+export class LedgerStoreError extends StatusError {
+  name = "LedgerStoreError";
+
+  // `code` is "duplicate" on a 409 for a record the server already holds as
+  // sent, so the engine can tell a resend from a real conflict
+  constructor(message: string, status?: number, public readonly code?: "duplicate") {
+    super(message, status);
+  }
+}
+
+// Row shapes as the database returns them
+interface JournalLineRow {
+  lineNo: number;
+  accountCode: string;
+  accountName: string;
+  debit: number;
+  credit: number;
+  memo: string | null;
+}
+
+interface JournalEntryRow {
+  id: string;
+  date: string;
+  narration: string;
+  reference: string | null;
+  transactionType: string;
+  status: string;
+  totalDebits: number;
+  totalCredits: number;
+  createdAt: Date;
+  postedAt: Date | null;
+  voidReason: string | null;
+  reversesId: string | null;
+  autoReverseOn: string | null;
+  lines: JournalLineRow[];
+}
+
+interface JournalAuditEventRow {
+  id: string;
+  journalId: string;
+  action: string;
+  at: Date;
+  by: string | null;
+  reason: string | null;
+  relatedJournalId: string | null;
+}
+
+interface FiscalPeriodRow {
+  periodId: string;
+  fiscalYear: number;
+  name: string;
+  startDate: string;
+  endDate: string;
+  status: string;
+  closedAt: Date | null;
+  closedBy: string | null;
+  lockedAt: Date | null;
+}
+
+interface FiscalPeriodEventRow {
+  periodId: string;
+  action: string;
+  at: Date;
+  by: string | null;
+  reason: string | null;
+}
+
+interface TradePartyRow {
+  partyId: string;
+  kind: string;
+  name: string;
+  paymentTermsDays: number;
+  tin: string | null;
+  address: string | null;
+  email: string | null;
+  withholdsTax: boolean | null;
+  createdAt: Date;
+}
+
+interface TradeDocumentRow {
+  documentId: string;
+  kind: string;
+  type: string;
+  number: string;
+  partyId: string;
+  date: string;
+  dueDate: string;
+  description: string;
+  netAmount: number;
+  vatAmount: number;
+  amount: number;
+  appliesTo: string | null;
+  journalId: string | null;
+  status: string;
+}
+
+interface TradePaymentRow {
+  paymentId: string;
+  kind: string;
+  number: string;
+  partyId: string;
+  date: string;
+  amount: number;
+  method: string;
+  journalId: string;
+  status: string;
+  allocations: Array<{ documentId: string; amount: number }>;
+}
+
+interface CompanyRow {
+  id: string;
+  fiscalYearEnd: string;
+  lastInvoiceNo: number;
+}
+
+interface LedgerAccountRow {
+  code: string;
+  name: string;
+  type: string;
+  normalBalance: string;
+  subClass: string | null;
+  description: string | null;
+  isCustom: boolean;
+  closingBalance: number;
+  createdAt: Date;
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+const isDate = (value: unknown): value is string =>
+  typeof value === "string" && /^\d{4}-\d{2}-\d{2}$/.test(value) && !Number.isNaN(Date.parse(value));
+
+const PERIOD_ACTIONS: FiscalPeriodEvent["action"][] = ["close", "lock", "reopen"];
+
+const SUBLEDGER_KINDS = Object.keys(CONTROL_ACCOUNTS) as SubledgerKind[];
+const DOCUMENT_TYPES: TradeDocument["type"][] = ["invoice", "bill", "credit_note", "opening_balance"];
+
+const CUSTOM_ACCOUNT_CLASSES: Record<CustomAccount["class"], AccountType> = {
+  asset: "asset",
+  liability: "liability",
+  equity: "equity",
+  revenue: "income",
+  expense: "expense",
+};
+
+// ============================================================================
+// MAPPING
+// ============================================================================
+
+function toJournalEntry(row: JournalEntryRow): JournalEntry {
+  const lines: JournalLine[] = [...row.lines]
+    .sort((a, b) => a.lineNo - b.lineNo)
+    .map((line) => ({
+      accountCode: line.accountCode,
+      accountName: line.accountName,
+      debit: line.debit,
+      credit: line.credit,
+      ...(line.memo ? { memo: line.memo } : {}),
+    }));
+  return {
+    id: row.id,
+    date: row.date,
+    narration: row.narration,
+    ...(row.reference ? { reference: row.reference } : {}),
+    lines,
+    isBalanced: round2(row.totalDebits) === round2(row.totalCredits),
+    totalDebits: row.totalDebits,
+    totalCredits: row.totalCredits,
+    transactionType: row.transactionType as TransactionType,
+    createdAt: row.createdAt.toISOString(),
+    ...(row.postedAt ? { postedAt: row.postedAt.toISOString() } : {}),
+    status: row.status as JournalEntry["status"],
+    ...(row.reversesId ? { reversesId: row.reversesId } : {}),
+    ...(row.autoReverseOn ? { autoReverseOn: row.autoReverseOn } : {}),
+    ...(row.voidReason ? { voidReason: row.voidReason } : {}),
+  };
+}
+
+function toAuditEvent(row: JournalAuditEventRow): JournalAuditEvent {
+  return {
+    id: row.id,
+    journalId: row.journalId,
+    action: row.action as JournalAuditEvent["action"],
+    at: row.at.toISOString(),
+    ...(row.by ? { by: row.by } : {}),
+    ...(row.reason ? { reason: row.reason } : {}),
+    ...(row.relatedJournalId ? { relatedJournalId: row.relatedJournalId } : {}),
+  };
+}
+
+function toFiscalPeriod(row: FiscalPeriodRow): FiscalPeriod {
+  return {
+    id: row.periodId,
+    name: row.name,
+    fiscalYear: row.fiscalYear,
+    startDate: row.startDate,
+    endDate: row.endDate,
+    status: row.status as FiscalPeriod["status"],
+    ...(row.closedAt ? { closedAt: row.closedAt.toISOString() } : {}),
+    ...(row.closedBy ? { closedBy: row.closedBy } : {}),
+    ...(row.lockedAt ? { lockedAt: row.lockedAt.toISOString() } : {}),
+  };
+}
+
+function toPeriodEvent(row: FiscalPeriodEventRow): FiscalPeriodEvent {
+  return {
+    periodId: row.periodId,
+    action: row.action as FiscalPeriodEvent["action"],
+    at: row.at.toISOString(),
+    ...(row.by ? { by: row.by } : {}),
+    ...(row.reason ? { reason: row.reason } : {}),
+  };
+}
+
+function toStoredAccount(row: LedgerAccountRow): StoredLedgerAccount {
+  return {
+    code: row.code,
+    name: row.name,
+    type: row.type as AccountType,
+    normalBalance: row.normalBalance as NormalBalance,
+    ...(row.subClass ? { subClass: row.subClass } : {}),
+    ...(row.description ? { description: row.description } : {}),
+    isCustom: row.isCustom,
+    closingBalance: row.closingBalance,
+  };
+}
+
+function toCustomAccount(row: LedgerAccountRow): CustomAccount {
+  const accountClass = (Object.keys(CUSTOM_ACCOUNT_CLASSES) as CustomAccount["class"][])
+    .find((key) => CUSTOM_ACCOUNT_CLASSES[key] === row.type) || "asset";
+  return {
+    code: row.code,
+    name: row.name,
+    class: accountClass,
+    subClass: row.subClass || "",
+    description: row.description || "",
+    createdAt: row.createdAt.toISOString(),
+  };
+}
+
+function toTradeParty(row: TradePartyRow): TradeParty {
+  return {
+    id: row.partyId,
+    kind: row.kind as SubledgerKind,
+    name: row.name,
+    paymentTermsDays: row.paymentTermsDays,
+    ...(row.tin ? { tin: row.tin } : {}),
+    ...(row.address ? { address: row.address } : {}),
+    ...(row.email ? { email: row.email } : {}),
+    ...(row.withholdsTax !== null ? { withholdsTax: row.withholdsTax } : {}),
+    createdAt: row.createdAt.toISOString(),
+  };
+}
+
+function toTradeDocument(row: TradeDocumentRow): TradeDocument {
+  return {
+    id: row.documentId,
+    kind: row.kind as SubledgerKind,
+    type: row.type as TradeDocument["type"],
+    number: row.number,
+    partyId: row.partyId,
+    date: row.date,
+    dueDate: row.dueDate,
+    description: row.description,
+    netAmount: row.netAmount,
+    vatAmount: row.vatAmount,
+    amount: row.amount,
+    ...(row.appliesTo ? { appliesTo: row.appliesTo } : {}),
+    ...(row.journalId ? { journalId: row.journalId } : {}),
+    status: row.status as TradeDocument["status"],
+  };
+}
+
+function toTradePayment(row: TradePaymentRow): TradePayment {
+  return {
+    id: row.paymentId,
+    kind: row.kind as SubledgerKind,
+    number: row.number,
+    partyId: row.partyId,
+    date: row.date,
+    amount: row.amount,
+    method: row.method as TradePayment["method"],
+    allocations: row.allocations.map((allocation) => ({ documentId: allocation.documentId, amount: allocation.amount })),
+    journalId: row.journalId,
+    status: row.status as TradePayment["status"],
+  };
+}
+
+// Signed movement of one line on an account with the given normal balance
+const balanceMovement = (normalBalance: string, line: Pick<JournalLine, "debit" | "credit">) =>
+  normalBalance === "debit" ? line.debit - line.credit : line.credit - line.debit;
+
+// ============================================================================
+// COMPANY AND CHART
+// ============================================================================
+
+async function requireCompany(): Promise<CompanyRow> {
+  const company: CompanyRow | null = await prisma.company.findFirst();
+  if (!company) {
+    throw new LedgerStoreError("No company found", 500);
+  }
+  return company;
+}
+
+async function requireCompanyId(): Promise<string> {
+  return (await requireCompany()).id;
+}
+
+/**
+ * Creates ledger accounts for any chart of accounts codes the company does
+ * not have yet.
+ */
+async function ensureChart(companyId: string): Promise<void> {
+  const existing: Array<{ code: string }> = await prisma.ledgerAccount.findMany({
+    where: { companyId },
+    select: { code: true },
+  });
+  const codes = new Set(existing.map((account) => account.code));
+  const missing = CHART_OF_ACCOUNTS.filter((account) => !codes.has(account.code));
+  if (missing.length === 0) return;
+
+  await prisma.ledgerAccount.createMany({
+    data: missing.map((account) => ({
+      companyId,
+      code: account.code,
+      name: account.name,
+      type: account.type,
+      normalBalance: account.normalBalance,
+      subClass: account.subType,
+      description: account.description,
+    })),
+  });
+}
+
+// ============================================================================
+// QUERIES
+// ============================================================================
+
+export async function listLedgerAccounts(): Promise<StoredLedgerAccount[]> {
+  const companyId = await requireCompanyId();
+  await ensureChart(companyId);
+  const rows: LedgerAccountRow[] = await prisma.ledgerAccount.findMany({
+    where: { companyId },
+    orderBy: { code: "asc" },
+  });
+  return rows.map(toStoredAccount);
+}
+
+export async function listJournalEntries(query: JournalQuery = {}): Promise<JournalEntry[]> {
+  if (query.from !== undefined && !isDate(query.from)) {
+    throw new LedgerStoreError("from must be a YYYY-MM-DD date");
+  }
+  if (query.to !== undefined && !isDate(query.to)) {
+    throw new LedgerStoreError("to must be a YYYY-MM-DD date");
+  }
+
+  const companyId = await requireCompanyId();
+  const rows: JournalEntryRow[] = await prisma.journalEntry.findMany({
+    where: {
+      companyId,
+      ...(query.status ? { status: query.status } : {}),
+      ...(query.from || query.to ? { date: { ...(query.from ? { gte: query.from } : {}), ...(query.to ? { lte: query.to } : {}) } } : {}),
+      ...(query.accountCode ? { lines: { some: { accountCode: query.accountCode } } } : {}),
+    },
+    include: { lines: true },
+    orderBy: [{ date: "asc" }, { createdAt: "asc" }],
+  });
+  return rows.map(toJournalEntry);
+}
+
+export async function getJournalEntry(id: string): Promise<JournalEntry> {
+  const companyId = await requireCompanyId();
+  const row: JournalEntryRow | null = await prisma.journalEntry.findFirst({
+    where: { id, companyId },
+    include: { lines: true },
+  });
+  if (!row) {
+    throw new LedgerStoreError(`Journal entry ${id} not found`, 404);
+  }
+  return toJournalEntry(row);
+}
+
+/**
+ * Everything the accounting engine needs to rebuild its state from the server.
+ */
+export async function getLedgerSnapshot(): Promise<LedgerSnapshot> {
+  const company = await requireCompany();
+  const companyId = company.id;
+  await ensureChart(companyId);
+  const [journalRows, accountRows, auditRows, periodRows, periodEventRows, subledgers]: [
+    JournalEntryRow[],
+    LedgerAccountRow[],
+    JournalAuditEventRow[],
+    FiscalPeriodRow[],
+    FiscalPeriodEventRow[],
+    SubledgerState,
+  ] = await Promise.all([
+    prisma.journalEntry.findMany({
+      where: { companyId },
+      include: { lines: true },
+      orderBy: [{ date: "asc" }, { createdAt: "asc" }],
+    }),
+    prisma.ledgerAccount.findMany({ where: { companyId }, orderBy: { code: "asc" } }),
+    prisma.journalAuditEvent.findMany({ where: { companyId }, orderBy: { at: "asc" } }),
+    prisma.fiscalPeriod.findMany({ where: { companyId }, orderBy: { startDate: "asc" } }),
+    prisma.fiscalPeriodEvent.findMany({ where: { companyId }, orderBy: { at: "asc" } }),
+    loadSubledgers(prisma, companyId),
+  ]);
+
+  return {
+    journalEntries: journalRows.map(toJournalEntry),
+    accounts: accountRows.map(toStoredAccount),
+    customAccounts: accountRows.filter((row) => row.isCustom).map(toCustomAccount),
+    auditLog: auditRows.map(toAuditEvent),
+    fiscalYearEnd: company.fiscalYearEnd,
+    fiscalPeriods: periodRows.map(toFiscalPeriod),
+    periodEvents: periodEventRows.map(toPeriodEvent),
+    subledgers,
+    lastUpdated: new Date().toISOString(),
+  };
+}
+
+// ============================================================================
+// COMMANDS
+// ============================================================================
+
+type PrismaTx = typeof prisma;
+
+// Creates the entry with its lines, moves the balances of the accounts it
+// touches and logs the post. Runs inside the caller's transaction.
+async function insertJournal(
+  tx: PrismaTx,
+  companyId: string,
+  entry: JournalEntry,
+  lines: JournalLine[],
+  accounts: LedgerAccountRow[],
+  by?: string
+): Promise<JournalEntryRow> {
+  const now = new Date();
+  const totals = validateJournalEntry(lines);
+  const created: JournalEntryRow = await tx.journalEntry.create({
+    data: {
+      id: entry.id,
+      companyId,
+      date: entry.date,
+      narration: String(entry.narration).trim(),
+      reference: entry.reference || null,
+      transactionType: entry.transactionType || "other",
+      status: entry.status === "voided" ? "voided" : "posted",
+      totalDebits: totals.totalDebits,
+      totalCredits: totals.totalCredits,
+      createdAt: entry.createdAt && !Number.isNaN(Date.parse(entry.createdAt)) ? new Date(entry.createdAt) : now,
+      postedAt: now,
+      ...(entry.status === "voided" ? { voidedAt: now, voidReason: entry.voidReason || null } : {}),
+      reversesId: entry.reversesId || null,
+      autoReverseOn: entry.autoReverseOn || null,
+      lines: {
+        create: lines.map((line, index) => ({
+          lineNo: index + 1,
+          accountCode: line.accountCode,
+          accountName: line.accountName || accounts.find((account) => account.code === line.accountCode)?.name || line.accountCode,
+          debit: line.debit,
+          credit: line.credit,
+          memo: line.memo || null,
+        })),
+      },
+    },
+    include: { lines: true },
+  });
+
+  for (const account of accounts) {
+    const movement = lines
+      .filter((line) => line.accountCode === account.code)
+      .reduce((sum, line) => sum + balanceMovement(account.normalBalance, line), 0);
+    if (movement === 0) continue;
+    await tx.ledgerAccount.update({
+      where: { companyId_code: { companyId, code: account.code } },
+      data: { closingBalance: { increment: round2(movement) } },
+    });
+  }
+
+  await writeAuditEvent(tx, companyId, auditEvent(entry.id, "post", { by, at: now.toISOString() }));
+  return created;
+}
+
+// Audit events are only ever inserted; a second write of the same id is a no-op
+async function writeAuditEvent(tx: PrismaTx, companyId: string, event: JournalAuditEvent): Promise<void> {
+  await tx.journalAuditEvent.upsert({
+    where: { id: event.id },
+    create: {
+      id: event.id,
+      companyId,
+      journalId: event.journalId,
+      action: event.action,
+      at: new Date(event.at),
+      by: event.by || null,
+      reason: event.reason || null,
+      relatedJournalId: event.relatedJournalId || null,
+    },
+    update: {},
+  });
+}
+
+// Two requests that both pass the duplicate checks meet the database's unique
+// constraints instead (Prisma error P2002); report that as the conflict it is,
+// and as a duplicate when `isDuplicate` finds the record itself now on file
+async function withConflictCheck<T>(
+  run: () => Promise<T>,
+  message: string,
+  isDuplicate?: () => Promise<boolean>
+): Promise<T> {
+  try {
+    return await run();
+  } catch (error) {
+    if ((error as { code?: string } | null)?.code === "P2002") {
+      throw new LedgerStoreError(message, 409, isDuplicate && (await isDuplicate()) ? "duplicate" : undefined);
+    }
+    throw error;
+  }
+}
+
+async function isOnFile(id: string): Promise<boolean> {
+  return Boolean(await prisma.journalEntry.findUnique({ where: { id } }));
+}
+
+async function requireAccounts(companyId: string, lines: JournalLine[]): Promise<LedgerAccountRow[]> {
+  const codes = Array.from(new Set(lines.map((line) => line.accountCode)));
+  const accounts: LedgerAccountRow[] = await prisma.ledgerAccount.findMany({
+    where: { companyId, code: { in: codes } },
+  });
+  const unknown = codes.filter((code) => !accounts.some((account) => account.code === code));
+  if (unknown.length > 0) {
+    throw new LedgerStoreError(`Unknown account code(s): ${unknown.join(", ")}`);
+  }
+  return accounts;
+}
+
+async function assertNotReversed(id: string): Promise<void> {
+  const reversal: { id: string } | null = await prisma.journalEntry.findUnique({ where: { reversesId: id } });
+  if (reversal) {
+    throw new LedgerStoreError(`Journal entry ${id} has already been reversed by ${reversal.id}`, 409);
+  }
+}
+
+// Checks an entry sent by the engine and returns its lines, rounded
+function checkedLines(entry: JournalEntry): JournalLine[] {
+  if (!entry || typeof entry.id !== "string" || !entry.id.trim()) {
+    throw new LedgerStoreError("Journal entry id is required");
+  }
+  if (!isDate(entry.date)) {
+    throw new LedgerStoreError("date must be a YYYY-MM-DD date");
+  }
+  if (entry.autoReverseOn !== undefined && !isDate(entry.autoReverseOn)) {
+    throw new LedgerStoreError("autoReverseOn must be a YYYY-MM-DD date");
+  }
+  if (!entry.narration || !String(entry.narration).trim()) {
+    throw new LedgerStoreError("narration is required");
+  }
+  if (!Array.isArray(entry.lines) || entry.lines.length < 2) {
+    throw new LedgerStoreError("A journal entry needs at least two lines");
+  }
+  const lines: JournalLine[] = entry.lines.map((line) => ({
+    accountCode: String(line.accountCode || "").trim(),
+    accountName: String(line.accountName || "").trim(),
+    debit: round2(Math.max(0, Number(line.debit) || 0)),
+    credit: round2(Math.max(0, Number(line.credit) || 0)),
+    ...(line.memo ? { memo: String(line.memo) } : {}),
+  }));
+  const validation = validateJournalEntry(lines);
+  if (!validation.isBalanced) {
+    throw new LedgerStoreError(
+      `Entry not balanced: DR ${validation.totalDebits} ≠ CR ${validation.totalCredits}`
+    );
+  }
+  return lines;
+}
+
+async function assertNotOnFile(id: string): Promise<void> {
+  if (await isOnFile(id)) {
+    throw new LedgerStoreError(`Journal entry ${id} has already been posted`, 409, "duplicate");
+  }
+}
+
+// A posted entry that undoes another is logged against the original: as its
+// void when the original arrived voided, and as its reversal otherwise
+async function logReversal(tx: PrismaTx, companyId: string, entry: JournalEntry, by?: string): Promise<void> {
+  const originalId = entry.reversesId as string;
+  const original: Pick<JournalEntryRow, "status" | "voidReason" | "autoReverseOn"> | null = await tx.journalEntry.findFirst({
+    where: { id: originalId, companyId },
+  });
+  if (!original) return;
+  const details = { by, relatedJournalId: entry.id };
+  await writeAuditEvent(
+    tx,
+    companyId,
+    original.status === "voided"
+      ? auditEvent(originalId, "void", { ...details, reason: original.voidReason || undefined })
+      : auditEvent(originalId, "reverse", {
+          ...details,
+          reason: original.autoReverseOn ? `Scheduled accrual reversal due ${original.autoReverseOn}` : undefined,
+        })
+  );
+}
+
+/**
+ * Posts a balanced journal entry and moves the balances of the accounts it
+ * touches. The engine's id is kept so a retried post is rejected rather than
+ * doubled, and entries dated in a closed or locked period are refused. An
+ * entry that reverses another is logged against the original and releases
+ * its subledger records. Entries the engine voided before they reached the server arrive
+ * voided; they still move the balances, as their contra entry follows.
+ *
+ * The engine sends the entry's subledger records in `trade`. An entry that
+ * moves a control account without them, posted by another client, is put in
+ * the subledger here against an unnamed customer or supplier.
+ */
+export async function postJournalEntry(
+  entry: JournalEntry,
+  options: { by?: string; trade?: Partial<SubledgerState> } = {}
+): Promise<JournalEntry> {
+  const { by } = options;
+  const lines = checkedLines(entry);
+  const trade = options.trade === undefined ? undefined : checkedTradeRecords(options.trade);
+  if (trade && [...trade.documents, ...trade.payments].some((record) => record.journalId !== entry.id)) {
+    throw new LedgerStoreError(`Subledger records sent with journal entry ${entry.id} must belong to it`);
+  }
+  const company = await requireCompany();
+  const companyId = company.id;
+  await ensureChart(companyId);
+
+  await assertNotOnFile(entry.id);
+  await assertPostingPeriodOpen(company, entry.date);
+  if (entry.reversesId) {
+    await assertNotReversed(entry.reversesId);
+  }
+
+  const accounts = await requireAccounts(companyId, lines);
+  const row: JournalEntryRow = await withConflictCheck(
+    () =>
+      prisma.$transaction(async (tx: PrismaTx) => {
+        const created = await insertJournal(tx, companyId, entry, lines, accounts, by);
+        if (entry.reversesId) {
+          await logReversal(tx, companyId, entry, by);
+          await releaseJournalTrade(tx, companyId, entry.reversesId);
+        }
+        if (trade) {
+          await writeTradeRecords(tx, companyId, trade);
+        } else if (entry.status === "posted" && !entry.reversesId) {
+          await recordJournalTrade(tx, companyId, { ...entry, lines });
+        }
+        return created;
+      }),
+    `Journal entry ${entry.id} has already been posted`,
+    () => isOnFile(entry.id)
+  );
+
+  return toJournalEntry(row);
+}
+
+/**
+ * Voids a posted entry: it stays on file, marked voided, and a contra entry
+ * on the same date takes its effect back out of the balances. The engine may
+ * supply the contra's id so both copies of the books agree.
+ */
+export async function voidJournalEntry(
+  id: string,
+  reason: string,
+  options: { by?: string; contraId?: string } = {}
+): Promise<{ journalEntry: JournalEntry; contraEntry: JournalEntry }> {
+  if (!reason || !String(reason).trim()) {
+    throw new LedgerStoreError("A reason is required to void a journal entry");
+  }
+  const company = await requireCompany();
+  const companyId = company.id;
+  const row: JournalEntryRow | null = await prisma.journalEntry.findFirst({
+    where: { id, companyId },
+    include: { lines: true },
+  });
+  if (!row) {
+    throw new LedgerStoreError(`Journal entry ${id} not found`, 404);
+  }
+  if (row.status !== "posted") {
+    throw new LedgerStoreError(`Journal entry ${id} is ${row.status} and cannot be voided`, 409);
+  }
+  await assertNotReversed(id);
+  // The contra entry goes on the original's date
+  await assertPostingPeriodOpen(company, row.date);
+
+  const original = toJournalEntry(row);
+  const contra = buildReversalEntry(original, {
+    id: options.contraId,
+    date: original.date,
+    narration: `Void of ${id}: ${original.narration}`,
+  });
+  const accounts = await requireAccounts(companyId, contra.lines);
+  const now = new Date();
+
+  const [voided, contraRow]: [JournalEntryRow, JournalEntryRow] = await withConflictCheck(() => prisma.$transaction(async (tx: PrismaTx) => {
+    const updated = await tx.journalEntry.update({
+      where: { id },
+      data: { status: "voided", voidedAt: now, voidReason: String(reason).trim() },
+      include: { lines: true },
+    });
+    const created = await insertJournal(tx, companyId, contra, contra.lines, accounts, options.by);
+    await releaseJournalTrade(tx, companyId, id);
+    await writeAuditEvent(tx, companyId, auditEvent(id, "void", {
+      by: options.by,
+      reason: String(reason).trim(),
+      relatedJournalId: contra.id,
+      at: now.toISOString(),
+    }));
+    return [updated, created];
+  }), `Journal entry ${id} has already been voided`);
+
+  return { journalEntry: toJournalEntry(voided), contraEntry: toJournalEntry(contraRow) };
+}
+
+/**
+ * Reverses a posted entry with an equal and opposite entry, dated today
+ * unless another date is given, and logs the reversal. With `corrected`, the
+ * entry that replaces the original is posted in the same transaction and
+ * logged as its correction. The engine may supply the reversal's id so both
+ * copies of the books agree.
+ */
+export async function reverseJournalEntry(
+  id: string,
+  reason: string,
+  options: { by?: string; date?: string; reversalId?: string; corrected?: JournalEntry } = {}
+): Promise<{ reversal: JournalEntry; corrected?: JournalEntry }> {
+  if (!reason || !String(reason).trim()) {
+    throw new LedgerStoreError("A reason is required to reverse a journal entry");
+  }
+  const date = options.date ?? new Date().toISOString().slice(0, 10);
+  if (!isDate(date)) {
+    throw new LedgerStoreError("date must be a YYYY-MM-DD date");
+  }
+  const corrected = options.corrected ? { ...options.corrected, status: "posted" as const, reversesId: undefined } : undefined;
+  const correctedLines = corrected ? checkedLines(corrected) : [];
+
+  const company = await requireCompany();
+  const companyId = company.id;
+  const row: JournalEntryRow | null = await prisma.journalEntry.findFirst({
+    where: { id, companyId },
+    include: { lines: true },
+  });
+  if (!row) {
+    throw new LedgerStoreError(`Journal entry ${id} not found`, 404);
+  }
+  if (options.reversalId) {
+    const sent: { reversesId: string | null } | null = await prisma.journalEntry.findUnique({ where: { id: options.reversalId } });
+    if (sent?.reversesId === id) {
+      throw new LedgerStoreError(`Journal entry ${id} has already been reversed by ${options.reversalId}`, 409, "duplicate");
+    }
+    if (sent) {
+      throw new LedgerStoreError(`Journal entry ${options.reversalId} has already been posted`, 409);
+    }
+  }
+  if (row.status !== "posted") {
+    throw new LedgerStoreError(`Journal entry ${id} is ${row.status} and cannot be reversed`, 409);
+  }
+  await assertNotReversed(id);
+  if (corrected) {
+    await assertNotOnFile(corrected.id);
+  }
+
+  const reversal = buildReversalEntry(toJournalEntry(row), { id: options.reversalId, date });
+  await assertPostingPeriodOpen(company, date);
+  if (corrected) {
+    await assertPostingPeriodOpen(company, corrected.date);
+  }
+  const accounts = await requireAccounts(companyId, [...reversal.lines, ...correctedLines]);
+  const details = { by: options.by, reason: String(reason).trim(), at: new Date().toISOString() };
+
+  const [reversalRow, correctedRow]: [JournalEntryRow, JournalEntryRow | null] = await withConflictCheck(() => prisma.$transaction(async (tx: PrismaTx) => {
+    const reversed = await insertJournal(tx, companyId, reversal, reversal.lines, accounts, options.by);
+    await releaseJournalTrade(tx, companyId, id);
+    await writeAuditEvent(tx, companyId, auditEvent(id, "reverse", { ...details, relatedJournalId: reversal.id }));
+    if (!corrected) return [reversed, null];
+    const replacement = await insertJournal(tx, companyId, corrected, correctedLines, accounts, options.by);
+    await writeAuditEvent(tx, companyId, auditEvent(id, "correct", { ...details, relatedJournalId: corrected.id }));
+    return [reversed, replacement];
+  }), `Journal entry ${id} has already been reversed`, async () => {
+    const sent: { reversesId: string | null } | null = await prisma.journalEntry.findUnique({ where: { id: reversal.id } });
+    return sent?.reversesId === id;
+  });
+
+  return {
+    reversal: toJournalEntry(reversalRow),
+    ...(correctedRow ? { corrected: toJournalEntry(correctedRow) } : {}),
+  };
+}
+
+export async function listAuditEvents(journalId?: string): Promise<JournalAuditEvent[]> {
+  const companyId = await requireCompanyId();
+  const rows: JournalAuditEventRow[] = await prisma.journalAuditEvent.findMany({
+    where: {
+      companyId,
+      ...(journalId ? { OR: [{ journalId }, { relatedJournalId: journalId }] } : {}),
+    },
+    orderBy: { at: "asc" },
+  });
+  return rows.map(toAuditEvent);
+}
+
+export async function createCustomAccount(account: Omit<CustomAccount, "createdAt">): Promise<CustomAccount> {
+  const code = String(account?.code || "").trim();
+  const name = String(account?.name || "").trim();
+  if (!/^\d{4}$/.test(code)) {
+    throw new LedgerStoreError("code must be a four-digit account code");
+  }
+  if (!name) {
+    throw new LedgerStoreError("name is required");
+  }
+  const type = CUSTOM_ACCOUNT_CLASSES[account.class];
+  if (!type) {
+    throw new LedgerStoreError(`class must be one of ${Object.keys(CUSTOM_ACCOUNT_CLASSES).join(", ")}`);
+  }
+
+  const companyId = await requireCompanyId();
+  await ensureChart(companyId);
+  // The same custom account sent again is a duplicate; any other use of the code a conflict
+  const sameAccount = async () => {
+    const existing: LedgerAccountRow | null = await prisma.ledgerAccount.findUnique({ where: { companyId_code: { companyId, code } } });
+    return existing ? existing.isCustom && existing.name === name : undefined;
+  };
+  const duplicate = await sameAccount();
+  if (duplicate !== undefined) {
+    throw new LedgerStoreError(`Account code ${code} already exists`, 409, duplicate ? "duplicate" : undefined);
+  }
+
+  const row: LedgerAccountRow = await withConflictCheck(() => prisma.ledgerAccount.create({
+    data: {
+      companyId,
+      code,
+      name,
+      type,
+      normalBalance: getNormalBalance(type),
+      subClass: account.subClass || null,
+      description: account.description || null,
+      isCustom: true,
+    },
+  }), `Account code ${code} already exists`, async () => Boolean(await sameAccount()));
+  return toCustomAccount(row);
+}
+
+// ============================================================================
+// FISCAL PERIODS
+// ============================================================================
+
+// A financial year's periods are created the first time it is used
+async function ensureFiscalYear(company: CompanyRow, fiscalYear: number): Promise<FiscalPeriod[]> {
+  const rows: FiscalPeriodRow[] = await prisma.fiscalPeriod.findMany({
+    where: { companyId: company.id, fiscalYear },
+    orderBy: { startDate: "asc" },
+  });
+  if (rows.length > 0) return rows.map(toFiscalPeriod);
+
+  const periods = buildFiscalPeriods(company.fiscalYearEnd, fiscalYear);
+  await prisma.fiscalPeriod.createMany({
+    data: periods.map((period) => ({
+      companyId: company.id,
+      periodId: period.id,
+      fiscalYear: period.fiscalYear,
+      name: period.name,
+      startDate: period.startDate,
+      endDate: period.endDate,
+    })),
+  });
+  return periods;
+}
+
+// Refused as 422 rather than the 409 of the period rules, which the engine's
+// sync reads as "already on file"
+async function assertPostingPeriodOpen(company: CompanyRow, date: string): Promise<void> {
+  const periods = await ensureFiscalYear(company, fiscalYearOf(date, company.fiscalYearEnd));
+  try {
+    assertPeriodOpen(periods, date);
+  } catch (error) {
+    if (error instanceof FiscalPeriodError) {
+      throw new LedgerStoreError(error.message, 422);
+    }
+    throw error;
+  }
+}
+
+/**
+ * The twelve periods of a financial year, by default the one in progress
+ */
+export async function listFiscalPeriods(fiscalYear?: number): Promise<FiscalPeriod[]> {
+  if (fiscalYear !== undefined && !Number.isInteger(fiscalYear)) {
+    throw new LedgerStoreError("fiscalYear must be a year");
+  }
+  const company = await requireCompany();
+  return ensureFiscalYear(company, fiscalYear ?? fiscalYearOf(new Date().toISOString(), company.fiscalYearEnd));
+}
+
+/**
+ * Sets the company's financial year end from its accounting config. The
+ * periods are redrawn, so this is refused once any period has been closed.
+ */
+export async function setFiscalYearEnd(fiscalYearEnd: string): Promise<string> {
+  validateFiscalYearEnd(fiscalYearEnd);
+  const company = await requireCompany();
+  if (company.fiscalYearEnd === fiscalYearEnd) return fiscalYearEnd;
+
+  await prisma.$transaction(async (tx: PrismaTx) => {
+    const closed = await tx.fiscalPeriod.findFirst({ where: { companyId: company.id, status: { not: "open" } } });
+    if (closed) {
+      throw new FiscalPeriodError("The year end cannot change once a period has been closed", 409);
+    }
+    await tx.fiscalPeriod.deleteMany({ where: { companyId: company.id } });
+    await tx.company.update({ where: { id: company.id }, data: { fiscalYearEnd } });
+  });
+  return fiscalYearEnd;
+}
+
+/**
+ * Closes, locks or reopens a period and logs the event. The engine may send
+ * the time the user acted so both logs agree.
+ */
+export async function transitionFiscalPeriod(
+  periodId: string,
+  action: FiscalPeriodEvent["action"],
+  options: { by?: string; reason?: string; at?: string } = {}
+): Promise<{ period: FiscalPeriod; event: FiscalPeriodEvent }> {
+  if (!PERIOD_ACTIONS.includes(action)) {
+    throw new LedgerStoreError(`action must be one of ${PERIOD_ACTIONS.join(", ")}`);
+  }
+  if (options.at !== undefined && Number.isNaN(Date.parse(options.at))) {
+    throw new LedgerStoreError("at must be a timestamp");
+  }
+  const match = /^FY(\d{4})-P(0[1-9]|1[0-2])$/.exec(periodId);
+  if (!match) {
+    throw new FiscalPeriodError(`Fiscal period ${periodId} not found`, 404);
+  }
+
+  const company = await requireCompany();
+  const periods = await ensureFiscalYear(company, Number(match[1]));
+  const previousStatus = periods.find((p) => p.id === periodId)?.status;
+  const event = transitionPeriod(periods, periodId, action, options);
+  const period = periods.find((p) => p.id === periodId) as FiscalPeriod;
+
+  await prisma.$transaction(async (tx: PrismaTx) => {
+    // Only moves the period from the status it was read in
+    const { count } = await tx.fiscalPeriod.updateMany({
+      where: { companyId: company.id, periodId, status: previousStatus },
+      data: {
+        status: period.status,
+        closedAt: period.closedAt ? new Date(period.closedAt) : null,
+        closedBy: period.closedBy || null,
+        lockedAt: period.lockedAt ? new Date(period.lockedAt) : null,
+      },
+    });
+    if (count === 0) {
+      throw new LedgerStoreError(`Period ${period.name} has just been changed by someone else`, 409);
+    }
+    await tx.fiscalPeriodEvent.create({
+      data: {
+        companyId: company.id,
+        periodId,
+        action,
+        at: new Date(event.at),
+        by: event.by || null,
+        reason: event.reason || null,
+      },
+    });
+  });
+
+  return { period, event };
+}
+
+// ============================================================================
+// SUBLEDGERS
+// ============================================================================
+
+async function loadSubledgers(tx: PrismaTx, companyId: string): Promise<SubledgerState> {
+  const [parties, documents, payments]: [TradePartyRow[], TradeDocumentRow[], TradePaymentRow[]] = await Promise.all([
+    tx.tradeParty.findMany({ where: { companyId }, orderBy: { partyId: "asc" } }),
+    tx.tradeDocument.findMany({ where: { companyId }, orderBy: [{ date: "asc" }, { documentId: "asc" }] }),
+    tx.tradePayment.findMany({
+      where: { companyId },
+      include: { allocations: true },
+      orderBy: [{ date: "asc" }, { paymentId: "asc" }],
+    }),
+  ]);
+  return {
+    parties: parties.map(toTradeParty),
+    documents: documents.map(toTradeDocument),
+    payments: payments.map(toTradePayment),
+  };
+}
+
+// Records are created or replaced whole; a payment's allocations with it
+async function writeTradeRecords(tx: PrismaTx, companyId: string, records: SubledgerState): Promise<void> {
+  for (const party of records.parties) {
+    const data = {
+      kind: party.kind,
+      name: party.name.trim(),
+      paymentTermsDays: party.paymentTermsDays,
+      tin: party.tin || null,
+      address: party.address || null,
+      email: party.email || null,
+      withholdsTax: party.withholdsTax ?? null,
+    };
+    await tx.tradeParty.upsert({
+      where: { companyId_partyId: { companyId, partyId: party.id } },
+      create: { companyId, partyId: party.id, ...data, createdAt: new Date(party.createdAt) },
+      update: data,
+    });
+  }
+  for (const document of records.documents) {
+    const data = {
+      kind: document.kind,
+      type: document.type,
+      number: document.number,
+      partyId: document.partyId,
+      date: document.date,
+      dueDate: document.dueDate,
+      description: String(document.description || ""),
+      netAmount: round2(document.netAmount),
+      vatAmount: round2(document.vatAmount),
+      amount: round2(document.amount),
+      appliesTo: document.appliesTo || null,
+      journalId: document.journalId || null,
+      status: document.status,
+    };
+    await tx.tradeDocument.upsert({
+      where: { companyId_documentId: { companyId, documentId: document.id } },
+      create: { companyId, documentId: document.id, ...data },
+      update: data,
+    });
+  }
+  for (const payment of records.payments) {
+    const data = {
+      kind: payment.kind,
+      number: payment.number,
+      partyId: payment.partyId,
+      date: payment.date,
+      amount: round2(payment.amount),
+      method: payment.method,
+      journalId: payment.journalId,
+      status: payment.status,
+    };
+    const allocations = payment.allocations.map((allocation) => ({
+      documentId: allocation.documentId,
+      amount: round2(allocation.amount),
+    }));
+    await tx.tradePayment.upsert({
+      where: { companyId_paymentId: { companyId, paymentId: payment.id } },
+      create: { companyId, paymentId: payment.id, ...data, allocations: { create: allocations } },
+      update: { ...data, allocations: { deleteMany: {}, create: allocations } },
+    });
+  }
+}
+
+// Mirrors a control account movement posted without its records
+async function recordJournalTrade(tx: PrismaTx, companyId: string, entry: JournalEntry): Promise<void> {
+  const codes = SUBLEDGER_KINDS.map((kind) => CONTROL_ACCOUNTS[kind].code);
+  if (!entry.lines.some((line) => codes.includes(line.accountCode))) return;
+  const state = await loadSubledgers(tx, companyId);
+  const method = entry.lines.some((line) => line.accountCode === "1000") ? "cash" : "bank";
+  await writeTradeRecords(tx, companyId, recordTradeFromJournal(state, entry, undefined, method));
+}
+
+// A reversed or voided journal's records are voided with it, and the goods on
+// a voided sales invoice go back into stock
+async function releaseJournalTrade(tx: PrismaTx, companyId: string, journalId: string): Promise<void> {
+  const state = await loadSubledgers(tx, companyId);
+  const changed = releaseTradeRecords(state, journalId);
+  await writeTradeRecords(tx, companyId, { parties: [], ...changed });
+  const invoices = changed.documents.filter(
+    (document) => document.journalId === journalId && document.kind === "receivable" && document.type === "invoice"
+  );
+  for (const invoice of invoices) {
+    await reverseInventorySale(tx, companyId, invoice.number);
+  }
+}
+
+// Checks subledger records sent by the engine
+function checkedTradeRecords(records: Partial<SubledgerState> | null): SubledgerState {
+  const checked: SubledgerState = {
+    parties: records?.parties ?? [],
+    documents: records?.documents ?? [],
+    payments: records?.payments ?? [],
+  };
+  if (![checked.parties, checked.documents, checked.payments].every(Array.isArray)) {
+    throw new LedgerStoreError("parties, documents and payments must be lists");
+  }
+  const requireRecord = (record: { id?: unknown; kind?: unknown } | null, label: string) => {
+    if (!record || typeof record.id !== "string" || !record.id.trim()) {
+      throw new LedgerStoreError(`${label} id is required`);
+    }
+    if (!SUBLEDGER_KINDS.includes(record.kind as SubledgerKind)) {
+      throw new LedgerStoreError(`${label} ${record.id}: kind must be one of ${SUBLEDGER_KINDS.join(", ")}`);
+    }
+  };
+
+  checked.parties.forEach((party) => {
+    requireRecord(party, "Party");
+    if (!String(party.name || "").trim()) {
+      throw new LedgerStoreError(`Party ${party.id}: name is required`);
+    }
+    if (!Number.isInteger(party.paymentTermsDays) || party.paymentTermsDays < 0) {
+      throw new LedgerStoreError(`Party ${party.id}: paymentTermsDays must be a whole number of days`);
+    }
+    if (Number.isNaN(Date.parse(party.createdAt))) {
+      throw new LedgerStoreError(`Party ${party.id}: createdAt must be a timestamp`);
+    }
+  });
+  checked.documents.forEach((document) => {
+    requireRecord(document, "Document");
+    if (!DOCUMENT_TYPES.includes(document.type)) {
+      throw new LedgerStoreError(`Document ${document.id}: type must be one of ${DOCUMENT_TYPES.join(", ")}`);
+    }
+    if (!isDate(document.date) || !isDate(document.dueDate)) {
+      throw new LedgerStoreError(`Document ${document.id}: date and dueDate must be YYYY-MM-DD dates`);
+    }
+    if (![document.netAmount, document.vatAmount, document.amount].every(Number.isFinite)) {
+      throw new LedgerStoreError(`Document ${document.id}: amounts must be numbers`);
+    }
+    if (!["open", "void"].includes(document.status)) {
+      throw new LedgerStoreError(`Document ${document.id}: status must be open or void`);
+    }
+  });
+  checked.payments.forEach((payment) => {
+    requireRecord(payment, "Payment");
+    if (!isDate(payment.date)) {
+      throw new LedgerStoreError(`Payment ${payment.id}: date must be a YYYY-MM-DD date`);
+    }
+    if (!(Number.isFinite(payment.amount) && payment.amount > 0)) {
+      throw new LedgerStoreError(`Payment ${payment.id}: amount must be positive`);
+    }
+    if (
+      !Array.isArray(payment.allocations) ||
+      !payment.allocations.every((allocation) => typeof allocation?.documentId === "string" && Number.isFinite(allocation.amount))
+    ) {
+      throw new LedgerStoreError(`Payment ${payment.id}: allocations must list a documentId and amount each`);
+    }
+    if (typeof payment.journalId !== "string" || !["posted", "void"].includes(payment.status)) {
+      throw new LedgerStoreError(`Payment ${payment.id}: journalId and a posted or void status are required`);
+    }
+  });
+  return checked;
+}
+
+export async function listSubledgers(): Promise<SubledgerState> {
+  return loadSubledgers(prisma, await requireCompanyId());
+}
+
+/**
+ * Saves parties, documents and payments added or changed in the engine, such
+ * as new customers, allocations and voids. Documents and payments must belong
+ * to journals already on file, so they are sent after them.
+ */
+export async function saveTradeRecords(records: Partial<SubledgerState>): Promise<SubledgerState> {
+  const checked = checkedTradeRecords(records);
+  const companyId = await requireCompanyId();
+
+  const journalIds = Array.from(
+    new Set([...checked.documents, ...checked.payments].flatMap((record) => (record.journalId ? [record.journalId] : [])))
+  );
+  const onFile: Array<{ id: string }> = await prisma.journalEntry.findMany({
+    where: { companyId, id: { in: journalIds } },
+    select: { id: true },
+  });
+  const missing = journalIds.filter((id) => !onFile.some((row) => row.id === id));
+  if (missing.length > 0) {
+    throw new LedgerStoreError(`Journal entr${missing.length === 1 ? "y" : "ies"} not on file: ${missing.join(", ")}`);
+  }
+  const partyIds = new Set([...checked.documents, ...checked.payments].map((record) => record.partyId));
+  const parties: Array<{ partyId: string }> = await prisma.tradeParty.findMany({
+    where: { companyId, partyId: { in: Array.from(partyIds) } },
+    select: { partyId: true },
+  });
+  const unknown = Array.from(partyIds).filter(
+    (id) => !checked.parties.some((party) => party.id === id) && !parties.some((row) => row.partyId === id)
+  );
+  if (unknown.length > 0) {
+    throw new LedgerStoreError(`Unknown customer or supplier: ${unknown.join(", ")}`);
+  }
+
+  await prisma.$transaction((tx: PrismaTx) => writeTradeRecords(tx, companyId, checked));
+  return checked;
+}
+
+/**
+ * Ageing of the customer or supplier subledger as it stood at `asOf`, with the
+ * control account reconciliation as it stands now
+ */
+export async function getSubledgerReport(
+  kind: SubledgerKind,
+  asOf = new Date().toISOString().slice(0, 10)
+): Promise<{ ageing: AgeingReport; reconciliation: ControlReconciliation }> {
+  if (!SUBLEDGER_KINDS.includes(kind)) {
+    throw new LedgerStoreError(`kind must be one of ${SUBLEDGER_KINDS.join(", ")}`);
+  }
+  if (!isDate(asOf)) {
+    throw new LedgerStoreError("asOf must be a YYYY-MM-DD date");
+  }
+  const companyId = await requireCompanyId();
+  await ensureChart(companyId);
+  const [state, control]: [SubledgerState, { closingBalance: number } | null] = await Promise.all([
+    loadSubledgers(prisma, companyId),
+    prisma.ledgerAccount.findUnique({ where: { companyId_code: { companyId, code: CONTROL_ACCOUNTS[kind].code } } }),
+  ]);
+  return {
+    ageing: buildAgeingReport(state, kind, asOf),
+    reconciliation: reconcileControlAccount(state, kind, control?.closingBalance || 0),
+  };
+}
+
+// ============================================================================
+// SALES INVOICES
+// ============================================================================
+
+export interface IssuedSalesInvoice {
+  invoice: SalesInvoice;
+  journalEntry: JournalEntry;
+  document: TradeDocument;
+}
+
+/**
+ * Issues a drafted sales invoice in one transaction. The invoice is priced
+ * again from its drafted lines, the products on file and the VAT rate in the
+ * rulebook, then given the next number in the company's sequence; its goods
+ * are taken out of stock at `locationId` under that number and its journal is
+ * posted with the customer's receivable. An invoice refused for a closed
+ * period or short stock uses up no number and moves nothing. The engine
+ * supplies the journal id and the customer, who is recorded with the invoice.
+ */
+export async function issueSalesInvoice(request: {
+  invoice?: SalesInvoice;
+  journalId?: string;
+  customer?: TradeParty;
+  by?: string;
+}): Promise<IssuedSalesInvoice> {
+  const { invoice, journalId, by } = request;
+  if (!invoice || typeof invoice.id !== "string" || !Array.isArray(invoice.lineInputs)) {
+    throw new LedgerStoreError("invoice with its id and lineInputs is required");
+  }
+  if (typeof journalId !== "string" || !journalId.trim()) {
+    throw new LedgerStoreError("journalId is required");
+  }
+  if (!isDate(invoice.issueDate) || !isDate(invoice.dueDate)) {
+    throw new LedgerStoreError("issueDate and dueDate must be YYYY-MM-DD dates");
+  }
+  const { parties } = checkedTradeRecords({ parties: [request.customer as TradeParty] });
+  if (parties[0].kind !== "receivable" || parties[0].id !== invoice.customer?.id) {
+    throw new LedgerStoreError("customer must be the customer the invoice is made out to");
+  }
+  const company = await requireCompany();
+  const companyId = company.id;
+  await ensureChart(companyId);
+  await assertNotOnFile(journalId);
+  await assertPostingPeriodOpen(company, invoice.issueDate);
+
+  const productIds = invoice.lineInputs.map((line) => line?.productId).filter((id): id is string => typeof id === "string");
+  const products: InvoiceProduct[] = await prisma.product.findMany({
+    where: { companyId, id: { in: productIds } },
+    include: { category: true },
+  });
+  const priced = buildSalesInvoice(
+    {
+      id: invoice.id,
+      customer: invoice.customer,
+      issueDate: invoice.issueDate,
+      dueDate: invoice.dueDate,
+      locationId: invoice.locationId,
+      lines: invoice.lineInputs,
+      notes: invoice.notes,
+    },
+    products
+  );
+  const goods = priced.lines.filter((line) => line.kind === "product");
+  if (goods.length > 0 && !priced.locationId) {
+    throw new LedgerStoreError("locationId is required for an invoice with goods on it");
+  }
+  // Goods leave stock at the cost price on file, so the accounts are known now
+  const accounts = await requireAccounts(companyId, invoiceJournalLines(priced) as JournalLine[]);
+
+  return withConflictCheck(
+    () =>
+      prisma.$transaction(async (tx: PrismaTx) => {
+        const updated: CompanyRow = await tx.company.update({
+          where: { id: companyId },
+          data: { lastInvoiceNo: { increment: 1 } },
+        });
+        const now = new Date().toISOString();
+        const issued: SalesInvoice & { number: string } = {
+          ...priced,
+          number: salesInvoiceNumber(updated.lastInvoiceNo),
+          status: "issued",
+          journalId,
+          issuedAt: now,
+        };
+        if (goods.length > 0) {
+          const sale = await recordInventorySale(
+            tx,
+            companyId,
+            {
+              locationId: priced.locationId!,
+              reference: issued.number,
+              lines: goods.map((line) => ({ productId: line.productId!, qty: line.quantity, unitPrice: line.unitPrice })),
+            },
+            priced.vatRate
+          );
+          const soldLines: Array<{ productId: string | null; unitCost: number }> = sale.lines;
+          issued.saleId = sale.id;
+          issued.lines = priced.lines.map((line) => {
+            const sold = soldLines.find((soldLine) => soldLine.productId === line.productId);
+            return sold ? { ...line, unitCost: sold.unitCost } : line;
+          });
+        }
+        issued.costOfSales = invoiceCostOfSales(issued);
+
+        const lines: JournalLine[] = invoiceJournalLines(issued).map((line) => ({
+          ...line,
+          accountName: accounts.find((account) => account.code === line.accountCode)?.name || line.accountCode,
+        }));
+        const totals = validateJournalEntry(lines);
+        const journalEntry: JournalEntry = {
+          id: journalId,
+          date: issued.issueDate,
+          narration: invoiceNarration(issued),
+          reference: issued.number,
+          lines,
+          isBalanced: totals.isBalanced,
+          totalDebits: totals.totalDebits,
+          totalCredits: totals.totalCredits,
+          transactionType: "sale",
+          createdAt: now,
+          postedAt: now,
+          status: "posted",
+        };
+        await insertJournal(tx, companyId, journalEntry, lines, accounts, by);
+        const document = invoiceTradeDocument(issued, journalId);
+        await writeTradeRecords(tx, companyId, { parties, documents: [document], payments: [] });
+        return { invoice: issued, journalEntry, document };
+      }),
+    "That invoice number has already been issued"
+  );
+}
@@ -79,6 +79,7 @@ export const CHART_OF_ACCOUNTS: ChartOfAccount[] = [
   { code: "1540", name: "Office Equipment", class: "asset", subClass: "fixed-asset", description: "Computers, furniture, etc.", firsCategory: "fixed-assets", taxDeductible: true },
   { code: "1541", name: "Accumulated Depreciation - Equipment", class: "asset", subClass: "fixed-asset", description: "Depreciation on equipment (contra)", firsCategory: "fixed-assets" },
   { code: "1600", name: "Intangible Assets", class: "asset", subClass: "non-current-asset", description: "Software, patents, goodwill", firsCategory: "intangible-assets" },
+  { code: "1610", name: "Deferred Tax Asset", class: "asset", subClass: "non-current-asset", description: "Tax recoverable in future periods", firsCategory: "non-current-assets" },
   
   // ===== LIABILITIES (2000-2999) =====
   // Current Liabilities (2000-2499)
@@ -98,6 +99,7 @@ export const CHART_OF_ACCOUNTS: ChartOfAccount[] = [
   // Non-Current Liabilities (2500-2999)
   { code: "2500", name: "Long-term Loans", class: "liability", subClass: "non-current-liability", description: "Bank loans payable beyond 12 months", firsCategory: "non-current-liabilities" },
   { code: "2600", name: "Deferred Tax Liability", class: "liability", subClass: "non-current-liability", description: "Tax payable in future periods", firsCategory: "non-current-liabilities" },
+  { code: "2700", name: "Provisions", class: "liability", subClass: "non-current-liability", description: "Obligations of uncertain timing, deductible when paid", firsCategory: "non-current-liabilities" },
   
   // ===== EQUITY (3000-3999) =====
   { code: "3000", name: "Share Capital", class: "equity", subClass: "share-capital", description: "Issued and paid-up share capital", firsCategory: "equity" },
@@ -195,15 +197,16 @@ export interface DepreciationRate {
   rate: number;
   method: "straight-line" | "reducing-balance";
   description: string;
+  initialAllowance?: number; // % of cost claimable in the year of acquisition (CITA Second Schedule)
 }
 
 export const FIRS_DEPRECIATION_RATES: DepreciationRate[] = [
-  { assetClass: "buildings", rate: 5, method: "straight-line", description: "Buildings and structures" },
-  { assetClass: "plant-machinery", rate: 20, method: "reducing-balance", description: "Plant and machinery" },
-  { assetClass: "motor-vehicles", rate: 25, method: "reducing-balance", description: "Motor vehicles" },
-  { assetClass: "furniture-fittings", rate: 20, method: "reducing-balance", description: "Furniture and fittings" },
-  { assetClass: "computers", rate: 25, method: "reducing-balance", description: "Computer equipment" },
-  { assetClass: "office-equipment", rate: 20, method: "reducing-balance", description: "Office equipment" },
+  { assetClass: "buildings", rate: 5, method: "straight-line", description: "Buildings and structures", initialAllowance: 15 },
+  { assetClass: "plant-machinery", rate: 20, method: "reducing-balance", description: "Plant and machinery", initialAllowance: 50 },
+  { assetClass: "motor-vehicles", rate: 25, method: "reducing-balance", description: "Motor vehicles", initialAllowance: 50 },
+  { assetClass: "furniture-fittings", rate: 20, method: "reducing-balance", description: "Furniture and fittings", initialAllowance: 25 },
+  { assetClass: "computers", rate: 25, method: "reducing-balance", description: "Computer equipment", initialAllowance: 50 },
+  { assetClass: "office-equipment", rate: 20, method: "reducing-balance", description: "Office equipment", initialAllowance: 50 },
 ];
 
 // ============================================================================
@@ -0,0 +1,524 @@
+/**
+ * Subledgers Module
+ * Customer (receivables) and supplier (payables) subledgers behind the trade
+ * control accounts. Invoices, bills and credit notes raise or reduce what a
+ * party owes; payments are allocated to the documents they settle, in part or
+ * in full. The control account balance in the general ledger must always equal
+ * the total of its subledger. The functions here work on a SubledgerState
+ * alone, so the engine and the server's ledger store keep their copies alike.
+ */
+
+import { JournalEntry, PaymentMethod } from "./doubleEntry";
+import { StatusError } from "../errors";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type SubledgerKind = "receivable" | "payable";
+
+export interface TradeParty {
+  id: string;
+  kind: SubledgerKind; // receivable = customer, payable = supplier
+  name: string;
+  paymentTermsDays: number;
+  tin?: string;
+  address?: string;
+  email?: string;
+  withholdsTax?: boolean; // customers that deduct WHT when they pay
+  createdAt: string;
+}
+
+export interface TradeDocument {
+  id: string;
+  kind: SubledgerKind;
+  type: "invoice" | "bill" | "credit_note" | "opening_balance";
+  number: string;
+  partyId: string;
+  date: string;
+  dueDate: string;
+  description: string;
+  netAmount: number;
+  vatAmount: number;
+  amount: number; // gross, what the party owes or is owed
+  appliesTo?: string; // credit notes: the invoice or bill they reduce
+  journalId?: string; // none for a balance brought forward
+  status: "open" | "void";
+}
+
+export interface PaymentAllocation {
+  documentId: string;
+  amount: number;
+}
+
+export interface TradePayment {
+  id: string;
+  kind: SubledgerKind;
+  number: string;
+  partyId: string;
+  date: string;
+  amount: number;
+  method: PaymentMethod;
+  allocations: PaymentAllocation[];
+  journalId: string;
+  status: "posted" | "void";
+}
+
+export interface SubledgerState {
+  parties: TradeParty[];
+  documents: TradeDocument[];
+  payments: TradePayment[];
+}
+
+export interface AgeingBuckets {
+  current: number; // not yet due
+  days1to30: number;
+  days31to60: number;
+  days61to90: number;
+  over90: number;
+  unallocated: number; // payments and credit notes not yet applied (negative)
+  total: number;
+}
+
+export interface AgeingReport {
+  kind: SubledgerKind;
+  asOf: string;
+  rows: Array<{ partyId: string; partyName: string } & AgeingBuckets>;
+  totals: AgeingBuckets;
+}
+
+export interface ControlReconciliation {
+  kind: SubledgerKind;
+  controlAccount: string;
+  controlBalance: number;
+  subledgerBalance: number;
+  difference: number;
+  reconciled: boolean;
+}
+
+export class SubledgerError extends StatusError {
+  name = "SubledgerError";
+}
+
+export const CONTROL_ACCOUNTS: Record<SubledgerKind, { code: string; name: string }> = {
+  receivable: { code: "1100", name: "Accounts Receivable" },
+  payable: { code: "2000", name: "Accounts Payable" },
+};
+
+export const DEFAULT_PAYMENT_TERMS_DAYS = 30;
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const addDays = (date: string, days: number) =>
+  new Date(Date.parse(date) + days * DAY_MS).toISOString().slice(0, 10);
+
+export function emptySubledgers(): SubledgerState {
+  return { parties: [], documents: [], payments: [] };
+}
+
+// Balances brought forward from books kept before the subledgers existed are
+// held under one party per kind, with fixed ids so every copy of the books
+// opens them the same way
+export const OPENING_BALANCE_RECORDS: Record<SubledgerKind, { partyId: string; documentId: string }> = {
+  receivable: { partyId: "CUS-000", documentId: "OB-AR" },
+  payable: { partyId: "SUP-000", documentId: "OB-AP" },
+};
+
+// ============================================================================
+// RECORDS
+// ============================================================================
+
+export function findTradeParty(state: SubledgerState, kind: SubledgerKind, name: string): TradeParty | undefined {
+  return state.parties.find((party) => party.kind === kind && party.name.toLowerCase() === name.trim().toLowerCase());
+}
+
+/**
+ * CUS-### or SUP-###, one past the highest in use
+ */
+export function nextPartyId(state: SubledgerState, kind: SubledgerKind): string {
+  const prefix = kind === "receivable" ? "CUS" : "SUP";
+  const last = Math.max(
+    0,
+    ...state.parties.filter((party) => party.id.startsWith(`${prefix}-`)).map((party) => Number(party.id.slice(4)) || 0)
+  );
+  return `${prefix}-${String(last + 1).padStart(3, "0")}`;
+}
+
+export function nextTradeNumber(prefix: string, records: Array<{ number: string }>): string {
+  const count = records.filter((record) => record.number.startsWith(`${prefix}-`)).length;
+  return `${prefix}-${String(count + 1).padStart(4, "0")}`;
+}
+
+/**
+ * Mirror a journal's movement on a control account in the subledger: a debit
+ * to receivables (credit to payables) is an invoice (bill), the reverse a
+ * return or a settlement. The counterparty is matched by name and added if
+ * new. Returns the records added to `state`.
+ */
+export function recordTradeFromJournal(
+  state: SubledgerState,
+  entry: JournalEntry,
+  counterparty: string | undefined,
+  method: PaymentMethod
+): SubledgerState {
+  const added = emptySubledgers();
+  (Object.keys(CONTROL_ACCOUNTS) as SubledgerKind[]).forEach((kind) => {
+    const receivable = kind === "receivable";
+    const movement = round2(
+      entry.lines
+        .filter((line) => line.accountCode === CONTROL_ACCOUNTS[kind].code)
+        .reduce((sum, line) => sum + (receivable ? line.debit - line.credit : line.credit - line.debit), 0)
+    );
+    if (movement === 0) return;
+
+    const name = counterparty?.trim() || (receivable ? "Unnamed customer" : "Unnamed supplier");
+    let party = findTradeParty(state, kind, name);
+    if (!party) {
+      party = {
+        id: nextPartyId(state, kind),
+        kind,
+        name,
+        paymentTermsDays: DEFAULT_PAYMENT_TERMS_DAYS,
+        createdAt: new Date().toISOString(),
+      };
+      state.parties.push(party);
+      added.parties.push(party);
+    }
+    const partyId = party.id;
+
+    if (movement < 0 && !["sale-return", "purchase-return"].includes(entry.transactionType)) {
+      const amount = -movement;
+      const number = nextTradeNumber(receivable ? "RCT" : "PAY", state.payments);
+      const payment: TradePayment = {
+        id: number,
+        kind,
+        number,
+        partyId,
+        date: entry.date,
+        amount,
+        method,
+        allocations: allocateOldestFirst(state, partyId, amount),
+        journalId: entry.id,
+        status: "posted",
+      };
+      state.payments.push(payment);
+      added.payments.push(payment);
+      return;
+    }
+
+    const vatCode = receivable ? "2200" : "1400";
+    const vatAmount = entry.lines
+      .filter((line) => line.accountCode === vatCode)
+      .reduce((sum, line) => sum + line.debit + line.credit, 0);
+    const amount = Math.abs(movement);
+    const type = movement < 0 ? "credit_note" : receivable ? "invoice" : "bill";
+    const number = nextTradeNumber(
+      type === "credit_note" ? (receivable ? "CN" : "SCN") : receivable ? "INV" : "BILL",
+      state.documents
+    );
+    const document: TradeDocument = {
+      id: number,
+      kind,
+      type,
+      number,
+      partyId,
+      date: entry.date,
+      dueDate: type === "credit_note" ? entry.date : addDays(entry.date, party.paymentTermsDays),
+      description: entry.narration,
+      netAmount: round2(amount - vatAmount),
+      vatAmount,
+      amount,
+      journalId: entry.id,
+      status: "open",
+    };
+    state.documents.push(document);
+    added.documents.push(document);
+  });
+  return added;
+}
+
+/**
+ * A reversed or voided journal takes its subledger record with it. Payments
+ * allocated to a voided invoice or bill go back on account, as do credit
+ * notes applied to it. Returns the records changed in `state`.
+ */
+export function releaseTradeRecords(state: SubledgerState, journalId: string): Pick<SubledgerState, "documents" | "payments"> {
+  const changedDocuments = new Set<TradeDocument>();
+  const changedPayments = new Set<TradePayment>();
+  state.documents
+    .filter((document) => document.journalId === journalId && document.status === "open")
+    .forEach((document) => {
+      document.status = "void";
+      changedDocuments.add(document);
+      state.payments
+        .filter((payment) => payment.allocations.some((allocation) => allocation.documentId === document.id))
+        .forEach((payment) => {
+          payment.allocations = payment.allocations.filter((allocation) => allocation.documentId !== document.id);
+          changedPayments.add(payment);
+        });
+      state.documents
+        .filter((note) => note.appliesTo === document.id)
+        .forEach((note) => {
+          delete note.appliesTo;
+          changedDocuments.add(note);
+        });
+    });
+  state.payments
+    .filter((payment) => payment.journalId === journalId && payment.status === "posted")
+    .forEach((payment) => {
+      payment.status = "void";
+      changedPayments.add(payment);
+    });
+  return { documents: Array.from(changedDocuments), payments: Array.from(changedPayments) };
+}
+
+/**
+ * Brings a control account balance that no subledger record explains into the
+ * subledger as one balance brought forward, dated `date`. Receipts and
+ * payments can then be allocated to it like any invoice or bill. Returns the
+ * records added to `state`.
+ */
+export function openTradeBalance(
+  state: SubledgerState,
+  kind: SubledgerKind,
+  controlBalance: number,
+  date: string
+): SubledgerState {
+  const added = emptySubledgers();
+  const { partyId, documentId } = OPENING_BALANCE_RECORDS[kind];
+  const amount = round2(controlBalance - subledgerBalance(state, kind));
+  if (amount === 0 || state.documents.some((document) => document.id === documentId)) return added;
+
+  if (!state.parties.some((party) => party.id === partyId)) {
+    const party: TradeParty = {
+      id: partyId,
+      kind,
+      name: kind === "receivable" ? "Opening balances (customers)" : "Opening balances (suppliers)",
+      paymentTermsDays: 0,
+      createdAt: new Date().toISOString(),
+    };
+    state.parties.push(party);
+    added.parties.push(party);
+  }
+  const document: TradeDocument = {
+    id: documentId,
+    kind,
+    type: "opening_balance",
+    number: documentId,
+    partyId,
+    date,
+    dueDate: date,
+    description: "Balance brought forward",
+    netAmount: amount,
+    vatAmount: 0,
+    amount,
+    status: "open",
+  };
+  state.documents.push(document);
+  added.documents.push(document);
+  return added;
+}
+
+// ============================================================================
+// BALANCES
+// ============================================================================
+
+const livePayments = (state: SubledgerState) => state.payments.filter((payment) => payment.status === "posted");
+const liveDocuments = (state: SubledgerState) => state.documents.filter((document) => document.status === "open");
+
+/**
+ * What is still owed on an invoice or bill after payments and credit notes
+ * applied to it, counting only those dated on or before `asOf` when given.
+ * Credit notes themselves report their unapplied amount as a negative figure.
+ */
+export function outstandingAmount(state: SubledgerState, documentId: string, asOf?: string): number {
+  const document = state.documents.find((d) => d.id === documentId);
+  if (!document || document.status === "void") return 0;
+  if (document.type === "credit_note") {
+    return document.appliesTo ? 0 : -document.amount;
+  }
+
+  const byDate = (record: { date: string }) => !asOf || record.date <= asOf;
+  const paid = livePayments(state)
+    .filter(byDate)
+    .flatMap((payment) => payment.allocations)
+    .filter((allocation) => allocation.documentId === documentId)
+    .reduce((sum, allocation) => sum + allocation.amount, 0);
+  const credited = liveDocuments(state)
+    .filter((d) => d.type === "credit_note" && d.appliesTo === documentId && byDate(d))
+    .reduce((sum, d) => sum + d.amount, 0);
+  return round2(document.amount - paid - credited);
+}
+
+/**
+ * What is left of a payment after its allocations. Given `asOf`, allocations
+ * to invoices or bills dated after it are not counted: the money was still on
+ * account then.
+ */
+export function unallocatedAmount(payment: TradePayment, state?: SubledgerState, asOf?: string): number {
+  const allocations = payment.allocations.filter((allocation) => {
+    if (!state || !asOf) return true;
+    const document = state.documents.find((d) => d.id === allocation.documentId);
+    return !document || document.date <= asOf;
+  });
+  return round2(payment.amount - allocations.reduce((sum, allocation) => sum + allocation.amount, 0));
+}
+
+export function partyBalance(state: SubledgerState, partyId: string): number {
+  const documents = liveDocuments(state)
+    .filter((document) => document.partyId === partyId)
+    .reduce((sum, document) => sum + outstandingAmount(state, document.id), 0);
+  const payments = livePayments(state)
+    .filter((payment) => payment.partyId === partyId)
+    .reduce((sum, payment) => sum + unallocatedAmount(payment), 0);
+  return round2(documents - payments);
+}
+
+export function subledgerBalance(state: SubledgerState, kind: SubledgerKind): number {
+  return round2(
+    state.parties
+      .filter((party) => party.kind === kind)
+      .reduce((sum, party) => sum + partyBalance(state, party.id), 0)
+  );
+}
+
+// ============================================================================
+// ALLOCATION
+// ============================================================================
+
+/**
+ * Spreads `amount` over the party's open invoices or bills, earliest due
+ * first. Whatever is left stays unallocated on account.
+ */
+export function allocateOldestFirst(state: SubledgerState, partyId: string, amount: number): PaymentAllocation[] {
+  const allocations: PaymentAllocation[] = [];
+  let remaining = round2(amount);
+  liveDocuments(state)
+    .filter((document) => document.partyId === partyId && document.type !== "credit_note")
+    .sort((a, b) => a.dueDate.localeCompare(b.dueDate) || a.date.localeCompare(b.date))
+    .forEach((document) => {
+      const open = outstandingAmount(state, document.id);
+      if (remaining <= 0 || open <= 0) return;
+      const applied = Math.min(open, remaining);
+      allocations.push({ documentId: document.id, amount: round2(applied) });
+      remaining = round2(remaining - applied);
+    });
+  return allocations;
+}
+
+/**
+ * Throws unless every allocation is to an open invoice or bill of the same
+ * party, within what is outstanding, and together within `available`
+ */
+export function validateAllocations(
+  state: SubledgerState,
+  partyId: string,
+  allocations: PaymentAllocation[],
+  available: number
+): void {
+  let total = 0;
+  for (const allocation of allocations) {
+    const document = state.documents.find((d) => d.id === allocation.documentId);
+    if (!document || document.partyId !== partyId || document.type === "credit_note" || document.status === "void") {
+      throw new SubledgerError(`${allocation.documentId} is not an open invoice or bill of this party`);
+    }
+    if (!(allocation.amount > 0)) {
+      throw new SubledgerError(`Allocation to ${document.number} must be positive`);
+    }
+    if (round2(allocation.amount) > outstandingAmount(state, document.id)) {
+      throw new SubledgerError(`${document.number} has only ₦${outstandingAmount(state, document.id).toLocaleString()} outstanding`);
+    }
+    total += allocation.amount;
+  }
+  if (round2(total) > round2(available)) {
+    throw new SubledgerError(`Allocations of ₦${round2(total).toLocaleString()} exceed the ₦${round2(available).toLocaleString()} available`);
+  }
+}
+
+// ============================================================================
+// REPORTS
+// ============================================================================
+
+const emptyBuckets = (): AgeingBuckets => ({
+  current: 0,
+  days1to30: 0,
+  days31to60: 0,
+  days61to90: 0,
+  over90: 0,
+  unallocated: 0,
+  total: 0,
+});
+
+/**
+ * Outstanding invoices or bills by days past their due date at `asOf`, per
+ * party. Only documents and payments dated on or before `asOf` are counted, so
+ * a past date gives the ageing as it stood then. Unapplied payments and
+ * credit notes are shown separately.
+ */
+export function buildAgeingReport(state: SubledgerState, kind: SubledgerKind, asOf: string): AgeingReport {
+  const totals = emptyBuckets();
+  const rows = state.parties
+    .filter((party) => party.kind === kind)
+    .map((party) => {
+      const buckets = emptyBuckets();
+      liveDocuments(state)
+        .filter((document) => document.partyId === party.id && document.date <= asOf)
+        .forEach((document) => {
+          const open = outstandingAmount(state, document.id, asOf);
+          if (open === 0) return;
+          if (open < 0) {
+            buckets.unallocated += open;
+            return;
+          }
+          const daysPastDue = Math.round((Date.parse(asOf) - Date.parse(document.dueDate)) / DAY_MS);
+          if (daysPastDue <= 0) buckets.current += open;
+          else if (daysPastDue <= 30) buckets.days1to30 += open;
+          else if (daysPastDue <= 60) buckets.days31to60 += open;
+          else if (daysPastDue <= 90) buckets.days61to90 += open;
+          else buckets.over90 += open;
+        });
+      livePayments(state)
+        .filter((payment) => payment.partyId === party.id && payment.date <= asOf)
+        .forEach((payment) => {
+          buckets.unallocated -= unallocatedAmount(payment, state, asOf);
+        });
+
+      (Object.keys(buckets) as (keyof AgeingBuckets)[]).forEach((key) => {
+        buckets[key] = round2(buckets[key]);
+      });
+      buckets.total = round2(
+        buckets.current + buckets.days1to30 + buckets.days31to60 + buckets.days61to90 + buckets.over90 + buckets.unallocated
+      );
+      (Object.keys(totals) as (keyof AgeingBuckets)[]).forEach((key) => {
+        totals[key] = round2(totals[key] + buckets[key]);
+      });
+      return { partyId: party.id, partyName: party.name, ...buckets };
+    })
+    .filter((row) => row.total !== 0 || row.unallocated !== 0);
+
+  return { kind, asOf, rows, totals };
+}
+
+/**
+ * Control account balance in the ledger against the total of its subledger
+ */
+export function reconcileControlAccount(
+  state: SubledgerState,
+  kind: SubledgerKind,
+  ledgerBalance: number
+): ControlReconciliation {
+  const control = CONTROL_ACCOUNTS[kind];
+  const controlBalance = round2(ledgerBalance || 0);
+  const subledger = subledgerBalance(state, kind);
+  const difference = round2(controlBalance - subledger);
+  return {
+    kind,
+    controlAccount: control.code,
+    controlBalance,
+    subledgerBalance: subledger,
+    difference,
+    reconciled: difference === 0,
+  };
+}
@@ -1,18 +1,237 @@
+/**
+ * Tax Bridge Module
+ * Turns the accounting profit from the statements into the profit assessable
+ * to CIT. Expenses the tax law does not allow are added back, income that is
+ * not taxable is deducted, and capital allowances replace depreciation. Every
+ * adjustment names the ledger accounts it came from.
+ */
+
+import { CapitalAllowanceSummary, FixedAssetRecord } from "../types";
+import { computeCapitalAllowances } from "../taxRules/capitalAllowances";
+import { LedgerAccount } from "./doubleEntry";
 import { StatementDraft, TaxDraftPayload } from "./types";
 
-export function statementToTaxDraft(statement: StatementDraft): TaxDraftPayload {
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type TaxAdjustmentKind = "add_back" | "deduction";
+
+export interface TaxAdjustment {
+  id: string;
+  kind: TaxAdjustmentKind;
+  label: string;
+  amount: number;
+  accountCodes: string[];
+  basis: string; // why the law treats it differently from the books
+}
+
+export interface TaxAdjustedProfitSchedule {
+  taxYear: number;
+  period?: StatementDraft["period"];
+  accountingProfit: number;
+  addBacks: TaxAdjustment[];
+  deductions: TaxAdjustment[];
+  totalAddBacks: number;
+  totalDeductions: number;
+  adjustedProfit: number; // before capital allowances
+  nonTaxableIncome: number;
+  capitalAllowances?: CapitalAllowanceSummary;
+  assessableProfit: number; // adjusted profit + balancing charges - allowances claimed
+  notes: string[];
+}
+
+export interface TaxAdjustedProfitOptions {
+  taxYear: number;
+  fixedAssets?: FixedAssetRecord[]; // register the capital allowances come from
+  capitalAllowance?: number; // manual figure, used when no register is supplied
+  unabsorbedCapitalAllowance?: number;
+  restrictionRate?: number; // share of profit allowances may absorb, where the rulebook restricts them
+}
+
+// ============================================================================
+// ADJUSTMENT RULES
+// ============================================================================
+
+interface AdjustmentRule {
+  id: string;
+  label: string;
+  accountCodes: string[];
+  basis: string;
+}
+
+// Expenses charged in the books that are never deductible
+export const DISALLOWED_EXPENSES: AdjustmentRule[] = [
+  { id: "DEPRECIATION", label: "Depreciation and amortisation", accountCodes: ["5700", "5710"], basis: "Replaced by capital allowances (CITA Second Schedule)" },
+  { id: "FINES", label: "Fines and penalties", accountCodes: ["6060"], basis: "Not incurred in producing profits (CITA s.27)" },
+  { id: "INCOME_TAX", label: "Income tax charged", accountCodes: ["7000", "7010", "7020"], basis: "Tax on profits is not deductible (CITA s.27)" },
+];
+
+// Provisions are deductible when paid or written off, not when charged
+export const GENERAL_PROVISIONS: AdjustmentRule = {
+  id: "PROVISIONS",
+  label: "Movement in general provisions",
+  accountCodes: ["1110", "2700"],
+  basis: "Only amounts actually incurred are deductible (CITA s.24)",
+};
+
+export const DONATIONS: AdjustmentRule = {
+  id: "DONATIONS",
+  label: "Donations above the deductible limit",
+  accountCodes: ["6050"],
+  basis: "Deductible up to 10% of total profits before the donations (CITA s.25)",
+};
+
+export const DONATION_LIMIT_RATE = 0.1;
+
+// Income credited in the books that is not taxed as trading profit
+export const NON_TAXABLE_INCOME: AdjustmentRule[] = [
+  { id: "DIVIDENDS", label: "Dividend income", accountCodes: ["4210"], basis: "Franked investment income (CITA s.80)" },
+  { id: "DISPOSAL_GAINS", label: "Gain on asset disposal", accountCodes: ["4300"], basis: "Taxed through balancing charges and CGT, not as profit" },
+];
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+// ============================================================================
+// SCHEDULE
+// ============================================================================
+
+/**
+ * Adjusted profit schedule from the statements and the ledger balances behind
+ * them. Balances are read as at the statement date; opening balances are taken
+ * as the position brought forward when measuring provision movements.
+ */
+export function buildTaxAdjustedProfit(
+  statement: StatementDraft,
+  ledgerAccounts: Map<string, LedgerAccount>,
+  options: TaxAdjustedProfitOptions
+): TaxAdjustedProfitSchedule {
+  const balance = (code: string) => ledgerAccounts.get(code)?.closingBalance || 0;
+  const total = (codes: string[]) => round2(codes.reduce((sum, code) => sum + balance(code), 0));
+  const withBalances = (codes: string[]) => codes.filter((code) => balance(code) !== 0);
+
+  const addBacks: TaxAdjustment[] = [];
+  const deductions: TaxAdjustment[] = [];
+  const adjust = (rule: AdjustmentRule, amount: number, codes = withBalances(rule.accountCodes), label = rule.label) => {
+    const rounded = round2(amount);
+    if (rounded === 0) return;
+    const adjustment = { id: rule.id, label, accountCodes: codes, basis: rule.basis };
+    if (rounded > 0) {
+      addBacks.push({ ...adjustment, kind: "add_back", amount: rounded });
+    } else {
+      deductions.push({ ...adjustment, kind: "deduction", amount: -rounded });
+    }
+  };
+
+  DISALLOWED_EXPENSES.forEach((rule) => adjust(rule, total(rule.accountCodes)));
+
+  // Contra balances (doubtful debts) are read as provisions whatever their sign
+  const provisionMovement = GENERAL_PROVISIONS.accountCodes.reduce((sum, code) => {
+    const account = ledgerAccounts.get(code);
+    return sum + Math.abs(account?.closingBalance || 0) - Math.abs(account?.openingBalance || 0);
+  }, 0);
+  adjust(
+    GENERAL_PROVISIONS,
+    provisionMovement,
+    undefined,
+    provisionMovement < 0 ? "Provisions utilised or released" : GENERAL_PROVISIONS.label
+  );
+
+  NON_TAXABLE_INCOME.forEach((rule) => adjust(rule, -total(rule.accountCodes)));
+  const nonTaxableIncome = round2(NON_TAXABLE_INCOME.reduce((sum, rule) => sum + total(rule.accountCodes), 0));
+
+  // Donations are limited by the profit before them, after every other adjustment
+  const donations = total(DONATIONS.accountCodes);
+  const profitBeforeDonations = statement.netIncome
+    + addBacks.reduce((sum, a) => sum + a.amount, 0)
+    - deductions.reduce((sum, d) => sum + d.amount, 0)
+    + donations;
+  const donationLimit = Math.max(0, profitBeforeDonations * DONATION_LIMIT_RATE);
+  adjust(DONATIONS, Math.max(0, donations - donationLimit));
+
+  const totalAddBacks = round2(addBacks.reduce((sum, a) => sum + a.amount, 0));
+  const totalDeductions = round2(deductions.reduce((sum, d) => sum + d.amount, 0));
+  const adjustedProfit = round2(statement.netIncome + totalAddBacks - totalDeductions);
+
+  const capitalAllowances = computeCapitalAllowances(options, {
+    taxYear: options.taxYear,
+    profitBeforeAllowances: adjustedProfit,
+    restrictionRate: options.restrictionRate,
+  });
+  const assessableProfit = capitalAllowances
+    ? round2(Math.max(0, adjustedProfit + capitalAllowances.balancingCharges) - capitalAllowances.allowanceClaimed)
+    : adjustedProfit;
+
+  const notes: string[] = [];
+  if (donations > 0 && donations <= donationLimit) {
+    notes.push(`Donations of ₦${donations.toLocaleString()} are within the 10% limit and remain deductible, provided the recipients are approved bodies.`);
+  }
+  if (total(["5700", "5710"]) > 0 && !capitalAllowances) {
+    notes.push("Depreciation was added back but no fixed asset register or capital allowance figure was supplied.");
+  }
+  if (capitalAllowances && capitalAllowances.unabsorbedCarriedForward > 0) {
+    notes.push(`Unabsorbed capital allowances of ₦${capitalAllowances.unabsorbedCarriedForward.toLocaleString()} carried forward.`);
+  }
+  if (adjustedProfit < 0) {
+    notes.push(`Adjusted loss of ₦${Math.abs(adjustedProfit).toLocaleString()} available for relief against future profits.`);
+  }
+
+  return {
+    taxYear: options.taxYear,
+    period: statement.period,
+    accountingProfit: round2(statement.netIncome),
+    addBacks,
+    deductions,
+    totalAddBacks,
+    totalDeductions,
+    adjustedProfit,
+    nonTaxableIncome,
+    capitalAllowances,
+    assessableProfit,
+    notes,
+  };
+}
+
+/**
+ * Tax calculator draft from the statements. With an adjusted profit schedule
+ * the draft carries the tax-adjusted figures and the capital allowances
+ * available; without one it carries the book figures as they are.
+ */
+export function statementToTaxDraft(statement: StatementDraft, schedule?: TaxAdjustedProfitSchedule): TaxDraftPayload {
+  if (!schedule) {
+    return {
+      profile: {
+        taxpayerType: "company",
+        taxYear: new Date().getFullYear(),
+      },
+      inputs: {
+        grossRevenue: statement.revenue,
+        allowableExpenses: statement.operatingExpenses,
+        turnover: statement.revenue,
+        costOfSales: statement.costOfSales,
+        operatingExpenses: statement.operatingExpenses,
+      },
+      statement,
+    };
+  }
+
+  const grossRevenue = round2(statement.revenue - schedule.nonTaxableIncome);
+  const balancingCharges = schedule.capitalAllowances?.balancingCharges || 0;
+  const allowableExpenses = round2(grossRevenue - schedule.adjustedProfit - balancingCharges);
   return {
     profile: {
       taxpayerType: "company",
-      taxYear: new Date().getFullYear(),
+      taxYear: schedule.taxYear,
     },
     inputs: {
-      grossRevenue: statement.revenue,
-      allowableExpenses: statement.operatingExpenses,
-      turnover: statement.revenue,
+      grossRevenue,
+      allowableExpenses,
+      turnover: grossRevenue,
       costOfSales: statement.costOfSales,
-      operatingExpenses: statement.operatingExpenses,
+      operatingExpenses: round2(allowableExpenses - statement.costOfSales),
+      capitalAllowance: schedule.capitalAllowances?.totalAvailable,
     },
     statement,
+    adjustedProfit: schedule,
   };
 }
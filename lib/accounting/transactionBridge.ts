@@ -5,7 +5,15 @@
  * Flow: User Input → Parse → Classify → Journal Entry → Ledger → Workspace → Dashboard
  */
 
-import { RawTransaction, StatementDraft } from "./types";
+import {
+  DEFAULT_ACCOUNTING_CONFIG,
+  FiscalPeriod,
+  FiscalPeriodEvent,
+  JournalAuditEvent,
+  RawTransaction,
+  StatementDraft,
+  SyncRejection,
+} from "./types";
 import {
   JournalEntry,
   JournalLine,
@@ -22,6 +30,72 @@ import {
   getNormalBalance,
   AccountType,
 } from "./doubleEntry";
+import { classifyVATSupply, vatSupplyMemo, VATSupplyType } from "../taxRules/vatClassification";
+import {
+  ASSET_CLASS_ACCOUNTS,
+  DeferredTaxOptions,
+  DeferredTaxReconciliation,
+  buildDeferredTaxJournal,
+  computeDeferredTax,
+} from "./deferredTax";
+import type { FixedAssetRecord } from "../types";
+import { TaxAdjustedProfitOptions, TaxAdjustedProfitSchedule, buildTaxAdjustedProfit } from "./taxBridge";
+import type { LedgerSnapshot } from "./ledgerStore";
+import {
+  DEFAULT_FISCAL_YEAR_END,
+  FiscalPeriodError,
+  assertPeriodOpen,
+  buildFiscalPeriods,
+  fiscalYearOf,
+  transitionPeriod,
+  validateFiscalYearEnd,
+} from "./fiscalPeriods";
+import {
+  JournalCorrectionError,
+  assertReversible,
+  auditEvent,
+  buildReversalEntry,
+  dueAccrualReversals,
+} from "./journalCorrections";
+import {
+  AgeingReport,
+  CONTROL_ACCOUNTS,
+  ControlReconciliation,
+  DEFAULT_PAYMENT_TERMS_DAYS,
+  PaymentAllocation,
+  SubledgerError,
+  SubledgerKind,
+  SubledgerState,
+  TradeDocument,
+  TradeParty,
+  TradePayment,
+  addDays,
+  allocateOldestFirst,
+  buildAgeingReport,
+  emptySubledgers,
+  findTradeParty,
+  nextPartyId,
+  nextTradeNumber,
+  openTradeBalance,
+  outstandingAmount,
+  reconcileControlAccount,
+  recordTradeFromJournal,
+  releaseTradeRecords,
+  unallocatedAmount,
+  validateAllocations,
+} from "./subledgers";
+import {
+  InvoiceProduct,
+  InvoicingError,
+  SalesInvoice,
+  SalesInvoiceLineInput,
+  buildSalesInvoice,
+  invoiceCostOfSales,
+  invoiceJournalLines,
+  invoiceNarration,
+  invoiceTradeDocument,
+  nextSalesInvoiceNumber,
+} from "./invoicing";
 
 // ============================================================================
 // ACCOUNTING ENGINE STATE
@@ -41,18 +115,51 @@ export interface AccountingState {
   journalEntries: JournalEntry[];
   ledgerAccounts: Map<string, LedgerAccount>;
   customAccounts: CustomAccount[];
+  deferredTax?: DeferredTaxReconciliation; // last recognised, disclosed with the statements
+  fixedAssets: FixedAssetRecord[]; // register the deferred tax bases come from
+  fiscalYearEnd: string; // MM-DD
+  fiscalPeriods: FiscalPeriod[];
+  periodEvents: FiscalPeriodEvent[];
+  auditLog: JournalAuditEvent[]; // append-only
+  subledgers: SubledgerState; // customers and suppliers behind the trade control accounts
+  salesInvoices: SalesInvoice[];
+  syncRejections: SyncRejection[]; // refused by the server, waiting for the user
   lastUpdated: string;
 }
 
+// Period events carry no id; the period, action and time identify one
+const periodEventKey = (event: FiscalPeriodEvent) => `${event.periodId}:${event.action}:${event.at}`;
+
+const tradeRecordKey = (collection: keyof SubledgerState, id: string) => `${collection}:${id}`;
+
 class AccountingEngine {
   private state: AccountingState;
   private listeners: Set<(state: AccountingState) => void> = new Set();
+  // Journals and custom accounts the server already holds
+  private syncedJournalIds: Set<string> = new Set();
+  private syncedAccountCodes: Set<string> = new Set();
+  // Period closes, locks and reopens the server has taken or refused, and the
+  // year end it last reported (unknown until the first sync)
+  private syncedPeriodEvents: Set<string> = new Set();
+  private serverFiscalYearEnd?: string;
+  // Subledger records as the server last had them, by collection and id
+  private syncedTradeRecords: Map<string, string> = new Map();
+  // Pushes run one after another, across saves as well
+  private pushQueue: Promise<unknown> = Promise.resolve();
 
   constructor() {
     this.state = {
       journalEntries: [],
       ledgerAccounts: new Map(),
       customAccounts: [],
+      fixedAssets: [],
+      fiscalYearEnd: DEFAULT_FISCAL_YEAR_END,
+      fiscalPeriods: [],
+      periodEvents: [],
+      auditLog: [],
+      subledgers: emptySubledgers(),
+      salesInvoices: [],
+      syncRejections: [],
       lastUpdated: new Date().toISOString(),
     };
     this.initializeLedger();
@@ -99,9 +206,329 @@ class AccountingEngine {
       journalEntries: this.state.journalEntries,
       ledgerAccounts: Array.from(this.state.ledgerAccounts.entries()),
       customAccounts: this.state.customAccounts,
+      deferredTax: this.state.deferredTax,
+      fixedAssets: this.state.fixedAssets,
+      fiscalYearEnd: this.state.fiscalYearEnd,
+      fiscalPeriods: this.state.fiscalPeriods,
+      periodEvents: this.state.periodEvents,
+      auditLog: this.state.auditLog,
+      subledgers: this.state.subledgers,
+      salesInvoices: this.state.salesInvoices,
+      syncRejections: this.state.syncRejections,
       lastUpdated: this.state.lastUpdated,
     };
     window.localStorage.setItem("insight::accounting-engine", JSON.stringify(serializable));
+    this.pushToServer();
+  }
+
+  // Send custom accounts and journals the server has not seen yet; the server
+  // writes the audit log as it posts them. Anything it refuses as invalid is
+  // set aside for the user instead of being sent again on every save.
+  private pushToServer() {
+    if (typeof window === "undefined" || typeof fetch === "undefined") return;
+
+    const rejected = (kind: SyncRejection["kind"], id: string) =>
+      this.state.syncRejections.some((rejection) => rejection.kind === kind && rejection.id === id);
+    // `keys` are the records the request carries; a refusal is filed under the first
+    const send = (url: string, body: unknown, synced: Set<string>, kind: SyncRejection["kind"], keys: string[]) => {
+      keys.forEach((key) => synced.add(key));
+      const unmark = () => keys.forEach((key) => synced.delete(key));
+      return fetch(url, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+      })
+        .then(async (res) => {
+          if (res.ok) return;
+          const data = await res.json().catch(() => ({}));
+          // The server already holds this very record
+          if (res.status === 409 && data.code === "duplicate") return;
+          unmark();
+          // 409: at odds with the server's books, e.g. the original is already
+          // voided there; 422: dated in a period the server has closed
+          if (res.status === 400 || res.status === 409 || res.status === 422) {
+            this.rejectSync({ kind, id: keys[0], error: data.error || "Rejected by the server", at: new Date().toISOString() });
+          }
+        })
+        .catch(unmark);
+    };
+
+    // Reversals made here go to the reverse handler with their reason, taking
+    // the corrected entry along if there is one. Void contras are posted as
+    // they are: the server logs the void from the voided original.
+    const pushJournal = (entry: JournalEntry) => {
+      const reversal = this.state.auditLog.find((event) => event.action === "reverse" && event.relatedJournalId === entry.id);
+      if (!reversal) {
+        return send("/api/ledger/journals", { ...entry, trade: this.tradeRecordsOf(entry.id) }, this.syncedJournalIds, "journal", [entry.id]);
+      }
+      const correction = this.state.auditLog.find((event) => event.id === `${reversal.journalId}:correct`);
+      const corrected = this.state.journalEntries.find((candidate) => candidate.id === correction?.relatedJournalId);
+      return send(
+        `/api/ledger/journals/${encodeURIComponent(reversal.journalId)}/reverse`,
+        { reason: reversal.reason, by: reversal.by, date: entry.date, reversalId: entry.id, ...(corrected ? { corrected } : {}) },
+        this.syncedJournalIds,
+        "journal",
+        corrected ? [entry.id, corrected.id] : [entry.id]
+      );
+    };
+
+    this.state.customAccounts
+      .filter((account) => !this.syncedAccountCodes.has(account.code) && !rejected("account", account.code))
+      .forEach((account) => send("/api/ledger/accounts", account, this.syncedAccountCodes, "account", [account.code]));
+
+    const correctedIds = new Set(
+      this.state.auditLog.filter((event) => event.action === "correct").map((event) => event.relatedJournalId)
+    );
+    const pending = this.state.journalEntries.filter(
+      (entry) =>
+        entry.status !== "draft" &&
+        !this.syncedJournalIds.has(entry.id) &&
+        !correctedIds.has(entry.id) &&
+        !rejected("journal", entry.id)
+    );
+    pending.forEach((entry) => this.syncedJournalIds.add(entry.id));
+    // One at a time and in order, so an original is on file before the entry
+    // that reverses it. Subledger changes and then period changes follow, so
+    // the journals they refer to are there and a close never refuses an entry
+    // posted before it.
+    this.pushQueue = pending
+      .reduce((previous, entry) => previous.then(() => pushJournal(entry)), this.pushQueue)
+      .then(() => this.pushSubledgersToServer())
+      .then(() => this.pushPeriodsToServer());
+  }
+
+  // A journal's subledger records and their parties travel with it, so the
+  // server never holds a control account movement without them
+  private tradeRecordsOf(journalId: string): SubledgerState {
+    const { parties, documents, payments } = this.state.subledgers;
+    const records = {
+      documents: documents.filter((document) => document.journalId === journalId),
+      payments: payments.filter((payment) => payment.journalId === journalId),
+    };
+    const partyIds = new Set([...records.documents, ...records.payments].map((record) => record.partyId));
+    const trade = { parties: parties.filter((party) => partyIds.has(party.id)), ...records };
+    this.markTradeRecordsSynced(trade);
+    return trade;
+  }
+
+  private markTradeRecordsSynced(records: SubledgerState, synced = true) {
+    (Object.keys(records) as (keyof SubledgerState)[]).forEach((collection) => {
+      records[collection].forEach((record) => {
+        const key = tradeRecordKey(collection, record.id);
+        if (synced) this.syncedTradeRecords.set(key, JSON.stringify(record));
+        else this.syncedTradeRecords.delete(key);
+      });
+    });
+  }
+
+  // New parties, allocations and voids since the last push. Records of
+  // journals the server does not hold wait for them.
+  private async pushSubledgersToServer() {
+    const changed = (collection: keyof SubledgerState) => (record: { id: string; journalId?: string }) =>
+      this.syncedTradeRecords.get(tradeRecordKey(collection, record.id)) !== JSON.stringify(record) &&
+      (!record.journalId || this.syncedJournalIds.has(record.journalId));
+    const { parties, documents, payments } = this.state.subledgers;
+    const changes: SubledgerState = {
+      parties: parties.filter(changed("parties")),
+      documents: documents.filter(changed("documents")),
+      payments: payments.filter(changed("payments")),
+    };
+    if (changes.parties.length + changes.documents.length + changes.payments.length === 0) return;
+
+    this.markTradeRecordsSynced(changes);
+    const res = await fetch("/api/ledger/subledgers", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(changes),
+    }).catch(() => null);
+    if (!res?.ok) {
+      this.markTradeRecordsSynced(changes, false);
+    }
+  }
+
+  // The configured year end, then each close, lock and reopen in the order it
+  // was made. The server applies its own period rules; a change it refuses is
+  // undone by the next sync.
+  private async pushPeriodsToServer() {
+    if (this.serverFiscalYearEnd === undefined) return;
+    const json = { "Content-Type": "application/json" };
+
+    if (this.state.fiscalYearEnd !== this.serverFiscalYearEnd) {
+      const res = await fetch("/api/ledger/periods", {
+        method: "PATCH",
+        headers: json,
+        body: JSON.stringify({ fiscalYearEnd: this.state.fiscalYearEnd }),
+      }).catch(() => null);
+      if (!res?.ok) return;
+      this.serverFiscalYearEnd = this.state.fiscalYearEnd;
+    }
+
+    const pending = this.state.periodEvents.filter((event) => !this.syncedPeriodEvents.has(periodEventKey(event)));
+    for (const event of pending) {
+      const key = periodEventKey(event);
+      this.syncedPeriodEvents.add(key);
+      const res = await fetch(`/api/ledger/periods/${encodeURIComponent(event.periodId)}`, {
+        method: "POST",
+        headers: json,
+        body: JSON.stringify({ action: event.action, by: event.by, reason: event.reason, at: event.at }),
+      }).catch(() => null);
+      if (!res || res.status >= 500) {
+        this.syncedPeriodEvents.delete(key);
+        return;
+      }
+    }
+  }
+
+  private rejectSync(rejection: SyncRejection) {
+    this.state.syncRejections = [
+      ...this.state.syncRejections.filter((existing) => existing.kind !== rejection.kind || existing.id !== rejection.id),
+      rejection,
+    ];
+    this.notify();
+  }
+
+  /**
+   * Entries and accounts the server refused, for the user to correct or retry
+   */
+  getSyncRejections(): SyncRejection[] {
+    return this.state.syncRejections;
+  }
+
+  /**
+   * Send a refused entry or account again, e.g. once the chart of accounts it
+   * needed has reached the server
+   */
+  retrySync(kind: SyncRejection["kind"], id: string) {
+    this.state.syncRejections = this.state.syncRejections.filter((rejection) => rejection.kind !== kind || rejection.id !== id);
+    this.notify();
+  }
+
+  /**
+   * Replace the local books with the server's copy. Entries posted here that
+   * have not reached the server yet are kept, and the ledger is rebuilt by
+   * replaying every entry. Voided entries are replayed too: their contra
+   * entries take them back out.
+   */
+  hydrate(snapshot: LedgerSnapshot) {
+    const serverIds = new Set(snapshot.journalEntries.map((entry) => entry.id));
+    const serverCodes = new Set(snapshot.customAccounts.map((account) => account.code));
+    const localEntries = this.state.journalEntries.filter(
+      (entry) => !serverIds.has(entry.id) && !this.syncedJournalIds.has(entry.id)
+    );
+    const localAccounts = this.state.customAccounts.filter(
+      (account) => !serverCodes.has(account.code) && !this.syncedAccountCodes.has(account.code)
+    );
+
+    const serverEvents = snapshot.auditLog || [];
+    const serverEventIds = new Set(serverEvents.map((event) => event.id));
+    const localEvents = this.state.auditLog.filter((event) => !serverEventIds.has(event.id));
+
+    this.syncedJournalIds = serverIds;
+    this.syncedAccountCodes = serverCodes;
+    this.state.syncRejections = this.state.syncRejections.filter((rejection) =>
+      rejection.kind === "journal" ? !serverIds.has(rejection.id) : !serverCodes.has(rejection.id)
+    );
+    this.state.auditLog = [...serverEvents.map((event) => Object.freeze(event)), ...localEvents];
+    this.state.journalEntries = [...snapshot.journalEntries, ...localEntries];
+    this.state.customAccounts = [...snapshot.customAccounts, ...localAccounts];
+
+    this.state.ledgerAccounts = new Map();
+    this.initializeLedger();
+    this.state.customAccounts.forEach((acc) => {
+      if (!this.state.ledgerAccounts.has(acc.code)) {
+        this.state.ledgerAccounts.set(acc.code, {
+          accountCode: acc.code,
+          accountName: acc.name,
+          accountType: acc.class as AccountType,
+          normalBalance: ["asset", "expense"].includes(acc.class) ? "debit" : "credit",
+          openingBalance: 0,
+          entries: [],
+          closingBalance: 0,
+        });
+      }
+    });
+    this.state.journalEntries
+      .filter((entry) => entry.status !== "draft")
+      .forEach((entry) => this.applyToLedger(entry));
+    this.hydrateSubledgers(snapshot);
+    this.hydratePeriods(snapshot);
+  }
+
+  // The server holds the subledger records of every control account movement
+  // it has, including entries posted from other devices, so its records
+  // replace the local ones. Local records it has not received (it never
+  // deletes any), and local changes made since the last push, are kept on top.
+  private hydrateSubledgers(snapshot: LedgerSnapshot) {
+    if (!snapshot.subledgers) return;
+    const server = snapshot.subledgers;
+    const serverKeys = new Map<string, string>();
+    (Object.keys(server) as (keyof SubledgerState)[]).forEach((collection) => {
+      server[collection].forEach((record) => serverKeys.set(tradeRecordKey(collection, record.id), JSON.stringify(record)));
+    });
+    const merge = <T extends { id: string }>(collection: keyof SubledgerState, serverRecords: T[], localRecords: T[]): T[] => {
+      const pending = localRecords.filter((record) => {
+        const key = tradeRecordKey(collection, record.id);
+        const synced = this.syncedTradeRecords.get(key);
+        return !serverKeys.has(key) || (synced !== undefined && synced !== JSON.stringify(record));
+      });
+      const pendingIds = new Set(pending.map((record) => record.id));
+      return [...serverRecords.filter((record) => !pendingIds.has(record.id)).map((record) => ({ ...record })), ...pending];
+    };
+
+    const local = this.state.subledgers;
+    this.state.subledgers = {
+      parties: merge("parties", server.parties, local.parties),
+      documents: merge("documents", server.documents, local.documents),
+      payments: merge("payments", server.payments, local.payments),
+    };
+    this.syncedTradeRecords = serverKeys;
+  }
+
+  // The server's periods replace the local ones, and closes, locks and reopens
+  // it has not received yet are made again on top. While the server has yet to
+  // take a changed year end, the periods drawn here stand.
+  private hydratePeriods(snapshot: LedgerSnapshot) {
+    if (!snapshot.fiscalYearEnd) return;
+    const serverEvents = snapshot.periodEvents || [];
+    const serverKeys = new Set(serverEvents.map(periodEventKey));
+    const localEvents = this.state.periodEvents.filter(
+      (event) => !serverKeys.has(periodEventKey(event)) && !this.syncedPeriodEvents.has(periodEventKey(event))
+    );
+    this.serverFiscalYearEnd = snapshot.fiscalYearEnd;
+    this.syncedPeriodEvents = serverKeys;
+
+    const serverPeriods = snapshot.fiscalPeriods || [];
+    if (snapshot.fiscalYearEnd !== this.state.fiscalYearEnd && serverPeriods.every((period) => period.status === "open")) {
+      return;
+    }
+    this.state.fiscalYearEnd = snapshot.fiscalYearEnd;
+    this.state.fiscalPeriods = serverPeriods.map((period) => ({ ...period }));
+    this.state.periodEvents = [...serverEvents];
+    localEvents.forEach((event) => {
+      try {
+        this.ensureFiscalYear(Number(event.periodId.slice(2, 6)));
+        this.state.periodEvents.push(transitionPeriod(this.state.fiscalPeriods, event.periodId, event.action, event));
+      } catch (error) {
+        if (!(error instanceof FiscalPeriodError)) throw error;
+      }
+    });
+  }
+
+  /**
+   * Pull the books from the server. Falls back to the local copy when the
+   * server cannot be reached.
+   */
+  async syncWithServer(): Promise<boolean> {
+    if (typeof fetch === "undefined") return false;
+    try {
+      const res = await fetch("/api/ledger");
+      if (!res.ok) return false;
+      this.hydrate((await res.json()) as LedgerSnapshot);
+      this.notify();
+      return true;
+    } catch {
+      return false;
+    }
   }
 
   // Load from localStorage
@@ -113,9 +540,32 @@ class AccountingEngine {
         const parsed = JSON.parse(saved);
         this.state.journalEntries = parsed.journalEntries || [];
         this.state.customAccounts = parsed.customAccounts || [];
+        this.state.deferredTax = parsed.deferredTax;
+        this.state.fixedAssets = parsed.fixedAssets || [];
+        this.state.fiscalYearEnd = parsed.fiscalYearEnd || DEFAULT_FISCAL_YEAR_END;
+        this.state.fiscalPeriods = parsed.fiscalPeriods || [];
+        this.state.periodEvents = parsed.periodEvents || [];
+        this.state.auditLog = (parsed.auditLog || []).map((event: JournalAuditEvent) => Object.freeze(event));
+        this.state.subledgers = { ...emptySubledgers(), ...parsed.subledgers };
+        this.state.salesInvoices = parsed.salesInvoices || [];
+        this.state.syncRejections = parsed.syncRejections || [];
         if (parsed.ledgerAccounts) {
           this.state.ledgerAccounts = new Map(parsed.ledgerAccounts);
         }
+        // Accounts added to the chart since the ledger was saved
+        CHART_OF_ACCOUNTS.forEach((account) => {
+          if (!this.state.ledgerAccounts.has(account.code)) {
+            this.state.ledgerAccounts.set(account.code, {
+              accountCode: account.code,
+              accountName: account.name,
+              accountType: account.type,
+              normalBalance: ["asset", "expense"].includes(account.type) ? "debit" : "credit",
+              openingBalance: 0,
+              entries: [],
+              closingBalance: 0,
+            });
+          }
+        });
         // Initialize ledger accounts for custom accounts
         this.state.customAccounts.forEach((acc) => {
           if (!this.state.ledgerAccounts.has(acc.code)) {
@@ -130,11 +580,34 @@ class AccountingEngine {
             });
           }
         });
+        if (!parsed.subledgers) {
+          this.openTradeBalances();
+        }
         this.state.lastUpdated = parsed.lastUpdated || new Date().toISOString();
       } catch {
         // Ignore malformed cache
       }
     }
+    this.applyConfiguredFiscalYearEnd();
+  }
+
+  // The year end is set with the rest of the company's accounting config. A
+  // change there redraws the periods unless one has already been closed.
+  private applyConfiguredFiscalYearEnd() {
+    let configured: string;
+    try {
+      const config = JSON.parse(window.localStorage.getItem("insight::accounting-config") || "{}");
+      configured = validateFiscalYearEnd(config.fiscalYearEnd || DEFAULT_ACCOUNTING_CONFIG.fiscalYearEnd);
+    } catch {
+      return;
+    }
+    if (configured === this.state.fiscalYearEnd) return;
+    if (this.state.fiscalPeriods.some((period) => period.status !== "open")) {
+      console.warn(`Year end ${configured} in the accounting config not applied: periods to ${this.state.fiscalYearEnd} have been closed`);
+      return;
+    }
+    this.state.fiscalYearEnd = configured;
+    this.state.fiscalPeriods = [];
   }
 
   getState(): AccountingState {
@@ -204,6 +677,8 @@ class AccountingEngine {
     date: string;
     lines: { accountCode: string; accountName: string; debit: number; credit: number }[];
   }): JournalEntry {
+    this.assertNoControlAccountLines(entry.lines);
+
     // Validate balance
     const totalDebits = entry.lines.reduce((sum, l) => sum + l.debit, 0);
     const totalCredits = entry.lines.reduce((sum, l) => sum + l.credit, 0);
@@ -238,6 +713,35 @@ class AccountingEngine {
     return journalEntry;
   }
 
+  /**
+   * Post a journal prepared by another module (e.g. a payroll run)
+   */
+  postJournalEntry(entry: JournalEntry): JournalEntry {
+    this.assertNoControlAccountLines(entry.lines);
+    const validation = validateJournalEntry(entry.lines);
+    if (!validation.isBalanced) {
+      throw new Error(`Entry not balanced: DR ${validation.totalDebits} ≠ CR ${validation.totalCredits}`);
+    }
+    if (this.state.journalEntries.some((existing) => existing.id === entry.id)) {
+      throw new Error(`Journal ${entry.id} has already been posted`);
+    }
+
+    const journalEntry: JournalEntry = {
+      ...entry,
+      isBalanced: true,
+      totalDebits: validation.totalDebits,
+      totalCredits: validation.totalCredits,
+      postedAt: new Date().toISOString(),
+      status: "posted",
+    };
+
+    this.postToLedger(journalEntry);
+    this.state.journalEntries.push(journalEntry);
+    this.notify();
+
+    return journalEntry;
+  }
+
   /**
    * Process a raw transaction and create journal entries
    */
@@ -255,8 +759,9 @@ class AccountingEngine {
     // Step 3: Post to ledger
     this.postToLedger(journalEntry);
 
-    // Step 4: Add to state
+    // Step 4: Add to state, with credit sales, purchases and settlements in the subledgers
     this.state.journalEntries.push(journalEntry);
+    this.recordTradeFromJournal(journalEntry, rawTx.vendor, interpretation.paymentMethod);
     this.notify();
 
     // Step 5: Generate chat response
@@ -329,6 +834,7 @@ class AccountingEngine {
       netAmount: amount,
       vatAmount: taxes.vatAmount,
       whtAmount: taxes.whtAmount,
+      vatClass: taxes.vatClass,
       paymentMethod,
       isCredit,
       hasTax: taxes.hasTax,
@@ -351,6 +857,7 @@ class AccountingEngine {
     baseAmount: number;
     vatAmount: number;
     whtAmount: number;
+    vatClass: VATSupplyType;
     hasTax: boolean;
     assumptions: string[];
   } {
@@ -360,9 +867,13 @@ class AccountingEngine {
     let hasTax = false;
     const assumptions: string[] = [];
     const VAT_RATE = 0.075; // Standard Nigerian VAT
+    const vatClassification = classifyVATSupply({ transactionCategory: rawTx.category, description: rawTx.description });
 
     // VAT Detection
-    if (desc.includes('vat') || desc.includes('tax')) {
+    if (vatClassification.supplyType !== 'standard') {
+      // Exempt and zero-rated supplies carry no VAT, whatever the description says
+      assumptions.push(`${vatClassification.note} - no VAT charged`);
+    } else if (desc.includes('vat') || desc.includes('tax')) {
       hasTax = true;
       if (desc.includes('inclusive') || desc.includes('incl')) {
         // Assume VAT is included in the total
@@ -389,6 +900,7 @@ class AccountingEngine {
       baseAmount,
       vatAmount: Math.round(vatAmount),
       whtAmount: Math.round(whtAmount),
+      vatClass: vatClassification.supplyType,
       hasTax,
       assumptions
     };
@@ -866,6 +1378,7 @@ class AccountingEngine {
   ): JournalEntry {
     const lines: JournalLine[] = [];
     const { transactionType, amount, vatAmount, whtAmount, paymentMethod, isCredit } = interpretation;
+    const supplyMemo = interpretation.vatClass && interpretation.vatClass !== "standard" ? vatSupplyMemo(interpretation.vatClass) : undefined;
 
     // Get cash/bank account based on payment method
     const cashAccount = paymentMethod === "cash" ? "1000" : "1020";
@@ -892,10 +1405,20 @@ class AccountingEngine {
           lines.push({
             accountCode: cashAccount,
             accountName: cashAccountName,
-            debit: totalAmount,
+            debit: totalAmount - whtAmount,
             credit: 0,
             memo: `Cash/Bank sale`,
           });
+          if (whtAmount > 0) {
+            // Customer paid net of WHT; the deduction is a credit against our income tax
+            lines.push({
+              accountCode: "1410",
+              accountName: "WHT Receivable",
+              debit: whtAmount,
+              credit: 0,
+              memo: "WHT deducted by customer",
+            });
+          }
         }
 
         lines.push({
@@ -903,15 +1426,16 @@ class AccountingEngine {
           accountName: "Sales",
           debit: 0,
           credit: amount,
+          memo: supplyMemo,
         });
 
         if (vatAmount > 0) {
-          // lines.push({
-          //   accountCode: "2200",
-          //   accountName: "Output VAT Payable",
-          //   debit: 0,
-          //   credit: vatAmount,
-          // });
+          lines.push({
+            accountCode: "2200",
+            accountName: "Output VAT Payable",
+            debit: 0,
+            credit: vatAmount,
+          });
         }
 
         // Removed automatic COGS recording. Inventory adjustment must be manual.
@@ -931,15 +1455,16 @@ class AccountingEngine {
           accountName: "Sales Returns",
           debit: amount,
           credit: 0,
+          memo: supplyMemo,
         });
 
         if (vatAmount > 0) {
-          // lines.push({
-          //   accountCode: "2200",
-          //   accountName: "Output VAT Payable",
-          //   debit: vatAmount,
-          //   credit: 0,
-          // });
+          lines.push({
+            accountCode: "2200",
+            accountName: "Output VAT Payable",
+            debit: vatAmount,
+            credit: 0,
+          });
         }
 
         lines.push({
@@ -975,12 +1500,12 @@ class AccountingEngine {
         });
 
         if (vatAmount > 0) {
-          // lines.push({
-          //   accountCode: "1400",
-          //   accountName: "Input VAT Receivable",
-          //   debit: 0,
-          //   credit: vatAmount,
-          // });
+          lines.push({
+            accountCode: "1400",
+            accountName: "Input VAT Receivable",
+            debit: 0,
+            credit: vatAmount,
+          });
         }
         break;
       }
@@ -999,12 +1524,12 @@ class AccountingEngine {
         });
 
         if (vatAmount > 0) {
-          // lines.push({
-          //   accountCode: "1400",
-          //   accountName: "Input VAT Receivable",
-          //   debit: vatAmount,
-          //   credit: 0,
-          // });
+          lines.push({
+            accountCode: "1400",
+            accountName: "Input VAT Receivable",
+            debit: vatAmount,
+            credit: 0,
+          });
         }
 
         if (isCredit) {
@@ -1040,15 +1565,21 @@ class AccountingEngine {
           credit: 0,
         });
 
+        lines.push({
+          accountCode: isAccrued ? "2100" : cashAccount,
+          accountName: isAccrued ? "Accrued Expenses" : cashAccountName,
+          debit: 0,
+          credit: amount - whtAmount,
+          memo: isAccrued ? "Accrued expense" : undefined
+        });
         if (whtAmount > 0) {
-          // handled previously
-        } else {
+          // Supplier is paid net; the WHT is owed to the tax authority until remitted
           lines.push({
-            accountCode: isAccrued ? "2100" : cashAccount,
-            accountName: isAccrued ? "Accrued Expenses" : cashAccountName,
+            accountCode: "2220",
+            accountName: "WHT Payable",
             debit: 0,
-            credit: amount,
-            memo: isAccrued ? "Accrued expense" : undefined
+            credit: whtAmount,
+            memo: "WHT deducted from supplier",
           });
         }
         break;
@@ -1241,10 +1772,19 @@ class AccountingEngine {
         lines.push({
           accountCode: cashAccount,
           accountName: cashAccountName,
-          debit: amount,
+          debit: amount - whtAmount,
           credit: 0,
           memo: "Receipt from debtor",
         });
+        if (whtAmount > 0) {
+          lines.push({
+            accountCode: "1410",
+            accountName: "WHT Receivable",
+            debit: whtAmount,
+            credit: 0,
+            memo: "WHT deducted by customer",
+          });
+        }
         lines.push({
           accountCode: "1100",
           accountName: "Accounts Receivable",
@@ -1465,9 +2005,21 @@ class AccountingEngine {
   }
 
   /**
-   * Post a journal entry to the general ledger
+   * Post a journal entry to the general ledger, refusing dates in a closed or
+   * locked period
    */
-  private postToLedger(journalEntry: JournalEntry) {
+  private postToLedger(journalEntry: JournalEntry, by?: string) {
+    this.assertCanPost(journalEntry.date);
+    this.applyToLedger(journalEntry);
+    this.recordAudit(auditEvent(journalEntry.id, "post", { by }));
+  }
+
+  private assertCanPost(date: string) {
+    this.ensureFiscalYear(fiscalYearOf(date, this.state.fiscalYearEnd));
+    assertPeriodOpen(this.state.fiscalPeriods, date);
+  }
+
+  private applyToLedger(journalEntry: JournalEntry) {
     journalEntry.lines.forEach((line) => {
       const ledgerAccount = this.state.ledgerAccounts.get(line.accountCode);
       if (!ledgerAccount) return;
@@ -1718,9 +2270,21 @@ class AccountingEngine {
       },
       analysisSource: "rule" as const,
       analysisConfidence: 1.0,
+      ...(this.state.deferredTax ? { deferredTax: this.state.deferredTax } : {}),
     };
   }
 
+  /**
+   * Adjusted profit schedule for CIT from the statements and the ledger
+   * accounts behind each adjustment
+   */
+  generateTaxAdjustedProfit(
+    options: TaxAdjustedProfitOptions,
+    statement: StatementDraft = this.generateStatements()
+  ): TaxAdjustedProfitSchedule {
+    return buildTaxAdjustedProfit(statement, this.state.ledgerAccounts, options);
+  }
+
   /**
    * Get workspace file data for display
    */
@@ -1742,34 +2306,142 @@ class AccountingEngine {
    * Clear all data
    */
   reset() {
+    this.syncedJournalIds = new Set();
+    this.syncedAccountCodes = new Set();
+    this.syncedPeriodEvents = new Set();
+    this.serverFiscalYearEnd = undefined;
+    this.syncedTradeRecords = new Map();
+    this.pushQueue = Promise.resolve();
     this.state = {
       journalEntries: [],
       ledgerAccounts: new Map(),
       customAccounts: [],
+      fixedAssets: [],
+      fiscalYearEnd: DEFAULT_FISCAL_YEAR_END,
+      fiscalPeriods: [],
+      periodEvents: [],
+      auditLog: [],
+      subledgers: emptySubledgers(),
+      salesInvoices: [],
+      syncRejections: [],
       lastUpdated: new Date().toISOString(),
     };
     this.initializeLedger();
     this.notify();
   }
 
+  // ============================================================================
+  // FISCAL PERIODS
+  // ============================================================================
+
+  // Periods are created the first time a financial year is touched
+  private ensureFiscalYear(fiscalYear: number) {
+    if (this.state.fiscalPeriods.some((period) => period.fiscalYear === fiscalYear)) return;
+    this.state.fiscalPeriods.push(...buildFiscalPeriods(this.state.fiscalYearEnd, fiscalYear));
+    this.state.fiscalPeriods.sort((a, b) => a.startDate.localeCompare(b.startDate));
+  }
+
+  /**
+   * Change the financial year end, in the accounting config as well. Only
+   * allowed while no period has been closed, since the periods are redrawn.
+   */
+  setFiscalYearEnd(fiscalYearEnd: string) {
+    validateFiscalYearEnd(fiscalYearEnd);
+    if (this.state.fiscalPeriods.some((period) => period.status !== "open")) {
+      throw new FiscalPeriodError("The year end cannot change once a period has been closed", 409);
+    }
+    this.state.fiscalYearEnd = fiscalYearEnd;
+    this.state.fiscalPeriods = [];
+    if (typeof window !== "undefined") {
+      const config = JSON.parse(window.localStorage.getItem("insight::accounting-config") || "{}");
+      window.localStorage.setItem("insight::accounting-config", JSON.stringify({ ...config, fiscalYearEnd }));
+    }
+    this.notify();
+  }
+
+  getFiscalPeriods(fiscalYear = fiscalYearOf(new Date().toISOString(), this.state.fiscalYearEnd)): FiscalPeriod[] {
+    this.ensureFiscalYear(fiscalYear);
+    return this.state.fiscalPeriods.filter((period) => period.fiscalYear === fiscalYear);
+  }
+
+  getPeriodEvents(periodId?: string): FiscalPeriodEvent[] {
+    return this.state.periodEvents.filter((event) => !periodId || event.periodId === periodId);
+  }
+
+  private transition(periodId: string, action: FiscalPeriodEvent["action"], options: { by?: string; reason?: string }) {
+    const fiscalYear = Number(periodId.slice(2, 6));
+    if (Number.isInteger(fiscalYear)) this.ensureFiscalYear(fiscalYear);
+    const event = transitionPeriod(this.state.fiscalPeriods, periodId, action, options);
+    this.state.periodEvents.push(event);
+    this.notify();
+    return this.state.fiscalPeriods.find((period) => period.id === periodId) as FiscalPeriod;
+  }
+
+  /**
+   * Month-end close: the period takes no further entries
+   */
+  closePeriod(periodId: string, by?: string): FiscalPeriod {
+    return this.transition(periodId, "close", { by });
+  }
+
+  /**
+   * Lock a closed period for good, typically once the accounts are filed
+   */
+  lockPeriod(periodId: string, by?: string): FiscalPeriod {
+    return this.transition(periodId, "lock", { by });
+  }
+
+  /**
+   * Reopen a closed period for adjustments. The reason is kept in the period log.
+   */
+  reopenPeriod(periodId: string, reason: string, by?: string): FiscalPeriod {
+    return this.transition(periodId, "reopen", { by, reason });
+  }
+
+  /**
+   * Year-end close: post the closing entries on the year-end date, then close
+   * every period of the year still open
+   */
+  closeFiscalYear(fiscalYear: number, by?: string): { closingEntries: JournalEntry[]; periods: FiscalPeriod[] } {
+    const periods = this.getFiscalPeriods(fiscalYear);
+    const closingEntries = this.createClosingEntries(fiscalYear);
+    periods
+      .filter((period) => period.status === "open")
+      .forEach((period) => this.state.periodEvents.push(transitionPeriod(this.state.fiscalPeriods, period.id, "close", { by })));
+    this.notify();
+    return { closingEntries, periods };
+  }
+
   /**
    * Create year-end closing entries
-   * Close all income and expense accounts to Retained Earnings
+   * Close all income and expense accounts to Retained Earnings, using their
+   * balances at the year end and dating the entry to it
    */
-  createClosingEntries(): JournalEntry[] {
+  createClosingEntries(fiscalYear = fiscalYearOf(new Date().toISOString(), this.state.fiscalYearEnd)): JournalEntry[] {
     const closingEntries: JournalEntry[] = [];
     const lines: JournalLine[] = [];
+    const yearEnd = this.getFiscalPeriods(fiscalYear)[11].endDate;
     let totalIncome = 0;
     let totalExpenses = 0;
 
+    // Balance from the entries dated on or before the year end
+    const balanceAt = (account: LedgerAccount) =>
+      account.entries
+        .filter((entry) => entry.date.slice(0, 10) <= yearEnd)
+        .reduce(
+          (sum, entry) => sum + (account.normalBalance === "debit" ? entry.debit - entry.credit : entry.credit - entry.debit),
+          account.openingBalance
+        );
+
     // Close income accounts (debit income, credit income summary/retained earnings)
     this.state.ledgerAccounts.forEach((account) => {
-      if (account.accountType === "income" && account.closingBalance > 0) {
-        totalIncome += account.closingBalance;
+      const balance = balanceAt(account);
+      if (account.accountType === "income" && balance > 0) {
+        totalIncome += balance;
         lines.push({
           accountCode: account.accountCode,
           accountName: account.accountName,
-          debit: account.closingBalance,
+          debit: balance,
           credit: 0,
           memo: "Closing entry - income",
         });
@@ -1778,13 +2450,14 @@ class AccountingEngine {
 
     // Close expense accounts (credit expense, debit income summary/retained earnings)
     this.state.ledgerAccounts.forEach((account) => {
-      if (account.accountType === "expense" && account.closingBalance > 0) {
-        totalExpenses += account.closingBalance;
+      const balance = balanceAt(account);
+      if (account.accountType === "expense" && balance > 0) {
+        totalExpenses += balance;
         lines.push({
           accountCode: account.accountCode,
           accountName: account.accountName,
           debit: 0,
-          credit: account.closingBalance,
+          credit: balance,
           memo: "Closing entry - expense",
         });
       }
@@ -1805,8 +2478,8 @@ class AccountingEngine {
     if (lines.length > 0) {
       const closingEntry: JournalEntry = {
         id: generateJournalId(),
-        date: new Date().toISOString().split("T")[0],
-        narration: "Year-end closing entries",
+        date: yearEnd,
+        narration: `Year-end closing entries FY${fiscalYear}`,
         lines,
         isBalanced: true,
         totalDebits: totalIncome + (netIncome < 0 ? Math.abs(netIncome) : 0),
@@ -1877,6 +2550,70 @@ class AccountingEngine {
     return entry;
   }
 
+  // ============================================================================
+  // FIXED ASSET REGISTER
+  // ============================================================================
+
+  getFixedAssets(): FixedAssetRecord[] {
+    return this.state.fixedAssets;
+  }
+
+  /**
+   * Add an asset to the register the capital allowances and deferred tax
+   * bases are worked out from
+   */
+  addFixedAsset(asset: Omit<FixedAssetRecord, "id">): FixedAssetRecord {
+    const description = asset.description?.trim();
+    if (!description) {
+      throw new Error("description is required");
+    }
+    if (!ASSET_CLASS_ACCOUNTS[asset.assetClass]) {
+      throw new Error(`Unknown asset class: ${asset.assetClass}`);
+    }
+    if (!(asset.cost > 0)) {
+      throw new Error("cost must be a positive amount");
+    }
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(asset.acquisitionDate || "")) {
+      throw new Error("acquisitionDate must be a YYYY-MM-DD date");
+    }
+
+    const last = this.state.fixedAssets.reduce((max, existing) => Math.max(max, Number(existing.id.replace("FA-", "")) || 0), 0);
+    const created: FixedAssetRecord = { ...asset, id: `FA-${String(last + 1).padStart(3, "0")}`, description };
+    this.state.fixedAssets = [...this.state.fixedAssets, created];
+    this.notify();
+    return created;
+  }
+
+  removeFixedAsset(id: string): void {
+    this.state.fixedAssets = this.state.fixedAssets.filter((asset) => asset.id !== id);
+    this.notify();
+  }
+
+  /**
+   * Recognise deferred tax on the ledger's temporary differences and post the
+   * movement since the last recognition. Tax bases come from the fixed asset
+   * register unless another register is passed.
+   */
+  recognizeDeferredTax(options: Omit<DeferredTaxOptions, "fixedAssets"> & { fixedAssets?: FixedAssetRecord[] }): {
+    reconciliation: DeferredTaxReconciliation;
+    journalEntry: JournalEntry | null;
+  } {
+    const reconciliation = computeDeferredTax(this.state.ledgerAccounts, {
+      ...options,
+      fixedAssets: options.fixedAssets || this.state.fixedAssets,
+    });
+    const journalEntry = buildDeferredTaxJournal(reconciliation);
+
+    if (journalEntry) {
+      this.postToLedger(journalEntry);
+      this.state.journalEntries.push(journalEntry);
+    }
+    this.state.deferredTax = reconciliation;
+    this.notify();
+
+    return { reconciliation, journalEntry };
+  }
+
   /**
    * Create an adjustment entry (for corrections, accruals, prepayments)
    */
@@ -1884,6 +2621,7 @@ class AccountingEngine {
     description: string,
     entries: Array<{ accountCode: string; accountName: string; debit: number; credit: number }>
   ): JournalEntry {
+    this.assertNoControlAccountLines(entries);
     const lines: JournalLine[] = entries.map((e) => ({
       ...e,
       memo: "Adjustment entry",
@@ -1914,6 +2652,778 @@ class AccountingEngine {
     return entry;
   }
 
+  // ============================================================================
+  // CORRECTIONS AND AUDIT LOG
+  // ============================================================================
+
+  // The log only grows; an event already recorded is never replaced
+  private recordAudit(event: JournalAuditEvent) {
+    if (this.state.auditLog.some((existing) => existing.id === event.id)) return;
+    this.state.auditLog.push(event);
+  }
+
+  /**
+   * Audit events for one entry and the entries linked to it, or the whole log
+   */
+  getAuditLog(journalId?: string): JournalAuditEvent[] {
+    return this.state.auditLog.filter(
+      (event) => !journalId || event.journalId === journalId || event.relatedJournalId === journalId
+    );
+  }
+
+  private requireReason(reason: string, action: string) {
+    if (!reason || !reason.trim()) {
+      throw new JournalCorrectionError(`A reason is required to ${action} a journal entry`);
+    }
+  }
+
+  /**
+   * Reverse a posted entry with an equal and opposite entry, dated today
+   * unless another date is given. The original stays posted.
+   */
+  reverseJournalEntry(id: string, options: { reason: string; date?: string; by?: string }): JournalEntry {
+    this.requireReason(options.reason, "reverse");
+    const original = assertReversible(
+      this.state.journalEntries,
+      this.state.journalEntries.find((entry) => entry.id === id),
+      id
+    );
+    const reversal = buildReversalEntry(original, { date: options.date || new Date().toISOString().split("T")[0] });
+
+    this.postToLedger(reversal, options.by);
+    this.state.journalEntries.push(reversal);
+    this.releaseTradeRecords(id);
+    this.recordAudit(auditEvent(id, "reverse", { by: options.by, reason: options.reason.trim(), relatedJournalId: reversal.id }));
+    this.notify();
+    return reversal;
+  }
+
+  /**
+   * Reverse-and-repost: reverse the original and post the corrected entry in
+   * its place. Both dates are checked before anything is posted.
+   */
+  correctJournalEntry(
+    id: string,
+    correction: { lines: JournalLine[]; date?: string; narration?: string },
+    options: { reason: string; by?: string }
+  ): { reversal: JournalEntry; corrected: JournalEntry } {
+    this.requireReason(options.reason, "correct");
+    this.assertNoControlAccountLines(correction.lines);
+    const original = assertReversible(
+      this.state.journalEntries,
+      this.state.journalEntries.find((entry) => entry.id === id),
+      id
+    );
+    const validation = validateJournalEntry(correction.lines);
+    if (!validation.isBalanced) {
+      throw new JournalCorrectionError(`Entry not balanced: DR ${validation.totalDebits} ≠ CR ${validation.totalCredits}`);
+    }
+
+    const today = new Date().toISOString().split("T")[0];
+    const corrected: JournalEntry = {
+      id: generateJournalId(),
+      date: correction.date || original.date,
+      narration: correction.narration || original.narration,
+      reference: original.reference,
+      lines: correction.lines,
+      isBalanced: true,
+      totalDebits: validation.totalDebits,
+      totalCredits: validation.totalCredits,
+      transactionType: original.transactionType,
+      createdAt: new Date().toISOString(),
+      postedAt: new Date().toISOString(),
+      status: "posted",
+    };
+    this.assertCanPost(today);
+    this.assertCanPost(corrected.date);
+
+    const reversal = buildReversalEntry(original, { date: today });
+    this.postToLedger(reversal, options.by);
+    this.state.journalEntries.push(reversal);
+    this.recordAudit(auditEvent(id, "reverse", { by: options.by, reason: options.reason.trim(), relatedJournalId: reversal.id }));
+    this.postToLedger(corrected, options.by);
+    this.state.journalEntries.push(corrected);
+    this.recordAudit(auditEvent(id, "correct", { by: options.by, reason: options.reason.trim(), relatedJournalId: corrected.id }));
+    this.notify();
+    return { reversal, corrected };
+  }
+
+  /**
+   * Void an entry posted in error: it is marked voided and a contra entry on
+   * the same date cancels it, so the period's figures read as if it had never
+   * been posted. Entries the server already holds are voided there first.
+   */
+  async voidJournalEntry(
+    id: string,
+    reason: string,
+    by?: string
+  ): Promise<{ voided: JournalEntry; contra: JournalEntry }> {
+    this.requireReason(reason, "void");
+    const original = assertReversible(
+      this.state.journalEntries,
+      this.state.journalEntries.find((entry) => entry.id === id),
+      id
+    );
+    this.assertCanPost(original.date);
+    const contra = buildReversalEntry(original, {
+      date: original.date,
+      narration: `Void of ${id}: ${original.narration}`,
+    });
+
+    if (this.syncedJournalIds.has(id) && typeof window !== "undefined" && typeof fetch !== "undefined") {
+      const res = await fetch(`/api/ledger/journals/${encodeURIComponent(id)}/void`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ reason, by, contraId: contra.id }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        throw new JournalCorrectionError(data.error || `Failed to void journal entry ${id}`, res.status);
+      }
+      // The server has recorded the contra entry and its audit events
+      this.syncedJournalIds.add(contra.id);
+    }
+
+    this.postToLedger(contra, by);
+    this.state.journalEntries.push(contra);
+    this.releaseTradeRecords(id);
+    original.status = "voided";
+    original.voidReason = reason.trim();
+    this.recordAudit(auditEvent(id, "void", { by, reason: reason.trim(), relatedJournalId: contra.id }));
+    this.notify();
+    return { voided: original, contra };
+  }
+
+  /**
+   * Post an accrual that reverses itself on `reverseOn`, usually the first
+   * day of the next period
+   */
+  postAccrual(
+    accrual: { narration: string; date: string; reverseOn: string; lines: JournalLine[] },
+    by?: string
+  ): JournalEntry {
+    this.assertNoControlAccountLines(accrual.lines);
+    if (accrual.reverseOn <= accrual.date) {
+      throw new JournalCorrectionError("An accrual must reverse after the date it is posted");
+    }
+    const validation = validateJournalEntry(accrual.lines);
+    if (!validation.isBalanced) {
+      throw new JournalCorrectionError(`Entry not balanced: DR ${validation.totalDebits} ≠ CR ${validation.totalCredits}`);
+    }
+
+    const entry: JournalEntry = {
+      id: generateJournalId(),
+      date: accrual.date,
+      narration: accrual.narration,
+      lines: accrual.lines,
+      isBalanced: true,
+      totalDebits: validation.totalDebits,
+      totalCredits: validation.totalCredits,
+      transactionType: "adjustment",
+      createdAt: new Date().toISOString(),
+      postedAt: new Date().toISOString(),
+      status: "posted",
+      autoReverseOn: accrual.reverseOn,
+    };
+
+    this.postToLedger(entry, by);
+    this.state.journalEntries.push(entry);
+    this.notify();
+    return entry;
+  }
+
+  /**
+   * Post the reversals of accruals that have fallen due. A reversal whose
+   * date is in a closed period is posted on `asOf` instead. When that period
+   * is closed too, the accrual waits for a period to be reopened and, once the
+   * others are posted, a FiscalPeriodError names it.
+   */
+  processScheduledReversals(asOf = new Date().toISOString().split("T")[0]): JournalEntry[] {
+    const reversals: JournalEntry[] = [];
+    const waiting: string[] = [];
+    dueAccrualReversals(this.state.journalEntries, asOf).forEach((accrual) => {
+      const date = accrual.autoReverseOn as string;
+      const reversalDate = [date, asOf].find((candidate) => this.isPeriodOpen(candidate));
+      if (!reversalDate) {
+        waiting.push(accrual.id);
+        return;
+      }
+      const reversal = buildReversalEntry(accrual, {
+        date: reversalDate,
+        narration: `Auto-reversal of ${accrual.id}: ${accrual.narration}`,
+      });
+      this.postToLedger(reversal);
+      this.state.journalEntries.push(reversal);
+      this.recordAudit(auditEvent(accrual.id, "reverse", { reason: `Scheduled accrual reversal due ${date}`, relatedJournalId: reversal.id }));
+      reversals.push(reversal);
+    });
+
+    if (reversals.length > 0) this.notify();
+    if (waiting.length > 0) {
+      throw new FiscalPeriodError(
+        `Scheduled reversal of ${waiting.join(", ")} is waiting: the period for ${asOf} is closed; reopen it to post the reversal`,
+        409
+      );
+    }
+    return reversals;
+  }
+
+  private isPeriodOpen(date: string): boolean {
+    try {
+      this.assertCanPost(date);
+      return true;
+    } catch (error) {
+      if (error instanceof FiscalPeriodError) return false;
+      throw error;
+    }
+  }
+
+  // ============================================================================
+  // RECEIVABLES AND PAYABLES SUBLEDGERS
+  // ============================================================================
+
+  // Trade control accounts only move through the subledgers (bad debts through
+  // writeOffBadDebt), so they always reconcile
+  private assertNoControlAccountLines(lines: Array<{ accountCode: string }>) {
+    const control = Object.entries(CONTROL_ACCOUNTS).find(([, account]) =>
+      lines.some((line) => line.accountCode === account.code)
+    );
+    if (control) {
+      const [kind, account] = control;
+      throw new SubledgerError(`${account.name} (${account.code}) is a control account; post through the ${kind}s subledger`);
+    }
+  }
+
+  getSubledgers(): SubledgerState {
+    return this.state.subledgers;
+  }
+
+  // Books saved before the subledgers existed bring what is on the control
+  // accounts in as balances brought forward, dated the last entry on them
+  private openTradeBalances() {
+    const lastEntry = this.state.journalEntries.reduce((last, entry) => (entry.date > last ? entry.date : last), "");
+    (Object.keys(CONTROL_ACCOUNTS) as SubledgerKind[]).forEach((kind) => {
+      openTradeBalance(
+        this.state.subledgers,
+        kind,
+        this.getAccountBalance(CONTROL_ACCOUNTS[kind].code),
+        lastEntry || new Date().toISOString().split("T")[0]
+      );
+    });
+  }
+
+  /**
+   * Add a customer (receivable) or supplier (payable)
+   */
+  addTradeParty(party: {
+    kind: SubledgerKind;
+    name: string;
+    paymentTermsDays?: number;
+    tin?: string;
+    address?: string;
+    email?: string;
+    withholdsTax?: boolean;
+  }): TradeParty {
+    const name = party.name?.trim();
+    if (!name) {
+      throw new SubledgerError("name is required");
+    }
+    if (findTradeParty(this.state.subledgers, party.kind, name)) {
+      throw new SubledgerError(`${name} already exists`, 409);
+    }
+    const { tin, address, email, withholdsTax } = party;
+    const created = this.createTradeParty(party.kind, name, party.paymentTermsDays, { tin, address, email, withholdsTax });
+    this.notify();
+    return created;
+  }
+
+  private createTradeParty(
+    kind: SubledgerKind,
+    name: string,
+    paymentTermsDays = DEFAULT_PAYMENT_TERMS_DAYS,
+    details: Pick<TradeParty, "tin" | "address" | "email" | "withholdsTax"> = {}
+  ): TradeParty {
+    const party: TradeParty = {
+      id: nextPartyId(this.state.subledgers, kind),
+      kind,
+      name,
+      paymentTermsDays,
+      ...(details.tin?.trim() ? { tin: details.tin.trim() } : {}),
+      ...(details.address?.trim() ? { address: details.address.trim() } : {}),
+      ...(details.email?.trim() ? { email: details.email.trim() } : {}),
+      ...(details.withholdsTax !== undefined ? { withholdsTax: details.withholdsTax } : {}),
+      createdAt: new Date().toISOString(),
+    };
+    this.state.subledgers.parties.push(party);
+    return party;
+  }
+
+  private requireTradeParty(kind: SubledgerKind, partyId: string): TradeParty {
+    const party = this.state.subledgers.parties.find((p) => p.id === partyId && p.kind === kind);
+    if (!party) {
+      throw new SubledgerError(`${kind === "receivable" ? "Customer" : "Supplier"} ${partyId} not found`, 404);
+    }
+    return party;
+  }
+
+  // Posts a subledger document's journal; nothing is recorded if posting fails
+  private postTradeJournal(
+    narration: string,
+    date: string,
+    reference: string,
+    transactionType: TransactionType,
+    lines: Array<{ accountCode: string; debit: number; credit: number; memo?: string }>
+  ): JournalEntry {
+    const journalLines: JournalLine[] = lines
+      .filter((line) => line.debit > 0 || line.credit > 0)
+      .map((line) => {
+        const account = this.state.ledgerAccounts.get(line.accountCode);
+        if (!account) {
+          throw new SubledgerError(`Unknown account code ${line.accountCode}`);
+        }
+        return { ...line, accountName: account.accountName };
+      });
+    const validation = validateJournalEntry(journalLines);
+    const entry: JournalEntry = {
+      id: generateJournalId(),
+      date,
+      narration,
+      reference,
+      lines: journalLines,
+      isBalanced: validation.isBalanced,
+      totalDebits: validation.totalDebits,
+      totalCredits: validation.totalCredits,
+      transactionType,
+      createdAt: new Date().toISOString(),
+      postedAt: new Date().toISOString(),
+      status: "posted",
+    };
+    this.postToLedger(entry);
+    this.state.journalEntries.push(entry);
+    return entry;
+  }
+
+  private requireAmounts(netAmount: number, vatAmount: number) {
+    if (!(netAmount > 0)) {
+      throw new SubledgerError("netAmount must be positive");
+    }
+    if (vatAmount < 0) {
+      throw new SubledgerError("vatAmount cannot be negative");
+    }
+  }
+
+  /**
+   * Raise a sales invoice: DR Accounts Receivable, CR revenue and output VAT
+   */
+  raiseInvoice(invoice: {
+    customerId: string;
+    date: string;
+    description: string;
+    netAmount: number;
+    vatAmount?: number;
+    dueDate?: string;
+    revenueAccount?: string;
+  }): TradeDocument {
+    const customer = this.requireTradeParty("receivable", invoice.customerId);
+    const vatAmount = invoice.vatAmount || 0;
+    this.requireAmounts(invoice.netAmount, vatAmount);
+    const amount = Math.round((invoice.netAmount + vatAmount) * 100) / 100;
+    const number = nextTradeNumber("INV", this.state.subledgers.documents);
+
+    const journal = this.postTradeJournal(`Invoice ${number} - ${customer.name}: ${invoice.description}`, invoice.date, number, "sale", [
+      { accountCode: CONTROL_ACCOUNTS.receivable.code, debit: amount, credit: 0 },
+      { accountCode: invoice.revenueAccount || "4000", debit: 0, credit: invoice.netAmount },
+      { accountCode: "2200", debit: 0, credit: vatAmount },
+    ]);
+    return this.addTradeDocument({
+      kind: "receivable",
+      type: "invoice",
+      number,
+      partyId: customer.id,
+      date: invoice.date,
+      dueDate: invoice.dueDate || addDays(invoice.date, customer.paymentTermsDays),
+      description: invoice.description,
+      netAmount: invoice.netAmount,
+      vatAmount,
+      amount,
+      journalId: journal.id,
+    });
+  }
+
+  /**
+   * Record a supplier bill: DR expense and input VAT, CR Accounts Payable
+   */
+  recordBill(bill: {
+    supplierId: string;
+    date: string;
+    description: string;
+    netAmount: number;
+    vatAmount?: number;
+    dueDate?: string;
+    expenseAccount?: string;
+    supplierReference?: string;
+  }): TradeDocument {
+    const supplier = this.requireTradeParty("payable", bill.supplierId);
+    const vatAmount = bill.vatAmount || 0;
+    this.requireAmounts(bill.netAmount, vatAmount);
+    const amount = Math.round((bill.netAmount + vatAmount) * 100) / 100;
+    const number = nextTradeNumber("BILL", this.state.subledgers.documents);
+
+    const journal = this.postTradeJournal(`Bill ${number} - ${supplier.name}: ${bill.description}`, bill.date, bill.supplierReference || number, "purchase", [
+      { accountCode: bill.expenseAccount || "5010", debit: bill.netAmount, credit: 0 },
+      { accountCode: "1400", debit: vatAmount, credit: 0 },
+      { accountCode: CONTROL_ACCOUNTS.payable.code, debit: 0, credit: amount },
+    ]);
+    return this.addTradeDocument({
+      kind: "payable",
+      type: "bill",
+      number,
+      partyId: supplier.id,
+      date: bill.date,
+      dueDate: bill.dueDate || addDays(bill.date, supplier.paymentTermsDays),
+      description: bill.description,
+      netAmount: bill.netAmount,
+      vatAmount,
+      amount,
+      journalId: journal.id,
+    });
+  }
+
+  /**
+   * Credit note against a customer (sales return) or from a supplier
+   * (purchase return). Applied to an invoice or bill it reduces what is
+   * outstanding on it; otherwise it is held on account.
+   */
+  issueCreditNote(note: {
+    kind: SubledgerKind;
+    partyId: string;
+    date: string;
+    description: string;
+    netAmount: number;
+    vatAmount?: number;
+    appliesTo?: string;
+    account?: string;
+  }): TradeDocument {
+    const party = this.requireTradeParty(note.kind, note.partyId);
+    const vatAmount = note.vatAmount || 0;
+    this.requireAmounts(note.netAmount, vatAmount);
+    const amount = Math.round((note.netAmount + vatAmount) * 100) / 100;
+    if (note.appliesTo) {
+      validateAllocations(this.state.subledgers, party.id, [{ documentId: note.appliesTo, amount }], amount);
+    }
+
+    const receivable = note.kind === "receivable";
+    const number = nextTradeNumber(receivable ? "CN" : "SCN", this.state.subledgers.documents);
+    const control = CONTROL_ACCOUNTS[note.kind].code;
+    const journal = this.postTradeJournal(
+      `Credit note ${number} - ${party.name}: ${note.description}`,
+      note.date,
+      number,
+      receivable ? "sale-return" : "purchase-return",
+      receivable
+        ? [
+            { accountCode: note.account || "4100", debit: note.netAmount, credit: 0 },
+            { accountCode: "2200", debit: vatAmount, credit: 0 },
+            { accountCode: control, debit: 0, credit: amount },
+          ]
+        : [
+            { accountCode: control, debit: amount, credit: 0 },
+            { accountCode: note.account || "5020", debit: 0, credit: note.netAmount },
+            { accountCode: "1400", debit: 0, credit: vatAmount },
+          ]
+    );
+    return this.addTradeDocument({
+      kind: note.kind,
+      type: "credit_note",
+      number,
+      partyId: party.id,
+      date: note.date,
+      dueDate: note.date,
+      description: note.description,
+      netAmount: note.netAmount,
+      vatAmount,
+      amount,
+      ...(note.appliesTo ? { appliesTo: note.appliesTo } : {}),
+      journalId: journal.id,
+    });
+  }
+
+  /**
+   * Write off what a customer will not pay on an invoice: DR Bad Debts
+   * Expense, CR Accounts Receivable, recorded as a write-off note applied to
+   * the invoice. Defaults to everything still outstanding.
+   */
+  writeOffBadDebt(writeOff: { documentId: string; date: string; reason: string; amount?: number }): TradeDocument {
+    const invoice = this.state.subledgers.documents.find((d) => d.id === writeOff.documentId && d.kind === "receivable");
+    if (!invoice || invoice.type === "credit_note" || invoice.status === "void") {
+      throw new SubledgerError(`${writeOff.documentId} is not an open customer invoice`, 404);
+    }
+    if (!writeOff.reason?.trim()) {
+      throw new SubledgerError("A reason is required to write off a debt");
+    }
+    const amount = writeOff.amount ?? outstandingAmount(this.state.subledgers, invoice.id);
+    validateAllocations(this.state.subledgers, invoice.partyId, [{ documentId: invoice.id, amount }], amount);
+
+    const party = this.requireTradeParty("receivable", invoice.partyId);
+    const number = nextTradeNumber("WO", this.state.subledgers.documents);
+    const journal = this.postTradeJournal(
+      `Bad debt written off ${number} - ${party.name}: ${invoice.number}`,
+      writeOff.date,
+      number,
+      "adjustment",
+      [
+        { accountCode: "6040", debit: amount, credit: 0 },
+        { accountCode: CONTROL_ACCOUNTS.receivable.code, debit: 0, credit: amount },
+      ]
+    );
+    return this.addTradeDocument({
+      kind: "receivable",
+      type: "credit_note",
+      number,
+      partyId: party.id,
+      date: writeOff.date,
+      dueDate: writeOff.date,
+      description: `Written off: ${writeOff.reason.trim()}`,
+      netAmount: amount,
+      vatAmount: 0,
+      amount,
+      appliesTo: invoice.id,
+      journalId: journal.id,
+    });
+  }
+
+  private addTradeDocument(document: Omit<TradeDocument, "id" | "status">): TradeDocument {
+    const created: TradeDocument = { id: document.number, ...document, status: "open" };
+    this.state.subledgers.documents.push(created);
+    this.notify();
+    return created;
+  }
+
+  /**
+   * Record money received from a customer or paid to a supplier. Without
+   * allocations it settles the oldest open invoices or bills first; any
+   * excess stays on account.
+   */
+  recordTradePayment(payment: {
+    kind: SubledgerKind;
+    partyId: string;
+    date: string;
+    amount: number;
+    method?: PaymentMethod;
+    allocations?: PaymentAllocation[];
+  }): TradePayment {
+    const party = this.requireTradeParty(payment.kind, payment.partyId);
+    if (!(payment.amount > 0)) {
+      throw new SubledgerError("amount must be positive");
+    }
+    const allocations = payment.allocations || allocateOldestFirst(this.state.subledgers, party.id, payment.amount);
+    validateAllocations(this.state.subledgers, party.id, allocations, payment.amount);
+
+    const receivable = payment.kind === "receivable";
+    const method = payment.method || "bank";
+    const cashAccount = method === "cash" ? "1000" : "1020";
+    const control = CONTROL_ACCOUNTS[payment.kind].code;
+    const number = nextTradeNumber(receivable ? "RCT" : "PAY", this.state.subledgers.payments);
+    const journal = this.postTradeJournal(
+      `${receivable ? "Receipt from" : "Payment to"} ${party.name} (${number})`,
+      payment.date,
+      number,
+      receivable ? "receipt" : "payment",
+      receivable
+        ? [
+            { accountCode: cashAccount, debit: payment.amount, credit: 0 },
+            { accountCode: control, debit: 0, credit: payment.amount },
+          ]
+        : [
+            { accountCode: control, debit: payment.amount, credit: 0 },
+            { accountCode: cashAccount, debit: 0, credit: payment.amount },
+          ]
+    );
+
+    const created: TradePayment = {
+      id: number,
+      kind: payment.kind,
+      number,
+      partyId: party.id,
+      date: payment.date,
+      amount: payment.amount,
+      method,
+      allocations,
+      journalId: journal.id,
+      status: "posted",
+    };
+    this.state.subledgers.payments.push(created);
+    this.notify();
+    return created;
+  }
+
+  /**
+   * Apply the unallocated part of a payment to specific invoices or bills
+   */
+  allocateTradePayment(paymentId: string, allocations: PaymentAllocation[]): TradePayment {
+    const payment = this.state.subledgers.payments.find((p) => p.id === paymentId);
+    if (!payment || payment.status !== "posted") {
+      throw new SubledgerError(`Payment ${paymentId} not found`, 404);
+    }
+    validateAllocations(this.state.subledgers, payment.partyId, allocations, unallocatedAmount(payment));
+    allocations.forEach((allocation) => {
+      const existing = payment.allocations.find((a) => a.documentId === allocation.documentId);
+      if (existing) existing.amount = Math.round((existing.amount + allocation.amount) * 100) / 100;
+      else payment.allocations.push({ ...allocation });
+    });
+    this.notify();
+    return payment;
+  }
+
+  getOutstandingAmount(documentId: string): number {
+    return outstandingAmount(this.state.subledgers, documentId);
+  }
+
+  getAgeingReport(kind: SubledgerKind, asOf = new Date().toISOString().split("T")[0]): AgeingReport {
+    return buildAgeingReport(this.state.subledgers, kind, asOf);
+  }
+
+  reconcileSubledger(kind: SubledgerKind): ControlReconciliation {
+    return reconcileControlAccount(this.state.subledgers, kind, this.getAccountBalance(CONTROL_ACCOUNTS[kind].code));
+  }
+
+  // ============================================================================
+  // SALES INVOICING
+  // ============================================================================
+
+  getSalesInvoices(): SalesInvoice[] {
+    return this.state.salesInvoices;
+  }
+
+  private requireSalesInvoice(id: string): SalesInvoice {
+    const invoice = this.state.salesInvoices.find((candidate) => candidate.id === id);
+    if (!invoice) {
+      throw new InvoicingError(`Invoice ${id} not found`, 404);
+    }
+    return invoice;
+  }
+
+  /**
+   * Draft a sales invoice for a customer. Product lines are priced and
+   * classified from `products`, usually the inventory products the lines
+   * refer to. Nothing is posted until the invoice is issued.
+   */
+  createSalesInvoice(
+    draft: {
+      customerId: string;
+      issueDate: string;
+      dueDate?: string;
+      locationId?: string; // where product lines are sold from
+      lines: SalesInvoiceLineInput[];
+      notes?: string;
+    },
+    products: InvoiceProduct[] = []
+  ): SalesInvoice {
+    const customer = this.requireTradeParty("receivable", draft.customerId);
+    // Drafts can be discarded, so continue from the highest draft id rather than the count
+    const last = Math.max(0, ...this.state.salesInvoices.map((invoice) => Number(invoice.id.replace("DRAFT-", "")) || 0));
+    const invoice = buildSalesInvoice(
+      {
+        id: `DRAFT-${String(last + 1).padStart(4, "0")}`,
+        customer: {
+          id: customer.id,
+          name: customer.name,
+          ...(customer.tin ? { tin: customer.tin } : {}),
+          ...(customer.address ? { address: customer.address } : {}),
+          ...(customer.email ? { email: customer.email } : {}),
+          withholdsTax: customer.withholdsTax ?? false,
+        },
+        issueDate: draft.issueDate,
+        dueDate: draft.dueDate || addDays(draft.issueDate, customer.paymentTermsDays),
+        locationId: draft.locationId,
+        lines: draft.lines,
+        notes: draft.notes,
+      },
+      products
+    );
+    this.state.salesInvoices.push(invoice);
+    this.notify();
+    return invoice;
+  }
+
+  /**
+   * Delete a draft that will not be issued; issued invoices are voided through
+   * their journal instead
+   */
+  discardSalesInvoice(id: string) {
+    const invoice = this.requireSalesInvoice(id);
+    if (invoice.status !== "draft") {
+      throw new InvoicingError(`Invoice ${invoice.number} has been issued; void its journal instead`, 409);
+    }
+    this.state.salesInvoices = this.state.salesInvoices.filter((candidate) => candidate !== invoice);
+    this.notify();
+  }
+
+  /**
+   * Issue a draft. In one transaction the server gives it the next number in
+   * the company's invoice sequence, prices it again from its own products and
+   * the VAT rate in the rulebook, takes its goods out of stock and posts its
+   * journal: DR Accounts Receivable, CR revenue by VAT classification and
+   * output VAT, and DR Cost of Goods Sold, CR Inventory at the cost the goods
+   * left stock at. The invoice, journal and receivable it returns are taken as
+   * they are. Books kept without a server number and post the invoice here.
+   */
+  async issueSalesInvoice(id: string): Promise<SalesInvoice> {
+    const invoice = this.requireSalesInvoice(id);
+    if (invoice.status !== "draft") {
+      throw new InvoicingError(`Invoice ${invoice.number} has already been issued`, 409);
+    }
+    const customer = this.requireTradeParty("receivable", invoice.customer.id);
+    this.assertCanPost(invoice.issueDate);
+
+    if (typeof window !== "undefined" && typeof fetch !== "undefined") {
+      const res = await fetch("/api/ledger/invoices", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ invoice, journalId: generateJournalId(), customer }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        throw new InvoicingError(data.error || `Failed to issue invoice ${id}`, res.status);
+      }
+      const { journalEntry, document } = data as { journalEntry: JournalEntry; document: TradeDocument };
+      this.postToLedger(journalEntry);
+      this.state.journalEntries.push(journalEntry);
+      this.syncedJournalIds.add(journalEntry.id);
+      this.state.subledgers.documents.push(document);
+      this.markTradeRecordsSynced({ parties: [customer], documents: [document], payments: [] });
+      Object.assign(invoice, data.invoice, { createdAt: invoice.createdAt });
+    } else {
+      const issued = {
+        ...invoice,
+        number: nextSalesInvoiceNumber(this.state.salesInvoices),
+        costOfSales: invoiceCostOfSales(invoice),
+      };
+      const journal = this.postTradeJournal(invoiceNarration(issued), issued.issueDate, issued.number, "sale", invoiceJournalLines(issued));
+      this.state.subledgers.documents.push(invoiceTradeDocument(issued, journal.id));
+      Object.assign(invoice, issued, { journalId: journal.id, status: "issued", issuedAt: new Date().toISOString() });
+    }
+    this.notify();
+    return invoice;
+  }
+
+  // A classified transaction's credit sale, purchase or settlement, in the subledger
+  private recordTradeFromJournal(entry: JournalEntry, counterparty: string | undefined, method: PaymentMethod) {
+    recordTradeFromJournal(this.state.subledgers, entry, counterparty, method);
+  }
+
+  // Issued sales invoices are voided with their receivable; the server puts
+  // their goods back into stock and drops the sale
+  private releaseTradeRecords(journalId: string) {
+    releaseTradeRecords(this.state.subledgers, journalId);
+    this.state.salesInvoices
+      .filter((invoice) => invoice.journalId === journalId && invoice.status === "issued")
+      .forEach((invoice) => {
+        invoice.status = "void";
+        delete invoice.saleId;
+      });
+  }
+
   /**
    * Get account balance by code
    */
@@ -1,3 +1,6 @@
+import type { DeferredTaxReconciliation } from "./deferredTax";
+import type { TaxAdjustedProfitSchedule } from "./taxBridge";
+
 export type TransactionType = "income" | "expense" | "asset" | "liability" | "equity" | "other";
 
 export interface RawTransaction {
@@ -48,6 +51,7 @@ export interface StatementDraft {
   analysisSource?: "rule" | "ai" | "hybrid";
   analysisConfidence?: number;
   equityStatement?: EquityStatement;
+  deferredTax?: DeferredTaxReconciliation; // IAS 12 disclosure, once deferred tax is recognised
 }
 
 export interface EquityStatement {
@@ -98,8 +102,10 @@ export interface TaxDraftPayload {
     turnover?: number;
     costOfSales?: number;
     operatingExpenses?: number;
+    capitalAllowance?: number;
   };
   statement: StatementDraft;
+  adjustedProfit?: TaxAdjustedProfitSchedule; // present when exported from the ledger
 }
 
 // ============================================================================
@@ -168,11 +174,43 @@ export interface TaxLiability {
 export interface FiscalPeriod {
   id: string;
   name: string;
+  fiscalYear: number; // calendar year the financial year ends in
   startDate: string;
   endDate: string;
   status: "open" | "closed" | "locked";
   closedAt?: string;
   closedBy?: string;
+  lockedAt?: string;
+}
+
+// Every close, lock and reopen, kept so a reopened period can be explained
+export interface FiscalPeriodEvent {
+  periodId: string;
+  action: "close" | "lock" | "reopen";
+  at: string;
+  by?: string;
+  reason?: string;
+}
+
+// Append-only record of what happened to a journal entry. Ids are
+// `<journalId>:<action>`, since each entry is posted, reversed or voided once.
+export interface JournalAuditEvent {
+  id: string;
+  journalId: string;
+  action: "post" | "reverse" | "void" | "correct";
+  at: string;
+  by?: string;
+  reason?: string;
+  relatedJournalId?: string; // the reversal, contra or corrected entry
+}
+
+// A journal or custom account the server refused as invalid. It is not sent
+// again until the user retries it.
+export interface SyncRejection {
+  kind: "journal" | "account";
+  id: string; // journal id or account code
+  error: string;
+  at: string;
 }
 
 export interface AccountingConfig {
@@ -31,6 +31,7 @@ import {
   analyzeForCompliance 
 } from "./statementEngine";
 import { runComplianceChecks, ComplianceResult } from "./standards";
+import { accountingEngine } from "./transactionBridge";
 
 // ============================================================================
 // TYPES
@@ -148,6 +149,16 @@ export function useAccountingAI(options: UseAccountingAIOptions = {}): UseAccoun
   
   // Update configuration
   const updateConfig = useCallback((updates: Partial<AccountingConfig>) => {
+    // The ledger's fiscal periods are drawn from the year end
+    if (updates.fiscalYearEnd && updates.fiscalYearEnd !== accountingEngine.getState().fiscalYearEnd) {
+      try {
+        accountingEngine.setFiscalYearEnd(updates.fiscalYearEnd);
+      } catch (e) {
+        setError(e instanceof Error ? e.message : "Unable to change the year end");
+        updates = { ...updates };
+        delete updates.fiscalYearEnd;
+      }
+    }
     setConfig(prev => ({
       ...prev,
       ...updates,
@@ -58,7 +58,7 @@ export const KNOWLEDGE_BASE: KnowledgeEntry[] = [
     topic: "Live Rule Overrides",
     summary: "Explains TAX_RULES overrides and version metadata",
     details:
-      "lib/taxRules/liveRates.ts allows overriding PIT bands, CRA parameters, CIT thresholds, VAT rate, and minimum tax via data/taxRulesOverrides.json or a remote TAX_RULES_REMOTE_URL. The API route at app/api/tax-rules exposes GET/POST endpoints to read or update overrides, so practitioners always know which circular is applied (metadata used across app/page.tsx and pdf).",
+      "lib/taxRules/liveRates.ts allows overriding PIT bands, CRA parameters, CIT thresholds, VAT rate, and minimum tax via data/taxRulesOverrides.json or a remote TAX_RULES_REMOTE_URL. The API route at app/api/tax-rules exposes GET to read overrides and POST to propose a change, and app/api/tax-rules/remote queues the remote feed for review on a schedule; proposals (rollbacks included) are versioned in data/taxRulesOverrideHistory.json with author and reason, only take effect once another reviewer approves them, and can be diffed or rolled back. Each computation records the approved override version it ran under, so practitioners always know which circular is applied (metadata used across app/page.tsx and pdf).",
     sources: ["lib/taxRules/liveRates.ts", "app/api/tax-rules/route.ts"],
     keywords: ["override", "live", "metadata", "tax rules", "remote"],
   },
@@ -27,6 +27,7 @@ import {
     DEFAULT_CASHFLOW_STATE,
     DEFAULT_SAFE_TO_SAVE_CONFIG,
     ScenarioType,
+    UpcomingObligation,
 } from "./types";
 
 // =============================================================================
@@ -582,6 +583,33 @@ class CashflowEngine {
         this.notify();
     }
 
+    /**
+     * Obligations the safe-to-save figure reserves cash for, soonest first
+     */
+    getUpcomingObligations(): UpcomingObligation[] {
+        return this.state.config.safeToSave.upcomingObligations;
+    }
+
+    /**
+     * Replace the upcoming obligations fed from another module (e.g. CIT
+     * instalments), identified by their id prefix, keeping those entered by hand
+     */
+    syncObligations(idPrefix: string, obligations: UpcomingObligation[]): void {
+        const safeToSave = this.state.config.safeToSave;
+        this.state.config = {
+            ...this.state.config,
+            safeToSave: {
+                ...safeToSave,
+                upcomingObligations: [
+                    ...safeToSave.upcomingObligations.filter((o) => !o.id.startsWith(idPrefix)),
+                    ...obligations,
+                ].sort((a, b) => a.dueDate.localeCompare(b.dueDate)),
+            },
+        };
+        this.persist();
+        this.notify();
+    }
+
     /**
      * Clear all data
      */
@@ -0,0 +1,15 @@
+/**
+ * Domain Errors
+ *
+ * Base class for errors raised by the tax and accounting modules when a
+ * request cannot be carried out. Each carries the HTTP status an API route
+ * should answer with (400 unless the module says otherwise), so routes can
+ * pass the message straight back to the caller.
+ */
+
+export class StatusError extends Error {
+    constructor(message: string, public readonly status: number = 400) {
+        super(message);
+        this.name = "StatusError";
+    }
+}
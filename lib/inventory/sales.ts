@@ -0,0 +1,161 @@
+// ============================================================================
+// INVENTORY INTELLIGENCE - Sales
+// Takes sold goods out of stock at their cost price, for the sales route and
+// for sales invoices, so goods on an invoice leave stock exactly once
+// ============================================================================
+
+import type { PrismaClient } from '@prisma/client';
+import type { CreateSaleRequest } from './types';
+import { StatusError } from '../errors';
+import { classifyVATSupply, vatForSupply, VATSupplyType } from '../taxRules/vatClassification';
+import { getVATRate } from '../taxRules/liveRates';
+
+export class InventorySaleError extends StatusError {
+    name = 'InventorySaleError';
+}
+
+export interface RecordedSaleLine {
+    productId: string;
+    qty: number;
+    unitPrice: number;
+    unitCost: number;
+    vatClass: VATSupplyType;
+    vatAmount: number;
+}
+
+/**
+ * Record a sale from one location: checks stock, prices each line at the
+ * product's cost and VAT classification, then decrements stock and logs the
+ * movements. Run it inside the caller's transaction. A reference already used
+ * by another sale is refused with 409.
+ *
+ * @param vatRate Rate to charge, by default the live rate
+ */
+export async function recordInventorySale(
+    db: PrismaClient,
+    companyId: string,
+    request: CreateSaleRequest,
+    vatRate: number = getVATRate()
+) {
+    if (!request.locationId || !request.lines?.length) {
+        throw new InventorySaleError('Missing required fields: locationId, lines');
+    }
+    if (request.reference) {
+        const existing = await db.sale.findFirst({ where: { companyId, reference: request.reference } });
+        if (existing) {
+            throw new InventorySaleError(`${request.reference} has already been taken out of stock`, 409);
+        }
+    }
+
+    // Validate stock availability and calculate costs and VAT
+    const processedLines: RecordedSaleLine[] = [];
+
+    for (const line of request.lines) {
+        if (!line.productId) continue;
+
+        const balance = await db.inventoryBalance.findUnique({
+            where: {
+                productId_locationId: {
+                    productId: line.productId,
+                    locationId: request.locationId,
+                },
+            },
+            include: { product: { include: { category: true } } },
+        });
+
+        if (!balance || balance.onHand < line.qty) {
+            throw new InventorySaleError(
+                `Insufficient stock for product ${line.productId}. Available: ${balance?.onHand || 0}, Requested: ${line.qty}`
+            );
+        }
+
+        // Product classification, else its category's, else the VAT catalogue
+        const { supplyType } = classifyVATSupply({ product: balance.product, category: balance.product?.category });
+
+        processedLines.push({
+            productId: line.productId,
+            qty: line.qty,
+            unitPrice: line.unitPrice,
+            unitCost: balance.product?.costPrice || 0,
+            vatClass: supplyType,
+            vatAmount: vatForSupply(line.qty * line.unitPrice, supplyType, vatRate),
+        });
+    }
+
+    // Calculate totals (totalAmount excludes VAT)
+    const totalAmount = processedLines.reduce((sum, l) => sum + l.qty * l.unitPrice, 0);
+    const vatAmount = Math.round(processedLines.reduce((sum, l) => sum + l.vatAmount, 0) * 100) / 100;
+
+    const sale = await db.sale.create({
+        data: {
+            companyId,
+            locationId: request.locationId,
+            totalAmount,
+            vatAmount,
+            ...(request.reference ? { reference: request.reference } : {}),
+            lines: {
+                create: processedLines,
+            },
+        },
+        include: {
+            location: true,
+            lines: { include: { product: true } },
+        },
+    });
+
+    // Decrease stock and create movements
+    for (const line of processedLines) {
+        await db.inventoryBalance.update({
+            where: {
+                productId_locationId: {
+                    productId: line.productId,
+                    locationId: request.locationId,
+                },
+            },
+            data: { onHand: { decrement: line.qty } },
+        });
+
+        await db.stockMovement.create({
+            data: {
+                companyId,
+                productId: line.productId,
+                fromLocationId: request.locationId,
+                type: 'SALE',
+                qty: line.qty,
+                unitCost: line.unitCost,
+                referenceType: 'Sale',
+                referenceId: sale.id,
+            },
+        });
+    }
+
+    return sale;
+}
+
+/**
+ * Undo the sale recorded under a reference, for an invoice whose journal is
+ * voided or reversed: puts its goods back into stock at the location they left
+ * and removes the sale with its movements. Run it inside the caller's
+ * transaction. Returns null when no sale has the reference.
+ */
+export async function reverseInventorySale(db: PrismaClient, companyId: string, reference: string) {
+    const sale = await db.sale.findFirst({ where: { companyId, reference }, include: { lines: true } });
+    if (!sale) return null;
+
+    for (const line of sale.lines) {
+        if (!line.productId) continue;
+        await db.inventoryBalance.update({
+            where: {
+                productId_locationId: {
+                    productId: line.productId,
+                    locationId: sale.locationId,
+                },
+            },
+            data: { onHand: { increment: line.qty } },
+        });
+    }
+
+    await db.stockMovement.deleteMany({ where: { companyId, referenceType: 'Sale', referenceId: sale.id } });
+    await db.sale.delete({ where: { id: sale.id } });
+    return sale;
+}
@@ -2,6 +2,8 @@
 // INVENTORY INTELLIGENCE - TypeScript Types
 // ============================================================================
 
+import type { VATSupplyType } from '../taxRules/vatClassification';
+
 // Location types
 export type LocationType = 'WAREHOUSE' | 'BRANCH';
 
@@ -75,6 +77,7 @@ export interface Category {
     id: string;
     companyId: string;
     name: string;
+    vatClass?: VATSupplyType | null;  // null = VAT classification catalogue
     createdAt: Date;
 }
 
@@ -89,6 +92,7 @@ export interface Product {
     sellingPrice: number;
     reorderLevel: number;
     trackExpiry: boolean;
+    vatClass?: VATSupplyType | null;  // null = category's classification
     isActive: boolean;
     createdAt: Date;
     updatedAt: Date;
@@ -191,6 +195,8 @@ export interface SaleLine {
     qty: number;
     unitPrice: number;
     unitCost: number;
+    vatClass: VATSupplyType;
+    vatAmount: number;
     product?: Product | null;
 }
 
@@ -199,6 +205,8 @@ export interface Sale {
     companyId: string;
     locationId: string;
     totalAmount: number;
+    vatAmount: number;
+    reference?: string | null; // the sales invoice the goods went out on
     createdAt: Date;
     location?: Location;
     lines?: SaleLine[];
@@ -249,6 +257,13 @@ export interface CreateProductRequest {
     sellingPrice: number;
     reorderLevel?: number;
     trackExpiry?: boolean;
+    vatClass?: VATSupplyType | null;
+}
+
+// VAT classification update for a product or category
+export interface UpdateVATClassRequest {
+    id: string;
+    vatClass: VATSupplyType | null;
 }
 
 // Stock adjustment
@@ -306,6 +321,7 @@ export interface CreateSaleLineRequest {
 export interface CreateSaleRequest {
     locationId: string;
     lines: CreateSaleLineRequest[];
+    reference?: string; // sales invoice number; each is taken out of stock once
 }
 
 // ============================================================================
@@ -54,6 +54,20 @@ export const TAX_NAV_ITEMS: TaxNavItem[] = [
     description: "Asset disposal calculator",
     mode: "tax",
   },
+  {
+    label: "PAYE Payroll",
+    href: "/tax-tools/paye",
+    icon: "ledger",
+    description: "Monthly payroll, payslips and remittances",
+    mode: "tax",
+  },
+  {
+    label: "CIT Instalments",
+    href: "/tax-tools/cit",
+    icon: "calculator",
+    description: "Provisional CIT and instalment payments",
+    mode: "tax",
+  },
 ];
 
 // Accounting-related navigation items
@@ -86,6 +100,20 @@ export const ACCOUNTING_NAV_ITEMS: TaxNavItem[] = [
     description: "Connect and sync bank feeds",
     mode: "accounting",
   },
+  {
+    label: "Sales Invoices",
+    href: "/accounting/invoices",
+    icon: "receipt",
+    description: "Raise and issue VAT invoices to customers",
+    mode: "accounting",
+  },
+  {
+    label: "Receivables & Payables",
+    href: "/accounting/subledgers",
+    icon: "report",
+    description: "Aged balances and control account reconciliation",
+    mode: "accounting",
+  },
   {
     label: "Chart of Accounts",
     href: "/accounting/reports",
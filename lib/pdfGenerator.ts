@@ -16,6 +16,7 @@ import {
     StampDutyResult,
     CompanyLeviesResult,
     WithholdingCertificate,
+    AnnualPAYEReturn,
 } from "./types";
 import { CGT_RATE } from "./taxRules/cgt";
 import { TET_RATE } from "./taxRules/tet";
@@ -243,6 +244,13 @@ export function generatePDF(
         doc.text(lines, margin + 40, y);
         y += lines.length * 5;
     }
+    if (metadata.overrideVersion !== undefined) {
+        doc.setFont("times", "bold");
+        doc.text("Overrides:", margin, y);
+        doc.setFont("times", "normal");
+        doc.text(metadata.overrideVersion ? `Approved version ${metadata.overrideVersion}` : "None (base rules)", margin + 40, y);
+        y += lineHeight;
+    }
     y += sectionGap - lineHeight;
 
     // ========== TAX BREAKDOWN ==========
@@ -311,6 +319,80 @@ export function generatePDF(
     doc.text(formatCurrency(result.taxCreditsApplied), margin + 55, y);
     y += sectionGap - lineHeight;
 
+    // ========== CAPITAL ALLOWANCE SCHEDULE ==========
+    if (result.capitalAllowances) {
+        const capitalAllowances = result.capitalAllowances;
+        checkNewPage(50);
+        doc.setFont("times", "bold");
+        doc.setFontSize(12);
+        doc.setTextColor(...primaryColor);
+        doc.text("CAPITAL ALLOWANCE SCHEDULE", margin, y);
+        y += 3;
+
+        doc.setDrawColor(...accentColor);
+        doc.line(margin, y, pageWidth - margin, y);
+        y += 8;
+
+        if (capitalAllowances.schedule.length > 0) {
+            const caCol1 = margin;            // Asset
+            const caCol2 = margin + 40;       // Opening TWDV (incl. additions)
+            const caCol3 = margin + 68;       // Initial
+            const caCol4 = margin + 94;       // Annual
+            const caCol5 = margin + 120;      // Balancing adjustment
+            const caCol6 = margin + 146;      // Closing TWDV
+
+            doc.setFont("times", "bold");
+            doc.setFontSize(8);
+            doc.setTextColor(...grayColor);
+            doc.text("Asset", caCol1, y);
+            doc.text("Opening TWDV", caCol2, y);
+            doc.text("Initial", caCol3, y);
+            doc.text("Annual", caCol4, y);
+            doc.text("Bal. Adj.", caCol5, y);
+            doc.text("Closing TWDV", caCol6, y);
+            y += lineHeight;
+
+            doc.setTextColor(...black);
+            doc.setFont("times", "normal");
+
+            for (const line of capitalAllowances.schedule) {
+                checkNewPage();
+                const adjustment = line.balancingCharge - line.balancingAllowance;
+                doc.text(line.description.substring(0, 22), caCol1, y);
+                doc.text(formatCurrency(line.openingTWDV + line.additions), caCol2, y);
+                doc.text(formatCurrency(line.initialAllowance), caCol3, y);
+                doc.text(formatCurrency(line.annualAllowance), caCol4, y);
+                doc.text(adjustment ? formatCurrency(adjustment) : "-", caCol5, y);
+                doc.text(formatCurrency(line.closingTWDV), caCol6, y);
+                y += lineHeight;
+            }
+            y += 2;
+        }
+
+        doc.setFontSize(10);
+        const caDetails: [string, string][] = [
+            ["Unabsorbed B/F", formatCurrency(capitalAllowances.unabsorbedBroughtForward)],
+            ["Total Available", formatCurrency(capitalAllowances.totalAvailable)],
+        ];
+        if (capitalAllowances.restrictionCap !== undefined) {
+            caDetails.push(["Restriction Cap", formatCurrency(capitalAllowances.restrictionCap)]);
+        }
+        caDetails.push(
+            ["Allowance Claimed", formatCurrency(capitalAllowances.allowanceClaimed)],
+            ["Carried Forward", formatCurrency(capitalAllowances.unabsorbedCarriedForward)],
+        );
+
+        for (const [label, value] of caDetails) {
+            checkNewPage();
+            doc.setFont("times", "bold");
+            doc.text(`${label}:`, margin, y);
+            doc.setFont("times", "normal");
+            doc.text(value, margin + 55, y);
+            y += lineHeight;
+        }
+        y += sectionGap - lineHeight;
+    }
+
     // ========== VAT SUMMARY ==========
     if (result.vat) {
         checkNewPage();
@@ -819,3 +901,130 @@ export function generatePDF(
     // Save the PDF
     doc.save(`cashos-tax-computation-${result.taxYear}.pdf`);
 }
+
+/**
+ * Generate the annual PAYE return (Form H1), or one employee's tax deduction
+ * card when an employee id is given
+ */
+export function generatePAYEReturnPDF(payeReturn: AnnualPAYEReturn, employeeId?: string): void {
+    const card = employeeId ? payeReturn.cards.find(candidate => candidate.employeeId === employeeId) : undefined;
+    if (employeeId && !card) {
+        throw new Error(`No tax deduction card for employee ${employeeId}`);
+    }
+
+    const doc = new jsPDF({
+        orientation: "landscape",
+        unit: "mm",
+        format: "a4",
+    });
+
+    const pageWidth = doc.internal.pageSize.getWidth();
+    const pageHeight = doc.internal.pageSize.getHeight();
+    const margin = 15;
+    const primaryColor: [number, number, number] = [26, 54, 93];
+    const grayColor: [number, number, number] = [74, 85, 104];
+    const black: [number, number, number] = [0, 0, 0];
+    const lineHeight = 6;
+    const formatAmount = (amount: number) =>
+        amount.toLocaleString("en-NG", { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+    let y = 18;
+
+    doc.setFont("times", "bold");
+    doc.setFontSize(14);
+    doc.setTextColor(...primaryColor);
+    doc.text(card ? "TAX DEDUCTION CARD" : "FORM H1 - EMPLOYER'S ANNUAL DECLARATION OF PAYE DEDUCTIONS", pageWidth / 2, y, { align: "center" });
+    y += 6;
+    doc.setFont("times", "normal");
+    doc.setFontSize(10);
+    doc.setTextColor(...grayColor);
+    doc.text(`${payeReturn.revenueService} | Year of Assessment ${payeReturn.taxYear}`, pageWidth / 2, y, { align: "center" });
+    y += 10;
+
+    const header: [string, string][] = [
+        ["Employer", payeReturn.employerName || payeReturn.employerId],
+        ["Employer TIN", payeReturn.employerId],
+    ];
+    if (card) {
+        header.push(["Employee", `${card.employeeName} (${card.employeeId})`], ["Employee TIN", card.tin || "N/A"]);
+    } else {
+        header.push(["Number of Employees", String(payeReturn.totals.employeeCount)], ["Filing Due Date", payeReturn.filingDueDate]);
+    }
+    doc.setTextColor(...black);
+    for (const [label, value] of header) {
+        doc.setFont("times", "bold");
+        doc.text(`${label}:`, margin, y);
+        doc.setFont("times", "normal");
+        doc.text(value, margin + 40, y);
+        y += lineHeight;
+    }
+    y += 4;
+
+    const table = (columns: { heading: string; x: number }[], rows: string[][], totalRow?: string[]) => {
+        const drawRow = (cells: string[], bold: boolean) => {
+            if (y > pageHeight - 20) {
+                doc.addPage();
+                y = 18;
+            }
+            doc.setFont("times", bold ? "bold" : "normal");
+            doc.setTextColor(...(bold ? grayColor : black));
+            cells.forEach((cell, index) => doc.text(cell.substring(0, 32), columns[index].x, y));
+            y += lineHeight;
+        };
+        doc.setFontSize(9);
+        drawRow(columns.map(column => column.heading), true);
+        rows.forEach(row => drawRow(row, false));
+        if (totalRow) {
+            doc.setDrawColor(...grayColor);
+            doc.line(margin, y - 4, pageWidth - margin, y - 4);
+            drawRow(totalRow, true);
+        }
+        y += 6;
+    };
+
+    if (card) {
+        const headings = ["Month", "Gross Pay", "Pension", "NHF", "NHIS", "Tax Deducted", "Cumulative Pay", "Cumulative Tax"];
+        table(
+            [15, 45, 80, 110, 140, 170, 210, 250].map((x, index) => ({ heading: headings[index], x })),
+            card.months.map(month => [month.period, formatAmount(month.grossPay), formatAmount(month.pension), formatAmount(month.nhf),
+                formatAmount(month.nhis), formatAmount(month.paye), formatAmount(month.cumulativeGrossPay), formatAmount(month.cumulativePaye)]),
+            ["TOTAL", formatAmount(card.totals.grossEmoluments), formatAmount(card.totals.pension), formatAmount(card.totals.nhf),
+                formatAmount(card.totals.nhis), formatAmount(card.totals.taxDeducted), "", ""]
+        );
+    } else {
+        const totals = payeReturn.totals;
+        const headings = ["S/N", "Employee", "TIN", "Months", "Gross Emoluments", "Pension", "NHF", "NHIS", "Tax Deducted"];
+        table(
+            [15, 27, 85, 115, 132, 170, 200, 225, 250].map((x, index) => ({ heading: headings[index], x })),
+            payeReturn.lines.map(line => [String(line.serialNumber), line.employeeName, line.tin || "", String(line.monthsEmployed),
+                formatAmount(line.grossEmoluments), formatAmount(line.pension), formatAmount(line.nhf), formatAmount(line.nhis), formatAmount(line.taxDeducted)]),
+            ["", "TOTAL", "", "", formatAmount(totals.grossEmoluments), formatAmount(totals.pension), formatAmount(totals.nhf),
+                formatAmount(totals.nhis), formatAmount(totals.taxDeducted)]
+        );
+
+        const reconciliation = payeReturn.reconciliation;
+        doc.setFont("times", "bold");
+        doc.setFontSize(11);
+        doc.setTextColor(...primaryColor);
+        doc.text("RECONCILIATION OF PAYE DEDUCTED AND REMITTED", margin, y);
+        y += 7;
+        const recHeadings = ["Month", "Employees", "Deducted", "Remitted", "Difference", "Due Date", "Paid On", "Status"];
+        table(
+            [15, 45, 75, 110, 145, 180, 210, 240].map((x, index) => ({ heading: recHeadings[index], x })),
+            reconciliation.months.map(month => [month.month, String(month.employeeCount), formatAmount(month.payeDeducted),
+                formatAmount(month.payeRemitted), formatAmount(month.difference), month.dueDate, month.lastPaidOn || "-",
+                `${month.status.replace(/_/g, " ")}${month.paidLate ? " (late)" : ""}`]),
+            ["TOTAL", "", formatAmount(reconciliation.totalDeducted), formatAmount(reconciliation.totalRemitted),
+                formatAmount(reconciliation.difference), "", "", reconciliation.isReconciled ? "reconciled" : "not reconciled"]
+        );
+    }
+
+    doc.setFont("times", "normal");
+    doc.setFontSize(8);
+    doc.setTextColor(...grayColor);
+    doc.text("Generated by CashOS from recorded payroll runs", pageWidth / 2, pageHeight - 8, { align: "center" });
+
+    doc.save(card
+        ? `tax-deduction-card-${card.employeeId}-${payeReturn.taxYear}.pdf`
+        : `form-h1-${payeReturn.state.replace(/\W+/g, "-").toLowerCase()}-${payeReturn.taxYear}.pdf`);
+}
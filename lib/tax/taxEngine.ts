@@ -21,6 +21,10 @@ import {
   NASENILevyResult,
 } from "../taxRules/levies";
 import { getClientVATRate } from "../taxRules/liveRatesClient";
+import { classifyVATSupply, VATSupplyType } from "../taxRules/vatClassification";
+import { annualReturnDueDate } from "../taxRules/taxCalendar";
+import { vatDueDate } from "../taxRules/vatReturn";
+import { whtDueDate } from "../taxRules/whtRemittance";
 
 // ============================================================================
 // TAX TRANSACTION TYPES
@@ -51,6 +55,7 @@ export interface TaxTransaction {
   category: string;
   counterparty?: string;
   isResident?: boolean;
+  vatClass?: VATSupplyType;  // overrides the VAT classification catalogue
   metadata?: Record<string, unknown>;
 }
 
@@ -103,6 +108,7 @@ interface TaxTypeDetection {
   }>;
   assumptions: string[];
   questionsNeeded: string[];
+  vatClass: VATSupplyType;
 }
 
 function detectTaxType(description: string, amount: number, category?: string): TaxTypeDetection {
@@ -113,12 +119,17 @@ function detectTaxType(description: string, amount: number, category?: string):
   const assumptions: string[] = [];
   const questionsNeeded: string[] = [];
   let transactionType: TaxTransactionType = "other";
+  const vatClassification = classifyVATSupply({ transactionCategory: category, description });
 
   // Sales/Revenue detection
   if (desc.includes("sale") || desc.includes("revenue") || desc.includes("invoice") || cat === "sales") {
     transactionType = "sale";
-    applicableTaxes.push({ taxType: "VAT", reason: "Sale of goods/services" });
-    assumptions.push("Applied 7.5% VAT on sale");
+    if (vatClassification.supplyType === "standard") {
+      applicableTaxes.push({ taxType: "VAT", reason: "Sale of goods/services" });
+      assumptions.push("Applied 7.5% VAT on sale");
+    } else {
+      assumptions.push(`${vatClassification.note} - no output VAT`);
+    }
   }
   // Service payments (WHT applicable)
   else if (desc.includes("professional") || desc.includes("consultancy") || desc.includes("legal") || 
@@ -184,8 +195,12 @@ function detectTaxType(description: string, amount: number, category?: string):
   // Purchases
   else if (desc.includes("purchase") || desc.includes("bought") || cat === "purchases") {
     transactionType = "purchase";
-    applicableTaxes.push({ taxType: "VAT", reason: "Input VAT on purchase" });
-    assumptions.push("Recording input VAT for offset");
+    if (vatClassification.supplyType === "standard") {
+      applicableTaxes.push({ taxType: "VAT", reason: "Input VAT on purchase" });
+      assumptions.push("Recording input VAT for offset");
+    } else {
+      assumptions.push(`${vatClassification.note} - no input VAT to recover`);
+    }
   }
   // General expenses
   else if (cat === "expense" || desc.includes("expense") || amount < 0) {
@@ -203,6 +218,7 @@ function detectTaxType(description: string, amount: number, category?: string):
     applicableTaxes,
     assumptions,
     questionsNeeded,
+    vatClass: vatClassification.supplyType,
   };
 }
 
@@ -218,9 +234,20 @@ function computeTaxForTransaction(
   let totalTax = 0;
   const amount = Math.abs(tx.amount);
 
+  const vatClass = tx.vatClass ?? classifyVATSupply({ transactionCategory: tx.category, description: tx.description }).supplyType;
+
   switch (tx.type) {
     case "sale": {
-      // VAT on sales
+      // VAT on sales; exempt and zero-rated supplies carry none
+      if (vatClass !== "standard") {
+        taxesApplied.push({
+          taxType: "VAT",
+          rate: 0,
+          taxAmount: 0,
+          note: vatClass === "exempt" ? "VAT-exempt supply" : "Zero-rated supply @ 0%",
+        });
+        break;
+      }
       const vatRate = getClientVATRate();
       const vatAmount = amount * vatRate;
       taxesApplied.push({
@@ -319,7 +346,10 @@ function computeTaxForTransaction(
     }
 
     case "purchase": {
-      // Input VAT (credit, not tax payable)
+      // Input VAT (credit, not tax payable); none is charged on exempt or zero-rated goods
+      if (vatClass !== "standard") {
+        break;
+      }
       const vatRate = getClientVATRate();
       const inputVat = amount * vatRate;
       taxesApplied.push({
@@ -433,6 +463,7 @@ class TaxEngine {
       ...tx,
       id: `TX-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
       type: tx.type || detection.transactionType,
+      vatClass: tx.vatClass ?? detection.vatClass,
     };
 
     // Compute taxes
@@ -487,20 +518,22 @@ class TaxEngine {
   private getDueDate(taxType: string, period: string): string {
     const [year, quarter] = period.split("-");
     const q = parseInt(quarter.replace("Q", ""));
-    
-    // VAT due 21st of following month
+    // Monthly returns for the last month of the quarter
+    const lastMonth = `${year}-${String(q * 3).padStart(2, "0")}`;
+
+    // VAT and WHT due 21st of following month
     if (taxType === "VAT") {
-      const month = q * 3;
-      return `${year}-${String(month + 1).padStart(2, "0")}-21`;
+      return vatDueDate(lastMonth);
     }
-    // WHT due 21st of following month
     if (taxType === "WHT") {
-      const month = q * 3;
-      return `${year}-${String(month + 1).padStart(2, "0")}-21`;
+      return whtDueDate(lastMonth);
     }
-    // CIT/PIT due 6 months after year end
+    // CIT six months after the financial year end, PIT by 31 March
     if (taxType === "CIT" || taxType === "PIT") {
-      return `${parseInt(year) + 1}-06-30`;
+      return annualReturnDueDate(
+        { taxpayerType: taxType === "CIT" ? "company" : "freelancer", fiscalYearEnd: this.state.profile.fiscalYearEnd },
+        parseInt(year)
+      );
     }
     // CGT due 30 days after disposal
     if (taxType === "CGT") {
@@ -0,0 +1,217 @@
+/**
+ * Unit tests for the capital allowance schedule and its effect on the Nigeria tax computation
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+    scheduleAsset,
+    buildCapitalAllowanceSchedule,
+    computeCapitalAllowances,
+} from "../capitalAllowances";
+import { calculateTaxForNigeria } from "../ng";
+import { FixedAssetRecord, TaxInputs, UserProfile } from "../../types";
+
+const plant: FixedAssetRecord = {
+    id: "PM-001",
+    description: "Packaging line",
+    assetClass: "plant-machinery",
+    cost: 10000000,
+    acquisitionDate: "2024-03-01",
+};
+
+const building: FixedAssetRecord = {
+    id: "BLD-001",
+    description: "Warehouse",
+    assetClass: "buildings",
+    cost: 100000000,
+    acquisitionDate: "2020-01-15",
+};
+
+describe("Capital Allowance Schedule", () => {
+    it("should give initial and annual allowances in the year of acquisition", () => {
+        const line = scheduleAsset(plant, 2024)!;
+
+        expect(line.openingTWDV).toBe(0);
+        expect(line.additions).toBe(10000000);
+        expect(line.initialAllowance).toBe(5000000);
+        expect(line.annualAllowance).toBe(1000000);
+        expect(line.closingTWDV).toBe(4000000);
+    });
+
+    it("should apply reducing-balance allowances in later years", () => {
+        const line = scheduleAsset(plant, 2025)!;
+
+        expect(line.openingTWDV).toBe(4000000);
+        expect(line.initialAllowance).toBe(0);
+        expect(line.annualAllowance).toBe(800000);
+        expect(line.closingTWDV).toBe(3200000);
+    });
+
+    it("should apply straight-line allowances on the residue after initial allowance", () => {
+        const line = scheduleAsset(building, 2024)!;
+
+        expect(line.openingTWDV).toBe(68000000);
+        expect(line.annualAllowance).toBe(4250000);
+        expect(line.closingTWDV).toBe(63750000);
+    });
+
+    it("should keep ₦10 in the books until disposal", () => {
+        const line = scheduleAsset({ ...plant, assetClass: "computers", cost: 20 }, 2024)!;
+
+        expect(line.initialAllowance).toBe(10);
+        expect(line.annualAllowance).toBe(0);
+        expect(line.closingTWDV).toBe(10);
+    });
+
+    it("should exclude assets acquired after or disposed before the tax year", () => {
+        const schedule = buildCapitalAllowanceSchedule([
+            plant,
+            { ...building, disposalDate: "2022-06-30", disposalProceeds: 90000000 },
+        ], 2023);
+
+        expect(schedule).toEqual([]);
+    });
+
+    describe("disposals", () => {
+        const sold = (proceeds: number): FixedAssetRecord => ({
+            ...plant,
+            acquisitionDate: "2023-02-01",
+            disposalDate: "2024-09-30",
+            disposalProceeds: proceeds,
+        });
+
+        it("should raise a balancing charge when proceeds exceed the TWDV", () => {
+            const line = scheduleAsset(sold(6000000), 2024)!;
+
+            expect(line.disposed).toBe(true);
+            expect(line.annualAllowance).toBe(0);
+            expect(line.balancingCharge).toBe(2000000);
+            expect(line.closingTWDV).toBe(0);
+        });
+
+        it("should limit the balancing charge to allowances previously claimed", () => {
+            const line = scheduleAsset(sold(12000000), 2024)!;
+
+            expect(line.balancingCharge).toBe(6000000);
+        });
+
+        it("should give a balancing allowance when proceeds fall short of the TWDV", () => {
+            const line = scheduleAsset(sold(1000000), 2024)!;
+
+            expect(line.balancingCharge).toBe(0);
+            expect(line.balancingAllowance).toBe(3000000);
+        });
+    });
+
+    it("should reject asset classes without a FIRS rate", () => {
+        const asset = { ...plant, assetClass: "aircraft" } as unknown as FixedAssetRecord;
+        expect(() => scheduleAsset(asset, 2024)).toThrow(/No capital allowance rate/);
+    });
+});
+
+describe("Capital Allowance Claim", () => {
+    it("should restrict the claim and carry the balance forward", () => {
+        const summary = computeCapitalAllowances(
+            { fixedAssets: [plant] },
+            { taxYear: 2024, profitBeforeAllowances: 3000000, restrictionRate: 2 / 3 }
+        )!;
+
+        expect(summary.totalAvailable).toBe(6000000);
+        expect(summary.restrictionCap).toBe(2000000);
+        expect(summary.allowanceClaimed).toBe(2000000);
+        expect(summary.unabsorbedCarriedForward).toBe(4000000);
+    });
+
+    it("should not let allowances create a loss", () => {
+        const summary = computeCapitalAllowances(
+            { fixedAssets: [plant], unabsorbedCapitalAllowance: 500000 },
+            { taxYear: 2024, profitBeforeAllowances: 1000000 }
+        )!;
+
+        expect(summary.unabsorbedBroughtForward).toBe(500000);
+        expect(summary.allowanceClaimed).toBe(1000000);
+        expect(summary.unabsorbedCarriedForward).toBe(5500000);
+    });
+
+    it("should fall back to the manual figure when no register is supplied", () => {
+        const summary = computeCapitalAllowances(
+            { capitalAllowance: 750000 },
+            { taxYear: 2024, profitBeforeAllowances: 5000000 }
+        )!;
+
+        expect(summary.source).toBe("manual");
+        expect(summary.schedule).toEqual([]);
+        expect(summary.allowanceClaimed).toBe(750000);
+    });
+
+    it("should return undefined when there is nothing to claim", () => {
+        expect(computeCapitalAllowances({}, { taxYear: 2024, profitBeforeAllowances: 5000000 })).toBeUndefined();
+    });
+});
+
+describe("Capital allowances in calculateTaxForNigeria", () => {
+    const baseProfile: UserProfile = {
+        fullName: "Test Taxpayer",
+        taxpayerType: "company",
+        taxYear: 2024,
+        stateOfResidence: "Lagos",
+        isVATRegistered: false,
+        currency: "NGN",
+    };
+
+    it("should restrict company claims to two-thirds of assessable profit", () => {
+        const inputs: TaxInputs = {
+            grossRevenue: 200000000,
+            allowableExpenses: 150000000,
+            fixedAssets: [{ ...plant, cost: 90000000 }],
+        };
+
+        const result = calculateTaxForNigeria(baseProfile, inputs);
+
+        expect(result.capitalAllowances?.totalAvailable).toBe(54000000);
+        expect(result.capitalAllowances?.allowanceClaimed).toBeCloseTo(33333333.33, 0);
+        expect(result.taxableIncome).toBeCloseTo(16666666.67, 0);
+        expect(result.totalTaxDue).toBeCloseTo(5000000, 0);
+
+        const steps = result.reconciliationReport!.map(row => row.step_id);
+        expect(steps).toContain("CAPITAL_ALLOWANCES");
+        expect(steps).toContain("TAXABLE_PROFIT");
+        expect(result.notes.some(note => note.includes("carried forward"))).toBe(true);
+    });
+
+    it("should add balancing charges to company profit", () => {
+        const inputs: TaxInputs = {
+            grossRevenue: 200000000,
+            allowableExpenses: 150000000,
+            fixedAssets: [{ ...plant, acquisitionDate: "2023-02-01", disposalDate: "2024-09-30", disposalProceeds: 6000000 }],
+        };
+
+        const result = calculateTaxForNigeria(baseProfile, inputs);
+
+        expect(result.capitalAllowances?.balancingCharges).toBe(2000000);
+        expect(result.taxableIncome).toBe(52000000);
+        expect(result.reconciliationReport!.some(row => row.step_id === "BALANCING_CHARGES")).toBe(true);
+    });
+
+    it("should not restrict claims for individuals", () => {
+        const inputs: TaxInputs = {
+            grossRevenue: 10000000,
+            allowableExpenses: 2000000,
+            fixedAssets: [{ ...plant, assetClass: "computers", cost: 2000000 }],
+        };
+
+        const result = calculateTaxForNigeria({ ...baseProfile, taxpayerType: "freelancer" }, inputs);
+        const netIncome = result.reconciliationReport!.find(row => row.step_id === "NET_BUSINESS_INCOME");
+
+        expect(result.capitalAllowances?.restrictionCap).toBeUndefined();
+        expect(result.capitalAllowances?.allowanceClaimed).toBe(1250000);
+        expect(netIncome?.value).toBe(6750000);
+    });
+
+    it("should leave the computation unchanged without a register or manual figure", () => {
+        const result = calculateTaxForNigeria(baseProfile, { grossRevenue: 200000000, allowableExpenses: 150000000 });
+
+        expect(result.capitalAllowances).toBeUndefined();
+        expect(result.reconciliationReport!.some(row => row.step_id === "CAPITAL_ALLOWANCES")).toBe(false);
+    });
+});
@@ -0,0 +1,182 @@
+/**
+ * Unit tests for the provisional CIT estimate and instalment planner
+ */
+
+import fs from "fs";
+import { describe, it, expect } from "vitest";
+import {
+    buildCITInstalmentPlan,
+    citInstalmentObligations,
+    estimateProvisionalCIT,
+    ledgerProfitToDate,
+} from "../citProvisional";
+import { calculateTaxForNigeria } from "../ng";
+import { calculateSafeToSave, cashflowEngine } from "../../cashflow/cashflowEngine";
+import { DEFAULT_SAFE_TO_SAVE_CONFIG } from "../../cashflow/types";
+import { JournalEntry } from "../../accounting/doubleEntry";
+import { UserProfile } from "../../types";
+import { withTempStore } from "./tempStore";
+
+const store = withTempStore("cit-instalments-", { CIT_INSTALMENT_FILE: "instalments.json" }, () => import("../citInstalmentStore"));
+
+function journal(id: string, date: string, account: string, amount: number, status: JournalEntry["status"] = "posted"): JournalEntry {
+    const isIncome = account.startsWith("4");
+    return {
+        id,
+        date,
+        narration: id,
+        lines: [
+            { accountCode: "1020", accountName: "Bank", debit: isIncome ? amount : 0, credit: isIncome ? 0 : amount },
+            { accountCode: account, accountName: account, debit: isIncome ? 0 : amount, credit: isIncome ? amount : 0 },
+        ],
+        isBalanced: true,
+        totalDebits: amount,
+        totalCredits: amount,
+        transactionType: isIncome ? "sale" : "expense",
+        createdAt: date,
+        status,
+    };
+}
+
+const ledger = [
+    journal("JE-1", "2024-06-30", "4000", 99000000),          // prior financial year
+    journal("JE-2", "2024-08-15", "4000", 150000000),
+    journal("JE-3", "2024-09-10", "5000", 60000000),
+    journal("JE-4", "2024-10-01", "5500", 20000000),
+    journal("JE-5", "2024-11-20", "7000", 5000000),           // tax charge, not deductible
+    journal("JE-6", "2024-12-05", "4000", 10000000, "draft"),
+    journal("JE-7", "2025-01-15", "4000", 30000000),           // after asOf
+];
+
+const profile: UserProfile = {
+    fullName: "Provisional Co",
+    taxpayerType: "company",
+    taxYear: 2025,
+    stateOfResidence: "Lagos",
+    isVATRegistered: true,
+    currency: "NGN",
+    fiscalYearEnd: "06-30",
+};
+
+describe("Provisional CIT estimate", () => {
+    it("should total the posted ledger from the start of the financial year", () => {
+        const toDate = ledgerProfitToDate(ledger, { taxYear: 2025, fiscalYearEnd: "06-30", asOf: "2024-12-31" });
+
+        expect(toDate).toMatchObject({
+            yearStart: "2024-07-01",
+            yearEnd: "2025-06-30",
+            daysElapsed: 184,
+            daysInYear: 365,
+            revenue: 150000000,
+            costOfSales: 60000000,
+            operatingExpenses: 20000000,
+            taxExpense: 5000000,
+            profit: 70000000,
+        });
+    });
+
+    it("should annualise the profit and run it through the CIT rules", () => {
+        const estimate = estimateProvisionalCIT(profile, ledger, { taxYear: 2025, asOf: "2024-12-31" });
+        const factor = 365 / 184;
+        const direct = calculateTaxForNigeria(profile, {
+            grossRevenue: estimate.annualised.revenue,
+            turnover: estimate.annualised.revenue,
+            allowableExpenses: estimate.annualised.costOfSales + estimate.annualised.operatingExpenses,
+        });
+
+        expect(estimate.annualised.profit).toBeCloseTo(70000000 * factor, 0);
+        expect(estimate.estimatedLiability).toBe(direct.totalTaxDue);
+        expect(estimate.estimatedLiability).toBeGreaterThan(0);
+        expect(estimate.notes.some(note => /not deductible/.test(note))).toBe(true);
+        expect(() => estimateProvisionalCIT({ ...profile, taxpayerType: "freelancer" }, ledger, { taxYear: 2025, asOf: "2024-12-31" })).toThrow(/companies only/);
+    });
+});
+
+describe("CIT instalment plan", () => {
+    const base = { taxYear: 2025, fiscalYearEnd: "06-30", instalments: 3, estimatedLiability: 1000000 };
+
+    it("should split the liability into monthly instalments from the return due date", () => {
+        const plan = buildCITInstalmentPlan({ ...base, payments: [] }, "2025-12-01");
+
+        expect(plan.schedule.map(line => [line.id, line.dueDate, line.amount, line.status])).toEqual([
+            ["CIT-2025-I1", "2025-12-31", 333333.33, "due"],
+            ["CIT-2025-I2", "2026-01-31", 333333.33, "due"],
+            ["CIT-2025-I3", "2026-02-28", 333333.34, "due"],
+        ]);
+        expect(() => buildCITInstalmentPlan({ ...base, instalments: 6, payments: [] }, "2025-12-01")).toThrow(/1 to 5/);
+    });
+
+    it("should apply payments oldest first and prefer the self-assessed liability", () => {
+        const plan = buildCITInstalmentPlan({
+            ...base,
+            assessedLiability: 1200000,
+            payments: [{ paidOn: "2025-12-20", amount: 400000 }, { paidOn: "2026-02-01", amount: 100000 }],
+        }, "2026-02-05");
+
+        expect(plan.basis).toBe("self_assessment");
+        expect(plan.schedule.map(line => [line.paid, line.outstanding, line.status])).toEqual([
+            [400000, 0, "paid"],
+            [100000, 300000, "overdue"],
+            [0, 400000, "due"],
+        ]);
+        expect(plan).toMatchObject({ totalPaid: 500000, outstanding: 700000, overpaid: 0 });
+    });
+
+    it("should feed unpaid instalments to the cashflow engine's upcoming obligations", () => {
+        const plan = buildCITInstalmentPlan({ ...base, payments: [{ paidOn: "2025-12-31", amount: 333333.33 }] }, "2026-01-10");
+        const obligations = citInstalmentObligations(plan);
+        const position = { cashBalance: 5000000, receivables: 0, payables: 0, netPosition: 5000000, availableCash: 5000000, calculatedAt: "", period: { start: "", end: "" } };
+        const metrics = { burnRate: 0, surplusRate: 0, netCashflowRate: 0, runwayDays: 999, weeklyNetCashflow: 0, monthlyNetCashflow: 0, periodDays: 30, status: "healthy" as const };
+
+        expect(obligations.map(obligation => [obligation.id, obligation.dueDate, obligation.amount])).toEqual([
+            ["cit-instalment-2025-2", "2026-01-31", 333333.33],
+            ["cit-instalment-2025-3", "2026-02-28", 333333.34],
+        ]);
+        // Only obligations inside the safety window are reserved, so push them into it
+        const dueNow = obligations.map(obligation => ({ ...obligation, dueDate: new Date().toISOString().slice(0, 10) }));
+        const result = calculateSafeToSave(position, metrics, { ...DEFAULT_SAFE_TO_SAVE_CONFIG, upcomingObligations: dueNow });
+        expect(result.breakdown.upcomingObligations).toBeCloseTo(666666.67, 2);
+    });
+
+    it("should replace the year's instalments in the engine's obligations as they are paid", () => {
+        cashflowEngine.reset();
+        const rent = { id: "rent-2026", description: "Office rent", amount: 1200000, dueDate: "2026-02-01", isRecurring: true };
+        cashflowEngine.updateConfig({ safeToSave: { ...DEFAULT_SAFE_TO_SAVE_CONFIG, upcomingObligations: [rent] } });
+        const sync = (plan: ReturnType<typeof buildCITInstalmentPlan>) =>
+            cashflowEngine.syncObligations(`cit-instalment-${plan.taxYear}-`, citInstalmentObligations(plan));
+
+        sync(buildCITInstalmentPlan({ ...base, payments: [] }, "2025-12-15"));
+        expect(cashflowEngine.getUpcomingObligations().map(obligation => [obligation.id, obligation.amount])).toEqual([
+            ["cit-instalment-2025-1", 333333.33],
+            ["cit-instalment-2025-2", 333333.33],
+            ["rent-2026", 1200000],
+            ["cit-instalment-2025-3", 333333.34],
+        ]);
+
+        sync(buildCITInstalmentPlan({ ...base, payments: [{ paidOn: "2025-12-31", amount: 500000 }] }, "2026-01-10"));
+        expect(cashflowEngine.getUpcomingObligations().map(obligation => [obligation.id, obligation.amount])).toEqual([
+            ["cit-instalment-2025-2", 166666.66],
+            ["rent-2026", 1200000],
+            ["cit-instalment-2025-3", 333333.34],
+        ]);
+        cashflowEngine.reset();
+    });
+});
+
+describe("CIT instalment store", () => {
+    it("should keep the estimate, self-assessment and payments for the year", () => {
+        const estimate = estimateProvisionalCIT(profile, ledger, { taxYear: 2025, asOf: "2024-12-31" });
+        store.saveCITEstimate("TIN-CIT", estimate, 2);
+        store.recordCITSelfAssessment("TIN-CIT", 2025, 800000);
+        store.recordCITInstalmentPayment("TIN-CIT", 2025, { paidOn: "2025-12-30", amount: 400000, reference: "FIRS-1" });
+
+        const plan = store.getCITInstalmentPlan("TIN-CIT", 2025, "2026-01-05");
+        expect(plan.schedule.map(line => [line.amount, line.status])).toEqual([[400000, "paid"], [400000, "due"]]);
+        expect(JSON.parse(fs.readFileSync(process.env.CIT_INSTALMENT_FILE!, "utf-8")).plans[0].estimate.estimatedLiability).toBe(estimate.estimatedLiability);
+    });
+
+    it("should reject payments against years without a plan", () => {
+        expect(() => store.recordCITInstalmentPayment("TIN-CIT", 2026, { paidOn: "2026-12-31", amount: 1 })).toThrow(/No CIT instalment plan/);
+        expect(() => store.recordCITInstalmentPayment("TIN-CIT", 2025, { paidOn: "2026-12-31", amount: 0 })).toThrow(/positive/);
+    });
+});
@@ -0,0 +1,102 @@
+/**
+ * Unit tests for the rulebook formula language
+ */
+
+import { describe, it, expect } from "vitest";
+import { parseFormula, validateRuleBookFormulas, FormulaError } from "../formula";
+import { evaluateFormula, evaluateRule, TaxRuleBook, TaxRule } from "../rulebook";
+
+const constant = (formula: string): TaxRule => ({ type: "constant", formula });
+
+describe("Rulebook formulas", () => {
+    describe("evaluateFormula", () => {
+        it("should respect operator precedence and parentheses", () => {
+            expect(evaluateFormula("2 + 3 * 4", {})).toBe(14);
+            expect(evaluateFormula("(2 + 3) * 4", {})).toBe(20);
+            expect(evaluateFormula("-2 * -3", {})).toBe(6);
+            expect(evaluateFormula("0.2 * 1.5e6", {})).toBe(300000);
+        });
+
+        it("should support min, max, if and comparisons", () => {
+            const context = { gross_revenue: 10000000 };
+            expect(evaluateFormula("max(200000, gross_revenue * 0.01)", context)).toBe(200000);
+            expect(evaluateFormula("min(1, 2, 3)", {})).toBe(1);
+            expect(evaluateFormula("gross_revenue > 25000000", context)).toBe(0);
+            expect(evaluateFormula("if(gross_revenue <= 25000000, 0, 0.3)", context)).toBe(0);
+            expect(evaluateFormula("if(1 == 1, 10, 1 / 0)", {})).toBe(10);
+        });
+
+        it("should resolve references to other rules", () => {
+            const rules = {
+                RATE: constant("0.2"),
+                CAP: constant("500000"),
+                RELIEF: { type: "expression", formula: "min(rent_paid * RATE, CAP)" } as TaxRule,
+            };
+            expect(evaluateFormula("RELIEF", { rent_paid: 1000000 }, rules)).toBe(200000);
+            expect(evaluateFormula("RELIEF", { rent_paid: 9000000 }, rules)).toBe(500000);
+        });
+
+        it("should throw on unknown identifiers instead of returning 0", () => {
+            expect(() => evaluateFormula("gross_income * 0.01", {})).toThrow(FormulaError);
+            expect(() => evaluateFormula("process.exit()", {})).toThrow(FormulaError);
+        });
+    });
+
+    describe("parseFormula", () => {
+        it("should report the position of syntax errors", () => {
+            const cases: [string, number][] = [
+                ["1 +", 3],
+                ["(1 + 2", 6],
+                ["1 $ 2", 2],
+                ["sqrt(4)", 0],
+                ["if(1, 2)", 0],
+                ["1 2", 2],
+            ];
+            for (const [formula, position] of cases) {
+                try {
+                    parseFormula(formula);
+                    throw new Error(`expected ${formula} to fail`);
+                } catch (error) {
+                    expect(error).toBeInstanceOf(FormulaError);
+                    expect((error as FormulaError).position).toBe(position);
+                }
+            }
+        });
+    });
+
+    describe("validateRuleBookFormulas", () => {
+        it("should reject unknown identifiers with the rule key and position", () => {
+            try {
+                validateRuleBookFormulas({ rules: { CRA: constant("max(CRA_FIXED, gross_income)") } });
+                throw new Error("expected validation to fail");
+            } catch (error) {
+                const formulaError = error as FormulaError;
+                expect(formulaError).toBeInstanceOf(FormulaError);
+                expect(formulaError.ruleKey).toBe("CRA");
+                expect(formulaError.position).toBe(4);
+                expect(formulaError.message).toContain('Unknown identifier "CRA_FIXED"');
+            }
+        });
+
+        it("should accept declared variables and detect circular references", () => {
+            expect(() => validateRuleBookFormulas({
+                variables: ["employee_count"],
+                rules: { LEVY: constant("employee_count * 100") },
+            })).not.toThrow();
+
+            expect(() => validateRuleBookFormulas({
+                rules: { A: constant("B + 1"), B: constant("A * 2") },
+            })).toThrow(/Circular reference/);
+        });
+    });
+
+    it("should name the rule when evaluateRule fails", () => {
+        const rulebook = {
+            metadata: { tax_year: "2024", jurisdiction: "Federal", version: "test", effective_date: "2024-01-01" },
+            rules: { MIN_TAX: constant("turnover * 0.005") },
+        } as TaxRuleBook;
+
+        expect(evaluateRule(rulebook, "MIN_TAX", { turnover: 1000000 })).toBe(5000);
+        expect(() => evaluateRule(rulebook, "MIN_TAX")).toThrow(/in rule MIN_TAX/);
+    });
+});
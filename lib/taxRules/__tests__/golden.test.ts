@@ -0,0 +1,50 @@
+/**
+ * Golden-file regression suite: every scenario in ./golden must reproduce its
+ * frozen TaxResult and reconciliation report. Refresh intentionally changed
+ * fixtures with `npm run test:golden -- --update`.
+ */
+
+import fs from "fs";
+import path from "path";
+import { describe, it, expect } from "vitest";
+import {
+    GoldenScenario,
+    checkGoldenScenario,
+    diffGoldenSnapshots,
+    formatGoldenReport,
+} from "../golden";
+
+const GOLDEN_DIR = path.join(__dirname, "golden");
+const scenarios: GoldenScenario[] = fs.readdirSync(GOLDEN_DIR)
+    .filter(file => file.endsWith(".json"))
+    .sort()
+    .map(file => JSON.parse(fs.readFileSync(path.join(GOLDEN_DIR, file), "utf-8")));
+
+describe("Golden tax computations", () => {
+    it("should cover both rulebook regimes", () => {
+        const rulebooks = new Set(scenarios.map(scenario => scenario.expected.rulebook.split("@")[0]));
+        expect(rulebooks).toEqual(new Set(["ng_federal_2024", "ng_federal_2026"]));
+    });
+
+    it.each(scenarios.map(scenario => [scenario.name, scenario] as const))("%s", (_name, scenario) => {
+        const result = checkGoldenScenario(scenario);
+        if (!result.passed) {
+            throw new Error(`Golden scenario moved:\n${formatGoldenReport([result])}`);
+        }
+    });
+
+    it("should report moved lines with their deltas", () => {
+        const scenario = scenarios.find(s => s.name === "medium-company-2024")!;
+        const stale = JSON.parse(JSON.stringify(scenario.expected));
+        stale.totalTaxDue = 7000000;
+        stale.reconciliationReport = stale.reconciliationReport.filter((row: { step_id: string }) => row.step_id !== "VAT_NET_PAYABLE");
+
+        const actual = checkGoldenScenario({ ...scenario, expected: stale });
+        const report = formatGoldenReport([actual]);
+
+        expect(diffGoldenSnapshots(stale, actual.actual)).toHaveLength(2);
+        expect(report).toContain("✗ medium-company-2024 (2 changes)");
+        expect(report).toContain("totalTaxDue: 7,000,000 → 8,000,000 (+1,000,000)");
+        expect(report).toContain("reconciliation.VAT_NET_PAYABLE: (absent) → 2,550,000");
+    });
+});
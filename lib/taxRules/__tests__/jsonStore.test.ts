@@ -0,0 +1,42 @@
+/**
+ * Unit tests for the shared JSON file store
+ */
+
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { describe, it, expect, afterAll, vi } from "vitest";
+import { createJsonStore, JsonStoreError } from "../jsonStore";
+
+const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "json-store-"));
+
+afterAll(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+});
+
+describe("JSON store", () => {
+    it("should save every change to the file", () => {
+        const file = path.join(tempDir, "saved", "store.json");
+        const store = createJsonStore<{ items: string[] }>({ file, description: "test store", empty: () => ({ items: [] }) });
+
+        store.load().items.push("first");
+        store.persist();
+
+        expect(JSON.parse(fs.readFileSync(file, "utf-8"))).toEqual({ items: ["first"] });
+    });
+
+    it("should raise a 500 when the file cannot be written and drop the unsaved change", () => {
+        // A file where the store's directory should be
+        const blocker = path.join(tempDir, "blocker");
+        fs.writeFileSync(blocker, "");
+        const store = createJsonStore<{ items: string[] }>({ file: path.join(blocker, "store.json"), description: "test store", empty: () => ({ items: [] }) });
+        const consoleError = vi.spyOn(console, "error").mockImplementation(() => undefined);
+
+        store.load().items.push("unsaved");
+
+        expect(() => store.persist()).toThrow(JsonStoreError);
+        expect(() => store.persist()).toThrow(expect.objectContaining({ status: 500, message: "Could not save the test store" }));
+        expect(store.load().items).toEqual([]);
+        consoleError.mockRestore();
+    });
+});
@@ -0,0 +1,171 @@
+/**
+ * Unit tests for loss relief and the stored loss ledger
+ */
+
+import fs from "fs";
+import { describe, it, expect } from "vitest";
+import { applyLossRelief, remainingLoss } from "../lossRelief";
+import { calculateTaxForNigeria } from "../ng";
+import { LossLedgerEntry, UserProfile } from "../../types";
+import { withTempStore } from "./tempStore";
+
+const store = withTempStore("tax-losses-", { TAX_LOSS_LEDGER_FILE: "ledger.json" }, () => import("../lossLedger"));
+
+const ledger: LossLedgerEntry[] = [
+    { taxYear: 2021, adjustedLoss: 4000000, utilisations: [{ taxYear: 2022, amount: 1000000 }] },
+    { taxYear: 2023, adjustedLoss: 5000000, utilisations: [] },
+];
+
+describe("Loss Relief", () => {
+    it("should relieve the oldest losses first", () => {
+        const summary = applyLossRelief({ lossLedger: ledger }, { taxYear: 2024, taxpayerType: "company", adjustedProfit: 5000000 })!;
+
+        expect(summary.schedule.map(line => [line.lossYear, line.utilised, line.carriedForward])).toEqual([
+            [2021, 3000000, 0],
+            [2023, 2000000, 3000000],
+        ]);
+        expect(summary.utilised).toBe(5000000);
+        expect(summary.carriedForward).toBe(3000000);
+    });
+
+    it("should never relieve more than the year's profit", () => {
+        const summary = applyLossRelief({ lossLedger: ledger }, { taxYear: 2024, taxpayerType: "company", adjustedProfit: 1000000 })!;
+
+        expect(summary.utilised).toBe(1000000);
+        expect(summary.carriedForward).toBe(7000000);
+    });
+
+    it("should expire individual losses after four years", () => {
+        const summary = applyLossRelief(
+            { lossLedger: [{ taxYear: 2019, adjustedLoss: 2000000, utilisations: [] }, ...ledger] },
+            { taxYear: 2024, taxpayerType: "freelancer", adjustedProfit: 10000000 }
+        )!;
+
+        expect(summary.schedule[0]).toMatchObject({ lossYear: 2019, expired: 2000000, utilised: 0, lastYearOfRelief: 2023 });
+        expect(summary.expired).toBe(2000000);
+        expect(summary.utilised).toBe(8000000);
+    });
+
+    it("should carry company losses forward without a time limit", () => {
+        const summary = applyLossRelief(
+            { lossLedger: [{ taxYear: 2015, adjustedLoss: 2000000, utilisations: [] }] },
+            { taxYear: 2024, taxpayerType: "company", adjustedProfit: 10000000 }
+        )!;
+
+        expect(summary.expired).toBe(0);
+        expect(summary.utilised).toBe(2000000);
+        expect(summary.schedule[0].lastYearOfRelief).toBeUndefined();
+    });
+
+    it("should add a current-year loss to the amount carried forward", () => {
+        const summary = applyLossRelief({ lossLedger: ledger }, { taxYear: 2024, taxpayerType: "company", adjustedProfit: -2500000 })!;
+
+        expect(summary.utilised).toBe(0);
+        expect(summary.currentYearLoss).toBe(2500000);
+        expect(summary.carriedForward).toBe(10500000);
+    });
+
+    it("should ignore utilisations recorded for the year being computed", () => {
+        const entry: LossLedgerEntry = { taxYear: 2021, adjustedLoss: 4000000, utilisations: [{ taxYear: 2022, amount: 1000000 }, { taxYear: 2024, amount: 3000000 }] };
+
+        expect(remainingLoss(entry, 2024)).toBe(3000000);
+        expect(remainingLoss(entry, 2025)).toBe(0);
+    });
+
+    it("should fall back to the manual prior year figure", () => {
+        const summary = applyLossRelief({ priorYearLosses: 800000 }, { taxYear: 2024, taxpayerType: "freelancer", adjustedProfit: 5000000 })!;
+
+        expect(summary.source).toBe("manual");
+        expect(summary.utilised).toBe(800000);
+    });
+
+    it("should return undefined when there are no losses", () => {
+        expect(applyLossRelief({}, { taxYear: 2024, taxpayerType: "company", adjustedProfit: 5000000 })).toBeUndefined();
+    });
+});
+
+describe("Loss relief in calculateTaxForNigeria", () => {
+    const profile: UserProfile = {
+        fullName: "Loss Co",
+        taxpayerType: "company",
+        taxYear: 2024,
+        stateOfResidence: "Lagos",
+        isVATRegistered: false,
+        currency: "NGN",
+    };
+
+    it("should reduce taxable profit and show the loss schedule", () => {
+        const result = calculateTaxForNigeria(profile, {
+            grossRevenue: 200000000,
+            allowableExpenses: 180000000,
+            turnover: 200000000,
+            lossLedger: ledger,
+        });
+
+        expect(result.lossRelief?.utilised).toBe(8000000);
+        expect(result.taxableIncome).toBe(12000000);
+
+        const steps = result.reconciliationReport!.map(row => row.step_id);
+        expect(steps).toEqual(expect.arrayContaining(["LOSS_RELIEF_2021", "LOSS_RELIEF_2023", "LOSS_RELIEF", "LOSSES_CARRIED_FORWARD", "TAXABLE_PROFIT"]));
+        expect(steps.indexOf("LOSS_RELIEF")).toBeLessThan(steps.indexOf("CIT_PRIMARY"));
+    });
+
+    it("should relieve losses before capital allowances", () => {
+        const result = calculateTaxForNigeria(profile, {
+            grossRevenue: 200000000,
+            allowableExpenses: 180000000,
+            turnover: 200000000,
+            lossLedger: ledger,
+            capitalAllowance: 30000000,
+        });
+
+        // Restriction applies to the 12M left after loss relief
+        expect(result.capitalAllowances?.allowanceClaimed).toBe(8000000);
+        expect(result.taxableIncome).toBe(4000000);
+    });
+});
+
+describe("Loss ledger store", () => {
+    it("should record losses and their utilisation by year", () => {
+        store.recordAdjustedLoss("TIN-001", { taxpayerType: "company", taxYear: 2022, adjustedLoss: 6000000 });
+
+        const summary = applyLossRelief(
+            { lossLedger: store.getLossLedger("TIN-001")!.entries },
+            { taxYear: 2023, taxpayerType: "company", adjustedProfit: 2000000 }
+        )!;
+        const ledgerAfter = store.recordLossRelief("TIN-001", "company", summary);
+
+        expect(ledgerAfter.entries[0].utilisations).toEqual([{ taxYear: 2023, amount: 2000000 }]);
+        expect(JSON.parse(fs.readFileSync(process.env.TAX_LOSS_LEDGER_FILE!, "utf-8")).taxpayers).toHaveLength(1);
+    });
+
+    it("should replace a year's record when it is recomputed", () => {
+        const summary = applyLossRelief(
+            { lossLedger: store.getLossLedger("TIN-001")!.entries },
+            { taxYear: 2023, taxpayerType: "company", adjustedProfit: -500000 }
+        )!;
+        const ledgerAfter = store.recordLossRelief("TIN-001", "company", summary);
+
+        expect(ledgerAfter.entries).toEqual([
+            { taxYear: 2022, adjustedLoss: 6000000, utilisations: [] },
+            { taxYear: 2023, adjustedLoss: 500000, utilisations: [] },
+        ]);
+    });
+
+    it("should reject a ledger used for a different entity type", () => {
+        expect(() => store.recordAdjustedLoss("TIN-001", { taxpayerType: "freelancer", taxYear: 2021, adjustedLoss: 100 }))
+            .toThrow(/belongs to a company/);
+    });
+
+    it("should not let a loss be reduced below the relief already given", () => {
+        store.recordAdjustedLoss("TIN-002", { taxpayerType: "company", taxYear: 2020, adjustedLoss: 1000000 });
+        const summary = applyLossRelief(
+            { lossLedger: store.getLossLedger("TIN-002")!.entries },
+            { taxYear: 2021, taxpayerType: "company", adjustedProfit: 800000 }
+        )!;
+        store.recordLossRelief("TIN-002", "company", summary);
+
+        expect(() => store.recordAdjustedLoss("TIN-002", { taxpayerType: "company", taxYear: 2020, adjustedLoss: 500000 }))
+            .toThrow(/already been relieved/);
+    });
+});
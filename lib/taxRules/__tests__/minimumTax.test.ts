@@ -0,0 +1,96 @@
+/**
+ * Unit tests for minimum tax as a rulebook-driven component
+ */
+
+import { describe, it, expect } from "vitest";
+import { calculateTaxForNigeria } from "../ng";
+import { TaxInputs, UserProfile } from "../../types";
+
+const company = (overrides: Partial<UserProfile> = {}): UserProfile => ({
+    fullName: "Acme Ltd",
+    taxpayerType: "company",
+    taxYear: 2024,
+    stateOfResidence: "Lagos",
+    isVATRegistered: false,
+    currency: "NGN",
+    ...overrides,
+});
+
+const lossMaking: TaxInputs = { grossRevenue: 30000000, allowableExpenses: 31000000, turnover: 30000000 };
+
+const row = (result: ReturnType<typeof calculateTaxForNigeria>, stepId: string) =>
+    result.reconciliationReport?.find(r => r.step_id === stepId);
+
+describe("Minimum tax", () => {
+    it("should bind on turnover when a company has no taxable profit", () => {
+        const result = calculateTaxForNigeria(company(), lossMaking);
+
+        expect(result.totalTaxDue).toBe(150000);
+        expect(result.minimumTax).toMatchObject({
+            ruleKey: "CIT_MINIMUM_TAX",
+            base: 30000000,
+            rate: 0.005,
+            minimumTax: 150000,
+            computedTax: 0,
+            binding: "minimum",
+            citation: "Companies Income Tax Act Sec 33",
+        });
+        expect(row(result, "CIT_MIN_TAX_APPLIED")?.notes).toBe("Computed tax ₦0 vs minimum tax ₦150,000: minimum tax binds.");
+    });
+
+    it("should exclude franked investment income from the company base", () => {
+        const result = calculateTaxForNigeria(company(), { ...lossMaking, frankedInvestmentIncome: 10000000 });
+
+        expect(result.minimumTax).toMatchObject({ base: 20000000, minimumTax: 100000 });
+        expect(row(result, "MINIMUM_TAX")?.formula).toBe("max(0, TURNOVER - FRANKED_INVESTMENT_INCOME) * 0.005");
+    });
+
+    it("should cite the CIT rate when the computed tax is higher", () => {
+        const result = calculateTaxForNigeria(company(), { grossRevenue: 150000000, allowableExpenses: 30000000, turnover: 150000000 });
+
+        expect(result.totalTaxDue).toBe(36000000);
+        expect(result.minimumTax).toMatchObject({ minimumTax: 750000, binding: "computed", citation: "Companies Income Tax Act Sec 9" });
+        expect(row(result, "COMPUTED_TAX_APPLIED")?.value).toBe(36000000);
+    });
+
+    it("should exempt small companies", () => {
+        const result = calculateTaxForNigeria(company(), { grossRevenue: 20000000, allowableExpenses: 21000000, turnover: 20000000 });
+
+        expect(result.totalTaxDue).toBe(0);
+        expect(result.minimumTax).toMatchObject({ binding: "exempt", exemption: "small_company", minimumTax: 0 });
+        expect(row(result, "MINIMUM_TAX_EXEMPT")?.label).toBe("Minimum Tax Exempt (Small Company)");
+    });
+
+    it("should exempt a company in its first four calendar years of business", () => {
+        const young = calculateTaxForNigeria(company({ businessCommencementDate: "2021-06-01" }), lossMaking);
+        const established = calculateTaxForNigeria(company({ businessCommencementDate: "2020-06-01" }), lossMaking);
+
+        expect(young.totalTaxDue).toBe(0);
+        expect(young.minimumTax).toMatchObject({ binding: "exempt", exemption: "commencement" });
+        expect(row(young, "MINIMUM_TAX_EXEMPT")?.label).toBe("Minimum Tax Exempt (Year 4 of 4 from Commencement)");
+        expect(established.minimumTax?.binding).toBe("minimum");
+    });
+
+    it("should charge individuals on gross income without the company exemptions", () => {
+        const result = calculateTaxForNigeria(
+            company({ taxpayerType: "freelancer", businessCommencementDate: "2024-01-01" }),
+            { grossRevenue: 1000000, allowableExpenses: 950000, frankedInvestmentIncome: 500000 }
+        );
+
+        expect(result.totalTaxDue).toBe(10000);
+        expect(result.minimumTax).toMatchObject({
+            ruleKey: "PIT_MINIMUM_TAX",
+            base: 1000000,
+            binding: "minimum",
+            citation: "Personal Income Tax Act 2011 Sec 37",
+        });
+    });
+
+    it("should leave the computed tax alone where the rulebook has no minimum tax", () => {
+        const result = calculateTaxForNigeria(company({ taxYear: 2026 }), { ...lossMaking, turnover: 300000000, grossRevenue: 300000000, allowableExpenses: 310000000 });
+
+        expect(result.totalTaxDue).toBe(0);
+        expect(result.minimumTax).toBeUndefined();
+        expect(row(result, "MINIMUM_TAX")).toBeUndefined();
+    });
+});
@@ -3,7 +3,7 @@
  */
 
 import { describe, it, expect } from "vitest";
-import { calculateTaxForNigeria } from "../ng";
+import { calculateTaxForNigeria, compareTaxRegimes } from "../ng";
 import { UserProfile, TaxInputs } from "../../types";
 
 describe("calculateTaxForNigeria", () => {
@@ -264,6 +264,7 @@ describe("calculateTaxForNigeria", () => {
             expect(result.taxpayerType).toBe("company");
             expect(result.bands[0].rate).toBe(0.30);
             expect(result.totalTaxDue).toBeGreaterThan(0);
+            expect(result.notes).toContain("Tax calculated under Companies Income Tax Act");
         });
     });
 
@@ -333,4 +334,82 @@ describe("calculateTaxForNigeria", () => {
             expect(result.taxableIncome).toBeGreaterThanOrEqual(0);
         });
     });
+
+    describe("Nigeria Tax Act 2025 regime", () => {
+        const profile: UserProfile = {
+            fullName: "Reform Test",
+            taxpayerType: "freelancer",
+            taxYear: 2026,
+            stateOfResidence: "Lagos",
+            isVATRegistered: false,
+            currency: "NGN",
+        };
+
+        it("should apply rent relief and the new PIT bands from 2026", () => {
+            const inputs: TaxInputs = {
+                grossRevenue: 10000000,
+                allowableExpenses: 2000000,
+                pensionContributions: 500000,
+                annualRentPaid: 1200000,
+            };
+
+            const result = calculateTaxForNigeria(profile, inputs);
+
+            expect(result.rulebook?.id).toBe("ng_federal_2026");
+            expect(result.reconciliationReport?.find(r => r.step_id === "CRA")).toBeUndefined();
+            expect(result.reconciliationReport?.find(r => r.step_id === "RENT_RELIEF")?.value).toBe(240000);
+            expect(result.taxableIncome).toBe(7260000);
+            expect(result.totalTaxDue).toBeCloseTo(1096800, 2);
+        });
+
+        it("should cap rent relief", () => {
+            const result = calculateTaxForNigeria(profile, {
+                grossRevenue: 20000000,
+                allowableExpenses: 0,
+                annualRentPaid: 6000000,
+            });
+
+            expect(result.reconciliationReport?.find(r => r.step_id === "RENT_RELIEF")?.value).toBe(500000);
+        });
+
+        it("should exempt small companies up to ₦100M turnover unless the asset test fails", () => {
+            const companyProfile: UserProfile = { ...profile, taxpayerType: "company" };
+            const inputs: TaxInputs = { grossRevenue: 50000000, allowableExpenses: 10000000, turnover: 50000000 };
+
+            expect(calculateTaxForNigeria(companyProfile, inputs).totalTaxDue).toBe(0);
+
+            const assetHeavy = calculateTaxForNigeria(companyProfile, { ...inputs, totalFixedAssets: 300000000 });
+            expect(assetHeavy.bands[0].rate).toBe(0.30);
+            expect(assetHeavy.totalTaxDue).toBe(12000000);
+            expect(assetHeavy.notes).toContain("Tax calculated under Nigeria Tax Act 2025");
+            expect(assetHeavy.notes).not.toContain("Tax calculated under Companies Income Tax Act");
+        });
+
+        it("should compare regimes line by line", () => {
+            const inputs: TaxInputs = {
+                grossRevenue: 10000000,
+                allowableExpenses: 2000000,
+                pensionContributions: 500000,
+                annualRentPaid: 1200000,
+            };
+
+            const comparison = compareTaxRegimes(profile, inputs, "ng_federal_2024", "ng_federal_2026");
+
+            expect(comparison.baseline.id).toBe("ng_federal_2024");
+            expect(comparison.comparison.id).toBe("ng_federal_2026");
+            expect(comparison.baselineResult.totalTaxDue).toBe(1160000);
+            expect(comparison.totalTaxDueDifference).toBeCloseTo(1096800 - 1160000, 2);
+
+            const cra = comparison.lines.find(l => l.step_id === "CRA");
+            expect(cra?.baselineValue).toBe(1800000);
+            expect(cra?.comparisonValue).toBe(0);
+
+            const rent = comparison.lines.find(l => l.step_id === "RENT_RELIEF");
+            expect(rent?.baselineValue).toBe(0);
+            expect(rent?.difference).toBe(240000);
+
+            const total = comparison.lines[comparison.lines.length - 1];
+            expect(total.step_id).toBe("TOTAL_TAX_DUE");
+        });
+    });
 });
@@ -0,0 +1,102 @@
+/**
+ * Unit tests for tax rule override history and approval workflow
+ */
+
+import fs from "fs";
+import { describe, it, expect, beforeAll } from "vitest";
+import type { UserProfile } from "../../types";
+import { withTempStore } from "./tempStore";
+
+const history = withTempStore(
+    "tax-overrides-",
+    { TAX_RULES_HISTORY_FILE: "history.json", TAX_RULES_OVERRIDE_FILE: "overrides.json" },
+    () => import("../overrideHistory")
+);
+
+type LiveRatesModule = typeof import("../liveRates");
+type NgModule = typeof import("../ng");
+
+let liveRates: LiveRatesModule;
+let ng: NgModule;
+
+beforeAll(async () => {
+    liveRates = await import("../liveRates");
+    ng = await import("../ng");
+});
+
+describe("Tax rule override history", () => {
+    it("should keep proposals pending until a different reviewer approves them", () => {
+        const proposal = history.proposeOverride({ vatRate: 0.1 }, { author: "ada", reason: "VAT circular 2025/01" });
+
+        expect(proposal.version).toBe(1);
+        expect(proposal.status).toBe("pending");
+        expect(liveRates.getVATRate()).toBe(0.075);
+
+        expect(() => history.approveOverride(1, { reviewer: "ada" })).toThrow(/cannot be reviewed by its author/);
+
+        const approved = history.approveOverride(1, { reviewer: "tunde", note: "Checked against gazette" });
+        expect(approved.status).toBe("approved");
+        expect(liveRates.getVATRate()).toBe(0.1);
+        expect(liveRates.getTaxRuleMetadata().overrideVersion).toBe(1);
+        expect(history.getActiveOverrideVersion()?.version).toBe(1);
+    });
+
+    it("should compute with the approved overrides and report their version", () => {
+        const profile: UserProfile = {
+            fullName: "Test Taxpayer",
+            taxpayerType: "company",
+            taxYear: 2024,
+            stateOfResidence: "Lagos",
+            isVATRegistered: true,
+            currency: "NGN",
+        };
+        const inputs = { grossRevenue: 1000000, allowableExpenses: 0 };
+
+        const result = ng.calculateTaxForNigeria(profile, inputs);
+        expect(result.vat?.outputVAT).toBe(100000);
+        expect(result.taxRuleMetadata?.overrideVersion).toBe(1);
+
+        const base = ng.calculateTaxForNigeria(profile, inputs, { overrides: null });
+        expect(base.vat?.outputVAT).toBe(75000);
+        expect(base.taxRuleMetadata?.overrideVersion).toBeNull();
+    });
+
+    it("should require an author and reason", () => {
+        expect(() => history.proposeOverride({ vatRate: 0.2 }, { author: "", reason: "x" })).toThrow(/author is required/);
+        expect(() => history.proposeOverride({ vatRate: 0.2 }, { author: "ada", reason: " " })).toThrow(/reason is required/);
+    });
+
+    it("should not apply rejected proposals", () => {
+        const proposal = history.proposeOverride({ vatRate: 0.2, citConfig: { largeCompanyRate: 0.25 } }, { author: "ada", reason: "Draft bill" });
+        history.rejectOverride(proposal.version, { reviewer: "tunde", note: "Not yet gazetted" });
+
+        expect(liveRates.getVATRate()).toBe(0.1);
+        expect(() => history.approveOverride(proposal.version, { reviewer: "tunde" })).toThrow(/already rejected/);
+    });
+
+    it("should diff two versions field by field", () => {
+        const changes = history.diffOverrideVersions(1, 2);
+
+        expect(changes).toEqual([
+            { path: "citConfig.largeCompanyRate", before: undefined, after: 0.25 },
+            { path: "vatRate", before: 0.1, after: 0.2 },
+        ]);
+        expect(history.diffOverrideVersions(0, 1)).toEqual([{ path: "vatRate", before: undefined, after: 0.1 }]);
+    });
+
+    it("should review a rollback like any other proposal and persist the history", () => {
+        const rollback = history.rollbackOverride(0, { author: "tunde", reason: "Circular withdrawn" });
+
+        expect(rollback).toMatchObject({ version: 3, rolledBackFrom: 0, status: "pending" });
+        expect(liveRates.getVATRate()).toBe(0.1);
+        expect(() => history.approveOverride(3, { reviewer: "tunde" })).toThrow(/cannot be reviewed by its author/);
+        expect(() => history.rollbackOverride(2, { author: "tunde", reason: "x" })).toThrow(/Only approved versions/);
+
+        history.approveOverride(3, { reviewer: "ada" });
+        expect(liveRates.getVATRate()).toBe(0.075);
+        expect(history.getActiveOverrideVersion()?.version).toBe(3);
+
+        const saved = JSON.parse(fs.readFileSync(process.env.TAX_RULES_HISTORY_FILE!, "utf-8"));
+        expect(saved.versions.map((v: { status: string }) => v.status)).toEqual(["approved", "rejected", "approved"]);
+    });
+});
@@ -0,0 +1,145 @@
+/**
+ * Unit tests for the PAYE payroll engine and payroll store
+ */
+
+import fs from "fs";
+import { describe, it, expect } from "vitest";
+import { computeAnnualPAYE, runPayroll, PayrollEmployee } from "../paye";
+import { loadRuleBook } from "../rulebook";
+import { accountingEngine } from "../../accounting/transactionBridge";
+import { withTempStore } from "./tempStore";
+
+const store = withTempStore("tax-payroll-", { PAYROLL_FILE: "payroll.json" }, () => import("../payrollStore"));
+
+const manager: PayrollEmployee = {
+    id: "EMP-001",
+    name: "Ada Obi",
+    stateOfResidence: "Lagos",
+    basicSalary: 200000,
+    housingAllowance: 100000,
+    transportAllowance: 50000,
+    otherAllowances: 50000,
+    pensionFundAdministrator: "Stanbic IBTC Pensions",
+    annualRentPaid: 1200000,
+};
+
+const cleaner: PayrollEmployee = {
+    id: "EMP-002",
+    name: "Musa Bello",
+    stateOfResidence: "FCT (Abuja)",
+    basicSalary: 25000,
+    housingAllowance: 0,
+    transportAllowance: 0,
+    otherAllowances: 0,
+};
+
+describe("PAYE computation", () => {
+    it("should apply the CRA and PITA bands after tax-exempt deductions", () => {
+        const computation = computeAnnualPAYE(manager, loadRuleBook("2024"));
+
+        expect(computation.annualTaxExemptDeductions).toBe(396000);
+        expect(computation.personalReliefType).toBe("CRA");
+        expect(computation.personalRelief).toBe(1080800);
+        expect(computation.annualTaxableIncome).toBe(3323200);
+        expect(computation.annualTax).toBeCloseTo(589568, 2);
+    });
+
+    it("should use rent relief and the NTA bands from 2026", () => {
+        const computation = computeAnnualPAYE(manager, loadRuleBook("2026"));
+
+        expect(computation.personalReliefType).toBe("RENT_RELIEF");
+        expect(computation.personalRelief).toBe(240000);
+        expect(computation.annualTax).toBeCloseTo(539520, 2);
+    });
+
+    it("should apply the minimum tax to low earners under PITA", () => {
+        const computation = computeAnnualPAYE(cleaner, loadRuleBook("2024"));
+
+        expect(computation.annualTaxFromBands).toBeCloseTo(1036, 2);
+        expect(computation.minimumTaxApplied).toBe(true);
+        expect(computation.annualTax).toBe(3000);
+    });
+});
+
+describe("Payroll run", () => {
+    const run = runPayroll([manager, cleaner], { period: "2024-03" });
+
+    it("should produce payslips with monthly deductions", () => {
+        const slip = run.payslips[0];
+
+        expect(slip).toMatchObject({ grossPay: 400000, pension: 28000, nhf: 5000, nhis: 0, paye: 49130.67, employerPension: 35000 });
+        expect(slip.netPay).toBeCloseTo(317869.33, 2);
+        expect(run.payslips[1].paye).toBe(250);
+    });
+
+    it("should charge NSITF on gross pay and ITF only above the thresholds", () => {
+        expect(run.totals.nsitf).toBe(4250);
+        expect(run.totals.itf).toBe(0);
+
+        const largeEmployer = runPayroll([manager, cleaner], { period: "2024-03", annualTurnover: 60000000 });
+        expect(largeEmployer.levies.itf).toMatchObject({ annualPayroll: 5100000, levyPayable: 51000 });
+        expect(largeEmployer.totals.itf).toBe(4250);
+        expect(largeEmployer.remittances.find(line => line.type === "ITF")?.amount).toBe(4250);
+        expect(largeEmployer.remittances.find(line => line.type === "ITF")?.dueDate).toBe("2025-04-01");
+    });
+
+    it("should schedule remittances by payee and due date", () => {
+        const paye = run.remittances.filter(line => line.type === "PAYE");
+
+        expect(paye.map(line => [line.payee, line.amount, line.dueDate])).toEqual([
+            ["Lagos State Internal Revenue Service", 49130.67, "2024-04-10"],
+            ["FCT Internal Revenue Service", 250, "2024-04-10"],
+        ]);
+        // Salaries paid on Sunday 31 March; seven working days later
+        expect(run.remittances.find(line => line.payee === "Stanbic IBTC Pensions")).toMatchObject({ amount: 63000, dueDate: "2024-04-09" });
+    });
+
+    it("should leave out employees who have not started or have left", () => {
+        const partial = runPayroll([manager, { ...cleaner, exitDate: "2024-02-15" }], { period: "2024-03" });
+
+        expect(partial.payslips.map(slip => slip.employeeId)).toEqual(["EMP-001"]);
+        expect(() => runPayroll([{ ...manager, startDate: "2024-05-01" }], { period: "2024-03" })).toThrow(/No employees/);
+    });
+
+    it("should reject a malformed period", () => {
+        expect(() => runPayroll([manager], { period: "March 2024" })).toThrow(/YYYY-MM/);
+    });
+
+    it("should build a balanced journal that posts through the accounting engine", () => {
+        const [journal] = run.journalEntries;
+
+        expect(journal.isBalanced).toBe(true);
+        expect(journal.totalDebits).toBeCloseTo(run.totals.employerCost, 2);
+
+        const posted = accountingEngine.postJournalEntry(journal);
+        expect(posted.status).toBe("posted");
+        expect(accountingEngine.getAccountBalance("2210")).toBeCloseTo(run.totals.paye, 2);
+        expect(accountingEngine.getAccountBalance("2110")).toBeCloseTo(run.totals.netPay, 2);
+        expect(() => accountingEngine.postJournalEntry(journal)).toThrow(/already been posted/);
+    });
+});
+
+describe("Payroll store", () => {
+    it("should keep employees and replace a month's run when it is re-run", () => {
+        store.saveEmployee("EMPLOYER-1", manager);
+        store.recordPayrollRun("EMPLOYER-1", { period: "2024-03" });
+
+        store.saveEmployee("EMPLOYER-1", { ...manager, basicSalary: 250000 });
+        const rerun = store.recordPayrollRun("EMPLOYER-1", { period: "2024-03" });
+
+        const payroll = store.getEmployerPayroll("EMPLOYER-1")!;
+        expect(payroll.employees).toHaveLength(1);
+        expect(payroll.runs).toHaveLength(1);
+        expect(rerun.totals.grossPay).toBe(450000);
+        expect(JSON.parse(fs.readFileSync(process.env.PAYROLL_FILE!, "utf-8")).employers).toHaveLength(1);
+    });
+
+    it("should reject incomplete employee records", () => {
+        expect(() => store.saveEmployee("EMPLOYER-1", { ...manager, stateOfResidence: "" })).toThrow(/state of residence/);
+        expect(() => store.saveEmployee("EMPLOYER-1", { ...manager, basicSalary: -1 })).toThrow(/non-negative/);
+    });
+
+    it("should not run a payroll without employees", () => {
+        expect(() => store.recordPayrollRun("EMPLOYER-2", { period: "2024-03" })).toThrow(/No employees/);
+    });
+});
@@ -0,0 +1,134 @@
+/**
+ * Unit tests for the annual PAYE return and tax deduction cards
+ */
+
+import { describe, it, expect } from "vitest";
+import { runPayroll, PayrollEmployee } from "../paye";
+import { buildAnnualPAYEReturn, payeReturnStates, payeReturnToCSV, taxDeductionCardToCSV, PAYERemittancePayment } from "../payeReturn";
+import { withTempStore } from "./tempStore";
+
+const store = withTempStore("tax-paye-return-", { PAYROLL_FILE: "payroll.json" }, () => import("../payrollStore"));
+
+const manager: PayrollEmployee = {
+    id: "EMP-001",
+    name: "Ada Obi",
+    tin: "12345678-0001",
+    stateOfResidence: "Lagos",
+    basicSalary: 200000,
+    housingAllowance: 100000,
+    transportAllowance: 50000,
+    otherAllowances: 50000,
+    annualRentPaid: 1200000,
+};
+
+const cleaner: PayrollEmployee = {
+    id: "EMP-002",
+    name: "Musa Bello",
+    stateOfResidence: "FCT (Abuja)",
+    basicSalary: 25000,
+    housingAllowance: 0,
+    transportAllowance: 0,
+    otherAllowances: 0,
+};
+
+const runs = ["2024-01", "2024-02", "2024-03"].map(period => runPayroll([manager, cleaner], { period }));
+
+const payments: PAYERemittancePayment[] = [
+    { period: "2024-01", state: "Lagos", amount: 49130.67, paidOn: "2024-02-09", receiptNumber: "LIRS-001" },
+    { period: "2024-02", state: "Lagos", amount: 40000, paidOn: "2024-03-15" },
+    { period: "2024-01", state: "FCT (Abuja)", amount: 250, paidOn: "2024-02-10" },
+];
+
+const lagosReturn = () => buildAnnualPAYEReturn({ employerId: "EMPLOYER-1", employerName: "Acme Ltd", taxYear: 2024, state: "Lagos", runs, remittances: payments });
+
+describe("Annual PAYE return", () => {
+    it("should total each employee's pay and PAYE for the year", () => {
+        const payeReturn = lagosReturn();
+
+        expect(payeReturn.revenueService).toBe("Lagos State Internal Revenue Service");
+        expect(payeReturn.filingDueDate).toBe("2025-01-31");
+        expect(payeReturn.lines).toHaveLength(1);
+        expect(payeReturn.lines[0]).toMatchObject({ serialNumber: 1, employeeId: "EMP-001", monthsEmployed: 3, grossEmoluments: 1200000, pension: 84000, nhf: 15000 });
+        expect(payeReturn.lines[0].taxDeducted).toBeCloseTo(147392.01, 2);
+        expect(payeReturn.totals).toMatchObject({ employeeCount: 1, grossEmoluments: 1200000 });
+    });
+
+    it("should keep running totals on the tax deduction card", () => {
+        const [card] = lagosReturn().cards;
+
+        expect(card.months.map(month => month.period)).toEqual(["2024-01", "2024-02", "2024-03"]);
+        expect(card.months[1].cumulativeGrossPay).toBe(800000);
+        expect(card.months[2].cumulativePaye).toBeCloseTo(card.totals.taxDeducted, 2);
+    });
+
+    it("should file each employee with the state they live in", () => {
+        expect(payeReturnStates(runs, 2024)).toEqual(["Lagos", "FCT (Abuja)"]);
+
+        const fctReturn = buildAnnualPAYEReturn({ employerId: "EMPLOYER-1", taxYear: 2024, state: "FCT (Abuja)", runs, remittances: payments });
+        expect(fctReturn.revenueService).toBe("FCT Internal Revenue Service");
+        expect(fctReturn.lines.map(line => [line.employeeId, line.taxDeducted])).toEqual([["EMP-002", 750]]);
+        expect(() => buildAnnualPAYEReturn({ employerId: "EMPLOYER-1", taxYear: 2024, state: "Kano", runs, remittances: [] })).toThrow(/No 2024 payroll/);
+    });
+
+    it("should reconcile PAYE deducted against PAYE remitted each month", () => {
+        const { reconciliation } = lagosReturn();
+
+        expect(reconciliation.months.map(month => [month.month, month.status, month.paidLate])).toEqual([
+            ["2024-01", "remitted", false],
+            ["2024-02", "under_remitted", true],
+            ["2024-03", "not_remitted", false],
+        ]);
+        expect(reconciliation.months[1].difference).toBeCloseTo(9130.67, 2);
+        expect(reconciliation.totalRemitted).toBeCloseTo(89130.67, 2);
+        expect(reconciliation.isReconciled).toBe(false);
+    });
+
+    it("should list payments for months without a payroll run and ignore other years", () => {
+        const { reconciliation } = buildAnnualPAYEReturn({
+            employerId: "EMPLOYER-1",
+            taxYear: 2024,
+            state: "Lagos",
+            runs,
+            remittances: [
+                ...payments,
+                { period: "2024-04", state: "Lagos", amount: 5000, paidOn: "2024-05-08" },
+                { period: "2025-01", state: "Lagos", amount: 7000, paidOn: "2025-02-08" },
+            ],
+        });
+
+        expect(reconciliation.months.map(month => month.month)).toEqual(["2024-01", "2024-02", "2024-03", "2024-04"]);
+        expect(reconciliation.months[3]).toMatchObject({ employeeCount: 0, payeDeducted: 0, payeRemitted: 5000, status: "over_remitted" });
+        expect(reconciliation.totalRemitted).toBeCloseTo(94130.67, 2);
+    });
+
+    it("should lay out the return and deduction cards as CSV", () => {
+        const payeReturn = lagosReturn();
+        const lines = payeReturnToCSV(payeReturn).split("\n");
+
+        expect(lines[0]).toContain("Form H1");
+        expect(lines).toContain("Employer,Acme Ltd");
+        expect(lines).toContain("1,EMP-001,Ada Obi,12345678-0001,3,1200000,84000,15000,0,147392.01");
+        expect(lines.some(line => line.startsWith("2024-02,1,") && line.endsWith("under_remitted (late)"))).toBe(true);
+
+        const card = taxDeductionCardToCSV(payeReturn.cards[0], payeReturn.employerId).split("\n");
+        expect(card).toContain("2024-02,400000,28000,5000,0,49130.67,800000,98261.34");
+    });
+});
+
+describe("Payroll store returns", () => {
+    it("should build the return from stored runs and recorded payments", () => {
+        store.saveEmployee("EMPLOYER-1", manager);
+        store.recordPayrollRun("EMPLOYER-1", { period: "2024-01" });
+        store.recordPAYERemittance("EMPLOYER-1", { period: "2024-01", state: "Lagos", amount: 49130.67, paidOn: "2024-02-09" });
+
+        const payeReturn = store.getAnnualPAYEReturn("EMPLOYER-1", 2024, "Lagos", "Acme Ltd");
+        expect(payeReturn.employerName).toBe("Acme Ltd");
+        expect(payeReturn.reconciliation.isReconciled).toBe(true);
+    });
+
+    it("should reject incomplete payments and unknown employers", () => {
+        expect(() => store.recordPAYERemittance("EMPLOYER-1", { period: "2024-13", state: "Lagos", amount: 1, paidOn: "2024-02-09" })).toThrow(/YYYY-MM/);
+        expect(() => store.recordPAYERemittance("EMPLOYER-1", { period: "2024-01", state: "Lagos", amount: 0, paidOn: "2024-02-09" })).toThrow(/positive/);
+        expect(() => store.getAnnualPAYEReturn("EMPLOYER-9", 2024, "Lagos")).toThrow(/No payroll/);
+    });
+});
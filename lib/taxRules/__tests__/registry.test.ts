@@ -0,0 +1,77 @@
+/**
+ * Unit tests for the rulebook registry
+ */
+
+import path from "path";
+import { describe, it, expect } from "vitest";
+import {
+    resolveRuleBook,
+    resolveRuleBookForYear,
+    listRuleBooks,
+    jurisdictionForState,
+    RuleBookNotFoundError,
+} from "../registry";
+import { loadRuleBook } from "../rulebook";
+import { discoverRuleBookFiles } from "../rulebookDiscovery";
+import { calculateTaxForNigeria } from "../ng";
+import { calculateStampDuty } from "../stampDuty";
+import { UserProfile } from "../../types";
+
+describe("Rulebook registry", () => {
+    it("should bundle every rulebook file under data/rules", () => {
+        const onDisk = discoverRuleBookFiles(path.join(__dirname, "../../../data/rules"))
+            .map(file => path.basename(file, ".json"))
+            .sort();
+        const registered = listRuleBooks().map(entry => entry.id).sort();
+        expect(registered).toEqual(onDisk);
+    });
+
+    it("should resolve the Federal 2024 rulebook by transaction date", () => {
+        const resolved = resolveRuleBook({ jurisdiction: "Federal", date: "2024-06-30" });
+        expect(resolved.reference.id).toBe("ng_federal_2024");
+        expect(resolved.reference.taxYear).toBe("2024");
+        expect(resolved.usedFederalFallback).toBe(false);
+    });
+
+    it("should switch to the Nigeria Tax Act rulebook from 2026", () => {
+        expect(resolveRuleBookForYear(2025).reference.id).toBe("ng_federal_2024");
+        expect(resolveRuleBookForYear(2026).reference.id).toBe("ng_federal_2026");
+        expect(resolveRuleBook({ date: "2025-12-31" }).reference.id).toBe("ng_federal_2024");
+    });
+
+    it("should fall back to Federal for a state without its own rulebook and flag it", () => {
+        const resolved = resolveRuleBookForYear(2024, "Lagos");
+        expect(resolved.reference.jurisdiction).toBe("Federal");
+        expect(resolved.requestedJurisdiction).toBe("Lagos");
+        expect(resolved.usedFederalFallback).toBe(true);
+    });
+
+    it("should throw when no rulebook covers the period", () => {
+        expect(() => resolveRuleBook({ date: "2019-03-01" })).toThrow(RuleBookNotFoundError);
+        expect(() => loadRuleBook("2019")).toThrow(/No tax rulebook covers Federal on 2019-01-01/);
+    });
+
+    it("should map states of residence to jurisdictions", () => {
+        expect(jurisdictionForState("Lagos")).toBe("Lagos");
+        expect(jurisdictionForState(" kano ")).toBe("Kano");
+        expect(jurisdictionForState("FCT (Abuja)")).toBe("Federal");
+    });
+
+    it("should report the rulebook used by calculateTaxForNigeria and calculateStampDuty", () => {
+        const profile: UserProfile = {
+            fullName: "Rulebook Ref",
+            taxpayerType: "freelancer",
+            taxYear: 2024,
+            stateOfResidence: "Lagos",
+            isVATRegistered: false,
+            currency: "NGN",
+        };
+
+        const result = calculateTaxForNigeria(profile, { grossRevenue: 3000000, allowableExpenses: 0 });
+        expect(result.rulebook?.id).toBe("ng_federal_2024");
+        expect(result.rulebook?.version).toBe("1.2.0");
+
+        const duty = calculateStampDuty({ documentType: "deed", transactionValue: 1000000, taxYear: 2024 });
+        expect(duty.rulebook.id).toBe("ng_federal_2024");
+    });
+});
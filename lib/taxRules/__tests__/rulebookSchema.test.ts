@@ -0,0 +1,68 @@
+/**
+ * Unit tests for rulebook schema validation
+ */
+
+import { describe, it, expect } from "vitest";
+import { validateRuleBook, RuleBookValidationError } from "../rulebookSchema";
+import { loadRuleBook } from "../rulebook";
+import { listRuleBooks, registerRuleBook } from "../registry";
+import ng_federal_2024 from "../../../data/rules/ng_federal_2024.json";
+
+const cloneBase = () => JSON.parse(JSON.stringify(ng_federal_2024));
+
+describe("Rulebook schema validation", () => {
+    it("should accept every bundled rulebook", () => {
+        for (const entry of listRuleBooks()) {
+            const result = validateRuleBook(entry.rulebook);
+            expect(result.issues, entry.id).toEqual([]);
+            expect(result.valid).toBe(true);
+        }
+    });
+
+    it("should report structural errors with their path", () => {
+        const data = cloneBase();
+        data.rules.PIT_BANDS_2024.bands[1].threshold = "300000";
+        data.rules.PIT_BANDS_2024.bands[0].rate = 1.5;
+        delete data.metadata.version;
+
+        const result = validateRuleBook(data);
+
+        expect(result.valid).toBe(false);
+        expect(result.issues.map(issue => issue.path)).toEqual(
+            expect.arrayContaining(["rules.PIT_BANDS_2024.bands[1].threshold", "rules.PIT_BANDS_2024.bands[0].rate", "metadata.version"])
+        );
+    });
+
+    it("should flag unresolved citations, misordered bands and out-of-range rates", () => {
+        const data = cloneBase();
+        data.rules.CRA_FIXED.citation_id = "PITA_S999";
+        data.rules.PIT_BANDS_2024.bands[3].rate = 0.1;
+        data.rules.CIT_LARGE_RATE.formula = "30";
+
+        const paths = validateRuleBook(data).issues.map(issue => issue.path);
+
+        expect(paths).toContain("rules.CRA_FIXED.citation_id");
+        expect(paths).toContain("rules.PIT_BANDS_2024.bands[3].rate");
+        expect(paths).toContain("rules.CIT_LARGE_RATE.formula");
+    });
+
+    it("should report formula errors against the rule", () => {
+        const data = cloneBase();
+        data.rules.CRA_FIXED.formula = "200000 +";
+
+        const issue = validateRuleBook(data).issues.find(i => i.path === "rules.CRA_FIXED.formula");
+        expect(issue?.message).toContain("Unexpected end of formula");
+    });
+
+    it("should make loadRuleBook reject an invalid rulebook with readable messages", () => {
+        const data = cloneBase();
+        data.metadata.tax_year = "2030";
+        data.metadata.effective_date = "2030-01-01";
+        delete data.metadata.expiry_date;
+        data.rules.VAT_RATE.citation_id = "VATA_S99";
+        registerRuleBook("ng_federal_2030_draft", data);
+
+        expect(() => loadRuleBook("2030")).toThrow(RuleBookValidationError);
+        expect(() => loadRuleBook("2030")).toThrow(/rules\.VAT_RATE\.citation_id: citation "VATA_S99" is not defined/);
+    });
+});
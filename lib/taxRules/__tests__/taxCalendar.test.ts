@@ -0,0 +1,221 @@
+/**
+ * Unit tests for the tax calendar and late filing penalties and interest
+ */
+
+import fs from "fs";
+import { describe, it, expect } from "vitest";
+import {
+    addMonths,
+    annualReturnDueDate,
+    buildTaxCalendar,
+    computeLatePenalty,
+    latePenaltyRule,
+    ledgerRemittanceFilings,
+    monetaryPolicyRate,
+    monthsLate,
+    TaxCalendarProfile,
+    taxDeadlineWarnings,
+} from "../taxCalendar";
+import { JournalEntry, JournalLine, TransactionType } from "../../accounting/doubleEntry";
+import { withTempStore } from "./tempStore";
+
+const store = withTempStore(
+    "tax-calendar-",
+    { TAX_CALENDAR_FILE: "calendar.json", WHT_DEDUCTION_FILE: "wht.json" },
+    () => import("../taxCalendarStore")
+);
+const whtStore = withTempStore("tax-calendar-wht-", {}, () => import("../whtDeductionStore"));
+
+let sequence = 0;
+
+function journal(date: string, transactionType: TransactionType, lines: [string, number, number][]): JournalEntry {
+    const journalLines: JournalLine[] = lines.map(([accountCode, debit, credit]) => ({ accountCode, accountName: accountCode, debit, credit }));
+    const total = journalLines.reduce((sum, line) => sum + line.debit, 0);
+    return {
+        id: `JE-${++sequence}`,
+        date,
+        narration: transactionType,
+        lines: journalLines,
+        isBalanced: true,
+        totalDebits: total,
+        totalCredits: total,
+        transactionType,
+        createdAt: date,
+        status: "posted",
+    };
+}
+
+const company: TaxCalendarProfile = {
+    taxpayerType: "company",
+    stateOfResidence: "Lagos",
+    fiscalYearEnd: "06-30",
+    isVATRegistered: true,
+    deductsWHT: true,
+    hasEmployees: true,
+};
+
+describe("Tax calendar deadlines", () => {
+    it("should lay out the monthly VAT, WHT and PAYE deadlines", () => {
+        const calendar = buildTaxCalendar(company, { from: "2024-04-01", to: "2024-04-30", asOf: "2024-04-01" });
+
+        expect(calendar.entries.map(entry => [entry.id, entry.dueDate, entry.authority])).toEqual([
+            ["PAYE-2024-03", "2024-04-10", "Lagos State Internal Revenue Service"],
+            ["VAT-2024-03", "2024-04-21", "Federal Inland Revenue Service"],
+            ["WHT-2024-03", "2024-04-21", "Federal Inland Revenue Service"],
+        ]);
+        expect(calendar.entries.map(entry => entry.status)).toEqual(["due_soon", "upcoming", "upcoming"]);
+    });
+
+    it("should fix the CIT deadline from the financial year end and PIT at 31 March", () => {
+        expect(annualReturnDueDate(company, 2024)).toBe("2024-12-31");
+        expect(annualReturnDueDate({ taxpayerType: "company", fiscalYearEnd: "03-31" }, 2024)).toBe("2024-09-30");
+        expect(annualReturnDueDate({ taxpayerType: "freelancer" }, 2024)).toBe("2025-03-31");
+        expect(addMonths("2024-01-31", 1)).toBe("2024-02-29");
+        expect(addMonths("2024-01-21", 1)).toBe("2024-02-21");
+    });
+
+    it("should schedule CIT instalments after the return and reject plans running too late", () => {
+        const calendar = buildTaxCalendar({ ...company, citInstalments: 3 }, {
+            from: "2024-12-01", to: "2025-03-31", asOf: "2024-12-01",
+            filings: [{ entryId: "CIT-2024", filedOn: "2024-12-20", amountDue: 900000 }],
+        });
+        const cit = calendar.entries.filter(entry => entry.taxType === "CIT");
+
+        expect(cit.map(entry => [entry.id, entry.obligation, entry.dueDate, entry.amountDue])).toEqual([
+            ["CIT-2024", "return", "2024-12-31", 900000],
+            ["CIT-2024-I1", "payment", "2024-12-31", 300000],
+            ["CIT-2024-I2", "payment", "2025-01-31", 300000],
+            ["CIT-2024-I3", "payment", "2025-02-28", 300000],
+        ]);
+        expect(cit[0].status).toBe("filed");
+        expect(() => buildTaxCalendar({ ...company, citInstalments: 6 }, { from: "2024-01-01", to: "2024-12-31" })).toThrow(/at most 5/);
+    });
+
+    it("should route each month's WHT to the authorities its beneficiaries are remitted to", () => {
+        const calendar = buildTaxCalendar({ ...company, taxpayerType: "freelancer", isVATRegistered: false, hasEmployees: false }, {
+            from: "2024-04-01", to: "2024-05-31", asOf: "2024-04-01",
+            whtDeductions: [
+                { paymentDate: "2024-03-05", beneficiaryType: "company", isResident: true },
+                { paymentDate: "2024-03-12", beneficiaryType: "individual", beneficiaryState: "Ogun", isResident: true },
+                { paymentDate: "2024-03-20", beneficiaryType: "individual", beneficiaryState: "Ogun", isResident: true },
+                { paymentDate: "2024-04-02", beneficiaryType: "individual", beneficiaryState: "Kano", isResident: false },
+            ],
+        });
+
+        expect(calendar.entries.map(entry => [entry.id, entry.authority])).toEqual([
+            ["WHT-2024-03", "Federal Inland Revenue Service"],
+            ["WHT-2024-03-OGU", "Ogun State Internal Revenue Service"],
+            ["WHT-2024-04", "Federal Inland Revenue Service"],
+        ]);
+    });
+});
+
+describe("Late filing penalties and interest", () => {
+    it("should charge the VAT late filing penalty per month and interest on unpaid tax", () => {
+        const penalty = computeLatePenalty({
+            taxType: "VAT", obligation: "return_and_payment", dueDate: "2024-04-21", amountDue: 1000000, amountPaid: 0,
+        }, "2024-06-30")!;
+
+        expect(monthsLate("2024-04-21", "2024-06-30")).toBe(3);
+        expect(penalty).toMatchObject({
+            daysLate: 70,
+            monthsLate: 3,
+            lateFilingPenalty: 100000,
+            latePaymentPenalty: 100000,
+            interest: 51780.82,
+            total: 251780.82,
+        });
+    });
+
+    it("should stop interest when the tax is paid and charge nothing when on time", () => {
+        const entry = { taxType: "CIT" as const, obligation: "return_and_payment" as const, dueDate: "2024-06-30", amountDue: 365000, amountPaid: 0 };
+
+        expect(computeLatePenalty({ ...entry, filedOn: "2024-07-15", paidOn: "2024-07-30" }, "2024-12-31", 0.2)).toMatchObject({
+            daysLate: 30, lateFilingPenalty: 25000, latePaymentPenalty: 36500, interest: 6000, total: 67500,
+        });
+        expect(computeLatePenalty({ ...entry, filedOn: "2024-06-30", paidOn: "2024-06-28" }, "2024-12-31")).toBeUndefined();
+    });
+
+    it("should warn about overdue entries before those due soon", () => {
+        const calendar = buildTaxCalendar({ ...company, hasEmployees: false, deductsWHT: false }, {
+            from: "2024-03-01", to: "2024-05-31", asOf: "2024-05-15",
+            filings: [{ entryId: "VAT-2024-02", filedOn: "2024-03-20", paidOn: "2024-03-20", amountDue: 50000 }],
+        });
+
+        expect(calendar.entries.map(entry => [entry.id, entry.status])).toEqual([
+            ["VAT-2024-02", "paid"],
+            ["VAT-2024-03", "overdue"],
+            ["VAT-2024-04", "due_soon"],
+        ]);
+        expect(taxDeadlineWarnings(calendar).map(entry => entry.id)).toEqual(["VAT-2024-03", "VAT-2024-04"]);
+        expect(calendar.totalPenalties).toBe(50000);
+    });
+
+    it("should take the penalties and interest rate from the rulebook in force on the due date", () => {
+        expect(latePenaltyRule("VAT", "2024-04-21")).toEqual({
+            lateFiling: { firstMonth: 50000, subsequentMonth: 25000 },
+            latePaymentRate: 0.1,
+            citation: "VAT Act Sec 19 & 35 (as amended)",
+        });
+        expect(latePenaltyRule("WHT", "2026-02-21").lateFiling).toBeUndefined();
+        expect(monetaryPolicyRate("2026-02-21")).toBe(0.27);
+        expect(() => latePenaltyRule("VAT", "2023-04-21")).toThrow(/rulebook/i);
+    });
+
+    it("should read remittances filed and paid from the tax payable accounts", () => {
+        const ledger = [
+            journal("2024-03-05", "expense", [["6100", 100000, 0], ["2220", 0, 5000], ["1020", 0, 95000]]),
+            journal("2024-03-20", "expense", [["6100", 60000, 0], ["2220", 0, 3000], ["1020", 0, 57000]]),
+            journal("2024-04-08", "expense", [["6100", 40000, 0], ["2220", 0, 2000], ["1020", 0, 38000]]),
+            journal("2024-04-18", "payment", [["2220", 8000, 0], ["1020", 0, 8000]]),
+            journal("2024-03-10", "sale", [["1020", 107500, 0], ["4000", 0, 100000], ["2200", 0, 7500]]),
+            journal("2024-03-15", "sale-return", [["4100", 20000, 0], ["2200", 1500, 0], ["1020", 0, 21500]]),
+        ];
+        const filings = ledgerRemittanceFilings(ledger);
+
+        expect(filings).toEqual([
+            { entryId: "VAT-2024-03", amountDue: 6000, amountPaid: 0 },
+            { entryId: "WHT-2024-03", amountDue: 8000, amountPaid: 8000, filedOn: "2024-04-18", paidOn: "2024-04-18" },
+            { entryId: "WHT-2024-04", amountDue: 2000, amountPaid: 0 },
+        ]);
+        const calendar = buildTaxCalendar({ ...company, hasEmployees: false }, { from: "2024-04-01", to: "2024-05-31", asOf: "2024-06-01", filings });
+        expect(calendar.entries.filter(entry => entry.taxType === "WHT").map(entry => [entry.id, entry.status])).toEqual([
+            ["WHT-2024-03", "paid"],
+            ["WHT-2024-04", "overdue"],
+        ]);
+    });
+});
+
+describe("Tax calendar store", () => {
+    it("should save the profile and merge filings into the calendar", () => {
+        store.saveTaxCalendarProfile("TIN-CAL", { ...company, deductsWHT: false, hasEmployees: false });
+        store.recordTaxFiling("TIN-CAL", { entryId: "VAT-2024-03", filedOn: "2024-04-25", amountDue: 200000 });
+        const filing = store.recordTaxFiling("TIN-CAL", { entryId: "VAT-2024-03", paidOn: "2024-05-05" });
+
+        expect(filing).toEqual({ entryId: "VAT-2024-03", filedOn: "2024-04-25", paidOn: "2024-05-05", amountDue: 200000 });
+        const entry = store.getTaxCalendar("TIN-CAL", { from: "2024-04-01", to: "2024-04-30", asOf: "2024-06-01" }).entries[0];
+        expect(entry.status).toBe("paid");
+        expect(entry.penalty).toMatchObject({ lateFilingPenalty: 50000, latePaymentPenalty: 20000 });
+        expect(JSON.parse(fs.readFileSync(process.env.TAX_CALENDAR_FILE!, "utf-8")).taxpayers).toHaveLength(1);
+    });
+
+    it("should reject bad profiles and unknown entries", () => {
+        expect(() => store.saveTaxCalendarProfile("TIN-BAD", { ...company, fiscalYearEnd: "13-01" })).toThrow(/MM-DD/);
+        expect(() => store.recordTaxFiling("TIN-CAL", { entryId: "GIFT-2024" })).toThrow(/calendar entry id/);
+        expect(() => store.recordTaxFiling("TIN-NONE", { entryId: "VAT-2024-03" })).toThrow(/No tax calendar profile/);
+    });
+
+    it("should route WHT by the deductions recorded for the taxpayer as a payer", () => {
+        store.saveTaxCalendarProfile("TIN-WHT", { ...company, isVATRegistered: false, hasEmployees: false });
+        whtStore.recordWHTDeduction("TIN-WHT", {
+            paymentDate: "2024-03-12", beneficiaryName: "Ade Bello", beneficiaryType: "individual", beneficiaryState: "Lagos",
+            isResident: true, paymentType: "consultancy", grossAmount: 200000,
+        });
+        store.recordTaxFiling("TIN-WHT", { entryId: "WHT-2024-03-LAG", filedOn: "2024-04-15" });
+
+        const entries = store.getTaxCalendar("TIN-WHT", { from: "2024-04-01", to: "2024-04-30", asOf: "2024-04-16" }).entries;
+        expect(entries.map(entry => [entry.id, entry.authority, entry.status])).toEqual([
+            ["WHT-2024-03-LAG", "Lagos State Internal Revenue Service", "filed"],
+        ]);
+    });
+});
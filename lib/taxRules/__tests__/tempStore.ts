@@ -0,0 +1,41 @@
+/**
+ * Test fixture for the file-backed tax stores
+ *
+ * Points each store's file variable at a fresh temp directory, then imports the
+ * store in beforeAll so it picks the paths up; a static import would read the
+ * variables before they were set. The directory is removed after the tests.
+ */
+
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { beforeAll, afterAll } from "vitest";
+
+export function withTempStore<T extends object>(
+    prefix: string,
+    files: Record<string, string>, // env variable → file name
+    load: () => Promise<T>
+): T {
+    const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), prefix));
+    Object.entries(files).forEach(([variable, fileName]) => {
+        process.env[variable] = path.join(tempDir, fileName);
+    });
+
+    let loaded: T | null = null;
+    beforeAll(async () => {
+        loaded = await load();
+    });
+    afterAll(() => {
+        fs.rmSync(tempDir, { recursive: true, force: true });
+    });
+
+    // Stands in for the module until beforeAll has imported it
+    return new Proxy({} as T, {
+        get(_target, key) {
+            if (!loaded) {
+                throw new Error("Store module is only available once beforeAll has run");
+            }
+            return Reflect.get(loaded, key);
+        },
+    });
+}
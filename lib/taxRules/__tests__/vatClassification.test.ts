@@ -0,0 +1,82 @@
+/**
+ * Unit tests for the VAT classification catalogue and its use by sales, the
+ * accounting bridge and the VAT return
+ */
+
+import { describe, it, expect } from "vitest";
+import { classifyVATSupply, findCatalogueEntry, parseVATSupplyMemo, vatForSupply } from "../vatClassification";
+import { buildMonthlyVATReturn } from "../vatReturn";
+import { accountingEngine } from "../../accounting/transactionBridge";
+import { computeTaxForTransaction, detectTaxType } from "../../tax/taxEngine";
+import { UserProfile } from "../../types";
+
+describe("VAT classification", () => {
+    it("should recognise exempt and zero-rated supplies from the catalogue", () => {
+        expect(findCatalogueEntry("Dangote Rice 50kg")?.id).toBe("basic-food");
+        expect(findCatalogueEntry("Paracetamol drugs")?.id).toBe("medical");
+        expect(classifyVATSupply({ description: "Export of cocoa to Ghana" })).toMatchObject({ supplyType: "zero_rated", source: "catalogue" });
+        expect(classifyVATSupply({ description: "Sale of laptops" })).toMatchObject({ supplyType: "standard", source: "default" });
+    });
+
+    it("should prefer the product, then the category, then the transaction category", () => {
+        const category = { name: "Grocery", vatClass: "exempt" };
+
+        expect(classifyVATSupply({ product: { name: "Indomie Noodles", vatClass: "standard" }, category }).source).toBe("product");
+        expect(classifyVATSupply({ product: { name: "Indomie Noodles", vatClass: null }, category })).toMatchObject({ supplyType: "exempt", source: "category" });
+        expect(classifyVATSupply({ product: { name: "Dangote Rice 50kg" }, category: { name: "Grocery", vatClass: null } }).source).toBe("catalogue");
+        expect(classifyVATSupply({ transactionCategory: "Exports", description: "Shipment to Accra" })).toMatchObject({ supplyType: "zero_rated", source: "transaction-category" });
+    });
+
+    it("should only charge VAT on standard-rated supplies", () => {
+        expect(vatForSupply(10000, "standard", 0.075)).toBe(750);
+        expect(vatForSupply(10000, "zero_rated", 0.075)).toBe(0);
+        expect(vatForSupply(10000, "exempt", 0.075)).toBe(0);
+        expect(parseVATSupplyMemo("VAT exempt supply")).toBe("exempt");
+        expect(parseVATSupplyMemo("Cash/Bank sale")).toBeUndefined();
+    });
+});
+
+describe("VAT classification in the tax engine", () => {
+    const profile = { taxpayerType: "company" } as UserProfile;
+
+    it("should not add output VAT to exempt sales", () => {
+        const detection = detectTaxType("Sale of rice to retailer", 500000);
+        expect(detection.vatClass).toBe("exempt");
+        expect(detection.applicableTaxes.some(tax => tax.taxType === "VAT")).toBe(false);
+
+        const computation = computeTaxForTransaction(
+            { id: "TX-1", date: "2024-03-01", description: "Sale of rice to retailer", amount: 500000, type: "sale", category: "sales" },
+            profile
+        );
+        expect(computation.totalTax).toBe(0);
+    });
+
+    it("should respect a classification set on the transaction", () => {
+        const computation = computeTaxForTransaction(
+            { id: "TX-2", date: "2024-03-01", description: "Sale of rice crackers", amount: 100000, type: "sale", category: "sales", vatClass: "standard" },
+            profile
+        );
+        expect(computation.totalTax).toBe(7500);
+    });
+});
+
+describe("VAT classification in the ledger", () => {
+    it("should post exempt sales without VAT and report them as exempt", () => {
+        const { journalEntry, interpretation } = accountingEngine.processTransaction({
+            id: "TX-EXEMPT-1",
+            date: "2024-07-02",
+            description: "Sold bags of rice to customer, VAT inclusive",
+            category: "Sales",
+            amount: 800000,
+            type: "income",
+        });
+
+        expect(interpretation.vatClass).toBe("exempt");
+        expect(journalEntry.lines.some(line => line.accountCode === "2200")).toBe(false);
+        expect(journalEntry.lines.find(line => line.accountCode === "4000")?.memo).toBe("VAT exempt supply");
+
+        const july = buildMonthlyVATReturn([journalEntry], "2024-07");
+        expect(july).toMatchObject({ exemptSupplies: 800000, taxableSupplies: 0, outputVAT: 0 });
+        expect(july.reconciliation.isReconciled).toBe(true);
+    });
+});
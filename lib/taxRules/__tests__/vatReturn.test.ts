@@ -0,0 +1,128 @@
+/**
+ * Unit tests for the monthly VAT return built from ledger journals
+ */
+
+import { describe, it, expect } from "vitest";
+import { buildMonthlyVATReturn, buildVATReturns, vatDueDate, vatReturnToCSV } from "../vatReturn";
+import { JournalEntry, JournalLine, TransactionType } from "../../accounting/doubleEntry";
+import { accountingEngine } from "../../accounting/transactionBridge";
+
+let sequence = 0;
+
+function journal(date: string, transactionType: TransactionType, narration: string, lines: [string, number, number][]): JournalEntry {
+    const journalLines: JournalLine[] = lines.map(([accountCode, debit, credit]) => ({ accountCode, accountName: accountCode, debit, credit }));
+    const total = journalLines.reduce((sum, line) => sum + line.debit, 0);
+    return {
+        id: `JE-${++sequence}`,
+        date,
+        narration,
+        lines: journalLines,
+        isBalanced: true,
+        totalDebits: total,
+        totalCredits: total,
+        transactionType,
+        createdAt: date,
+        status: "posted",
+    };
+}
+
+const ledger: JournalEntry[] = [
+    journal("2024-03-05", "sale", "Sale of laptops", [["1020", 1075000, 0], ["4000", 0, 1000000], ["2200", 0, 75000]]),
+    journal("2024-03-12", "sale", "Export sale - zero-rated", [["1020", 400000, 0], ["4000", 0, 400000]]),
+    journal("2024-03-18", "sale", "Sale of basic food items (exempt)", [["1020", 200000, 0], ["4000", 0, 200000]]),
+    journal("2024-03-20", "sale-return", "Laptop returned", [["4100", 100000, 0], ["2200", 7500, 0], ["1020", 0, 107500]]),
+    journal("2024-03-08", "purchase", "Purchase of stock", [["5010", 600000, 0], ["1400", 45000, 0], ["2000", 0, 645000]]),
+    journal("2024-03-25", "payment", "VAT settlement for February", [["2200", 30000, 0], ["1020", 0, 30000]]),
+    journal("2024-04-03", "purchase", "Purchase of equipment stock", [["5010", 800000, 0], ["1400", 60000, 0], ["1020", 0, 860000]]),
+    journal("2024-05-10", "sale", "Consulting services", [["1100", 537500, 0], ["4010", 0, 500000], ["2200", 0, 37500]]),
+];
+
+describe("Monthly VAT return", () => {
+    const march = buildMonthlyVATReturn(ledger, "2024-03");
+
+    it("should take supplies and output VAT from sales journals", () => {
+        expect(march).toMatchObject({
+            totalSupplies: 1500000,
+            exemptSupplies: 200000,
+            zeroRatedSupplies: 400000,
+            taxableSupplies: 900000,
+            outputVAT: 67500,
+            vatRate: 0.075,
+            salesJournalCount: 4,
+        });
+    });
+
+    it("should take input VAT from purchase journals and ignore settlements", () => {
+        expect(march.inputVAT).toBe(45000);
+        expect(march.purchaseJournalCount).toBe(1);
+        expect(march.vatPayable).toBe(22500);
+        expect(march.dueDate).toBe("2024-04-21");
+    });
+
+    it("should reconcile posted output VAT against the rulebook rate", () => {
+        expect(march.reconciliation).toMatchObject({ expectedOutputVAT: 67500, outputVATVariance: 0, isReconciled: true });
+
+        const missingVAT = journal("2024-03-28", "sale", "Sale of printers", [["1020", 50000, 0], ["4000", 0, 50000]]);
+        const flagged = buildMonthlyVATReturn([...ledger, missingVAT], "2024-03");
+        expect(flagged.reconciliation.salesWithoutVAT).toEqual([missingVAT.id]);
+        expect(flagged.reconciliation.outputVATVariance).toBe(-3750);
+        expect(flagged.reconciliation.isReconciled).toBe(false);
+    });
+
+    it("should flag VAT charged on exempt supplies", () => {
+        const wrongVAT = journal("2024-03-29", "sale", "Medical supplies (exempt)", [["1020", 10750, 0], ["4000", 0, 10000], ["2200", 0, 750]]);
+
+        expect(buildMonthlyVATReturn([wrongVAT], "2024-03").reconciliation.vatOnNonTaxableSupplies).toEqual([wrongVAT.id]);
+    });
+
+    it("should allow a custom supply classifier", () => {
+        const allExempt = buildMonthlyVATReturn(ledger, "2024-03", { classifySupply: () => "exempt" });
+
+        expect(allExempt.taxableSupplies).toBe(0);
+        expect(allExempt.exemptSupplies).toBe(1500000);
+    });
+});
+
+describe("VAT return schedule", () => {
+    it("should carry excess input VAT forward to later months", () => {
+        const schedule = buildVATReturns(ledger, { from: "2024-03", to: "2024-05", creditBroughtForward: 10000 });
+
+        expect(schedule.months.map(month => [month.period, month.creditBroughtForward, month.vatPayable, month.creditCarriedForward])).toEqual([
+            ["2024-03", 10000, 12500, 0],
+            ["2024-04", 0, 0, 60000],
+            ["2024-05", 60000, 0, 22500],
+        ]);
+        expect(schedule.totalVATPayable).toBe(12500);
+        expect(schedule.creditCarriedForward).toBe(22500);
+    });
+
+    it("should lay out the schedule in FIRS form line order", () => {
+        const csv = vatReturnToCSV(buildVATReturns(ledger, { from: "2024-03", to: "2024-04" })).split("\n");
+
+        expect(csv[0]).toBe("Line,2024-03,2024-04");
+        expect(csv[4]).toBe("4. Total supplies subject to VAT (1 - 2 - 3),900000,0");
+        expect(csv).toContain("Due date,2024-04-21,2024-05-21");
+    });
+
+    it("should reject malformed or reversed periods", () => {
+        expect(() => buildVATReturns(ledger, { from: "March 2024" })).toThrow(/YYYY-MM/);
+        expect(() => buildVATReturns(ledger, { from: "2024-05", to: "2024-03" })).toThrow(/after/);
+        expect(vatDueDate("2024-12")).toBe("2025-01-21");
+    });
+
+    it("should read VAT from sales journals posted by the accounting engine", () => {
+        const { journalEntry } = accountingEngine.processTransaction({
+            id: "TX-VAT-1",
+            date: "2024-06-04",
+            description: "Sold goods to customer, VAT inclusive",
+            category: "Sales",
+            amount: 107500,
+            type: "income",
+        });
+
+        expect(journalEntry.isBalanced).toBe(true);
+        const june = buildMonthlyVATReturn([journalEntry], "2024-06");
+        expect(june.outputVAT).toBe(7500);
+        expect(june.reconciliation.isReconciled).toBe(true);
+    });
+});
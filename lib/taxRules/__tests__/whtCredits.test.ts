@@ -0,0 +1,176 @@
+/**
+ * Unit tests for the WHT credit registry, certificate matching and credit carry-forward
+ */
+
+import fs from "fs";
+import { describe, it, expect } from "vitest";
+import { applyWHTCredits, checkWHTCertificateAmounts, matchWHTCertificates, remainingWHTCredit } from "../whtCredits";
+import { calculateTaxForNigeria } from "../ng";
+import { accountingEngine } from "../../accounting/transactionBridge";
+import { JournalEntry } from "../../accounting/doubleEntry";
+import { UserProfile, WHTCreditCertificate } from "../../types";
+import { withTempStore } from "./tempStore";
+
+const store = withTempStore("wht-credits-", { WHT_CREDIT_REGISTRY_FILE: "credits.json" }, () => import("../whtCreditStore"));
+
+function certificate(overrides: Partial<WHTCreditCertificate>): WHTCreditCertificate {
+    return {
+        id: "CERT",
+        certificateNumber: "CN-1",
+        payerName: "Dangote Cement",
+        payerTIN: "12345678-0001",
+        deductionDate: "2023-06-30",
+        grossAmount: 2000000,
+        rate: 0.1,
+        whtAmount: 200000,
+        utilisations: [],
+        ...overrides,
+    };
+}
+
+function receipt(id: string, narration: string, wht: number, reference?: string): JournalEntry {
+    return {
+        id,
+        date: "2024-02-10",
+        narration,
+        reference,
+        lines: [
+            { accountCode: "1020", accountName: "Bank", debit: 1000000 - wht, credit: 0 },
+            { accountCode: "1410", accountName: "WHT Receivable", debit: wht, credit: 0 },
+            { accountCode: "1100", accountName: "Accounts Receivable", debit: 0, credit: 1000000 },
+        ],
+        isBalanced: true,
+        totalDebits: 1000000,
+        totalCredits: 1000000,
+        transactionType: "receipt",
+        createdAt: "2024-02-10",
+        status: "posted",
+    };
+}
+
+describe("WHT credit allocation", () => {
+    const credits = [
+        certificate({ id: "A", deductionDate: "2022-03-31", whtAmount: 300000, grossAmount: 3000000, utilisations: [{ taxYear: 2022, amount: 100000 }] }),
+        certificate({ id: "B", deductionDate: "2023-06-30" }),
+        certificate({ id: "C", deductionDate: "2025-01-15" }),
+    ];
+
+    it("should apply credits oldest first and carry the rest forward", () => {
+        const summary = applyWHTCredits(credits, { taxYear: 2023, taxLiability: 250000 })!;
+
+        expect(summary.schedule.map(line => [line.certificateId, line.broughtForward, line.utilised, line.carriedForward])).toEqual([
+            ["A", 200000, 200000, 0],
+            ["B", 200000, 50000, 150000],
+        ]);
+        expect(summary).toMatchObject({ broughtForward: 400000, utilised: 250000, carriedForward: 150000 });
+    });
+
+    it("should ignore utilisation recorded for the year being recomputed", () => {
+        const used = certificate({ utilisations: [{ taxYear: 2023, amount: 50000 }, { taxYear: 2024, amount: 150000 }] });
+
+        expect(remainingWHTCredit(used, 2023)).toBe(200000);
+        expect(remainingWHTCredit(used, 2024)).toBe(150000);
+        expect(remainingWHTCredit(used, 2025)).toBe(0);
+    });
+
+    it("should reduce tax due in calculateTaxForNigeria and ignore the manual figure", () => {
+        const profile: UserProfile = {
+            fullName: "Credit Co",
+            taxpayerType: "company",
+            taxYear: 2024,
+            stateOfResidence: "Lagos",
+            isVATRegistered: false,
+            currency: "NGN",
+        };
+        const result = calculateTaxForNigeria(profile, {
+            grossRevenue: 200000000,
+            allowableExpenses: 180000000,
+            turnover: 200000000,
+            withholdingTaxCredits: 5000000,
+            whtCreditRegistry: credits,
+        });
+
+        expect(result.taxCreditsApplied).toBe(400000);
+        expect(result.totalTaxDue).toBe(result.taxBeforeCredits - 400000);
+        expect(result.whtCredits?.schedule.map(line => line.certificateId)).toEqual(["A", "B"]);
+        expect(result.validationIssues.some(issue => /figure entered was ignored/.test(issue.message))).toBe(true);
+    });
+
+    it("should check the WHT against the gross amount and rate", () => {
+        expect(checkWHTCertificateAmounts({ grossAmount: 2000000, rate: 0.1, whtAmount: 200000 })).toBeUndefined();
+        expect(checkWHTCertificateAmounts({ grossAmount: 2000000, rate: 0.05, whtAmount: 200000 })).toMatch(/does not equal/);
+        expect(checkWHTCertificateAmounts({ grossAmount: 2000000, rate: 10, whtAmount: 200000 })).toMatch(/fraction/);
+    });
+});
+
+describe("WHT certificate matching", () => {
+    it("should match by journal, invoice reference, then amount and payer", () => {
+        const ledger = [
+            receipt("JE-1", "Receipt from Dangote Cement for INV-100", 100000),
+            receipt("JE-2", "Receipt from MTN Nigeria", 50000, "INV-200"),
+            receipt("JE-3", "Receipt from Dangote Cement", 75000),
+            receipt("JE-4", "Receipt from Zenith Bank", 25000),
+        ];
+        const report = matchWHTCertificates([
+            certificate({ id: "X", whtAmount: 75000 }),
+            certificate({ id: "Y", payerName: "MTN Nigeria", invoiceReference: "inv-200", whtAmount: 50000 }),
+            certificate({ id: "Z", invoiceReference: "INV-100", whtAmount: 100000, receiptJournalId: "JE-1" }),
+            certificate({ id: "W", payerName: "Access Bank", whtAmount: 10000 }),
+        ], ledger);
+
+        expect(report.matches.map(match => [match.certificateId, match.journalId, match.matchedBy])).toEqual([
+            ["Z", "JE-1", "journal"],
+            ["Y", "JE-2", "invoice"],
+            ["X", "JE-3", "amount"],
+        ]);
+        expect(report.unmatchedCertificates).toEqual(["W"]);
+        expect(report.receiptsWithoutCertificate.map(entry => entry.journalId)).toEqual(["JE-4"]);
+        expect(report.totalDeducted).toBe(250000);
+    });
+
+    it("should find WHT deducted on sales posted by the accounting engine", () => {
+        const { journalEntry } = accountingEngine.processTransaction({
+            id: "TX-WHT-1",
+            date: "2024-05-06",
+            description: "Consulting fee received from Shell, net of WHT",
+            category: "Sales",
+            amount: 1000000,
+            type: "income",
+        });
+
+        expect(journalEntry.isBalanced).toBe(true);
+        expect(journalEntry.lines.find(line => line.accountCode === "1410")?.debit).toBe(50000);
+        expect(matchWHTCertificates([], [journalEntry]).receiptsWithoutCertificate).toHaveLength(1);
+    });
+});
+
+describe("WHT credit registry store", () => {
+    const details = {
+        certificateNumber: "CN-900",
+        payerName: "Julius Berger",
+        payerTIN: "98765432-0001",
+        invoiceReference: "INV-900",
+        deductionDate: "2023-09-30",
+        grossAmount: 5000000,
+        rate: 0.05,
+        whtAmount: 250000,
+    };
+
+    it("should record certificates and reject duplicates or wrong amounts", () => {
+        const registry = store.recordWHTCertificate("TIN-WHT", details);
+
+        expect(registry.certificates[0].id).toBe("98765432-0001-CN-900");
+        expect(() => store.recordWHTCertificate("TIN-WHT", details)).toThrow(/already recorded/);
+        expect(() => store.recordWHTCertificate("TIN-WHT", { ...details, certificateNumber: "CN-901", whtAmount: 300000 })).toThrow(/does not equal/);
+        expect(JSON.parse(fs.readFileSync(process.env.WHT_CREDIT_REGISTRY_FILE!, "utf-8")).taxpayers).toHaveLength(1);
+    });
+
+    it("should write a year's utilisation and replace it when recomputed", () => {
+        const certificates = store.getWHTCreditRegistry("TIN-WHT")!.certificates;
+        store.recordWHTCreditUtilisation("TIN-WHT", applyWHTCredits(certificates, { taxYear: 2023, taxLiability: 100000 })!);
+        const registry = store.recordWHTCreditUtilisation("TIN-WHT", applyWHTCredits(certificates, { taxYear: 2023, taxLiability: 180000 })!);
+
+        expect(registry.certificates[0].utilisations).toEqual([{ taxYear: 2023, amount: 180000 }]);
+        expect(applyWHTCredits(registry.certificates, { taxYear: 2024, taxLiability: 1000000 })?.utilised).toBe(70000);
+    });
+});
@@ -0,0 +1,150 @@
+/**
+ * Unit tests for the WHT deduction and remittance schedule and beneficiary credit notes
+ */
+
+import fs from "fs";
+import { describe, it, expect } from "vitest";
+import {
+    buildWHTCreditNotes,
+    buildWHTRemittanceSchedule,
+    createWHTDeduction,
+    FIRS_AUTHORITY,
+    journalsWithoutWHTDeduction,
+    WHTDeductionInput,
+    whtCreditNoteToCSV,
+    whtDueDate,
+    whtScheduleToCSV,
+} from "../whtRemittance";
+import { accountingEngine } from "../../accounting/transactionBridge";
+import { withTempStore } from "./tempStore";
+
+const store = withTempStore("wht-deductions-", { WHT_DEDUCTION_FILE: "deductions.json" }, () => import("../whtDeductionStore"));
+
+const payment = (overrides: Partial<WHTDeductionInput>): WHTDeductionInput => ({
+    paymentDate: "2024-03-10",
+    beneficiaryName: "Alpha Consulting Ltd",
+    beneficiaryTIN: "11111111-0001",
+    beneficiaryType: "company",
+    isResident: true,
+    paymentType: "consultancy",
+    grossAmount: 1000000,
+    ...overrides,
+});
+
+const deductions = [
+    createWHTDeduction("D1", payment({})),
+    createWHTDeduction("D2", payment({ paymentDate: "2024-03-25", paymentType: "rent", grossAmount: 500000 })),
+    createWHTDeduction("D3", payment({
+        beneficiaryName: "Tunde Bakare", beneficiaryTIN: "22222222-0001", beneficiaryType: "individual",
+        beneficiaryState: "Ogun", paymentType: "professional_fees_individual", grossAmount: 400000,
+    })),
+    createWHTDeduction("D4", payment({ beneficiaryName: "Globex Inc", beneficiaryTIN: undefined, isResident: false, paymentType: "professional_fees_company" })),
+    createWHTDeduction("D5", payment({ paymentDate: "2024-04-02" })),
+];
+
+describe("WHT deductions", () => {
+    it("should take the rate from the payment type and residence", () => {
+        expect(deductions.map(deduction => [deduction.rate, deduction.whtAmount])).toEqual([
+            [0.1, 100000],
+            [0.1, 50000],
+            [0.05, 20000],
+            [0.15, 150000],
+            [0.1, 100000],
+        ]);
+    });
+
+    it("should require a state for resident individuals and a known payment type", () => {
+        expect(() => createWHTDeduction("X", payment({ beneficiaryType: "individual" }))).toThrow(/state of residence/);
+        expect(() => createWHTDeduction("X", payment({ paymentType: "gifts" }))).toThrow(/Unknown WHT payment type/);
+        expect(() => createWHTDeduction("X", payment({ grossAmount: 0 }))).toThrow(/positive/);
+    });
+});
+
+describe("WHT remittance schedule", () => {
+    const schedule = buildWHTRemittanceSchedule(deductions, "2024-03", "2024-04-05");
+
+    it("should split federal and state remittances and group by beneficiary", () => {
+        expect(schedule.dueDate).toBe("2024-04-21");
+        expect(schedule.groups.map(group => [group.authority, group.level, group.whtAmount])).toEqual([
+            [FIRS_AUTHORITY, "federal", 300000],
+            ["Ogun State Internal Revenue Service", "state", 20000],
+        ]);
+        expect(schedule.groups[0].beneficiaries.map(beneficiary => [beneficiary.beneficiaryName, beneficiary.grossAmount, beneficiary.whtAmount])).toEqual([
+            ["Alpha Consulting Ltd", 1500000, 150000],
+            ["Globex Inc", 1000000, 150000],
+        ]);
+        expect(schedule.totals).toMatchObject({ whtAmount: 320000, outstanding: 320000 });
+    });
+
+    it("should flag WHT still outstanding after the due date", () => {
+        const late = buildWHTRemittanceSchedule(deductions, "2024-03", "2024-04-22");
+        expect(schedule.groups.every(group => !group.overdue)).toBe(true);
+        expect(late.groups.every(group => group.overdue)).toBe(true);
+        expect(whtDueDate("2024-12")).toBe("2025-01-21");
+    });
+
+    it("should issue credit notes only for remitted deductions", () => {
+        const remitted = deductions.map(deduction => deduction.id === "D4" ? deduction : { ...deduction, remittance: { remittedOn: "2024-04-18" } });
+        const notes = buildWHTCreditNotes(buildWHTRemittanceSchedule(remitted, "2024-03"), { payerTIN: "99999999-0001", payerName: "Payer Ltd" });
+
+        expect(buildWHTCreditNotes(schedule, { payerTIN: "99999999-0001" })).toEqual([]);
+        expect(notes.map(note => [note.certificateNumber, note.beneficiaryName, note.whtAmount, note.issueDate])).toEqual([
+            ["WHT-202403-FIRS-001", "Alpha Consulting Ltd", 150000, "2024-04-18"],
+            ["WHT-202403-OGU-001", "Tunde Bakare", 20000, "2024-04-18"],
+        ]);
+        expect(whtCreditNoteToCSV(notes[1])).toContain("Remitted To,Ogun State Internal Revenue Service");
+        expect(whtScheduleToCSV(schedule, "99999999-0001").split("\n")).toContain("TOTAL WHT,320000");
+    });
+});
+
+describe("WHT deductions in the ledger", () => {
+    it("should post WHT withheld from suppliers to WHT Payable and flag it until recorded", () => {
+        const { journalEntry } = accountingEngine.processTransaction({
+            id: "TX-WHT-PAY-1",
+            date: "2024-03-15",
+            description: "Paid consultant fee less WHT",
+            category: "Professional Fees",
+            amount: 200000,
+            type: "expense",
+        });
+
+        expect(journalEntry.isBalanced).toBe(true);
+        expect(journalEntry.lines.find(line => line.accountCode === "2220")?.credit).toBe(10000);
+        expect(journalsWithoutWHTDeduction([journalEntry], deductions)).toHaveLength(1);
+        expect(journalsWithoutWHTDeduction([journalEntry], [{ ...deductions[0], journalId: journalEntry.id }])).toHaveLength(0);
+    });
+});
+
+describe("WHT deduction store", () => {
+    it("should record deductions and mark an authority's month as remitted", () => {
+        store.recordWHTDeduction("PAYER-1", payment({}), "Payer Ltd");
+        store.recordWHTDeduction("PAYER-1", payment({ beneficiaryType: "individual", beneficiaryState: "Lagos", paymentType: "commissions" }));
+
+        const remitted = store.markWHTRemitted("PAYER-1", { period: "2024-03", authority: FIRS_AUTHORITY, remittedOn: "2024-04-18", receiptNumber: "R-1" });
+        expect(remitted.map(deduction => deduction.id)).toEqual(["WHTD-0001"]);
+
+        const schedule = store.getWHTRemittanceSchedule("PAYER-1", "2024-03", "2024-04-30");
+        expect(schedule.groups.map(group => [group.status, group.overdue])).toEqual([["remitted", false], ["outstanding", true]]);
+        expect(store.getWHTCreditNotes("PAYER-1", "2024-03").map(note => [note.certificateNumber, note.payerName])).toEqual([["WHT-202403-FIRS-001", "Payer Ltd"]]);
+    });
+
+    it("should not remove a deduction once remitted", () => {
+        expect(() => store.removeWHTDeduction("PAYER-1", "WHTD-0001")).toThrow(/already been remitted/);
+        expect(store.removeWHTDeduction("PAYER-1", "WHTD-0002").deductions).toHaveLength(1);
+        expect(JSON.parse(fs.readFileSync(process.env.WHT_DEDUCTION_FILE!, "utf-8")).payers).toHaveLength(1);
+    });
+
+    it("should keep credit note numbers when other beneficiaries are remitted later", () => {
+        store.recordWHTDeduction("PAYER-2", payment({ beneficiaryName: "Beta Ltd", beneficiaryTIN: "33333333-0001" }));
+        store.recordWHTDeduction("PAYER-2", payment({ paymentDate: "2024-03-02", isResident: false }));
+        store.markWHTRemitted("PAYER-2", { period: "2024-03", authority: FIRS_AUTHORITY, remittedOn: "2024-04-10" });
+        const first = store.getWHTCreditNotes("PAYER-2", "2024-03").map(note => [note.beneficiaryName, note.certificateNumber]);
+
+        store.recordWHTDeduction("PAYER-2", payment({ beneficiaryName: "Gamma Ltd", beneficiaryTIN: "44444444-0001", paymentDate: "2024-03-01" }));
+        store.markWHTRemitted("PAYER-2", { period: "2024-03", authority: FIRS_AUTHORITY, remittedOn: "2024-04-20" });
+        const notes = store.getWHTCreditNotes("PAYER-2", "2024-03").map(note => [note.beneficiaryName, note.certificateNumber]);
+
+        expect(first).toEqual([["Alpha Consulting Ltd", "WHT-202403-FIRS-001"], ["Beta Ltd", "WHT-202403-FIRS-002"]]);
+        expect(notes).toEqual([["Gamma Ltd", "WHT-202403-FIRS-003"], ...first]);
+    });
+});
@@ -0,0 +1,165 @@
+import {
+    CapitalAllowanceScheduleLine,
+    CapitalAllowanceSummary,
+    FixedAssetRecord,
+    TaxInputs,
+} from "../types";
+import { DepreciationRate, FIRS_DEPRECIATION_RATES } from "../accounting/standards";
+
+/**
+ * Capital Allowance Schedule
+ *
+ * Rolls each asset in the fixed-asset register forward from its acquisition
+ * year to the tax year: initial allowance in the year of acquisition, annual
+ * allowances at the FIRS rate thereafter, and a balancing adjustment in the
+ * year of disposal. No annual allowance is given in the year of disposal and
+ * ₦10 stays in the books until the asset is disposed of.
+ *
+ * Prior years are assumed to have been claimed in full; allowances that could
+ * not be absorbed come in through TaxInputs.unabsorbedCapitalAllowance.
+ */
+
+export const RETENTION_VALUE = 10;
+
+export interface CapitalAllowanceClaimOptions {
+    taxYear: number;
+    profitBeforeAllowances: number;   // adjusted profit before balancing charges and allowances
+    restrictionRate?: number;         // share of assessable profit that may be claimed; omit for no restriction
+}
+
+function rateFor(asset: FixedAssetRecord): DepreciationRate {
+    const rate = FIRS_DEPRECIATION_RATES.find(entry => entry.assetClass === asset.assetClass);
+    if (!rate) {
+        throw new Error(`No capital allowance rate for asset class "${asset.assetClass}" (asset ${asset.id})`);
+    }
+    return rate;
+}
+
+function yearOf(date: string, field: string, asset: FixedAssetRecord): number {
+    const year = new Date(date).getFullYear();
+    if (Number.isNaN(year)) {
+        throw new Error(`Invalid ${field} "${date}" for asset ${asset.id}`);
+    }
+    return year;
+}
+
+/**
+ * The asset's line in the schedule for one tax year, or null when the asset
+ * was not held in that year.
+ */
+export function scheduleAsset(asset: FixedAssetRecord, taxYear: number): CapitalAllowanceScheduleLine | null {
+    const rate = rateFor(asset);
+    const acquiredIn = yearOf(asset.acquisitionDate, "acquisitionDate", asset);
+    const disposedIn = asset.disposalDate ? yearOf(asset.disposalDate, "disposalDate", asset) : undefined;
+
+    if (acquiredIn > taxYear || (disposedIn !== undefined && disposedIn < taxYear)) {
+        return null;
+    }
+
+    const cost = Math.max(0, asset.cost || 0);
+    const initialAllowance = cost * (rate.initialAllowance || 0) / 100;
+    const residue = cost - initialAllowance;
+
+    let twdv = 0;
+    let line: CapitalAllowanceScheduleLine | null = null;
+
+    for (let year = acquiredIn; year <= taxYear; year++) {
+        const openingTWDV = twdv;
+        const additions = year === acquiredIn ? cost : 0;
+        const available = openingTWDV + additions;
+        let ia = 0;
+        let aa = 0;
+        let balancingCharge = 0;
+        let balancingAllowance = 0;
+
+        if (year === disposedIn) {
+            const proceeds = Math.max(0, asset.disposalProceeds || 0);
+            const claimedToDate = cost - available;
+            if (proceeds > available) {
+                balancingCharge = Math.min(proceeds - available, claimedToDate);
+            } else {
+                balancingAllowance = available - proceeds;
+            }
+            twdv = 0;
+        } else {
+            ia = year === acquiredIn ? initialAllowance : 0;
+            const base = rate.method === "straight-line" ? residue : available - ia;
+            aa = Math.min(base * rate.rate / 100, Math.max(0, available - ia - RETENTION_VALUE));
+            twdv = available - ia - aa;
+        }
+
+        line = {
+            assetId: asset.id,
+            description: asset.description,
+            assetClass: asset.assetClass,
+            cost,
+            openingTWDV,
+            additions,
+            initialAllowance: ia,
+            annualAllowance: aa,
+            balancingCharge,
+            balancingAllowance,
+            closingTWDV: twdv,
+            disposed: year === disposedIn,
+        };
+    }
+
+    return line;
+}
+
+export function buildCapitalAllowanceSchedule(assets: FixedAssetRecord[], taxYear: number): CapitalAllowanceScheduleLine[] {
+    return assets
+        .map(asset => scheduleAsset(asset, taxYear))
+        .filter((line): line is CapitalAllowanceScheduleLine => line !== null);
+}
+
+const sum = (lines: CapitalAllowanceScheduleLine[], key: keyof CapitalAllowanceScheduleLine) =>
+    lines.reduce((total, line) => total + (line[key] as number), 0);
+
+/**
+ * Works out the allowance claimable against the year's profit. A fixed-asset
+ * register takes precedence over the hand-entered capitalAllowance figure.
+ * Allowances never create a loss; whatever cannot be claimed is carried forward.
+ * Returns undefined when there is nothing to claim.
+ */
+export function computeCapitalAllowances(
+    inputs: Pick<TaxInputs, "fixedAssets" | "capitalAllowance" | "unabsorbedCapitalAllowance">,
+    options: CapitalAllowanceClaimOptions
+): CapitalAllowanceSummary | undefined {
+    const assets = inputs.fixedAssets || [];
+    const manual = Math.max(0, inputs.capitalAllowance || 0);
+    const broughtForward = Math.max(0, inputs.unabsorbedCapitalAllowance || 0);
+
+    if (assets.length === 0 && manual === 0 && broughtForward === 0) {
+        return undefined;
+    }
+
+    const source = assets.length > 0 ? "register" : "manual";
+    const schedule = source === "register" ? buildCapitalAllowanceSchedule(assets, options.taxYear) : [];
+
+    const initialAllowances = sum(schedule, "initialAllowance");
+    // A hand-entered figure is treated as the year's annual allowance
+    const annualAllowances = source === "register" ? sum(schedule, "annualAllowance") : manual;
+    const balancingAllowances = sum(schedule, "balancingAllowance");
+    const balancingCharges = sum(schedule, "balancingCharge");
+    const totalAvailable = initialAllowances + annualAllowances + balancingAllowances + broughtForward;
+
+    const assessableProfit = Math.max(0, options.profitBeforeAllowances + balancingCharges);
+    const restrictionCap = options.restrictionRate !== undefined ? assessableProfit * options.restrictionRate : undefined;
+    const allowanceClaimed = Math.min(totalAvailable, assessableProfit, restrictionCap ?? Infinity);
+
+    return {
+        taxYear: options.taxYear,
+        source,
+        schedule,
+        initialAllowances,
+        annualAllowances,
+        balancingAllowances,
+        balancingCharges,
+        unabsorbedBroughtForward: broughtForward,
+        totalAvailable,
+        restrictionCap,
+        allowanceClaimed,
+        unabsorbedCarriedForward: totalAvailable - allowanceClaimed,
+    };
+}
@@ -1,12 +1,29 @@
 /**
  * Capital Gains Tax (CGT) Calculator for Nigeria
- * 
+ *
  * CGT Rate: 10% on chargeable gains from disposal of assets
  * Legal Basis: Capital Gains Tax Act Cap C1 LFN 2004
+ *
+ * Each disposal is checked against the exemptions and reliefs below, share
+ * costs are averaged across purchases of the same security, and allowable
+ * losses are netted against gains of the same year (they are not carried
+ * forward to later years).
  */
 
+export type CGTAssetType =
+    | 'real_estate'
+    | 'shares'
+    | 'business_assets'
+    | 'government_securities'
+    | 'life_insurance_policy'
+    | 'motor_vehicle'
+    | 'decoration'
+    | 'other';
+
+export type CGTHolderStatus = 'charity' | 'approved_pension_fund' | 'trade_union';
+
 export interface CGTInput {
-    assetType: 'real_estate' | 'shares' | 'business_assets' | 'other';
+    assetType: CGTAssetType;
     assetDescription: string;
     acquisitionDate: string;      // ISO date
     acquisitionCost: number;
@@ -14,6 +31,26 @@ export interface CGTInput {
     disposalDate: string;         // ISO date
     disposalProceeds: number;
     sellingExpenses?: number;     // Legal fees, agent fees, etc.
+    isPrincipalResidence?: boolean;  // the individual's only or main residence
+    reinvestedAmount?: number;    // proceeds spent on a replacement asset (or on shares, for shares)
+    reinvestmentDate?: string;    // ISO date of the replacement acquisition
+    security?: string;            // shares: identifier used to pool acquisition costs, e.g. "MTNN"
+    quantity?: number;            // shares: number of units disposed of
+    holderStatus?: CGTHolderStatus;
+}
+
+export interface CGTShareAcquisition {
+    security: string;
+    date: string;                 // ISO date
+    quantity: number;
+    cost: number;                 // total cost including brokerage
+}
+
+export interface CGTReliefApplied {
+    id: string;
+    label: string;
+    amount: number;               // gain relieved
+    citation: string;
 }
 
 export interface CGTResult {
@@ -22,75 +59,269 @@ export interface CGTResult {
     totalCost: number;
     disposalProceeds: number;
     sellingExpenses: number;
+    gain: number;                 // before reliefs; negative for a loss
+    reliefs: CGTReliefApplied[];
+    allowableLoss: number;
     chargeableGain: number;
     cgtRate: number;
-    cgtPayable: number;
+    cgtPayable: number;           // on this disposal alone, before netting losses
     isExempt: boolean;
     exemptionReason?: string;
+    pooledCostPerShare?: number;
+}
+
+export interface CGTYearSummary {
+    year: number;
+    chargeableGains: number;
+    allowableLosses: number;
+    netChargeableGain: number;
+    unrelievedLosses: number;     // losses in excess of the year's gains
+    cgtPayable: number;
+}
+
+export interface CGTExemption {
+    id: string;
+    description: string;
+    citation: string;
+    assetTypes?: CGTAssetType[];
+    holderStatuses?: CGTHolderStatus[];
+}
+
+export class CGTError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'CGTError';
+    }
 }
 
 // CGT Rate - 10% flat rate
 export const CGT_RATE = 0.10;
 
-// Exempt assets under Nigerian CGT Act
-export const CGT_EXEMPTIONS = [
-    'Decorations awarded for valour or gallant conduct',
-    'Life insurance policy proceeds',
-    'Government securities',
-    'Gains from Nigerian government stocks',
-    'Ecclesiastical, charitable or educational institutions assets',
-    'Approved pension fund assets',
-    'Trade union assets',
+// Share disposals below this total in any 12 consecutive months are exempt
+export const SMALL_SHARE_DISPOSAL_THRESHOLD = 100_000_000;
+
+const ROLLOVER_WINDOW_BEFORE_MONTHS = 12;
+const ROLLOVER_WINDOW_AFTER_MONTHS = 36;
+
+// Exempt assets and persons under Nigerian CGT Act
+export const CGT_EXEMPTIONS: CGTExemption[] = [
+    { id: 'decorations', description: 'Decorations awarded for valour or gallant conduct', citation: 'CGTA Cap C1 LFN 2004', assetTypes: ['decoration'] },
+    { id: 'life_insurance', description: 'Life insurance policy proceeds', citation: 'CGTA Cap C1 LFN 2004', assetTypes: ['life_insurance_policy'] },
+    { id: 'government_securities', description: 'Nigerian government securities and stocks', citation: 'CGTA Cap C1 LFN 2004', assetTypes: ['government_securities'] },
+    { id: 'motor_vehicles', description: 'Motor vehicles for the carriage of passengers', citation: 'CGTA Cap C1 LFN 2004', assetTypes: ['motor_vehicle'] },
+    { id: 'charities', description: 'Ecclesiastical, charitable or educational institutions assets', citation: 'CGTA Cap C1 LFN 2004', holderStatuses: ['charity'] },
+    { id: 'pension_funds', description: 'Approved pension fund assets', citation: 'CGTA Cap C1 LFN 2004', holderStatuses: ['approved_pension_fund'] },
+    { id: 'trade_unions', description: 'Trade union assets', citation: 'CGTA Cap C1 LFN 2004', holderStatuses: ['trade_union'] },
 ];
 
-/**
- * Calculate Capital Gains Tax
- */
-export function calculateCGT(input: CGTInput): CGTResult {
+export const CGT_RELIEF_CITATIONS = {
+    principalResidence: 'CGTA s.36',
+    rollover: 'CGTA s.32',
+    shares: 'CGTA s.30 (as amended by Finance Act 2021)',
+};
+
+export function findCGTExemption(input: CGTInput): CGTExemption | undefined {
+    return CGT_EXEMPTIONS.find(exemption =>
+        (exemption.assetTypes?.includes(input.assetType) ?? false) ||
+        (input.holderStatus !== undefined && (exemption.holderStatuses?.includes(input.holderStatus) ?? false))
+    );
+}
+
+const toTime = (date: string) => new Date(date).getTime();
+
+function addMonths(date: string, months: number): number {
+    const result = new Date(date);
+    result.setMonth(result.getMonth() + months);
+    return result.getTime();
+}
+
+function reinvestmentQualifies(input: CGTInput): boolean {
+    if (!input.reinvestedAmount || input.reinvestedAmount <= 0) {
+        return false;
+    }
+    if (!input.reinvestmentDate) {
+        return true;
+    }
+    const reinvestedAt = toTime(input.reinvestmentDate);
+    if (input.assetType === 'shares') {
+        // Share proceeds must be reinvested within the same year of assessment
+        return new Date(input.reinvestmentDate).getFullYear() === new Date(input.disposalDate).getFullYear();
+    }
+    return reinvestedAt >= addMonths(input.disposalDate, -ROLLOVER_WINDOW_BEFORE_MONTHS)
+        && reinvestedAt <= addMonths(input.disposalDate, ROLLOVER_WINDOW_AFTER_MONTHS);
+}
+
+interface DisposalContext {
+    pooledCost?: { costPerShare: number; cost: number };
+    shareProceedsInWindow?: number;   // shares disposed of in the 12 months up to this disposal
+}
+
+function evaluateDisposal(input: CGTInput, context: DisposalContext = {}): CGTResult {
     const improvementCosts = input.improvementCosts || 0;
     const sellingExpenses = input.sellingExpenses || 0;
+    const acquisitionCost = context.pooledCost ? context.pooledCost.cost : input.acquisitionCost;
 
-    const totalCost = input.acquisitionCost + improvementCosts;
+    const totalCost = acquisitionCost + improvementCosts;
     const netProceeds = input.disposalProceeds - sellingExpenses;
 
     // Calculate gain (can be negative if loss)
     const gain = netProceeds - totalCost;
+    const reliefs: CGTReliefApplied[] = [];
+    let exemptionReason: string | undefined;
+    let remaining = Math.max(0, gain);
 
-    // Only positive gains are taxable
-    const chargeableGain = Math.max(0, gain);
+    const exemption = findCGTExemption(input);
+    const shareProceeds = context.shareProceedsInWindow ?? input.disposalProceeds;
 
-    // Calculate CGT
-    const cgtPayable = chargeableGain * CGT_RATE;
+    if (exemption) {
+        exemptionReason = exemption.description;
+        reliefs.push({ id: exemption.id, label: exemption.description, amount: remaining, citation: exemption.citation });
+    } else if (input.assetType === 'real_estate' && input.isPrincipalResidence) {
+        exemptionReason = 'Principal private residence';
+        reliefs.push({ id: 'principal_residence', label: 'Principal private residence relief', amount: remaining, citation: CGT_RELIEF_CITATIONS.principalResidence });
+    } else if (input.assetType === 'shares' && shareProceeds < SMALL_SHARE_DISPOSAL_THRESHOLD) {
+        exemptionReason = `Share disposals below ₦${SMALL_SHARE_DISPOSAL_THRESHOLD.toLocaleString()} in 12 months`;
+        reliefs.push({ id: 'small_share_disposal', label: 'Small share disposal exemption', amount: remaining, citation: CGT_RELIEF_CITATIONS.shares });
+    } else if (remaining > 0 && reinvestmentQualifies(input)) {
+        // Gain is deferred to the extent the proceeds were reinvested
+        const chargeable = Math.min(remaining, Math.max(0, netProceeds - (input.reinvestedAmount || 0)));
+        const relieved = remaining - chargeable;
+        if (relieved > 0) {
+            reliefs.push(input.assetType === 'shares'
+                ? { id: 'share_reinvestment', label: 'Reinvestment of share proceeds', amount: relieved, citation: CGT_RELIEF_CITATIONS.shares }
+                : { id: 'rollover', label: 'Rollover relief on replacement asset', amount: relieved, citation: CGT_RELIEF_CITATIONS.rollover });
+        }
+    }
+
+    const isExempt = exemptionReason !== undefined;
+    remaining -= reliefs.reduce((sum, relief) => sum + relief.amount, 0);
+    const chargeableGain = Math.max(0, remaining);
 
     return {
-        acquisitionCost: input.acquisitionCost,
+        acquisitionCost,
         improvementCosts,
         totalCost,
         disposalProceeds: input.disposalProceeds,
         sellingExpenses,
+        gain,
+        reliefs,
+        // Losses on exempt assets are not allowable
+        allowableLoss: isExempt ? 0 : Math.max(0, -gain),
         chargeableGain,
         cgtRate: CGT_RATE,
-        cgtPayable,
-        isExempt: false,
-        exemptionReason: undefined,
+        cgtPayable: chargeableGain * CGT_RATE,
+        isExempt,
+        exemptionReason,
+        pooledCostPerShare: context.pooledCost?.costPerShare,
     };
 }
 
+/**
+ * Calculate Capital Gains Tax
+ */
+export function calculateCGT(input: CGTInput): CGTResult {
+    return evaluateDisposal(input);
+}
+
+/**
+ * Average cost of each share disposal. Acquisitions of the same security form
+ * one pool; each disposal takes its proportion of the pool's cost at the date
+ * of disposal and reduces the pool.
+ */
+function poolShareCosts(inputs: CGTInput[], acquisitions: CGTShareAcquisition[]): Map<number, DisposalContext['pooledCost']> {
+    const pooled = new Map<number, DisposalContext['pooledCost']>();
+    const securities = new Set(acquisitions.map(acquisition => acquisition.security));
+
+    for (const security of securities) {
+        const events = [
+            ...acquisitions
+                .filter(acquisition => acquisition.security === security)
+                .map(acquisition => ({ date: acquisition.date, order: 0, acquisition, index: -1 })),
+            ...inputs
+                .map((input, index) => ({ date: input.disposalDate, order: 1, acquisition: undefined, index }))
+                .filter(event => inputs[event.index].assetType === 'shares' && inputs[event.index].security === security),
+        ].sort((a, b) => toTime(a.date) - toTime(b.date) || a.order - b.order);
+
+        let quantity = 0;
+        let cost = 0;
+        for (const event of events) {
+            if (event.acquisition) {
+                quantity += event.acquisition.quantity;
+                cost += event.acquisition.cost;
+                continue;
+            }
+            const disposal = inputs[event.index];
+            const disposed = disposal.quantity || 0;
+            if (disposed <= 0 || disposed > quantity + 1e-9) {
+                throw new CGTError(`Disposal of ${disposed} ${security} on ${disposal.disposalDate} exceeds the ${quantity} shares held`);
+            }
+            const costPerShare = cost / quantity;
+            const disposalCost = costPerShare * disposed;
+            pooled.set(event.index, { costPerShare, cost: disposalCost });
+            quantity -= disposed;
+            cost -= disposalCost;
+        }
+    }
+
+    return pooled;
+}
+
 /**
  * Calculate CGT for multiple disposals
  */
-export function calculateTotalCGT(inputs: CGTInput[]): {
+export function calculateTotalCGT(inputs: CGTInput[], shareAcquisitions: CGTShareAcquisition[] = []): {
     disposals: CGTResult[];
+    years: CGTYearSummary[];
     totalGain: number;
+    totalLosses: number;
     totalCGT: number;
 } {
-    const disposals = inputs.map(calculateCGT);
-    const totalGain = disposals.reduce((sum, d) => sum + d.chargeableGain, 0);
-    const totalCGT = disposals.reduce((sum, d) => sum + d.cgtPayable, 0);
+    const pooled = poolShareCosts(inputs, shareAcquisitions);
+    const yearMs = 365 * 24 * 60 * 60 * 1000;
+
+    const disposals = inputs.map((input, index) => {
+        const shareProceedsInWindow = input.assetType === 'shares'
+            ? inputs
+                .filter(other => other.assetType === 'shares')
+                .filter(other => {
+                    const elapsed = toTime(input.disposalDate) - toTime(other.disposalDate);
+                    return elapsed >= 0 && elapsed < yearMs;
+                })
+                .reduce((sum, other) => sum + other.disposalProceeds, 0)
+            : undefined;
+        return evaluateDisposal(input, { pooledCost: pooled.get(index), shareProceedsInWindow });
+    });
+
+    // Net allowable losses against gains of the same year
+    const byYear = new Map<number, CGTYearSummary>();
+    disposals.forEach((disposal, index) => {
+        const year = new Date(inputs[index].disposalDate).getFullYear();
+        const summary = byYear.get(year) || { year, chargeableGains: 0, allowableLosses: 0, netChargeableGain: 0, unrelievedLosses: 0, cgtPayable: 0 };
+        summary.chargeableGains += disposal.chargeableGain;
+        summary.allowableLosses += disposal.allowableLoss;
+        byYear.set(year, summary);
+    });
+    const years = Array.from(byYear.values())
+        .sort((a, b) => a.year - b.year)
+        .map(summary => {
+            const netChargeableGain = Math.max(0, summary.chargeableGains - summary.allowableLosses);
+            return {
+                ...summary,
+                netChargeableGain,
+                unrelievedLosses: Math.max(0, summary.allowableLosses - summary.chargeableGains),
+                cgtPayable: netChargeableGain * CGT_RATE,
+            };
+        });
+
+    const totalGain = years.reduce((sum, y) => sum + y.netChargeableGain, 0);
+    const totalLosses = years.reduce((sum, y) => sum + y.allowableLosses, 0);
+    const totalCGT = years.reduce((sum, y) => sum + y.cgtPayable, 0);
 
     return {
         disposals,
+        years,
         totalGain,
+        totalLosses,
         totalCGT,
     };
 }
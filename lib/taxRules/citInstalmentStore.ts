@@ -0,0 +1,110 @@
+import path from "path";
+import {
+    buildCITInstalmentPlan,
+    CITInstalmentPayment,
+    CITInstalmentPlan,
+    CITProvisionalError,
+    CITProvisionalEstimate,
+} from "./citProvisional";
+import { createJsonStore, requireText } from "./jsonStore";
+
+/**
+ * CIT Instalment Store
+ *
+ * Keeps each company's provisional CIT estimate, self-assessed liability and
+ * instalment payments by year, so the instalment plan can be tracked after
+ * the return is filed.
+ */
+
+export interface CITInstalmentRecord {
+    taxpayerId: string;          // e.g. TIN
+    taxYear: number;
+    fiscalYearEnd: string;       // MM-DD
+    instalments: number;
+    estimate?: CITProvisionalEstimate;
+    assessedLiability?: number;  // from the filed self-assessment return
+    payments: CITInstalmentPayment[];
+    updatedAt: string;
+}
+
+interface CITInstalmentFile {
+    plans: CITInstalmentRecord[];
+}
+
+const PLAN_FILE = process.env.CIT_INSTALMENT_FILE || path.join(process.cwd(), "data", "citInstalments.json");
+
+const store = createJsonStore<CITInstalmentFile>({ file: PLAN_FILE, description: "CIT instalment store", empty: () => ({ plans: [] }) });
+
+function requireRecord(taxpayerId: string, taxYear: number): CITInstalmentRecord {
+    const record = getCITInstalmentRecord(requireText(taxpayerId, "taxpayerId", CITProvisionalError), taxYear);
+    if (!record) {
+        throw new CITProvisionalError(`No CIT instalment plan for ${taxpayerId} in ${taxYear}`, 404);
+    }
+    return record;
+}
+
+function touch(record: CITInstalmentRecord) {
+    record.payments.sort((a, b) => a.paidOn.localeCompare(b.paidOn));
+    store.load().plans.sort((a, b) => a.taxpayerId.localeCompare(b.taxpayerId) || a.taxYear - b.taxYear);
+    store.touch(record);
+}
+
+export function getCITInstalmentRecord(taxpayerId: string, taxYear: number): CITInstalmentRecord | undefined {
+    return store.load().plans.find(plan => plan.taxpayerId === taxpayerId.trim() && plan.taxYear === taxYear);
+}
+
+/**
+ * Saves the latest provisional estimate and the number of instalments chosen.
+ * Payments and any self-assessed liability already recorded are kept.
+ */
+export function saveCITEstimate(taxpayerId: string, estimate: CITProvisionalEstimate, instalments: number): CITInstalmentRecord {
+    const id = requireText(taxpayerId, "taxpayerId", CITProvisionalError);
+    // Check the instalments fit the year before keeping them
+    buildCITInstalmentPlan({ ...estimate, instalments, payments: [] }, estimate.toDate.asOf);
+
+    let record = getCITInstalmentRecord(id, estimate.taxYear);
+    if (!record) {
+        record = { taxpayerId: id, taxYear: estimate.taxYear, fiscalYearEnd: estimate.fiscalYearEnd, instalments, payments: [], updatedAt: "" };
+        store.load().plans.push(record);
+    }
+    record.estimate = estimate;
+    record.fiscalYearEnd = estimate.fiscalYearEnd;
+    record.instalments = instalments;
+    touch(record);
+    return record;
+}
+
+/**
+ * Records the liability on the filed self-assessment return, which replaces
+ * the estimate as the basis of the instalments.
+ */
+export function recordCITSelfAssessment(taxpayerId: string, taxYear: number, assessedLiability: number): CITInstalmentRecord {
+    const record = requireRecord(taxpayerId, taxYear);
+    if (typeof assessedLiability !== "number" || !Number.isFinite(assessedLiability) || assessedLiability < 0) {
+        throw new CITProvisionalError("assessedLiability must be a non-negative number");
+    }
+    record.assessedLiability = assessedLiability;
+    touch(record);
+    return record;
+}
+
+export function recordCITInstalmentPayment(taxpayerId: string, taxYear: number, payment: CITInstalmentPayment): CITInstalmentRecord {
+    const record = requireRecord(taxpayerId, taxYear);
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(payment.paidOn || "") || Number.isNaN(Date.parse(payment.paidOn))) {
+        throw new CITProvisionalError("paidOn must be a YYYY-MM-DD date");
+    }
+    if (typeof payment.amount !== "number" || !Number.isFinite(payment.amount) || payment.amount <= 0) {
+        throw new CITProvisionalError("amount must be a positive number");
+    }
+    record.payments.push({ paidOn: payment.paidOn, amount: payment.amount, reference: payment.reference });
+    touch(record);
+    return record;
+}
+
+export function getCITInstalmentPlan(taxpayerId: string, taxYear: number, asOf?: string): CITInstalmentPlan {
+    const record = requireRecord(taxpayerId, taxYear);
+    return buildCITInstalmentPlan(
+        { ...record, estimatedLiability: record.estimate?.estimatedLiability },
+        asOf || new Date().toISOString().slice(0, 10)
+    );
+}
@@ -0,0 +1,262 @@
+/**
+ * CIT Provisional Tax and Instalment Planner
+ *
+ * Estimates a company's CIT for the year from the ledger part-way through it:
+ * the profit to date is annualised and run through calculateTaxForNigeria. The
+ * liability (the self-assessed figure once the return is filed) is split into
+ * monthly instalments from the return due date, and payments are applied to
+ * them oldest first. Instalments still to be paid are handed to the cashflow
+ * engine as upcoming obligations.
+ */
+
+import { JournalEntry, getAccount } from "../accounting/doubleEntry";
+import type { UpcomingObligation } from "../cashflow/types";
+import { TaxInputs, UserProfile } from "../types";
+import { calculateTaxForNigeria } from "./ng";
+import { citInstalmentDueDates, fiscalYearEndDate, MAX_CIT_INSTALMENTS } from "./taxCalendar";
+import { StatusError } from "../errors";
+
+export interface LedgerProfitToDate {
+    yearStart: string;
+    yearEnd: string;
+    asOf: string;
+    daysElapsed: number;
+    daysInYear: number;
+    revenue: number;
+    costOfSales: number;
+    operatingExpenses: number;
+    taxExpense: number;              // income tax charged in the books, not deductible
+    profit: number;
+}
+
+export interface CITProvisionalEstimate {
+    taxYear: number;                 // year in which the financial year ends
+    fiscalYearEnd: string;           // MM-DD
+    toDate: LedgerProfitToDate;
+    annualisationFactor: number;
+    annualised: { revenue: number; costOfSales: number; operatingExpenses: number; profit: number };
+    taxableIncome: number;
+    estimatedLiability: number;
+    effectiveRate: number;
+    notes: string[];
+    estimatedAt: string;
+}
+
+export interface CITInstalmentPayment {
+    paidOn: string;                  // YYYY-MM-DD
+    amount: number;
+    reference?: string;
+}
+
+export type CITInstalmentStatus = "paid" | "part_paid" | "due" | "overdue";
+
+export interface CITInstalmentLine {
+    id: string;                      // matches the tax calendar entry, e.g. CIT-2024-I2
+    number: number;
+    dueDate: string;
+    amount: number;
+    paid: number;
+    outstanding: number;
+    status: CITInstalmentStatus;
+}
+
+export interface CITInstalmentPlan {
+    taxYear: number;
+    instalments: number;
+    liability: number;
+    basis: "estimate" | "self_assessment";
+    schedule: CITInstalmentLine[];
+    totalPaid: number;
+    outstanding: number;
+    overpaid: number;                // payments beyond the liability
+}
+
+export interface CITProvisionalOptions {
+    taxYear: number;
+    fiscalYearEnd?: string;          // MM-DD, defaults to 12-31
+    asOf: string;                    // YYYY-MM-DD
+    inputs?: Partial<TaxInputs>;     // reliefs and allowances not in the ledger
+}
+
+export class CITProvisionalError extends StatusError {
+    name = "CITProvisionalError";
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const daysInclusive = (from: string, to: string) => Math.round((Date.parse(to) - Date.parse(from)) / DAY_MS) + 1;
+
+function requireDate(value: string | undefined, field: string): string {
+    if (!value || !/^\d{4}-\d{2}-\d{2}$/.test(value) || Number.isNaN(Date.parse(value))) {
+        throw new CITProvisionalError(`${field} must be a YYYY-MM-DD date`);
+    }
+    return value;
+}
+
+function requireInstalments(instalments: number): number {
+    if (!Number.isInteger(instalments) || instalments < 1 || instalments > MAX_CIT_INSTALMENTS) {
+        throw new CITProvisionalError(`instalments must be a whole number from 1 to ${MAX_CIT_INSTALMENTS}`);
+    }
+    return instalments;
+}
+
+/**
+ * Revenue and expenses posted from the start of the financial year to `asOf`.
+ */
+export function ledgerProfitToDate(
+    entries: JournalEntry[],
+    options: Pick<CITProvisionalOptions, "taxYear" | "fiscalYearEnd" | "asOf">
+): LedgerProfitToDate {
+    const yearEnd = fiscalYearEndDate({ fiscalYearEnd: options.fiscalYearEnd }, options.taxYear);
+    const previousYearEnd = fiscalYearEndDate({ fiscalYearEnd: options.fiscalYearEnd }, options.taxYear - 1);
+    const yearStart = new Date(Date.parse(previousYearEnd) + DAY_MS).toISOString().slice(0, 10);
+    const asOf = requireDate(options.asOf, "asOf");
+    if (asOf < yearStart) {
+        throw new CITProvisionalError(`${asOf} is before the financial year starting ${yearStart}`);
+    }
+    const to = asOf < yearEnd ? asOf : yearEnd;
+
+    const totals = { revenue: 0, costOfSales: 0, operatingExpenses: 0, taxExpense: 0 };
+    entries
+        .filter(entry => entry.status === "posted" && entry.date >= yearStart && entry.date <= to)
+        .forEach(entry => entry.lines.forEach(line => {
+            const account = getAccount(line.accountCode);
+            if (account?.type === "income") {
+                totals.revenue += line.credit - line.debit;
+            } else if (account?.type === "expense") {
+                const key = account.subType === "cos" ? "costOfSales" : account.subType === "tax" ? "taxExpense" : "operatingExpenses";
+                totals[key] += line.debit - line.credit;
+            }
+        }));
+
+    return {
+        yearStart,
+        yearEnd,
+        asOf: to,
+        daysElapsed: daysInclusive(yearStart, to),
+        daysInYear: daysInclusive(yearStart, yearEnd),
+        revenue: round2(totals.revenue),
+        costOfSales: round2(totals.costOfSales),
+        operatingExpenses: round2(totals.operatingExpenses),
+        taxExpense: round2(totals.taxExpense),
+        profit: round2(totals.revenue - totals.costOfSales - totals.operatingExpenses),
+    };
+}
+
+/**
+ * Annualises the profit to date and runs it through the CIT rules to estimate
+ * the year's liability.
+ */
+export function estimateProvisionalCIT(
+    profile: UserProfile,
+    entries: JournalEntry[],
+    options: CITProvisionalOptions
+): CITProvisionalEstimate {
+    if (profile.taxpayerType !== "company") {
+        throw new CITProvisionalError("Provisional CIT applies to companies only");
+    }
+    const fiscalYearEnd = options.fiscalYearEnd || profile.fiscalYearEnd || "12-31";
+    const toDate = ledgerProfitToDate(entries, { ...options, fiscalYearEnd });
+    const factor = toDate.daysInYear / toDate.daysElapsed;
+    const annualised = {
+        revenue: round2(toDate.revenue * factor),
+        costOfSales: round2(toDate.costOfSales * factor),
+        operatingExpenses: round2(toDate.operatingExpenses * factor),
+        profit: round2(toDate.profit * factor),
+    };
+
+    const result = calculateTaxForNigeria({ ...profile, taxYear: options.taxYear, fiscalYearEnd }, {
+        ...options.inputs,
+        grossRevenue: annualised.revenue,
+        turnover: annualised.revenue,
+        costOfSales: annualised.costOfSales,
+        operatingExpenses: annualised.operatingExpenses,
+        allowableExpenses: round2(annualised.costOfSales + annualised.operatingExpenses),
+    });
+
+    const notes = toDate.daysElapsed < toDate.daysInYear
+        ? [`Profit for ${toDate.daysElapsed} of ${toDate.daysInYear} days to ${toDate.asOf} annualised by ${round2(factor)}.`]
+        : [`Based on the full year's ledger to ${toDate.yearEnd}.`];
+    if (toDate.taxExpense > 0) {
+        notes.push(`Income tax of ₦${toDate.taxExpense.toLocaleString()} charged in the ledger is not deductible and was excluded.`);
+    }
+
+    return {
+        taxYear: options.taxYear,
+        fiscalYearEnd,
+        toDate,
+        annualisationFactor: round2(factor),
+        annualised,
+        taxableIncome: result.taxableIncome,
+        estimatedLiability: result.totalTaxDue,
+        effectiveRate: result.effectiveRate,
+        notes: [...notes, ...result.notes],
+        estimatedAt: new Date().toISOString(),
+    };
+}
+
+/**
+ * Splits the liability into equal monthly instalments from the return due
+ * date and applies the payments made to them oldest first.
+ */
+export function buildCITInstalmentPlan(
+    plan: {
+        taxYear: number;
+        fiscalYearEnd?: string;
+        instalments: number;
+        estimatedLiability?: number;
+        assessedLiability?: number;
+        payments: CITInstalmentPayment[];
+    },
+    asOf: string
+): CITInstalmentPlan {
+    const instalments = requireInstalments(plan.instalments);
+    const liability = plan.assessedLiability ?? plan.estimatedLiability;
+    if (liability === undefined || liability < 0) {
+        throw new CITProvisionalError(`No CIT liability estimated or assessed for ${plan.taxYear}`, 404);
+    }
+
+    const dueDates = citInstalmentDueDates({ fiscalYearEnd: plan.fiscalYearEnd }, plan.taxYear, instalments);
+    const share = Math.floor((liability / instalments) * 100) / 100;
+    const totalPaid = round2(plan.payments.reduce((sum, payment) => sum + payment.amount, 0));
+    let available = totalPaid;
+
+    const schedule = dueDates.map((dueDate, index): CITInstalmentLine => {
+        // The last instalment takes the rounding difference
+        const amount = index === instalments - 1 ? round2(liability - share * (instalments - 1)) : share;
+        const paid = round2(Math.min(amount, available));
+        available = round2(available - paid);
+        const outstanding = round2(amount - paid);
+        const status: CITInstalmentStatus = outstanding === 0
+            ? "paid"
+            : asOf > dueDate ? "overdue" : paid > 0 ? "part_paid" : "due";
+        return { id: `CIT-${plan.taxYear}-I${index + 1}`, number: index + 1, dueDate, amount, paid, outstanding, status };
+    });
+
+    return {
+        taxYear: plan.taxYear,
+        instalments,
+        liability,
+        basis: plan.assessedLiability !== undefined ? "self_assessment" : "estimate",
+        schedule,
+        totalPaid,
+        outstanding: round2(schedule.reduce((sum, line) => sum + line.outstanding, 0)),
+        overpaid: available,
+    };
+}
+
+/**
+ * Unpaid instalments in the shape the cashflow engine reserves cash for.
+ */
+export function citInstalmentObligations(plan: CITInstalmentPlan): UpcomingObligation[] {
+    return plan.schedule
+        .filter(line => line.outstanding > 0)
+        .map(line => ({
+            id: `cit-instalment-${plan.taxYear}-${line.number}`,
+            description: `CIT instalment ${line.number} of ${plan.instalments} for ${plan.taxYear}`,
+            amount: line.outstanding,
+            dueDate: line.dueDate,
+            isRecurring: false,
+        }));
+}
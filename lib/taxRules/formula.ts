@@ -0,0 +1,408 @@
+/**
+ * Rulebook Formula Language
+ *
+ * A small, side-effect free expression language for rulebook formulas:
+ *   numbers, identifiers (engine variables or other rule keys),
+ *   + - * /, unary minus, parentheses,
+ *   comparisons (< <= > >= == !=) which yield 1 or 0,
+ *   and the functions min(...), max(...) and if(condition, then, else).
+ *
+ * Formulas are parsed once and evaluated against a context; nothing is ever
+ * passed to eval/new Function.
+ */
+
+import type { TaxRuleBook } from "./rulebook";
+
+export type FormulaNode =
+    | { kind: "number"; value: number; position: number }
+    | { kind: "identifier"; name: string; position: number }
+    | { kind: "unary"; operator: "-"; operand: FormulaNode; position: number }
+    | { kind: "binary"; operator: BinaryOperator; left: FormulaNode; right: FormulaNode; position: number }
+    | { kind: "call"; callee: FormulaFunction; args: FormulaNode[]; position: number };
+
+export type BinaryOperator = "+" | "-" | "*" | "/" | "<" | "<=" | ">" | ">=" | "==" | "!=";
+export type FormulaFunction = "min" | "max" | "if";
+
+const FUNCTIONS: FormulaFunction[] = ["min", "max", "if"];
+
+export class FormulaError extends Error {
+    constructor(
+        public readonly reason: string,
+        public readonly formula: string,
+        public readonly position: number,
+        public readonly ruleKey?: string
+    ) {
+        const where = ruleKey ? ` in rule ${ruleKey}` : "";
+        super(`${reason} at position ${position}${where}\n  ${formula}\n  ${" ".repeat(position)}^`);
+        this.name = "FormulaError";
+    }
+
+    withRuleKey(ruleKey: string): FormulaError {
+        return new FormulaError(this.reason, this.formula, this.position, ruleKey);
+    }
+}
+
+// ---------------------------------------------------------------------------
+// Tokenizer
+// ---------------------------------------------------------------------------
+
+type TokenType = "number" | "identifier" | "operator" | "lparen" | "rparen" | "comma" | "eof";
+
+interface Token {
+    type: TokenType;
+    text: string;
+    position: number;
+}
+
+const OPERATORS = ["<=", ">=", "==", "!=", "+", "-", "*", "/", "<", ">"];
+
+function tokenize(formula: string): Token[] {
+    const tokens: Token[] = [];
+    let i = 0;
+
+    while (i < formula.length) {
+        const ch = formula[i];
+
+        if (/\s/.test(ch)) {
+            i++;
+            continue;
+        }
+
+        if (/[0-9.]/.test(ch)) {
+            const match = /^(\d+(\.\d*)?|\.\d+)([eE][+-]?\d+)?/.exec(formula.slice(i));
+            if (!match) {
+                throw new FormulaError(`Invalid number`, formula, i);
+            }
+            tokens.push({ type: "number", text: match[0], position: i });
+            i += match[0].length;
+            continue;
+        }
+
+        if (/[A-Za-z_]/.test(ch)) {
+            const match = /^[A-Za-z_][A-Za-z0-9_]*/.exec(formula.slice(i))!;
+            tokens.push({ type: "identifier", text: match[0], position: i });
+            i += match[0].length;
+            continue;
+        }
+
+        if (ch === "(") {
+            tokens.push({ type: "lparen", text: ch, position: i++ });
+            continue;
+        }
+        if (ch === ")") {
+            tokens.push({ type: "rparen", text: ch, position: i++ });
+            continue;
+        }
+        if (ch === ",") {
+            tokens.push({ type: "comma", text: ch, position: i++ });
+            continue;
+        }
+
+        const operator = OPERATORS.find(op => formula.startsWith(op, i));
+        if (operator) {
+            tokens.push({ type: "operator", text: operator, position: i });
+            i += operator.length;
+            continue;
+        }
+
+        throw new FormulaError(`Unexpected character "${ch}"`, formula, i);
+    }
+
+    tokens.push({ type: "eof", text: "", position: formula.length });
+    return tokens;
+}
+
+// ---------------------------------------------------------------------------
+// Parser (recursive descent)
+//   comparison := additive (("<" | "<=" | ">" | ">=" | "==" | "!=") additive)?
+//   additive   := term (("+" | "-") term)*
+//   term       := unary (("*" | "/") unary)*
+//   unary      := "-" unary | primary
+//   primary    := number | identifier | identifier "(" args ")" | "(" comparison ")"
+// ---------------------------------------------------------------------------
+
+class Parser {
+    private index = 0;
+
+    constructor(private readonly formula: string, private readonly tokens: Token[]) {}
+
+    parse(): FormulaNode {
+        if (this.peek().type === "eof") {
+            throw new FormulaError("Formula is empty", this.formula, 0);
+        }
+        const node = this.comparison();
+        const next = this.peek();
+        if (next.type !== "eof") {
+            throw new FormulaError(`Unexpected "${next.text}"`, this.formula, next.position);
+        }
+        return node;
+    }
+
+    private peek(): Token {
+        return this.tokens[this.index];
+    }
+
+    private next(): Token {
+        return this.tokens[this.index++];
+    }
+
+    private isOperator(...operators: string[]): boolean {
+        const token = this.peek();
+        return token.type === "operator" && operators.includes(token.text);
+    }
+
+    private comparison(): FormulaNode {
+        const left = this.additive();
+        if (this.isOperator("<", "<=", ">", ">=", "==", "!=")) {
+            const operator = this.next();
+            const right = this.additive();
+            return { kind: "binary", operator: operator.text as BinaryOperator, left, right, position: operator.position };
+        }
+        return left;
+    }
+
+    private additive(): FormulaNode {
+        let node = this.term();
+        while (this.isOperator("+", "-")) {
+            const operator = this.next();
+            node = { kind: "binary", operator: operator.text as BinaryOperator, left: node, right: this.term(), position: operator.position };
+        }
+        return node;
+    }
+
+    private term(): FormulaNode {
+        let node = this.unary();
+        while (this.isOperator("*", "/")) {
+            const operator = this.next();
+            node = { kind: "binary", operator: operator.text as BinaryOperator, left: node, right: this.unary(), position: operator.position };
+        }
+        return node;
+    }
+
+    private unary(): FormulaNode {
+        if (this.isOperator("-")) {
+            const operator = this.next();
+            return { kind: "unary", operator: "-", operand: this.unary(), position: operator.position };
+        }
+        return this.primary();
+    }
+
+    private primary(): FormulaNode {
+        const token = this.next();
+
+        switch (token.type) {
+            case "number":
+                return { kind: "number", value: parseFloat(token.text), position: token.position };
+
+            case "identifier":
+                if (this.peek().type === "lparen") {
+                    return this.call(token);
+                }
+                return { kind: "identifier", name: token.text, position: token.position };
+
+            case "lparen": {
+                const node = this.comparison();
+                this.expect("rparen", `Expected ")" to close "(" at position ${token.position}`);
+                return node;
+            }
+
+            case "eof":
+                throw new FormulaError("Unexpected end of formula", this.formula, token.position);
+
+            default:
+                throw new FormulaError(`Unexpected "${token.text}"`, this.formula, token.position);
+        }
+    }
+
+    private call(name: Token): FormulaNode {
+        if (!FUNCTIONS.includes(name.text as FormulaFunction)) {
+            throw new FormulaError(`Unknown function "${name.text}"`, this.formula, name.position);
+        }
+        this.next(); // "("
+
+        const args: FormulaNode[] = [];
+        if (this.peek().type !== "rparen") {
+            args.push(this.comparison());
+            while (this.peek().type === "comma") {
+                this.next();
+                args.push(this.comparison());
+            }
+        }
+        this.expect("rparen", `Expected ")" to close ${name.text}(`);
+
+        const callee = name.text as FormulaFunction;
+        if (callee === "if" && args.length !== 3) {
+            throw new FormulaError(`if() takes 3 arguments, got ${args.length}`, this.formula, name.position);
+        }
+        if (callee !== "if" && args.length === 0) {
+            throw new FormulaError(`${callee}() needs at least one argument`, this.formula, name.position);
+        }
+
+        return { kind: "call", callee, args, position: name.position };
+    }
+
+    private expect(type: TokenType, message: string) {
+        const token = this.peek();
+        if (token.type !== type) {
+            throw new FormulaError(message, this.formula, token.position);
+        }
+        this.next();
+    }
+}
+
+const parseCache = new Map<string, FormulaNode>();
+
+/**
+ * Parses a formula into an AST. Results are cached per formula string.
+ */
+export function parseFormula(formula: string): FormulaNode {
+    const cached = parseCache.get(formula);
+    if (cached) return cached;
+
+    const node = new Parser(formula, tokenize(formula)).parse();
+    parseCache.set(formula, node);
+    return node;
+}
+
+/**
+ * Lists identifiers referenced by a formula with their positions.
+ */
+export function collectIdentifiers(node: FormulaNode): { name: string; position: number }[] {
+    switch (node.kind) {
+        case "number":
+            return [];
+        case "identifier":
+            return [{ name: node.name, position: node.position }];
+        case "unary":
+            return collectIdentifiers(node.operand);
+        case "binary":
+            return [...collectIdentifiers(node.left), ...collectIdentifiers(node.right)];
+        case "call":
+            return node.args.flatMap(collectIdentifiers);
+    }
+}
+
+// ---------------------------------------------------------------------------
+// Evaluator
+// ---------------------------------------------------------------------------
+
+/**
+ * Resolves an identifier to a number, or undefined when it is not known.
+ */
+export type IdentifierResolver = (name: string) => number | undefined;
+
+function applyBinary(operator: BinaryOperator, left: number, right: number, formula: string, position: number): number {
+    switch (operator) {
+        case "+": return left + right;
+        case "-": return left - right;
+        case "*": return left * right;
+        case "/":
+            if (right === 0) {
+                throw new FormulaError("Division by zero", formula, position);
+            }
+            return left / right;
+        case "<": return left < right ? 1 : 0;
+        case "<=": return left <= right ? 1 : 0;
+        case ">": return left > right ? 1 : 0;
+        case ">=": return left >= right ? 1 : 0;
+        case "==": return left === right ? 1 : 0;
+        case "!=": return left !== right ? 1 : 0;
+    }
+}
+
+export function evaluateNode(node: FormulaNode, formula: string, resolve: IdentifierResolver): number {
+    const evaluate = (n: FormulaNode) => evaluateNode(n, formula, resolve);
+
+    switch (node.kind) {
+        case "number":
+            return node.value;
+
+        case "identifier": {
+            const value = resolve(node.name);
+            if (value === undefined || Number.isNaN(value)) {
+                throw new FormulaError(`Unknown identifier "${node.name}"`, formula, node.position);
+            }
+            return value;
+        }
+
+        case "unary":
+            return -evaluate(node.operand);
+
+        case "binary":
+            return applyBinary(node.operator, evaluate(node.left), evaluate(node.right), formula, node.position);
+
+        case "call": {
+            if (node.callee === "if") {
+                // Only the selected branch is evaluated
+                return evaluate(node.args[0]) !== 0 ? evaluate(node.args[1]) : evaluate(node.args[2]);
+            }
+            const values = node.args.map(evaluate);
+            return node.callee === "min" ? Math.min(...values) : Math.max(...values);
+        }
+    }
+}
+
+// ---------------------------------------------------------------------------
+// Rulebook validation
+// ---------------------------------------------------------------------------
+
+/**
+ * Variables the calculation engines place in the formula context.
+ * Rulebooks may declare additional ones in their top-level `variables` list.
+ */
+export const ENGINE_VARIABLES = [
+    "gross_revenue",
+    "allowable_expenses",
+    "net_business_income",
+    "taxable_income",
+    "turnover",
+    "taxable_profit",
+    "transaction_value",
+    "rent_paid",
+    "franked_investment_income",
+];
+
+/**
+ * Parses every rule formula in a rulebook and checks that each identifier is
+ * an engine variable, a declared variable or another rule key, and that rule
+ * references do not form a cycle. Throws FormulaError on the first problem.
+ */
+export function validateRuleBookFormulas(rulebook: Pick<TaxRuleBook, "rules" | "variables">): void {
+    const ruleKeys = new Set(Object.keys(rulebook.rules));
+    const variables = new Set([...ENGINE_VARIABLES, ...(rulebook.variables || [])]);
+    const references = new Map<string, { name: string; position: number }[]>();
+
+    for (const [key, rule] of Object.entries(rulebook.rules)) {
+        let node: FormulaNode;
+        try {
+            node = parseFormula(rule.formula);
+        } catch (error) {
+            throw error instanceof FormulaError ? error.withRuleKey(key) : error;
+        }
+
+        const identifiers = collectIdentifiers(node);
+        for (const identifier of identifiers) {
+            if (!ruleKeys.has(identifier.name) && !variables.has(identifier.name)) {
+                throw new FormulaError(`Unknown identifier "${identifier.name}"`, rule.formula, identifier.position, key);
+            }
+        }
+        references.set(key, identifiers.filter(identifier => ruleKeys.has(identifier.name)));
+    }
+
+    // Depth-first search for reference cycles
+    const visiting = new Set<string>();
+    const done = new Set<string>();
+    const visit = (key: string) => {
+        if (done.has(key)) return;
+        visiting.add(key);
+        for (const reference of references.get(key) || []) {
+            if (visiting.has(reference.name)) {
+                throw new FormulaError(`Circular reference to "${reference.name}"`, rulebook.rules[key].formula, reference.position, key);
+            }
+            visit(reference.name);
+        }
+        visiting.delete(key);
+        done.add(key);
+    };
+    ruleKeys.forEach(visit);
+}
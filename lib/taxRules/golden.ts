@@ -0,0 +1,162 @@
+import { TaxInputs, TaxResult, UserProfile } from "../types";
+import { calculateTaxForNigeria } from "./ng";
+
+/**
+ * Golden-file regression helpers for tax computations.
+ * A fixture freezes a complete computation (headline figures plus the
+ * reconciliation report) for one client scenario; comparing a fresh run
+ * against it shows exactly which lines moved and by how much.
+ */
+
+export interface GoldenReconciliationLine {
+    step_id: string;
+    label: string;
+    value: number;
+}
+
+export interface GoldenSnapshot {
+    rulebook: string;              // "<id>@<version>"
+    taxableIncome: number;
+    taxBeforeCredits: number;
+    taxCreditsApplied: number;
+    totalTaxDue: number;
+    effectiveRate: number;
+    netVATPayable: number | null;
+    reconciliationReport: GoldenReconciliationLine[];
+}
+
+export interface GoldenScenario {
+    name: string;
+    description: string;
+    profile: UserProfile;
+    inputs: TaxInputs;
+    expected: GoldenSnapshot;
+}
+
+export interface GoldenDifference {
+    path: string;
+    expected: unknown;
+    actual: unknown;
+    delta?: number;                // actual - expected, for numeric fields
+}
+
+export interface GoldenScenarioResult {
+    name: string;
+    passed: boolean;
+    differences: GoldenDifference[];
+    actual: GoldenSnapshot;
+}
+
+const TOLERANCE = 0.01;
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+export function snapshotTaxResult(result: TaxResult): GoldenSnapshot {
+    return {
+        rulebook: result.rulebook ? `${result.rulebook.id}@${result.rulebook.version}` : "unknown",
+        taxableIncome: round2(result.taxableIncome),
+        taxBeforeCredits: round2(result.taxBeforeCredits),
+        taxCreditsApplied: round2(result.taxCreditsApplied),
+        totalTaxDue: round2(result.totalTaxDue),
+        effectiveRate: Math.round(result.effectiveRate * 1e6) / 1e6,
+        netVATPayable: result.vat ? round2(result.vat.netVATPayable) : null,
+        reconciliationReport: (result.reconciliationReport || []).map(row => ({
+            step_id: row.step_id,
+            label: row.label,
+            value: round2(row.value),
+        })),
+    };
+}
+
+export function runGoldenScenario(scenario: Pick<GoldenScenario, "profile" | "inputs">): GoldenSnapshot {
+    return snapshotTaxResult(calculateTaxForNigeria(scenario.profile, scenario.inputs));
+}
+
+function compareValue(path: string, expected: unknown, actual: unknown, out: GoldenDifference[]) {
+    if (typeof expected === "number" && typeof actual === "number") {
+        if (Math.abs(actual - expected) > TOLERANCE) {
+            out.push({ path, expected, actual, delta: round2(actual - expected) });
+        }
+        return;
+    }
+    if (expected !== actual) {
+        out.push({ path, expected, actual });
+    }
+}
+
+/**
+ * Compares two snapshots. Reconciliation lines are matched by step id and
+ * occurrence, so an added or removed step is reported once rather than
+ * shifting every line after it.
+ */
+export function diffGoldenSnapshots(expected: GoldenSnapshot, actual: GoldenSnapshot): GoldenDifference[] {
+    const differences: GoldenDifference[] = [];
+
+    const headline: (keyof Omit<GoldenSnapshot, "reconciliationReport">)[] = [
+        "rulebook", "taxableIncome", "taxBeforeCredits", "taxCreditsApplied", "totalTaxDue", "effectiveRate", "netVATPayable",
+    ];
+    headline.forEach(key => compareValue(key, expected[key], actual[key], differences));
+
+    const keyLines = (lines: GoldenReconciliationLine[]) => {
+        const counts: Record<string, number> = {};
+        return new Map(lines.map(line => {
+            counts[line.step_id] = (counts[line.step_id] || 0) + 1;
+            const key = counts[line.step_id] > 1 ? `${line.step_id}#${counts[line.step_id]}` : line.step_id;
+            return [key, line] as const;
+        }));
+    };
+    const expectedLines = keyLines(expected.reconciliationReport);
+    const actualLines = keyLines(actual.reconciliationReport);
+
+    for (const [key, line] of expectedLines) {
+        const current = actualLines.get(key);
+        if (!current) {
+            differences.push({ path: `reconciliation.${key}`, expected: line.value, actual: "(removed)" });
+            continue;
+        }
+        compareValue(`reconciliation.${key}`, line.value, current.value, differences);
+        compareValue(`reconciliation.${key}.label`, line.label, current.label, differences);
+    }
+    for (const [key, line] of actualLines) {
+        if (!expectedLines.has(key)) {
+            differences.push({ path: `reconciliation.${key}`, expected: "(absent)", actual: line.value });
+        }
+    }
+
+    return differences;
+}
+
+export function checkGoldenScenario(scenario: GoldenScenario): GoldenScenarioResult {
+    const actual = runGoldenScenario(scenario);
+    const differences = diffGoldenSnapshots(scenario.expected, actual);
+    return { name: scenario.name, passed: differences.length === 0, differences, actual };
+}
+
+const formatValue = (value: unknown) =>
+    typeof value === "number" ? value.toLocaleString("en-NG", { maximumFractionDigits: 6 }) : String(value);
+
+/**
+ * Human-readable report, e.g.
+ *   ✗ medium-company-2024 (2 changes)
+ *       totalTaxDue: 8,000,000 → 9,000,000 (+1,000,000)
+ */
+export function formatGoldenReport(results: GoldenScenarioResult[]): string {
+    const lines: string[] = [];
+
+    for (const result of results) {
+        if (result.passed) {
+            lines.push(`✓ ${result.name}`);
+            continue;
+        }
+        lines.push(`✗ ${result.name} (${result.differences.length} change${result.differences.length === 1 ? "" : "s"})`);
+        for (const diff of result.differences) {
+            const delta = diff.delta !== undefined ? ` (${diff.delta > 0 ? "+" : ""}${formatValue(diff.delta)})` : "";
+            lines.push(`    ${diff.path}: ${formatValue(diff.expected)} → ${formatValue(diff.actual)}${delta}`);
+        }
+    }
+
+    const failed = results.filter(result => !result.passed).length;
+    lines.push("");
+    lines.push(`${results.length - failed}/${results.length} scenarios unchanged${failed ? `, ${failed} moved` : ""}`);
+    return lines.join("\n");
+}
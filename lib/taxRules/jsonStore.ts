@@ -0,0 +1,87 @@
+import fs from "fs";
+import path from "path";
+import { StatusError } from "../errors";
+
+/**
+ * JSON Store
+ *
+ * File-backed storage shared by the tax registries (loss ledger, payroll, WHT
+ * credits and deductions, tax calendar, CIT instalments, override history).
+ * The file is read once and kept in memory, and every write rewrites it whole.
+ * A missing or unreadable file starts the store empty. A write that fails
+ * raises a JsonStoreError (500) and drops the unsaved change from memory.
+ */
+
+export class JsonStoreError extends StatusError {
+    name = "JsonStoreError";
+}
+
+export interface JsonStore<T> {
+    load(): T;
+    persist(): void;
+    touch(record: { updatedAt: string }): void; // stamps the record and saves
+}
+
+export function createJsonStore<T extends object>(options: {
+    file: string;
+    description: string;  // e.g. "payroll store", used in warnings and errors
+    empty: () => T;       // its array fields must also be arrays in the file
+}): JsonStore<T> {
+    let data: T | null = null;
+
+    const isValid = (parsed: unknown): parsed is T => {
+        const template = options.empty() as Record<string, unknown>;
+        return typeof parsed === "object" && parsed !== null &&
+            Object.keys(template).every(key => !Array.isArray(template[key]) || Array.isArray((parsed as Record<string, unknown>)[key]));
+    };
+
+    const load = (): T => {
+        if (data) {
+            return data;
+        }
+
+        data = options.empty();
+        try {
+            if (fs.existsSync(options.file)) {
+                const parsed: unknown = JSON.parse(fs.readFileSync(options.file, "utf-8"));
+                if (isValid(parsed)) {
+                    data = parsed;
+                }
+            }
+        } catch (error) {
+            console.warn(`Could not load ${options.description}`, error);
+        }
+        return data;
+    };
+
+    const persist = () => {
+        try {
+            fs.mkdirSync(path.dirname(options.file), { recursive: true });
+            fs.writeFileSync(options.file, JSON.stringify(load(), null, 2));
+        } catch (error) {
+            // Read the file again next time rather than serve what was not saved
+            data = null;
+            console.error(`Could not persist ${options.description}`, error);
+            throw new JsonStoreError(`Could not save the ${options.description}`, 500);
+        }
+    };
+
+    return {
+        load,
+        persist,
+        touch(record) {
+            record.updatedAt = new Date().toISOString();
+            persist();
+        },
+    };
+}
+
+/**
+ * Trimmed text, or the module's error when it is missing or blank
+ */
+export function requireText(value: unknown, field: string, ErrorType: new (message: string) => Error): string {
+    if (typeof value !== "string" || !value.trim()) {
+        throw new ErrorType(`${field} is required`);
+    }
+    return value.trim();
+}
@@ -12,27 +12,16 @@ import {
     MINIMUM_TAX_RATE,
 } from "./config";
 import { TaxRuleMetadata } from "../types";
+import { TaxRuleOverrides, setActiveRuleOverrides } from "./ruleOverrides";
 
-export interface TaxRuleOverrides {
-    pitBands?: PITBand[];
-    craFixedAmount?: number;
-    craPercentageOfGross?: number;
-    craAdditionalPercentage?: number;
-    citConfig?: Partial<CITConfig>;
-    vatRate?: number;
-    minimumTaxRate?: number;
-    version?: string;
-    source?: string;
-    lastUpdated?: string;
-    remoteUrl?: string;
-}
+export type { TaxRuleOverrides } from "./ruleOverrides";
 
 interface LiveRateState {
     overrides: TaxRuleOverrides | null;
     metadata: TaxRuleMetadata;
 }
 
-const OVERRIDE_FILE = path.join(process.cwd(), "data", "taxRulesOverrides.json");
+const OVERRIDE_FILE = process.env.TAX_RULES_OVERRIDE_FILE || path.join(process.cwd(), "data", "taxRulesOverrides.json");
 
 const state: LiveRateState = {
     overrides: null,
@@ -41,6 +30,7 @@ const state: LiveRateState = {
         source: "config.ts",
         lastUpdated: null,
         remoteUrl: process.env.TAX_RULES_REMOTE_URL || undefined,
+        overrideVersion: null,
     },
 };
 
@@ -78,6 +68,7 @@ function persistOverrides() {
 interface ApplyOptions {
     persist?: boolean;
     source?: string;
+    overrideVersion?: number;   // approved history version being applied
 }
 
 export function applyTaxRuleOverrides(overrides: TaxRuleOverrides, options: ApplyOptions = {}): void {
@@ -93,12 +84,18 @@ export function applyTaxRuleOverrides(overrides: TaxRuleOverrides, options: Appl
             }));
     }
 
+    if (options.overrideVersion !== undefined) {
+        cleaned.overrideVersion = options.overrideVersion;
+    }
+
     state.overrides = cleaned;
+    setActiveRuleOverrides(cleaned);
     state.metadata = {
         version: cleaned.version || `override-${new Date().toISOString()}`,
         source: options.source || cleaned.source || "override",
         lastUpdated: cleaned.lastUpdated || new Date().toISOString(),
         remoteUrl: cleaned.remoteUrl || process.env.TAX_RULES_REMOTE_URL,
+        overrideVersion: cleaned.overrideVersion ?? null,
     };
 
     if (options.persist !== false) {
@@ -106,6 +103,13 @@ export function applyTaxRuleOverrides(overrides: TaxRuleOverrides, options: Appl
     }
 }
 
+/**
+ * Loads the persisted override set so computations on this server pick it up
+ */
+export function loadTaxRuleOverrides(): void {
+    ensureOverridesLoaded();
+}
+
 export function getPitBands(): PITBand[] {
     ensureOverridesLoaded();
     return state.overrides?.pitBands && state.overrides.pitBands.length > 0
@@ -161,10 +165,15 @@ export function getOverrideSnapshot(): TaxRuleOverrides | null {
     return state.overrides ? { ...state.overrides } : null;
 }
 
-export async function refreshOverridesFromRemote(): Promise<void> {
+/**
+ * Fetches overrides from TAX_RULES_REMOTE_URL without applying them; they go
+ * through review via proposeRemoteOverrides.
+ * Returns null when no remote is configured or the fetch fails.
+ */
+export async function fetchRemoteOverrides(): Promise<TaxRuleOverrides | null> {
     const remoteUrl = process.env.TAX_RULES_REMOTE_URL;
     if (!remoteUrl) {
-        return;
+        return null;
     }
 
     try {
@@ -172,9 +181,9 @@ export async function refreshOverridesFromRemote(): Promise<void> {
         if (!response.ok) {
             throw new Error(`Unable to fetch remote tax rules: ${response.status}`);
         }
-        const data = await response.json() as TaxRuleOverrides;
-        applyTaxRuleOverrides(data, { source: remoteUrl });
+        return await response.json() as TaxRuleOverrides;
     } catch (error) {
         console.warn("Remote tax rule refresh failed", error);
+        return null;
     }
 }
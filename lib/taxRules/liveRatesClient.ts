@@ -2,12 +2,11 @@
 
 import { VAT_RATE } from "./config";
 import type { TaxRuleMetadata } from "../types";
+import { TaxRuleOverrides, setActiveRuleOverrides } from "./ruleOverrides";
 
 type TaxRulesApiResponse = {
   metadata?: TaxRuleMetadata;
-  overrides?: {
-    vatRate?: number;
-  } | null;
+  overrides?: TaxRuleOverrides | null;
   baseConfig?: {
     vatRate?: number;
   } | null;
@@ -40,6 +39,8 @@ async function hydrate(force = false): Promise<void> {
       if (payload.metadata) {
         cachedMetadata = payload.metadata;
       }
+      // Client-side computations use the same overrides the server does
+      setActiveRuleOverrides(payload.overrides ?? null);
 
       const overrideRate = payload.overrides?.vatRate;
       if (typeof overrideRate === "number") {
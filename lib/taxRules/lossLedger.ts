@@ -0,0 +1,143 @@
+import path from "path";
+import { LossLedgerEntry, LossReliefSummary, TaxpayerType } from "../types";
+import { createJsonStore, requireText } from "./jsonStore";
+import { StatusError } from "../errors";
+
+/**
+ * Loss Ledger Store
+ *
+ * Keeps each taxpayer's adjusted losses and the years in which they were
+ * relieved, so losses carry forward between computations instead of being
+ * re-keyed every year. Writing a year's result replaces anything previously
+ * recorded for that year, so a computation can be re-run safely.
+ */
+
+export interface TaxpayerLossLedger {
+    taxpayerId: string;          // e.g. TIN
+    taxpayerType: TaxpayerType;
+    entries: LossLedgerEntry[];
+    updatedAt: string;
+}
+
+interface LossLedgerFile {
+    taxpayers: TaxpayerLossLedger[];
+}
+
+export class LossLedgerError extends StatusError {
+    name = "LossLedgerError";
+}
+
+const LEDGER_FILE = process.env.TAX_LOSS_LEDGER_FILE || path.join(process.cwd(), "data", "taxLossLedger.json");
+
+const store = createJsonStore<LossLedgerFile>({ file: LEDGER_FILE, description: "tax loss ledger", empty: () => ({ taxpayers: [] }) });
+
+function requireTaxYear(taxYear: unknown): number {
+    if (typeof taxYear !== "number" || !Number.isInteger(taxYear) || taxYear < 1900) {
+        throw new LossLedgerError("taxYear must be a four-digit year");
+    }
+    return taxYear;
+}
+
+/**
+ * Finds or creates the taxpayer's ledger. A ledger keeps the entity type it was
+ * opened with, since the carry-forward limits differ between entity types.
+ */
+function ledgerFor(taxpayerId: string, taxpayerType: TaxpayerType): TaxpayerLossLedger {
+    const existing = store.load().taxpayers.find(ledger => ledger.taxpayerId === taxpayerId);
+    if (existing) {
+        if (existing.taxpayerType !== taxpayerType) {
+            throw new LossLedgerError(`Loss ledger for ${taxpayerId} belongs to a ${existing.taxpayerType}, not a ${taxpayerType}`, 409);
+        }
+        return existing;
+    }
+
+    const ledger: TaxpayerLossLedger = { taxpayerId, taxpayerType, entries: [], updatedAt: new Date().toISOString() };
+    store.load().taxpayers.push(ledger);
+    return ledger;
+}
+
+function touch(ledger: TaxpayerLossLedger) {
+    ledger.entries.sort((a, b) => a.taxYear - b.taxYear);
+    store.touch(ledger);
+}
+
+export function getLossLedger(taxpayerId: string): TaxpayerLossLedger | undefined {
+    return store.load().taxpayers.find(ledger => ledger.taxpayerId === taxpayerId.trim());
+}
+
+/**
+ * Records (or corrects) the adjusted loss for a year, e.g. when importing
+ * losses agreed with the tax authority in earlier years.
+ */
+export function recordAdjustedLoss(
+    taxpayerId: string,
+    details: { taxpayerType: TaxpayerType; taxYear: number; adjustedLoss: number }
+): TaxpayerLossLedger {
+    const taxYear = requireTaxYear(details.taxYear);
+    if (typeof details.adjustedLoss !== "number" || !Number.isFinite(details.adjustedLoss) || details.adjustedLoss < 0) {
+        throw new LossLedgerError("adjustedLoss must be a non-negative number");
+    }
+    const ledger = ledgerFor(requireText(taxpayerId, "taxpayerId", LossLedgerError), details.taxpayerType);
+
+    const entry = ledger.entries.find(candidate => candidate.taxYear === taxYear);
+    const utilised = (entry?.utilisations || []).reduce((sum, utilisation) => sum + utilisation.amount, 0);
+    if (details.adjustedLoss < utilised) {
+        throw new LossLedgerError(`The ${taxYear} loss has already been relieved by ${utilised.toLocaleString()}`, 409);
+    }
+
+    if (entry) {
+        entry.adjustedLoss = details.adjustedLoss;
+    } else {
+        ledger.entries.push({ taxYear, adjustedLoss: details.adjustedLoss, utilisations: [] });
+    }
+    touch(ledger);
+    return ledger;
+}
+
+/**
+ * Writes a computed year back to the ledger: relief used against each earlier
+ * loss and, if the year made a loss, the new loss itself.
+ */
+export function recordLossRelief(
+    taxpayerId: string,
+    taxpayerType: TaxpayerType,
+    summary: LossReliefSummary
+): TaxpayerLossLedger {
+    const taxYear = requireTaxYear(summary.taxYear);
+    const ledger = ledgerFor(requireText(taxpayerId, "taxpayerId", LossLedgerError), taxpayerType);
+
+    if (summary.source !== "ledger" && summary.utilised > 0) {
+        throw new LossLedgerError("Relief computed from a single prior-year figure cannot be allocated to ledger years; record each year's loss first", 409);
+    }
+
+    const relieved = summary.schedule.filter(line => line.lossYear < taxYear && line.utilised > 0);
+    const missing = relieved.find(line => !ledger.entries.some(entry => entry.taxYear === line.lossYear));
+    if (missing) {
+        throw new LossLedgerError(`No ${missing.lossYear} loss in the ledger for ${ledger.taxpayerId}`, 409);
+    }
+    const current = ledger.entries.find(entry => entry.taxYear === taxYear);
+    if (current && summary.currentYearLoss === 0 && current.utilisations.length > 0) {
+        throw new LossLedgerError(`The ${taxYear} loss has already been relieved in later years`, 409);
+    }
+
+    ledger.entries.forEach(entry => {
+        entry.utilisations = entry.utilisations.filter(utilisation => utilisation.taxYear !== taxYear);
+        const line = relieved.find(candidate => candidate.lossYear === entry.taxYear);
+        if (line) {
+            entry.utilisations.push({ taxYear, amount: line.utilised });
+        }
+    });
+
+    if (summary.currentYearLoss > 0) {
+        if (current) {
+            current.adjustedLoss = summary.currentYearLoss;
+        } else {
+            ledger.entries.push({ taxYear, adjustedLoss: summary.currentYearLoss, utilisations: [] });
+        }
+    } else if (current) {
+        ledger.entries = ledger.entries.filter(entry => entry !== current);
+    }
+
+    touch(ledger);
+    return ledger;
+}
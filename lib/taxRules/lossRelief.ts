@@ -0,0 +1,119 @@
+import {
+    LossLedgerEntry,
+    LossReliefSummary,
+    LossScheduleLine,
+    TaxInputs,
+    TaxpayerType,
+} from "../types";
+
+/**
+ * Loss Relief
+ *
+ * Relieves losses brought forward against the year's adjusted profit, oldest
+ * first. Relief is limited to the profit of the year, so it can never create
+ * or increase a loss, and losses older than the carry-forward limit for the
+ * entity type expire unused. A loss in the current year is added to the
+ * amount carried forward.
+ */
+
+export interface LossReliefLimit {
+    carryForwardYears?: number;    // undefined = no time limit
+    citation: string;
+}
+
+export const LOSS_RELIEF_LIMITS: Record<TaxpayerType, LossReliefLimit> = {
+    freelancer: { carryForwardYears: 4, citation: "PITA Sec 35" },
+    company: { citation: "CITA Sec 31" },
+};
+
+export interface LossReliefOptions {
+    taxYear: number;
+    taxpayerType: TaxpayerType;
+    adjustedProfit: number;        // negative for a loss
+}
+
+/**
+ * Amount of an entry still unrelieved at the start of the tax year. Utilisations
+ * recorded for the tax year itself or later are ignored, so a year can be
+ * recomputed after it has been written to the ledger.
+ */
+export function remainingLoss(entry: LossLedgerEntry, taxYear: number): number {
+    const used = entry.utilisations
+        .filter(utilisation => utilisation.taxYear < taxYear)
+        .reduce((sum, utilisation) => sum + utilisation.amount, 0);
+    return Math.max(0, entry.adjustedLoss - used);
+}
+
+/**
+ * Returns undefined when there are no losses to relieve or carry forward.
+ */
+export function applyLossRelief(
+    inputs: Pick<TaxInputs, "lossLedger" | "priorYearLosses">,
+    options: LossReliefOptions
+): LossReliefSummary | undefined {
+    const { taxYear } = options;
+    const limit = LOSS_RELIEF_LIMITS[options.taxpayerType];
+    const ledger = (inputs.lossLedger || []).filter(entry => entry.taxYear < taxYear);
+    const manual = Math.max(0, inputs.priorYearLosses || 0);
+    const currentYearLoss = Math.max(0, -options.adjustedProfit);
+
+    const source = inputs.lossLedger && inputs.lossLedger.length > 0 ? "ledger" : "manual";
+    if (source === "manual" && manual === 0 && currentYearLoss === 0) {
+        return undefined;
+    }
+
+    // A manual figure has no year attached, so it is relieved without a time limit
+    const opening: { lossYear: number; amount: number; lastYearOfRelief?: number }[] = source === "ledger"
+        ? ledger
+            .map(entry => ({
+                lossYear: entry.taxYear,
+                amount: remainingLoss(entry, taxYear),
+                lastYearOfRelief: limit.carryForwardYears !== undefined ? entry.taxYear + limit.carryForwardYears : undefined,
+            }))
+            .sort((a, b) => a.lossYear - b.lossYear)
+        : manual > 0 ? [{ lossYear: taxYear - 1, amount: manual }] : [];
+
+    let available = Math.max(0, options.adjustedProfit);
+    const schedule: LossScheduleLine[] = opening
+        .filter(loss => loss.amount > 0)
+        .map(loss => {
+            const expired = loss.lastYearOfRelief !== undefined && taxYear > loss.lastYearOfRelief ? loss.amount : 0;
+            const utilised = Math.min(loss.amount - expired, available);
+            available -= utilised;
+            return {
+                lossYear: loss.lossYear,
+                broughtForward: loss.amount,
+                expired,
+                utilised,
+                carriedForward: loss.amount - expired - utilised,
+                lastYearOfRelief: loss.lastYearOfRelief,
+            };
+        });
+
+    if (currentYearLoss > 0) {
+        schedule.push({
+            lossYear: taxYear,
+            broughtForward: 0,
+            expired: 0,
+            utilised: 0,
+            carriedForward: currentYearLoss,
+            lastYearOfRelief: limit.carryForwardYears !== undefined ? taxYear + limit.carryForwardYears : undefined,
+        });
+    }
+
+    if (schedule.length === 0) {
+        return undefined;
+    }
+
+    const total = (key: keyof LossScheduleLine) => schedule.reduce((sum, line) => sum + (line[key] || 0), 0);
+    return {
+        taxYear,
+        source,
+        schedule,
+        broughtForward: total("broughtForward"),
+        expired: total("expired"),
+        utilised: total("utilised"),
+        currentYearLoss,
+        carriedForward: total("carriedForward"),
+    };
+}
@@ -6,15 +6,31 @@ import {
     VATSummary,
     CalculationTraceEntry,
     StatutoryReference,
+    CapitalAllowanceSummary,
+    LossReliefSummary,
+    WHTCreditSummary,
+    MinimumTaxSummary,
+    MinimumTaxExemption,
 } from "../types";
 import { validateTaxScenario, IncomeAggregationSummary } from "./validators";
 import {
-    loadRuleBook,
-    evaluateFormula,
+    evaluateRule,
     calculateProgressiveTax,
     ReconciliationRow,
     TaxRuleBook
 } from "./rulebook";
+import {
+    resolveRuleBookForYear,
+    jurisdictionForState,
+    getRuleBookById,
+    getRuleBookReference,
+    ResolvedRuleBook,
+    RuleBookReference,
+} from "./registry";
+import { computeCapitalAllowances } from "./capitalAllowances";
+import { TaxRuleOverrides, applyOverridesToRuleBook, getActiveRuleOverrides } from "./ruleOverrides";
+import { applyLossRelief, LOSS_RELIEF_LIMITS } from "./lossRelief";
+import { applyWHTCredits } from "./whtCredits";
 
 /**
  * Interface for internal state tracking during calculation
@@ -49,6 +65,320 @@ function calculateTotalReliefs(inputs: TaxInputs, state: CalculationState): numb
     return pension + nhf + lifeInsurance + other;
 }
 
+/**
+ * Resolves a rule's citation_id to a readable reference, e.g. "Nigeria Tax Act 2025 Sec 30"
+ */
+function ruleCitation(rulebook: TaxRuleBook, ruleKey: string, fallback: string): string {
+    const citationId = rulebook.rules[ruleKey]?.citation_id;
+    const citation = (rulebook.citations || []).find(c => c.id === citationId);
+    return citation ? `${citation.law} Sec ${citation.section}` : fallback;
+}
+
+/**
+ * The law a rule is charged under, from its citation, else the rulebook's
+ * legal reference
+ */
+function ruleLaw(rulebook: TaxRuleBook, ruleKey: string, fallback: string): string {
+    const citationId = rulebook.rules[ruleKey]?.citation_id;
+    const citation = (rulebook.citations || []).find(c => c.id === citationId);
+    return citation?.law || rulebook.metadata.legal_reference || fallback;
+}
+
+/**
+ * Statutory personal relief for PIT.
+ * PITA rulebooks define the CRA; NTA 2025 rulebooks replace it with rent relief.
+ */
+function calculatePersonalRelief(
+    netBusinessIncome: number,
+    state: CalculationState
+): { amount: number; ruleKey: "CRA" | "RENT_RELIEF" } {
+    const { rulebook } = state;
+
+    if (rulebook.rules.CRA_FIXED) {
+        const craFixed = evaluateRule(rulebook, "CRA_FIXED", state.context);
+        const craPerc = evaluateRule(rulebook, "CRA_PERCENTAGE", state.context);
+        const craAddPerc = evaluateRule(rulebook, "CRA_ADDITIONAL", state.context);
+
+        const fixedOrOnePercent = Math.max(craFixed, netBusinessIncome * craPerc);
+        const additionalRelief = netBusinessIncome * craAddPerc;
+        const totalCRA = fixedOrOnePercent + additionalRelief;
+
+        recordStep(state, {
+            step_id: "CRA",
+            label: "Consolidated Relief Allowance (CRA)",
+            value: totalCRA,
+            formula: `max(${craFixed.toLocaleString()}, 1% * ${netBusinessIncome.toLocaleString()}) + 20% * ${netBusinessIncome.toLocaleString()}`,
+            rule_key: "CRA",
+            citation: "PITA Sec 33"
+        });
+        return { amount: totalCRA, ruleKey: "CRA" };
+    }
+
+    const rentRate = evaluateRule(rulebook, "RENT_RELIEF_RATE", state.context);
+    const rentCap = evaluateRule(rulebook, "RENT_RELIEF_CAP", state.context);
+    const rentPaid = state.context.rent_paid;
+    const rentRelief = evaluateRule(rulebook, "RENT_RELIEF", state.context);
+
+    recordStep(state, {
+        step_id: "RENT_RELIEF",
+        label: "Rent Relief",
+        value: rentRelief,
+        formula: `min(${(rentRate * 100).toFixed(0)}% * ${rentPaid.toLocaleString()}, ${rentCap.toLocaleString()})`,
+        rule_key: "RENT_RELIEF",
+        citation: ruleCitation(rulebook, "RENT_RELIEF_RATE", "NTA 2025 Sec 30")
+    });
+    return { amount: rentRelief, ruleKey: "RENT_RELIEF" };
+}
+
+/**
+ * Relieves losses brought forward against the adjusted profit, oldest first, and
+ * records the loss schedule. Returns the profit after loss relief (negative for
+ * a current-year loss).
+ */
+function applyLosses(
+    profile: UserProfile,
+    inputs: TaxInputs,
+    adjustedProfit: number,
+    state: CalculationState,
+    notes: string[]
+): { profit: number; summary?: LossReliefSummary } {
+    const summary = applyLossRelief(inputs, {
+        taxYear: profile.taxYear,
+        taxpayerType: profile.taxpayerType,
+        adjustedProfit,
+    });
+    if (!summary) {
+        return { profit: adjustedProfit };
+    }
+
+    const limit = LOSS_RELIEF_LIMITS[profile.taxpayerType];
+    const formatNaira = (amount: number) => `₦${amount.toLocaleString()}`;
+
+    summary.schedule
+        .filter(line => line.lossYear < summary.taxYear)
+        .forEach(line => recordStep(state, {
+            step_id: `LOSS_RELIEF_${line.lossYear}`,
+            label: summary.source === "ledger" ? `Loss Relief: ${line.lossYear} Loss` : "Loss Relief: Prior Year Losses",
+            value: line.utilised,
+            formula: `min(${line.broughtForward - line.expired}, REMAINING_PROFIT)`,
+            citation: limit.citation,
+            notes: `b/f ${formatNaira(line.broughtForward)}; expired ${formatNaira(line.expired)}; c/f ${formatNaira(line.carriedForward)}`
+                + (line.lastYearOfRelief !== undefined ? `; relievable until ${line.lastYearOfRelief}` : ""),
+        }));
+
+    if (summary.expired > 0) {
+        recordStep(state, {
+            step_id: "LOSSES_EXPIRED",
+            label: `Losses Expired (${limit.carryForwardYears}-Year Limit)`,
+            value: summary.expired,
+            citation: limit.citation
+        });
+        notes.push(`Losses of ${formatNaira(summary.expired)} are older than ${limit.carryForwardYears} years and can no longer be relieved.`);
+    }
+    if (summary.broughtForward > 0) {
+        recordStep(state, {
+            step_id: "LOSS_RELIEF",
+            label: "Total Loss Relief",
+            value: summary.utilised,
+            formula: "SUM(LOSS_RELIEF), oldest first"
+        });
+    }
+    if (summary.currentYearLoss > 0) {
+        recordStep(state, {
+            step_id: "CURRENT_YEAR_LOSS",
+            label: `Adjusted Loss for ${summary.taxYear}`,
+            value: summary.currentYearLoss
+        });
+    }
+    recordStep(state, {
+        step_id: "LOSSES_CARRIED_FORWARD",
+        label: "Losses Carried Forward",
+        value: summary.carriedForward
+    });
+
+    return { profit: adjustedProfit - summary.utilised, summary };
+}
+
+/**
+ * Capital allowances from the fixed-asset register (or the manual figure), recorded
+ * against the profit they reduce. Returns the profit after balancing charges and
+ * the allowance claimed.
+ */
+function applyCapitalAllowances(
+    profile: UserProfile,
+    inputs: TaxInputs,
+    profitBeforeAllowances: number,
+    state: CalculationState,
+    notes: string[]
+): { profit: number; summary?: CapitalAllowanceSummary } {
+    const { rulebook } = state;
+    const isCompany = profile.taxpayerType === "company";
+    const restrictionRate = isCompany && rulebook.rules.CAPITAL_ALLOWANCE_RESTRICTION_RATE
+        ? evaluateRule(rulebook, "CAPITAL_ALLOWANCE_RESTRICTION_RATE", state.context)
+        : undefined;
+
+    const summary = computeCapitalAllowances(inputs, {
+        taxYear: profile.taxYear,
+        profitBeforeAllowances,
+        restrictionRate,
+    });
+    if (!summary) {
+        return { profit: profitBeforeAllowances };
+    }
+
+    const citation = isCompany
+        ? ruleCitation(rulebook, "CAPITAL_ALLOWANCE_RESTRICTION_RATE", "CITA Second Schedule")
+        : "PITA Second Schedule";
+
+    if (summary.balancingCharges > 0) {
+        recordStep(state, {
+            step_id: "BALANCING_CHARGES",
+            label: "Balancing Charges on Disposals",
+            value: summary.balancingCharges,
+            formula: "SUM(PROCEEDS - TWDV), limited to allowances claimed",
+            citation
+        });
+    }
+    recordStep(state, {
+        step_id: "CAPITAL_ALLOWANCES",
+        label: summary.source === "register" ? "Capital Allowances (Fixed Asset Register)" : "Capital Allowances",
+        value: summary.allowanceClaimed,
+        formula: summary.restrictionCap !== undefined
+            ? `min(${summary.totalAvailable.toLocaleString()}, RESTRICTION_CAP ${summary.restrictionCap.toLocaleString()})`
+            : "INITIAL + ANNUAL + BALANCING_ALLOWANCES + UNABSORBED_BF",
+        citation
+    });
+
+    if (summary.source === "register" && inputs.capitalAllowance) {
+        notes.push("Capital allowances computed from the fixed asset register; the manually entered figure was ignored.");
+    }
+    if (summary.unabsorbedCarriedForward > 0) {
+        notes.push(`Unabsorbed capital allowances of ₦${summary.unabsorbedCarriedForward.toLocaleString()} carried forward.`);
+    }
+
+    return {
+        profit: Math.max(0, profitBeforeAllowances + summary.balancingCharges) - summary.allowanceClaimed,
+        summary,
+    };
+}
+
+const MINIMUM_TAX_RULES = {
+    freelancer: { ruleKey: "PIT_MINIMUM_TAX", rateKey: "MINIMUM_TAX_RATE", citation: "PITA Sec 37" },
+    company: { ruleKey: "CIT_MINIMUM_TAX", rateKey: "CIT_MIN_TAX_RATE", citation: "CITA Sec 33 (as amended)" },
+} as const;
+
+/**
+ * Minimum tax under the rulebook in force, compared with the tax computed on
+ * the profit. Individuals pay on gross income; companies on turnover less
+ * franked investment income, unless small or in their first years of business.
+ * Records which of the two bound and returns the tax due. Rulebooks without a
+ * minimum tax rule (NTA 2025) leave the computed tax as it is.
+ */
+function applyMinimumTax(
+    profile: UserProfile,
+    inputs: TaxInputs,
+    computedTax: number,
+    isSmallCompany: boolean,
+    primaryCitation: string,
+    state: CalculationState,
+    notes: string[]
+): { taxDue: number; summary?: MinimumTaxSummary } {
+    const { rulebook } = state;
+    const rules = MINIMUM_TAX_RULES[profile.taxpayerType];
+    if (!rulebook.rules[rules.ruleKey]) {
+        return { taxDue: computedTax };
+    }
+
+    const isCompany = profile.taxpayerType === "company";
+    const frankedInvestmentIncome = isCompany ? Math.max(0, inputs.frankedInvestmentIncome || 0) : 0;
+    state.context.franked_investment_income = frankedInvestmentIncome;
+    const rate = evaluateRule(rulebook, rules.rateKey, state.context);
+    const base = isCompany
+        ? Math.max(0, state.context.turnover - frankedInvestmentIncome)
+        : state.context.gross_revenue;
+    const citation = ruleCitation(rulebook, rules.ruleKey, rules.citation);
+    const percent = `${(rate * 100).toFixed(isCompany ? 1 : 0)}%`;
+
+    let exemption: MinimumTaxExemption | undefined;
+    let exemptionLabel = "";
+    if (isCompany && isSmallCompany) {
+        exemption = "small_company";
+        exemptionLabel = "Small Company";
+    } else if (isCompany && profile.businessCommencementDate && rulebook.rules.CIT_MIN_TAX_EXEMPT_YEARS) {
+        const exemptYears = evaluateRule(rulebook, "CIT_MIN_TAX_EXEMPT_YEARS", state.context);
+        const yearOfBusiness = profile.taxYear - Number(profile.businessCommencementDate.slice(0, 4)) + 1;
+        if (yearOfBusiness >= 1 && yearOfBusiness <= exemptYears) {
+            exemption = "commencement";
+            exemptionLabel = `Year ${yearOfBusiness} of ${exemptYears} from Commencement`;
+        }
+    }
+
+    if (exemption) {
+        recordStep(state, {
+            step_id: "MINIMUM_TAX_EXEMPT",
+            label: `Minimum Tax Exempt (${exemptionLabel})`,
+            value: 0,
+            rule_key: rules.ruleKey,
+            citation,
+            notes: `Computed tax ₦${computedTax.toLocaleString()} stands.`
+        });
+        return {
+            taxDue: computedTax,
+            summary: { ruleKey: rules.ruleKey, base, rate, minimumTax: 0, computedTax, taxDue: computedTax, binding: "exempt", exemption, citation },
+        };
+    }
+
+    const minimumTax = evaluateRule(rulebook, rules.ruleKey, state.context);
+    recordStep(state, {
+        step_id: "MINIMUM_TAX",
+        label: isCompany ? `Minimum Tax (${percent} of Turnover)` : `Minimum Tax (${percent} of Gross)`,
+        value: minimumTax,
+        formula: isCompany
+            ? `max(0, TURNOVER - FRANKED_INVESTMENT_INCOME) * ${rate}`
+            : `GROSS_REVENUE * ${rate}`,
+        rule_key: rules.ruleKey,
+        citation
+    });
+
+    const minimumBinds = minimumTax > computedTax;
+    const summary: MinimumTaxSummary = {
+        ruleKey: rules.ruleKey,
+        base,
+        rate,
+        minimumTax,
+        computedTax,
+        taxDue: Math.max(computedTax, minimumTax),
+        binding: minimumBinds ? "minimum" : "computed",
+        citation: minimumBinds ? citation : primaryCitation,
+    };
+    const comparison = `Computed tax ₦${computedTax.toLocaleString()} vs minimum tax ₦${minimumTax.toLocaleString()}`;
+
+    if (minimumBinds) {
+        recordStep(state, {
+            step_id: isCompany ? "CIT_MIN_TAX_APPLIED" : "MINIMUM_TAX_APPLIED",
+            label: isCompany ? `CIT Minimum Tax Applied (${percent} of Turnover)` : `Minimum Tax Applied (${percent} of Gross)`,
+            value: minimumTax,
+            formula: "max(COMPUTED_TAX, MINIMUM_TAX)",
+            citation,
+            notes: `${comparison}: minimum tax binds.`
+        });
+        notes.push(isCompany
+            ? `Minimum tax rule applied for company (${percent} of turnover).`
+            : `Minimum tax rule applied (${percent} of gross revenue).`);
+    } else {
+        recordStep(state, {
+            step_id: "COMPUTED_TAX_APPLIED",
+            label: "Computed Tax Exceeds Minimum Tax",
+            value: computedTax,
+            formula: "max(COMPUTED_TAX, MINIMUM_TAX)",
+            citation: primaryCitation,
+            notes: `${comparison}: computed tax binds.`
+        });
+    }
+
+    return { taxDue: summary.taxDue, summary };
+}
+
 function aggregateIncome(inputs: TaxInputs): IncomeAggregationSummary & { source: string } {
     const entries = (inputs.incomeEntries || []).filter(entry =>
         !Number.isNaN(entry.revenue) || !Number.isNaN(entry.expenses)
@@ -73,17 +403,42 @@ function aggregateIncome(inputs: TaxInputs): IncomeAggregationSummary & { source
     };
 }
 
+export interface TaxCalculationOptions {
+    rulebookId?: string;   // pin a specific rulebook instead of resolving by tax year
+    overrides?: TaxRuleOverrides | null; // live-rate overrides; defaults to the approved set in force, null for none
+}
+
+function resolveCalculationRuleBook(profile: UserProfile, options: TaxCalculationOptions): ResolvedRuleBook {
+    const jurisdiction = jurisdictionForState(profile.stateOfResidence);
+    if (!options.rulebookId) {
+        return resolveRuleBookForYear(profile.taxYear, jurisdiction);
+    }
+
+    const entry = getRuleBookById(options.rulebookId);
+    if (!entry) {
+        throw new Error(`Unknown tax rulebook: ${options.rulebookId}`);
+    }
+    return {
+        entry,
+        reference: getRuleBookReference(entry),
+        requestedJurisdiction: jurisdiction,
+        usedFederalFallback: entry.rulebook.metadata.jurisdiction !== jurisdiction,
+    };
+}
+
 /**
  * Main tax calculation function for Nigeria (V2 - Rulebook Driven)
  */
-export function calculateTaxForNigeria(profile: UserProfile, inputs: TaxInputs): TaxResult {
+export function calculateTaxForNigeria(profile: UserProfile, inputs: TaxInputs, options: TaxCalculationOptions = {}): TaxResult {
     const notes: string[] = [];
     const bands: TaxBandBreakdown[] = [];
     const calculationTrace: CalculationTraceEntry[] = [];
     const statutoryReferences: StatutoryReference[] = [];
 
     // 1. Initialise Rulebook & State
-    const rulebook = loadRuleBook(profile.taxYear.toString(), profile.stateOfResidence === "Lagos" ? "Lagos" : "Federal");
+    const resolved = resolveCalculationRuleBook(profile, options);
+    const overrides = options.overrides === undefined ? getActiveRuleOverrides() : options.overrides;
+    const rulebook = applyOverridesToRuleBook(resolved.entry.rulebook, overrides);
     const state: CalculationState = {
         context: {},
         reconciliationReport: [],
@@ -96,56 +451,55 @@ export function calculateTaxForNigeria(profile: UserProfile, inputs: TaxInputs):
     const allowableExpenses = incomeAggregation.totalExpenses;
 
     // Record base income steps
+    state.context.gross_revenue = grossRevenue;
+    state.context.allowable_expenses = allowableExpenses;
+    state.context.turnover = inputs.turnover || grossRevenue;
+    state.context.rent_paid = Math.max(0, inputs.annualRentPaid || 0);
     recordStep(state, { step_id: "GROSS_REVENUE", label: "Total Gross Revenue", value: grossRevenue });
     recordStep(state, { step_id: "ALLOWABLE_EXPENSES", label: "Allowable Business Expenses", value: allowableExpenses });
 
     let taxableIncome: number;
     let totalTaxDue: number;
     let taxBeforeCredits: number;
+    let capitalAllowances: CapitalAllowanceSummary | undefined;
+    let lossRelief: LossReliefSummary | undefined;
+    let minimumTax: MinimumTaxSummary | undefined;
 
     if (profile.taxpayerType === "freelancer") {
         // PERSONAL INCOME TAX (PIT)
 
-        // Step 1: Net Business Income
-        const netBusinessIncome = Math.max(0, grossRevenue - allowableExpenses);
+        // Step 1: Net Business Income, after loss relief and capital allowances
+        const losses = applyLosses(profile, inputs, grossRevenue - allowableExpenses, state, notes);
+        lossRelief = losses.summary;
+        const allowances = applyCapitalAllowances(profile, inputs, losses.profit, state, notes);
+        capitalAllowances = allowances.summary;
+        const netBusinessIncome = Math.max(0, allowances.profit);
+        state.context.net_business_income = netBusinessIncome;
         recordStep(state, {
             step_id: "NET_BUSINESS_INCOME",
             label: "Net Business Income",
             value: netBusinessIncome,
             formula: "GROSS_REVENUE - ALLOWABLE_EXPENSES"
+                + (lossRelief ? " - LOSS_RELIEF" : "")
+                + (capitalAllowances ? " + BALANCING_CHARGES - CAPITAL_ALLOWANCES" : "")
         });
 
-        // Step 2: Calculate CRA
-        const craFixed = evaluateFormula(rulebook.rules.CRA_FIXED.formula, state.context);
-        const craPerc = evaluateFormula(rulebook.rules.CRA_PERCENTAGE.formula, state.context);
-        const craAddPerc = evaluateFormula(rulebook.rules.CRA_ADDITIONAL.formula, state.context);
-
-        const craBase = netBusinessIncome;
-        const fixedOrOnePercent = Math.max(craFixed, netBusinessIncome * craPerc);
-        const additionalRelief = netBusinessIncome * craAddPerc;
-        const totalCRA = fixedOrOnePercent + additionalRelief;
-
-        recordStep(state, {
-            step_id: "CRA",
-            label: "Consolidated Relief Allowance (CRA)",
-            value: totalCRA,
-            formula: `max(${craFixed.toLocaleString()}, 1% * ${craBase.toLocaleString()}) + 20% * ${craBase.toLocaleString()}`,
-            rule_key: "CRA",
-            citation: "PITA Sec 33"
-        });
+        // Step 2: Statutory personal relief (CRA under PITA, rent relief under NTA 2025)
+        const personalRelief = calculatePersonalRelief(netBusinessIncome, state);
 
         // Step 3: Other Reliefs
         const otherReliefs = calculateTotalReliefs(inputs, state);
-        const totalReliefs = totalCRA + otherReliefs;
+        const totalReliefs = personalRelief.amount + otherReliefs;
         recordStep(state, {
             step_id: "TOTAL_RELIEFS",
             label: "Total Reliefs & Deductions",
             value: totalReliefs,
-            formula: "CRA + SUM(Other Reliefs)"
+            formula: `${personalRelief.ruleKey} + SUM(Other Reliefs)`
         });
 
         // Step 4: Taxable Income
         taxableIncome = Math.max(0, netBusinessIncome - totalReliefs);
+        state.context.taxable_income = taxableIncome;
         recordStep(state, {
             step_id: "TAXABLE_INCOME",
             label: "Total Taxable Income",
@@ -154,7 +508,7 @@ export function calculateTaxForNigeria(profile: UserProfile, inputs: TaxInputs):
         });
 
         // Step 5: Apply Progressive Bands
-        const pitRule = rulebook.rules.PIT_BANDS_2024;
+        const pitRule = rulebook.rules.PIT_BANDS || rulebook.rules.PIT_BANDS_2024;
         const bandResult = calculateProgressiveTax(taxableIncome, pitRule.bands || []);
 
         bandResult.breakdown.forEach(row => recordStep(state, row));
@@ -175,74 +529,85 @@ export function calculateTaxForNigeria(profile: UserProfile, inputs: TaxInputs):
         });
 
         // Step 6: Minimum Tax Check
-        const minTaxRate = evaluateFormula(rulebook.rules.MINIMUM_TAX_RATE.formula, state.context);
-        const minimumTax = grossRevenue * minTaxRate;
+        const pitCitation = ruleCitation(rulebook, rulebook.rules.PIT_BANDS ? "PIT_BANDS" : "PIT_BANDS_2024", "PITA Sec 33");
+        const minimum = applyMinimumTax(profile, inputs, totalTaxDue, false, pitCitation, state, notes);
+        minimumTax = minimum.summary;
+        totalTaxDue = minimum.taxDue;
 
-        if (totalTaxDue < minimumTax && grossRevenue > 0) {
-            recordStep(state, {
-                step_id: "MINIMUM_TAX_APPLIED",
-                label: "Minimum Tax Applied (1% of Gross)",
-                value: minimumTax,
-                formula: `GROSS_REVENUE * ${minTaxRate}`,
-                citation: "PITA Sec 37"
-            });
-            totalTaxDue = minimumTax;
-            notes.push(`Minimum tax rule applied (1% of gross revenue).`);
-        }
-
-        notes.push("Tax calculated under Personal Income Tax Act (PITA) using rulebook-driven engine.");
+        notes.push(`Tax calculated under ${personalRelief.ruleKey === "CRA" ? "Personal Income Tax Act (PITA)" : "Nigeria Tax Act 2025"} using rulebook-driven engine.`);
 
     } else {
         // COMPANY INCOME TAX (CIT)
         const turnover = grossRevenue;
-        const taxableProfit = Math.max(0, grossRevenue - allowableExpenses);
-
-        const smallThreshold = evaluateFormula(rulebook.rules.CIT_SMALL_THRESHOLD.formula, state.context);
-        const mediumThreshold = evaluateFormula(rulebook.rules.CIT_MEDIUM_THRESHOLD.formula, state.context);
-        const smallRate = evaluateFormula(rulebook.rules.CIT_SMALL_RATE.formula, state.context);
-        const mediumRate = evaluateFormula(rulebook.rules.CIT_MEDIUM_RATE.formula, state.context);
-        const largeRate = evaluateFormula(rulebook.rules.CIT_LARGE_RATE.formula, state.context);
+        const losses = applyLosses(profile, inputs, grossRevenue - allowableExpenses, state, notes);
+        lossRelief = losses.summary;
+        const allowances = applyCapitalAllowances(profile, inputs, losses.profit, state, notes);
+        capitalAllowances = allowances.summary;
+        const taxableProfit = Math.max(0, allowances.profit);
+        if (capitalAllowances || lossRelief) {
+            recordStep(state, {
+                step_id: "TAXABLE_PROFIT",
+                label: "Total Taxable Profit",
+                value: taxableProfit,
+                formula: "GROSS_REVENUE - ALLOWABLE_EXPENSES"
+                    + (lossRelief ? " - LOSS_RELIEF" : "")
+                    + (capitalAllowances ? " + BALANCING_CHARGES - CAPITAL_ALLOWANCES" : "")
+            });
+        }
+        state.context.taxable_profit = taxableProfit;
+        state.context.taxable_income = taxableProfit;
+
+        const smallThreshold = evaluateRule(rulebook, "CIT_SMALL_THRESHOLD", state.context);
+        const smallRate = evaluateRule(rulebook, "CIT_SMALL_RATE", state.context);
+        const largeRate = evaluateRule(rulebook, "CIT_LARGE_RATE", state.context);
+        // Medium tier exists under CITA only; NTA 2025 has small vs. all other companies
+        const mediumThreshold = rulebook.rules.CIT_MEDIUM_THRESHOLD
+            ? evaluateRule(rulebook, "CIT_MEDIUM_THRESHOLD", state.context)
+            : undefined;
+        const mediumRate = rulebook.rules.CIT_MEDIUM_RATE
+            ? evaluateRule(rulebook, "CIT_MEDIUM_RATE", state.context)
+            : largeRate;
+        const assetThreshold = rulebook.rules.CIT_SMALL_ASSET_THRESHOLD
+            ? evaluateRule(rulebook, "CIT_SMALL_ASSET_THRESHOLD", state.context)
+            : undefined;
+
+        const exceedsAssetTest = assetThreshold !== undefined && (inputs.totalFixedAssets || 0) > assetThreshold;
+        const isSmall = turnover <= smallThreshold && !exceedsAssetTest;
 
         let citRate = 0;
         let label = "Exempt (Small Company)";
 
-        if (turnover > mediumThreshold) {
+        if (isSmall) {
+            citRate = smallRate;
+            label = `Small Company CIT (${(citRate * 100).toFixed(0)}%)`;
+        } else if (mediumThreshold === undefined || turnover > mediumThreshold) {
             citRate = largeRate;
             label = `Large Company CIT (${(citRate * 100).toFixed(0)}%)`;
-        } else if (turnover > smallThreshold) {
+        } else {
             citRate = mediumRate;
             label = `Medium Company CIT (${(citRate * 100).toFixed(0)}%)`;
-        } else {
-            citRate = smallRate;
-            label = `Small Company CIT (${(citRate * 100).toFixed(0)}%)`;
+        }
+
+        if (exceedsAssetTest && turnover <= smallThreshold) {
+            notes.push("Turnover is within the small company limit but total fixed assets exceed the ceiling; standard CIT rate applies.");
         }
 
         totalTaxDue = taxableProfit * citRate;
         taxableIncome = taxableProfit;
 
+        const citCitation = ruleCitation(rulebook, "CIT_LARGE_RATE", "CITA Section 9");
         recordStep(state, {
             step_id: "CIT_PRIMARY",
             label: label,
             value: totalTaxDue,
             formula: `TAXABLE_PROFIT * ${citRate}`,
-            citation: "CITA Section 9"
+            citation: citCitation
         });
 
-        // Minimum Tax Check for Companies (FA 2023: 0.5% of turnover)
-        const citMinTaxRate = evaluateFormula(rulebook.rules.CIT_MIN_TAX_RATE.formula, state.context);
-        const citMinTax = turnover * citMinTaxRate;
-
-        if (totalTaxDue < citMinTax && turnover > smallThreshold) {
-            recordStep(state, {
-                step_id: "CIT_MIN_TAX_APPLIED",
-                label: `CIT Minimum Tax Applied (${(citMinTaxRate * 100).toFixed(1)}% of Turnover)`,
-                value: citMinTax,
-                formula: `TURNOVER * ${citMinTaxRate}`,
-                citation: "CITA Sec 33 (as amended)"
-            });
-            totalTaxDue = citMinTax;
-            notes.push(`Minimum tax rule applied for company (${(citMinTaxRate * 100).toFixed(1)}% of turnover).`);
-        }
+        // Minimum Tax Check for Companies
+        const minimum = applyMinimumTax(profile, inputs, totalTaxDue, isSmall, citCitation, state, notes);
+        minimumTax = minimum.summary;
+        totalTaxDue = minimum.taxDue;
 
         bands.push({
             bandLabel: label,
@@ -251,14 +616,24 @@ export function calculateTaxForNigeria(profile: UserProfile, inputs: TaxInputs):
             taxAmount: totalTaxDue
         });
 
-        notes.push("Tax calculated under Companies Income Tax Act (CITA)");
+        notes.push(`Tax calculated under ${ruleLaw(rulebook, "CIT_LARGE_RATE", "Companies Income Tax Act (CITA)")}`);
     }
 
     taxBeforeCredits = totalTaxDue;
 
-    // Withholding Tax Credits
-    const withholdingCredits = Math.max(0, inputs.withholdingTaxCredits || 0);
-    const taxCreditsApplied = Math.min(taxBeforeCredits, withholdingCredits);
+    // Withholding Tax Credits: certified credits from the registry, oldest first,
+    // otherwise the single figure entered
+    let whtCredits: WHTCreditSummary | undefined;
+    let taxCreditsApplied: number;
+    if (inputs.whtCreditRegistry && inputs.whtCreditRegistry.length > 0) {
+        whtCredits = applyWHTCredits(inputs.whtCreditRegistry, { taxYear: profile.taxYear, taxLiability: taxBeforeCredits });
+        taxCreditsApplied = whtCredits?.utilised || 0;
+        if (whtCredits && whtCredits.carriedForward > 0) {
+            notes.push(`Unused WHT credits of ₦${whtCredits.carriedForward.toLocaleString()} carried forward.`);
+        }
+    } else {
+        taxCreditsApplied = Math.min(taxBeforeCredits, Math.max(0, inputs.withholdingTaxCredits || 0));
+    }
 
     if (taxCreditsApplied > 0) {
         recordStep(state, {
@@ -273,7 +648,7 @@ export function calculateTaxForNigeria(profile: UserProfile, inputs: TaxInputs):
     // VAT (Optional)
     let vat: VATSummary | undefined;
     if (profile.isVATRegistered) {
-        const vatRate = evaluateFormula(rulebook.rules.VAT_RATE.formula, state.context);
+        const vatRate = evaluateRule(rulebook, "VAT_RATE", state.context);
         const outputVAT = grossRevenue * vatRate;
         const inputVAT = inputs.inputVATPaid || 0;
         vat = {
@@ -302,6 +677,11 @@ export function calculateTaxForNigeria(profile: UserProfile, inputs: TaxInputs):
 
     const effectiveRate = taxableIncome > 0 ? totalTaxDue / taxableIncome : 0;
 
+    if (resolved.usedFederalFallback) {
+        notes.push(`No ${resolved.requestedJurisdiction} rulebook covers ${profile.taxYear}; Federal rulebook applied.`);
+    }
+    notes.push(`Rulebook: ${resolved.reference.id} v${resolved.reference.version} (effective ${resolved.reference.effectiveDate}).`);
+
     // Add disclaimer
     notes.push("Auditable computation generated via CashOS Tax Engine V2.");
 
@@ -325,8 +705,95 @@ export function calculateTaxForNigeria(profile: UserProfile, inputs: TaxInputs):
         })),
         taxRuleMetadata: {
             version: rulebook.metadata.version,
-            source: rulebook.metadata.legal_reference || "Rulebook"
+            source: rulebook.metadata.legal_reference || "Rulebook",
+            overrideVersion: overrides?.overrideVersion ?? null
         },
+        rulebook: resolved.reference,
+        capitalAllowances,
+        lossRelief,
+        whtCredits,
+        minimumTax,
         reconciliationReport: state.reconciliationReport
     };
 }
+
+export interface RegimeComparisonLine {
+    step_id: string;
+    label: string;
+    baselineValue: number;
+    comparisonValue: number;
+    difference: number;       // comparison - baseline
+}
+
+export interface RegimeComparison {
+    baseline: RuleBookReference;
+    comparison: RuleBookReference;
+    baselineResult: TaxResult;
+    comparisonResult: TaxResult;
+    lines: RegimeComparisonLine[];
+    totalTaxDueDifference: number;
+}
+
+/**
+ * Runs the same profile and inputs through two rulebooks and lines up their
+ * reconciliation reports step by step. Steps present under only one regime
+ * (e.g. CRA vs. rent relief) are shown against zero.
+ */
+export function compareTaxRegimes(
+    profile: UserProfile,
+    inputs: TaxInputs,
+    baselineRulebookId: string,
+    comparisonRulebookId: string
+): RegimeComparison {
+    const baselineResult = calculateTaxForNigeria(profile, inputs, { rulebookId: baselineRulebookId });
+    const comparisonResult = calculateTaxForNigeria(profile, inputs, { rulebookId: comparisonRulebookId });
+
+    const baselineRows: ReconciliationRow[] = baselineResult.reconciliationReport || [];
+    const comparisonRows: ReconciliationRow[] = comparisonResult.reconciliationReport || [];
+
+    // Band step ids repeat when two bands share a label, so key rows by occurrence
+    const keyRows = (rows: ReconciliationRow[]) => {
+        const counts: Record<string, number> = {};
+        return rows.map(row => {
+            counts[row.step_id] = (counts[row.step_id] || 0) + 1;
+            return { key: `${row.step_id}#${counts[row.step_id]}`, row };
+        });
+    };
+    const baselineKeyed = keyRows(baselineRows);
+    const comparisonKeyed = keyRows(comparisonRows);
+
+    const lines: RegimeComparisonLine[] = [];
+    const seen = new Set<string>();
+
+    for (const { key, row } of [...baselineKeyed, ...comparisonKeyed]) {
+        if (seen.has(key)) continue;
+        seen.add(key);
+
+        const baselineValue = baselineKeyed.find(k => k.key === key)?.row.value || 0;
+        const comparisonValue = comparisonKeyed.find(k => k.key === key)?.row.value || 0;
+        lines.push({
+            step_id: row.step_id,
+            label: row.label,
+            baselineValue,
+            comparisonValue,
+            difference: comparisonValue - baselineValue,
+        });
+    }
+
+    lines.push({
+        step_id: "TOTAL_TAX_DUE",
+        label: "Total Tax Due",
+        baselineValue: baselineResult.totalTaxDue,
+        comparisonValue: comparisonResult.totalTaxDue,
+        difference: comparisonResult.totalTaxDue - baselineResult.totalTaxDue,
+    });
+
+    return {
+        baseline: baselineResult.rulebook!,
+        comparison: comparisonResult.rulebook!,
+        baselineResult,
+        comparisonResult,
+        lines,
+        totalTaxDueDifference: comparisonResult.totalTaxDue - baselineResult.totalTaxDue,
+    };
+}
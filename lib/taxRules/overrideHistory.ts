@@ -0,0 +1,260 @@
+import path from "path";
+import {
+    TaxRuleOverrides,
+    applyTaxRuleOverrides,
+    fetchRemoteOverrides,
+} from "./liveRates";
+import { createJsonStore, requireText } from "./jsonStore";
+import { StatusError } from "../errors";
+
+/**
+ * Tax Rule Override History
+ *
+ * Every change to the live overrides is stored as a numbered snapshot with its
+ * author, reason and timestamp. Snapshots start as "pending" and only take
+ * effect once a second person approves them. Rollback proposes an earlier
+ * snapshot again as a new version, reviewed like any other, so history is
+ * never rewritten.
+ *
+ * Version 0 is the implicit base configuration (no overrides).
+ */
+
+export type OverrideStatus = "pending" | "approved" | "rejected";
+
+export interface OverrideVersion {
+    version: number;
+    overrides: TaxRuleOverrides;
+    status: OverrideStatus;
+    author: string;
+    reason: string;
+    createdAt: string;
+    reviewedBy?: string;
+    reviewedAt?: string;
+    reviewNote?: string;
+    rolledBackFrom?: number;     // set when this version re-publishes an earlier one
+}
+
+export interface OverrideDiffEntry {
+    path: string;                // e.g. "citConfig.largeCompanyRate"
+    before: unknown;
+    after: unknown;
+}
+
+interface OverrideHistoryFile {
+    versions: OverrideVersion[];
+}
+
+export class OverrideWorkflowError extends StatusError {
+    name = "OverrideWorkflowError";
+}
+
+const HISTORY_FILE = process.env.TAX_RULES_HISTORY_FILE || path.join(process.cwd(), "data", "taxRulesOverrideHistory.json");
+
+// Metadata fields that describe a snapshot rather than change a rule
+const METADATA_KEYS: (keyof TaxRuleOverrides)[] = ["version", "source", "lastUpdated", "remoteUrl", "overrideVersion"];
+
+const history = createJsonStore<OverrideHistoryFile>({ file: HISTORY_FILE, description: "tax rule override history", empty: () => ({ versions: [] }) });
+
+function stripMetadata(overrides: TaxRuleOverrides): TaxRuleOverrides {
+    const copy: TaxRuleOverrides = { ...overrides };
+    METADATA_KEYS.forEach(key => delete copy[key]);
+    return copy;
+}
+
+function activate(entry: OverrideVersion) {
+    applyTaxRuleOverrides(
+        { ...entry.overrides, version: `v${entry.version}`, lastUpdated: entry.reviewedAt || entry.createdAt },
+        { source: `override history (${entry.reviewedBy || entry.author})`, overrideVersion: entry.version }
+    );
+}
+
+export function listOverrideVersions(): OverrideVersion[] {
+    return [...history.load().versions];
+}
+
+export function getOverrideVersion(version: number): OverrideVersion | undefined {
+    if (version === 0) {
+        return {
+            version: 0,
+            overrides: {},
+            status: "approved",
+            author: "system",
+            reason: "Base configuration (config.ts)",
+            createdAt: new Date(0).toISOString(),
+        };
+    }
+    return history.load().versions.find(entry => entry.version === version);
+}
+
+/**
+ * The approved version currently in force: the most recently reviewed approval.
+ */
+export function getActiveOverrideVersion(): OverrideVersion | undefined {
+    return history.load().versions
+        .filter(entry => entry.status === "approved")
+        .sort((a, b) => (a.reviewedAt || a.createdAt).localeCompare(b.reviewedAt || b.createdAt) || a.version - b.version)
+        .pop();
+}
+
+export function getPendingOverrideVersions(): OverrideVersion[] {
+    return history.load().versions.filter(entry => entry.status === "pending");
+}
+
+function nextVersionNumber(): number {
+    return history.load().versions.reduce((max, entry) => Math.max(max, entry.version), 0) + 1;
+}
+
+/**
+ * Records a proposed override set. It has no effect until approved.
+ */
+export function proposeOverride(
+    overrides: TaxRuleOverrides,
+    details: { author: string; reason: string }
+): OverrideVersion {
+    if (typeof overrides !== "object" || overrides === null || Array.isArray(overrides)) {
+        throw new OverrideWorkflowError("overrides must be an object");
+    }
+
+    const entry: OverrideVersion = {
+        version: nextVersionNumber(),
+        overrides: stripMetadata(overrides),
+        status: "pending",
+        author: requireText(details.author, "author", OverrideWorkflowError),
+        reason: requireText(details.reason, "reason", OverrideWorkflowError),
+        createdAt: new Date().toISOString(),
+    };
+
+    history.load().versions.push(entry);
+    history.persist();
+    return entry;
+}
+
+function review(
+    version: number,
+    status: "approved" | "rejected",
+    details: { reviewer: string; note?: string }
+): OverrideVersion {
+    const entry = history.load().versions.find(candidate => candidate.version === version);
+    if (!entry) {
+        throw new OverrideWorkflowError(`Override version ${version} not found`, 404);
+    }
+    if (entry.status !== "pending") {
+        throw new OverrideWorkflowError(`Override version ${version} is already ${entry.status}`, 409);
+    }
+
+    const reviewer = requireText(details.reviewer, "reviewer", OverrideWorkflowError);
+    if (reviewer.toLowerCase() === entry.author.toLowerCase()) {
+        throw new OverrideWorkflowError("An override cannot be reviewed by its author", 403);
+    }
+
+    entry.status = status;
+    entry.reviewedBy = reviewer;
+    entry.reviewedAt = new Date().toISOString();
+    entry.reviewNote = details.note;
+
+    if (status === "approved") {
+        activate(entry);
+    }
+    history.persist();
+    return entry;
+}
+
+/**
+ * Approves a pending version and makes it the live override set.
+ */
+export function approveOverride(version: number, details: { reviewer: string; note?: string }): OverrideVersion {
+    return review(version, "approved", details);
+}
+
+export function rejectOverride(version: number, details: { reviewer: string; note?: string }): OverrideVersion {
+    return review(version, "rejected", details);
+}
+
+/**
+ * Proposes re-publishing an earlier approved version (or 0 for the base rules)
+ * as a new version. It takes effect once a second person approves it.
+ */
+export function rollbackOverride(
+    toVersion: number,
+    details: { author: string; reason: string }
+): OverrideVersion {
+    const target = getOverrideVersion(toVersion);
+    if (!target) {
+        throw new OverrideWorkflowError(`Override version ${toVersion} not found`, 404);
+    }
+    if (target.status !== "approved") {
+        throw new OverrideWorkflowError(`Only approved versions can be restored; version ${toVersion} is ${target.status}`, 409);
+    }
+
+    const entry: OverrideVersion = {
+        version: nextVersionNumber(),
+        overrides: { ...target.overrides },
+        status: "pending",
+        author: requireText(details.author, "author", OverrideWorkflowError),
+        reason: requireText(details.reason, "reason", OverrideWorkflowError),
+        createdAt: new Date().toISOString(),
+        rolledBackFrom: toVersion,
+    };
+
+    history.load().versions.push(entry);
+    history.persist();
+    return entry;
+}
+
+function flatten(value: unknown, prefix: string, out: Record<string, unknown>) {
+    if (value !== null && typeof value === "object") {
+        const entries = Array.isArray(value)
+            ? value.map((item, index) => [`[${index}]`, item] as const)
+            : Object.entries(value).map(([key, item]) => [prefix ? `.${key}` : key, item] as const);
+        if (entries.length === 0 && prefix) {
+            out[prefix] = value;
+        }
+        entries.forEach(([key, item]) => flatten(item, `${prefix}${key}`, out));
+        return;
+    }
+    if (prefix) {
+        out[prefix] = value;
+    }
+}
+
+/**
+ * Field-by-field differences between two versions' override sets.
+ */
+export function diffOverrideVersions(fromVersion: number, toVersion: number): OverrideDiffEntry[] {
+    const from = getOverrideVersion(fromVersion);
+    const to = getOverrideVersion(toVersion);
+    if (!from || !to) {
+        throw new OverrideWorkflowError(`Override version ${!from ? fromVersion : toVersion} not found`, 404);
+    }
+
+    const before: Record<string, unknown> = {};
+    const after: Record<string, unknown> = {};
+    flatten(from.overrides, "", before);
+    flatten(to.overrides, "", after);
+
+    const paths = Array.from(new Set([...Object.keys(before), ...Object.keys(after)])).sort();
+    return paths
+        .filter(key => JSON.stringify(before[key]) !== JSON.stringify(after[key]))
+        .map(key => ({ path: key, before: before[key], after: after[key] }));
+}
+
+/**
+ * Pulls overrides from TAX_RULES_REMOTE_URL and queues them for review when
+ * they differ from the latest recorded version.
+ */
+export async function proposeRemoteOverrides(): Promise<OverrideVersion | null> {
+    const remote = await fetchRemoteOverrides();
+    if (!remote) {
+        return null;
+    }
+
+    const latest = history.load().versions[history.load().versions.length - 1];
+    if (latest && JSON.stringify(latest.overrides) === JSON.stringify(stripMetadata(remote))) {
+        return null;
+    }
+
+    return proposeOverride(remote, {
+        author: `remote:${process.env.TAX_RULES_REMOTE_URL}`,
+        reason: remote.version ? `Remote rule update ${remote.version}` : "Remote rule update",
+    });
+}
@@ -0,0 +1,441 @@
+/**
+ * PAYE Payroll Engine
+ *
+ * Computes each employee's monthly Pay-As-You-Earn deduction from their annualised
+ * pay using the PIT bands and personal relief in the rulebook in force for the
+ * month, then builds payslips, the statutory remittance schedule and the payroll
+ * journal for the accounting engine.
+ *
+ * Pension, NHF and NHIS contributions are tax-exempt deductions. PAYE for a month
+ * is one twelfth of the tax on the month's pay annualised, so a pay change takes
+ * effect from the month it is paid.
+ */
+
+import { JournalEntry, JournalLine, generateJournalId, getAccount, validateJournalEntry } from "../accounting/doubleEntry";
+import { calculateITF, calculateNSITF, ITFResult, NSITFResult } from "./levies";
+import { calculateProgressiveTax, evaluateRule, Jurisdiction, TaxRuleBook } from "./rulebook";
+import { jurisdictionForState, resolveRuleBook, ResolvedRuleBook, RuleBookReference } from "./registry";
+import { StatusError } from "../errors";
+
+export interface PayrollEmployee {
+    id: string;                      // staff number
+    name: string;
+    tin?: string;
+    stateOfResidence: string;        // PAYE is due to the state where the employee lives
+    basicSalary: number;             // monthly amounts
+    housingAllowance: number;
+    transportAllowance: number;
+    otherAllowances: number;
+    pensionEnrolled?: boolean;       // defaults to true
+    employeePensionRate?: number;    // defaults to PENSION_EMPLOYEE_RATE
+    employerPensionRate?: number;    // defaults to PENSION_EMPLOYER_RATE
+    pensionFundAdministrator?: string;
+    pensionPin?: string;
+    nhfEnrolled?: boolean;           // defaults to true
+    nhisEnrolled?: boolean;          // defaults to false
+    annualRentPaid?: number;         // for rent relief under NTA 2025 rulebooks
+    startDate?: string;              // YYYY-MM-DD
+    exitDate?: string;
+}
+
+export interface PAYEComputation {
+    annualGrossEmoluments: number;
+    annualTaxExemptDeductions: number;   // pension, NHF and NHIS
+    personalRelief: number;
+    personalReliefType: "CRA" | "RENT_RELIEF";
+    annualTaxableIncome: number;
+    annualTaxFromBands: number;
+    minimumTaxApplied: boolean;
+    annualTax: number;
+}
+
+export interface Payslip {
+    employeeId: string;
+    employeeName: string;
+    tin?: string;
+    period: string;                  // YYYY-MM
+    stateOfResidence: string;
+    basicSalary: number;
+    housingAllowance: number;
+    transportAllowance: number;
+    otherAllowances: number;
+    grossPay: number;
+    pension: number;
+    nhf: number;
+    nhis: number;
+    paye: number;
+    totalDeductions: number;
+    netPay: number;
+    employerPension: number;
+    pensionFundAdministrator?: string;
+    computation: PAYEComputation;
+    rulebookId: string;
+}
+
+export type PayrollRemittanceType = "PAYE" | "PENSION" | "NHF" | "NHIS" | "NSITF" | "ITF";
+
+export interface PayrollRemittance {
+    type: PayrollRemittanceType;
+    payee: string;
+    amount: number;
+    employeeCount: number;
+    dueDate: string;
+    citation: string;
+}
+
+export interface PayrollTotals {
+    grossPay: number;
+    pension: number;
+    nhf: number;
+    nhis: number;
+    paye: number;
+    netPay: number;
+    employerPension: number;
+    nsitf: number;
+    itf: number;
+    employerCost: number;            // gross pay + employer pension + levies
+}
+
+export interface PayrollRun {
+    period: string;
+    taxYear: number;
+    paymentDate: string;
+    payslips: Payslip[];
+    totals: PayrollTotals;
+    levies: { nsitf: NSITFResult; itf: ITFResult };
+    remittances: PayrollRemittance[];
+    journalEntries: JournalEntry[];
+    rulebooks: RuleBookReference[];
+    notes: string[];
+    createdAt: string;
+}
+
+export interface PayrollRunOptions {
+    period: string;                  // YYYY-MM
+    annualTurnover?: number;         // for the ITF turnover threshold
+    paymentDate?: string;            // defaults to the last day of the period
+}
+
+export class PayrollError extends StatusError {
+    name = "PayrollError";
+}
+
+export const PENSION_EMPLOYEE_RATE = 0.08;   // of basic, housing and transport
+export const PENSION_EMPLOYER_RATE = 0.10;
+export const NHF_RATE = 0.025;               // of basic salary
+export const NHIS_EMPLOYEE_RATE = 0.05;      // of basic salary
+
+export const PAYROLL_CITATIONS: Record<PayrollRemittanceType, string> = {
+    PAYE: "PITA Sec 81",
+    PENSION: "Pension Reform Act 2014 Sec 4 & 11",
+    NHF: "National Housing Fund Act Sec 4",
+    NHIS: "National Health Insurance Authority Act 2022",
+    NSITF: "Employee's Compensation Act 2010 Sec 33",
+    ITF: "Industrial Training Fund Act Sec 6",
+};
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+const PERIOD_PATTERN = /^(\d{4})-(0[1-9]|1[0-2])$/;
+
+function parsePeriod(period: string): { year: number; month: number } {
+    const match = PERIOD_PATTERN.exec(period || "");
+    if (!match) {
+        throw new PayrollError(`Payroll period "${period}" must be in YYYY-MM format`);
+    }
+    return { year: Number(match[1]), month: Number(match[2]) };
+}
+
+function isoDate(date: Date): string {
+    return date.toISOString().split("T")[0];
+}
+
+function lastDayOfMonth(year: number, month: number): Date {
+    return new Date(Date.UTC(year, month, 0));
+}
+
+function addWorkingDays(date: Date, days: number): Date {
+    const result = new Date(date);
+    let added = 0;
+    while (added < days) {
+        result.setUTCDate(result.getUTCDate() + 1);
+        const weekday = result.getUTCDay();
+        if (weekday !== 0 && weekday !== 6) {
+            added++;
+        }
+    }
+    return result;
+}
+
+function isActiveInPeriod(employee: PayrollEmployee, start: string, end: string): boolean {
+    if (employee.startDate && employee.startDate > end) return false;
+    if (employee.exitDate && employee.exitDate < start) return false;
+    return true;
+}
+
+function monthlyPay(employee: PayrollEmployee) {
+    const amounts = {
+        basicSalary: Math.max(0, employee.basicSalary || 0),
+        housingAllowance: Math.max(0, employee.housingAllowance || 0),
+        transportAllowance: Math.max(0, employee.transportAllowance || 0),
+        otherAllowances: Math.max(0, employee.otherAllowances || 0),
+    };
+    const pensionable = amounts.basicSalary + amounts.housingAllowance + amounts.transportAllowance;
+    const pensionEnrolled = employee.pensionEnrolled !== false;
+
+    return {
+        ...amounts,
+        grossPay: pensionable + amounts.otherAllowances,
+        pension: pensionEnrolled ? round2(pensionable * (employee.employeePensionRate ?? PENSION_EMPLOYEE_RATE)) : 0,
+        employerPension: pensionEnrolled ? round2(pensionable * (employee.employerPensionRate ?? PENSION_EMPLOYER_RATE)) : 0,
+        nhf: employee.nhfEnrolled !== false ? round2(amounts.basicSalary * NHF_RATE) : 0,
+        nhis: employee.nhisEnrolled ? round2(amounts.basicSalary * NHIS_EMPLOYEE_RATE) : 0,
+    };
+}
+
+/**
+ * Computes the annual PIT on an employee's annualised monthly pay.
+ * PITA rulebooks grant the CRA on gross income after tax-exempt deductions
+ * (Finance Act 2020); NTA 2025 rulebooks grant rent relief instead.
+ */
+export function computeAnnualPAYE(employee: PayrollEmployee, rulebook: TaxRuleBook): PAYEComputation {
+    const pay = monthlyPay(employee);
+    const annualGrossEmoluments = pay.grossPay * 12;
+    const annualTaxExemptDeductions = (pay.pension + pay.nhf + pay.nhis) * 12;
+    const grossIncome = Math.max(0, annualGrossEmoluments - annualTaxExemptDeductions);
+
+    let personalRelief: number;
+    let personalReliefType: PAYEComputation["personalReliefType"];
+    if (rulebook.rules.CRA_FIXED) {
+        const craFixed = evaluateRule(rulebook, "CRA_FIXED");
+        const craPercentage = evaluateRule(rulebook, "CRA_PERCENTAGE");
+        const craAdditional = evaluateRule(rulebook, "CRA_ADDITIONAL");
+        personalRelief = Math.max(craFixed, grossIncome * craPercentage) + grossIncome * craAdditional;
+        personalReliefType = "CRA";
+    } else {
+        personalRelief = evaluateRule(rulebook, "RENT_RELIEF", { rent_paid: Math.max(0, employee.annualRentPaid || 0) });
+        personalReliefType = "RENT_RELIEF";
+    }
+
+    const annualTaxableIncome = Math.max(0, grossIncome - personalRelief);
+    const pitRule = rulebook.rules.PIT_BANDS || rulebook.rules.PIT_BANDS_2024;
+    const annualTaxFromBands = calculateProgressiveTax(annualTaxableIncome, pitRule?.bands || []).total;
+
+    const minimumTax = rulebook.rules.MINIMUM_TAX_RATE
+        ? annualGrossEmoluments * evaluateRule(rulebook, "MINIMUM_TAX_RATE")
+        : 0;
+    const minimumTaxApplied = annualGrossEmoluments > 0 && annualTaxFromBands < minimumTax;
+
+    return {
+        annualGrossEmoluments,
+        annualTaxExemptDeductions,
+        personalRelief,
+        personalReliefType,
+        annualTaxableIncome,
+        annualTaxFromBands,
+        minimumTaxApplied,
+        annualTax: minimumTaxApplied ? minimumTax : annualTaxFromBands,
+    };
+}
+
+/**
+ * Builds an employee's payslip for the month.
+ */
+export function computePayslip(employee: PayrollEmployee, period: string, resolved: ResolvedRuleBook): Payslip {
+    const pay = monthlyPay(employee);
+    const computation = computeAnnualPAYE(employee, resolved.entry.rulebook);
+    const paye = round2(computation.annualTax / 12);
+    const totalDeductions = round2(pay.pension + pay.nhf + pay.nhis + paye);
+
+    return {
+        employeeId: employee.id,
+        employeeName: employee.name,
+        tin: employee.tin,
+        period,
+        stateOfResidence: employee.stateOfResidence,
+        basicSalary: pay.basicSalary,
+        housingAllowance: pay.housingAllowance,
+        transportAllowance: pay.transportAllowance,
+        otherAllowances: pay.otherAllowances,
+        grossPay: pay.grossPay,
+        pension: pay.pension,
+        nhf: pay.nhf,
+        nhis: pay.nhis,
+        paye,
+        totalDeductions,
+        netPay: round2(pay.grossPay - totalDeductions),
+        employerPension: pay.employerPension,
+        pensionFundAdministrator: employee.pensionFundAdministrator,
+        computation,
+        rulebookId: resolved.entry.id,
+    };
+}
+
+/**
+ * The body a state's PAYE is paid to, e.g. "Lagos State Internal Revenue Service".
+ */
+export function stateRevenueService(state: string): string {
+    const name = state.trim() || "Unspecified";
+    return /^(fct|abuja)/i.test(name) ? "FCT Internal Revenue Service" : `${name} State Internal Revenue Service`;
+}
+
+// The annual ITF levy accrues a twelfth in each monthly run
+function itfForMonth(itf: ITFResult): number {
+    return round2(itf.levyPayable / 12);
+}
+
+/**
+ * Groups the month's deductions and levies by the body they are paid to.
+ * PAYE is due by the 10th of the following month, pension within seven working
+ * days of paying salaries and the ITF levy by 1 April of the following year.
+ */
+function buildRemittances(
+    payslips: Payslip[],
+    levies: { nsitf: NSITFResult; itf: ITFResult },
+    year: number,
+    month: number,
+    paymentDate: string
+): PayrollRemittance[] {
+    const remittances: PayrollRemittance[] = [];
+    const nextMonthEnd = isoDate(lastDayOfMonth(year, month + 1));
+
+    const add = (type: PayrollRemittanceType, payee: string, amount: number, dueDate: string, employeeCount: number) => {
+        if (amount <= 0) return;
+        const existing = remittances.find(line => line.type === type && line.payee === payee);
+        if (existing) {
+            existing.amount = round2(existing.amount + amount);
+            existing.employeeCount += employeeCount;
+        } else {
+            remittances.push({ type, payee, amount: round2(amount), employeeCount, dueDate, citation: PAYROLL_CITATIONS[type] });
+        }
+    };
+
+    const payeDue = payeDueDate(`${year}-${String(month).padStart(2, "0")}`);
+    const pensionDue = isoDate(addWorkingDays(new Date(`${paymentDate}T00:00:00Z`), 7));
+    payslips.forEach(slip => {
+        add("PAYE", stateRevenueService(slip.stateOfResidence), slip.paye, payeDue, 1);
+        add("PENSION", slip.pensionFundAdministrator || "Pension Fund Administrator", slip.pension + slip.employerPension, pensionDue, 1);
+        add("NHF", "Federal Mortgage Bank of Nigeria", slip.nhf, nextMonthEnd, 1);
+        add("NHIS", "National Health Insurance Authority", slip.nhis, nextMonthEnd, 1);
+    });
+    add("NSITF", "Nigeria Social Insurance Trust Fund", levies.nsitf.contributionPayable, nextMonthEnd, payslips.length);
+    add("ITF", "Industrial Training Fund", itfForMonth(levies.itf), `${year + 1}-04-01`, payslips.length);
+
+    return remittances;
+}
+
+/**
+ * PAYE deducted in a month is due to the state by the 10th of the following month.
+ */
+export function payeDueDate(period: string): string {
+    const { year, month } = parsePeriod(period);
+    return isoDate(new Date(Date.UTC(year, month, 10)));
+}
+
+function journalLine(accountCode: string, debit: number, credit: number, memo?: string): JournalLine {
+    return { accountCode, accountName: getAccount(accountCode)?.name || accountCode, debit: round2(debit), credit: round2(credit), memo };
+}
+
+/**
+ * Accrues the month's payroll: salary and employer costs against the net pay
+ * owed to staff and the statutory liabilities awaiting remittance.
+ */
+export function buildPayrollJournal(period: string, paymentDate: string, totals: PayrollTotals): JournalEntry {
+    const lines = [
+        journalLine("5500", totals.grossPay, 0, "Gross salaries"),
+        journalLine("5520", totals.employerPension, 0, "Employer pension contribution"),
+        journalLine("5530", totals.nsitf, 0),
+        journalLine("5540", totals.itf, 0),
+        journalLine("2210", 0, totals.paye),
+        journalLine("2230", 0, totals.pension + totals.employerPension, "Employee and employer pension"),
+        journalLine("2240", 0, totals.nhf),
+        journalLine("2270", 0, totals.nhis),
+        journalLine("2250", 0, totals.nsitf),
+        journalLine("2260", 0, totals.itf),
+        journalLine("2110", 0, totals.netPay, "Net pay due to employees"),
+    ].filter(line => line.debit > 0 || line.credit > 0);
+    const validation = validateJournalEntry(lines);
+
+    return {
+        id: generateJournalId(),
+        date: paymentDate,
+        narration: `Payroll for ${period}`,
+        reference: `PAYROLL-${period}`,
+        lines,
+        isBalanced: validation.isBalanced,
+        totalDebits: validation.totalDebits,
+        totalCredits: validation.totalCredits,
+        transactionType: "payroll",
+        createdAt: new Date().toISOString(),
+        status: "draft",
+    };
+}
+
+/**
+ * Runs the payroll for a month: payslips for every employee active in the
+ * period, NSITF on the month's gross pay, the month's share of the annual ITF
+ * levy, the remittance schedule and the payroll journal.
+ */
+export function runPayroll(employees: PayrollEmployee[], options: PayrollRunOptions): PayrollRun {
+    const { year, month } = parsePeriod(options.period);
+    const periodStart = `${options.period}-01`;
+    const periodEnd = isoDate(lastDayOfMonth(year, month));
+    const paymentDate = options.paymentDate || periodEnd;
+    const notes: string[] = [];
+
+    const rulebooks = new Map<Jurisdiction, ResolvedRuleBook>();
+    const rulebookFor = (state: string) => {
+        const jurisdiction = jurisdictionForState(state);
+        if (!rulebooks.has(jurisdiction)) {
+            rulebooks.set(jurisdiction, resolveRuleBook({ jurisdiction, date: periodStart }));
+        }
+        return rulebooks.get(jurisdiction)!;
+    };
+
+    const active = employees.filter(employee => isActiveInPeriod(employee, periodStart, periodEnd));
+    if (active.length === 0) {
+        throw new PayrollError(`No employees are on the payroll for ${options.period}`);
+    }
+    const payslips = active.map(employee => computePayslip(employee, options.period, rulebookFor(employee.stateOfResidence)));
+    payslips.filter(slip => slip.computation.minimumTaxApplied).forEach(slip => {
+        notes.push(`${slip.employeeName}: minimum tax applied (tax on bands is below the rulebook minimum).`);
+    });
+
+    const sum = (pick: (slip: Payslip) => number) => round2(payslips.reduce((total, slip) => total + pick(slip), 0));
+    const grossPay = sum(slip => slip.grossPay);
+    const nsitf = calculateNSITF({ monthlyPayroll: grossPay, numberOfMonths: 1 });
+    // ITF is levied on the year's payroll, estimated here from this month's
+    const itf = calculateITF({ annualPayroll: round2(grossPay * 12), numberOfEmployees: payslips.length, annualTurnover: options.annualTurnover || 0 });
+    if (!itf.isApplicable) {
+        notes.push(itf.note);
+    }
+
+    const totals: PayrollTotals = {
+        grossPay,
+        pension: sum(slip => slip.pension),
+        nhf: sum(slip => slip.nhf),
+        nhis: sum(slip => slip.nhis),
+        paye: sum(slip => slip.paye),
+        netPay: sum(slip => slip.netPay),
+        employerPension: sum(slip => slip.employerPension),
+        nsitf: round2(nsitf.contributionPayable),
+        itf: itfForMonth(itf),
+        employerCost: 0,
+    };
+    totals.employerCost = round2(totals.grossPay + totals.employerPension + totals.nsitf + totals.itf);
+
+    const levies = { nsitf, itf };
+    return {
+        period: options.period,
+        taxYear: year,
+        paymentDate,
+        payslips,
+        totals,
+        levies,
+        remittances: buildRemittances(payslips, levies, year, month, paymentDate),
+        journalEntries: [buildPayrollJournal(options.period, paymentDate, totals)],
+        rulebooks: Array.from(rulebooks.values()).map(resolved => resolved.reference),
+        notes,
+        createdAt: new Date().toISOString(),
+    };
+}
@@ -0,0 +1,307 @@
+/**
+ * Annual PAYE Return (Form H1) and Tax Deduction Cards
+ *
+ * Aggregates a year's payroll runs into the employer's annual return of
+ * emoluments paid and tax deducted for one state, a tax deduction card for each
+ * employee, and a month-by-month reconciliation of the PAYE deducted against
+ * the PAYE actually remitted to the state.
+ *
+ * Employees are returned to the state they lived in when paid, so an employee
+ * who moved during the year appears on each state's return for their months there.
+ */
+
+import { PayrollEntry } from "../types";
+import { payeDueDate, PayrollError, PayrollRun, stateRevenueService } from "./paye";
+
+export interface PAYERemittancePayment {
+    period: string;                  // YYYY-MM the deductions relate to
+    state: string;
+    amount: number;
+    paidOn: string;                  // YYYY-MM-DD
+    receiptNumber?: string;
+}
+
+export interface TaxDeductionCardMonth {
+    period: string;
+    grossPay: number;
+    pension: number;
+    nhf: number;
+    nhis: number;
+    paye: number;
+    cumulativeGrossPay: number;
+    cumulativePaye: number;
+}
+
+export interface PAYEReturnAmounts {
+    grossEmoluments: number;
+    pension: number;
+    nhf: number;
+    nhis: number;
+    taxDeducted: number;
+}
+
+export interface TaxDeductionCard {
+    employeeId: string;
+    employeeName: string;
+    tin?: string;
+    state: string;
+    taxYear: number;
+    months: TaxDeductionCardMonth[];
+    totals: PAYEReturnAmounts;
+}
+
+export interface PAYEReturnLine extends PAYEReturnAmounts {
+    serialNumber: number;
+    employeeId: string;
+    employeeName: string;
+    tin?: string;
+    monthsEmployed: number;
+}
+
+export type PAYERemittanceStatus = "remitted" | "under_remitted" | "over_remitted" | "not_remitted" | "nothing_due";
+
+export interface PAYEReconciliationMonth extends PayrollEntry {
+    payeDeducted: number;
+    payeRemitted: number;
+    difference: number;              // deducted - remitted; positive means PAYE still owed
+    dueDate: string;
+    lastPaidOn?: string;
+    paidLate: boolean;
+    status: PAYERemittanceStatus;
+}
+
+export interface PAYEReconciliation {
+    months: PAYEReconciliationMonth[];
+    totalDeducted: number;
+    totalRemitted: number;
+    difference: number;
+    isReconciled: boolean;
+}
+
+export interface AnnualPAYEReturn {
+    employerId: string;
+    employerName?: string;
+    taxYear: number;
+    state: string;
+    revenueService: string;
+    filingDueDate: string;           // 31 January after the year
+    lines: PAYEReturnLine[];
+    cards: TaxDeductionCard[];
+    totals: PAYEReturnAmounts & { employeeCount: number };
+    reconciliation: PAYEReconciliation;
+    generatedAt: string;
+}
+
+export interface AnnualPAYEReturnInput {
+    employerId: string;
+    employerName?: string;
+    taxYear: number;
+    state: string;
+    runs: PayrollRun[];
+    remittances: PAYERemittancePayment[];
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+const sameState = (a: string, b: string) => stateRevenueService(a) === stateRevenueService(b);
+
+const emptyAmounts = (): PAYEReturnAmounts => ({ grossEmoluments: 0, pension: 0, nhf: 0, nhis: 0, taxDeducted: 0 });
+
+function addAmounts(target: PAYEReturnAmounts, source: { grossPay: number; pension: number; nhf: number; nhis: number; paye: number }) {
+    target.grossEmoluments = round2(target.grossEmoluments + source.grossPay);
+    target.pension = round2(target.pension + source.pension);
+    target.nhf = round2(target.nhf + source.nhf);
+    target.nhis = round2(target.nhis + source.nhis);
+    target.taxDeducted = round2(target.taxDeducted + source.paye);
+}
+
+/**
+ * The states an employer must file a PAYE return with for the year.
+ */
+export function payeReturnStates(runs: PayrollRun[], taxYear: number): string[] {
+    const states: string[] = [];
+    runs.filter(run => run.taxYear === taxYear).forEach(run => run.payslips.forEach(slip => {
+        if (!states.some(state => sameState(state, slip.stateOfResidence))) {
+            states.push(slip.stateOfResidence);
+        }
+    }));
+    return states;
+}
+
+/**
+ * Matches each month's PAYE against what was paid for it. A payment for a
+ * month with no payroll run still gets a line, as an over-remittance.
+ */
+function reconcile(
+    runs: PayrollRun[],
+    remittances: PAYERemittancePayment[],
+    state: string,
+    taxYear: number
+): PAYEReconciliation {
+    const yearPayments = remittances.filter(payment => payment.period.startsWith(`${taxYear}-`));
+    const periods = Array.from(new Set([...runs.map(run => run.period), ...yearPayments.map(payment => payment.period)])).sort();
+
+    const months = periods.map(period => {
+        const payslips = runs
+            .filter(run => run.period === period)
+            .flatMap(run => run.payslips.filter(slip => sameState(slip.stateOfResidence, state)));
+        const payments = yearPayments.filter(payment => payment.period === period);
+        const payeDeducted = round2(payslips.reduce((sum, slip) => sum + slip.paye, 0));
+        const payeRemitted = round2(payments.reduce((sum, payment) => sum + payment.amount, 0));
+        const difference = round2(payeDeducted - payeRemitted);
+        const dueDate = payeDueDate(period);
+        const lastPaidOn = payments.map(payment => payment.paidOn).sort().pop();
+
+        let status: PAYERemittanceStatus;
+        if (payeDeducted === 0 && payeRemitted === 0) status = "nothing_due";
+        else if (payeRemitted === 0) status = "not_remitted";
+        else if (Math.abs(difference) < 0.01) status = "remitted";
+        else status = difference > 0 ? "under_remitted" : "over_remitted";
+
+        return {
+            month: period,
+            grossPayroll: round2(payslips.reduce((sum, slip) => sum + slip.grossPay, 0)),
+            employeeCount: payslips.length,
+            payeDeducted,
+            payeRemitted,
+            difference,
+            dueDate,
+            lastPaidOn,
+            paidLate: Boolean(lastPaidOn && lastPaidOn > dueDate),
+            status,
+        };
+    }).filter(month => month.employeeCount > 0 || month.payeRemitted > 0);
+
+    const totalDeducted = round2(months.reduce((sum, month) => sum + month.payeDeducted, 0));
+    const totalRemitted = round2(months.reduce((sum, month) => sum + month.payeRemitted, 0));
+    return {
+        months,
+        totalDeducted,
+        totalRemitted,
+        difference: round2(totalDeducted - totalRemitted),
+        isReconciled: months.every(month => month.status === "remitted" || month.status === "nothing_due"),
+    };
+}
+
+/**
+ * Builds the year's PAYE return for one state from the employer's payroll runs.
+ */
+export function buildAnnualPAYEReturn(input: AnnualPAYEReturnInput): AnnualPAYEReturn {
+    const runs = input.runs
+        .filter(run => run.taxYear === input.taxYear)
+        .sort((a, b) => a.period.localeCompare(b.period));
+    if (!runs.some(run => run.payslips.some(slip => sameState(slip.stateOfResidence, input.state)))) {
+        throw new PayrollError(`No ${input.taxYear} payroll for employees resident in ${input.state}`, 404);
+    }
+
+    const cards = new Map<string, TaxDeductionCard>();
+    runs.forEach(run => run.payslips
+        .filter(slip => sameState(slip.stateOfResidence, input.state))
+        .forEach(slip => {
+            let card = cards.get(slip.employeeId);
+            if (!card) {
+                card = { employeeId: slip.employeeId, employeeName: slip.employeeName, tin: slip.tin, state: input.state, taxYear: input.taxYear, months: [], totals: emptyAmounts() };
+                cards.set(slip.employeeId, card);
+            }
+            card.employeeName = slip.employeeName;
+            card.tin = slip.tin || card.tin;
+            addAmounts(card.totals, slip);
+            card.months.push({
+                period: slip.period,
+                grossPay: slip.grossPay,
+                pension: slip.pension,
+                nhf: slip.nhf,
+                nhis: slip.nhis,
+                paye: slip.paye,
+                cumulativeGrossPay: card.totals.grossEmoluments,
+                cumulativePaye: card.totals.taxDeducted,
+            });
+        }));
+
+    const totals = { ...emptyAmounts(), employeeCount: cards.size };
+    const lines: PAYEReturnLine[] = Array.from(cards.values()).map((card, index) => {
+        addAmounts(totals, { ...card.totals, grossPay: card.totals.grossEmoluments, paye: card.totals.taxDeducted });
+        return {
+            serialNumber: index + 1,
+            employeeId: card.employeeId,
+            employeeName: card.employeeName,
+            tin: card.tin,
+            monthsEmployed: card.months.length,
+            ...card.totals,
+        };
+    });
+
+    return {
+        employerId: input.employerId,
+        employerName: input.employerName,
+        taxYear: input.taxYear,
+        state: input.state,
+        revenueService: stateRevenueService(input.state),
+        filingDueDate: `${input.taxYear + 1}-01-31`,
+        lines,
+        cards: Array.from(cards.values()),
+        totals,
+        reconciliation: reconcile(runs, input.remittances.filter(payment => sameState(payment.state, input.state)), input.state, input.taxYear),
+        generatedAt: new Date().toISOString(),
+    };
+}
+
+function csvCell(value: string | number | undefined): string {
+    const text = value === undefined ? "" : String(value);
+    return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function csvRows(rows: (string | number | undefined)[][]): string {
+    return rows.map(row => row.map(csvCell).join(",")).join("\n") + "\n";
+}
+
+/**
+ * The return in the state IRS Form H1 layout: employer header, one row per
+ * employee, totals and the remittance reconciliation.
+ */
+export function payeReturnToCSV(payeReturn: AnnualPAYEReturn): string {
+    const { totals, reconciliation } = payeReturn;
+    return csvRows([
+        ["Form H1 - Employer's Annual Declaration and Certificate of PAYE Deductions"],
+        ["Revenue Service", payeReturn.revenueService],
+        ["Employer", payeReturn.employerName || payeReturn.employerId],
+        ["Employer TIN", payeReturn.employerId],
+        ["Year of Assessment", payeReturn.taxYear],
+        ["Filing Due Date", payeReturn.filingDueDate],
+        [],
+        ["S/N", "Employee ID", "Employee Name", "Employee TIN", "Months Employed", "Gross Emoluments", "Pension", "NHF", "NHIS", "Tax Deducted"],
+        ...payeReturn.lines.map(line => [
+            line.serialNumber, line.employeeId, line.employeeName, line.tin, line.monthsEmployed,
+            line.grossEmoluments, line.pension, line.nhf, line.nhis, line.taxDeducted,
+        ]),
+        ["", "", "TOTAL", "", totals.employeeCount, totals.grossEmoluments, totals.pension, totals.nhf, totals.nhis, totals.taxDeducted],
+        [],
+        ["Month", "Employees", "PAYE Deducted", "PAYE Remitted", "Difference", "Due Date", "Last Paid On", "Status"],
+        ...reconciliation.months.map(month => [
+            month.month, month.employeeCount, month.payeDeducted, month.payeRemitted, month.difference,
+            month.dueDate, month.lastPaidOn, month.paidLate ? `${month.status} (late)` : month.status,
+        ]),
+        ["TOTAL", "", reconciliation.totalDeducted, reconciliation.totalRemitted, reconciliation.difference],
+    ]);
+}
+
+/**
+ * An employee's tax deduction card: pay and tax deducted month by month.
+ */
+export function taxDeductionCardToCSV(card: TaxDeductionCard, employerId: string): string {
+    return csvRows([
+        ["Tax Deduction Card"],
+        ["Employer TIN", employerId],
+        ["Employee", card.employeeName],
+        ["Employee ID", card.employeeId],
+        ["Employee TIN", card.tin],
+        ["State", card.state],
+        ["Year of Assessment", card.taxYear],
+        [],
+        ["Month", "Gross Pay", "Pension", "NHF", "NHIS", "Tax Deducted", "Cumulative Gross Pay", "Cumulative Tax"],
+        ...card.months.map(month => [
+            month.period, month.grossPay, month.pension, month.nhf, month.nhis, month.paye, month.cumulativeGrossPay, month.cumulativePaye,
+        ]),
+        ["TOTAL", card.totals.grossEmoluments, card.totals.pension, card.totals.nhf, card.totals.nhis, card.totals.taxDeducted],
+    ]);
+}
@@ -0,0 +1,176 @@
+import path from "path";
+import { PayrollEmployee, PayrollError, PayrollRun, PayrollRunOptions, runPayroll } from "./paye";
+import { AnnualPAYEReturn, buildAnnualPAYEReturn, PAYERemittancePayment } from "./payeReturn";
+import { createJsonStore, requireText } from "./jsonStore";
+
+/**
+ * Payroll Store
+ *
+ * Keeps each employer's employee records, the payroll runs made for them and
+ * the PAYE actually paid to each state. Re-running a month replaces the earlier
+ * run for that month.
+ */
+
+export interface EmployerPayroll {
+    employerId: string;          // e.g. employer TIN
+    employees: PayrollEmployee[];
+    runs: PayrollRun[];
+    payePayments?: PAYERemittancePayment[];
+    updatedAt: string;
+}
+
+interface PayrollFile {
+    employers: EmployerPayroll[];
+}
+
+const PAYROLL_FILE = process.env.PAYROLL_FILE || path.join(process.cwd(), "data", "payroll.json");
+
+const store = createJsonStore<PayrollFile>({ file: PAYROLL_FILE, description: "payroll store", empty: () => ({ employers: [] }) });
+
+function employerFor(employerId: string): EmployerPayroll {
+    const existing = store.load().employers.find(employer => employer.employerId === employerId);
+    if (existing) {
+        return existing;
+    }
+
+    const employer: EmployerPayroll = { employerId, employees: [], runs: [], updatedAt: new Date().toISOString() };
+    store.load().employers.push(employer);
+    return employer;
+}
+
+const MONEY_FIELDS = ["basicSalary", "housingAllowance", "transportAllowance", "otherAllowances", "annualRentPaid"] as const;
+const RATE_FIELDS = ["employeePensionRate", "employerPensionRate"] as const;
+const DATE_FIELDS = ["startDate", "exitDate"] as const;
+
+function validateEmployee(employee: PayrollEmployee): void {
+    if (!employee || typeof employee.id !== "string" || !employee.id.trim()) {
+        throw new PayrollError("Employee id is required");
+    }
+    if (typeof employee.name !== "string" || !employee.name.trim()) {
+        throw new PayrollError(`Employee ${employee.id} needs a name`);
+    }
+    if (typeof employee.stateOfResidence !== "string" || !employee.stateOfResidence.trim()) {
+        throw new PayrollError(`Employee ${employee.id} needs a state of residence for PAYE`);
+    }
+    MONEY_FIELDS.forEach(field => {
+        const value = employee[field];
+        if (value !== undefined && (typeof value !== "number" || !Number.isFinite(value) || value < 0)) {
+            throw new PayrollError(`${field} for employee ${employee.id} must be a non-negative number`);
+        }
+    });
+    RATE_FIELDS.forEach(field => {
+        const value = employee[field];
+        if (value !== undefined && (typeof value !== "number" || value < 0 || value > 1)) {
+            throw new PayrollError(`${field} for employee ${employee.id} must be a fraction between 0 and 1`);
+        }
+    });
+    DATE_FIELDS.forEach(field => {
+        const value = employee[field];
+        if (value !== undefined && (typeof value !== "string" || Number.isNaN(new Date(value).getTime()))) {
+            throw new PayrollError(`${field} for employee ${employee.id} must be a date`);
+        }
+    });
+    if (employee.startDate && employee.exitDate && employee.exitDate < employee.startDate) {
+        throw new PayrollError(`Employee ${employee.id} cannot leave before they start`);
+    }
+}
+
+export function getEmployerPayroll(employerId: string): EmployerPayroll | undefined {
+    return store.load().employers.find(employer => employer.employerId === employerId.trim());
+}
+
+/**
+ * Adds an employee, or replaces the record with the same staff id.
+ */
+export function saveEmployee(employerId: string, employee: PayrollEmployee): EmployerPayroll {
+    validateEmployee(employee);
+    const employer = employerFor(requireText(employerId, "employerId", PayrollError));
+
+    const record: PayrollEmployee = { ...employee, id: employee.id.trim(), name: employee.name.trim() };
+    const index = employer.employees.findIndex(candidate => candidate.id === record.id);
+    if (index >= 0) {
+        employer.employees[index] = record;
+    } else {
+        employer.employees.push(record);
+    }
+    store.touch(employer);
+    return employer;
+}
+
+export function removeEmployee(employerId: string, employeeId: string): EmployerPayroll {
+    const employer = getEmployerPayroll(requireText(employerId, "employerId", PayrollError));
+    if (!employer || !employer.employees.some(employee => employee.id === employeeId)) {
+        throw new PayrollError(`No employee ${employeeId} on the payroll for ${employerId}`, 404);
+    }
+
+    employer.employees = employer.employees.filter(employee => employee.id !== employeeId);
+    store.touch(employer);
+    return employer;
+}
+
+/**
+ * Runs the month's payroll for the employer's current employees and stores it.
+ */
+export function recordPayrollRun(employerId: string, options: PayrollRunOptions): PayrollRun {
+    const employer = getEmployerPayroll(requireText(employerId, "employerId", PayrollError));
+    if (!employer || employer.employees.length === 0) {
+        throw new PayrollError(`No employees on the payroll for ${employerId}`, 404);
+    }
+
+    const run = runPayroll(employer.employees, options);
+    employer.runs = employer.runs
+        .filter(existing => existing.period !== run.period)
+        .concat(run)
+        .sort((a, b) => a.period.localeCompare(b.period));
+    store.touch(employer);
+    return run;
+}
+
+export function getPayrollRun(employerId: string, period: string): PayrollRun | undefined {
+    return getEmployerPayroll(employerId)?.runs.find(run => run.period === period);
+}
+
+/**
+ * Records PAYE paid to a state for a month, as shown on the state's receipt.
+ */
+export function recordPAYERemittance(employerId: string, payment: PAYERemittancePayment): EmployerPayroll {
+    if (!/^\d{4}-(0[1-9]|1[0-2])$/.test(payment.period || "")) {
+        throw new PayrollError("period must be in YYYY-MM format");
+    }
+    if (typeof payment.state !== "string" || !payment.state.trim()) {
+        throw new PayrollError("state is required");
+    }
+    if (typeof payment.amount !== "number" || !Number.isFinite(payment.amount) || payment.amount <= 0) {
+        throw new PayrollError("amount must be a positive number");
+    }
+    if (typeof payment.paidOn !== "string" || Number.isNaN(new Date(payment.paidOn).getTime())) {
+        throw new PayrollError("paidOn must be a date");
+    }
+    const employer = getEmployerPayroll(requireText(employerId, "employerId", PayrollError));
+    if (!employer) {
+        throw new PayrollError(`No payroll for ${employerId}`, 404);
+    }
+
+    employer.payePayments = (employer.payePayments || []).concat({ ...payment, state: payment.state.trim() });
+    store.touch(employer);
+    return employer;
+}
+
+/**
+ * Builds the employer's annual PAYE return for a state from its stored runs and payments.
+ */
+export function getAnnualPAYEReturn(employerId: string, taxYear: number, state: string, employerName?: string): AnnualPAYEReturn {
+    const employer = getEmployerPayroll(requireText(employerId, "employerId", PayrollError));
+    if (!employer) {
+        throw new PayrollError(`No payroll for ${employerId}`, 404);
+    }
+
+    return buildAnnualPAYEReturn({
+        employerId: employer.employerId,
+        employerName,
+        taxYear,
+        state,
+        runs: employer.runs,
+        remittances: employer.payePayments || [],
+    });
+}
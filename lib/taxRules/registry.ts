@@ -0,0 +1,179 @@
+import type { Jurisdiction, TaxRuleBook } from "./rulebook";
+import { assertValidRuleBook } from "./rulebookSchema";
+
+// Every rulebook under data/rules is bundled here so resolution works on both
+// server and client. `discoverRuleBookFiles()` (server only) cross-checks this list.
+import ng_federal_2024 from "../../data/rules/ng_federal_2024.json";
+import ng_federal_2026 from "../../data/rules/ng_federal_2026.json";
+
+/**
+ * Tax Rulebook Registry
+ * Indexes rulebooks by jurisdiction, tax year and effective period, and resolves
+ * the rulebook in force for a given transaction date.
+ */
+
+export interface RuleBookEntry {
+    id: string;                 // file name without extension, e.g. "ng_federal_2024"
+    rulebook: TaxRuleBook;
+}
+
+export interface RuleBookReference {
+    id: string;
+    jurisdiction: Jurisdiction;
+    taxYear: string;
+    version: string;
+    effectiveDate: string;
+    expiryDate?: string;
+}
+
+export interface RuleBookQuery {
+    jurisdiction?: Jurisdiction;
+    date: string | Date;        // transaction or period date
+}
+
+export interface ResolvedRuleBook {
+    entry: RuleBookEntry;
+    reference: RuleBookReference;
+    requestedJurisdiction: Jurisdiction;
+    usedFederalFallback: boolean;
+}
+
+export class RuleBookNotFoundError extends Error {
+    constructor(public readonly jurisdiction: Jurisdiction, public readonly date: string) {
+        super(`No tax rulebook covers ${jurisdiction} on ${date}. Add a rulebook to data/rules for this period.`);
+        this.name = "RuleBookNotFoundError";
+    }
+}
+
+const BUNDLED_RULEBOOKS: RuleBookEntry[] = [
+    { id: "ng_federal_2024", rulebook: ng_federal_2024 as TaxRuleBook },
+    { id: "ng_federal_2026", rulebook: ng_federal_2026 as TaxRuleBook },
+];
+
+// jurisdiction -> entries sorted by effective date (newest first)
+const index = new Map<Jurisdiction, RuleBookEntry[]>();
+
+function toISODate(date: string | Date): string {
+    if (date instanceof Date) {
+        return date.toISOString().split("T")[0];
+    }
+    return date.split("T")[0];
+}
+
+// ids of rulebooks that passed schema validation
+const validated = new Set<string>();
+
+function indexEntry(entry: RuleBookEntry) {
+    validated.delete(entry.id);
+    const jurisdiction = entry.rulebook.metadata.jurisdiction;
+    const entries = (index.get(jurisdiction) || []).filter(existing => existing.id !== entry.id);
+    entries.push(entry);
+    entries.sort((a, b) => b.rulebook.metadata.effective_date.localeCompare(a.rulebook.metadata.effective_date));
+    index.set(jurisdiction, entries);
+}
+
+BUNDLED_RULEBOOKS.forEach(indexEntry);
+
+/**
+ * Validates a rulebook the first time it is handed out, so one bad file only
+ * fails the periods it covers. Throws RuleBookValidationError.
+ */
+function ensureValid(entry: RuleBookEntry): RuleBookEntry {
+    if (!validated.has(entry.id)) {
+        assertValidRuleBook(entry.id, entry.rulebook);
+        validated.add(entry.id);
+    }
+    return entry;
+}
+
+/**
+ * Registers (or replaces) a rulebook in the registry.
+ */
+export function registerRuleBook(id: string, rulebook: TaxRuleBook): void {
+    indexEntry({ id, rulebook });
+}
+
+/**
+ * Lists every registered rulebook, optionally filtered by jurisdiction.
+ */
+export function listRuleBooks(jurisdiction?: Jurisdiction): RuleBookEntry[] {
+    if (jurisdiction) {
+        return [...(index.get(jurisdiction) || [])];
+    }
+    return Array.from(index.values()).flat();
+}
+
+/**
+ * Looks up a registered rulebook by id (file name), e.g. "ng_federal_2026".
+ */
+export function getRuleBookById(id: string): RuleBookEntry | undefined {
+    const entry = listRuleBooks().find(candidate => candidate.id === id);
+    return entry ? ensureValid(entry) : undefined;
+}
+
+export function getRuleBookReference(entry: RuleBookEntry): RuleBookReference {
+    const { metadata } = entry.rulebook;
+    return {
+        id: entry.id,
+        jurisdiction: metadata.jurisdiction,
+        taxYear: metadata.tax_year,
+        version: metadata.version,
+        effectiveDate: metadata.effective_date,
+        expiryDate: metadata.expiry_date,
+    };
+}
+
+function coversDate(rulebook: TaxRuleBook, date: string): boolean {
+    const { effective_date, expiry_date } = rulebook.metadata;
+    return effective_date <= date && (!expiry_date || date <= expiry_date);
+}
+
+function findInJurisdiction(jurisdiction: Jurisdiction, date: string): RuleBookEntry | undefined {
+    return (index.get(jurisdiction) || []).find(entry => coversDate(entry.rulebook, date));
+}
+
+/**
+ * Resolves the rulebook in force for a jurisdiction on a given date.
+ * State jurisdictions without their own rulebook resolve to the Federal rulebook
+ * (PITA/CITA apply nationally); the fallback is flagged on the result.
+ */
+export function resolveRuleBook(query: RuleBookQuery): ResolvedRuleBook {
+    const jurisdiction = query.jurisdiction || "Federal";
+    const date = toISODate(query.date);
+
+    let entry = findInJurisdiction(jurisdiction, date);
+    let usedFederalFallback = false;
+
+    if (!entry && jurisdiction !== "Federal") {
+        entry = findInJurisdiction("Federal", date);
+        usedFederalFallback = Boolean(entry);
+    }
+
+    if (!entry) {
+        throw new RuleBookNotFoundError(jurisdiction, date);
+    }
+
+    return {
+        entry: ensureValid(entry),
+        reference: getRuleBookReference(entry),
+        requestedJurisdiction: jurisdiction,
+        usedFederalFallback,
+    };
+}
+
+const STATE_JURISDICTIONS: Jurisdiction[] = ["Lagos", "Ogun", "Rivers", "Kano"];
+
+/**
+ * Maps a state of residence (e.g. "Lagos") to a rulebook jurisdiction.
+ */
+export function jurisdictionForState(stateOfResidence?: string): Jurisdiction {
+    const match = STATE_JURISDICTIONS.find(j => j.toLowerCase() === (stateOfResidence || "").trim().toLowerCase());
+    return match || "Federal";
+}
+
+/**
+ * Resolves the rulebook for a tax year, using the law in force at the start of the year.
+ */
+export function resolveRuleBookForYear(year: string | number, jurisdiction: Jurisdiction = "Federal"): ResolvedRuleBook {
+    return resolveRuleBook({ jurisdiction, date: `${year}-01-01` });
+}
@@ -0,0 +1,85 @@
+/**
+ * Rule Overrides
+ *
+ * The approved live-rate override set (see overrideHistory) laid over a
+ * rulebook, so a computation uses the rates it reports whichever entry point
+ * runs it. The server registers the set when it loads or activates one and the
+ * client when it hydrates from /api/tax-rules; this module does no file access
+ * so both can use it.
+ */
+
+import type { PITBand, CITConfig } from "./config";
+import type { TaxRule, TaxRuleBook } from "./rulebook";
+
+export interface TaxRuleOverrides {
+    pitBands?: PITBand[];
+    craFixedAmount?: number;
+    craPercentageOfGross?: number;
+    craAdditionalPercentage?: number;
+    citConfig?: Partial<CITConfig>;
+    vatRate?: number;
+    minimumTaxRate?: number;
+    version?: string;
+    source?: string;
+    lastUpdated?: string;
+    remoteUrl?: string;
+    overrideVersion?: number;
+}
+
+// Override field → the constant rule it replaces
+const CONSTANT_RULES: [(overrides: TaxRuleOverrides) => number | undefined, string][] = [
+    [overrides => overrides.craFixedAmount, "CRA_FIXED"],
+    [overrides => overrides.craPercentageOfGross, "CRA_PERCENTAGE"],
+    [overrides => overrides.craAdditionalPercentage, "CRA_ADDITIONAL"],
+    [overrides => overrides.citConfig?.smallCompanyThreshold, "CIT_SMALL_THRESHOLD"],
+    [overrides => overrides.citConfig?.smallCompanyRate, "CIT_SMALL_RATE"],
+    [overrides => overrides.citConfig?.mediumCompanyThreshold, "CIT_MEDIUM_THRESHOLD"],
+    [overrides => overrides.citConfig?.mediumCompanyRate, "CIT_MEDIUM_RATE"],
+    [overrides => overrides.citConfig?.largeCompanyRate, "CIT_LARGE_RATE"],
+    [overrides => overrides.vatRate, "VAT_RATE"],
+    [overrides => overrides.minimumTaxRate, "MINIMUM_TAX_RATE"],
+];
+
+let activeOverrides: TaxRuleOverrides | null = null;
+
+export function setActiveRuleOverrides(overrides: TaxRuleOverrides | null): void {
+    activeOverrides = overrides;
+}
+
+export function getActiveRuleOverrides(): TaxRuleOverrides | null {
+    return activeOverrides;
+}
+
+/**
+ * Copy of `rulebook` with the overridden rates in place of its own. Only rules
+ * the rulebook defines are replaced, so a CITA medium-company override does not
+ * add a medium tier to an NTA 2025 rulebook.
+ */
+export function applyOverridesToRuleBook(rulebook: TaxRuleBook, overrides: TaxRuleOverrides | null | undefined): TaxRuleBook {
+    if (!overrides) {
+        return rulebook;
+    }
+
+    const rules: Record<string, TaxRule> = { ...rulebook.rules };
+    CONSTANT_RULES.forEach(([pick, ruleKey]) => {
+        const value = pick(overrides);
+        if (typeof value === "number" && Number.isFinite(value) && rules[ruleKey]) {
+            rules[ruleKey] = { ...rules[ruleKey], type: "constant", formula: String(value) };
+        }
+    });
+
+    const bandsKey = rules.PIT_BANDS ? "PIT_BANDS" : rules.PIT_BANDS_2024 ? "PIT_BANDS_2024" : undefined;
+    if (bandsKey && overrides.pitBands?.length) {
+        // Rulebook bands hold each band's width; overrides hold its upper limit
+        let lower = 0;
+        const bands = overrides.pitBands.map(band => {
+            const upper = typeof band.upperLimit === "number" ? band.upperLimit : Infinity;
+            const threshold = upper - lower;
+            lower = upper;
+            return { label: band.label, threshold, rate: band.rate };
+        });
+        rules[bandsKey] = { ...rules[bandsKey], bands };
+    }
+
+    return { ...rulebook, rules };
+}
@@ -1,5 +1,5 @@
-// Statically import core rulebooks to support both server and client-side execution
-import ng_federal_2024 from "../../data/rules/ng_federal_2024.json";
+import { resolveRuleBookForYear } from "./registry";
+import { evaluateNode, parseFormula, FormulaError } from "./formula";
 
 export type Jurisdiction = "Federal" | "Lagos" | "Ogun" | "Rivers" | "Kano" | "Other";
 export type RoundingMethod = "bankers" | "nearest_naira" | "floor" | "ceil" | "two_decimal";
@@ -43,6 +43,7 @@ export interface RuleBookMetadata {
 
 export interface TaxRuleBook {
     metadata: RuleBookMetadata;
+    variables?: string[];          // extra context variables formulas may reference
     citations?: LegalCitation[];
     rules: Record<string, TaxRule>;
 }
@@ -66,49 +67,55 @@ export interface EnhancedTaxResult {
 }
 
 /**
- * Loads a rulebook based on year and jurisdiction.
- * Uses static imports for client-side support.
+ * Loads the rulebook in force for a tax year and jurisdiction.
+ * Throws RuleBookNotFoundError when no registered rulebook covers the year.
+ * Use resolveRuleBook() from ./registry when the caller needs to know which file was used.
  */
 export function loadRuleBook(year: string, jurisdiction: Jurisdiction = "Federal"): TaxRuleBook {
-    // For now, we only have 2024 Federal. We registry them here.
-    const rulebookMap: Record<string, any> = {
-        "Federal_2024": ng_federal_2024,
-        "Lagos_2024": ng_federal_2024, // Fallback for demo
-    };
-
-    const key = `${jurisdiction}_${year}`;
-    const rulebook = rulebookMap[key] || rulebookMap["Federal_2024"];
+    return resolveRuleBookForYear(year, jurisdiction).entry.rulebook;
+}
 
-    if (!rulebook) {
-        throw new Error(`CRITICAL: Tax rulebook missing for ${jurisdiction} in ${year}.`);
-    }
+/**
+ * Evaluates a rulebook formula against a context of engine variables.
+ * Identifiers not in the context are resolved as references to other rules
+ * when `rules` is supplied. Throws FormulaError (with position) on bad input
+ * instead of silently returning 0.
+ */
+export function evaluateFormula(
+    formula: string,
+    context: Record<string, number>,
+    rules?: Record<string, TaxRule>
+): number {
+    const resolving = new Set<string>();
+
+    const evaluate = (expression: string): number =>
+        evaluateNode(parseFormula(expression), expression, name => {
+            if (name in context) return context[name];
+            const rule = rules?.[name];
+            if (!rule || resolving.has(name)) return undefined;
+            resolving.add(name);
+            try {
+                return evaluate(rule.formula);
+            } finally {
+                resolving.delete(name);
+            }
+        });
 
-    return rulebook as TaxRuleBook;
+    return evaluate(formula);
 }
 
 /**
- * Simple expression evaluator for the tax engine.
- * Supports basic math and variable substitution.
+ * Evaluates a rule by key, resolving references to other rules in the same rulebook.
  */
-export function evaluateFormula(formula: string, context: Record<string, number>): number {
-    // Replace variables with their values
-    let processed = formula;
-    for (const [key, value] of Object.entries(context)) {
-        // Use regex to avoid partial matches (e.g., 'income' matching 'gross_income')
-        const regex = new RegExp(`\\b${key}\\b`, 'g');
-        processed = processed.replace(regex, value.toString());
+export function evaluateRule(rulebook: TaxRuleBook, ruleKey: string, context: Record<string, number> = {}): number {
+    const rule = rulebook.rules[ruleKey];
+    if (!rule) {
+        throw new Error(`Rule ${ruleKey} is not defined in rulebook ${rulebook.metadata.version}`);
     }
-
     try {
-        // Safety check: only allow numbers, math operators, and parentheses
-        if (/[^0-9+\-*/().\s]/.test(processed)) {
-            throw new Error(`Unsafe characters in evaluated formula: ${processed}`);
-        }
-        // eslint-disable-next-line no-new-func
-        return new Function(`return ${processed}`)();
+        return evaluateFormula(rule.formula, context, rulebook.rules);
     } catch (error) {
-        console.error(`Failed to evaluate formula: ${formula} (processed: ${processed})`, error);
-        return 0;
+        throw error instanceof FormulaError ? error.withRuleKey(ruleKey) : error;
     }
 }
 
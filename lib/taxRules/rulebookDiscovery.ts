@@ -0,0 +1,65 @@
+import fs from "fs";
+import path from "path";
+import type { TaxRuleBook } from "./rulebook";
+import { listRuleBooks, registerRuleBook } from "./registry";
+
+/**
+ * Server-side rulebook discovery.
+ * Walks data/rules for JSON rulebooks so new files can be registered (and checked
+ * against the bundled registry) without editing code paths that run in the browser.
+ */
+
+export const RULEBOOK_DIR = path.join(process.cwd(), "data", "rules");
+
+export interface DiscoveredRuleBook {
+    id: string;
+    filePath: string;
+    rulebook: TaxRuleBook;
+}
+
+/**
+ * Returns every *.json file under the rules directory, recursively.
+ */
+export function discoverRuleBookFiles(rootDir: string = RULEBOOK_DIR): string[] {
+    if (!fs.existsSync(rootDir)) {
+        return [];
+    }
+
+    const files: string[] = [];
+    for (const dirent of fs.readdirSync(rootDir, { withFileTypes: true })) {
+        const fullPath = path.join(rootDir, dirent.name);
+        if (dirent.isDirectory()) {
+            files.push(...discoverRuleBookFiles(fullPath));
+        } else if (dirent.isFile() && dirent.name.endsWith(".json")) {
+            files.push(fullPath);
+        }
+    }
+    return files.sort();
+}
+
+export function readRuleBookFile(filePath: string): DiscoveredRuleBook {
+    const raw = fs.readFileSync(filePath, "utf-8");
+    return {
+        id: path.basename(filePath, ".json"),
+        filePath,
+        rulebook: JSON.parse(raw) as TaxRuleBook,
+    };
+}
+
+/**
+ * Registers every rulebook found on disk that is not already bundled.
+ * Returns the ids of newly registered rulebooks.
+ */
+export function registerRuleBooksFromDisk(rootDir: string = RULEBOOK_DIR): string[] {
+    const known = new Set(listRuleBooks().map(entry => entry.id));
+    const added: string[] = [];
+
+    for (const filePath of discoverRuleBookFiles(rootDir)) {
+        const discovered = readRuleBookFile(filePath);
+        if (known.has(discovered.id)) continue;
+        registerRuleBook(discovered.id, discovered.rulebook);
+        added.push(discovered.id);
+    }
+
+    return added;
+}
@@ -0,0 +1,183 @@
+import { z } from "zod";
+import type { TaxRuleBook } from "./rulebook";
+import { validateRuleBookFormulas, FormulaError } from "./formula";
+
+/**
+ * Rulebook Schema & Validation
+ * Structural checks via zod, then semantic checks a schema cannot express:
+ * citations resolve, progressive bands are well ordered, rates sit in [0, 1]
+ * and every formula parses against known identifiers.
+ */
+
+const isoDate = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "must be an ISO date (YYYY-MM-DD)");
+const rate = z.number().min(0, "rate must be between 0 and 1").max(1, "rate must be between 0 and 1");
+
+export const TaxBandSchema = z.object({
+    label: z.string().min(1, "band label is required"),
+    threshold: z.number().positive("threshold must be a positive band width"),
+    rate,
+});
+
+export const TaxRuleSchema = z.object({
+    type: z.enum(["constant", "expression", "progressive_bands", "min_tax"]),
+    formula: z.string().min(1, "formula is required"),
+    description: z.string().optional(),
+    citation_id: z.string().optional(),
+    rounding: z.enum(["bankers", "nearest_naira", "floor", "ceil", "two_decimal"]).optional(),
+    caps: z.object({
+        max_amount: z.number().nonnegative().optional(),
+        max_percentage_of: z.string().optional(),
+    }).optional(),
+    bands: z.array(TaxBandSchema).optional(),
+});
+
+export const LegalCitationSchema = z.object({
+    id: z.string().min(1),
+    law: z.string().min(1),
+    section: z.string().min(1),
+    document_url: z.string().optional(),
+    text: z.string(),
+});
+
+export const RuleBookMetadataSchema = z.object({
+    tax_year: z.string().regex(/^\d{4}$/, "tax_year must be a four-digit year"),
+    jurisdiction: z.enum(["Federal", "Lagos", "Ogun", "Rivers", "Kano", "Other"]),
+    version: z.string().min(1),
+    effective_date: isoDate,
+    expiry_date: isoDate.optional(),
+    legal_reference: z.string().optional(),
+});
+
+export const TaxRuleBookSchema = z.object({
+    metadata: RuleBookMetadataSchema,
+    variables: z.array(z.string()).optional(),
+    citations: z.array(LegalCitationSchema).optional(),
+    rules: z.record(z.string(), TaxRuleSchema),
+});
+
+export type RuleBookIssueSeverity = "error" | "warning";
+
+export interface RuleBookIssue {
+    path: string;          // e.g. "rules.PIT_BANDS.bands[2].rate"
+    message: string;
+    severity: RuleBookIssueSeverity;
+}
+
+export interface RuleBookValidationResult {
+    valid: boolean;
+    issues: RuleBookIssue[];
+    rulebook?: TaxRuleBook;
+}
+
+export class RuleBookValidationError extends Error {
+    constructor(public readonly rulebookId: string, public readonly issues: RuleBookIssue[]) {
+        super(`Rulebook ${rulebookId} is invalid:\n${formatRuleBookIssues(issues)}`);
+        this.name = "RuleBookValidationError";
+    }
+}
+
+function formatPath(path: PropertyKey[]): string {
+    return path.reduce<string>((acc, part) => {
+        if (typeof part === "number") return `${acc}[${part}]`;
+        return acc ? `${acc}.${String(part)}` : String(part);
+    }, "");
+}
+
+export function formatRuleBookIssues(issues: RuleBookIssue[]): string {
+    return issues
+        .map(issue => `  - [${issue.severity}] ${issue.path || "(root)"}: ${issue.message}`)
+        .join("\n");
+}
+
+function checkSemantics(rulebook: TaxRuleBook): RuleBookIssue[] {
+    const issues: RuleBookIssue[] = [];
+    const error = (path: string, message: string) => issues.push({ path, message, severity: "error" });
+    const warning = (path: string, message: string) => issues.push({ path, message, severity: "warning" });
+
+    const { metadata } = rulebook;
+    if (metadata.expiry_date && metadata.expiry_date < metadata.effective_date) {
+        error("metadata.expiry_date", `expiry date ${metadata.expiry_date} is before effective date ${metadata.effective_date}`);
+    }
+
+    const citationIds = new Set<string>();
+    (rulebook.citations || []).forEach((citation, index) => {
+        if (citationIds.has(citation.id)) {
+            error(`citations[${index}].id`, `duplicate citation id "${citation.id}"`);
+        }
+        citationIds.add(citation.id);
+    });
+
+    for (const [key, rule] of Object.entries(rulebook.rules)) {
+        const path = `rules.${key}`;
+
+        if (rule.citation_id && !citationIds.has(rule.citation_id)) {
+            error(`${path}.citation_id`, `citation "${rule.citation_id}" is not defined in citations`);
+        }
+
+        if (rule.type === "progressive_bands") {
+            const bands = rule.bands || [];
+            if (bands.length === 0) {
+                error(`${path}.bands`, "progressive_bands rule has no bands");
+            }
+            bands.forEach((band, index) => {
+                if (index > 0 && band.rate < bands[index - 1].rate) {
+                    error(`${path}.bands[${index}].rate`, `rate ${band.rate} is lower than the previous band (${bands[index - 1].rate}); bands must be ordered by ascending rate`);
+                }
+            });
+        } else if (rule.bands) {
+            warning(`${path}.bands`, `bands are ignored for rules of type "${rule.type}"`);
+        }
+
+        if (/_RATE$/.test(key) && rule.type === "constant") {
+            const value = Number(rule.formula);
+            if (!Number.isNaN(value) && (value < 0 || value > 1)) {
+                error(`${path}.formula`, `rate ${value} must be between 0 and 1`);
+            }
+        }
+    }
+
+    try {
+        validateRuleBookFormulas(rulebook);
+    } catch (e) {
+        if (!(e instanceof FormulaError)) throw e;
+        error(e.ruleKey ? `rules.${e.ruleKey}.formula` : "rules", `${e.reason} at position ${e.position} in "${e.formula}"`);
+    }
+
+    return issues;
+}
+
+/**
+ * Validates raw rulebook JSON. Semantic checks only run once the structure is valid.
+ */
+export function validateRuleBook(data: unknown): RuleBookValidationResult {
+    const parsed = TaxRuleBookSchema.safeParse(data);
+    if (!parsed.success) {
+        return {
+            valid: false,
+            issues: parsed.error.issues.map(issue => ({
+                path: formatPath(issue.path),
+                message: issue.message,
+                severity: "error" as const,
+            })),
+        };
+    }
+
+    const rulebook = parsed.data as TaxRuleBook;
+    const issues = checkSemantics(rulebook);
+    return {
+        valid: !issues.some(issue => issue.severity === "error"),
+        issues,
+        rulebook,
+    };
+}
+
+/**
+ * Validates a rulebook and throws a RuleBookValidationError listing every error.
+ */
+export function assertValidRuleBook(id: string, data: unknown): TaxRuleBook {
+    const result = validateRuleBook(data);
+    if (!result.valid || !result.rulebook) {
+        throw new RuleBookValidationError(id, result.issues.filter(issue => issue.severity === "error"));
+    }
+    return result.rulebook;
+}
@@ -1,8 +1,9 @@
 import {
-    loadRuleBook,
-    evaluateFormula,
+    evaluateRule,
+    Jurisdiction,
     ReconciliationRow
 } from "./rulebook";
+import { resolveRuleBookForYear, RuleBookReference } from "./registry";
 
 /**
  * Stamp Duties Calculator for Nigeria (V2 - Rulebook Driven)
@@ -32,6 +33,7 @@ export interface StampDutyResult {
     transactionValue: number;
     stampDuty: number;
     reconciliationReport: ReconciliationRow[];
+    rulebook: RuleBookReference;
     note: string;
 }
 
@@ -40,8 +42,9 @@ export interface StampDutyResult {
  */
 export function calculateStampDuty(input: StampDutyInput): StampDutyResult {
     const year = (input.taxYear || 2024).toString();
-    const jurisdiction = (input.jurisdiction || "Federal") as any;
-    const rulebook = loadRuleBook(year, jurisdiction);
+    const jurisdiction = (input.jurisdiction || "Federal") as Jurisdiction;
+    const resolved = resolveRuleBookForYear(year, jurisdiction);
+    const rulebook = resolved.entry.rulebook;
     const reconciliationReport: ReconciliationRow[] = [];
 
     let stampDuty = 0;
@@ -54,14 +57,14 @@ export function calculateStampDuty(input: StampDutyInput): StampDutyResult {
         case 'agreement':
             ruleKey = "STAMP_AGREEMENT_FIXED";
             label = "Fixed Duty on Agreement";
-            stampDuty = evaluateFormula(rulebook.rules[ruleKey].formula, {});
+            stampDuty = evaluateRule(rulebook, ruleKey);
             formula = `Fixed: ${stampDuty.toLocaleString()}`;
             break;
 
         case 'deed':
             ruleKey = "STAMP_DEED_RATE";
             label = "Ad Valorem Duty on Deed (1.5%)";
-            const deedRate = evaluateFormula(rulebook.rules[ruleKey].formula, {});
+            const deedRate = evaluateRule(rulebook, ruleKey);
             stampDuty = input.transactionValue * deedRate;
             formula = `${input.transactionValue.toLocaleString()} * ${deedRate}`;
             break;
@@ -69,7 +72,7 @@ export function calculateStampDuty(input: StampDutyInput): StampDutyResult {
         case 'mortgage':
             ruleKey = "STAMP_MORTGAGE_RATE";
             label = "Ad Valorem Duty on Mortgage (0.375%)";
-            const mortgageRate = evaluateFormula(rulebook.rules[ruleKey].formula, {});
+            const mortgageRate = evaluateRule(rulebook, ruleKey);
             stampDuty = input.transactionValue * mortgageRate;
             formula = `${input.transactionValue.toLocaleString()} * ${mortgageRate}`;
             break;
@@ -96,6 +99,7 @@ export function calculateStampDuty(input: StampDutyInput): StampDutyResult {
         transactionValue: input.transactionValue,
         stampDuty,
         reconciliationReport,
-        note: `Stamp duty calculated per rulebook ${rulebook.metadata.version}`
+        rulebook: resolved.reference,
+        note: `Stamp duty calculated per rulebook ${resolved.reference.id} v${rulebook.metadata.version}`
     };
 }
@@ -0,0 +1,483 @@
+/**
+ * Tax Calendar
+ *
+ * Lays out a taxpayer's filing and payment deadlines: the monthly VAT, WHT and
+ * PAYE remittances and the annual income tax return, CIT falling due six months
+ * after the financial year end and PIT by 31 March after the calendar year. A
+ * company may pay CIT in instalments, the last no later than two months before
+ * the end of the following financial year.
+ *
+ * WHT is remitted to FIRS or to a state IRS depending on who it was deducted
+ * from, so each month has a WHT entry per authority the deductions go to.
+ *
+ * Entries not filed or paid by their due date attract the statutory late-filing
+ * penalty, a percentage penalty on the tax unpaid and simple interest at the
+ * CBN monetary policy rate until it is paid, all as set in the rulebook in
+ * force on the due date.
+ */
+
+import { TaxpayerType } from "../types";
+import { JournalEntry } from "../accounting/doubleEntry";
+import { payeDueDate, stateRevenueService } from "./paye";
+import { evaluateRule } from "./rulebook";
+import { resolveRuleBook } from "./registry";
+import { vatDueDate } from "./vatReturn";
+import { WHTDeduction, whtAuthority, whtAuthorityCode, whtDueDate } from "./whtRemittance";
+import { StatusError } from "../errors";
+
+export type TaxCalendarTaxType = "VAT" | "WHT" | "PAYE" | "CIT" | "PIT";
+
+// A monthly remittance is filed and paid together; CIT paid in instalments is
+// split into the return and the instalment payments
+export type TaxObligation = "return_and_payment" | "return" | "payment";
+
+export type TaxCalendarStatus = "upcoming" | "due_soon" | "overdue" | "filed" | "paid";
+
+export interface TaxCalendarProfile {
+    taxpayerType: TaxpayerType;
+    stateOfResidence: string;
+    fiscalYearEnd?: string;          // MM-DD, defaults to 12-31
+    isVATRegistered: boolean;
+    deductsWHT?: boolean;
+    hasEmployees?: boolean;
+    citInstalments?: number;         // 1 = lump sum with the return
+}
+
+export interface TaxFilingRecord {
+    entryId: string;
+    filedOn?: string;                // YYYY-MM-DD
+    paidOn?: string;                 // YYYY-MM-DD, when the amount due was settled in full
+    amountDue?: number;
+    amountPaid?: number;
+}
+
+export interface LatePenalty {
+    daysLate: number;
+    monthsLate: number;              // months or part months after the due date
+    lateFilingPenalty: number;
+    latePaymentPenalty: number;
+    interest: number;
+    total: number;
+    citation: string;
+}
+
+export interface TaxCalendarEntry {
+    id: string;
+    taxType: TaxCalendarTaxType;
+    obligation: TaxObligation;
+    period: string;                  // YYYY-MM for monthly returns, YYYY for annual
+    description: string;
+    authority: string;
+    dueDate: string;
+    daysUntilDue: number;            // negative once past due
+    instalment?: { number: number; of: number };
+    amountDue?: number;
+    amountPaid: number;
+    filedOn?: string;
+    paidOn?: string;
+    status: TaxCalendarStatus;
+    penalty?: LatePenalty;
+}
+
+export interface TaxCalendar {
+    from: string;
+    to: string;
+    asOf: string;
+    entries: TaxCalendarEntry[];
+    overdue: number;
+    dueSoon: number;
+    totalPenalties: number;
+}
+
+export interface TaxCalendarOptions {
+    from: string;                    // YYYY-MM-DD
+    to: string;                      // YYYY-MM-DD
+    asOf?: string;                   // defaults to today
+    filings?: TaxFilingRecord[];
+    whtDeductions?: Pick<WHTDeduction, "paymentDate" | "beneficiaryType" | "beneficiaryState" | "isResident">[];
+    interestRate?: number;           // annual, defaults to the CBN monetary policy rate in the rulebook
+    dueSoonDays?: number;
+}
+
+export interface LatePenaltyRule {
+    lateFiling?: { firstMonth: number; subsequentMonth: number };
+    latePaymentRate: number;         // one-off, on the tax unpaid at the due date
+    citation: string;
+}
+
+export class TaxCalendarError extends StatusError {
+    name = "TaxCalendarError";
+}
+
+export const LATE_PENALTY_CITATIONS: Record<TaxCalendarTaxType, string> = {
+    VAT: "VAT Act Sec 19 & 35 (as amended)",
+    WHT: "CITA Sec 82 & 85; PITA Sec 74",
+    PAYE: "PITA Sec 82",
+    CIT: "CITA Sec 55(3) & 85 (as amended)",
+    PIT: "PITA Sec 76 & 94 (as amended)",
+};
+
+// Remittances with no fixed late-filing penalty have no LATE_FILING_PENALTY_<type> rules
+const LATE_FILING_TAX_TYPES: TaxCalendarTaxType[] = ["VAT", "CIT", "PIT"];
+
+// Payable accounts the monthly remittances are paid out of
+export const REMITTANCE_ACCOUNTS: Partial<Record<TaxCalendarTaxType, string>> = { VAT: "2200", WHT: "2220", PAYE: "2210" };
+
+export const DUE_SOON_DAYS = 14;
+export const MAX_CIT_INSTALMENTS = 5;
+
+const FIRS = "Federal Inland Revenue Service";
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function requireDate(value: string | undefined, field: string): string {
+    if (!value || !DATE_PATTERN.test(value) || Number.isNaN(Date.parse(value))) {
+        throw new TaxCalendarError(`${field} must be a YYYY-MM-DD date`);
+    }
+    return value;
+}
+
+const daysBetween = (from: string, to: string) => Math.round((Date.parse(to) - Date.parse(from)) / DAY_MS);
+
+const federalRuleBook = (date: string) => resolveRuleBook({ jurisdiction: "Federal", date }).entry.rulebook;
+
+/**
+ * Late filing and payment penalties for a tax type, from the rulebook in force
+ * on the due date.
+ */
+export function latePenaltyRule(taxType: TaxCalendarTaxType, dueDate: string): LatePenaltyRule {
+    const rulebook = federalRuleBook(dueDate);
+    const prefix = `LATE_FILING_PENALTY_${taxType}`;
+    return {
+        ...(LATE_FILING_TAX_TYPES.includes(taxType)
+            ? { lateFiling: { firstMonth: evaluateRule(rulebook, `${prefix}_FIRST_MONTH`), subsequentMonth: evaluateRule(rulebook, `${prefix}_SUBSEQUENT_MONTH`) } }
+            : {}),
+        latePaymentRate: evaluateRule(rulebook, "LATE_PAYMENT_PENALTY_RATE"),
+        citation: LATE_PENALTY_CITATIONS[taxType],
+    };
+}
+
+/**
+ * CBN monetary policy rate in the rulebook in force on `date`
+ */
+export function monetaryPolicyRate(date: string): number {
+    return evaluateRule(federalRuleBook(date), "CBN_MONETARY_POLICY_RATE");
+}
+
+/**
+ * Same day `months` later. A month end stays a month end, so a 30 June year
+ * end is due on 31 December.
+ */
+export function addMonths(date: string, months: number): string {
+    const [year, month, day] = date.split("-").map(Number);
+    const monthEnd = new Date(Date.UTC(year, month, 0)).getUTCDate() === day;
+    const target = new Date(Date.UTC(year, month - 1 + months, 1));
+    const lastDay = new Date(Date.UTC(target.getUTCFullYear(), target.getUTCMonth() + 1, 0)).getUTCDate();
+    target.setUTCDate(monthEnd ? lastDay : Math.min(day, lastDay));
+    return target.toISOString().slice(0, 10);
+}
+
+/**
+ * Months or part months from the due date to the given date.
+ */
+export function monthsLate(dueDate: string, date: string): number {
+    if (date <= dueDate) {
+        return 0;
+    }
+    let months = 1;
+    while (addMonths(dueDate, months) < date) {
+        months++;
+    }
+    return months;
+}
+
+export function fiscalYearEndDate(profile: Pick<TaxCalendarProfile, "fiscalYearEnd">, year: number): string {
+    const monthDay = profile.fiscalYearEnd || "12-31";
+    if (!/^(0[1-9]|1[0-2])-(0[1-9]|[12]\d|3[01])$/.test(monthDay)) {
+        throw new TaxCalendarError("fiscalYearEnd must be in MM-DD format");
+    }
+    // Clamp 29 February and the like to the month end
+    const month = Number(monthDay.slice(0, 2));
+    const day = Math.min(Number(monthDay.slice(3)), new Date(Date.UTC(year, month, 0)).getUTCDate());
+    return `${year}-${monthDay.slice(0, 2)}-${String(day).padStart(2, "0")}`;
+}
+
+/**
+ * Due date of the annual return for the year: CIT six months after the
+ * financial year ending in `year`, PIT by 31 March of the following year.
+ */
+export function annualReturnDueDate(profile: Pick<TaxCalendarProfile, "taxpayerType" | "fiscalYearEnd">, year: number): string {
+    return profile.taxpayerType === "company"
+        ? addMonths(fiscalYearEndDate(profile, year), 6)
+        : `${year + 1}-03-31`;
+}
+
+/**
+ * Monthly CIT instalment dates for the financial year ending in `year`,
+ * starting on the return due date. The last may fall no later than ten months
+ * after the year end.
+ */
+export function citInstalmentDueDates(profile: Pick<TaxCalendarProfile, "fiscalYearEnd">, year: number, instalments: number): string[] {
+    const yearEnd = fiscalYearEndDate(profile, year);
+    const dueDate = annualReturnDueDate({ taxpayerType: "company", fiscalYearEnd: profile.fiscalYearEnd }, year);
+    const lastAllowed = addMonths(yearEnd, 10);
+    if (addMonths(dueDate, instalments - 1) > lastAllowed) {
+        throw new TaxCalendarError(`The last of ${instalments} monthly CIT instalments would fall after ${lastAllowed}; at most ${MAX_CIT_INSTALMENTS} are possible`);
+    }
+    return Array.from({ length: instalments }, (_, index) => addMonths(dueDate, index));
+}
+
+/**
+ * Penalty and interest on an entry that was filed or paid late, or is still
+ * outstanding at `asOf`.
+ */
+export function computeLatePenalty(
+    entry: Pick<TaxCalendarEntry, "taxType" | "obligation" | "dueDate" | "amountDue" | "amountPaid" | "filedOn" | "paidOn">,
+    asOf: string,
+    interestRate?: number
+): LatePenalty | undefined {
+    const filedBy = entry.filedOn || asOf;
+    const paidBy = entry.paidOn || asOf;
+    const filedLate = entry.obligation !== "payment" && filedBy > entry.dueDate;
+    const unpaid = Math.max(0, (entry.amountDue || 0) - (entry.paidOn ? 0 : entry.amountPaid));
+    const paidLate = entry.obligation !== "return" && unpaid > 0 && paidBy > entry.dueDate;
+    if (!filedLate && !paidLate) {
+        return undefined;
+    }
+
+    const rule = latePenaltyRule(entry.taxType, entry.dueDate);
+    const rate = interestRate ?? monetaryPolicyRate(entry.dueDate);
+    const lateTo = [filedLate ? filedBy : "", paidLate ? paidBy : ""].sort().pop() as string;
+    const filingMonths = filedLate ? monthsLate(entry.dueDate, filedBy) : 0;
+    const lateFilingPenalty = filedLate && rule.lateFiling
+        ? rule.lateFiling.firstMonth + rule.lateFiling.subsequentMonth * (filingMonths - 1)
+        : 0;
+    const latePaymentPenalty = paidLate ? round2(unpaid * rule.latePaymentRate) : 0;
+    const interest = paidLate ? round2(unpaid * rate * daysBetween(entry.dueDate, paidBy) / 365) : 0;
+
+    return {
+        daysLate: daysBetween(entry.dueDate, lateTo),
+        monthsLate: monthsLate(entry.dueDate, lateTo),
+        lateFilingPenalty,
+        latePaymentPenalty,
+        interest,
+        total: round2(lateFilingPenalty + latePaymentPenalty + interest),
+        citation: rule.citation,
+    };
+}
+
+type EntryDraft = Pick<TaxCalendarEntry, "id" | "taxType" | "obligation" | "period" | "description" | "authority" | "dueDate" | "instalment">;
+
+/**
+ * The month's WHT remittances, one per authority its deductions are paid to.
+ * Until the month's deductions are recorded they are taken to be from
+ * companies, remitted to FIRS. FIRS keeps the plain WHT-<period> id; a state
+ * remittance adds the state code, as in WHT-2024-03-OGU.
+ */
+function whtDrafts(period: string, deductions: TaxCalendarOptions["whtDeductions"] = []): EntryDraft[] {
+    const authorities = new Map<string, ReturnType<typeof whtAuthority>>();
+    deductions
+        .filter(deduction => deduction.paymentDate.slice(0, 7) === period)
+        .forEach(deduction => {
+            const authority = whtAuthority(deduction);
+            authorities.set(authority.authority, authority);
+        });
+    if (authorities.size === 0) {
+        const authority = whtAuthority({ beneficiaryType: "company", isResident: true });
+        authorities.set(authority.authority, authority);
+    }
+
+    return [...authorities.values()]
+        .sort((a, b) => a.level === b.level ? a.authority.localeCompare(b.authority) : a.level === "federal" ? -1 : 1)
+        .map(({ authority, level, state }) => ({
+            id: level === "federal" ? `WHT-${period}` : `WHT-${period}-${whtAuthorityCode({ level, state })}`,
+            taxType: "WHT",
+            obligation: "return_and_payment",
+            period,
+            description: level === "federal" ? `WHT remittance for ${period}` : `WHT remittance for ${period} (${state})`,
+            authority,
+            dueDate: whtDueDate(period),
+        }));
+}
+
+function monthlyDrafts(profile: TaxCalendarProfile, period: string, whtDeductions: TaxCalendarOptions["whtDeductions"]): EntryDraft[] {
+    const drafts: EntryDraft[] = [];
+    const stateIRS = stateRevenueService(profile.stateOfResidence);
+    if (profile.isVATRegistered) {
+        drafts.push({ id: `VAT-${period}`, taxType: "VAT", obligation: "return_and_payment", period, description: `VAT return for ${period}`, authority: FIRS, dueDate: vatDueDate(period) });
+    }
+    if (profile.deductsWHT) {
+        drafts.push(...whtDrafts(period, whtDeductions));
+    }
+    if (profile.hasEmployees) {
+        drafts.push({ id: `PAYE-${period}`, taxType: "PAYE", obligation: "return_and_payment", period, description: `PAYE remittance for ${period}`, authority: stateIRS, dueDate: payeDueDate(period) });
+    }
+    return drafts;
+}
+
+/**
+ * The CIT return for the financial year ending in `year`, with its instalment
+ * payments when the company pays in instalments.
+ */
+function citDrafts(profile: TaxCalendarProfile, year: number): EntryDraft[] {
+    const yearEnd = fiscalYearEndDate(profile, year);
+    const dueDate = annualReturnDueDate(profile, year);
+    const instalments = Math.max(1, Math.floor(profile.citInstalments || 1));
+    const period = String(year);
+    if (instalments === 1) {
+        return [{ id: `CIT-${period}`, taxType: "CIT", obligation: "return_and_payment", period, description: `CIT return and payment for year ended ${yearEnd}`, authority: FIRS, dueDate }];
+    }
+
+    const instalmentDates = citInstalmentDueDates(profile, year, instalments);
+    return [
+        { id: `CIT-${period}`, taxType: "CIT", obligation: "return", period, description: `CIT return for year ended ${yearEnd}`, authority: FIRS, dueDate },
+        ...instalmentDates.map((instalmentDate, index): EntryDraft => ({
+            id: `CIT-${period}-I${index + 1}`,
+            taxType: "CIT",
+            obligation: "payment",
+            period,
+            description: `CIT instalment ${index + 1} of ${instalments} for year ended ${yearEnd}`,
+            authority: FIRS,
+            dueDate: instalmentDate,
+            instalment: { number: index + 1, of: instalments },
+        })),
+    ];
+}
+
+function annualDrafts(profile: TaxCalendarProfile, year: number): EntryDraft[] {
+    if (profile.taxpayerType === "company") {
+        return citDrafts(profile, year);
+    }
+    const period = String(year);
+    return [{
+        id: `PIT-${period}`, taxType: "PIT", obligation: "return_and_payment", period,
+        description: `Self-assessment PIT return for ${period}`, authority: stateRevenueService(profile.stateOfResidence), dueDate: annualReturnDueDate(profile, year),
+    }];
+}
+
+/**
+ * Every deadline falling between `from` and `to`, with its filing status and,
+ * for entries past due, the penalty and interest accrued at `asOf`.
+ */
+export function buildTaxCalendar(profile: TaxCalendarProfile, options: TaxCalendarOptions): TaxCalendar {
+    const from = requireDate(options.from, "from");
+    const to = requireDate(options.to, "to");
+    const asOf = requireDate(options.asOf || new Date().toISOString().slice(0, 10), "asOf");
+    if (from > to) {
+        throw new TaxCalendarError(`Calendar start ${from} is after ${to}`);
+    }
+    const dueSoonDays = options.dueSoonDays ?? DUE_SOON_DAYS;
+    const filings = new Map((options.filings || []).map(filing => [filing.entryId, filing]));
+
+    // Monthly deadlines fall in the month after the period; annual ones up to a year after the year end
+    const drafts: EntryDraft[] = [];
+    for (let period = addMonths(from, -1).slice(0, 7); period <= to.slice(0, 7); period = addMonths(`${period}-01`, 1).slice(0, 7)) {
+        drafts.push(...monthlyDrafts(profile, period, options.whtDeductions));
+    }
+    for (let year = Number(from.slice(0, 4)) - 1; year <= Number(to.slice(0, 4)); year++) {
+        drafts.push(...annualDrafts(profile, year));
+    }
+
+    const entries = drafts
+        .filter(draft => draft.dueDate >= from && draft.dueDate <= to)
+        .map(draft => {
+            const filing = filings.get(draft.id);
+            // Instalments share the amount assessed on the return unless recorded separately
+            const returnFiling = draft.instalment ? filings.get(draft.id.replace(/-I\d+$/, "")) : undefined;
+            const amountDue = filing?.amountDue ?? (returnFiling?.amountDue !== undefined && draft.instalment
+                ? round2(returnFiling.amountDue / draft.instalment.of)
+                : undefined);
+            const entry: TaxCalendarEntry = {
+                ...draft,
+                daysUntilDue: daysBetween(asOf, draft.dueDate),
+                amountDue,
+                amountPaid: filing?.amountPaid ?? (filing?.paidOn ? amountDue || 0 : 0),
+                filedOn: filing?.filedOn,
+                paidOn: filing?.paidOn,
+                status: "upcoming",
+            };
+
+            const filed = entry.obligation === "payment" || Boolean(entry.filedOn);
+            const paid = entry.obligation === "return" || Boolean(entry.paidOn);
+            entry.penalty = computeLatePenalty(entry, asOf, options.interestRate);
+            if (filed && paid) {
+                entry.status = entry.obligation === "return" ? "filed" : "paid";
+            } else if (filed && entry.obligation === "return_and_payment" && !entry.amountDue) {
+                entry.status = "filed";
+            } else if (asOf > entry.dueDate) {
+                entry.status = "overdue";
+            } else if (entry.daysUntilDue <= dueSoonDays) {
+                entry.status = "due_soon";
+            }
+            return entry;
+        })
+        .sort((a, b) => a.dueDate.localeCompare(b.dueDate) || a.id.localeCompare(b.id));
+
+    return {
+        from,
+        to,
+        asOf,
+        entries,
+        overdue: entries.filter(entry => entry.status === "overdue").length,
+        dueSoon: entries.filter(entry => entry.status === "due_soon").length,
+        totalPenalties: round2(entries.reduce((sum, entry) => sum + (entry.penalty?.total || 0), 0)),
+    };
+}
+
+/**
+ * Entries to warn about: overdue ones first, then those due within the window.
+ */
+export function taxDeadlineWarnings(calendar: TaxCalendar): TaxCalendarEntry[] {
+    return [
+        ...calendar.entries.filter(entry => entry.status === "overdue"),
+        ...calendar.entries.filter(entry => entry.status === "due_soon"),
+    ];
+}
+
+/**
+ * Filing records for the monthly remittances, read from the ledger. Tax arises
+ * in a month as the net credit to its payable account, less returns and
+ * set-offs. Payments out of the account settle the oldest months first, so a
+ * month counts as filed and paid on the day the payments reached all that had
+ * arisen up to its end. Only months in which tax arose get a record.
+ */
+export function ledgerRemittanceFilings(journalEntries: JournalEntry[]): TaxFilingRecord[] {
+    // A voided journal and its contra both stay in the ledger and cancel out
+    const entries = journalEntries
+        .filter(entry => entry.status !== "draft")
+        .sort((a, b) => a.date.localeCompare(b.date));
+
+    return (Object.entries(REMITTANCE_ACCOUNTS) as [TaxCalendarTaxType, string][]).flatMap(([taxType, accountCode]) => {
+        const arising = new Map<string, number>();
+        const payments: { date: string; amount: number }[] = [];
+        entries.forEach(entry => entry.lines.filter(line => line.accountCode === accountCode).forEach(line => {
+            if (entry.transactionType === "payment" && line.debit > 0) {
+                payments.push({ date: entry.date, amount: line.debit });
+                return;
+            }
+            const period = entry.date.slice(0, 7);
+            arising.set(period, round2((arising.get(period) || 0) + line.credit - line.debit));
+        }));
+        const totalPaid = round2(payments.reduce((sum, payment) => sum + payment.amount, 0));
+
+        let arisenBefore = 0;
+        return [...arising.keys()].sort().filter(period => arising.get(period)! > 0).map(period => {
+            const amountDue = arising.get(period)!;
+            const arisenThrough = round2(arisenBefore + amountDue);
+            const amountPaid = round2(Math.min(amountDue, Math.max(0, totalPaid - arisenBefore)));
+            arisenBefore = arisenThrough;
+
+            let cumulative = 0;
+            const settledBy = payments.find(payment => (cumulative = round2(cumulative + payment.amount)) >= arisenThrough - 0.01);
+            const record: TaxFilingRecord = { entryId: `${taxType}-${period}`, amountDue, amountPaid };
+            if (settledBy) {
+                record.filedOn = settledBy.date;
+                record.paidOn = settledBy.date;
+            }
+            return record;
+        });
+    });
+}
@@ -0,0 +1,134 @@
+import path from "path";
+import {
+    buildTaxCalendar,
+    TaxCalendar,
+    TaxCalendarError,
+    TaxCalendarOptions,
+    TaxCalendarProfile,
+    TaxFilingRecord,
+} from "./taxCalendar";
+import { getPayerWHTDeductions } from "./whtDeductionStore";
+import { createJsonStore, requireText } from "./jsonStore";
+
+/**
+ * Tax Calendar Store
+ *
+ * Keeps each taxpayer's calendar profile and the returns and payments made
+ * against it, so the calendar can show what is filed and what is late.
+ */
+
+export interface TaxpayerTaxCalendar {
+    taxpayerId: string;          // e.g. TIN
+    profile: TaxCalendarProfile;
+    filings: TaxFilingRecord[];
+    updatedAt: string;
+}
+
+interface TaxCalendarFile {
+    taxpayers: TaxpayerTaxCalendar[];
+}
+
+const CALENDAR_FILE = process.env.TAX_CALENDAR_FILE || path.join(process.cwd(), "data", "taxCalendar.json");
+
+const store = createJsonStore<TaxCalendarFile>({ file: CALENDAR_FILE, description: "tax calendar store", empty: () => ({ taxpayers: [] }) });
+
+function requireProfile(profile: Partial<TaxCalendarProfile> | undefined): TaxCalendarProfile {
+    if (!profile || (profile.taxpayerType !== "company" && profile.taxpayerType !== "freelancer")) {
+        throw new TaxCalendarError("profile.taxpayerType must be 'company' or 'freelancer'");
+    }
+    if (typeof profile.stateOfResidence !== "string" || !profile.stateOfResidence.trim()) {
+        throw new TaxCalendarError("profile.stateOfResidence is required");
+    }
+    if (profile.citInstalments !== undefined && (!Number.isInteger(profile.citInstalments) || profile.citInstalments < 1)) {
+        throw new TaxCalendarError("profile.citInstalments must be a whole number of at least 1");
+    }
+    return {
+        taxpayerType: profile.taxpayerType,
+        stateOfResidence: profile.stateOfResidence.trim(),
+        fiscalYearEnd: profile.fiscalYearEnd,
+        isVATRegistered: Boolean(profile.isVATRegistered),
+        deductsWHT: Boolean(profile.deductsWHT),
+        hasEmployees: Boolean(profile.hasEmployees),
+        citInstalments: profile.citInstalments,
+    };
+}
+
+function requireCalendar(taxpayerId: string): TaxpayerTaxCalendar {
+    const calendar = getTaxpayerTaxCalendar(requireText(taxpayerId, "taxpayerId", TaxCalendarError));
+    if (!calendar) {
+        throw new TaxCalendarError(`No tax calendar profile saved for ${taxpayerId}`, 404);
+    }
+    return calendar;
+}
+
+function touch(calendar: TaxpayerTaxCalendar) {
+    calendar.filings.sort((a, b) => a.entryId.localeCompare(b.entryId));
+    store.touch(calendar);
+}
+
+export function getTaxpayerTaxCalendar(taxpayerId: string): TaxpayerTaxCalendar | undefined {
+    return store.load().taxpayers.find(calendar => calendar.taxpayerId === taxpayerId.trim());
+}
+
+/**
+ * Saves the profile the calendar is built from. Filings already recorded are
+ * kept.
+ */
+export function saveTaxCalendarProfile(taxpayerId: string, profile: Partial<TaxCalendarProfile>): TaxpayerTaxCalendar {
+    const id = requireText(taxpayerId, "taxpayerId", TaxCalendarError);
+    const validated = requireProfile(profile);
+    // Building this year's calendar checks the year end and instalment plan before saving
+    const year = new Date().getFullYear();
+    buildTaxCalendar(validated, { from: `${year}-01-01`, to: `${year}-12-31` });
+
+    let calendar = getTaxpayerTaxCalendar(id);
+    if (!calendar) {
+        calendar = { taxpayerId: id, profile: validated, filings: [], updatedAt: new Date().toISOString() };
+        store.load().taxpayers.push(calendar);
+    }
+    calendar.profile = validated;
+    touch(calendar);
+    return calendar;
+}
+
+/**
+ * Records a return filed or a payment made against a calendar entry, merging
+ * with what was recorded before.
+ */
+export function recordTaxFiling(taxpayerId: string, filing: TaxFilingRecord): TaxFilingRecord {
+    const calendar = requireCalendar(taxpayerId);
+    if (typeof filing.entryId !== "string" || !/^(VAT|WHT|PAYE|CIT|PIT)-\d{4}(-\d{2}(-[A-Z]{3,4})?|-I\d+)?$/.test(filing.entryId)) {
+        throw new TaxCalendarError("entryId must be a calendar entry id such as VAT-2024-03, WHT-2024-03-OGU or CIT-2024");
+    }
+    for (const field of ["filedOn", "paidOn"] as const) {
+        const value = filing[field];
+        if (value !== undefined && (!/^\d{4}-\d{2}-\d{2}$/.test(value) || Number.isNaN(Date.parse(value)))) {
+            throw new TaxCalendarError(`${field} must be a YYYY-MM-DD date`);
+        }
+    }
+    for (const field of ["amountDue", "amountPaid"] as const) {
+        const value = filing[field];
+        if (value !== undefined && (typeof value !== "number" || !Number.isFinite(value) || value < 0)) {
+            throw new TaxCalendarError(`${field} must be a non-negative number`);
+        }
+    }
+
+    const existing = calendar.filings.find(candidate => candidate.entryId === filing.entryId);
+    const merged: TaxFilingRecord = { ...existing, ...Object.fromEntries(Object.entries(filing).filter(([, value]) => value !== undefined)) } as TaxFilingRecord;
+    calendar.filings = [...calendar.filings.filter(candidate => candidate !== existing), merged];
+    touch(calendar);
+    return merged;
+}
+
+/**
+ * The taxpayer's calendar, with WHT routed by the deductions recorded for them
+ * as a payer.
+ */
+export function getTaxCalendar(taxpayerId: string, options: Omit<TaxCalendarOptions, "filings" | "whtDeductions">): TaxCalendar {
+    const calendar = requireCalendar(taxpayerId);
+    return buildTaxCalendar(calendar.profile, {
+        ...options,
+        filings: calendar.filings,
+        whtDeductions: getPayerWHTDeductions(calendar.taxpayerId)?.deductions,
+    });
+}
@@ -1,4 +1,5 @@
 import { TaxInputs, UserProfile, ValidationIssue } from "../types";
+import { checkWHTCertificateAmounts, whtCreditYear } from "./whtCredits";
 
 export interface IncomeAggregationSummary {
     totalRevenue: number;
@@ -43,25 +44,50 @@ export function validateTaxScenario(
         issues.push(makeIssue("inputs.vat", "info", "VAT registration flagged but no vatable revenue supplied."));
     }
 
-    if (inputs.withholdingTaxCredits && inputs.withholdingTaxCredits > incomeSummary.totalRevenue * 0.25) {
+    if (!inputs.whtCreditRegistry?.length && inputs.withholdingTaxCredits && inputs.withholdingTaxCredits > incomeSummary.totalRevenue * 0.25) {
         issues.push(makeIssue("inputs.withholdingTaxCredits", "info", "WHT credits appear unusually high relative to income; confirm certificates before filing."));
     }
 
-    if (inputs.priorYearLosses && inputs.priorYearLosses > incomeSummary.totalRevenue) {
-        issues.push(makeIssue("inputs.priorYearLosses", "info", "Carried-forward losses exceed current revenue; ensure they are within statutory limits (max 4 years for CIT)."));
+    if (inputs.priorYearLosses && !(inputs.lossLedger && inputs.lossLedger.length)) {
+        issues.push(makeIssue("inputs.priorYearLosses", "info", "Prior year losses were entered as a single figure, so carry-forward time limits cannot be checked; record each year's loss in the loss ledger instead."));
     }
 
+    (inputs.lossLedger || []).forEach((entry, index) => {
+        const utilised = entry.utilisations.reduce((sum, utilisation) => sum + utilisation.amount, 0);
+        if (utilised > entry.adjustedLoss + 0.01) {
+            issues.push(makeIssue(`inputs.lossLedger[${index}]`, "error", `The ${entry.taxYear} loss has been relieved by more than the loss itself.`));
+        }
+        if (entry.utilisations.some(utilisation => utilisation.taxYear <= entry.taxYear)) {
+            issues.push(makeIssue(`inputs.lossLedger[${index}]`, "warning", `The ${entry.taxYear} loss shows relief in a year before it arose.`));
+        }
+    });
+
     if (inputs.payrollEntries && inputs.payrollEntries.length && profile.taxpayerType !== "company") {
         issues.push(makeIssue("inputs.payrollEntries", "info", "Payroll data supplied for an individual taxpayer; confirm entity structure."));
     }
 
-    const certificateTotal = (inputs.withholdingCertificates || []).reduce((sum, cert) => sum + (cert.amount || 0), 0);
-    if ((inputs.withholdingTaxCredits || 0) > 0 && (!inputs.withholdingCertificates || inputs.withholdingCertificates.length === 0)) {
-        issues.push(makeIssue("inputs.withholdingCertificates", "warning", "Add WHT certificates to support the credits applied."));
-    }
+    if (inputs.whtCreditRegistry && inputs.whtCreditRegistry.length > 0) {
+        if ((inputs.withholdingTaxCredits || 0) > 0) {
+            issues.push(makeIssue("inputs.withholdingTaxCredits", "info", "WHT credits are taken from the credit registry; the figure entered was ignored."));
+        }
+        inputs.whtCreditRegistry.forEach((certificate, index) => {
+            const problem = checkWHTCertificateAmounts(certificate);
+            if (problem) {
+                issues.push(makeIssue(`inputs.whtCreditRegistry[${index}]`, "error", `Certificate ${certificate.certificateNumber}: ${problem}.`));
+            }
+            if (whtCreditYear(certificate) > profile.taxYear) {
+                issues.push(makeIssue(`inputs.whtCreditRegistry[${index}]`, "info", `Certificate ${certificate.certificateNumber} relates to ${whtCreditYear(certificate)} and is not available against ${profile.taxYear} tax.`));
+            }
+        });
+    } else {
+        const certificateTotal = (inputs.withholdingCertificates || []).reduce((sum, cert) => sum + (cert.amount || 0), 0);
+        if ((inputs.withholdingTaxCredits || 0) > 0 && (!inputs.withholdingCertificates || inputs.withholdingCertificates.length === 0)) {
+            issues.push(makeIssue("inputs.withholdingCertificates", "warning", "Add WHT certificates to support the credits applied."));
+        }
 
-    if (certificateTotal > 0 && Math.abs(certificateTotal - (inputs.withholdingTaxCredits || 0)) > 1) {
-        issues.push(makeIssue("inputs.withholdingTaxCredits", "warning", "Sum of WHT certificates does not match credits claimed."));
+        if (certificateTotal > 0 && Math.abs(certificateTotal - (inputs.withholdingTaxCredits || 0)) > 1) {
+            issues.push(makeIssue("inputs.withholdingTaxCredits", "warning", "Sum of WHT certificates does not match credits claimed."));
+        }
     }
 
     return issues;
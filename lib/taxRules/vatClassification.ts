@@ -0,0 +1,170 @@
+/**
+ * VAT Classification Catalogue
+ *
+ * Classifies supplies as standard-rated, zero-rated or exempt. A classification
+ * can be set on an inventory product, inherited from its category, mapped from a
+ * transaction category, or recognised from the catalogue of exempt and zero-rated
+ * goods and services in the VAT Act; anything else is standard-rated.
+ *
+ * Exempt supplies carry no output VAT and suppliers of them charge none, so no
+ * input VAT arises on their purchase. Zero-rated supplies are taxable at 0%.
+ */
+
+export type VATSupplyType = "standard" | "zero_rated" | "exempt";
+
+export const VAT_SUPPLY_TYPES: VATSupplyType[] = ["standard", "zero_rated", "exempt"];
+
+export interface VATClassificationEntry {
+    id: string;
+    label: string;
+    supplyType: VATSupplyType;
+    keywords: string[];
+    citation: string;
+}
+
+export type VATClassificationSource = "product" | "category" | "transaction-category" | "catalogue" | "default";
+
+export interface VATClassification {
+    supplyType: VATSupplyType;
+    source: VATClassificationSource;
+    entry?: VATClassificationEntry;
+    note: string;
+}
+
+export interface VATClassificationInput {
+    product?: { vatClass?: string | null; name?: string } | null;
+    category?: { vatClass?: string | null; name?: string } | null;
+    transactionCategory?: string;
+    description?: string;
+}
+
+export const VAT_CLASSIFICATION_CATALOGUE: VATClassificationEntry[] = [
+    {
+        id: "basic-food",
+        label: "Basic food items",
+        supplyType: "exempt",
+        keywords: ["rice", "beans", "yam", "garri", "cassava", "maize", "bread", "flour", "semovita", "fish", "vegetables", "fruit", "salt", "basic food"],
+        citation: "VAT Act First Schedule Part I",
+    },
+    {
+        id: "medical",
+        label: "Medical and pharmaceutical products and services",
+        supplyType: "exempt",
+        keywords: ["medical", "medicine", "drug", "pharmaceutical", "hospital", "clinic"],
+        citation: "VAT Act First Schedule Part I",
+    },
+    {
+        id: "educational",
+        label: "Books, educational materials and tuition",
+        supplyType: "exempt",
+        keywords: ["textbook", "books", "educational", "tuition", "school fees"],
+        citation: "VAT Act First Schedule Parts I & II",
+    },
+    {
+        id: "baby-products",
+        label: "Baby products and sanitary towels",
+        supplyType: "exempt",
+        keywords: ["baby", "diaper", "sanitary towel", "sanitary pad"],
+        citation: "VAT Act First Schedule Part I",
+    },
+    {
+        id: "agricultural-inputs",
+        label: "Fertiliser, seeds and farming equipment",
+        supplyType: "exempt",
+        keywords: ["fertiliser", "fertilizer", "seedling", "seeds", "tractor", "agro-chemical"],
+        citation: "VAT Act First Schedule Part I",
+    },
+    {
+        id: "exports",
+        label: "Exported goods and services",
+        supplyType: "zero_rated",
+        keywords: ["export", "exported"],
+        citation: "VAT Act Section 4 & Second Schedule",
+    },
+];
+
+// Transaction categories (bank import / chat categories) with a fixed VAT treatment
+export const TRANSACTION_CATEGORY_VAT_CLASSES: Record<string, VATSupplyType> = {
+    "basic-food": "exempt",
+    "food": "exempt",
+    "medical": "exempt",
+    "healthcare": "exempt",
+    "education": "exempt",
+    "agriculture": "exempt",
+    "exports": "zero_rated",
+    "export": "zero_rated",
+};
+
+export function isVATSupplyType(value: unknown): value is VATSupplyType {
+    return typeof value === "string" && (VAT_SUPPLY_TYPES as string[]).includes(value);
+}
+
+export function vatSupplyLabel(supplyType: VATSupplyType): string {
+    if (supplyType === "exempt") return "VAT exempt";
+    if (supplyType === "zero_rated") return "Zero-rated";
+    return "Standard-rated";
+}
+
+/**
+ * Memo recorded on revenue journal lines so the VAT return can read the
+ * classification back from the ledger.
+ */
+export function vatSupplyMemo(supplyType: VATSupplyType): string {
+    return `${vatSupplyLabel(supplyType)} supply`;
+}
+
+export function parseVATSupplyMemo(text: string): VATSupplyType | undefined {
+    const normalized = text.toLowerCase();
+    if (/zero[- ]?rated/.test(normalized)) return "zero_rated";
+    if (/\bexempt/.test(normalized)) return "exempt";
+    if (/standard[- ]?rated/.test(normalized)) return "standard";
+    return undefined;
+}
+
+const containsKeyword = (text: string, keyword: string) =>
+    new RegExp(`\\b${keyword.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")}`).test(text);
+
+/**
+ * The catalogue entry whose keywords appear in the text, if any.
+ */
+export function findCatalogueEntry(text: string): VATClassificationEntry | undefined {
+    const normalized = text.toLowerCase();
+    return VAT_CLASSIFICATION_CATALOGUE.find(entry => entry.keywords.some(keyword => containsKeyword(normalized, keyword)));
+}
+
+/**
+ * Resolves the VAT treatment of a supply: the product's own classification,
+ * then its category's, then the transaction category, then the catalogue.
+ */
+export function classifyVATSupply(input: VATClassificationInput): VATClassification {
+    const product = input.product;
+    if (product && isVATSupplyType(product.vatClass)) {
+        const supplyType = product.vatClass;
+        return { supplyType, source: "product", note: `${vatSupplyLabel(supplyType)} (product ${product.name ?? ""})` };
+    }
+    const category = input.category;
+    if (category && isVATSupplyType(category.vatClass)) {
+        const supplyType = category.vatClass;
+        return { supplyType, source: "category", note: `${vatSupplyLabel(supplyType)} (category ${category.name ?? ""})` };
+    }
+
+    const transactionCategory = (input.transactionCategory || "").toLowerCase().trim();
+    if (TRANSACTION_CATEGORY_VAT_CLASSES[transactionCategory]) {
+        const supplyType = TRANSACTION_CATEGORY_VAT_CLASSES[transactionCategory];
+        return { supplyType, source: "transaction-category", note: `${vatSupplyLabel(supplyType)} (category ${transactionCategory})` };
+    }
+
+    const entry = findCatalogueEntry([product?.name, input.description].filter(Boolean).join(" "));
+    if (entry) {
+        return { supplyType: entry.supplyType, source: "catalogue", entry, note: `${vatSupplyLabel(entry.supplyType)}: ${entry.label} (${entry.citation})` };
+    }
+
+    return { supplyType: "standard", source: "default", note: vatSupplyLabel("standard") };
+}
+
+/**
+ * VAT charged on a supply of the given type at the standard rate.
+ */
+export function vatForSupply(amount: number, supplyType: VATSupplyType, vatRate: number): number {
+    return supplyType === "standard" ? Math.round(amount * vatRate * 100) / 100 : 0;
+}
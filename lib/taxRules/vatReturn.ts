@@ -0,0 +1,257 @@
+/**
+ * Monthly VAT Return
+ *
+ * Builds the FIRS monthly VAT return from posted ledger journals: supplies and
+ * output VAT from sales journals, input VAT from purchase journals posted to
+ * Input VAT Receivable. Exempt and zero-rated supplies are reported but carry no
+ * output VAT, and an excess of input VAT is carried forward as a credit against
+ * the following month.
+ *
+ * Each month is reconciled against the VAT the ledger should hold at the rate in
+ * the rulebook in force, so sales posted without VAT (or VAT charged on supplies
+ * that are not taxable) are flagged before filing.
+ */
+
+import { JournalEntry, JournalLine, TransactionType } from "../accounting/doubleEntry";
+import { evaluateRule } from "./rulebook";
+import { resolveRuleBook, RuleBookReference } from "./registry";
+import { classifyVATSupply, parseVATSupplyMemo, VATSupplyType } from "./vatClassification";
+import { VATSummary } from "../types";
+import { StatusError } from "../errors";
+
+export type { VATSupplyType } from "./vatClassification";
+
+export type VATSupplyClassifier = (entry: JournalEntry, line: JournalLine) => VATSupplyType;
+
+export interface VATReturnExceptions {
+    salesWithoutVAT: string[];       // journal ids of standard-rated sales with no output VAT
+    vatOnNonTaxableSupplies: string[]; // journal ids charging VAT on only exempt/zero-rated supplies
+}
+
+export interface VATReturnReconciliation extends VATReturnExceptions {
+    expectedOutputVAT: number;       // taxable supplies x VAT rate
+    outputVATVariance: number;       // output VAT posted - expected
+    isReconciled: boolean;
+}
+
+export interface MonthlyVATReturn extends VATSummary {
+    period: string;                  // YYYY-MM
+    dueDate: string;                 // 21st of the following month
+    totalSupplies: number;
+    exemptSupplies: number;
+    zeroRatedSupplies: number;
+    taxableSupplies: number;
+    inputVAT: number;
+    creditBroughtForward: number;
+    vatPayable: number;
+    creditCarriedForward: number;
+    salesJournalCount: number;
+    purchaseJournalCount: number;
+    reconciliation: VATReturnReconciliation;
+    rulebook: RuleBookReference;
+}
+
+export interface VATReturnSchedule {
+    from: string;
+    to: string;
+    months: MonthlyVATReturn[];
+    totalOutputVAT: number;
+    totalInputVAT: number;
+    totalVATPayable: number;
+    creditCarriedForward: number;
+}
+
+export interface VATReturnOptions {
+    from: string;                    // YYYY-MM
+    to?: string;                     // YYYY-MM, defaults to `from`
+    creditBroughtForward?: number;   // excess input VAT from before `from`
+    classifySupply?: VATSupplyClassifier;
+}
+
+export class VATReturnError extends StatusError {
+    name = "VATReturnError";
+}
+
+export const OUTPUT_VAT_ACCOUNT = "2200";
+export const INPUT_VAT_ACCOUNT = "1400";
+
+const SALES_JOURNAL_TYPES: TransactionType[] = ["sale", "sale-return"];
+const PURCHASE_JOURNAL_TYPES: TransactionType[] = ["purchase", "purchase-return", "expense", "asset-purchase"];
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Reads the supply type marked on the journal line or narration, falling back
+ * to the VAT classification catalogue for the narration.
+ */
+export const defaultSupplyClassifier: VATSupplyClassifier = (entry, line) =>
+    parseVATSupplyMemo(`${line.memo || ""} ${entry.narration}`)
+    ?? classifyVATSupply({ description: entry.narration }).supplyType;
+
+function parsePeriod(period: string): { year: number; month: number } {
+    const match = /^(\d{4})-(0[1-9]|1[0-2])$/.exec(period || "");
+    if (!match) {
+        throw new VATReturnError(`VAT period "${period}" must be in YYYY-MM format`);
+    }
+    return { year: Number(match[1]), month: Number(match[2]) };
+}
+
+function periodsBetween(from: string, to: string): string[] {
+    const start = parsePeriod(from);
+    const end = parsePeriod(to);
+    const periods: string[] = [];
+    for (let year = start.year, month = start.month; year < end.year || (year === end.year && month <= end.month);) {
+        periods.push(`${year}-${String(month).padStart(2, "0")}`);
+        month++;
+        if (month > 12) {
+            month = 1;
+            year++;
+        }
+    }
+    if (periods.length === 0) {
+        throw new VATReturnError(`VAT period ${from} is after ${to}`);
+    }
+    return periods;
+}
+
+/**
+ * VAT for a month is due by the 21st of the following month.
+ */
+export function vatDueDate(period: string): string {
+    const { year, month } = parsePeriod(period);
+    return month === 12 ? `${year + 1}-01-21` : `${year}-${String(month + 1).padStart(2, "0")}-21`;
+}
+
+const isRevenueLine = (line: JournalLine) => line.accountCode.startsWith("4");
+
+function netOn(entry: JournalEntry, accountCode: string, side: "debit" | "credit"): number {
+    return entry.lines
+        .filter(line => line.accountCode === accountCode)
+        .reduce((sum, line) => sum + (side === "debit" ? line.debit - line.credit : line.credit - line.debit), 0);
+}
+
+function buildMonth(
+    period: string,
+    entries: JournalEntry[],
+    creditBroughtForward: number,
+    classifySupply: VATSupplyClassifier
+): MonthlyVATReturn {
+    const resolved = resolveRuleBook({ jurisdiction: "Federal", date: `${period}-01` });
+    const vatRate = evaluateRule(resolved.entry.rulebook, "VAT_RATE");
+
+    const inPeriod = entries.filter(entry => entry.status === "posted" && entry.date.slice(0, 7) === period);
+    const sales = inPeriod.filter(entry => SALES_JOURNAL_TYPES.includes(entry.transactionType));
+    const purchases = inPeriod.filter(entry => PURCHASE_JOURNAL_TYPES.includes(entry.transactionType));
+
+    const supplies: Record<VATSupplyType, number> = { standard: 0, zero_rated: 0, exempt: 0 };
+    const exceptions: VATReturnExceptions = { salesWithoutVAT: [], vatOnNonTaxableSupplies: [] };
+    let outputVAT = 0;
+    sales.forEach(entry => {
+        let taxable = 0;
+        entry.lines.filter(isRevenueLine).forEach(line => {
+            const amount = line.credit - line.debit;
+            const type = classifySupply(entry, line);
+            supplies[type] += amount;
+            if (type === "standard") taxable += amount;
+        });
+        const journalVAT = netOn(entry, OUTPUT_VAT_ACCOUNT, "credit");
+        outputVAT += journalVAT;
+        if (Math.abs(taxable) > 0 && journalVAT === 0) exceptions.salesWithoutVAT.push(entry.id);
+        if (taxable === 0 && journalVAT !== 0) exceptions.vatOnNonTaxableSupplies.push(entry.id);
+    });
+    const inputVAT = round2(purchases.reduce((sum, entry) => sum + netOn(entry, INPUT_VAT_ACCOUNT, "debit"), 0));
+    outputVAT = round2(outputVAT);
+
+    const taxableSupplies = round2(supplies.standard);
+    const expectedOutputVAT = round2(taxableSupplies * vatRate);
+    const outputVATVariance = round2(outputVAT - expectedOutputVAT);
+    const netVATPayable = round2(outputVAT - inputVAT - creditBroughtForward);
+
+    return {
+        period,
+        dueDate: vatDueDate(period),
+        vatRate,
+        totalSupplies: round2(supplies.standard + supplies.zero_rated + supplies.exempt),
+        exemptSupplies: round2(supplies.exempt),
+        zeroRatedSupplies: round2(supplies.zero_rated),
+        taxableSupplies,
+        outputVAT,
+        inputVAT,
+        creditBroughtForward,
+        netVATPayable,
+        vatPayable: Math.max(0, netVATPayable),
+        creditCarriedForward: Math.max(0, -netVATPayable),
+        salesJournalCount: sales.length,
+        purchaseJournalCount: purchases.length,
+        reconciliation: {
+            expectedOutputVAT,
+            outputVATVariance,
+            ...exceptions,
+            // Journals round VAT to the naira, so allow a naira per sale
+            isReconciled: Math.abs(outputVATVariance) <= Math.max(1, sales.length)
+                && exceptions.salesWithoutVAT.length === 0
+                && exceptions.vatOnNonTaxableSupplies.length === 0,
+        },
+        rulebook: resolved.reference,
+    };
+}
+
+/**
+ * Builds a VAT return for each month from `from` to `to`, carrying any excess
+ * input VAT forward from one month to the next.
+ */
+export function buildVATReturns(entries: JournalEntry[], options: VATReturnOptions): VATReturnSchedule {
+    const periods = periodsBetween(options.from, options.to || options.from);
+    const classifySupply = options.classifySupply || defaultSupplyClassifier;
+    let credit = round2(Math.max(0, options.creditBroughtForward || 0));
+
+    const months = periods.map(period => {
+        const vatReturn = buildMonth(period, entries, credit, classifySupply);
+        credit = vatReturn.creditCarriedForward;
+        return vatReturn;
+    });
+
+    return {
+        from: periods[0],
+        to: periods[periods.length - 1],
+        months,
+        totalOutputVAT: round2(months.reduce((sum, month) => sum + month.outputVAT, 0)),
+        totalInputVAT: round2(months.reduce((sum, month) => sum + month.inputVAT, 0)),
+        totalVATPayable: round2(months.reduce((sum, month) => sum + month.vatPayable, 0)),
+        creditCarriedForward: credit,
+    };
+}
+
+export function buildMonthlyVATReturn(
+    entries: JournalEntry[],
+    period: string,
+    options: Omit<VATReturnOptions, "from" | "to"> = {}
+): MonthlyVATReturn {
+    return buildVATReturns(entries, { ...options, from: period }).months[0];
+}
+
+/**
+ * The schedule in the line order of the FIRS VAT return (Form 002), one column
+ * per month.
+ */
+export const VAT_RETURN_FORM_LINES: { label: string; value: (month: MonthlyVATReturn) => number | string }[] = [
+    { label: "1. Total sales/income for the month", value: month => month.totalSupplies },
+    { label: "2. Less: exempt sales/income", value: month => month.exemptSupplies },
+    { label: "3. Less: zero-rated sales/income", value: month => month.zeroRatedSupplies },
+    { label: "4. Total supplies subject to VAT (1 - 2 - 3)", value: month => month.taxableSupplies },
+    { label: "5. Output VAT", value: month => month.outputVAT },
+    { label: "6. Input VAT on purchases", value: month => month.inputVAT },
+    { label: "7. Input VAT credit brought forward", value: month => month.creditBroughtForward },
+    { label: "8. VAT payable (5 - 6 - 7)", value: month => month.vatPayable },
+    { label: "9. Excess input VAT carried forward", value: month => month.creditCarriedForward },
+    { label: "Due date", value: month => month.dueDate },
+];
+
+export function vatReturnToCSV(schedule: VATReturnSchedule): string {
+    const cell = (value: number | string) => (/[",\n]/.test(String(value)) ? `"${String(value).replace(/"/g, '""')}"` : String(value));
+    const rows = [
+        ["Line", ...schedule.months.map(month => month.period)],
+        ...VAT_RETURN_FORM_LINES.map(line => [line.label, ...schedule.months.map(line.value)]),
+    ];
+    return rows.map(row => row.map(cell).join(",")).join("\n") + "\n";
+}
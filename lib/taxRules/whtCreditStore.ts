@@ -0,0 +1,142 @@
+import path from "path";
+import { WHTCreditCertificate, WHTCreditSummary } from "../types";
+import { checkWHTCertificateAmounts, WHTCertificateMatch, whtCreditYear } from "./whtCredits";
+import { createJsonStore, requireText } from "./jsonStore";
+import { StatusError } from "../errors";
+
+/**
+ * WHT Credit Registry Store
+ *
+ * Keeps the WHT credit notes each taxpayer has received from customers and the
+ * years in which the credits were used, so unused credits carry forward between
+ * computations. Writing a year's utilisation replaces anything previously
+ * recorded for that year, so a computation can be re-run safely.
+ */
+
+export interface TaxpayerWHTCreditRegistry {
+    taxpayerId: string;          // e.g. TIN
+    certificates: WHTCreditCertificate[];
+    updatedAt: string;
+}
+
+interface WHTCreditRegistryFile {
+    taxpayers: TaxpayerWHTCreditRegistry[];
+}
+
+export class WHTCreditError extends StatusError {
+    name = "WHTCreditError";
+}
+
+const REGISTRY_FILE = process.env.WHT_CREDIT_REGISTRY_FILE || path.join(process.cwd(), "data", "whtCredits.json");
+
+const store = createJsonStore<WHTCreditRegistryFile>({ file: REGISTRY_FILE, description: "WHT credit registry", empty: () => ({ taxpayers: [] }) });
+
+function requireDate(value: unknown, field: string): string {
+    if (typeof value !== "string" || !/^\d{4}-\d{2}-\d{2}$/.test(value) || Number.isNaN(Date.parse(value))) {
+        throw new WHTCreditError(`${field} must be a YYYY-MM-DD date`);
+    }
+    return value;
+}
+
+function registryFor(taxpayerId: string): TaxpayerWHTCreditRegistry {
+    const existing = store.load().taxpayers.find(registry => registry.taxpayerId === taxpayerId);
+    if (existing) {
+        return existing;
+    }
+
+    const registry: TaxpayerWHTCreditRegistry = { taxpayerId, certificates: [], updatedAt: new Date().toISOString() };
+    store.load().taxpayers.push(registry);
+    return registry;
+}
+
+function touch(registry: TaxpayerWHTCreditRegistry) {
+    registry.certificates.sort((a, b) => a.deductionDate.localeCompare(b.deductionDate));
+    store.touch(registry);
+}
+
+export function getWHTCreditRegistry(taxpayerId: string): TaxpayerWHTCreditRegistry | undefined {
+    return store.load().taxpayers.find(registry => registry.taxpayerId === taxpayerId.trim());
+}
+
+/**
+ * Records a credit note received from a customer. A payer issues each
+ * certificate number once, so a repeat is rejected rather than double-counted.
+ */
+export function recordWHTCertificate(
+    taxpayerId: string,
+    details: Omit<WHTCreditCertificate, "id" | "utilisations">
+): TaxpayerWHTCreditRegistry {
+    const certificateNumber = requireText(details.certificateNumber, "certificateNumber", WHTCreditError);
+    const payerTIN = requireText(details.payerTIN, "payerTIN", WHTCreditError);
+    const certificate: WHTCreditCertificate = {
+        id: `${payerTIN}-${certificateNumber}`,
+        certificateNumber,
+        payerName: requireText(details.payerName, "payerName", WHTCreditError),
+        payerTIN,
+        invoiceReference: details.invoiceReference?.trim() || undefined,
+        deductionDate: requireDate(details.deductionDate, "deductionDate"),
+        grossAmount: details.grossAmount,
+        rate: details.rate,
+        whtAmount: details.whtAmount,
+        receiptJournalId: details.receiptJournalId?.trim() || undefined,
+        utilisations: [],
+    };
+    const problem = checkWHTCertificateAmounts(certificate);
+    if (problem) {
+        throw new WHTCreditError(problem);
+    }
+
+    const registry = registryFor(requireText(taxpayerId, "taxpayerId", WHTCreditError));
+    if (registry.certificates.some(existing => existing.id === certificate.id)) {
+        throw new WHTCreditError(`Certificate ${certificateNumber} from ${payerTIN} is already recorded`, 409);
+    }
+    registry.certificates.push(certificate);
+    touch(registry);
+    return registry;
+}
+
+/**
+ * Pins certificates to the ledger receipts they were matched to, so later
+ * matching runs keep the same pairing.
+ */
+export function recordWHTCertificateMatches(taxpayerId: string, matches: WHTCertificateMatch[]): TaxpayerWHTCreditRegistry {
+    const registry = getWHTCreditRegistry(requireText(taxpayerId, "taxpayerId", WHTCreditError));
+    if (!registry) {
+        throw new WHTCreditError(`No WHT credit registry for ${taxpayerId}`, 404);
+    }
+    matches.forEach(match => {
+        const certificate = registry.certificates.find(candidate => candidate.id === match.certificateId);
+        if (certificate) {
+            certificate.receiptJournalId = match.journalId;
+        }
+    });
+    touch(registry);
+    return registry;
+}
+
+/**
+ * Writes a computed year's credit utilisation back to the registry.
+ */
+export function recordWHTCreditUtilisation(taxpayerId: string, summary: WHTCreditSummary): TaxpayerWHTCreditRegistry {
+    const registry = getWHTCreditRegistry(requireText(taxpayerId, "taxpayerId", WHTCreditError));
+    if (!registry) {
+        throw new WHTCreditError(`No WHT credit registry for ${taxpayerId}`, 404);
+    }
+    const { taxYear } = summary;
+
+    const missing = summary.schedule.find(line => line.utilised > 0 && !registry.certificates.some(certificate => certificate.id === line.certificateId));
+    if (missing) {
+        throw new WHTCreditError(`Certificate ${missing.certificateNumber} is not in the registry for ${registry.taxpayerId}`, 409);
+    }
+
+    registry.certificates.forEach(certificate => {
+        certificate.utilisations = certificate.utilisations.filter(utilisation => utilisation.taxYear !== taxYear);
+        const line = summary.schedule.find(candidate => candidate.certificateId === certificate.id);
+        if (line && line.utilised > 0 && whtCreditYear(certificate) <= taxYear) {
+            certificate.utilisations.push({ taxYear, amount: line.utilised });
+        }
+    });
+
+    touch(registry);
+    return registry;
+}
@@ -0,0 +1,197 @@
+import { JournalEntry } from "../accounting/doubleEntry";
+import { WHTCreditCertificate, WHTCreditScheduleLine, WHTCreditSummary } from "../types";
+
+/**
+ * WHT Credits
+ *
+ * Withholding tax deducted by customers is a credit against the recipient's
+ * income tax, but only once the payer's credit note (certificate) is in hand.
+ * Certificates are matched to the income receipts in the ledger that show WHT
+ * deducted, so deductions without a certificate can be chased before filing.
+ *
+ * Credits are applied against the year's tax oldest first; whatever the tax
+ * does not absorb is carried forward to later years.
+ */
+
+export const WHT_RECEIVABLE_ACCOUNT = "1410";
+
+// Rounding on certificates is usually to the naira
+const AMOUNT_TOLERANCE = 1;
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * The tax year in which a certificate's credit arises.
+ */
+export function whtCreditYear(certificate: Pick<WHTCreditCertificate, "deductionDate">): number {
+    return Number(certificate.deductionDate.slice(0, 4));
+}
+
+/**
+ * Describes what is wrong with a certificate's amounts, if anything: the WHT
+ * must equal the gross amount at the stated rate.
+ */
+export function checkWHTCertificateAmounts(
+    certificate: Pick<WHTCreditCertificate, "grossAmount" | "rate" | "whtAmount">
+): string | undefined {
+    const { grossAmount, rate, whtAmount } = certificate;
+    if (!(grossAmount > 0) || !(whtAmount > 0)) {
+        return "grossAmount and whtAmount must be positive";
+    }
+    if (!(rate > 0 && rate < 1)) {
+        return "rate must be a fraction between 0 and 1, e.g. 0.05";
+    }
+    const expected = round2(grossAmount * rate);
+    if (Math.abs(expected - whtAmount) > AMOUNT_TOLERANCE) {
+        return `WHT of ${whtAmount.toLocaleString()} does not equal ${(rate * 100).toFixed(1)}% of ${grossAmount.toLocaleString()} (${expected.toLocaleString()})`;
+    }
+    return undefined;
+}
+
+/**
+ * Credit on a certificate still unused at the start of the tax year.
+ * Utilisations recorded for the tax year itself or later are ignored, so a
+ * year can be recomputed after it has been written to the registry.
+ */
+export function remainingWHTCredit(certificate: WHTCreditCertificate, taxYear: number): number {
+    const used = certificate.utilisations
+        .filter(utilisation => utilisation.taxYear < taxYear)
+        .reduce((sum, utilisation) => sum + utilisation.amount, 0);
+    return Math.max(0, round2(certificate.whtAmount - used));
+}
+
+/**
+ * Applies certified credits arising in or before the tax year against its tax,
+ * oldest first. Returns undefined when there is no credit available.
+ */
+export function applyWHTCredits(
+    certificates: WHTCreditCertificate[],
+    options: { taxYear: number; taxLiability: number }
+): WHTCreditSummary | undefined {
+    const { taxYear } = options;
+    const available = certificates
+        .filter(certificate => whtCreditYear(certificate) <= taxYear)
+        .map(certificate => ({ certificate, amount: remainingWHTCredit(certificate, taxYear) }))
+        .filter(credit => credit.amount > 0)
+        .sort((a, b) => a.certificate.deductionDate.localeCompare(b.certificate.deductionDate));
+
+    if (available.length === 0) {
+        return undefined;
+    }
+
+    let liability = Math.max(0, options.taxLiability);
+    const schedule: WHTCreditScheduleLine[] = available.map(({ certificate, amount }) => {
+        const utilised = round2(Math.min(amount, liability));
+        liability = round2(liability - utilised);
+        return {
+            certificateId: certificate.id,
+            certificateNumber: certificate.certificateNumber,
+            payerName: certificate.payerName,
+            creditYear: whtCreditYear(certificate),
+            broughtForward: amount,
+            utilised,
+            carriedForward: round2(amount - utilised),
+        };
+    });
+
+    const total = (key: "broughtForward" | "utilised" | "carriedForward") =>
+        round2(schedule.reduce((sum, line) => sum + line[key], 0));
+    return {
+        taxYear,
+        schedule,
+        broughtForward: total("broughtForward"),
+        utilised: total("utilised"),
+        carriedForward: total("carriedForward"),
+    };
+}
+
+export interface WHTReceipt {
+    journalId: string;
+    date: string;
+    reference?: string;
+    narration: string;
+    whtAmount: number;             // net debit to WHT Receivable
+}
+
+export type WHTMatchBasis = "journal" | "invoice" | "amount";
+
+export interface WHTCertificateMatch {
+    certificateId: string;
+    journalId: string;
+    matchedBy: WHTMatchBasis;
+    difference: number;            // certificate WHT - WHT deducted on the receipt
+}
+
+export interface WHTMatchReport {
+    matches: WHTCertificateMatch[];
+    unmatchedCertificates: string[];        // certificate ids with no receipt in the ledger
+    receiptsWithoutCertificate: WHTReceipt[]; // WHT deducted but no certificate held
+    totalDeducted: number;
+    totalCertified: number;
+}
+
+/**
+ * Posted income receipts on which the customer deducted WHT.
+ */
+export function findWHTReceipts(entries: JournalEntry[]): WHTReceipt[] {
+    return entries
+        .filter(entry => entry.status === "posted" && (entry.transactionType === "sale" || entry.transactionType === "receipt"))
+        .map(entry => ({
+            journalId: entry.id,
+            date: entry.date,
+            reference: entry.reference,
+            narration: entry.narration,
+            whtAmount: round2(entry.lines
+                .filter(line => line.accountCode === WHT_RECEIVABLE_ACCOUNT)
+                .reduce((sum, line) => sum + line.debit - line.credit, 0)),
+        }))
+        .filter(receipt => receipt.whtAmount > 0);
+}
+
+const mentions = (receipt: WHTReceipt, text: string) => {
+    const needle = text.trim().toLowerCase();
+    return needle.length > 0
+        && ((receipt.reference || "").toLowerCase() === needle || receipt.narration.toLowerCase().includes(needle));
+};
+
+/**
+ * Matches certificates to ledger receipts: first by a journal recorded on the
+ * certificate, then by invoice reference, then by the WHT amount from a receipt
+ * naming the payer. Each receipt is matched to at most one certificate.
+ */
+export function matchWHTCertificates(certificates: WHTCreditCertificate[], entries: JournalEntry[]): WHTMatchReport {
+    const receipts = findWHTReceipts(entries);
+    const claimed = new Set<string>();
+    const matches: WHTCertificateMatch[] = [];
+    let pending = certificates;
+
+    const pass = (matchedBy: WHTMatchBasis, isMatch: (certificate: WHTCreditCertificate, receipt: WHTReceipt) => boolean) => {
+        pending = pending.filter(certificate => {
+            const receipt = receipts.find(candidate => !claimed.has(candidate.journalId) && isMatch(certificate, candidate));
+            if (!receipt) {
+                return true;
+            }
+            claimed.add(receipt.journalId);
+            matches.push({
+                certificateId: certificate.id,
+                journalId: receipt.journalId,
+                matchedBy,
+                difference: round2(certificate.whtAmount - receipt.whtAmount),
+            });
+            return false;
+        });
+    };
+
+    pass("journal", (certificate, receipt) => receipt.journalId === certificate.receiptJournalId);
+    pass("invoice", (certificate, receipt) => mentions(receipt, certificate.invoiceReference || ""));
+    pass("amount", (certificate, receipt) =>
+        Math.abs(receipt.whtAmount - certificate.whtAmount) <= AMOUNT_TOLERANCE && mentions(receipt, certificate.payerName));
+
+    return {
+        matches,
+        unmatchedCertificates: pending.map(certificate => certificate.id),
+        receiptsWithoutCertificate: receipts.filter(receipt => !claimed.has(receipt.journalId)),
+        totalDeducted: round2(receipts.reduce((sum, receipt) => sum + receipt.whtAmount, 0)),
+        totalCertified: round2(certificates.reduce((sum, certificate) => sum + certificate.whtAmount, 0)),
+    };
+}
@@ -0,0 +1,142 @@
+import path from "path";
+import {
+    buildWHTCreditNotes,
+    buildWHTRemittanceSchedule,
+    createWHTDeduction,
+    numberWHTCreditNotes,
+    WHTCreditNote,
+    WHTDeduction,
+    WHTDeductionInput,
+    whtAuthority,
+    WHTRemittanceError,
+    WHTRemittanceSchedule,
+} from "./whtRemittance";
+import { createJsonStore, requireText } from "./jsonStore";
+
+/**
+ * WHT Deduction Store
+ *
+ * Keeps the WHT each payer has deducted from its suppliers and when it was
+ * remitted, so the monthly remittance schedule and the beneficiaries' credit
+ * notes can be produced at any time.
+ */
+
+export interface PayerWHTDeductions {
+    payerId: string;             // e.g. payer TIN
+    payerName?: string;
+    deductions: WHTDeduction[];
+    updatedAt: string;
+}
+
+interface WHTDeductionFile {
+    payers: PayerWHTDeductions[];
+}
+
+const DEDUCTION_FILE = process.env.WHT_DEDUCTION_FILE || path.join(process.cwd(), "data", "whtDeductions.json");
+
+const store = createJsonStore<WHTDeductionFile>({ file: DEDUCTION_FILE, description: "WHT deduction store", empty: () => ({ payers: [] }) });
+
+function payerFor(payerId: string): PayerWHTDeductions {
+    const existing = store.load().payers.find(payer => payer.payerId === payerId);
+    if (existing) {
+        return existing;
+    }
+
+    const payer: PayerWHTDeductions = { payerId, deductions: [], updatedAt: new Date().toISOString() };
+    store.load().payers.push(payer);
+    return payer;
+}
+
+function touch(payer: PayerWHTDeductions) {
+    payer.deductions.sort((a, b) => a.paymentDate.localeCompare(b.paymentDate));
+    store.touch(payer);
+}
+
+function requirePayer(payerId: string): PayerWHTDeductions {
+    const payer = getPayerWHTDeductions(requireText(payerId, "payerId", WHTRemittanceError));
+    if (!payer) {
+        throw new WHTRemittanceError(`No WHT deductions recorded for ${payerId}`, 404);
+    }
+    return payer;
+}
+
+export function getPayerWHTDeductions(payerId: string): PayerWHTDeductions | undefined {
+    return store.load().payers.find(payer => payer.payerId === payerId.trim());
+}
+
+export function recordWHTDeduction(payerId: string, input: WHTDeductionInput, payerName?: string): WHTDeduction {
+    const payer = payerFor(requireText(payerId, "payerId", WHTRemittanceError));
+    const sequence = payer.deductions.reduce((max, deduction) => Math.max(max, Number(deduction.id.split("-").pop()) || 0), 0) + 1;
+    const deduction = createWHTDeduction(`WHTD-${String(sequence).padStart(4, "0")}`, input);
+    if (deduction.journalId && payer.deductions.some(existing => existing.journalId === deduction.journalId)) {
+        throw new WHTRemittanceError(`Journal ${deduction.journalId} already has a WHT deduction recorded`, 409);
+    }
+
+    payer.deductions.push(deduction);
+    if (payerName?.trim()) {
+        payer.payerName = payerName.trim();
+    }
+    touch(payer);
+    return deduction;
+}
+
+/**
+ * Removes a deduction recorded in error. Remitted deductions are kept, since
+ * the tax authority already holds the money against them.
+ */
+export function removeWHTDeduction(payerId: string, deductionId: string): PayerWHTDeductions {
+    const payer = requirePayer(payerId);
+    const deduction = payer.deductions.find(candidate => candidate.id === deductionId);
+    if (!deduction) {
+        throw new WHTRemittanceError(`No WHT deduction ${deductionId}`, 404);
+    }
+    if (deduction.remittance) {
+        throw new WHTRemittanceError(`WHT deduction ${deductionId} has already been remitted`, 409);
+    }
+    payer.deductions = payer.deductions.filter(candidate => candidate !== deduction);
+    touch(payer);
+    return payer;
+}
+
+/**
+ * Marks the month's unremitted deductions for one authority as remitted and
+ * numbers the credit notes due to their beneficiaries.
+ */
+export function markWHTRemitted(
+    payerId: string,
+    details: { period: string; authority: string; remittedOn: string; receiptNumber?: string }
+): WHTDeduction[] {
+    const payer = requirePayer(payerId);
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(details.remittedOn || "") || Number.isNaN(Date.parse(details.remittedOn))) {
+        throw new WHTRemittanceError("remittedOn must be a YYYY-MM-DD date");
+    }
+
+    const marked = payer.deductions.filter(deduction =>
+        deduction.paymentDate.slice(0, 7) === details.period
+        && !deduction.remittance
+        && whtAuthority(deduction).authority === details.authority);
+    if (marked.length === 0) {
+        throw new WHTRemittanceError(`No unremitted WHT for ${details.authority} in ${details.period}`, 404);
+    }
+
+    marked.forEach(deduction => {
+        deduction.remittance = { remittedOn: details.remittedOn, receiptNumber: details.receiptNumber };
+    });
+    numberWHTCreditNotes(payer.deductions, details.period);
+    touch(payer);
+    return marked;
+}
+
+export function getWHTRemittanceSchedule(payerId: string, period: string, asOf?: string): WHTRemittanceSchedule {
+    return buildWHTRemittanceSchedule(requirePayer(payerId).deductions, period, asOf);
+}
+
+export function getWHTCreditNotes(payerId: string, period: string): WHTCreditNote[] {
+    const payer = requirePayer(payerId);
+    // Remittances recorded before notes were numbered keep the number first issued
+    if (payer.deductions.some(deduction => deduction.paymentDate.slice(0, 7) === period && deduction.remittance && !deduction.remittance.creditNoteNumber)) {
+        numberWHTCreditNotes(payer.deductions, period);
+        touch(payer);
+    }
+    return buildWHTCreditNotes(buildWHTRemittanceSchedule(payer.deductions, period), { payerTIN: payer.payerId, payerName: payer.payerName });
+}
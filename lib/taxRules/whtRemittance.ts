@@ -0,0 +1,382 @@
+/**
+ * WHT Deduction and Remittance Schedule
+ *
+ * Records the WHT a payer deducts from suppliers and builds the monthly
+ * remittance schedule, grouped by the revenue authority the tax is paid to and
+ * then by beneficiary. WHT deducted from companies (and from non-residents) is
+ * remitted to FIRS; WHT deducted from resident individuals goes to the Internal
+ * Revenue Service of the state they live in. Both are due by the 21st of the
+ * month after the deduction.
+ *
+ * Once the WHT is remitted, each beneficiary is issued a credit note for the
+ * deductions covered, which they claim against their own income tax.
+ */
+
+import { JournalEntry } from "../accounting/doubleEntry";
+import { stateRevenueService } from "./paye";
+import { calculateSingleWHT } from "./wht";
+import { StatusError } from "../errors";
+
+export type WHTBeneficiaryType = "company" | "individual";
+
+export type WHTAuthorityLevel = "federal" | "state";
+
+export interface WHTRemittanceRecord {
+    remittedOn: string;              // YYYY-MM-DD
+    receiptNumber?: string;
+    creditNoteNumber?: string;       // credit note issued to the beneficiary for this remittance
+}
+
+export interface WHTDeduction {
+    id: string;
+    paymentDate: string;             // YYYY-MM-DD the supplier was paid and WHT deducted
+    beneficiaryName: string;
+    beneficiaryTIN?: string;
+    beneficiaryType: WHTBeneficiaryType;
+    beneficiaryState?: string;       // state of residence, for individuals
+    isResident: boolean;
+    paymentType: string;             // a WHT_RATES payment type
+    description?: string;
+    invoiceReference?: string;
+    grossAmount: number;
+    rate: number;
+    whtAmount: number;
+    journalId?: string;              // ledger journal that posted the deduction to WHT Payable
+    remittance?: WHTRemittanceRecord;
+}
+
+export type WHTDeductionInput = Omit<WHTDeduction, "id" | "rate" | "whtAmount" | "remittance">;
+
+export interface WHTScheduleBeneficiary {
+    beneficiaryName: string;
+    beneficiaryTIN?: string;
+    deductions: WHTDeduction[];
+    grossAmount: number;
+    whtAmount: number;
+}
+
+export type WHTRemittanceStatus = "remitted" | "part_remitted" | "outstanding";
+
+export interface WHTRemittanceGroup {
+    authority: string;
+    level: WHTAuthorityLevel;
+    state?: string;
+    beneficiaries: WHTScheduleBeneficiary[];
+    grossAmount: number;
+    whtAmount: number;
+    remitted: number;
+    outstanding: number;
+    status: WHTRemittanceStatus;
+    overdue: boolean;
+}
+
+export interface WHTRemittanceSchedule {
+    period: string;                  // YYYY-MM
+    dueDate: string;
+    groups: WHTRemittanceGroup[];
+    totals: { grossAmount: number; whtAmount: number; remitted: number; outstanding: number };
+}
+
+export interface WHTCreditNote {
+    certificateNumber: string;
+    period: string;
+    issueDate: string;
+    payerTIN: string;
+    payerName?: string;
+    beneficiaryName: string;
+    beneficiaryTIN?: string;
+    authority: string;
+    deductions: WHTDeduction[];
+    grossAmount: number;
+    whtAmount: number;
+}
+
+export class WHTRemittanceError extends StatusError {
+    name = "WHTRemittanceError";
+}
+
+export const FIRS_AUTHORITY = "Federal Inland Revenue Service";
+export const WHT_PAYABLE_ACCOUNT = "2220";
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+const PERIOD_PATTERN = /^(\d{4})-(0[1-9]|1[0-2])$/;
+
+function parsePeriod(period: string): { year: number; month: number } {
+    const match = PERIOD_PATTERN.exec(period || "");
+    if (!match) {
+        throw new WHTRemittanceError(`WHT period "${period}" must be in YYYY-MM format`);
+    }
+    return { year: Number(match[1]), month: Number(match[2]) };
+}
+
+/**
+ * WHT deducted in a month is due by the 21st of the following month.
+ */
+export function whtDueDate(period: string): string {
+    const { year, month } = parsePeriod(period);
+    return month === 12 ? `${year + 1}-01-21` : `${year}-${String(month + 1).padStart(2, "0")}-21`;
+}
+
+/**
+ * The authority a deduction is remitted to: the beneficiary's state IRS for
+ * resident individuals, FIRS otherwise.
+ */
+export function whtAuthority(deduction: Pick<WHTDeduction, "beneficiaryType" | "beneficiaryState" | "isResident">): {
+    authority: string;
+    level: WHTAuthorityLevel;
+    state?: string;
+} {
+    if (deduction.beneficiaryType === "individual" && deduction.isResident) {
+        const state = (deduction.beneficiaryState || "").trim();
+        return { authority: stateRevenueService(state), level: "state", state };
+    }
+    return { authority: FIRS_AUTHORITY, level: "federal" };
+}
+
+/**
+ * Validates a payment and computes the WHT at the rate for its payment type
+ * and the beneficiary's residence.
+ */
+export function createWHTDeduction(id: string, input: WHTDeductionInput): WHTDeduction {
+    if (!input.beneficiaryName || !input.beneficiaryName.trim()) {
+        throw new WHTRemittanceError("beneficiaryName is required");
+    }
+    if (input.beneficiaryType !== "company" && input.beneficiaryType !== "individual") {
+        throw new WHTRemittanceError("beneficiaryType must be company or individual");
+    }
+    if (input.beneficiaryType === "individual" && input.isResident && !input.beneficiaryState?.trim()) {
+        throw new WHTRemittanceError(`${input.beneficiaryName} needs a state of residence; WHT on individuals is remitted to their state`);
+    }
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(input.paymentDate || "") || Number.isNaN(Date.parse(input.paymentDate))) {
+        throw new WHTRemittanceError("paymentDate must be a YYYY-MM-DD date");
+    }
+    if (typeof input.grossAmount !== "number" || !Number.isFinite(input.grossAmount) || input.grossAmount <= 0) {
+        throw new WHTRemittanceError("grossAmount must be a positive number");
+    }
+    const calculation = calculateSingleWHT({ paymentType: input.paymentType, amount: input.grossAmount, isResident: input.isResident });
+    if (!calculation) {
+        throw new WHTRemittanceError(`Unknown WHT payment type: ${input.paymentType}`);
+    }
+
+    return {
+        ...input,
+        id,
+        beneficiaryName: input.beneficiaryName.trim(),
+        beneficiaryTIN: input.beneficiaryTIN?.trim() || undefined,
+        beneficiaryState: input.beneficiaryType === "individual" ? input.beneficiaryState?.trim() || undefined : undefined,
+        rate: calculation.rate,
+        whtAmount: round2(calculation.whtAmount),
+    };
+}
+
+const beneficiaryKey = (deduction: WHTDeduction) =>
+    (deduction.beneficiaryTIN || deduction.beneficiaryName).trim().toLowerCase();
+
+/**
+ * Schedule of the WHT deducted in a month, by authority and beneficiary.
+ * A group is overdue when WHT is still outstanding after the due date.
+ */
+export function buildWHTRemittanceSchedule(
+    deductions: WHTDeduction[],
+    period: string,
+    asOf: string = new Date().toISOString().slice(0, 10)
+): WHTRemittanceSchedule {
+    const dueDate = whtDueDate(period);
+    const groups = new Map<string, WHTRemittanceGroup>();
+
+    deductions
+        .filter(deduction => deduction.paymentDate.slice(0, 7) === period)
+        .sort((a, b) => a.paymentDate.localeCompare(b.paymentDate))
+        .forEach(deduction => {
+            const { authority, level, state } = whtAuthority(deduction);
+            let group = groups.get(authority);
+            if (!group) {
+                group = { authority, level, state, beneficiaries: [], grossAmount: 0, whtAmount: 0, remitted: 0, outstanding: 0, status: "outstanding", overdue: false };
+                groups.set(authority, group);
+            }
+            let beneficiary = group.beneficiaries.find(candidate => beneficiaryKey(candidate.deductions[0]) === beneficiaryKey(deduction));
+            if (!beneficiary) {
+                beneficiary = { beneficiaryName: deduction.beneficiaryName, beneficiaryTIN: deduction.beneficiaryTIN, deductions: [], grossAmount: 0, whtAmount: 0 };
+                group.beneficiaries.push(beneficiary);
+            }
+            beneficiary.deductions.push(deduction);
+            beneficiary.grossAmount = round2(beneficiary.grossAmount + deduction.grossAmount);
+            beneficiary.whtAmount = round2(beneficiary.whtAmount + deduction.whtAmount);
+            group.grossAmount = round2(group.grossAmount + deduction.grossAmount);
+            group.whtAmount = round2(group.whtAmount + deduction.whtAmount);
+            if (deduction.remittance) {
+                group.remitted = round2(group.remitted + deduction.whtAmount);
+            }
+        });
+
+    // Federal remittance first, then states alphabetically
+    const sorted = [...groups.values()].sort((a, b) =>
+        a.level === b.level ? a.authority.localeCompare(b.authority) : a.level === "federal" ? -1 : 1);
+    sorted.forEach(group => {
+        group.outstanding = round2(group.whtAmount - group.remitted);
+        group.status = group.outstanding <= 0 ? "remitted" : group.remitted > 0 ? "part_remitted" : "outstanding";
+        group.overdue = group.outstanding > 0 && asOf > dueDate;
+    });
+
+    const total = (key: "grossAmount" | "whtAmount" | "remitted" | "outstanding") =>
+        round2(sorted.reduce((sum, group) => sum + group[key], 0));
+    return {
+        period,
+        dueDate,
+        groups: sorted,
+        totals: { grossAmount: total("grossAmount"), whtAmount: total("whtAmount"), remitted: total("remitted"), outstanding: total("outstanding") },
+    };
+}
+
+/**
+ * Short code for an authority in document numbers: FIRS, or the first three
+ * letters of the state
+ */
+export function whtAuthorityCode(authority: { level: WHTAuthorityLevel; state?: string }): string {
+    return authority.level === "federal" ? "FIRS" : (authority.state || "STATE").slice(0, 3).toUpperCase();
+}
+
+/**
+ * Next credit note number for a month and authority, after those already
+ * given to `deductions`: WHT-<YYYYMM>-<authority>-<sequence>.
+ */
+export function nextWHTCreditNoteNumber(deductions: WHTDeduction[], period: string, authority: { level: WHTAuthorityLevel; state?: string }): string {
+    const prefix = `WHT-${period.replace("-", "")}-${whtAuthorityCode(authority)}-`;
+    const issued = deductions
+        .map(deduction => deduction.remittance?.creditNoteNumber)
+        .filter((number): number is string => Boolean(number?.startsWith(prefix)))
+        .map(number => Number(number.slice(prefix.length)) || 0);
+    return `${prefix}${String(Math.max(0, ...issued) + 1).padStart(3, "0")}`;
+}
+
+/**
+ * Gives each beneficiary's newly remitted deductions a credit note number.
+ * Numbers already given are kept, so a note keeps its number however many
+ * other beneficiaries are remitted later.
+ */
+export function numberWHTCreditNotes(deductions: WHTDeduction[], period: string): void {
+    const notes = new Map<string, string>();
+    deductions
+        .filter(deduction => deduction.paymentDate.slice(0, 7) === period && deduction.remittance && !deduction.remittance.creditNoteNumber)
+        .forEach(deduction => {
+            const { level, state } = whtAuthority(deduction);
+            const key = `${level}:${state || ""}:${beneficiaryKey(deduction)}:${deduction.remittance!.remittedOn}`;
+            if (!notes.has(key)) {
+                notes.set(key, nextWHTCreditNoteNumber(deductions, period, { level, state }));
+            }
+            deduction.remittance!.creditNoteNumber = notes.get(key);
+        });
+}
+
+/**
+ * Credit notes for the month's remitted deductions, one per beneficiary and
+ * remittance. Deductions not yet remitted get no note. Notes are dated the
+ * day the WHT was remitted unless `issueDate` is given.
+ */
+export function buildWHTCreditNotes(
+    schedule: WHTRemittanceSchedule,
+    payer: { payerTIN: string; payerName?: string },
+    issueDate?: string
+): WHTCreditNote[] {
+    const numbered = schedule.groups.flatMap(group => group.beneficiaries.flatMap(beneficiary => beneficiary.deductions))
+        .filter(deduction => deduction.remittance)
+        .map(deduction => ({ ...deduction, remittance: { ...deduction.remittance! } }));
+    numberWHTCreditNotes(numbered, schedule.period);
+
+    return schedule.groups.flatMap(group => group.beneficiaries.flatMap(beneficiary => {
+        const notes = new Map<string, WHTCreditNote>();
+        beneficiary.deductions.forEach(deduction => {
+            const remittance = numbered.find(candidate => candidate.id === deduction.id)?.remittance;
+            if (!remittance?.creditNoteNumber) {
+                return;
+            }
+            let note = notes.get(remittance.creditNoteNumber);
+            if (!note) {
+                note = {
+                    certificateNumber: remittance.creditNoteNumber,
+                    period: schedule.period,
+                    issueDate: issueDate || remittance.remittedOn,
+                    payerTIN: payer.payerTIN,
+                    payerName: payer.payerName,
+                    beneficiaryName: beneficiary.beneficiaryName,
+                    beneficiaryTIN: beneficiary.beneficiaryTIN,
+                    authority: group.authority,
+                    deductions: [],
+                    grossAmount: 0,
+                    whtAmount: 0,
+                };
+                notes.set(remittance.creditNoteNumber, note);
+            }
+            note.deductions.push(deduction);
+            note.grossAmount = round2(note.grossAmount + deduction.grossAmount);
+            note.whtAmount = round2(note.whtAmount + deduction.whtAmount);
+        });
+        return [...notes.values()];
+    }));
+}
+
+/**
+ * Ledger journals that credited WHT Payable but have no recorded deduction, so
+ * the beneficiary details needed for the schedule are missing.
+ */
+export function journalsWithoutWHTDeduction(entries: JournalEntry[], deductions: WHTDeduction[]): JournalEntry[] {
+    const recorded = new Set(deductions.map(deduction => deduction.journalId).filter(Boolean));
+    return entries.filter(entry =>
+        entry.status === "posted"
+        && !recorded.has(entry.id)
+        && entry.transactionType !== "payment"
+        && entry.lines.some(line => line.accountCode === WHT_PAYABLE_ACCOUNT && line.credit > 0));
+}
+
+function csvCell(value: string | number | undefined): string {
+    const text = value === undefined ? "" : String(value);
+    return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function csvRows(rows: (string | number | undefined)[][]): string {
+    return rows.map(row => row.map(csvCell).join(",")).join("\n") + "\n";
+}
+
+export function whtScheduleToCSV(schedule: WHTRemittanceSchedule, payerTIN: string): string {
+    return csvRows([
+        ["WHT Remittance Schedule"],
+        ["Payer TIN", payerTIN],
+        ["Month", schedule.period],
+        ["Due Date", schedule.dueDate],
+        ...schedule.groups.flatMap(group => [
+            [],
+            [group.authority, "", "", "", "", "", "", group.status.replace(/_/g, " ")],
+            ["Beneficiary", "Beneficiary TIN", "Payment Date", "Payment Type", "Invoice", "Gross Amount", "Rate", "WHT Deducted"],
+            ...group.beneficiaries.flatMap(beneficiary => beneficiary.deductions.map(deduction => [
+                beneficiary.beneficiaryName, beneficiary.beneficiaryTIN, deduction.paymentDate, deduction.paymentType,
+                deduction.invoiceReference, deduction.grossAmount, deduction.rate, deduction.whtAmount,
+            ])),
+            ["TOTAL", "", "", "", "", group.grossAmount, "", group.whtAmount],
+        ]),
+        [],
+        ["TOTAL WHT", schedule.totals.whtAmount],
+        ["Remitted", schedule.totals.remitted],
+        ["Outstanding", schedule.totals.outstanding],
+    ]);
+}
+
+export function whtCreditNoteToCSV(note: WHTCreditNote): string {
+    return csvRows([
+        ["Withholding Tax Credit Note"],
+        ["Certificate No.", note.certificateNumber],
+        ["Issue Date", note.issueDate],
+        ["Payer", note.payerName || note.payerTIN],
+        ["Payer TIN", note.payerTIN],
+        ["Beneficiary", note.beneficiaryName],
+        ["Beneficiary TIN", note.beneficiaryTIN],
+        ["Remitted To", note.authority],
+        ["Month", note.period],
+        [],
+        ["Payment Date", "Payment Type", "Invoice", "Gross Amount", "Rate", "WHT Deducted"],
+        ...note.deductions.map(deduction => [
+            deduction.paymentDate, deduction.paymentType, deduction.invoiceReference, deduction.grossAmount, deduction.rate, deduction.whtAmount,
+        ]),
+        ["TOTAL", "", "", note.grossAmount, "", note.whtAmount],
+    ]);
+}
@@ -3,6 +3,11 @@
  * Core TypeScript interfaces for tax calculation
  */
 
+import type { RuleBookReference } from "./taxRules/registry";
+import type { AnnualPAYEReturn } from "./taxRules/payeReturn";
+import type { SalesInvoice } from "./accounting/invoicing";
+import type { DeferredTaxReconciliation } from "./accounting/deferredTax";
+
 export type TaxpayerType = "freelancer" | "company";
 
 export interface UserProfile {
@@ -13,6 +18,8 @@ export interface UserProfile {
     stateOfResidence: string; // e.g. "Lagos"
     isVATRegistered: boolean;
     currency: "NGN";
+    fiscalYearEnd?: string;   // MM-DD, defaults to 12-31
+    businessCommencementDate?: string; // YYYY-MM-DD, for the minimum tax exemption in the first years of business
 }
 
 export interface IncomeEntry {
@@ -37,6 +44,54 @@ export interface WithholdingCertificate {
     fileData?: string;             // base64 for quick reference (client-side usage)
 }
 
+export type CapitalAssetClass =
+    | "buildings"
+    | "plant-machinery"
+    | "motor-vehicles"
+    | "furniture-fittings"
+    | "computers"
+    | "office-equipment";
+
+export interface FixedAssetRecord {
+    id: string;
+    description: string;
+    assetClass: CapitalAssetClass;
+    cost: number;
+    acquisitionDate: string;       // ISO date
+    disposalDate?: string;         // ISO date, if sold or scrapped
+    disposalProceeds?: number;
+}
+
+export interface LossUtilisation {
+    taxYear: number;               // year in which the loss was relieved
+    amount: number;
+}
+
+export interface LossLedgerEntry {
+    taxYear: number;               // year in which the adjusted loss arose
+    adjustedLoss: number;
+    utilisations: LossUtilisation[];
+}
+
+export interface WHTCreditUtilisation {
+    taxYear: number;               // year against whose tax the credit was used
+    amount: number;
+}
+
+export interface WHTCreditCertificate {
+    id: string;
+    certificateNumber: string;
+    payerName: string;
+    payerTIN: string;
+    invoiceReference?: string;     // our invoice the payer deducted WHT from
+    deductionDate: string;         // ISO date the WHT was deducted; the credit arises in that year
+    grossAmount: number;           // invoice amount before the deduction
+    rate: number;                  // e.g. 0.05
+    whtAmount: number;
+    receiptJournalId?: string;     // ledger receipt the certificate has been matched to
+    utilisations: WHTCreditUtilisation[];
+}
+
 export interface TaxInputs {
     grossRevenue: number;          // total business income for the year
     allowableExpenses: number;     // deductible business expenses
@@ -44,13 +99,16 @@ export interface TaxInputs {
     nhfContributions?: number;
     lifeInsurancePremiums?: number;
     otherReliefs?: number;
+    annualRentPaid?: number;       // basis for rent relief under NTA 2025
     incomeEntries?: IncomeEntry[]; // optional detailed income log
     payrollEntries?: PayrollEntry[]; // optional detailed payroll log
     vatTaxablePurchases?: number;  // purchases on which VAT was paid
     inputVATPaid?: number;         // manually supplied input VAT
     withholdingTaxCredits?: number;
     withholdingCertificates?: WithholdingCertificate[];
-    priorYearLosses?: number;
+    whtCreditRegistry?: WHTCreditCertificate[]; // certified credits, applied oldest first instead of withholdingTaxCredits
+    priorYearLosses?: number;      // manual figure, used when no lossLedger is supplied
+    lossLedger?: LossLedgerEntry[]; // adjusted losses by year, relieved oldest first
     investmentAllowance?: number;
     ruralInvestmentAllowance?: number;
     pioneerStatusRelief?: number;
@@ -58,7 +116,11 @@ export interface TaxInputs {
     turnover?: number;
     costOfSales?: number;
     operatingExpenses?: number;
-    capitalAllowance?: number;
+    capitalAllowance?: number;     // manual figure, used when no fixedAssets register is supplied
+    fixedAssets?: FixedAssetRecord[]; // register from which capital allowances are computed
+    unabsorbedCapitalAllowance?: number; // unclaimed allowances brought forward from prior years
+    totalFixedAssets?: number;     // small company asset test under NTA 2025
+    frankedInvestmentIncome?: number; // dividends taxed at source, outside the minimum tax base
 }
 
 export interface TaxBandBreakdown {
@@ -75,6 +137,88 @@ export interface VATSummary {
     netVATPayable: number;     // positive = payable, negative = refundable
 }
 
+export interface CapitalAllowanceScheduleLine {
+    assetId: string;
+    description: string;
+    assetClass: CapitalAssetClass;
+    cost: number;
+    openingTWDV: number;           // tax written-down value at the start of the year
+    additions: number;             // cost, in the year of acquisition
+    initialAllowance: number;
+    annualAllowance: number;
+    balancingCharge: number;
+    balancingAllowance: number;
+    closingTWDV: number;
+    disposed: boolean;
+}
+
+export interface CapitalAllowanceSummary {
+    taxYear: number;
+    source: "register" | "manual";
+    schedule: CapitalAllowanceScheduleLine[];
+    initialAllowances: number;
+    annualAllowances: number;
+    balancingAllowances: number;
+    balancingCharges: number;      // added back to assessable profit
+    unabsorbedBroughtForward: number;
+    totalAvailable: number;
+    restrictionCap?: number;       // e.g. two-thirds of assessable profit for companies
+    allowanceClaimed: number;
+    unabsorbedCarriedForward: number;
+}
+
+export interface LossScheduleLine {
+    lossYear: number;
+    broughtForward: number;
+    expired: number;               // relief lost to the carry-forward time limit
+    utilised: number;
+    carriedForward: number;
+    lastYearOfRelief?: number;     // undefined when relief is not time-limited
+}
+
+export interface LossReliefSummary {
+    taxYear: number;
+    source: "ledger" | "manual";
+    schedule: LossScheduleLine[];
+    broughtForward: number;
+    expired: number;
+    utilised: number;
+    currentYearLoss: number;
+    carriedForward: number;
+}
+
+export interface WHTCreditScheduleLine {
+    certificateId: string;
+    certificateNumber: string;
+    payerName: string;
+    creditYear: number;
+    broughtForward: number;
+    utilised: number;
+    carriedForward: number;
+}
+
+export interface WHTCreditSummary {
+    taxYear: number;
+    schedule: WHTCreditScheduleLine[];
+    broughtForward: number;
+    utilised: number;
+    carriedForward: number;
+}
+
+export type MinimumTaxExemption = "small_company" | "commencement";
+
+export interface MinimumTaxSummary {
+    ruleKey: string;               // rulebook rule the minimum was measured under
+    base: number;                  // gross income, or turnover less franked investment income
+    rate: number;
+    minimumTax: number;
+    computedTax: number;           // tax on the taxable profit or income
+    taxDue: number;                // the higher of the two, or the computed tax when exempt
+    binding: "computed" | "minimum" | "exempt";
+    exemption?: MinimumTaxExemption;
+    citation: string;              // the rule that bound
+}
+
 export interface TaxResult {
     taxpayerType: TaxpayerType;
     taxYear: number;
@@ -90,6 +234,11 @@ export interface TaxResult {
     statutoryReferences: StatutoryReference[];
     calculationTrace: CalculationTraceEntry[];
     taxRuleMetadata: TaxRuleMetadata;
+    rulebook?: RuleBookReference;  // rulebook version the computation was resolved against
+    capitalAllowances?: CapitalAllowanceSummary;
+    lossRelief?: LossReliefSummary;
+    whtCredits?: WHTCreditSummary;
+    minimumTax?: MinimumTaxSummary;
     reconciliationReport?: any[]; // Using any[] temporarily, will use ReconciliationRow from rulebook.ts
 }
 
@@ -97,6 +246,10 @@ export interface TaxResult {
 export interface CalculateTaxRequest {
     profile: UserProfile;
     inputs: TaxInputs;
+    compareRulebookId?: string;    // e.g. "ng_federal_2026" to see what changes under another regime
+    taxpayerId?: string;           // e.g. TIN; loads the stored loss ledger
+    recordLosses?: boolean;        // write this year's loss relief back to the stored ledger
+    recordWHTCredits?: boolean;    // write this year's WHT credit utilisation back to the registry
 }
 
 export interface GeneratePdfRequest {
@@ -105,6 +258,31 @@ export interface GeneratePdfRequest {
     result: TaxResult;
 }
 
+export interface GeneratePAYEReturnPdfRequest {
+    document: "paye-return";
+    payeReturn: AnnualPAYEReturn;
+    employeeId?: string;           // render this employee's tax deduction card instead of the return
+}
+
+export interface InvoiceSeller {
+    name: string;
+    address?: string;
+    tin?: string;
+    vatNumber?: string;
+}
+
+export interface GenerateSalesInvoicePdfRequest {
+    document: "sales-invoice";
+    invoice: SalesInvoice;
+    seller?: InvoiceSeller;        // printed in the invoice header
+}
+
+export interface GenerateDeferredTaxPdfRequest {
+    document: "deferred-tax";
+    reconciliation: DeferredTaxReconciliation;
+    entityName?: string;           // printed in the header
+}
+
 // Tax Optimization Suggestions
 export type OptimizationType =
     | "pension"
@@ -155,15 +333,79 @@ export interface TaxRuleMetadata {
     source: string;
     lastUpdated?: string | null;
     remoteUrl?: string;
+    overrideVersion?: number | null; // approved override history version in force (null = base rules)
 }
 
+// Re-export rulebook registry types
+export type { RuleBookReference } from "./taxRules/registry";
+
 // Re-export WHT types for convenience
 export type { WHTInput, WHTCalculation, WHTResult } from "./taxRules/wht";
 export type { WHTRate } from "./taxRules/whtConfig";
+export type { WHTReceipt, WHTCertificateMatch, WHTMatchReport } from "./taxRules/whtCredits";
+export type {
+    WHTDeduction,
+    WHTRemittanceGroup,
+    WHTRemittanceSchedule,
+    WHTCreditNote
+} from "./taxRules/whtRemittance";
 
 // Re-export CGT types
 export type { CGTInput, CGTResult } from "./taxRules/cgt";
 
+// Re-export PAYE types
+export type {
+    PayrollEmployee,
+    PAYEComputation,
+    Payslip,
+    PayrollRemittance,
+    PayrollRemittanceType,
+    PayrollTotals,
+    PayrollRun,
+    PayrollRunOptions
+} from "./taxRules/paye";
+
+// Re-export annual PAYE return types
+export type {
+    AnnualPAYEReturn,
+    PAYEReturnLine,
+    PAYEReconciliation,
+    PAYERemittancePayment,
+    TaxDeductionCard
+} from "./taxRules/payeReturn";
+
+// Re-export VAT classification types
+export type {
+    VATClassification,
+    VATClassificationEntry
+} from "./taxRules/vatClassification";
+
+// Re-export VAT return types
+export type {
+    MonthlyVATReturn,
+    VATReturnReconciliation,
+    VATReturnSchedule,
+    VATSupplyType
+} from "./taxRules/vatReturn";
+
+// Re-export tax calendar types
+export type {
+    LatePenalty,
+    TaxCalendar,
+    TaxCalendarEntry,
+    TaxCalendarProfile,
+    TaxCalendarStatus,
+    TaxFilingRecord
+} from "./taxRules/taxCalendar";
+
+// Re-export CIT instalment planner types
+export type {
+    CITInstalmentLine,
+    CITInstalmentPayment,
+    CITInstalmentPlan,
+    CITProvisionalEstimate
+} from "./taxRules/citProvisional";
+
 // Re-export TET types
 export type { TETInput, TETResult } from "./taxRules/tet";
 
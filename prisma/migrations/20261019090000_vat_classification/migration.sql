@@ -0,0 +1,12 @@
+-- AlterTable
+ALTER TABLE "Category" ADD COLUMN "vatClass" TEXT;
+
+-- AlterTable
+ALTER TABLE "Product" ADD COLUMN "vatClass" TEXT;
+
+-- AlterTable
+ALTER TABLE "Sale" ADD COLUMN "vatAmount" REAL NOT NULL DEFAULT 0;
+
+-- AlterTable
+ALTER TABLE "SaleLine" ADD COLUMN "vatClass" TEXT NOT NULL DEFAULT 'standard';
+ALTER TABLE "SaleLine" ADD COLUMN "vatAmount" REAL NOT NULL DEFAULT 0;
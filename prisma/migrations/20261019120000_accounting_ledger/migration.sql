@@ -0,0 +1,56 @@
+-- CreateTable
+CREATE TABLE "LedgerAccount" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "companyId" TEXT NOT NULL,
+    "code" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "normalBalance" TEXT NOT NULL,
+    "subClass" TEXT,
+    "description" TEXT,
+    "isCustom" BOOLEAN NOT NULL DEFAULT false,
+    "closingBalance" REAL NOT NULL DEFAULT 0,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "LedgerAccount_companyId_fkey" FOREIGN KEY ("companyId") REFERENCES "Company" ("id") ON DELETE RESTRICT ON UPDATE CASCADE
+);
+
+-- CreateTable
+CREATE TABLE "JournalEntry" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "companyId" TEXT NOT NULL,
+    "date" TEXT NOT NULL,
+    "narration" TEXT NOT NULL,
+    "reference" TEXT,
+    "transactionType" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'posted',
+    "totalDebits" REAL NOT NULL,
+    "totalCredits" REAL NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "postedAt" DATETIME,
+    "voidedAt" DATETIME,
+    "voidReason" TEXT,
+    CONSTRAINT "JournalEntry_companyId_fkey" FOREIGN KEY ("companyId") REFERENCES "Company" ("id") ON DELETE RESTRICT ON UPDATE CASCADE
+);
+
+-- CreateTable
+CREATE TABLE "JournalLine" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "journalEntryId" TEXT NOT NULL,
+    "lineNo" INTEGER NOT NULL,
+    "accountCode" TEXT NOT NULL,
+    "accountName" TEXT NOT NULL,
+    "debit" REAL NOT NULL DEFAULT 0,
+    "credit" REAL NOT NULL DEFAULT 0,
+    "memo" TEXT,
+    CONSTRAINT "JournalLine_journalEntryId_fkey" FOREIGN KEY ("journalEntryId") REFERENCES "JournalEntry" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "LedgerAccount_companyId_code_key" ON "LedgerAccount"("companyId", "code");
+
+-- CreateIndex
+CREATE INDEX "JournalEntry_companyId_date_idx" ON "JournalEntry"("companyId", "date");
+
+-- CreateIndex
+CREATE INDEX "JournalLine_accountCode_idx" ON "JournalLine"("accountCode");
@@ -0,0 +1,22 @@
+-- AlterTable
+ALTER TABLE "JournalEntry" ADD COLUMN "reversesId" TEXT;
+ALTER TABLE "JournalEntry" ADD COLUMN "autoReverseOn" TEXT;
+
+-- CreateTable
+CREATE TABLE "JournalAuditEvent" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "companyId" TEXT NOT NULL,
+    "journalId" TEXT NOT NULL,
+    "action" TEXT NOT NULL,
+    "at" DATETIME NOT NULL,
+    "by" TEXT,
+    "reason" TEXT,
+    "relatedJournalId" TEXT,
+    CONSTRAINT "JournalAuditEvent_companyId_fkey" FOREIGN KEY ("companyId") REFERENCES "Company" ("id") ON DELETE RESTRICT ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "JournalEntry_reversesId_key" ON "JournalEntry"("reversesId");
+
+-- CreateIndex
+CREATE INDEX "JournalAuditEvent_companyId_journalId_idx" ON "JournalAuditEvent"("companyId", "journalId");
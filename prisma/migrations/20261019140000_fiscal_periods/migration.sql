@@ -0,0 +1,39 @@
+-- AlterTable
+ALTER TABLE "Company" ADD COLUMN "fiscalYearEnd" TEXT NOT NULL DEFAULT '12-31';
+
+-- CreateTable
+CREATE TABLE "FiscalPeriod" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "companyId" TEXT NOT NULL,
+    "periodId" TEXT NOT NULL,
+    "fiscalYear" INTEGER NOT NULL,
+    "name" TEXT NOT NULL,
+    "startDate" TEXT NOT NULL,
+    "endDate" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'open',
+    "closedAt" DATETIME,
+    "closedBy" TEXT,
+    "lockedAt" DATETIME,
+    CONSTRAINT "FiscalPeriod_companyId_fkey" FOREIGN KEY ("companyId") REFERENCES "Company" ("id") ON DELETE RESTRICT ON UPDATE CASCADE
+);
+
+-- CreateTable
+CREATE TABLE "FiscalPeriodEvent" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "companyId" TEXT NOT NULL,
+    "periodId" TEXT NOT NULL,
+    "action" TEXT NOT NULL,
+    "at" DATETIME NOT NULL,
+    "by" TEXT,
+    "reason" TEXT,
+    CONSTRAINT "FiscalPeriodEvent_companyId_fkey" FOREIGN KEY ("companyId") REFERENCES "Company" ("id") ON DELETE RESTRICT ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "FiscalPeriod_companyId_periodId_key" ON "FiscalPeriod"("companyId", "periodId");
+
+-- CreateIndex
+CREATE INDEX "FiscalPeriod_companyId_startDate_idx" ON "FiscalPeriod"("companyId", "startDate");
+
+-- CreateIndex
+CREATE INDEX "FiscalPeriodEvent_companyId_periodId_idx" ON "FiscalPeriodEvent"("companyId", "periodId");
@@ -0,0 +1,101 @@
+-- CreateTable
+CREATE TABLE "TradeParty" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "companyId" TEXT NOT NULL,
+    "partyId" TEXT NOT NULL,
+    "kind" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "paymentTermsDays" INTEGER NOT NULL DEFAULT 30,
+    "tin" TEXT,
+    "address" TEXT,
+    "email" TEXT,
+    "withholdsTax" BOOLEAN,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "TradeParty_companyId_fkey" FOREIGN KEY ("companyId") REFERENCES "Company" ("id") ON DELETE RESTRICT ON UPDATE CASCADE
+);
+
+-- CreateTable
+CREATE TABLE "TradeDocument" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "companyId" TEXT NOT NULL,
+    "documentId" TEXT NOT NULL,
+    "kind" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "number" TEXT NOT NULL,
+    "partyId" TEXT NOT NULL,
+    "date" TEXT NOT NULL,
+    "dueDate" TEXT NOT NULL,
+    "description" TEXT NOT NULL,
+    "netAmount" REAL NOT NULL,
+    "vatAmount" REAL NOT NULL DEFAULT 0,
+    "amount" REAL NOT NULL,
+    "appliesTo" TEXT,
+    "journalId" TEXT,
+    "status" TEXT NOT NULL DEFAULT 'open',
+    CONSTRAINT "TradeDocument_companyId_fkey" FOREIGN KEY ("companyId") REFERENCES "Company" ("id") ON DELETE RESTRICT ON UPDATE CASCADE
+);
+
+-- CreateTable
+CREATE TABLE "TradePayment" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "companyId" TEXT NOT NULL,
+    "paymentId" TEXT NOT NULL,
+    "kind" TEXT NOT NULL,
+    "number" TEXT NOT NULL,
+    "partyId" TEXT NOT NULL,
+    "date" TEXT NOT NULL,
+    "amount" REAL NOT NULL,
+    "method" TEXT NOT NULL,
+    "journalId" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'posted',
+    CONSTRAINT "TradePayment_companyId_fkey" FOREIGN KEY ("companyId") REFERENCES "Company" ("id") ON DELETE RESTRICT ON UPDATE CASCADE
+);
+
+-- CreateTable
+CREATE TABLE "TradeAllocation" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "tradePaymentId" TEXT NOT NULL,
+    "documentId" TEXT NOT NULL,
+    "amount" REAL NOT NULL,
+    CONSTRAINT "TradeAllocation_tradePaymentId_fkey" FOREIGN KEY ("tradePaymentId") REFERENCES "TradePayment" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "TradeParty_companyId_partyId_key" ON "TradeParty"("companyId", "partyId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "TradeDocument_companyId_documentId_key" ON "TradeDocument"("companyId", "documentId");
+
+-- CreateIndex
+CREATE INDEX "TradeDocument_companyId_journalId_idx" ON "TradeDocument"("companyId", "journalId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "TradePayment_companyId_paymentId_key" ON "TradePayment"("companyId", "paymentId");
+
+-- CreateIndex
+CREATE INDEX "TradePayment_companyId_journalId_idx" ON "TradePayment"("companyId", "journalId");
+
+-- Opening balances: whatever is already on the control accounts comes into the
+-- subledgers as one balance brought forward per kind, dated the last journal,
+-- with the ids the accounting engine gives them (see OPENING_BALANCE_RECORDS)
+INSERT INTO "TradeParty" ("id", "companyId", "partyId", "kind", "name", "paymentTermsDays")
+SELECT 'ob-ar-' || "companyId", "companyId", 'CUS-000', 'receivable', 'Opening balances (customers)', 0
+FROM "LedgerAccount" WHERE "code" = '1100' AND ROUND("closingBalance", 2) <> 0;
+
+INSERT INTO "TradeParty" ("id", "companyId", "partyId", "kind", "name", "paymentTermsDays")
+SELECT 'ob-ap-' || "companyId", "companyId", 'SUP-000', 'payable', 'Opening balances (suppliers)', 0
+FROM "LedgerAccount" WHERE "code" = '2000' AND ROUND("closingBalance", 2) <> 0;
+
+INSERT INTO "TradeDocument" ("id", "companyId", "documentId", "kind", "type", "number", "partyId", "date", "dueDate", "description", "netAmount", "vatAmount", "amount")
+SELECT 'ob-ar-' || a."companyId", a."companyId", 'OB-AR', 'receivable', 'opening_balance', 'OB-AR', 'CUS-000',
+    COALESCE((SELECT MAX(j."date") FROM "JournalEntry" j WHERE j."companyId" = a."companyId"), date('now')),
+    COALESCE((SELECT MAX(j."date") FROM "JournalEntry" j WHERE j."companyId" = a."companyId"), date('now')),
+    'Balance brought forward', ROUND(a."closingBalance", 2), 0, ROUND(a."closingBalance", 2)
+FROM "LedgerAccount" a WHERE a."code" = '1100' AND ROUND(a."closingBalance", 2) <> 0;
+
+INSERT INTO "TradeDocument" ("id", "companyId", "documentId", "kind", "type", "number", "partyId", "date", "dueDate", "description", "netAmount", "vatAmount", "amount")
+SELECT 'ob-ap-' || a."companyId", a."companyId", 'OB-AP', 'payable', 'opening_balance', 'OB-AP', 'SUP-000',
+    COALESCE((SELECT MAX(j."date") FROM "JournalEntry" j WHERE j."companyId" = a."companyId"), date('now')),
+    COALESCE((SELECT MAX(j."date") FROM "JournalEntry" j WHERE j."companyId" = a."companyId"), date('now')),
+    'Balance brought forward', ROUND(a."closingBalance", 2), 0, ROUND(a."closingBalance", 2)
+FROM "LedgerAccount" a WHERE a."code" = '2000' AND ROUND(a."closingBalance", 2) <> 0;
@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "Company" ADD COLUMN "lastInvoiceNo" INTEGER NOT NULL DEFAULT 0;
+
+-- AlterTable
+ALTER TABLE "Sale" ADD COLUMN "reference" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Sale_companyId_reference_key" ON "Sale"("companyId", "reference");
@@ -0,0 +1,40 @@
+/**
+ * Golden-file regression runner for tax computations.
+ * Usage:
+ *   npm run test:golden             compare every scenario against its fixture
+ *   npm run test:golden -- --update rewrite fixtures with current output
+ * Exits non-zero when any scenario moved (unless updating).
+ */
+
+import fs from "fs";
+import path from "path";
+import {
+    GoldenScenario,
+    checkGoldenScenario,
+    formatGoldenReport,
+    runGoldenScenario,
+} from "../lib/taxRules/golden";
+
+const GOLDEN_DIR = path.join(process.cwd(), "lib", "taxRules", "__tests__", "golden");
+const update = process.argv.includes("--update");
+
+const files = fs.readdirSync(GOLDEN_DIR).filter(file => file.endsWith(".json")).sort();
+
+if (update) {
+    for (const file of files) {
+        const filePath = path.join(GOLDEN_DIR, file);
+        const scenario = JSON.parse(fs.readFileSync(filePath, "utf-8")) as GoldenScenario;
+        scenario.expected = runGoldenScenario(scenario);
+        fs.writeFileSync(filePath, JSON.stringify(scenario, null, 4) + "\n");
+        console.log(`updated ${file}`);
+    }
+    process.exit(0);
+}
+
+const results = files.map(file => {
+    const scenario = JSON.parse(fs.readFileSync(path.join(GOLDEN_DIR, file), "utf-8")) as GoldenScenario;
+    return checkGoldenScenario(scenario);
+});
+
+console.log(formatGoldenReport(results));
+process.exit(results.every(result => result.passed) ? 0 : 1);
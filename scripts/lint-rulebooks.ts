@@ -0,0 +1,49 @@
+/**
+ * Lints every rulebook under data/rules.
+ * Usage: npm run lint:rules [-- <dir>]
+ * Exits non-zero when any rulebook has errors.
+ */
+
+import path from "path";
+import { discoverRuleBookFiles, readRuleBookFile, RULEBOOK_DIR } from "../lib/taxRules/rulebookDiscovery";
+import { validateRuleBook, formatRuleBookIssues, RuleBookIssue } from "../lib/taxRules/rulebookSchema";
+import { listRuleBooks } from "../lib/taxRules/registry";
+
+const rootDir = process.argv[2] ? path.resolve(process.argv[2]) : RULEBOOK_DIR;
+const files = discoverRuleBookFiles(rootDir);
+const bundled = new Set(listRuleBooks().map(entry => entry.id));
+
+if (files.length === 0) {
+    console.error(`[rules] No rulebooks found under ${rootDir}`);
+    process.exit(1);
+}
+
+let errorCount = 0;
+let warningCount = 0;
+
+for (const file of files) {
+    const relative = path.relative(process.cwd(), file);
+    let issues: RuleBookIssue[];
+
+    try {
+        const { id, rulebook } = readRuleBookFile(file);
+        issues = validateRuleBook(rulebook).issues;
+        if (!bundled.has(id)) {
+            issues.push({ path: "", message: `not bundled in lib/taxRules/registry.ts; client-side calculations will not see it`, severity: "warning" });
+        }
+    } catch (error) {
+        issues = [{ path: "", message: `could not be read: ${(error as Error).message}`, severity: "error" }];
+    }
+
+    errorCount += issues.filter(issue => issue.severity === "error").length;
+    warningCount += issues.filter(issue => issue.severity === "warning").length;
+
+    if (issues.length === 0) {
+        console.log(`✓ ${relative}`);
+    } else {
+        console.log(`✗ ${relative}\n${formatRuleBookIssues(issues)}`);
+    }
+}
+
+console.log(`\n[rules] ${files.length} rulebook(s), ${errorCount} error(s), ${warningCount} warning(s)`);
+process.exit(errorCount > 0 ? 1 : 0);